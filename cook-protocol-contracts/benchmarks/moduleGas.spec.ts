@@ -0,0 +1,395 @@
+import "module-alias/register";
+import path from "path";
+import Web3 from "web3";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, BatchIssuanceSetting, NAVIssuanceSettings } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, EMPTY_BYTES, MAX_UINT_256, ZERO } from "@utils/constants";
+import {
+  BatchIssuanceModule,
+  CKToken,
+  CompoundLeverageModule,
+  GeneralIndexModule,
+  NavIssuanceModule,
+  OneInchExchangeMock,
+} from "@utils/contracts";
+import { CEther } from "@utils/contracts/compound";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  usdc,
+} from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAccounts,
+  getCompoundFixture,
+  getSystemFixture,
+  getUniswapFixture,
+} from "@utils/test/index";
+import { GasRecorder, writeGasReport } from "@utils/gas";
+import { CompoundFixture, SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const web3 = new Web3();
+
+// Written next to the package when run outside the gas:report task
+const DEFAULT_REPORT_PATH = path.join(__dirname, "../gas-report.json");
+
+describe("Module gas benchmarks", () => {
+  const recorder = new GasRecorder();
+
+  let owner: Account;
+  let depositors: Account[];
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  cacheBeforeEach(async () => {
+    const accounts = await getAccounts();
+    owner = accounts[0];
+    depositors = accounts.slice(1);
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+  });
+
+  after(async () => {
+    writeGasReport(recorder.getReport(), process.env.GAS_REPORT_FILE || DEFAULT_REPORT_PATH);
+  });
+
+  describe("BasicIssuanceModule#issue", async () => {
+    [1, 5, 10].forEach(componentCount => {
+      it(`issues a CKToken with ${componentCount} components`, async () => {
+        const components: Address[] = [];
+        const units: BigNumber[] = [];
+        for (let i = 0; i < componentCount; i++) {
+          const token = await deployer.mocks.deployTokenMock(owner.address);
+          await token.approve(setup.issuanceModule.address, MAX_UINT_256);
+
+          components.push(token.address);
+          units.push(ether(1));
+        }
+
+        const ckToken = await setup.createCKToken(components, units, [setup.issuanceModule.address]);
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+        // Issue once first so the benchmark pays for updating, not creating, the CKToken balance slot
+        await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+
+        await recorder.measure(
+          `BasicIssuanceModule.issue: ${componentCount} components`,
+          setup.issuanceModule.issue(ckToken.address, ether(1), owner.address)
+        );
+      });
+    });
+  });
+
+  context("with Uniswap liquidity for WETH pairs", async () => {
+    let uniswapSetup: UniswapFixture;
+    let sushiswapSetup: UniswapFixture;
+
+    const uniswapAdapterName = "UNISWAP";
+    const sushiswapAdapterName = "SUSHISWAP";
+
+    cacheBeforeEach(async () => {
+      uniswapSetup = getUniswapFixture(owner.address);
+      sushiswapSetup = getUniswapFixture(owner.address);
+      await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+      await sushiswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+      await setup.weth.approve(uniswapSetup.router.address, ether(2000));
+      await setup.dai.approve(uniswapSetup.router.address, ether(460000));
+      await uniswapSetup.router.addLiquidity(
+        setup.weth.address,
+        setup.dai.address,
+        ether(2000),
+        ether(460000),
+        ether(1485),
+        ether(173000),
+        owner.address,
+        MAX_UINT_256
+      );
+
+      await setup.weth.approve(sushiswapSetup.router.address, ether(1000));
+      await setup.wbtc.approve(sushiswapSetup.router.address, ether(26));
+      await sushiswapSetup.router.addLiquidity(
+        setup.weth.address,
+        setup.wbtc.address,
+        ether(1000),
+        bitcoin(25.5555),
+        ether(999),
+        ether(25.3),
+        owner.address,
+        MAX_UINT_256
+      );
+    });
+
+    describe("GeneralIndexModule#trade", async () => {
+      let indexModule: GeneralIndexModule;
+      let ckToken: CKToken;
+
+      cacheBeforeEach(async () => {
+        indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+        await setup.controller.addModule(indexModule.address);
+
+        const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+        await setup.integrationRegistry.addIntegration(indexModule.address, uniswapAdapterName, uniswapExchangeAdapter.address);
+
+        ckToken = await setup.createCKToken(
+          [setup.dai.address, setup.weth.address],
+          [ether(100), ether(0.434782609)],               // $100 of each
+          [setup.issuanceModule.address, indexModule.address]
+        );
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        await indexModule.initialize(ckToken.address);
+        await indexModule.setTradeMaximums(ckToken.address, [setup.dai.address], [ether(1000)]);
+        await indexModule.setExchanges(ckToken.address, [setup.dai.address], [uniswapAdapterName]);
+        await indexModule.setCoolOffPeriods(ckToken.address, [setup.dai.address], [ZERO]);
+        await indexModule.setTraderStatus(ckToken.address, [owner.address], [true]);
+
+        await setup.approveAndIssueCKToken(ckToken, ether(20));
+
+        // Sell half of the DAI for WETH
+        await indexModule.startRebalance(
+          ckToken.address,
+          [],
+          [],
+          [ether(50), ether(0.434782609)],
+          await ckToken.positionMultiplier()
+        );
+      });
+
+      it("sells a component for WETH", async () => {
+        await recorder.measure(
+          "GeneralIndexModule.trade: sell DAI on Uniswap",
+          indexModule.trade(ckToken.address, setup.dai.address, ZERO)
+        );
+      });
+    });
+
+    describe("BatchIssuanceModule#batchIssue", async () => {
+      let batchIssuanceModule: BatchIssuanceModule;
+      let ckToken: CKToken;
+
+      cacheBeforeEach(async () => {
+        batchIssuanceModule = await deployer.modules.deployBatchIssuanceModule(
+          setup.controller.address,
+          setup.weth.address,
+          setup.issuanceModule.address
+        );
+        await setup.controller.addModule(batchIssuanceModule.address);
+
+        const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+        const sushiswapExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(sushiswapSetup.router.address);
+        await setup.integrationRegistry.batchAddIntegration(
+          [batchIssuanceModule.address, batchIssuanceModule.address],
+          [uniswapAdapterName, sushiswapAdapterName],
+          [uniswapExchangeAdapter.address, sushiswapExchangeAdapter.address]
+        );
+
+        ckToken = await setup.createCKToken(
+          [setup.dai.address, setup.wbtc.address],
+          [ether(86.9565217), bitcoin(.01111111)],        // $100 of each
+          [setup.issuanceModule.address, batchIssuanceModule.address]
+        );
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        await batchIssuanceModule.initialize(ckToken.address, {
+          feeRecipient: owner.address,
+          managerFees: [ether(0.04), ether(0.05)],
+          maxManagerFee: ether(0.1),
+          minCKTokenSupply: ether(5),
+        } as BatchIssuanceSetting);
+        await batchIssuanceModule.setExchanges(
+          ckToken.address,
+          [setup.dai.address, setup.wbtc.address],
+          [uniswapAdapterName, sushiswapAdapterName]
+        );
+
+        // Batch issuance requires the minimum supply to exist already
+        await setup.approveAndIssueCKToken(ckToken, ether(10));
+      });
+
+      [1, 4, 8].forEach(depositorCount => {
+        it(`issues a round with ${depositorCount} depositors`, async () => {
+          for (let i = 0; i < depositorCount; i++) {
+            await setup.weth.transfer(depositors[i].address, ether(0.5));
+            await setup.weth.connect(depositors[i].wallet).approve(batchIssuanceModule.address, ether(0.5));
+            await batchIssuanceModule.connect(depositors[i].wallet).deposit(ckToken.address, ether(0.5));
+          }
+
+          await recorder.measure(
+            `BatchIssuanceModule.batchIssue: ${depositorCount} depositors`,
+            batchIssuanceModule.batchIssue(ckToken.address)
+          );
+        });
+      });
+    });
+  });
+
+  describe("NavIssuanceModule#issue and #redeem", async () => {
+    let navIssuanceModule: NavIssuanceModule;
+    let ckToken: CKToken;
+
+    cacheBeforeEach(async () => {
+      navIssuanceModule = await deployer.modules.deployNavIssuanceModule(setup.controller.address, setup.weth.address);
+      await setup.controller.addModule(navIssuanceModule.address);
+
+      ckToken = await setup.createCKToken(
+        [setup.weth.address, setup.usdc.address, setup.wbtc.address, setup.dai.address],
+        [ether(1), usdc(270), bitcoin(1).div(10), ether(600)],
+        [setup.issuanceModule.address, navIssuanceModule.address]
+      );
+      await navIssuanceModule.initialize(ckToken.address, {
+        managerIssuanceHook: ADDRESS_ZERO,
+        managerRedemptionHook: ADDRESS_ZERO,
+        reserveAssets: [setup.usdc.address, setup.weth.address],
+        feeRecipient: setup.feeRecipient,                  // Not the owner, the manager fee is pulled from the issuer
+        managerFees: [ether(0.001), ether(0.002)],
+        maxManagerFee: ether(0.02),
+        premiumPercentage: ether(0.01),
+        maxPremiumPercentage: ether(0.1),
+        minCKTokenSupply: ether(1),
+      } as NAVIssuanceSettings);
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      await setup.approveAndIssueCKToken(ckToken, ether(3));
+      await setup.usdc.approve(navIssuanceModule.address, usdc(100000));
+    });
+
+    it("issues with a reserve asset", async () => {
+      await recorder.measure(
+        "NavIssuanceModule.issue: USDC reserve",
+        navIssuanceModule.issue(ckToken.address, setup.usdc.address, usdc(1000), ZERO, owner.address)
+      );
+    });
+
+    it("redeems into a reserve asset", async () => {
+      await recorder.measure(
+        "NavIssuanceModule.redeem: USDC reserve",
+        navIssuanceModule.redeem(ckToken.address, setup.usdc.address, ether(0.1), ZERO, owner.address)
+      );
+    });
+  });
+
+  describe("CompoundLeverageModule#lever", async () => {
+    let compoundSetup: CompoundFixture;
+    let cEther: CEther;
+    let compoundLeverageModule: CompoundLeverageModule;
+    let oneInchExchangeMock: OneInchExchangeMock;
+    let ckToken: CKToken;
+
+    const oneInchAdapterName = "ONEINCHTOWETH";
+
+    cacheBeforeEach(async () => {
+      compoundSetup = getCompoundFixture(owner.address);
+      await compoundSetup.initialize();
+
+      const cTokenInitialMantissa = ether(200000000);
+      cEther = await compoundSetup.createAndEnableCEther(
+        cTokenInitialMantissa,
+        compoundSetup.comptroller.address,
+        compoundSetup.interestRateModel.address,
+        "Compound ether",
+        "cETH",
+        8,
+        ether(0.75), // 75% collateral factor
+        ether(590)
+      );
+      const cDai = await compoundSetup.createAndEnableCToken(
+        setup.dai.address,
+        cTokenInitialMantissa,
+        compoundSetup.comptroller.address,
+        compoundSetup.interestRateModel.address,
+        "Compound Dai",
+        "cDAI",
+        8,
+        ether(0.75), // 75% collateral factor
+        ether(1)
+      );
+
+      const debtIssuanceMock = await deployer.mocks.deployDebtIssuanceMock();
+      await setup.controller.addModule(debtIssuanceMock.address);
+
+      const compoundLibrary = await deployer.libraries.deployCompound();
+      compoundLeverageModule = await deployer.modules.deployCompoundLeverageModule(
+        setup.controller.address,
+        compoundSetup.comp.address,
+        compoundSetup.comptroller.address,
+        cEther.address,
+        setup.weth.address,
+        "contracts/protocol/integration/lib/Compound.sol:Compound",
+        compoundLibrary.address,
+      );
+      await setup.controller.addModule(compoundLeverageModule.address);
+
+      // Mock 1inch exchange trading a fixed 590 DAI for 1 WETH
+      oneInchExchangeMock = await deployer.mocks.deployOneInchExchangeMock(
+        setup.dai.address,
+        setup.weth.address,
+        ether(590),
+        ether(1),
+      );
+      const oneInchExchangeAdapter = await deployer.adapters.deployOneInchExchangeAdapter(
+        oneInchExchangeMock.address,
+        oneInchExchangeMock.address,
+        web3.eth.abi.encodeFunctionSignature("swap(address,address,uint256,uint256,uint256,address,address[],bytes,uint256[],uint256[])")
+      );
+      await setup.integrationRegistry.addIntegration(compoundLeverageModule.address, oneInchAdapterName, oneInchExchangeAdapter.address);
+      await setup.integrationRegistry.addIntegration(compoundLeverageModule.address, "DefaultIssuanceModule", debtIssuanceMock.address);
+
+      ckToken = await setup.createCKToken(
+        [cEther.address],
+        [BigNumber.from(10000000000)],
+        [compoundLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      await compoundLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      await compoundLeverageModule.initialize(
+        ckToken.address,
+        [setup.weth.address, setup.dai.address],
+        [setup.dai.address, setup.weth.address]
+      );
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      await oneInchExchangeMock.addCKTokenAddress(ckToken.address);
+      await setup.weth.transfer(oneInchExchangeMock.address, ether(10));
+
+      // Supply DAI for the CKToken to borrow and cETH to issue with
+      await setup.dai.approve(cDai.address, ether(100000));
+      await cDai.mint(ether(100000));
+      await cEther.mint({ value: ether(1000) });
+      await cEther.approve(setup.issuanceModule.address, ether(1000));
+
+      await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+    });
+
+    it("borrows DAI and trades it for WETH collateral", async () => {
+      const tradeData = oneInchExchangeMock.interface.encodeFunctionData("swap", [
+        setup.dai.address, // Send token
+        setup.weth.address, // Receive token
+        ether(590), // Send quantity
+        ether(1), // Min receive quantity
+        ZERO,
+        ADDRESS_ZERO,
+        [ADDRESS_ZERO],
+        EMPTY_BYTES,
+        [ZERO],
+        [ZERO],
+      ]);
+
+      await recorder.measure(
+        "CompoundLeverageModule.lever: borrow DAI for WETH",
+        compoundLeverageModule.lever(
+          ckToken.address,
+          setup.dai.address,
+          setup.weth.address,
+          ether(590),
+          ether(1),
+          oneInchAdapterName,
+          tradeData
+        )
+      );
+    });
+  });
+});
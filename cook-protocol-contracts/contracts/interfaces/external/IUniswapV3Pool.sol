@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity 0.6.10;
+
+
+/// @title The interface for a Uniswap V3 Pool
+/// @notice Subset of the pool's immutables, state and actions used to set up and inspect pools
+interface IUniswapV3Pool {
+    function factory() external view returns (address);
+
+    function token0() external view returns (address);
+
+    function token1() external view returns (address);
+
+    function fee() external view returns (uint24);
+
+    function tickSpacing() external view returns (int24);
+
+    /// @notice The currently in range liquidity available to the pool
+    function liquidity() external view returns (uint128);
+
+    /// @notice The current price, tick and oracle state of the pool
+    function slot0()
+        external
+        view
+        returns (
+            uint160 sqrtPriceX96,
+            int24 tick,
+            uint16 observationIndex,
+            uint16 observationCardinality,
+            uint16 observationCardinalityNext,
+            uint8 feeProtocol,
+            bool unlocked
+        );
+
+    /// @notice Sets the initial price for the pool
+    /// @param sqrtPriceX96 the initial sqrt price of the pool as a Q64.96
+    function initialize(uint160 sqrtPriceX96) external;
+}
@@ -0,0 +1,199 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental ABIEncoderV2;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { ILendingPool } from "../../interfaces/external/aave-v2/ILendingPool.sol";
+
+/**
+ * @title AaveV2ATokenMock
+ * @author Cook Finance
+ * @notice Mock contract for Aave's AToken. Balances are stored scaled by the reserve liquidity index of the lending pool so
+ * interest can be accrued by updating the index. Transfers are finalized on the lending pool which validates the health factor
+ * of the sender and toggles usage as collateral the same way Aave does.
+ */
+contract AaveV2ATokenMock {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    /* ============ Events ============ */
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    /* ============ Constants ============ */
+
+    uint256 internal constant RAY = 1e27;
+
+    // Aave error codes
+    string internal constant CT_CALLER_MUST_BE_LENDING_POOL = "29";
+    string internal constant CT_INVALID_MINT_AMOUNT = "56";
+    string internal constant CT_INVALID_BURN_AMOUNT = "57";
+
+    /* ============ State Variables ============ */
+
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+
+    ILendingPool public immutable POOL;
+    address public immutable UNDERLYING_ASSET_ADDRESS;
+
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    mapping(address => uint256) internal scaledBalances;
+    uint256 internal totalScaledSupply;
+
+    /* ============ Modifiers ============ */
+
+    modifier onlyLendingPool() {
+        require(msg.sender == address(POOL), CT_CALLER_MUST_BE_LENDING_POOL);
+        _;
+    }
+
+    /* ============ Constructor ============ */
+
+    constructor(
+        ILendingPool _pool,
+        address _underlyingAsset,
+        string memory _name,
+        string memory _symbol,
+        uint8 _decimals
+    )
+        public
+    {
+        POOL = _pool;
+        UNDERLYING_ASSET_ADDRESS = _underlyingAsset;
+        name = _name;
+        symbol = _symbol;
+        decimals = _decimals;
+    }
+
+    /* ============ External Functions ============ */
+
+    function balanceOf(address _user) public view returns (uint256) {
+        return _rayMul(scaledBalances[_user], POOL.getReserveNormalizedIncome(UNDERLYING_ASSET_ADDRESS));
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return _rayMul(totalScaledSupply, POOL.getReserveNormalizedIncome(UNDERLYING_ASSET_ADDRESS));
+    }
+
+    function scaledBalanceOf(address _user) external view returns (uint256) {
+        return scaledBalances[_user];
+    }
+
+    function approve(address _spender, uint256 _amount) external returns (bool) {
+        allowance[msg.sender][_spender] = _amount;
+        emit Approval(msg.sender, _spender, _amount);
+        return true;
+    }
+
+    function transfer(address _to, uint256 _amount) external returns (bool) {
+        _transfer(msg.sender, _to, _amount);
+        return true;
+    }
+
+    function transferFrom(address _from, address _to, uint256 _amount) external returns (bool) {
+        allowance[_from][msg.sender] = allowance[_from][msg.sender].sub(_amount, "ERC20: transfer amount exceeds allowance");
+        _transfer(_from, _to, _amount);
+        return true;
+    }
+
+    /**
+     * Mints aTokens to the user on deposit. Returns true if the user had no balance before the mint.
+     */
+    function mint(address _user, uint256 _amount) external onlyLendingPool returns (bool) {
+        uint256 scaledAmount = _rayDiv(_amount, POOL.getReserveNormalizedIncome(UNDERLYING_ASSET_ADDRESS));
+        require(scaledAmount != 0, CT_INVALID_MINT_AMOUNT);
+
+        uint256 previousScaledBalance = scaledBalances[_user];
+        scaledBalances[_user] = previousScaledBalance.add(scaledAmount);
+        totalScaledSupply = totalScaledSupply.add(scaledAmount);
+
+        emit Transfer(address(0), _user, _amount);
+
+        return previousScaledBalance == 0;
+    }
+
+    /**
+     * Burns aTokens from the user on withdraw and sends the underlying to the receiver.
+     */
+    function burn(address _user, address _receiver, uint256 _amount) external onlyLendingPool {
+        // Burn the full scaled balance when withdrawing everything so no dust is left behind from rounding
+        uint256 scaledAmount = _amount == balanceOf(_user)
+            ? scaledBalances[_user]
+            : _rayDiv(_amount, POOL.getReserveNormalizedIncome(UNDERLYING_ASSET_ADDRESS));
+        require(scaledAmount != 0, CT_INVALID_BURN_AMOUNT);
+
+        scaledBalances[_user] = scaledBalances[_user].sub(scaledAmount);
+        totalScaledSupply = totalScaledSupply.sub(scaledAmount);
+
+        IERC20(UNDERLYING_ASSET_ADDRESS).safeTransfer(_receiver, _amount);
+
+        emit Transfer(_user, address(0), _amount);
+    }
+
+    /**
+     * Sends underlying held as reserve liquidity to the target on borrow.
+     */
+    function transferUnderlyingTo(address _target, uint256 _amount) external onlyLendingPool returns (uint256) {
+        IERC20(UNDERLYING_ASSET_ADDRESS).safeTransfer(_target, _amount);
+        return _amount;
+    }
+
+    /**
+     * Moves aTokens on liquidation without validating the health factor of the liquidated user.
+     */
+    function transferOnLiquidation(address _from, address _to, uint256 _amount) external onlyLendingPool {
+        _moveScaledBalance(_from, _to, _amount);
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _transfer(address _from, address _to, uint256 _amount) internal {
+        uint256 fromBalanceBefore = balanceOf(_from);
+        uint256 toBalanceBefore = balanceOf(_to);
+
+        _moveScaledBalance(_from, _to, _amount);
+
+        POOL.finalizeTransfer(UNDERLYING_ASSET_ADDRESS, _from, _to, _amount, fromBalanceBefore, toBalanceBefore);
+    }
+
+    function _moveScaledBalance(address _from, address _to, uint256 _amount) internal {
+        uint256 scaledAmount = _rayDiv(_amount, POOL.getReserveNormalizedIncome(UNDERLYING_ASSET_ADDRESS));
+
+        scaledBalances[_from] = scaledBalances[_from].sub(scaledAmount, "ERC20: transfer amount exceeds balance");
+        scaledBalances[_to] = scaledBalances[_to].add(scaledAmount);
+
+        emit Transfer(_from, _to, _amount);
+    }
+
+    function _rayMul(uint256 _a, uint256 _b) internal pure returns (uint256) {
+        return _a.mul(_b).add(RAY / 2).div(RAY);
+    }
+
+    function _rayDiv(uint256 _a, uint256 _b) internal pure returns (uint256) {
+        return _a.mul(RAY).add(_b / 2).div(_b);
+    }
+}
@@ -0,0 +1,652 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental ABIEncoderV2;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { AaveV2ATokenMock } from "./AaveV2ATokenMock.sol";
+import { AaveV2PriceOracleMock } from "./AaveV2PriceOracleMock.sol";
+import { AaveV2StableDebtTokenMock } from "./AaveV2StableDebtTokenMock.sol";
+import { AaveV2VariableDebtTokenMock } from "./AaveV2VariableDebtTokenMock.sol";
+import { ILendingPoolAddressesProvider } from "../../interfaces/external/aave-v2/ILendingPoolAddressesProvider.sol";
+
+/**
+ * @title AaveV2LendingPoolMock
+ * @author Cook Finance
+ * @notice Mock contract for Aave's LendingPool. Supports deposit, withdraw, borrow, repay, swapping borrow rate mode, toggling usage
+ * as collateral and liquidations. Collateral and health factor checks follow Aave's validation logic using prices from the price
+ * oracle registered on the addresses provider. Interest is not accrued over time; instead the liquidity and variable borrow indexes
+ * of a reserve can be set directly. Liquidations only cover variable debt and credit delegation is not supported.
+ */
+contract AaveV2LendingPoolMock {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    /* ============ Structs ============ */
+
+    struct ReserveTokens {
+        AaveV2ATokenMock aToken;
+        AaveV2StableDebtTokenMock stableDebtToken;
+        AaveV2VariableDebtTokenMock variableDebtToken;
+    }
+
+    struct ReserveConfiguration {
+        uint256 decimals;
+        uint256 ltv;                                    // Loan to value in basis points
+        uint256 liquidationThreshold;                   // Liquidation threshold in basis points
+        uint256 liquidationBonus;                       // Liquidation bonus in basis points, e.g. 10500 is a 5% bonus
+        bool usageAsCollateralEnabled;
+        bool borrowingEnabled;
+        bool stableBorrowRateEnabled;
+        bool isActive;
+        bool isFrozen;
+    }
+
+    struct UserAccountData {
+        uint256 totalCollateralETH;
+        uint256 totalDebtETH;
+        uint256 availableBorrowsETH;
+        uint256 currentLiquidationThreshold;
+        uint256 ltv;
+        uint256 healthFactor;
+    }
+
+    /* ============ Events ============ */
+
+    event Deposit(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referral);
+    event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount);
+    event Borrow(
+        address indexed reserve,
+        address user,
+        address indexed onBehalfOf,
+        uint256 amount,
+        uint256 borrowRateMode,
+        uint16 indexed referral
+    );
+    event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount);
+    event Swap(address indexed reserve, address indexed user, uint256 rateMode);
+    event ReserveUsedAsCollateralEnabled(address indexed reserve, address indexed user);
+    event ReserveUsedAsCollateralDisabled(address indexed reserve, address indexed user);
+    event LiquidationCall(
+        address indexed collateralAsset,
+        address indexed debtAsset,
+        address indexed user,
+        uint256 debtToCover,
+        uint256 liquidatedCollateralAmount,
+        address liquidator,
+        bool receiveAToken
+    );
+
+    /* ============ Constants ============ */
+
+    uint256 internal constant RAY = 1e27;
+    uint256 internal constant PERCENTAGE_FACTOR = 1e4;
+    uint256 internal constant HEALTH_FACTOR_LIQUIDATION_THRESHOLD = 1e18;
+    uint256 internal constant LIQUIDATION_CLOSE_FACTOR_PERCENT = 5000;
+    uint256 internal constant STABLE_RATE_MODE = 1;
+    uint256 internal constant VARIABLE_RATE_MODE = 2;
+
+    // Aave error codes
+    string internal constant VL_INVALID_AMOUNT = "1";
+    string internal constant VL_NO_ACTIVE_RESERVE = "2";
+    string internal constant VL_RESERVE_FROZEN = "3";
+    string internal constant VL_NOT_ENOUGH_AVAILABLE_USER_BALANCE = "5";
+    string internal constant VL_TRANSFER_NOT_ALLOWED = "6";
+    string internal constant VL_BORROWING_NOT_ENABLED = "7";
+    string internal constant VL_INVALID_INTEREST_RATE_MODE_SELECTED = "8";
+    string internal constant VL_COLLATERAL_BALANCE_IS_0 = "9";
+    string internal constant VL_HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD = "10";
+    string internal constant VL_COLLATERAL_CANNOT_COVER_NEW_BORROW = "11";
+    string internal constant VL_STABLE_BORROWING_NOT_ENABLED = "12";
+    string internal constant VL_NO_DEBT_OF_SELECTED_TYPE = "15";
+    string internal constant VL_NO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF = "16";
+    string internal constant VL_NO_STABLE_RATE_LOAN_IN_RESERVE = "17";
+    string internal constant VL_NO_VARIABLE_RATE_LOAN_IN_RESERVE = "18";
+    string internal constant VL_UNDERLYING_BALANCE_NOT_GREATER_THAN_0 = "19";
+    string internal constant VL_DEPOSIT_ALREADY_IN_USE = "20";
+    string internal constant RL_RESERVE_ALREADY_INITIALIZED = "32";
+    string internal constant LPCM_HEALTH_FACTOR_NOT_BELOW_THRESHOLD = "42";
+    string internal constant LPCM_COLLATERAL_CANNOT_BE_LIQUIDATED = "43";
+    string internal constant LPCM_SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER = "44";
+    string internal constant LP_CALLER_MUST_BE_AN_ATOKEN = "58";
+
+    /* ============ State Variables ============ */
+
+    ILendingPoolAddressesProvider public immutable addressesProvider;
+
+    mapping(address => ReserveTokens) internal reserveTokens;
+    mapping(address => ReserveConfiguration) internal reserveConfigurations;
+    mapping(address => uint256) internal liquidityIndexes;
+    mapping(address => uint256) internal variableBorrowIndexes;
+    mapping(address => mapping(address => bool)) internal usingAsCollateral;
+    address[] internal reservesList;
+
+    /* ============ Constructor ============ */
+
+    constructor(ILendingPoolAddressesProvider _addressesProvider) public {
+        addressesProvider = _addressesProvider;
+    }
+
+    /* ============ Reserve Configuration Functions ============ */
+
+    function initReserve(
+        address _asset,
+        AaveV2ATokenMock _aToken,
+        AaveV2StableDebtTokenMock _stableDebtToken,
+        AaveV2VariableDebtTokenMock _variableDebtToken,
+        uint256 _decimals
+    )
+        external
+    {
+        require(address(reserveTokens[_asset].aToken) == address(0), RL_RESERVE_ALREADY_INITIALIZED);
+
+        reserveTokens[_asset] = ReserveTokens(_aToken, _stableDebtToken, _variableDebtToken);
+        reserveConfigurations[_asset].decimals = _decimals;
+        reserveConfigurations[_asset].isActive = true;
+        liquidityIndexes[_asset] = RAY;
+        variableBorrowIndexes[_asset] = RAY;
+
+        reservesList.push(_asset);
+    }
+
+    /**
+     * Mirrors Aave's LendingPoolConfigurator. Setting a liquidation threshold of 0 disables the reserve as collateral.
+     */
+    function configureReserveAsCollateral(
+        address _asset,
+        uint256 _ltv,
+        uint256 _liquidationThreshold,
+        uint256 _liquidationBonus
+    )
+        external
+    {
+        require(_ltv <= _liquidationThreshold, "Invalid configuration");
+
+        ReserveConfiguration storage config = reserveConfigurations[_asset];
+        config.ltv = _ltv;
+        config.liquidationThreshold = _liquidationThreshold;
+        config.liquidationBonus = _liquidationBonus;
+        config.usageAsCollateralEnabled = _liquidationThreshold != 0;
+    }
+
+    function setBorrowingEnabled(address _asset, bool _borrowingEnabled, bool _stableBorrowRateEnabled) external {
+        reserveConfigurations[_asset].borrowingEnabled = _borrowingEnabled;
+        reserveConfigurations[_asset].stableBorrowRateEnabled = _stableBorrowRateEnabled;
+    }
+
+    function setReserveActive(address _asset, bool _isActive) external {
+        reserveConfigurations[_asset].isActive = _isActive;
+    }
+
+    function setReserveFrozen(address _asset, bool _isFrozen) external {
+        reserveConfigurations[_asset].isFrozen = _isFrozen;
+    }
+
+    /**
+     * Sets the normalized income and normalized variable debt of a reserve in ray. Used to simulate interest accrual.
+     */
+    function setReserveIndexes(address _asset, uint256 _liquidityIndex, uint256 _variableBorrowIndex) external {
+        liquidityIndexes[_asset] = _liquidityIndex;
+        variableBorrowIndexes[_asset] = _variableBorrowIndex;
+    }
+
+    /* ============ External Functions ============ */
+
+    function deposit(address _asset, uint256 _amount, address _onBehalfOf, uint16 _referralCode) external {
+        _validateActiveAndNotFrozen(_asset);
+        require(_amount != 0, VL_INVALID_AMOUNT);
+
+        AaveV2ATokenMock aToken = reserveTokens[_asset].aToken;
+        IERC20(_asset).safeTransferFrom(msg.sender, address(aToken), _amount);
+
+        bool isFirstDeposit = aToken.mint(_onBehalfOf, _amount);
+        if (isFirstDeposit) {
+            _setUsingAsCollateral(_asset, _onBehalfOf, true);
+        }
+
+        emit Deposit(_asset, msg.sender, _onBehalfOf, _amount, _referralCode);
+    }
+
+    function withdraw(address _asset, uint256 _amount, address _to) external returns (uint256) {
+        AaveV2ATokenMock aToken = reserveTokens[_asset].aToken;
+        uint256 userBalance = aToken.balanceOf(msg.sender);
+        uint256 amountToWithdraw = _amount == uint256(-1) ? userBalance : _amount;
+
+        require(amountToWithdraw != 0, VL_INVALID_AMOUNT);
+        require(amountToWithdraw <= userBalance, VL_NOT_ENOUGH_AVAILABLE_USER_BALANCE);
+        require(reserveConfigurations[_asset].isActive, VL_NO_ACTIVE_RESERVE);
+        require(_balanceDecreaseAllowed(_asset, msg.sender, amountToWithdraw), VL_TRANSFER_NOT_ALLOWED);
+
+        if (amountToWithdraw == userBalance) {
+            _setUsingAsCollateral(_asset, msg.sender, false);
+        }
+
+        aToken.burn(msg.sender, _to, amountToWithdraw);
+
+        emit Withdraw(_asset, msg.sender, _to, amountToWithdraw);
+
+        return amountToWithdraw;
+    }
+
+    function borrow(
+        address _asset,
+        uint256 _amount,
+        uint256 _interestRateMode,
+        uint16 _referralCode,
+        address _onBehalfOf
+    )
+        external
+    {
+        require(_onBehalfOf == msg.sender, "Credit delegation not supported");
+        _validateBorrow(_asset, msg.sender, _amount, _interestRateMode);
+
+        ReserveTokens storage tokens = reserveTokens[_asset];
+        if (_interestRateMode == STABLE_RATE_MODE) {
+            tokens.stableDebtToken.mint(_onBehalfOf, _amount);
+        } else {
+            tokens.variableDebtToken.mint(_onBehalfOf, _amount);
+        }
+
+        tokens.aToken.transferUnderlyingTo(msg.sender, _amount);
+
+        emit Borrow(_asset, msg.sender, _onBehalfOf, _amount, _interestRateMode, _referralCode);
+    }
+
+    function repay(address _asset, uint256 _amount, uint256 _rateMode, address _onBehalfOf) external returns (uint256) {
+        ReserveTokens storage tokens = reserveTokens[_asset];
+        uint256 debt = _rateMode == STABLE_RATE_MODE
+            ? tokens.stableDebtToken.balanceOf(_onBehalfOf)
+            : tokens.variableDebtToken.balanceOf(_onBehalfOf);
+
+        require(reserveConfigurations[_asset].isActive, VL_NO_ACTIVE_RESERVE);
+        require(_amount != 0, VL_INVALID_AMOUNT);
+        require(_rateMode == STABLE_RATE_MODE || _rateMode == VARIABLE_RATE_MODE, VL_INVALID_INTEREST_RATE_MODE_SELECTED);
+        require(debt > 0, VL_NO_DEBT_OF_SELECTED_TYPE);
+        require(_amount != uint256(-1) || msg.sender == _onBehalfOf, VL_NO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF);
+
+        uint256 paybackAmount = _amount < debt ? _amount : debt;
+
+        if (_rateMode == STABLE_RATE_MODE) {
+            tokens.stableDebtToken.burn(_onBehalfOf, paybackAmount);
+        } else {
+            tokens.variableDebtToken.burn(_onBehalfOf, paybackAmount);
+        }
+
+        IERC20(_asset).safeTransferFrom(msg.sender, address(tokens.aToken), paybackAmount);
+
+        emit Repay(_asset, _onBehalfOf, msg.sender, paybackAmount);
+
+        return paybackAmount;
+    }
+
+    function swapBorrowRateMode(address _asset, uint256 _rateMode) external {
+        ReserveTokens storage tokens = reserveTokens[_asset];
+        uint256 stableDebt = tokens.stableDebtToken.balanceOf(msg.sender);
+        uint256 variableDebt = tokens.variableDebtToken.balanceOf(msg.sender);
+
+        _validateActiveAndNotFrozen(_asset);
+
+        if (_rateMode == STABLE_RATE_MODE) {
+            require(stableDebt > 0, VL_NO_STABLE_RATE_LOAN_IN_RESERVE);
+            tokens.stableDebtToken.burn(msg.sender, stableDebt);
+            tokens.variableDebtToken.mint(msg.sender, stableDebt);
+        } else if (_rateMode == VARIABLE_RATE_MODE) {
+            require(variableDebt > 0, VL_NO_VARIABLE_RATE_LOAN_IN_RESERVE);
+            require(reserveConfigurations[_asset].stableBorrowRateEnabled, VL_STABLE_BORROWING_NOT_ENABLED);
+            tokens.variableDebtToken.burn(msg.sender, variableDebt);
+            tokens.stableDebtToken.mint(msg.sender, variableDebt);
+        } else {
+            revert(VL_INVALID_INTEREST_RATE_MODE_SELECTED);
+        }
+
+        emit Swap(_asset, msg.sender, _rateMode);
+    }
+
+    function setUserUseReserveAsCollateral(address _asset, bool _useAsCollateral) external {
+        uint256 underlyingBalance = reserveTokens[_asset].aToken.balanceOf(msg.sender);
+
+        require(underlyingBalance > 0, VL_UNDERLYING_BALANCE_NOT_GREATER_THAN_0);
+        require(
+            _useAsCollateral || _balanceDecreaseAllowed(_asset, msg.sender, underlyingBalance),
+            VL_DEPOSIT_ALREADY_IN_USE
+        );
+
+        _setUsingAsCollateral(_asset, msg.sender, _useAsCollateral);
+    }
+
+    /**
+     * Liquidates up to 50% of the variable debt of an undercollateralized user, seizing collateral plus the liquidation bonus
+     * of the collateral reserve.
+     */
+    function liquidationCall(
+        address _collateralAsset,
+        address _debtAsset,
+        address _user,
+        uint256 _debtToCover,
+        bool _receiveAToken
+    )
+        external
+    {
+        require(_calculateUserAccountData(_user).healthFactor < HEALTH_FACTOR_LIQUIDATION_THRESHOLD, LPCM_HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
+        require(
+            usingAsCollateral[_user][_collateralAsset] && reserveConfigurations[_collateralAsset].liquidationThreshold > 0,
+            LPCM_COLLATERAL_CANNOT_BE_LIQUIDATED
+        );
+
+        AaveV2VariableDebtTokenMock variableDebtToken = reserveTokens[_debtAsset].variableDebtToken;
+        uint256 userVariableDebt = variableDebtToken.balanceOf(_user);
+        require(userVariableDebt > 0, LPCM_SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER);
+
+        uint256 maxLiquidatableDebt = userVariableDebt.mul(LIQUIDATION_CLOSE_FACTOR_PERCENT).div(PERCENTAGE_FACTOR);
+        uint256 debtToLiquidate = _debtToCover > maxLiquidatableDebt ? maxLiquidatableDebt : _debtToCover;
+
+        AaveV2ATokenMock collateralAToken = reserveTokens[_collateralAsset].aToken;
+        uint256 userCollateralBalance = collateralAToken.balanceOf(_user);
+
+        (uint256 collateralToSeize, uint256 debtAmountNeeded) = _calculateAvailableCollateralToLiquidate(
+            _collateralAsset,
+            _debtAsset,
+            debtToLiquidate,
+            userCollateralBalance
+        );
+
+        variableDebtToken.burn(_user, debtAmountNeeded);
+
+        if (collateralToSeize == userCollateralBalance) {
+            _setUsingAsCollateral(_collateralAsset, _user, false);
+        }
+
+        if (_receiveAToken) {
+            bool isFirstReceipt = collateralAToken.balanceOf(msg.sender) == 0;
+            collateralAToken.transferOnLiquidation(_user, msg.sender, collateralToSeize);
+            if (isFirstReceipt) {
+                _setUsingAsCollateral(_collateralAsset, msg.sender, true);
+            }
+        } else {
+            collateralAToken.burn(_user, msg.sender, collateralToSeize);
+        }
+
+        IERC20(_debtAsset).safeTransferFrom(msg.sender, address(reserveTokens[_debtAsset].aToken), debtAmountNeeded);
+
+        emit LiquidationCall(
+            _collateralAsset,
+            _debtAsset,
+            _user,
+            debtAmountNeeded,
+            collateralToSeize,
+            msg.sender,
+            _receiveAToken
+        );
+    }
+
+    /**
+     * Called by aTokens on transfer. Validates the health factor of the sender and toggles usage as collateral for the sender
+     * and the receiver.
+     */
+    function finalizeTransfer(
+        address _asset,
+        address _from,
+        address _to,
+        uint256 _amount,
+        uint256 _balanceFromBefore,
+        uint256 _balanceToBefore
+    )
+        external
+    {
+        require(msg.sender == address(reserveTokens[_asset].aToken), LP_CALLER_MUST_BE_AN_ATOKEN);
+
+        if (usingAsCollateral[_from][_asset]) {
+            require(
+                _calculateUserAccountData(_from).healthFactor >= HEALTH_FACTOR_LIQUIDATION_THRESHOLD,
+                VL_TRANSFER_NOT_ALLOWED
+            );
+        }
+
+        if (_from != _to) {
+            if (_balanceFromBefore.sub(_amount) == 0) {
+                _setUsingAsCollateral(_asset, _from, false);
+            }
+
+            if (_balanceToBefore == 0 && _amount != 0) {
+                _setUsingAsCollateral(_asset, _to, true);
+            }
+        }
+    }
+
+    /* ============ External Getter Functions ============ */
+
+    function getUserAccountData(address _user)
+        external
+        view
+        returns (
+            uint256 totalCollateralETH,
+            uint256 totalDebtETH,
+            uint256 availableBorrowsETH,
+            uint256 currentLiquidationThreshold,
+            uint256 ltv,
+            uint256 healthFactor
+        )
+    {
+        UserAccountData memory data = _calculateUserAccountData(_user);
+
+        return (
+            data.totalCollateralETH,
+            data.totalDebtETH,
+            data.availableBorrowsETH,
+            data.currentLiquidationThreshold,
+            data.ltv,
+            data.healthFactor
+        );
+    }
+
+    function getReserveNormalizedIncome(address _asset) external view returns (uint256) {
+        return liquidityIndexes[_asset];
+    }
+
+    function getReserveNormalizedVariableDebt(address _asset) external view returns (uint256) {
+        return variableBorrowIndexes[_asset];
+    }
+
+    function getReserveTokens(address _asset) external view returns (ReserveTokens memory) {
+        return reserveTokens[_asset];
+    }
+
+    function getReserveConfiguration(address _asset) external view returns (ReserveConfiguration memory) {
+        return reserveConfigurations[_asset];
+    }
+
+    function isUsingAsCollateral(address _user, address _asset) external view returns (bool) {
+        return usingAsCollateral[_user][_asset];
+    }
+
+    function getReservesList() external view returns (address[] memory) {
+        return reservesList;
+    }
+
+    function getAddressesProvider() external view returns (ILendingPoolAddressesProvider) {
+        return addressesProvider;
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _validateActiveAndNotFrozen(address _asset) internal view {
+        require(reserveConfigurations[_asset].isActive, VL_NO_ACTIVE_RESERVE);
+        require(!reserveConfigurations[_asset].isFrozen, VL_RESERVE_FROZEN);
+    }
+
+    function _validateBorrow(address _asset, address _user, uint256 _amount, uint256 _interestRateMode) internal view {
+        ReserveConfiguration storage config = reserveConfigurations[_asset];
+
+        _validateActiveAndNotFrozen(_asset);
+        require(_amount != 0, VL_INVALID_AMOUNT);
+        require(config.borrowingEnabled, VL_BORROWING_NOT_ENABLED);
+        require(
+            _interestRateMode == STABLE_RATE_MODE || _interestRateMode == VARIABLE_RATE_MODE,
+            VL_INVALID_INTEREST_RATE_MODE_SELECTED
+        );
+        require(_interestRateMode == VARIABLE_RATE_MODE || config.stableBorrowRateEnabled, VL_STABLE_BORROWING_NOT_ENABLED);
+
+        UserAccountData memory data = _calculateUserAccountData(_user);
+
+        require(data.totalCollateralETH > 0, VL_COLLATERAL_BALANCE_IS_0);
+        require(data.healthFactor > HEALTH_FACTOR_LIQUIDATION_THRESHOLD, VL_HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
+        require(data.ltv > 0, VL_COLLATERAL_CANNOT_COVER_NEW_BORROW);
+
+        uint256 collateralNeededETH = data.totalDebtETH
+            .add(_getAssetValueInETH(_asset, _amount))
+            .mul(PERCENTAGE_FACTOR)
+            .div(data.ltv);
+
+        require(collateralNeededETH <= data.totalCollateralETH, VL_COLLATERAL_CANNOT_COVER_NEW_BORROW);
+    }
+
+    /**
+     * Checks if the user health factor stays above 1 after decreasing the balance of a collateral asset.
+     */
+    function _balanceDecreaseAllowed(address _asset, address _user, uint256 _amount) internal view returns (bool) {
+        uint256 liquidationThreshold = reserveConfigurations[_asset].liquidationThreshold;
+        if (!usingAsCollateral[_user][_asset] || liquidationThreshold == 0) {
+            return true;
+        }
+
+        UserAccountData memory data = _calculateUserAccountData(_user);
+        if (data.totalDebtETH == 0) {
+            return true;
+        }
+
+        uint256 amountToDecreaseETH = _getAssetValueInETH(_asset, _amount);
+        if (amountToDecreaseETH >= data.totalCollateralETH) {
+            return false;
+        }
+
+        uint256 collateralAfterDecreaseETH = data.totalCollateralETH.sub(amountToDecreaseETH);
+        uint256 liquidationThresholdAfterDecrease = data.totalCollateralETH
+            .mul(data.currentLiquidationThreshold)
+            .sub(amountToDecreaseETH.mul(liquidationThreshold))
+            .div(collateralAfterDecreaseETH);
+
+        uint256 healthFactorAfterDecrease = collateralAfterDecreaseETH
+            .mul(liquidationThresholdAfterDecrease)
+            .div(PERCENTAGE_FACTOR)
+            .mul(1e18)
+            .div(data.totalDebtETH);
+
+        return healthFactorAfterDecrease >= HEALTH_FACTOR_LIQUIDATION_THRESHOLD;
+    }
+
+    function _calculateUserAccountData(address _user) internal view returns (UserAccountData memory data) {
+        uint256 weightedLtv;
+        uint256 weightedLiquidationThreshold;
+
+        for (uint256 i = 0; i < reservesList.length; i++) {
+            address asset = reservesList[i];
+            (uint256 collateralETH, uint256 debtETH) = _getUserReserveBalancesInETH(_user, asset);
+
+            data.totalCollateralETH = data.totalCollateralETH.add(collateralETH);
+            data.totalDebtETH = data.totalDebtETH.add(debtETH);
+            weightedLtv = weightedLtv.add(collateralETH.mul(reserveConfigurations[asset].ltv));
+            weightedLiquidationThreshold = weightedLiquidationThreshold.add(collateralETH.mul(reserveConfigurations[asset].liquidationThreshold));
+        }
+
+        if (data.totalCollateralETH > 0) {
+            data.ltv = weightedLtv.div(data.totalCollateralETH);
+            data.currentLiquidationThreshold = weightedLiquidationThreshold.div(data.totalCollateralETH);
+        }
+
+        data.healthFactor = data.totalDebtETH == 0
+            ? uint256(-1)
+            : data.totalCollateralETH.mul(data.currentLiquidationThreshold).div(PERCENTAGE_FACTOR).mul(1e18).div(data.totalDebtETH);
+
+        uint256 borrowCapacityETH = data.totalCollateralETH.mul(data.ltv).div(PERCENTAGE_FACTOR);
+        data.availableBorrowsETH = borrowCapacityETH > data.totalDebtETH ? borrowCapacityETH.sub(data.totalDebtETH) : 0;
+    }
+
+    /**
+     * Returns the collateral and debt of a user in a reserve denominated in ETH. Collateral is only counted if the reserve
+     * can be used as collateral and the user has enabled it.
+     */
+    function _getUserReserveBalancesInETH(address _user, address _asset) internal view returns (uint256 collateralETH, uint256 debtETH) {
+        ReserveTokens storage tokens = reserveTokens[_asset];
+
+        if (usingAsCollateral[_user][_asset] && reserveConfigurations[_asset].liquidationThreshold != 0) {
+            collateralETH = _getAssetValueInETH(_asset, tokens.aToken.balanceOf(_user));
+        }
+
+        debtETH = _getAssetValueInETH(
+            _asset,
+            tokens.stableDebtToken.balanceOf(_user).add(tokens.variableDebtToken.balanceOf(_user))
+        );
+    }
+
+    /**
+     * Returns the collateral to seize for the debt covered including the liquidation bonus. If the user does not have enough
+     * collateral, all of it is seized and the debt covered is reduced accordingly.
+     */
+    function _calculateAvailableCollateralToLiquidate(
+        address _collateralAsset,
+        address _debtAsset,
+        uint256 _debtToCover,
+        uint256 _userCollateralBalance
+    )
+        internal
+        view
+        returns (uint256, uint256)
+    {
+        uint256 liquidationBonus = reserveConfigurations[_collateralAsset].liquidationBonus;
+        uint256 debtToCoverETH = _getAssetValueInETH(_debtAsset, _debtToCover);
+        uint256 maxCollateralToLiquidate = _getAssetAmountFromETH(
+            _collateralAsset,
+            debtToCoverETH.mul(liquidationBonus).div(PERCENTAGE_FACTOR)
+        );
+
+        if (maxCollateralToLiquidate > _userCollateralBalance) {
+            uint256 collateralETH = _getAssetValueInETH(_collateralAsset, _userCollateralBalance);
+            uint256 debtAmountNeeded = _getAssetAmountFromETH(_debtAsset, collateralETH.mul(PERCENTAGE_FACTOR).div(liquidationBonus));
+
+            return (_userCollateralBalance, debtAmountNeeded);
+        }
+
+        return (maxCollateralToLiquidate, _debtToCover);
+    }
+
+    function _setUsingAsCollateral(address _asset, address _user, bool _usingAsCollateral) internal {
+        usingAsCollateral[_user][_asset] = _usingAsCollateral;
+
+        if (_usingAsCollateral) {
+            emit ReserveUsedAsCollateralEnabled(_asset, _user);
+        } else {
+            emit ReserveUsedAsCollateralDisabled(_asset, _user);
+        }
+    }
+
+    function _getAssetValueInETH(address _asset, uint256 _amount) internal view returns (uint256) {
+        return _getPriceOracle().getAssetPrice(_asset).mul(_amount).div(10 ** reserveConfigurations[_asset].decimals);
+    }
+
+    function _getAssetAmountFromETH(address _asset, uint256 _amountETH) internal view returns (uint256) {
+        return _amountETH.mul(10 ** reserveConfigurations[_asset].decimals).div(_getPriceOracle().getAssetPrice(_asset));
+    }
+
+    function _getPriceOracle() internal view returns (AaveV2PriceOracleMock) {
+        return AaveV2PriceOracleMock(addressesProvider.getPriceOracle());
+    }
+}
@@ -0,0 +1,37 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+/**
+ * @title AaveV2PriceOracleMock
+ * @author Cook Finance
+ * @notice Mock contract for Aave's PriceOracle. Prices are denominated in ETH with 18 decimals per whole unit of asset.
+ */
+contract AaveV2PriceOracleMock {
+    mapping(address => uint256) public assetToPrices;
+
+    /* ============ External Functions ============ */
+    function setAssetPrice(address _asset, uint256 _price) external {
+        assetToPrices[_asset] = _price;
+    }
+
+    function getAssetPrice(address _asset) external view returns (uint256) {
+        return assetToPrices[_asset];
+    }
+}
@@ -0,0 +1,183 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental ABIEncoderV2;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import { AaveV2LendingPoolMock } from "./AaveV2LendingPoolMock.sol";
+import { ILendingPoolAddressesProvider } from "../../interfaces/external/aave-v2/ILendingPoolAddressesProvider.sol";
+import { IProtocolDataProvider } from "../../interfaces/external/aave-v2/IProtocolDataProvider.sol";
+
+/**
+ * @title AaveV2ProtocolDataProviderMock
+ * @author Cook Finance
+ * @notice Mock contract for Aave's AaveProtocolDataProvider. Reads reserve and user data from the AaveV2LendingPoolMock registered
+ * on the addresses provider. Interest rates are not modeled and are returned as 0.
+ */
+contract AaveV2ProtocolDataProviderMock {
+
+    /* ============ State Variables ============ */
+
+    ILendingPoolAddressesProvider public immutable ADDRESSES_PROVIDER;
+
+    /* ============ Constructor ============ */
+
+    constructor(ILendingPoolAddressesProvider _addressesProvider) public {
+        ADDRESSES_PROVIDER = _addressesProvider;
+    }
+
+    /* ============ External Functions ============ */
+
+    function getAllReservesTokens() external view returns (IProtocolDataProvider.TokenData[] memory) {
+        address[] memory reserves = _getLendingPool().getReservesList();
+        IProtocolDataProvider.TokenData[] memory reservesTokens = new IProtocolDataProvider.TokenData[](reserves.length);
+        for (uint256 i = 0; i < reserves.length; i++) {
+            reservesTokens[i] = IProtocolDataProvider.TokenData({
+                symbol: ERC20(reserves[i]).symbol(),
+                tokenAddress: reserves[i]
+            });
+        }
+        return reservesTokens;
+    }
+
+    function getAllATokens() external view returns (IProtocolDataProvider.TokenData[] memory) {
+        AaveV2LendingPoolMock lendingPool = _getLendingPool();
+        address[] memory reserves = lendingPool.getReservesList();
+        IProtocolDataProvider.TokenData[] memory aTokens = new IProtocolDataProvider.TokenData[](reserves.length);
+        for (uint256 i = 0; i < reserves.length; i++) {
+            address aToken = address(lendingPool.getReserveTokens(reserves[i]).aToken);
+            aTokens[i] = IProtocolDataProvider.TokenData({
+                symbol: ERC20(aToken).symbol(),
+                tokenAddress: aToken
+            });
+        }
+        return aTokens;
+    }
+
+    function getReserveConfigurationData(address _asset)
+        external
+        view
+        returns (
+            uint256 decimals,
+            uint256 ltv,
+            uint256 liquidationThreshold,
+            uint256 liquidationBonus,
+            uint256 reserveFactor,
+            bool usageAsCollateralEnabled,
+            bool borrowingEnabled,
+            bool stableBorrowRateEnabled,
+            bool isActive,
+            bool isFrozen
+        )
+    {
+        AaveV2LendingPoolMock.ReserveConfiguration memory config = _getLendingPool().getReserveConfiguration(_asset);
+
+        return (
+            config.decimals,
+            config.ltv,
+            config.liquidationThreshold,
+            config.liquidationBonus,
+            0,
+            config.usageAsCollateralEnabled,
+            config.borrowingEnabled,
+            config.stableBorrowRateEnabled,
+            config.isActive,
+            config.isFrozen
+        );
+    }
+
+    function getReserveData(address _asset)
+        external
+        view
+        returns (
+            uint256 availableLiquidity,
+            uint256 totalStableDebt,
+            uint256 totalVariableDebt,
+            uint256 liquidityRate,
+            uint256 variableBorrowRate,
+            uint256 stableBorrowRate,
+            uint256 averageStableBorrowRate,
+            uint256 liquidityIndex,
+            uint256 variableBorrowIndex,
+            uint40 lastUpdateTimestamp
+        )
+    {
+        AaveV2LendingPoolMock lendingPool = _getLendingPool();
+        AaveV2LendingPoolMock.ReserveTokens memory tokens = lendingPool.getReserveTokens(_asset);
+
+        availableLiquidity = IERC20(_asset).balanceOf(address(tokens.aToken));
+        totalStableDebt = tokens.stableDebtToken.totalSupply();
+        totalVariableDebt = tokens.variableDebtToken.totalSupply();
+        liquidityIndex = lendingPool.getReserveNormalizedIncome(_asset);
+        variableBorrowIndex = lendingPool.getReserveNormalizedVariableDebt(_asset);
+        lastUpdateTimestamp = uint40(block.timestamp);
+    }
+
+    function getUserReserveData(address _asset, address _user)
+        external
+        view
+        returns (
+            uint256 currentATokenBalance,
+            uint256 currentStableDebt,
+            uint256 currentVariableDebt,
+            uint256 principalStableDebt,
+            uint256 scaledVariableDebt,
+            uint256 stableBorrowRate,
+            uint256 liquidityRate,
+            uint40 stableRateLastUpdated,
+            bool usageAsCollateralEnabled
+        )
+    {
+        AaveV2LendingPoolMock lendingPool = _getLendingPool();
+        AaveV2LendingPoolMock.ReserveTokens memory tokens = lendingPool.getReserveTokens(_asset);
+
+        currentATokenBalance = tokens.aToken.balanceOf(_user);
+        currentStableDebt = tokens.stableDebtToken.balanceOf(_user);
+        currentVariableDebt = tokens.variableDebtToken.balanceOf(_user);
+        principalStableDebt = currentStableDebt;
+        scaledVariableDebt = tokens.variableDebtToken.scaledBalanceOf(_user);
+        usageAsCollateralEnabled = lendingPool.isUsingAsCollateral(_user, _asset);
+    }
+
+    function getReserveTokensAddresses(address _asset)
+        external
+        view
+        returns (
+            address aTokenAddress,
+            address stableDebtTokenAddress,
+            address variableDebtTokenAddress
+        )
+    {
+        AaveV2LendingPoolMock.ReserveTokens memory tokens = _getLendingPool().getReserveTokens(_asset);
+
+        return (
+            address(tokens.aToken),
+            address(tokens.stableDebtToken),
+            address(tokens.variableDebtToken)
+        );
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _getLendingPool() internal view returns (AaveV2LendingPoolMock) {
+        return AaveV2LendingPoolMock(ADDRESSES_PROVIDER.getLendingPool());
+    }
+}
@@ -0,0 +1,118 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+/**
+ * @title AaveV2StableDebtTokenMock
+ * @author Cook Finance
+ * @notice Mock contract for Aave's StableDebtToken. Stable debt does not accrue interest in this mock. Debt tokens are not
+ * transferable.
+ */
+contract AaveV2StableDebtTokenMock {
+    using SafeMath for uint256;
+
+    /* ============ Events ============ */
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    /* ============ Constants ============ */
+
+    // Aave error codes
+    string internal constant CT_CALLER_MUST_BE_LENDING_POOL = "29";
+
+    /* ============ State Variables ============ */
+
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+
+    address public immutable POOL;
+    address public immutable UNDERLYING_ASSET_ADDRESS;
+
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+
+    /* ============ Modifiers ============ */
+
+    modifier onlyLendingPool() {
+        require(msg.sender == POOL, CT_CALLER_MUST_BE_LENDING_POOL);
+        _;
+    }
+
+    /* ============ Constructor ============ */
+
+    constructor(
+        address _pool,
+        address _underlyingAsset,
+        string memory _name,
+        string memory _symbol,
+        uint8 _decimals
+    )
+        public
+    {
+        POOL = _pool;
+        UNDERLYING_ASSET_ADDRESS = _underlyingAsset;
+        name = _name;
+        symbol = _symbol;
+        decimals = _decimals;
+    }
+
+    /* ============ External Functions ============ */
+
+    function allowance(address, address) external pure returns (uint256) {
+        revert("ALLOWANCE_NOT_SUPPORTED");
+    }
+
+    function approve(address, uint256) external pure returns (bool) {
+        revert("APPROVAL_NOT_SUPPORTED");
+    }
+
+    function transfer(address, uint256) external pure returns (bool) {
+        revert("TRANSFER_NOT_SUPPORTED");
+    }
+
+    function transferFrom(address, address, uint256) external pure returns (bool) {
+        revert("TRANSFER_NOT_SUPPORTED");
+    }
+
+    /**
+     * Mints debt tokens to the user on borrow. Returns true if the user had no debt before the mint.
+     */
+    function mint(address _user, uint256 _amount) external onlyLendingPool returns (bool) {
+        uint256 previousBalance = balanceOf[_user];
+        balanceOf[_user] = previousBalance.add(_amount);
+        totalSupply = totalSupply.add(_amount);
+
+        emit Transfer(address(0), _user, _amount);
+
+        return previousBalance == 0;
+    }
+
+    /**
+     * Burns debt tokens from the user on repay or liquidation.
+     */
+    function burn(address _user, uint256 _amount) external onlyLendingPool {
+        balanceOf[_user] = balanceOf[_user].sub(_amount);
+        totalSupply = totalSupply.sub(_amount);
+
+        emit Transfer(_user, address(0), _amount);
+    }
+}
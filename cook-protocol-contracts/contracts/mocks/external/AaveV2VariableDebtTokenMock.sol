@@ -0,0 +1,156 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental ABIEncoderV2;
+
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { ILendingPool } from "../../interfaces/external/aave-v2/ILendingPool.sol";
+
+/**
+ * @title AaveV2VariableDebtTokenMock
+ * @author Cook Finance
+ * @notice Mock contract for Aave's VariableDebtToken. Balances are stored scaled by the reserve variable borrow index of the
+ * lending pool so interest can be accrued by updating the index. Debt tokens are not transferable.
+ */
+contract AaveV2VariableDebtTokenMock {
+    using SafeMath for uint256;
+
+    /* ============ Events ============ */
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    /* ============ Constants ============ */
+
+    uint256 internal constant RAY = 1e27;
+
+    // Aave error codes
+    string internal constant CT_CALLER_MUST_BE_LENDING_POOL = "29";
+    string internal constant CT_INVALID_MINT_AMOUNT = "56";
+    string internal constant CT_INVALID_BURN_AMOUNT = "57";
+
+    /* ============ State Variables ============ */
+
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+
+    ILendingPool public immutable POOL;
+    address public immutable UNDERLYING_ASSET_ADDRESS;
+
+    mapping(address => uint256) internal scaledBalances;
+    uint256 internal totalScaledSupply;
+
+    /* ============ Modifiers ============ */
+
+    modifier onlyLendingPool() {
+        require(msg.sender == address(POOL), CT_CALLER_MUST_BE_LENDING_POOL);
+        _;
+    }
+
+    /* ============ Constructor ============ */
+
+    constructor(
+        ILendingPool _pool,
+        address _underlyingAsset,
+        string memory _name,
+        string memory _symbol,
+        uint8 _decimals
+    )
+        public
+    {
+        POOL = _pool;
+        UNDERLYING_ASSET_ADDRESS = _underlyingAsset;
+        name = _name;
+        symbol = _symbol;
+        decimals = _decimals;
+    }
+
+    /* ============ External Functions ============ */
+
+    function balanceOf(address _user) public view returns (uint256) {
+        return _rayMul(scaledBalances[_user], POOL.getReserveNormalizedVariableDebt(UNDERLYING_ASSET_ADDRESS));
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return _rayMul(totalScaledSupply, POOL.getReserveNormalizedVariableDebt(UNDERLYING_ASSET_ADDRESS));
+    }
+
+    function scaledBalanceOf(address _user) external view returns (uint256) {
+        return scaledBalances[_user];
+    }
+
+    function allowance(address, address) external pure returns (uint256) {
+        revert("ALLOWANCE_NOT_SUPPORTED");
+    }
+
+    function approve(address, uint256) external pure returns (bool) {
+        revert("APPROVAL_NOT_SUPPORTED");
+    }
+
+    function transfer(address, uint256) external pure returns (bool) {
+        revert("TRANSFER_NOT_SUPPORTED");
+    }
+
+    function transferFrom(address, address, uint256) external pure returns (bool) {
+        revert("TRANSFER_NOT_SUPPORTED");
+    }
+
+    /**
+     * Mints debt tokens to the user on borrow. Returns true if the user had no debt before the mint.
+     */
+    function mint(address _user, uint256 _amount) external onlyLendingPool returns (bool) {
+        uint256 scaledAmount = _rayDiv(_amount, POOL.getReserveNormalizedVariableDebt(UNDERLYING_ASSET_ADDRESS));
+        require(scaledAmount != 0, CT_INVALID_MINT_AMOUNT);
+
+        uint256 previousScaledBalance = scaledBalances[_user];
+        scaledBalances[_user] = previousScaledBalance.add(scaledAmount);
+        totalScaledSupply = totalScaledSupply.add(scaledAmount);
+
+        emit Transfer(address(0), _user, _amount);
+
+        return previousScaledBalance == 0;
+    }
+
+    /**
+     * Burns debt tokens from the user on repay or liquidation.
+     */
+    function burn(address _user, uint256 _amount) external onlyLendingPool {
+        // Burn the full scaled balance when repaying everything so no dust is left behind from rounding
+        uint256 scaledAmount = _amount == balanceOf(_user)
+            ? scaledBalances[_user]
+            : _rayDiv(_amount, POOL.getReserveNormalizedVariableDebt(UNDERLYING_ASSET_ADDRESS));
+        require(scaledAmount != 0, CT_INVALID_BURN_AMOUNT);
+
+        scaledBalances[_user] = scaledBalances[_user].sub(scaledAmount);
+        totalScaledSupply = totalScaledSupply.sub(scaledAmount);
+
+        emit Transfer(_user, address(0), _amount);
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _rayMul(uint256 _a, uint256 _b) internal pure returns (uint256) {
+        return _a.mul(_b).add(RAY / 2).div(RAY);
+    }
+
+    function _rayDiv(uint256 _a, uint256 _b) internal pure returns (uint256) {
+        return _a.mul(RAY).add(_b / 2).div(_b);
+    }
+}
@@ -0,0 +1,145 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { AggregatorV3Interface } from "@chainlink/contracts/src/v0.6/interfaces/AggregatorV3Interface.sol";
+
+/**
+ * @title ChainlinkAggregatorMock
+ * @author Cook Finance
+ * @notice Mock contract for a Chainlink price feed aggregator. Every answer update opens a new round stamped with the current
+ * block timestamp and previous rounds stay queryable. Rounds can also be written directly with arbitrary timestamps to
+ * simulate stale or incomplete rounds.
+ */
+contract ChainlinkAggregatorMock is AggregatorV3Interface {
+
+    /* ============ Structs ============ */
+
+    struct Round {
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
+    /* ============ State Variables ============ */
+
+    uint8 public override decimals;
+    string public override description;
+
+    uint80 public latestRound;
+    mapping(uint80 => Round) internal rounds;
+
+    /* ============ Events ============ */
+
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+
+    /* ============ Constructor ============ */
+
+    constructor(uint8 _decimals, int256 _initialAnswer, string memory _description) public {
+        decimals = _decimals;
+        description = _description;
+
+        updateAnswer(_initialAnswer);
+    }
+
+    /* ============ External Functions ============ */
+
+    /**
+     * Opens a new round with the answer, started and updated at the current block timestamp.
+     */
+    function updateAnswer(int256 _answer) public {
+        latestRound++;
+        rounds[latestRound] = Round(_answer, block.timestamp, block.timestamp, latestRound);
+
+        emit AnswerUpdated(_answer, latestRound, block.timestamp);
+    }
+
+    /**
+     * Writes a round directly. Rounds after the latest round become the latest round. An updatedAt of 0 marks the round as
+     * incomplete and answeredInRound lower than the round id marks its answer as carried over from an earlier round.
+     */
+    function updateRoundData(
+        uint80 _roundId,
+        int256 _answer,
+        uint256 _startedAt,
+        uint256 _updatedAt,
+        uint80 _answeredInRound
+    )
+        external
+    {
+        require(_roundId > 0, "Round id must be greater than 0");
+
+        rounds[_roundId] = Round(_answer, _startedAt, _updatedAt, _answeredInRound);
+        if (_roundId > latestRound) {
+            latestRound = _roundId;
+        }
+
+        emit AnswerUpdated(_answer, _roundId, _updatedAt);
+    }
+
+    function setDecimals(uint8 _decimals) external {
+        decimals = _decimals;
+    }
+
+    /* ============ External Getter Functions ============ */
+
+    function version() external view override returns (uint256) {
+        return 3;
+    }
+
+    function getRoundData(uint80 _roundId)
+        external
+        view
+        override
+        returns (uint80, int256, uint256, uint256, uint80)
+    {
+        Round memory round = rounds[_roundId];
+        require(round.updatedAt > 0, "No data present");
+
+        return (_roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (uint80, int256, uint256, uint256, uint80)
+    {
+        Round memory round = rounds[latestRound];
+
+        return (latestRound, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+    }
+
+    function latestAnswer() external view returns (int256) {
+        return rounds[latestRound].answer;
+    }
+
+    function latestTimestamp() external view returns (uint256) {
+        return rounds[latestRound].updatedAt;
+    }
+
+    function getAnswer(uint80 _roundId) external view returns (int256) {
+        return rounds[_roundId].answer;
+    }
+
+    function getTimestamp(uint80 _roundId) external view returns (uint256) {
+        return rounds[_roundId].updatedAt;
+    }
+}
@@ -0,0 +1,124 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental ABIEncoderV2;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import { IDMMFactory } from "../../interfaces/external/IDMMFactory.sol";
+import { KyberDMMPoolMock } from "./KyberDMMPoolMock.sol";
+
+/**
+ * @title KyberDMMFactoryMock
+ * @author Cook Finance
+ * @notice Mock contract for Kyber's DMM factory. Any number of amplified pools can be created per token pair but only one
+ * unamplified pool. Every pool charges the fee configured on the factory at creation time.
+ */
+contract KyberDMMFactoryMock is IDMMFactory {
+
+    /* ============ Constants ============ */
+
+    uint256 internal constant BPS = 10000;
+
+    /* ============ State Variables ============ */
+
+    address public override feeToSetter;
+    address internal feeTo;
+    uint16 internal governmentFeeBps;
+
+    // Swap fee charged by newly created pools, 0.3% by default
+    uint256 public feeInPrecision = 3e15;
+
+    address[] public override allPools;
+    mapping(IERC20 => mapping(IERC20 => address)) public override getUnamplifiedPool;
+    mapping(IERC20 => mapping(IERC20 => address[])) internal tokenPools;
+    mapping(IERC20 => mapping(IERC20 => mapping(address => bool))) internal isPoolByTokens;
+
+    /* ============ Events ============ */
+
+    event PoolCreated(IERC20 indexed token0, IERC20 indexed token1, address pool, uint32 ampBps, uint256 totalPool);
+
+    /* ============ Constructor ============ */
+
+    constructor() public {
+        feeToSetter = msg.sender;
+    }
+
+    /* ============ External Functions ============ */
+
+    function createPool(IERC20 _tokenA, IERC20 _tokenB, uint32 _ampBps) external override returns (address pool) {
+        require(address(_tokenA) != address(_tokenB), "DMM: IDENTICAL_ADDRESSES");
+        (IERC20 token0, IERC20 token1) = address(_tokenA) < address(_tokenB) ? (_tokenA, _tokenB) : (_tokenB, _tokenA);
+        require(address(token0) != address(0), "DMM: ZERO_ADDRESS");
+        require(_ampBps >= BPS, "DMM: INVALID_BPS");
+        require(_ampBps != BPS || getUnamplifiedPool[token0][token1] == address(0), "DMM: UNAMPLIFIED_POOL_EXISTS");
+
+        pool = address(new KyberDMMPoolMock(token0, token1, _ampBps, feeInPrecision));
+
+        if (_ampBps == BPS) {
+            getUnamplifiedPool[token0][token1] = pool;
+            getUnamplifiedPool[token1][token0] = pool;
+        }
+        tokenPools[token0][token1].push(pool);
+        tokenPools[token1][token0].push(pool);
+        isPoolByTokens[token0][token1][pool] = true;
+        isPoolByTokens[token1][token0][pool] = true;
+        allPools.push(pool);
+
+        emit PoolCreated(token0, token1, pool, _ampBps, allPools.length);
+    }
+
+    function setFeeConfiguration(address _feeTo, uint16 _governmentFeeBps) external override {
+        require(msg.sender == feeToSetter, "DMM: FORBIDDEN");
+        require(_governmentFeeBps > 0 && _governmentFeeBps < 2000, "DMM: INVALID_FEE");
+        feeTo = _feeTo;
+        governmentFeeBps = _governmentFeeBps;
+    }
+
+    function setFeeToSetter(address _feeToSetter) external override {
+        require(msg.sender == feeToSetter, "DMM: FORBIDDEN");
+        feeToSetter = _feeToSetter;
+    }
+
+    /**
+     * Sets the swap fee of pools created afterwards. Fee is a percentage in precise units, e.g. 3e15 is 0.3%
+     */
+    function setFeeInPrecision(uint256 _feeInPrecision) external {
+        require(msg.sender == feeToSetter, "DMM: FORBIDDEN");
+        feeInPrecision = _feeInPrecision;
+    }
+
+    /* ============ External Getter Functions ============ */
+
+    function getFeeConfiguration() external view override returns (address, uint16) {
+        return (feeTo, governmentFeeBps);
+    }
+
+    function allPoolsLength() external view override returns (uint256) {
+        return allPools.length;
+    }
+
+    function getPools(IERC20 _token0, IERC20 _token1) external view override returns (address[] memory) {
+        return tokenPools[_token0][_token1];
+    }
+
+    function isPool(IERC20 _token0, IERC20 _token1, address _pool) external view override returns (bool) {
+        return isPoolByTokens[_token0][_token1][_pool];
+    }
+}
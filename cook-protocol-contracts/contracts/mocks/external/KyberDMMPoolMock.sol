@@ -0,0 +1,218 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { Math } from "@openzeppelin/contracts/math/Math.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+/**
+ * @title KyberDMMPoolMock
+ * @author Cook Finance
+ * @notice Mock contract for a Kyber DMM pool. Amplified pools price trades off virtual reserves, which start at the deposited
+ * reserves scaled by ampBps / 10000, so prices move less per unit traded than on an unamplified (ampBps = 10000) pool. The swap fee
+ * is fixed at creation instead of following DMM's volume based dynamic fee, and burning liquidity is not supported.
+ */
+contract KyberDMMPoolMock is ERC20 {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    /* ============ Constants ============ */
+
+    uint256 internal constant PRECISION = 1e18;
+    uint256 internal constant BPS = 10000;
+    uint256 internal constant MINIMUM_LIQUIDITY = 10**3;
+    // OpenZeppelin's ERC20 does not allow minting to the zero address, so the minimum liquidity is locked here instead
+    address internal constant MINIMUM_LIQUIDITY_HOLDER = address(1);
+
+    /* ============ State Variables ============ */
+
+    address public factory;
+    IERC20 public token0;
+    IERC20 public token1;
+    uint32 public ampBps;
+    uint256 public feeInPrecision;
+
+    uint256 internal reserve0;
+    uint256 internal reserve1;
+    uint256 internal vReserve0;
+    uint256 internal vReserve1;
+
+    /* ============ Events ============ */
+
+    event Mint(address indexed sender, uint256 amount0, uint256 amount1);
+    event Swap(
+        address indexed sender,
+        uint256 amount0In,
+        uint256 amount1In,
+        uint256 amount0Out,
+        uint256 amount1Out,
+        address indexed to
+    );
+    event Sync(uint256 vReserve0, uint256 vReserve1, uint256 reserve0, uint256 reserve1);
+
+    /* ============ Constructor ============ */
+
+    constructor(
+        IERC20 _token0,
+        IERC20 _token1,
+        uint32 _ampBps,
+        uint256 _feeInPrecision
+    )
+        public
+        ERC20("KyberDMM LP", "DMM-LP")
+    {
+        factory = msg.sender;
+        token0 = _token0;
+        token1 = _token1;
+        ampBps = _ampBps;
+        feeInPrecision = _feeInPrecision;
+    }
+
+    /* ============ External Functions ============ */
+
+    /**
+     * Mints LP tokens for the tokens transferred to the pool since the last update. The first deposit sets the virtual reserves,
+     * later deposits scale them with the LP supply.
+     */
+    function mint(address _to) external returns (uint256 liquidity) {
+        uint256 balance0 = token0.balanceOf(address(this));
+        uint256 balance1 = token1.balanceOf(address(this));
+        uint256 amount0 = balance0.sub(reserve0);
+        uint256 amount1 = balance1.sub(reserve1);
+
+        uint256 supply = totalSupply();
+        uint256 newVReserve0 = balance0;
+        uint256 newVReserve1 = balance1;
+
+        if (supply == 0) {
+            liquidity = _sqrt(amount0.mul(amount1)).sub(MINIMUM_LIQUIDITY);
+            _mint(MINIMUM_LIQUIDITY_HOLDER, MINIMUM_LIQUIDITY);
+
+            if (_isAmpPool()) {
+                newVReserve0 = balance0.mul(ampBps).div(BPS);
+                newVReserve1 = balance1.mul(ampBps).div(BPS);
+            }
+        } else {
+            liquidity = Math.min(amount0.mul(supply).div(reserve0), amount1.mul(supply).div(reserve1));
+
+            if (_isAmpPool()) {
+                newVReserve0 = Math.max(vReserve0.mul(supply.add(liquidity)).div(supply), balance0);
+                newVReserve1 = Math.max(vReserve1.mul(supply.add(liquidity)).div(supply), balance1);
+            }
+        }
+
+        require(liquidity > 0, "DMM: INSUFFICIENT_LIQUIDITY_MINTED");
+        _mint(_to, liquidity);
+
+        _update(balance0, balance1, newVReserve0, newVReserve1);
+
+        emit Mint(msg.sender, amount0, amount1);
+    }
+
+    /**
+     * Sends out the requested amounts and verifies the tokens transferred in cover them after the fee, using the virtual reserves.
+     */
+    function swap(uint256 _amount0Out, uint256 _amount1Out, address _to, bytes calldata /* _data */) external {
+        require(_amount0Out > 0 || _amount1Out > 0, "DMM: INSUFFICIENT_OUTPUT_AMOUNT");
+        require(_amount0Out < reserve0 && _amount1Out < reserve1, "DMM: INSUFFICIENT_LIQUIDITY");
+        require(_to != address(token0) && _to != address(token1), "DMM: INVALID_TO");
+
+        if (_amount0Out > 0) token0.safeTransfer(_to, _amount0Out);
+        if (_amount1Out > 0) token1.safeTransfer(_to, _amount1Out);
+
+        uint256 balance0 = token0.balanceOf(address(this));
+        uint256 balance1 = token1.balanceOf(address(this));
+
+        uint256 amount0In = balance0 > reserve0.sub(_amount0Out) ? balance0.sub(reserve0.sub(_amount0Out)) : 0;
+        uint256 amount1In = balance1 > reserve1.sub(_amount1Out) ? balance1.sub(reserve1.sub(_amount1Out)) : 0;
+        require(amount0In > 0 || amount1In > 0, "DMM: INSUFFICIENT_INPUT_AMOUNT");
+
+        _verifyAndUpdate(balance0, balance1, amount0In, amount1In);
+
+        emit Swap(msg.sender, amount0In, amount1In, _amount0Out, _amount1Out, _to);
+    }
+
+    /* ============ External Getter Functions ============ */
+
+    function getReserves() external view returns (uint112, uint112) {
+        return (uint112(reserve0), uint112(reserve1));
+    }
+
+    function getTradeInfo()
+        external
+        view
+        returns (
+            uint112 _vReserve0,
+            uint112 _vReserve1,
+            uint112 _reserve0,
+            uint112 _reserve1,
+            uint256 _feeInPrecision
+        )
+    {
+        return (uint112(vReserve0), uint112(vReserve1), uint112(reserve0), uint112(reserve1), feeInPrecision);
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _update(uint256 _balance0, uint256 _balance1, uint256 _vReserve0, uint256 _vReserve1) internal {
+        reserve0 = _balance0;
+        reserve1 = _balance1;
+        vReserve0 = _vReserve0;
+        vReserve1 = _vReserve1;
+
+        emit Sync(_vReserve0, _vReserve1, _balance0, _balance1);
+    }
+
+    /**
+     * Checks the virtual reserves after the fee still cover the invariant, then stores the new balances. Split out of swap
+     * to keep its stack shallow.
+     */
+    function _verifyAndUpdate(uint256 _balance0, uint256 _balance1, uint256 _amount0In, uint256 _amount1In) internal {
+        (uint256 newVReserve0, uint256 newVReserve1) = _isAmpPool()
+            ? (vReserve0.add(_balance0).sub(reserve0), vReserve1.add(_balance1).sub(reserve1))
+            : (_balance0, _balance1);
+
+        uint256 balance0Adjusted = newVReserve0.mul(PRECISION).sub(_amount0In.mul(feeInPrecision)).div(PRECISION);
+        uint256 balance1Adjusted = newVReserve1.mul(PRECISION).sub(_amount1In.mul(feeInPrecision)).div(PRECISION);
+        require(balance0Adjusted.mul(balance1Adjusted) >= vReserve0.mul(vReserve1), "DMM: K");
+
+        _update(_balance0, _balance1, newVReserve0, newVReserve1);
+    }
+
+    function _isAmpPool() internal view returns (bool) {
+        return ampBps != BPS;
+    }
+
+    // Babylonian method, as used by Uniswap V2
+    function _sqrt(uint256 _y) internal pure returns (uint256 z) {
+        if (_y > 3) {
+            z = _y;
+            uint256 x = _y / 2 + 1;
+            while (x < z) {
+                z = x;
+                x = (_y / x + x) / 2;
+            }
+        } else if (_y != 0) {
+            z = 1;
+        }
+    }
+}
@@ -0,0 +1,231 @@
+/*
+    Copyright 2021 Cook Finance.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental ABIEncoderV2;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { IDMMFactory } from "../../interfaces/external/IDMMFactory.sol";
+import { KyberDMMPoolMock } from "./KyberDMMPoolMock.sol";
+
+/**
+ * @title KyberDMMRouterMock
+ * @author Cook Finance
+ * @notice Mock contract for Kyber's DMM router supporting exact input and exact output swaps along a path of pools registered on
+ * the factory. Quotes use the same virtual reserve math as KyberDMMPoolMock. Liquidity is added directly on the pools.
+ */
+contract KyberDMMRouterMock {
+    using SafeMath for uint256;
+    using SafeERC20 for IERC20;
+
+    /* ============ Constants ============ */
+
+    uint256 internal constant PRECISION = 1e18;
+
+    /* ============ State Variables ============ */
+
+    IDMMFactory public factory;
+
+    /* ============ Modifiers ============ */
+
+    modifier ensure(uint256 _deadline) {
+        require(_deadline >= block.timestamp, "DMMRouter: EXPIRED");
+        _;
+    }
+
+    /* ============ Constructor ============ */
+
+    constructor(IDMMFactory _factory) public {
+        factory = _factory;
+    }
+
+    /* ============ External Functions ============ */
+
+    function swapExactTokensForTokens(
+        uint256 _amountIn,
+        uint256 _amountOutMin,
+        address[] memory _poolsPath,
+        IERC20[] memory _path,
+        address _to,
+        uint256 _deadline
+    )
+        public
+        ensure(_deadline)
+        returns (uint256[] memory amounts)
+    {
+        amounts = getAmountsOut(_amountIn, _poolsPath, _path);
+        require(amounts[amounts.length - 1] >= _amountOutMin, "DMMRouter: INSUFFICIENT_OUTPUT_AMOUNT");
+
+        _path[0].safeTransferFrom(msg.sender, _poolsPath[0], amounts[0]);
+        _swap(amounts, _poolsPath, _path, _to);
+    }
+
+    function swapTokensForExactTokens(
+        uint256 _amountOut,
+        uint256 _amountInMax,
+        address[] memory _poolsPath,
+        IERC20[] memory _path,
+        address _to,
+        uint256 _deadline
+    )
+        public
+        ensure(_deadline)
+        returns (uint256[] memory amounts)
+    {
+        amounts = getAmountsIn(_amountOut, _poolsPath, _path);
+        require(amounts[0] <= _amountInMax, "DMMRouter: EXCESSIVE_INPUT_AMOUNT");
+
+        _path[0].safeTransferFrom(msg.sender, _poolsPath[0], amounts[0]);
+        _swap(amounts, _poolsPath, _path, _to);
+    }
+
+    /* ============ External Getter Functions ============ */
+
+    function getAmountsOut(
+        uint256 _amountIn,
+        address[] memory _poolsPath,
+        IERC20[] memory _path
+    )
+        public
+        view
+        returns (uint256[] memory amounts)
+    {
+        _validatePath(_poolsPath, _path);
+
+        amounts = new uint256[](_path.length);
+        amounts[0] = _amountIn;
+        for (uint256 i = 0; i < _path.length - 1; i++) {
+            (
+                uint256 reserveIn,
+                uint256 reserveOut,
+                uint256 vReserveIn,
+                uint256 vReserveOut,
+                uint256 feeInPrecision
+            ) = _getTradeInfo(_poolsPath[i], _path[i]);
+            amounts[i + 1] = _getAmountOut(amounts[i], reserveIn, reserveOut, vReserveIn, vReserveOut, feeInPrecision);
+        }
+    }
+
+    function getAmountsIn(
+        uint256 _amountOut,
+        address[] memory _poolsPath,
+        IERC20[] memory _path
+    )
+        public
+        view
+        returns (uint256[] memory amounts)
+    {
+        _validatePath(_poolsPath, _path);
+
+        amounts = new uint256[](_path.length);
+        amounts[amounts.length - 1] = _amountOut;
+        for (uint256 i = _path.length - 1; i > 0; i--) {
+            (
+                uint256 reserveIn,
+                uint256 reserveOut,
+                uint256 vReserveIn,
+                uint256 vReserveOut,
+                uint256 feeInPrecision
+            ) = _getTradeInfo(_poolsPath[i - 1], _path[i - 1]);
+            amounts[i - 1] = _getAmountIn(amounts[i], reserveIn, reserveOut, vReserveIn, vReserveOut, feeInPrecision);
+        }
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _swap(uint256[] memory _amounts, address[] memory _poolsPath, IERC20[] memory _path, address _to) internal {
+        for (uint256 i = 0; i < _path.length - 1; i++) {
+            KyberDMMPoolMock pool = KyberDMMPoolMock(_poolsPath[i]);
+            uint256 amountOut = _amounts[i + 1];
+            (uint256 amount0Out, uint256 amount1Out) = address(_path[i]) == address(pool.token0())
+                ? (uint256(0), amountOut)
+                : (amountOut, uint256(0));
+            address to = i < _path.length - 2 ? _poolsPath[i + 1] : _to;
+
+            pool.swap(amount0Out, amount1Out, to, new bytes(0));
+        }
+    }
+
+    function _validatePath(address[] memory _poolsPath, IERC20[] memory _path) internal view {
+        require(_path.length >= 2, "DMMRouter: INVALID_PATH");
+        require(_poolsPath.length == _path.length - 1, "DMMRouter: INVALID_POOLS_PATH");
+
+        for (uint256 i = 0; i < _poolsPath.length; i++) {
+            require(factory.isPool(_path[i], _path[i + 1], _poolsPath[i]), "DMMRouter: INVALID_POOL");
+        }
+    }
+
+    function _getTradeInfo(
+        address _pool,
+        IERC20 _tokenIn
+    )
+        internal
+        view
+        returns (uint256 reserveIn, uint256 reserveOut, uint256 vReserveIn, uint256 vReserveOut, uint256 feeInPrecision)
+    {
+        KyberDMMPoolMock pool = KyberDMMPoolMock(_pool);
+        (uint256 vReserve0, uint256 vReserve1, uint256 reserve0, uint256 reserve1, uint256 fee) = pool.getTradeInfo();
+
+        if (address(_tokenIn) == address(pool.token0())) {
+            return (reserve0, reserve1, vReserve0, vReserve1, fee);
+        }
+        return (reserve1, reserve0, vReserve1, vReserve0, fee);
+    }
+
+    function _getAmountOut(
+        uint256 _amountIn,
+        uint256 _reserveIn,
+        uint256 _reserveOut,
+        uint256 _vReserveIn,
+        uint256 _vReserveOut,
+        uint256 _feeInPrecision
+    )
+        internal
+        pure
+        returns (uint256 amountOut)
+    {
+        require(_amountIn > 0, "DMMLibrary: INSUFFICIENT_INPUT_AMOUNT");
+        require(_reserveIn > 0 && _reserveOut > 0, "DMMLibrary: INSUFFICIENT_LIQUIDITY");
+
+        uint256 amountInWithFee = _amountIn.mul(PRECISION.sub(_feeInPrecision)).div(PRECISION);
+        amountOut = amountInWithFee.mul(_vReserveOut).div(_vReserveIn.add(amountInWithFee));
+        require(amountOut < _reserveOut, "DMMLibrary: INSUFFICIENT_LIQUIDITY");
+    }
+
+    function _getAmountIn(
+        uint256 _amountOut,
+        uint256 _reserveIn,
+        uint256 _reserveOut,
+        uint256 _vReserveIn,
+        uint256 _vReserveOut,
+        uint256 _feeInPrecision
+    )
+        internal
+        pure
+        returns (uint256 amountIn)
+    {
+        require(_amountOut > 0, "DMMLibrary: INSUFFICIENT_OUTPUT_AMOUNT");
+        require(_reserveIn > 0 && _amountOut < _reserveOut, "DMMLibrary: INSUFFICIENT_LIQUIDITY");
+
+        uint256 amountInWithFee = _vReserveIn.mul(_amountOut).div(_vReserveOut.sub(_amountOut)).add(1);
+        amountIn = amountInWithFee.mul(PRECISION).div(PRECISION.sub(_feeInPrecision)).add(1);
+    }
+}
@@ -27,6 +27,7 @@ contract LendingPoolAddressesProviderMock {
 
     mapping(bytes32 => address) private _addresses;
     bytes32 private constant LENDING_POOL = "LENDING_POOL";
+    bytes32 private constant PRICE_ORACLE = "PRICE_ORACLE";
     
     function setAddress(bytes32 id, address newAddress) external {
         _addresses[id] = newAddress;
@@ -39,4 +40,16 @@ contract LendingPoolAddressesProviderMock {
     function getLendingPool() external view returns (address) {
         return getAddress(LENDING_POOL);
     }
+
+    function setLendingPoolImpl(address pool) external {
+        _addresses[LENDING_POOL] = pool;
+    }
+
+    function getPriceOracle() external view returns (address) {
+        return getAddress(PRICE_ORACLE);
+    }
+
+    function setPriceOracle(address priceOracle) external {
+        _addresses[PRICE_ORACLE] = priceOracle;
+    }
 }
\ No newline at end of file
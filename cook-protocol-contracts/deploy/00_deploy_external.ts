@@ -0,0 +1,41 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { parseUnits } from "ethers/lib/utils";
+
+import { ether } from "../utils/common";
+import {
+  deployIfMissing,
+  getDeployerAddress,
+  getDeployHelper,
+  loadDeployManifest,
+} from "../utils/deploys/manifestUtils";
+
+// Deploys WETH when the manifest does not point at an existing one, plus any mock tokens and
+// oracles the manifest asks for (local networks only need these).
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifest = loadDeployManifest(hre.network.name);
+  const deployHelper = await getDeployHelper(hre);
+  const deployer = await getDeployerAddress(hre);
+
+  if (!manifest.external || !manifest.external.WETH) {
+    await deployIfMissing(hre, "WETH", () => deployHelper.external.deployWETH());
+  }
+
+  for (const token of manifest.mockTokens || []) {
+    await deployIfMissing(hre, token.name, () => deployHelper.mocks.deployTokenMock(
+      deployer,
+      parseUnits(token.initialBalance, token.decimals),
+      token.decimals,
+      token.name,
+      token.name
+    ));
+  }
+
+  for (const oracle of manifest.mockOracles || []) {
+    await deployIfMissing(hre, oracle.name, () => deployHelper.mocks.deployOracleMock(ether(oracle.price)));
+  }
+};
+
+func.tags = ["External"];
+
+export default func;
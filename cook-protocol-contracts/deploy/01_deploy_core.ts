@@ -0,0 +1,47 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  deployIfMissing,
+  getDeployerAddress,
+  getDeployHelper,
+  loadDeployManifest,
+  resolveReference,
+  resolveReferences,
+} from "../utils/deploys/manifestUtils";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifest = loadDeployManifest(hre.network.name);
+  const deployHelper = await getDeployHelper(hre);
+
+  const feeRecipient = manifest.feeRecipient
+    ? await resolveReference(hre, manifest, manifest.feeRecipient)
+    : await getDeployerAddress(hre);
+
+  const controller = await deployIfMissing(hre, "Controller", () => deployHelper.core.deployController(feeRecipient));
+
+  await deployIfMissing(hre, "IntegrationRegistry", () => deployHelper.core.deployIntegrationRegistry(controller));
+  await deployIfMissing(hre, "CKValuer", () => deployHelper.core.deployCKValuer(controller));
+  await deployIfMissing(hre, "CKTokenCreator", () => deployHelper.core.deployCKTokenCreator(controller));
+
+  const { pairs } = manifest.priceOracle;
+  const masterQuoteAsset = await resolveReference(hre, manifest, manifest.priceOracle.masterQuoteAsset);
+  const adapters = await resolveReferences(hre, manifest, manifest.priceOracle.adapters);
+  const assetOnes = await resolveReferences(hre, manifest, pairs.map(pair => pair.assetOne));
+  const assetTwos = await resolveReferences(hre, manifest, pairs.map(pair => pair.assetTwo));
+  const oracles = await resolveReferences(hre, manifest, pairs.map(pair => pair.oracle));
+
+  await deployIfMissing(hre, "PriceOracle", () => deployHelper.core.deployPriceOracle(
+    controller,
+    masterQuoteAsset,
+    adapters,
+    assetOnes,
+    assetTwos,
+    oracles
+  ));
+};
+
+func.tags = ["Core"];
+func.dependencies = ["External"];
+
+export default func;
@@ -0,0 +1,32 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  deployIfMissing,
+  getDeployHelper,
+  loadDeployManifest,
+  MODULE_DEPLOYERS,
+  resolveReference,
+  resolveReferences,
+} from "../utils/deploys/manifestUtils";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifest = loadDeployManifest(hre.network.name);
+  const deployHelper = await getDeployHelper(hre);
+  const controller = await resolveReference(hre, manifest, "Controller");
+
+  for (const module of manifest.modules) {
+    const deployModule = MODULE_DEPLOYERS[module.name];
+    if (!deployModule) {
+      throw new Error(`No module deployer registered for ${module.name}`);
+    }
+
+    const args = await resolveReferences(hre, manifest, module.args);
+    await deployIfMissing(hre, module.name, () => deployModule(deployHelper, controller, args));
+  }
+};
+
+func.tags = ["Modules"];
+func.dependencies = ["Core"];
+
+export default func;
@@ -0,0 +1,56 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { ADDRESS_ZERO } from "../utils/constants";
+import {
+  getDeployHelper,
+  loadDeployManifest,
+  resolveReference,
+  resolveReferences,
+} from "../utils/deploys/manifestUtils";
+
+// Initializes the Controller on first run. On later runs the Controller is already initialized, so any
+// factory, module or resource added to the manifest since is registered individually instead.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifest = loadDeployManifest(hre.network.name);
+  const deployHelper = await getDeployHelper(hre);
+  const controller = await deployHelper.core.getController(await resolveReference(hre, manifest, "Controller"));
+
+  const factories = [await resolveReference(hre, manifest, "CKTokenCreator")];
+  const modules = await resolveReferences(hre, manifest, manifest.modules.map(module => module.name));
+  const resourceNames = Object.keys(manifest.resources);
+  const resources = await resolveReferences(hre, manifest, resourceNames);
+  const resourceIds = resourceNames.map(name => manifest.resources[name]);
+
+  if (!(await controller.isInitialized())) {
+    await (await controller.initialize(factories, modules, resources, resourceIds)).wait();
+    hre.deployments.log("Initialized Controller");
+    return;
+  }
+
+  for (const factory of factories) {
+    if (!(await controller.isFactory(factory))) {
+      await (await controller.addFactory(factory)).wait();
+      hre.deployments.log(`Added factory ${factory}`);
+    }
+  }
+
+  for (const module of modules) {
+    if (!(await controller.isModule(module))) {
+      await (await controller.addModule(module)).wait();
+      hre.deployments.log(`Added module ${module}`);
+    }
+  }
+
+  for (let i = 0; i < resources.length; i++) {
+    if ((await controller.resourceId(resourceIds[i])) === ADDRESS_ZERO) {
+      await (await controller.addResource(resources[i], resourceIds[i])).wait();
+      hre.deployments.log(`Added resource ${resourceNames[i]} with id ${resourceIds[i]}`);
+    }
+  }
+};
+
+func.tags = ["Controller"];
+func.dependencies = ["Modules"];
+
+export default func;
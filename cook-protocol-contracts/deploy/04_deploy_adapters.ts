@@ -0,0 +1,49 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress } from "ethers/lib/utils";
+
+import { ADDRESS_ZERO } from "../utils/constants";
+import {
+  ADAPTER_DEPLOYERS,
+  deployIfMissing,
+  getDeployHelper,
+  loadDeployManifest,
+  resolveReference,
+  resolveReferences,
+} from "../utils/deploys/manifestUtils";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifest = loadDeployManifest(hre.network.name);
+  const deployHelper = await getDeployHelper(hre);
+  const integrationRegistry = await deployHelper.core.getIntegrationRegistry(
+    await resolveReference(hre, manifest, "IntegrationRegistry")
+  );
+
+  for (const adapter of manifest.adapters) {
+    const deployAdapter = ADAPTER_DEPLOYERS[adapter.name];
+    if (!deployAdapter) {
+      throw new Error(`No adapter deployer registered for ${adapter.name}`);
+    }
+
+    const args = await resolveReferences(hre, manifest, adapter.args);
+    const adapterAddress = await deployIfMissing(hre, adapter.name, () => deployAdapter(deployHelper, args));
+
+    for (const integration of adapter.integrations) {
+      const module = await resolveReference(hre, manifest, integration.module);
+      const currentAdapter = await integrationRegistry.getIntegrationAdapter(module, integration.integrationName);
+
+      if (currentAdapter === ADDRESS_ZERO) {
+        await (await integrationRegistry.addIntegration(module, integration.integrationName, adapterAddress)).wait();
+        hre.deployments.log(`Added integration ${integration.integrationName} to ${integration.module}`);
+      } else if (getAddress(currentAdapter) !== getAddress(adapterAddress)) {
+        await (await integrationRegistry.editIntegration(module, integration.integrationName, adapterAddress)).wait();
+        hre.deployments.log(`Edited integration ${integration.integrationName} on ${integration.module}`);
+      }
+    }
+  }
+};
+
+func.tags = ["Adapters"];
+func.dependencies = ["Controller"];
+
+export default func;
@@ -0,0 +1,46 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress } from "ethers/lib/utils";
+
+import { ADDRESS_ZERO } from "../utils/constants";
+import {
+  getDeployHelper,
+  loadDeployManifest,
+  resolveReference,
+  resolveReferences,
+} from "../utils/deploys/manifestUtils";
+
+// PriceOracle receives the manifest's pairs and adapters at construction. This brings an existing
+// PriceOracle in line with pairs and adapters added to or changed in the manifest afterwards.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifest = loadDeployManifest(hre.network.name);
+  const deployHelper = await getDeployHelper(hre);
+  const priceOracle = await deployHelper.core.getPriceOracle(await resolveReference(hre, manifest, "PriceOracle"));
+
+  for (const pair of manifest.priceOracle.pairs) {
+    const [assetOne, assetTwo, oracle] = await resolveReferences(hre, manifest, [pair.assetOne, pair.assetTwo, pair.oracle]);
+    const currentOracle = await priceOracle.oracles(assetOne, assetTwo);
+
+    if (currentOracle === ADDRESS_ZERO) {
+      await (await priceOracle.addPair(assetOne, assetTwo, oracle)).wait();
+      hre.deployments.log(`Added oracle pair ${pair.assetOne}/${pair.assetTwo}`);
+    } else if (getAddress(currentOracle) !== getAddress(oracle)) {
+      await (await priceOracle.editPair(assetOne, assetTwo, oracle)).wait();
+      hre.deployments.log(`Edited oracle pair ${pair.assetOne}/${pair.assetTwo}`);
+    }
+  }
+
+  const currentAdapters = (await priceOracle.getAdapters()).map(adapter => getAddress(adapter));
+  const adapters = await resolveReferences(hre, manifest, manifest.priceOracle.adapters);
+  for (const adapter of adapters) {
+    if (currentAdapters.indexOf(getAddress(adapter)) === -1) {
+      await (await priceOracle.addAdapter(adapter)).wait();
+      hre.deployments.log(`Added oracle adapter ${adapter}`);
+    }
+  }
+};
+
+func.tags = ["PriceOracle"];
+func.dependencies = ["Core"];
+
+export default func;
@@ -0,0 +1,22 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { buildAddressBook, writeAddressBook } from "../utils/deploys/addressBook";
+import { isLocalNetwork, loadDeployManifest } from "../utils/deploys/manifestUtils";
+
+// Writes addresses/<network>.json so tools and tasks can find the system without hardhat-deploy's deployments folder.
+// Local chains are thrown away after every run (the specs deploy to localhost too), so they get no address book and
+// tasks fall back to the saved deployments.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  if (isLocalNetwork(hre.network.name)) {
+    return;
+  }
+
+  const addressBook = await buildAddressBook(hre, loadDeployManifest(hre.network.name));
+  hre.deployments.log(`Wrote address book to ${writeAddressBook(addressBook)}`);
+};
+
+func.tags = ["AddressBook"];
+func.dependencies = ["Adapters", "PriceOracle"];
+
+export default func;
@@ -0,0 +1,83 @@
+import { task, types } from "hardhat/config";
+import { BigNumber } from "ethers";
+import { formatEther } from "ethers/lib/utils";
+
+const ONE_DAY_IN_SECONDS = 86400;
+
+// Replays FeeActualized events of a CKToken and prints the realized manager and protocol fees per period
+task("fees:report", "Prints realized streaming fees per period from FeeActualized events")
+  .addParam("ckToken", "Address of the CKToken")
+  .addParam("feeModule", "Address of the StreamingFeeModule")
+  .addOptionalParam("period", "Period length in days", 30, types.int)
+  .addOptionalParam("fromBlock", "First block to replay events from", 0, types.int)
+  .setAction(async ({ ckToken, feeModule, period, fromBlock }, { ethers }) => {
+    const { groupFeesByPeriod } = await import("../utils/common/streamingFeeProjector");
+
+    const streamingFeeModule = await ethers.getContractAt("StreamingFeeModule", feeModule);
+    const events = await streamingFeeModule.queryFilter(streamingFeeModule.filters.FeeActualized(ckToken), fromBlock);
+    if (events.length === 0) {
+      console.log(`No FeeActualized events for ${ckToken} since block ${fromBlock}`);
+      return;
+    }
+
+    const accruals = [];
+    for (let i = 0; i < events.length; i++) {
+      const block = await events[i].getBlock();
+      accruals.push({
+        timestamp: block.timestamp,
+        managerFee: events[i].args!._managerFee as BigNumber,
+        protocolFee: events[i].args!._protocolFee as BigNumber,
+      });
+    }
+
+    const periods = groupFeesByPeriod(accruals, accruals[0].timestamp, period * ONE_DAY_IN_SECONDS);
+    console.table(periods.map(summary => ({
+      start: new Date(summary.startTimestamp * 1000).toISOString(),
+      end: new Date(summary.endTimestamp * 1000).toISOString(),
+      accruals: summary.accrualCount,
+      managerFee: formatEther(summary.managerFee),
+      protocolFee: formatEther(summary.protocolFee),
+    })));
+  });
+
+// Projects the fees a CKToken accrues from its current fee state assuming constant supply between accruals
+task("fees:project", "Projects manager and protocol streaming fees over a horizon")
+  .addParam("ckToken", "Address of the CKToken")
+  .addParam("feeModule", "Address of the StreamingFeeModule")
+  .addOptionalParam("horizon", "Projection horizon in days", 365, types.int)
+  .addOptionalParam("cadence", "Days between accruals", 30, types.int)
+  .setAction(async ({ ckToken, feeModule, horizon, cadence }, { ethers }) => {
+    const {
+      getAccrualSchedule,
+      getStreamingFeeProjectionSettings,
+      projectStreamingFees,
+    } = await import("../utils/common/streamingFeeProjector");
+
+    const { CKToken__factory } = await import("../typechain/factories/CKToken__factory");
+    const { Controller__factory } = await import("../typechain/factories/Controller__factory");
+    const { StreamingFeeModule__factory } = await import("../typechain/factories/StreamingFeeModule__factory");
+
+    const streamingFeeModule = StreamingFeeModule__factory.connect(feeModule, ethers.provider);
+    const controller = Controller__factory.connect(await streamingFeeModule.controller(), ethers.provider);
+    const ckTokenInstance = CKToken__factory.connect(ckToken, ethers.provider);
+
+    const settings = await getStreamingFeeProjectionSettings(streamingFeeModule, controller, ckTokenInstance);
+    const schedule = getAccrualSchedule(
+      settings.feeState.lastStreamingFeeTimestamp.toNumber(),
+      horizon * ONE_DAY_IN_SECONDS,
+      cadence * ONE_DAY_IN_SECONDS
+    );
+    const projection = projectStreamingFees(settings, schedule);
+
+    console.table(projection.accruals.map(accrual => ({
+      date: new Date(accrual.timestamp * 1000).toISOString(),
+      managerFee: formatEther(accrual.managerFee),
+      protocolFee: formatEther(accrual.protocolFee),
+      totalSupply: formatEther(accrual.totalSupply),
+      positionMultiplier: formatEther(accrual.positionMultiplier),
+    })));
+    console.log(`Total manager fee: ${formatEther(projection.totalManagerFee)}`);
+    console.log(`Total protocol fee: ${formatEther(projection.totalProtocolFee)}`);
+  });
+
+export {};
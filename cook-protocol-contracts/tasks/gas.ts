@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { TASK_TEST } from "hardhat/builtin-tasks/task-names";
+
+const BENCHMARKS_DIRECTORY = path.join(__dirname, "../benchmarks");
+
+// Runs the benchmark specs, which write the gas used by each benchmark transaction to GAS_REPORT_FILE, then compares
+// the report with the stored baseline
+task("gas:report", "Runs the module gas benchmarks and compares them with a baseline")
+  .addOptionalParam("baseline", "Path of the baseline report", "gas-baseline.json")
+  .addOptionalParam("output", "Path of the report without extension, written as .json and .md", "gas-report")
+  .addOptionalParam("threshold", "Percentage of extra gas over the baseline reported as a regression", 2, types.float)
+  .addFlag("updateBaseline", "Overwrite the baseline with this run's measurements")
+  .setAction(async ({ baseline, output, threshold, updateBaseline }, hre) => {
+    const {
+      compareGasReports,
+      formatGasReportMarkdown,
+      getGasRegressions,
+      getUnbaselinedBenchmarks,
+      readGasReport,
+      writeGasReport,
+    } = await import("../utils/gas");
+
+    const reportPath = path.resolve(`${output}.json`);
+    const markdownPath = path.resolve(`${output}.md`);
+    const baselinePath = path.resolve(baseline);
+
+    const testFiles = fs.readdirSync(BENCHMARKS_DIRECTORY)
+      .filter(file => /\.spec\.ts$/.test(file))
+      .map(file => path.join(BENCHMARKS_DIRECTORY, file));
+
+    process.env.GAS_REPORT_FILE = reportPath;
+    const failures = await hre.run(TASK_TEST, { testFiles });
+    if (failures > 0) {
+      throw new Error(`${failures} gas benchmark(s) failed, no report was compared`);
+    }
+
+    const report = readGasReport(reportPath);
+    if (report === undefined) {
+      throw new Error(`The benchmarks did not write a report to ${reportPath}`);
+    }
+
+    const baselineReport = readGasReport(baselinePath);
+    const comparisons = baselineReport ? compareGasReports(report, baselineReport, threshold) : undefined;
+    const markdown = formatGasReportMarkdown(report, comparisons, threshold);
+
+    fs.writeFileSync(markdownPath, markdown);
+    console.log(markdown);
+    console.log(`Report written to ${reportPath} and ${markdownPath}`);
+
+    if (updateBaseline) {
+      writeGasReport(report, baselinePath);
+      console.log(`Baseline ${baselinePath} updated`);
+      return report;
+    }
+
+    if (baselineReport === undefined) {
+      throw new Error(`No baseline at ${baselinePath}, run with --update-baseline to store this report as the baseline`);
+    }
+
+    if (getGasRegressions(comparisons!).length > 0) {
+      throw new Error(`Gas regressions above ${threshold}% against ${baselinePath}`);
+    }
+
+    // A benchmark missing from the baseline is never compared, so fail rather than let it pass unchecked
+    const unbaselined = getUnbaselinedBenchmarks(comparisons!).map(comparison => comparison.benchmark);
+    if (unbaselined.length > 0) {
+      throw new Error(
+        `${baselinePath} has no entry for ${unbaselined.join(", ")}, run with --update-baseline and commit the baseline`
+      );
+    }
+
+    return report;
+  });
+
+export {};
@@ -1 +1,4 @@
 export * from "./subtasks";
+export * from "./fees";
+export * from "./gas";
+export * from "./manager";
@@ -0,0 +1,286 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract, Event } from "ethers";
+import { formatUnits, parseEther, parseUnits } from "ethers/lib/utils";
+
+import type { IntegrationRegistry } from "../utils/contracts";
+import { MODULE_STATE } from "../utils/constants";
+import {
+  AddressBook,
+  getAddressName,
+  loadAddressBook,
+  parseList,
+  resolveAddress,
+  sendOrSimulate,
+} from "../utils/tasks";
+
+const TOKEN_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+const MODULE_STATE_NAMES = Object.keys(MODULE_STATE);
+
+async function getContract(hre: HardhatRuntimeEnvironment, addressBook: AddressBook, name: string, nameOrAddress?: string) {
+  return hre.ethers.getContractAt(name, resolveAddress(addressBook, nameOrAddress || name));
+}
+
+async function getToken(hre: HardhatRuntimeEnvironment, address: string): Promise<Contract> {
+  return hre.ethers.getContractAt(TOKEN_ABI, address);
+}
+
+task("ck:create", "Creates a CKToken through the CKTokenCreator")
+  .addParam("components", "Comma separated component names or addresses")
+  .addParam("units", "Comma separated units per CKToken, in whole tokens (e.g. 0.5,100)")
+  .addParam("modules", "Comma separated module names or addresses")
+  .addParam("name", "CKToken name")
+  .addParam("symbol", "CKToken symbol")
+  .addOptionalParam("manager", "Manager address, defaults to the sender")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const [signer] = await hre.ethers.getSigners();
+
+    const components = parseList(args.components).map(component => resolveAddress(addressBook, component));
+    const unitValues = parseList(args.units);
+    if (components.length !== unitValues.length) {
+      throw new Error("Components and units must have the same length");
+    }
+
+    const units = [];
+    for (let i = 0; i < components.length; i++) {
+      units.push(parseUnits(unitValues[i], await (await getToken(hre, components[i])).decimals()));
+    }
+    const modules = parseList(args.modules).map(module => resolveAddress(addressBook, module));
+
+    const creator = await getContract(hre, addressBook, "CKTokenCreator");
+    const createArgs = [components, units, modules, args.manager || signer.address, args.name, args.symbol];
+
+    if (args.dryRun) {
+      const ckTokenAddress = await sendOrSimulate(creator, "create", createArgs, true);
+      console.log(`CKToken would be created at ${ckTokenAddress}`);
+      return ckTokenAddress;
+    }
+
+    const receipt = await sendOrSimulate(creator, "create", createArgs, false);
+    const created = (receipt.events || []).filter((event: Event) => event.event === "CKTokenCreated")[0];
+    console.log(`Created CKToken ${args.symbol} at ${created.args!._ckToken}`);
+    return created.args!._ckToken;
+  });
+
+task("ck:info", "Prints a CKToken's supply, positions and modules")
+  .addParam("ckToken", "CKToken address")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const ckToken = await hre.ethers.getContractAt("CKToken", args.ckToken);
+
+    console.log(`${await ckToken.name()} (${await ckToken.symbol()}) at ${ckToken.address}`);
+    console.log(`Manager: ${await ckToken.manager()}`);
+    console.log(`Total supply: ${formatUnits(await ckToken.totalSupply())}`);
+    console.log(`Position multiplier: ${formatUnits(await ckToken.positionMultiplier())}`);
+
+    const positions = await ckToken.getPositions();
+    const rows = [];
+    for (let i = 0; i < positions.length; i++) {
+      const token = await getToken(hre, positions[i].component);
+      rows.push({
+        component: `${await token.symbol()} (${positions[i].component})`,
+        module: positions[i].positionState === 0
+          ? "default"
+          : getAddressName(addressBook, positions[i].module) || positions[i].module,
+        unit: formatUnits(positions[i].unit, await token.decimals()),
+      });
+    }
+    console.table(rows);
+
+    const modules = (await ckToken.getModules()).concat(await ckToken.getPendingModules());
+    const moduleRows = [];
+    for (let i = 0; i < modules.length; i++) {
+      const module = modules[i];
+      moduleRows.push({
+        module: getAddressName(addressBook, module) || module,
+        address: module,
+        state: MODULE_STATE_NAMES[await ckToken.moduleStates(module)],
+      });
+    }
+    console.table(moduleRows);
+  });
+
+task("ck:add-module", "Adds a module to a CKToken, leaving it pending initialization")
+  .addParam("ckToken", "CKToken address")
+  .addParam("module", "Module name or address")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const ckToken = await hre.ethers.getContractAt("CKToken", args.ckToken);
+
+    return sendOrSimulate(ckToken, "addModule", [resolveAddress(addressBook, args.module)], args.dryRun);
+  });
+
+task("ck:accrue-fee", "Accrues the streaming fee of a CKToken")
+  .addParam("ckToken", "CKToken address")
+  .addOptionalParam("feeModule", "StreamingFeeModule name or address", "StreamingFeeModule")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const feeModule = await getContract(hre, addressBook, "StreamingFeeModule", args.feeModule);
+
+    if (args.dryRun) {
+      return sendOrSimulate(feeModule, "accrueFee", [args.ckToken], true);
+    }
+
+    const receipt = await sendOrSimulate(feeModule, "accrueFee", [args.ckToken], false);
+    const actualized = (receipt.events || []).filter((event: Event) => event.event === "FeeActualized")[0];
+    console.log(`Manager fee: ${formatUnits(actualized.args!._managerFee)}`);
+    console.log(`Protocol fee: ${formatUnits(actualized.args!._protocolFee)}`);
+    return receipt;
+  });
+
+task("ck:update-fee", "Updates the streaming fee percentage of a CKToken")
+  .addParam("ckToken", "CKToken address")
+  .addParam("fee", "New annual streaming fee as a decimal (e.g. 0.02 for 2%)")
+  .addOptionalParam("feeModule", "StreamingFeeModule name or address", "StreamingFeeModule")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const feeModule = await getContract(hre, addressBook, "StreamingFeeModule", args.feeModule);
+
+    return sendOrSimulate(feeModule, "updateStreamingFee", [args.ckToken, parseEther(args.fee)], args.dryRun);
+  });
+
+task("ck:issue", "Issues CKTokens through the BasicIssuanceModule, approving components as needed")
+  .addParam("ckToken", "CKToken address")
+  .addParam("quantity", "CKTokens to issue, in whole tokens")
+  .addOptionalParam("to", "Recipient address, defaults to the sender")
+  .addOptionalParam("issuanceModule", "Issuance module name or address", "BasicIssuanceModule")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const [signer] = await hre.ethers.getSigners();
+    const issuanceModule = await getContract(hre, addressBook, "BasicIssuanceModule", args.issuanceModule);
+    const quantity = parseEther(args.quantity);
+
+    const [components, units] = await issuanceModule.getRequiredComponentUnitsForIssue(args.ckToken, quantity);
+    let missingAllowance = false;
+    for (let i = 0; i < components.length; i++) {
+      const token = await getToken(hre, components[i]);
+      const symbol = await token.symbol();
+      console.log(`Requires ${formatUnits(units[i], await token.decimals())} ${symbol}`);
+
+      if ((await token.allowance(signer.address, issuanceModule.address)).lt(units[i])) {
+        if (args.dryRun) {
+          console.log(`[dry-run] ${symbol} would be approved`);
+          missingAllowance = true;
+        } else {
+          await (await token.approve(issuanceModule.address, units[i])).wait();
+        }
+      }
+    }
+
+    // Simulating without the approvals in place would only report the missing allowance
+    if (args.dryRun && missingAllowance) {
+      return;
+    }
+
+    return sendOrSimulate(issuanceModule, "issue", [args.ckToken, quantity, args.to || signer.address], args.dryRun);
+  });
+
+task("ck:redeem", "Redeems CKTokens through the BasicIssuanceModule")
+  .addParam("ckToken", "CKToken address")
+  .addParam("quantity", "CKTokens to redeem, in whole tokens")
+  .addOptionalParam("to", "Recipient of the components, defaults to the sender")
+  .addOptionalParam("issuanceModule", "Issuance module name or address", "BasicIssuanceModule")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const [signer] = await hre.ethers.getSigners();
+    const issuanceModule = await getContract(hre, addressBook, "BasicIssuanceModule", args.issuanceModule);
+
+    return sendOrSimulate(
+      issuanceModule,
+      "redeem",
+      [args.ckToken, parseEther(args.quantity), args.to || signer.address],
+      args.dryRun
+    );
+  });
+
+task("registry:add-integration", "Registers an adapter for a module in the IntegrationRegistry")
+  .addParam("module", "Module name or address")
+  .addParam("integration", "Integration name the module looks the adapter up by")
+  .addParam("adapter", "Adapter name or address")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const registry = await getContract(hre, addressBook, "IntegrationRegistry");
+
+    return sendOrSimulate(
+      registry,
+      "addIntegration",
+      [resolveAddress(addressBook, args.module), args.integration, resolveAddress(addressBook, args.adapter)],
+      args.dryRun
+    );
+  });
+
+task("registry:audit", "Compares the IntegrationRegistry's adapters with the network's deploy manifest")
+  .addOptionalParam("fromBlock", "First block to replay integration events from", 0, types.int)
+  .setAction(async (args, hre) => {
+    const { loadDeployManifest } = await import("../utils/deploys/manifestUtils");
+    const { IntegrationRegistryAuditor, getExpectedIntegrations } = await import("../utils/registry/integrationAuditor");
+
+    const addressBook = await loadAddressBook(hre);
+    const registry = await getContract(hre, addressBook, "IntegrationRegistry") as IntegrationRegistry;
+    const expected = await getExpectedIntegrations(
+      loadDeployManifest(hre.network.name),
+      async reference => resolveAddress(addressBook, reference)
+    );
+
+    const report = await new IntegrationRegistryAuditor(registry).audit(expected, args.fromBlock);
+    for (const audit of report.modules) {
+      console.log(`${audit.moduleName || getAddressName(addressBook, audit.module) || audit.module}: ${audit.matching.length} matching`);
+      audit.missing.forEach(integration => console.log(`  missing    ${integration.integrationName} => ${integration.adapterName}`));
+      audit.stale.forEach(({ expected, registeredAdapter }) => console.log(
+        `  stale      ${expected.integrationName} => ${getAddressName(addressBook, registeredAdapter) || registeredAdapter}, ` +
+        `expected ${expected.adapterName}`
+      ));
+      audit.unexpected.forEach(integration => console.log(
+        `  unexpected ${integration.integrationName} => ${getAddressName(addressBook, integration.adapter) || integration.adapter}`
+      ));
+    }
+
+    if (report.isClean) {
+      console.log("IntegrationRegistry matches the manifest");
+    }
+    if (report.batchAddIntegration) {
+      console.log(`batchAddIntegration calldata for ${report.batchAddIntegration.to}:\n${report.batchAddIntegration.data}`);
+    }
+    if (report.batchEditIntegration) {
+      console.log(`batchEditIntegration calldata for ${report.batchEditIntegration.to}:\n${report.batchEditIntegration.data}`);
+    }
+
+    return report;
+  });
+
+task("oracle:add-pair", "Adds an oracle for an asset pair to the PriceOracle")
+  .addParam("assetOne", "Base asset name or address")
+  .addParam("assetTwo", "Quote asset name or address")
+  .addParam("oracle", "Oracle name or address")
+  .addFlag("dryRun", "Simulate through callStatic without sending a transaction")
+  .setAction(async (args, hre) => {
+    const addressBook = await loadAddressBook(hre);
+    const priceOracle = await getContract(hre, addressBook, "PriceOracle");
+
+    return sendOrSimulate(
+      priceOracle,
+      "addPair",
+      [
+        resolveAddress(addressBook, args.assetOne),
+        resolveAddress(addressBook, args.assetTwo),
+        resolveAddress(addressBook, args.oracle),
+      ],
+      args.dryRun
+    );
+  });
+
+export {};
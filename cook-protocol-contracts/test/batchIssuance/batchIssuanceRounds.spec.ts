@@ -0,0 +1,471 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+import { hexZeroPad } from "ethers/lib/utils";
+
+import { BatchIssuanceSetting } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256 } from "@utils/constants";
+import { BatchIssuanceModule, CKToken } from "@utils/contracts";
+import {
+  BatchIssuanceBalanceCheck,
+  BatchIssuanceRoundExplorer,
+  BatchIssuanceUserBalances,
+  BatchIssueCheck,
+  BatchIssueKeeper,
+  BatchIssueKeeperOptions,
+  BatchIssueResult,
+} from "@utils/batchIssuance";
+import DeployHelper from "@utils/deploys";
+import { bitcoin, ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getLastBlockTimestamp,
+  getSystemFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("BatchIssuanceModule rounds", () => {
+  let owner: Account;
+  let alice: Account;
+  let bob: Account;
+  let carol: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let uniswapSetup: UniswapFixture;
+  let sushiswapSetup: UniswapFixture;
+
+  let ckToken: CKToken;
+  let batchIssuanceModule: BatchIssuanceModule;
+
+  before(async () => {
+    [
+      owner,
+      alice,
+      bob,
+      carol,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    uniswapSetup = getUniswapFixture(owner.address);
+    sushiswapSetup = getUniswapFixture(owner.address);
+
+    await setup.initialize();
+    await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    await sushiswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+    await setup.weth.approve(uniswapSetup.router.address, ether(2000));
+    await setup.dai.approve(uniswapSetup.router.address, ether(460000));
+    await uniswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.dai.address,
+      ether(2000),
+      ether(460000),
+      ether(1485),
+      ether(173000),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    await setup.weth.approve(sushiswapSetup.router.address, ether(1000));
+    await setup.wbtc.approve(sushiswapSetup.router.address, ether(26));
+    await sushiswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.wbtc.address,
+      ether(1000),
+      bitcoin(25.5555),
+      ether(999),
+      ether(25.3),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    batchIssuanceModule = await deployer.modules.deployBatchIssuanceModule(
+      setup.controller.address,
+      setup.weth.address,
+      setup.issuanceModule.address
+    );
+    await setup.controller.addModule(batchIssuanceModule.address);
+
+    const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+    const sushiswapExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(sushiswapSetup.router.address);
+    await setup.integrationRegistry.batchAddIntegration(
+      [batchIssuanceModule.address, batchIssuanceModule.address],
+      ["UNISWAP", "SUSHISWAP"],
+      [uniswapExchangeAdapter.address, sushiswapExchangeAdapter.address]
+    );
+
+    ckToken = await setup.createCKToken(
+      [setup.dai.address, setup.wbtc.address],
+      [ether(86.9565217), bitcoin(.01111111)],        // $100 of each
+      [setup.issuanceModule.address, batchIssuanceModule.address]
+    );
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await batchIssuanceModule.initialize(ckToken.address, {
+      feeRecipient: owner.address,
+      managerFees: [ether(0.04), ether(0.05)],
+      maxManagerFee: ether(0.1),
+      minCKTokenSupply: ether(5),
+    } as BatchIssuanceSetting);
+    await batchIssuanceModule.setExchanges(
+      ckToken.address,
+      [setup.dai.address, setup.wbtc.address],
+      ["UNISWAP", "SUSHISWAP"]
+    );
+
+    // Batch issuance requires the minimum supply to exist already
+    await setup.approveAndIssueCKToken(ckToken, ether(10));
+
+    const depositors = [alice, bob, carol];
+    for (let i = 0; i < depositors.length; i++) {
+      await setup.weth.transfer(depositors[i].address, ether(10));
+      await setup.weth.connect(depositors[i].wallet).approve(batchIssuanceModule.address, MAX_UINT_256);
+    }
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function deposit(depositor: Account, amount: BigNumber): Promise<void> {
+    await batchIssuanceModule.connect(depositor.wallet).deposit(ckToken.address, amount);
+  }
+
+  describe("BatchIssuanceRoundExplorer", async () => {
+    let explorer: BatchIssuanceRoundExplorer;
+
+    beforeEach(async () => {
+      // Round 0 is issued, round 1 is issued after bob withdrew round 0 and round 2 is open
+      await deposit(alice, ether(1));
+      await deposit(bob, ether(0.5));
+      await deposit(alice, ether(0.25));
+      await batchIssuanceModule.batchIssue(ckToken.address);
+
+      await deposit(carol, ether(0.7));
+      await deposit(alice, ether(0.3));
+      await batchIssuanceModule.connect(bob.wallet).withdrawCKToken(ckToken.address);
+      await batchIssuanceModule.batchIssue(ckToken.address);
+
+      await deposit(bob, ether(0.4));
+
+      explorer = new BatchIssuanceRoundExplorer(batchIssuanceModule, ckToken.address);
+    });
+
+    describe("#sync", async () => {
+      async function subject(): Promise<number> {
+        return explorer.sync();
+      }
+
+      it("should rebuild every round from the module's events", async () => {
+        await subject();
+
+        expect(explorer.rounds.length).to.eq(3);
+        expect(explorer.getCurrentRound().roundNumber).to.eq((await batchIssuanceModule.getCurrentRound(ckToken.address)).toNumber());
+        expect(explorer.rounds[0].totalEthDeposited).to.eq(ether(1.75));
+        expect(explorer.rounds[0].deposits[alice.address.toLowerCase()]).to.eq(ether(1.25));
+        expect(explorer.rounds[2].totalEthDeposited).to.eq(await batchIssuanceModule.getCurrentRoundDeposited(ckToken.address));
+      });
+
+      it("should mirror the module's round info after withdrawals", async () => {
+        await subject();
+
+        for (let i = 0; i < explorer.rounds.length; i++) {
+          const roundInfo = await batchIssuanceModule.roundInfos(ckToken.address, i);
+          expect(explorer.rounds[i].remainingEthDeposited).to.eq(roundInfo.totalEthDeposited);
+          expect(explorer.rounds[i].remainingCkTokenIssued).to.eq(roundInfo.totalCkTokenIssued);
+        }
+        expect(explorer.rounds[0].totalEthDeposited.sub(explorer.rounds[0].remainingEthDeposited)).to.eq(ether(0.5));
+      });
+
+      it("should record when each round opened and was issued", async () => {
+        await subject();
+
+        expect(explorer.rounds[0].firstDepositTimestamp).to.be.lte(explorer.rounds[0].issuedTimestamp!);
+        expect(explorer.rounds[1].issuedBlock).to.be.gt(explorer.rounds[1].firstDepositBlock!);
+        expect(explorer.rounds[2].issuedBlock).to.be.undefined;
+        expect(explorer.rounds[2].firstDepositTimestamp).to.eq((await getLastBlockTimestamp()).toNumber());
+      });
+
+      describe("when synced in several passes", async () => {
+        it("should resume from the last synced block", async () => {
+          const latestBlock = await subject();
+          await deposit(carol, ether(0.2));
+
+          await subject();
+
+          expect(explorer.lastSyncedBlock).to.eq(latestBlock + 1);
+          expect(explorer.getCurrentRound().totalEthDeposited).to.eq(ether(0.6));
+        });
+      });
+
+      describe("when the first events are skipped", async () => {
+        it("should throw", async () => {
+          const issueLogs = await batchIssuanceModule.queryFilter({
+            address: batchIssuanceModule.address,
+            topics: [batchIssuanceModule.interface.getEventTopic("CKTokenBatchIssued"), hexZeroPad(ckToken.address, 32)],
+          });
+
+          let errorMessage: string = "";
+          try {
+            await explorer.sync({ fromBlock: issueLogs[0].blockNumber + 1 });
+          } catch (error) {
+            errorMessage = error.message;
+          }
+
+          expect(errorMessage).to.eq("Deposit into round 1 while replaying round 0, sync from an earlier block");
+        });
+      });
+    });
+
+    describe("#getUserBalances", async () => {
+      let subjectUser: Account;
+
+      beforeEach(async () => {
+        await explorer.sync();
+        subjectUser = alice;
+      });
+
+      function subject(): BatchIssuanceUserBalances {
+        return explorer.getUserBalances(subjectUser.address);
+      }
+
+      it("should match inputBalanceOf and outputBalanceOf", async () => {
+        const balances = subject();
+
+        expect(balances.pending).to.eq(await batchIssuanceModule.inputBalanceOf(ckToken.address, alice.address));
+        expect(balances.claimable).to.eq(await batchIssuanceModule.outputBalanceOf(ckToken.address, alice.address));
+      });
+
+      it("should split the claimable CKTokens by round", async () => {
+        const balances = subject();
+
+        const roundZero = explorer.rounds[0];
+        const expectedRoundZero = roundZero.remainingCkTokenIssued.mul(ether(1.25)).div(roundZero.remainingEthDeposited);
+        expect(balances.rounds.map(round => round.roundNumber)).to.deep.eq([0, 1]);
+        expect(balances.rounds[0].claimable).to.eq(expectedRoundZero);
+        expect(balances.rounds[0].claimable.add(balances.rounds[1].claimable)).to.eq(balances.claimable);
+      });
+
+      describe("when the user has withdrawn", async () => {
+        beforeEach(async () => {
+          subjectUser = bob;
+        });
+
+        it("should report the round as withdrawn and the open deposit as pending", async () => {
+          const balances = subject();
+
+          expect(balances.rounds[0].isWithdrawn).to.be.true;
+          expect(balances.rounds[0].claimable).to.eq(0);
+          expect(balances.rounds[1].pending).to.eq(ether(0.4));
+          expect(balances.pending).to.eq(ether(0.4));
+          expect(balances.claimable).to.eq(0);
+        });
+      });
+    });
+
+    describe("#checkBalances", async () => {
+      beforeEach(async () => {
+        // Carol claims alice's CKTokens for her, so the withdrawal is replayed for alice rather than the sender
+        await batchIssuanceModule.connect(carol.wallet).withdrawCKTokenTo(ckToken.address, alice.address);
+        await explorer.sync();
+      });
+
+      async function subject(): Promise<BatchIssuanceBalanceCheck[]> {
+        return explorer.checkBalances();
+      }
+
+      it("should match the module for every depositor", async () => {
+        const checks = await subject();
+
+        expect(checks.map(check => check.user)).to.deep.eq(
+          [alice.address, bob.address, carol.address].map(address => address.toLowerCase())
+        );
+        checks.forEach(check => expect(check.isMatching).to.be.true);
+        expect(checks[0].claimable).to.eq(0);
+        expect(checks[2].onChainClaimable).to.be.gt(0);
+      });
+    });
+  });
+
+  describe("BatchIssueKeeper", async () => {
+    let explorer: BatchIssuanceRoundExplorer;
+    let keeperOptions: BatchIssueKeeperOptions;
+
+    beforeEach(async () => {
+      explorer = new BatchIssuanceRoundExplorer(batchIssuanceModule, ckToken.address);
+      keeperOptions = {
+        depositThreshold: ether(1),
+        maxRoundDuration: 3600,
+      };
+    });
+
+    describe("#check", async () => {
+      async function subject(): Promise<BatchIssueCheck> {
+        return new BatchIssueKeeper(explorer, keeperOptions).check();
+      }
+
+      it("should not issue an empty round", async () => {
+        const check = await subject();
+
+        expect(check.shouldIssue).to.be.false;
+        expect(check.reason).to.eq("Round has no deposits");
+      });
+
+      describe("when the deposits are below the threshold", async () => {
+        beforeEach(async () => {
+          await deposit(alice, ether(0.6));
+        });
+
+        it("should wait for more deposits", async () => {
+          const check = await subject();
+
+          expect(check.shouldIssue).to.be.false;
+          expect(check.deposited).to.eq(ether(0.6));
+          expect(check.roundOpenedAt).to.eq((await getLastBlockTimestamp()).toNumber());
+          expect(check.reason).to.eq("Round is not due");
+        });
+
+        describe("when the round has been open for the max duration", async () => {
+          beforeEach(async () => {
+            await increaseTimeAsync(BigNumber.from(3600));
+          });
+
+          it("should issue the round", async () => {
+            const check = await subject();
+
+            expect(check.shouldIssue).to.be.true;
+            expect(check.blockTimestamp).to.be.gte(check.roundOpenedAt! + 3600);
+            expect(check.reason).to.eq("Round has been open for maxRoundDuration");
+          });
+        });
+      });
+
+      describe("when the deposits reach the threshold", async () => {
+        beforeEach(async () => {
+          await deposit(alice, ether(0.6));
+          await deposit(bob, ether(0.4));
+        });
+
+        it("should issue the round", async () => {
+          const check = await subject();
+
+          expect(check.shouldIssue).to.be.true;
+          expect(check.reason).to.eq("Deposits reached the threshold");
+        });
+      });
+
+      describe("when neither a threshold nor a duration is set", async () => {
+        beforeEach(async () => {
+          keeperOptions = {};
+        });
+
+        it("should throw", async () => {
+          expect(() => new BatchIssueKeeper(explorer, keeperOptions)).to.throw(
+            "BatchIssueKeeper needs a depositThreshold, a maxRoundDuration or both"
+          );
+        });
+      });
+    });
+
+    describe("#checkAndIssue", async () => {
+      beforeEach(async () => {
+        await deposit(alice, ether(1.5));
+      });
+
+      async function subject(): Promise<BatchIssueResult> {
+        return new BatchIssueKeeper(explorer, keeperOptions).checkAndIssue();
+      }
+
+      it("should batch issue the round", async () => {
+        const result = await subject();
+
+        expect(result.issued).to.be.true;
+        expect(await batchIssuanceModule.getCurrentRound(ckToken.address)).to.eq(1);
+        expect(await batchIssuanceModule.outputBalanceOf(ckToken.address, alice.address)).to.be.gt(0);
+      });
+
+      describe("when batchIssue would revert", async () => {
+        beforeEach(async () => {
+          await batchIssuanceModule.setExchanges(ckToken.address, [setup.dai.address], ["SUSHISWAP"]);
+        });
+
+        it("should skip the round and report the revert reason", async () => {
+          const result = await subject();
+
+          expect(result.check.shouldIssue).to.be.true;
+          expect(result.issued).to.be.false;
+          expect(result.reason).to.not.be.undefined;
+          expect(await batchIssuanceModule.getCurrentRound(ckToken.address)).to.eq(0);
+        });
+      });
+    });
+
+    describe("#run", async () => {
+      let waits: number;
+      let results: BatchIssueResult[];
+      let errors: Error[];
+
+      beforeEach(async () => {
+        waits = 0;
+        results = [];
+        errors = [];
+        keeperOptions = {
+          depositThreshold: ether(1),
+          pollInterval: 1000,
+          wait: async () => {
+            // Each poll brings in a new deposit, the second one crosses the threshold
+            waits++;
+            await deposit(bob, ether(0.5));
+          },
+        };
+        await deposit(alice, ether(0.25));
+      });
+
+      async function subject(): Promise<BatchIssueResult | undefined> {
+        return new BatchIssueKeeper(explorer, keeperOptions).run({
+          maxIterations: 4,
+          onResult: result => results.push(result),
+          onError: error => errors.push(error),
+        });
+      }
+
+      it("should issue once the threshold is crossed and keep polling", async () => {
+        const latestResult = await subject();
+
+        expect(results.map(result => result.issued)).to.deep.eq([false, false, true, false]);
+        expect(results[2].check.deposited).to.eq(ether(1.25));
+        expect(latestResult).to.eq(results[3]);
+        expect(latestResult!.check.roundNumber).to.eq(1);
+        expect(errors).to.be.empty;
+        expect(waits).to.eq(3);
+      });
+
+      describe("when a check throws", async () => {
+        beforeEach(async () => {
+          const sync = explorer.sync.bind(explorer);
+          let syncs = 0;
+          explorer.sync = async options => {
+            syncs++;
+            if (syncs === 2) {
+              throw new Error("Connection dropped");
+            }
+            return sync(options);
+          };
+        });
+
+        it("should report the error and keep polling", async () => {
+          await subject();
+
+          expect(errors.map(error => error.message)).to.deep.eq(["Connection dropped"]);
+          expect(results.map(result => result.issued)).to.deep.eq([false, true, false]);
+          expect(waits).to.eq(3);
+        });
+      });
+    });
+  });
+});
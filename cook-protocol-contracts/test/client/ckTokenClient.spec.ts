@@ -0,0 +1,156 @@
+import "module-alias/register";
+
+import { Address, StreamingFeeState } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import { CKTokenClient, CKTokenModuleAddresses } from "@utils/client";
+import { CKToken } from "@utils/contracts";
+import { ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect,
+  getSystemFixture,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("CKTokenClient", () => {
+  let owner: Account;
+  let recipient: Account;
+  let setup: SystemFixture;
+  let ckToken: CKToken;
+  let moduleAddresses: CKTokenModuleAddresses;
+
+  before(async () => {
+    [
+      owner,
+      recipient,
+    ] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    ckToken = await setup.createCKToken(
+      [setup.weth.address],
+      [ether(1)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address, setup.navIssuanceModule.address]
+    );
+
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(ckToken.address, {
+      feeRecipient: await getRandomAddress(),
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    } as StreamingFeeState);
+
+    await setup.weth.approve(setup.issuanceModule.address, ether(10));
+
+    moduleAddresses = {
+      basicIssuance: setup.issuanceModule.address,
+      streamingFee: setup.streamingFeeModule.address,
+      navIssuance: setup.navIssuanceModule.address,
+    };
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#initialize", async () => {
+    let subjectCKToken: Address;
+    let subjectModuleAddresses: CKTokenModuleAddresses;
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectModuleAddresses = moduleAddresses;
+    });
+
+    async function subject(): Promise<CKTokenClient> {
+      return CKTokenClient.create(subjectCKToken, owner.wallet, subjectModuleAddresses);
+    }
+
+    it("should discover the initialized modules", async () => {
+      const client = await subject();
+
+      expect(client.modules.basicIssuance!.address).to.eq(setup.issuanceModule.address);
+      expect(client.modules.streamingFee!.address).to.eq(setup.streamingFeeModule.address);
+      expect(client.unrecognizedModules).to.be.empty;
+    });
+
+    it("should skip modules that are still pending", async () => {
+      const client = await subject();
+
+      expect(client.hasModule("navIssuance")).to.be.false;
+    });
+
+    describe("when an initialized module is missing from the module addresses", async () => {
+      beforeEach(async () => {
+        subjectModuleAddresses = { basicIssuance: setup.issuanceModule.address };
+      });
+
+      it("should list it as unrecognized", async () => {
+        const client = await subject();
+
+        expect(client.hasModule("streamingFee")).to.be.false;
+        expect(client.unrecognizedModules).to.deep.eq([setup.streamingFeeModule.address]);
+      });
+    });
+  });
+
+  describe("#issue", async () => {
+    let client: CKTokenClient;
+
+    beforeEach(async () => {
+      client = await CKTokenClient.create(ckToken.address, owner.wallet, moduleAddresses);
+    });
+
+    it("should issue through the basic issuance module and return the parsed event", async () => {
+      const event = await client.issue(ether(2), recipient.address);
+
+      expect(event.module).to.eq(setup.issuanceModule.address);
+      expect(event.issuer).to.eq(owner.address);
+      expect(event.to).to.eq(recipient.address);
+      expect(event.quantity).to.eq(ether(2));
+      expect(event.managerFee).to.eq(ZERO);
+      expect(await ckToken.balanceOf(recipient.address)).to.eq(ether(2));
+    });
+  });
+
+  describe("#accrueFee", async () => {
+    let client: CKTokenClient;
+
+    beforeEach(async () => {
+      client = await CKTokenClient.create(ckToken.address, owner.wallet, moduleAddresses);
+      await client.issue(ether(2), owner.address);
+
+      await increaseTimeAsync(ONE_YEAR_IN_SECONDS);
+    });
+
+    it("should return the actualized fees", async () => {
+      const feeRecipient = (await setup.streamingFeeModule.feeStates(ckToken.address)).feeRecipient;
+
+      const event = await client.accrueFee();
+
+      expect(event.managerFee.gt(0)).to.be.true;
+      expect(await ckToken.balanceOf(feeRecipient)).to.eq(event.managerFee);
+    });
+  });
+
+  describe("#navIssue", async () => {
+    it("should throw when the module is not initialized", async () => {
+      const client = await CKTokenClient.create(ckToken.address, owner.wallet, moduleAddresses);
+
+      let errorMessage: string = "";
+      try {
+        await client.navIssue(setup.weth.address, ether(1), ZERO, owner.address);
+      } catch (error) {
+        errorMessage = error.message;
+      }
+
+      expect(errorMessage).to.eq(`CKToken ${ckToken.address} has no initialized navIssuance module`);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import "module-alias/register";
+import { deployments } from "hardhat";
+
+import { Account } from "@utils/test/types";
+import { Address, DeployManifest } from "@utils/types";
+import DeployHelper from "@utils/deploys";
+import { loadDeployManifest } from "@utils/deploys/manifestUtils";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getProvider,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { Controller } from "@utils/contracts";
+import { ether } from "@utils/index";
+
+const expect = getWaffleExpect();
+
+describe("Deploy scripts", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let manifest: DeployManifest;
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    manifest = loadDeployManifest("localhost");
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#fixture", async () => {
+    let controller: Controller;
+
+    async function subject(): Promise<void> {
+      await deployments.fixture();
+      controller = await deployer.core.getController((await deployments.get("Controller")).address);
+    }
+
+    it("should initialize the Controller with the manifest modules", async () => {
+      await subject();
+
+      const modules = await controller.getModules();
+      const expectedModules: Address[] = [];
+      for (const module of manifest.modules) {
+        expectedModules.push((await deployments.get(module.name)).address);
+      }
+
+      expect(await controller.isInitialized()).to.eq(true);
+      expect(modules).to.deep.eq(expectedModules);
+    });
+
+    it("should register the CKTokenCreator as a factory", async () => {
+      await subject();
+
+      const factories = await controller.getFactories();
+      const ckTokenCreator = await deployments.get("CKTokenCreator");
+
+      expect(factories).to.deep.eq([ckTokenCreator.address]);
+    });
+
+    it("should register the resources at their manifest ids", async () => {
+      await subject();
+
+      for (const name of Object.keys(manifest.resources)) {
+        const resource = await deployments.get(name);
+        expect(await controller.resourceId(manifest.resources[name])).to.eq(resource.address);
+      }
+    });
+
+    it("should add the manifest integrations to the IntegrationRegistry", async () => {
+      await subject();
+
+      const integrationRegistry = await deployer.core.getIntegrationRegistry((await deployments.get("IntegrationRegistry")).address);
+      for (const adapter of manifest.adapters) {
+        const adapterAddress = (await deployments.get(adapter.name)).address;
+        for (const integration of adapter.integrations) {
+          const module = (await deployments.get(integration.module)).address;
+          const registeredAdapter = await integrationRegistry.getIntegrationAdapter(module, integration.integrationName);
+          expect(registeredAdapter).to.eq(adapterAddress);
+        }
+      }
+    });
+
+    it("should price the manifest pairs through the PriceOracle", async () => {
+      await subject();
+
+      const priceOracle = await deployer.core.getPriceOracle((await deployments.get("PriceOracle")).address);
+      const weth = await deployments.get("WETH");
+      const usdc = await deployments.get("USDC");
+      const ethUsdOracle = manifest.mockOracles!.filter(oracle => oracle.name === "ETH_USD_Oracle")[0];
+
+      // getPrice only answers system contracts, so call it as one of the manifest modules
+      const module = await deployments.get(manifest.modules[0].name);
+      const price = await priceOracle.connect(getProvider()).getPrice(weth.address, usdc.address, { from: module.address });
+      const expectedPrice = ether(ethUsdOracle.price);
+
+      expect(price).to.eq(expectedPrice);
+    });
+
+    describe("when the deploy scripts are run again", async () => {
+      let previousDeployments: { [name: string]: Address };
+
+      beforeEach(async () => {
+        await subject();
+
+        previousDeployments = {};
+        const all = await deployments.all();
+        for (const name of Object.keys(all)) {
+          previousDeployments[name] = all[name].address;
+        }
+      });
+
+      async function rerun(): Promise<any> {
+        await deployments.run(undefined, { resetMemory: false, writeDeploymentsToFiles: false });
+      }
+
+      it("should not redeploy any contract", async () => {
+        await rerun();
+
+        const all = await deployments.all();
+        for (const name of Object.keys(previousDeployments)) {
+          expect(all[name].address).to.eq(previousDeployments[name]);
+        }
+      });
+
+      it("should leave the Controller module list unchanged", async () => {
+        const previousModules = await controller.getModules();
+
+        await rerun();
+
+        const modules = await controller.getModules();
+        expect(modules).to.deep.eq(previousModules);
+        for (const module of modules) {
+          expect(await controller.isModule(module)).to.eq(true);
+        }
+      });
+    });
+  });
+});
@@ -7,9 +7,8 @@ import {
 import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
-  getCompoundFixture,
-  getSystemFixture,
-  getWaffleExpect
+  getWaffleExpect,
+  loadFixtureCombination
 } from "@utils/test/index";
 import { CERc20 } from "../../typechain/CERc20";
 import { CEther } from "../../typechain/CEther";
@@ -28,11 +27,9 @@ describe("CompoundFixture", () => {
       owner,
     ] = await getAccounts();
 
-    setup = getSystemFixture(owner.address);
-    compoundSetup = getCompoundFixture(owner.address);
-
-    await setup.initialize();
-    await compoundSetup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
+    compoundSetup = fixtures.compound;
   });
 
   addSnapshotBeforeRestoreAfterEach();
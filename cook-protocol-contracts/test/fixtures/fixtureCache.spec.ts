@@ -0,0 +1,122 @@
+import "module-alias/register";
+
+import { Account } from "@utils/test/types";
+import { StandardTokenMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { ether } from "@utils/index";
+import {
+  getAccounts,
+  getFixtureCacheStats,
+  getFixtureKey,
+  getProvider,
+  getWaffleExpect,
+  loadFixture,
+  loadFixtureCombination,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("FixtureCache", () => {
+  let owner: Account;
+  let recipient: Account;
+  let deployer: DeployHelper;
+
+  before(async () => {
+    [
+      owner,
+      recipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+  });
+
+  describe("#loadFixture", async () => {
+    let deployCount: number;
+
+    beforeEach(async () => {
+      deployCount = 0;
+    });
+
+    function deployToken(): () => Promise<StandardTokenMock> {
+      return async () => {
+        deployCount++;
+        return await deployer.mocks.deployTokenMock(owner.address);
+      };
+    }
+
+    it("should deploy the fixture once and return the cached object afterwards", async () => {
+      const token = await loadFixture("fixtureCache.spec deploy once", deployToken());
+      const cachedToken = await loadFixture("fixtureCache.spec deploy once", deployToken());
+
+      const key = getFixtureKey("fixtureCache.spec deploy once");
+      expect(cachedToken).to.eq(token);
+      expect(deployCount).to.eq(1);
+      expect(getFixtureCacheStats().deployments[key]).to.eq(1);
+      expect(getFixtureCacheStats().restores[key]).to.eq(1);
+    });
+
+    it("should revert changes made after the fixture was loaded", async () => {
+      const token = await loadFixture("fixtureCache.spec revert", deployToken());
+      await token.transfer(recipient.address, ether(1));
+
+      await loadFixture("fixtureCache.spec revert", deployToken());
+
+      expect(await token.balanceOf(recipient.address)).to.eq(0);
+    });
+
+    it("should deploy each configuration separately", async () => {
+      const firstToken = await loadFixture("fixtureCache.spec config", deployToken(), { decimals: 18 });
+      const secondToken = await loadFixture("fixtureCache.spec config", deployToken(), { decimals: 8 });
+      const cachedToken = await loadFixture("fixtureCache.spec config", deployToken(), { decimals: 18 });
+
+      expect(secondToken.address).to.not.eq(firstToken.address);
+      expect(cachedToken).to.eq(firstToken);
+      expect(deployCount).to.eq(2);
+    });
+
+    it("should redeploy fixtures snapshotted after the one that was restored", async () => {
+      await loadFixture("fixtureCache.spec earlier", deployToken());
+      const laterToken = await loadFixture("fixtureCache.spec later", deployToken());
+      await loadFixture("fixtureCache.spec earlier", deployToken());
+
+      const redeployedToken = await loadFixture("fixtureCache.spec later", deployToken());
+
+      expect(redeployedToken).to.not.eq(laterToken);
+      expect(deployCount).to.eq(3);
+      expect(getFixtureCacheStats().deployments[getFixtureKey("fixtureCache.spec later")]).to.eq(2);
+    });
+
+    it("should redeploy a fixture whose snapshot was discarded by a revert outside the cache", async () => {
+      const snapshotId = await getProvider().send("evm_snapshot", []);
+      const token = await loadFixture("fixtureCache.spec discarded", deployToken());
+      await getProvider().send("evm_revert", [snapshotId]);
+
+      const redeployedToken = await loadFixture("fixtureCache.spec discarded", deployToken());
+
+      expect(redeployedToken).to.not.eq(token);
+      expect(deployCount).to.eq(2);
+      expect(await redeployedToken.balanceOf(owner.address)).to.be.gt(0);
+    });
+  });
+
+  describe("#getFixtureKey", async () => {
+    it("should not depend on the order of the configuration's properties", async () => {
+      const key = getFixtureKey("combination", { compound: true, system: { useChainlinkOracles: true } });
+      const reorderedKey = getFixtureKey("combination", { system: { useChainlinkOracles: true }, compound: true });
+
+      expect(key).to.eq(reorderedKey);
+      expect(key).to.not.eq(getFixtureKey("combination", { compound: true }));
+    });
+  });
+
+  describe("#loadFixtureCombination", async () => {
+    it("should deploy the system with the requested protocol fixtures", async () => {
+      const fixtures = await loadFixtureCombination(owner, { compound: true });
+
+      expect(await fixtures.system.controller.isModule(fixtures.system.issuanceModule.address)).to.be.true;
+      expect(await fixtures.compound.comp.balanceOf(fixtures.compound.comptroller.address)).to.eq(ether(400000));
+      expect(fixtures.aave).to.be.undefined;
+      expect(await loadFixtureCombination(owner, { compound: true })).to.eq(fixtures);
+    });
+  });
+});
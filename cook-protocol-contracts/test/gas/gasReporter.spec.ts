@@ -0,0 +1,133 @@
+import "module-alias/register";
+
+import { Account } from "@utils/test/types";
+import { StandardTokenMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { ether } from "@utils/index";
+import {
+  compareGasReports,
+  formatGasReportMarkdown,
+  GasComparison,
+  GasRecorder,
+  GasReport,
+  getGasRegressions,
+  getUnbaselinedBenchmarks,
+} from "@utils/gas";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("GasReporter", () => {
+  let owner: Account;
+  let recipient: Account;
+  let token: StandardTokenMock;
+
+  before(async () => {
+    [
+      owner,
+      recipient,
+    ] = await getAccounts();
+
+    token = await new DeployHelper(owner.wallet).mocks.deployTokenMock(owner.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("GasRecorder", async () => {
+    let recorder: GasRecorder;
+
+    beforeEach(async () => {
+      recorder = new GasRecorder();
+    });
+
+    describe("#measure", async () => {
+      it("should record the gas used from the transaction receipt", async () => {
+        const receipt = await recorder.measure("transfer", token.transfer(recipient.address, ether(1)));
+
+        expect(recorder.getReport()).to.deep.eq({ measurements: { transfer: receipt.gasUsed.toNumber() } });
+      });
+    });
+
+    describe("#record", async () => {
+      it("should revert when a benchmark is recorded twice", async () => {
+        recorder.record("transfer", 51000);
+
+        expect(() => recorder.record("transfer", 36000)).to.throw('Gas benchmark "transfer" was already recorded');
+      });
+    });
+  });
+
+  describe("#compareGasReports", async () => {
+    let subjectCurrent: GasReport;
+    let subjectBaseline: GasReport;
+    let subjectThreshold: number;
+
+    beforeEach(async () => {
+      subjectCurrent = { measurements: { issue: 103000, redeem: 90000, trade: 100500, lever: 400000 } };
+      subjectBaseline = { measurements: { issue: 100000, redeem: 100000, trade: 100000, withdraw: 50000 } };
+      subjectThreshold = 2;
+    });
+
+    function subject(): GasComparison[] {
+      return compareGasReports(subjectCurrent, subjectBaseline, subjectThreshold);
+    }
+
+    it("should classify every benchmark of either report in name order", async () => {
+      const comparisons = subject();
+
+      expect(comparisons).to.deep.eq([
+        { benchmark: "issue", baseline: 100000, current: 103000, difference: 3000, percentChange: 3, status: "regression" },
+        { benchmark: "lever", current: 400000, status: "new" },
+        { benchmark: "redeem", baseline: 100000, current: 90000, difference: -10000, percentChange: -10, status: "improvement" },
+        { benchmark: "trade", baseline: 100000, current: 100500, difference: 500, percentChange: 0.5, status: "unchanged" },
+        { benchmark: "withdraw", baseline: 50000, status: "removed" },
+      ]);
+      expect(getGasRegressions(comparisons).map(comparison => comparison.benchmark)).to.deep.eq(["issue"]);
+      expect(getUnbaselinedBenchmarks(comparisons).map(comparison => comparison.benchmark)).to.deep.eq(["lever"]);
+    });
+
+    describe("when the threshold is above the increase", async () => {
+      beforeEach(async () => {
+        subjectThreshold = 5;
+      });
+
+      it("should not report a regression", async () => {
+        expect(getGasRegressions(subject())).to.be.empty;
+      });
+    });
+  });
+
+  describe("#formatGasReportMarkdown", async () => {
+    let report: GasReport;
+
+    beforeEach(async () => {
+      report = { measurements: { redeem: 90000, issue: 1103000 } };
+    });
+
+    it("should list the measurements when there is no baseline", async () => {
+      expect(formatGasReportMarkdown(report)).to.eq([
+        "# Gas report",
+        "",
+        "| Benchmark | Gas used |",
+        "| --- | ---: |",
+        "| issue | 1,103,000 |",
+        "| redeem | 90,000 |",
+        "",
+      ].join("\n"));
+    });
+
+    it("should render the comparison and count the regressions", async () => {
+      const baseline = { measurements: { issue: 1000000, redeem: 100000 } };
+
+      const markdown = formatGasReportMarkdown(report, compareGasReports(report, baseline, 2), 2);
+
+      expect(markdown).to.contain("1 benchmark(s) use more than 2% more gas than the baseline.");
+      expect(markdown).to.contain("| issue | 1,000,000 | 1,103,000 | +103,000 (+10.30%) | regression |");
+      expect(markdown).to.contain("| redeem | 100,000 | 90,000 | -10,000 (-10.00%) | improvement |");
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import "module-alias/register";
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { Address, NAVIssuanceSettings, StreamingFeeState } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import { CKTokenIndexer, JsonPositionStore, PositionSnapshot } from "@utils/indexer";
+import { CKToken } from "@utils/contracts";
+import { ether, usdc } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getProvider,
+  getRandomAddress,
+  getWaffleExpect,
+  getSystemFixture,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("CKTokenIndexer", () => {
+  let owner: Account;
+  let setup: SystemFixture;
+  let ckToken: CKToken;
+
+  let issueBlock: number;
+  let navIssueBlock: number;
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.usdc.address],
+      [ether(1), usdc(100)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address, setup.navIssuanceModule.address]
+    );
+
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(ckToken.address, {
+      feeRecipient: await getRandomAddress(),
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    } as StreamingFeeState);
+    await setup.navIssuanceModule.initialize(ckToken.address, {
+      managerIssuanceHook: ADDRESS_ZERO,
+      managerRedemptionHook: ADDRESS_ZERO,
+      reserveAssets: [setup.usdc.address],
+      feeRecipient: await getRandomAddress(),
+      managerFees: [ether(0.001), ether(0.002)],
+      maxManagerFee: ether(0.02),
+      premiumPercentage: ether(0.01),
+      maxPremiumPercentage: ether(0.1),
+      minCKTokenSupply: ether(1),
+    } as NAVIssuanceSettings);
+
+    await setup.weth.approve(setup.issuanceModule.address, ether(10));
+    await setup.usdc.approve(setup.issuanceModule.address, usdc(1000));
+    await setup.usdc.approve(setup.navIssuanceModule.address, usdc(1000));
+
+    const issueTx = await setup.issuanceModule.issue(ckToken.address, ether(2), owner.address);
+    issueBlock = (await issueTx.wait()).blockNumber;
+
+    const navIssueTx = await setup.navIssuanceModule.issue(ckToken.address, setup.usdc.address, usdc(500), ZERO, owner.address);
+    navIssueBlock = (await navIssueTx.wait()).blockNumber;
+
+    await increaseTimeAsync(ONE_YEAR_IN_SECONDS);
+    await setup.streamingFeeModule.accrueFee(ckToken.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function expectSnapshotToMatchChain(snapshot: PositionSnapshot, blockNumber: number): Promise<void> {
+    const overrides = { blockTag: blockNumber };
+    const positions = await ckToken.getPositions(overrides);
+
+    expect(snapshot.positionMultiplier).to.eq(await ckToken.positionMultiplier(overrides));
+    expect(snapshot.totalSupply).to.eq(await ckToken.totalSupply(overrides));
+    expect(snapshot.components).to.deep.eq(await ckToken.getComponents(overrides));
+    expect(snapshot.positions.length).to.eq(positions.length);
+    for (let i = 0; i < positions.length; i++) {
+      expect(snapshot.positions[i].component).to.eq(positions[i].component);
+      expect(snapshot.positions[i].module).to.eq(positions[i].module);
+      expect(snapshot.positions[i].realUnit).to.eq(positions[i].unit);
+    }
+  }
+
+  describe("#index", async () => {
+    let store: JsonPositionStore;
+    let subjectCKToken: Address;
+
+    beforeEach(async () => {
+      store = new JsonPositionStore();
+      subjectCKToken = ckToken.address;
+    });
+
+    async function subject(): Promise<number> {
+      return new CKTokenIndexer(getProvider(), store).index(subjectCKToken);
+    }
+
+    it("should rebuild the latest positions", async () => {
+      const lastBlock = await subject();
+
+      await expectSnapshotToMatchChain(store.getLatestPositions(subjectCKToken)!, lastBlock);
+    });
+
+    it("should rebuild the positions at earlier blocks", async () => {
+      await subject();
+
+      await expectSnapshotToMatchChain(store.getPositionsAt(subjectCKToken, issueBlock)!, issueBlock);
+      await expectSnapshotToMatchChain(store.getPositionsAt(subjectCKToken, navIssueBlock)!, navIssueBlock);
+    });
+
+    it("should record the module events", async () => {
+      await subject();
+
+      expect(store.getEvents(subjectCKToken, { name: "CKTokenIssued" }).length).to.eq(1);
+      expect(store.getEvents(subjectCKToken, { name: "CKTokenNAVIssued" }).length).to.eq(1);
+      expect(store.getEvents(subjectCKToken, { name: "FeeActualized" }).length).to.eq(1);
+    });
+
+    it("should track the default unit history of the reserve asset", async () => {
+      await subject();
+
+      const history = store.getComponentHistory(subjectCKToken, setup.usdc.address);
+
+      expect(history[0].realUnit).to.eq(usdc(100));
+      expect(history[history.length - 1].realUnit).to.eq(await ckToken.getDefaultPositionRealUnit(setup.usdc.address));
+    });
+
+    describe("when indexing resumes from a saved store", async () => {
+      let storePath: string;
+
+      beforeEach(async () => {
+        storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "ck-indexer-")), "positions.json");
+
+        await new CKTokenIndexer(getProvider(), new JsonPositionStore(storePath)).index(subjectCKToken, { toBlock: navIssueBlock });
+        store = new JsonPositionStore(storePath);
+      });
+
+      afterEach(async () => {
+        fs.rmdirSync(path.dirname(storePath), { recursive: true });
+      });
+
+      it("should produce the same timeline as a single run", async () => {
+        await subject();
+
+        const fullStore = new JsonPositionStore();
+        await new CKTokenIndexer(getProvider(), fullStore).index(subjectCKToken);
+
+        const resumedTimeline = store.getTimeline(subjectCKToken);
+        const fullTimeline = fullStore.getTimeline(subjectCKToken);
+        expect(resumedTimeline.map(snapshot => snapshot.blockNumber)).to.deep.eq(fullTimeline.map(snapshot => snapshot.blockNumber));
+        expect(resumedTimeline[resumedTimeline.length - 1].positionMultiplier).to.eq(
+          fullTimeline[fullTimeline.length - 1].positionMultiplier
+        );
+      });
+    });
+  });
+});
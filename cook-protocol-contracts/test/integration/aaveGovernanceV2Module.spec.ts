@@ -14,9 +14,8 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getAaveFixture,
   increaseTimeAsync,
+  loadFixtureCombination,
 } from "@utils/test/index";
 import { AaveFixture, SystemFixture } from "@utils/fixtures";
 
@@ -41,12 +40,11 @@ describe("AaveGovernanceV2Module", () => {
 
     // System setup
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { aave: true });
+    setup = fixtures.system;
 
     // Aave setup
-    aaveSetup = getAaveFixture(owner.address);
-    await aaveSetup.initialize();
+    aaveSetup = fixtures.aave;
 
     // GovernanceModule setup
     governanceModule = await deployer.modules.deployGovernanceModule(setup.controller.address);
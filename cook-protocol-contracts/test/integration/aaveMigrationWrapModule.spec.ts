@@ -13,8 +13,7 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getAaveFixture,
+  loadFixtureCombination,
 } from "@utils/test/index";
 import { AaveFixture, SystemFixture } from "@utils/fixtures";
 
@@ -39,12 +38,11 @@ describe("AaveMigrationWrapModule", () => {
 
     // System setup
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { aave: true });
+    setup = fixtures.system;
 
     // Aave setup
-    aaveSetup = getAaveFixture(owner.address);
-    await aaveSetup.initialize();
+    aaveSetup = fixtures.aave;
 
     // WrapModule setup
     wrapModule = await deployer.modules.deployWrapModule(setup.controller.address, setup.weth.address);
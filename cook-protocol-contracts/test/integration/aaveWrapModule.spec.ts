@@ -13,9 +13,8 @@ import {
 import {
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getAaveFixture,
   addSnapshotBeforeRestoreAfterEach,
+  loadFixtureCombination,
 } from "@utils/test/index";
 import { AaveFixture, SystemFixture } from "@utils/fixtures";
 import { AToken } from "@typechain/AToken";
@@ -42,12 +41,11 @@ describe("aaveWrapModule", () => {
 
     // System setup
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { aave: true });
+    setup = fixtures.system;
 
     // Aave setup
-    aaveSetup = getAaveFixture(owner.address);
-    await aaveSetup.initialize();
+    aaveSetup = fixtures.aave;
     aDai = await aaveSetup.deployAToken(setup.dai.address, await setup.dai.decimals());
 
     // WrapModule setup
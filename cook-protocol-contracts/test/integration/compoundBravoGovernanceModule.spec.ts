@@ -13,11 +13,10 @@ import {
 import {
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getCompoundFixture,
   getRandomAddress,
   increaseTimeAsync,
   addSnapshotBeforeRestoreAfterEach,
+  loadFixtureCombination,
 } from "@utils/test/index";
 import { CompoundFixture, SystemFixture } from "@utils/fixtures";
 
@@ -42,12 +41,11 @@ describe("CompoundBravoGovernanceModule", () => {
 
     // System setup
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
 
     // Compound setup
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
     await compoundSetup.initializeGovernorBravo();
 
     // GovernanceModule setup
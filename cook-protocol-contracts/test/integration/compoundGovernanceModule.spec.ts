@@ -13,8 +13,7 @@ import {
 import {
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getCompoundFixture,
+  loadFixtureCombination,
   getRandomAddress,
   increaseTimeAsync,
   addSnapshotBeforeRestoreAfterEach,
@@ -42,12 +41,11 @@ describe("CompoundGovernanceModule", () => {
 
     // System setup
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
 
     // Compound setup
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
 
     // GovernanceModule setup
     governanceModule = await deployer.modules.deployGovernanceModule(setup.controller.address);
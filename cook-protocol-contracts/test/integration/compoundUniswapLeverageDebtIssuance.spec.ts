@@ -24,9 +24,7 @@ import {
   cacheBeforeEach,
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getCompoundFixture,
-  getUniswapFixture,
+  loadFixtureCombination,
 } from "@utils/test/index";
 import { CompoundFixture, SystemFixture, UniswapFixture } from "@utils/fixtures";
 import { BigNumber } from "@ethersproject/bignumber";
@@ -58,14 +56,12 @@ describe("CompoundUniswapLeverageDebtIssuance", () => {
 
     deployer = new DeployHelper(owner.wallet);
 
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true, uniswap: true });
+    setup = fixtures.system;
 
-    uniswapSetup = getUniswapFixture(owner.address);
-    await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    uniswapSetup = fixtures.uniswap;
 
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
 
     // Create ETH USDC pool and pool liquidity
     await uniswapSetup.createNewPair(setup.weth.address, setup.usdc.address);
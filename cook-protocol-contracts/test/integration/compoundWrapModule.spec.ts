@@ -4,7 +4,7 @@ import { BigNumber } from "@ethersproject/bignumber";
 import { Address } from "@utils/types";
 import { Account } from "@utils/test/types";
 import { ADDRESS_ZERO } from "@utils/constants";
-import { CKToken, WrapModule } from "@utils/contracts";
+import { CKToken, WrapModule, WrapModuleV2 } from "@utils/contracts";
 import { CERc20 } from "@utils/contracts/compound";
 import DeployHelper from "@utils/deploys";
 import {
@@ -15,43 +15,45 @@ import {
 import {
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getCompoundFixture,
-  addSnapshotBeforeRestoreAfterEach,
+  loadFixtureCombination,
 } from "@utils/test/index";
-import { CompoundFixture, SystemFixture } from "@utils/fixtures";
+import {
+  describeParity,
+  getWrapModuleEntryPoints,
+  ParityContext,
+  ParityVersion,
+  WrapModuleEntryPoints,
+} from "@utils/test/parityHarness";
+import { SystemFixture } from "@utils/fixtures";
 
 const expect = getWaffleExpect();
 
-describe("compoundWrapModule", () => {
-  let owner: Account;
-  let deployer: DeployHelper;
-  let setup: SystemFixture;
-
-  let compoundSetup: CompoundFixture;
-  let cDai: CERc20;
-  let exchangeRate: BigNumber;
-
-  let wrapModule: WrapModule;
+const compoundWrapAdapterIntegrationName: string = "COMPOUND_WRAPPER";
 
-  const compoundWrapAdapterIntegrationName: string = "COMPOUND_WRAPPER";
+interface CompoundWrapModuleSystem {
+  owner: Account;
+  setup: SystemFixture;
+  cDai: CERc20;
+  exchangeRate: BigNumber;
+  wrapModule: WrapModule | WrapModuleV2;
+}
 
-  before(async () => {
-    [
+describeParity<CompoundWrapModuleSystem>("compoundWrapModule", {
+  deploy: async (version: ParityVersion) => {
+    const [
       owner,
     ] = await getAccounts();
 
     // System setup
-    deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const deployer = new DeployHelper(owner.wallet);
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    const setup = fixtures.system;
 
     // Compound setup
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    const compoundSetup = fixtures.compound;
 
-    exchangeRate = ether(0.5);
-    cDai = await compoundSetup.createAndEnableCToken(
+    const exchangeRate = ether(0.5);
+    const cDai = await compoundSetup.createAndEnableCToken(
       setup.dai.address,
       exchangeRate,
       compoundSetup.comptroller.address,
@@ -63,143 +65,162 @@ describe("compoundWrapModule", () => {
       ether(1)
     );
 
-
     // WrapModule setup
-    wrapModule = await deployer.modules.deployWrapModule(setup.controller.address, setup.weth.address);
+    const wrapModule = version === "V1"
+      ? await deployer.modules.deployWrapModule(setup.controller.address, setup.weth.address)
+      : await deployer.modules.deployWrapModuleV2(setup.controller.address, setup.weth.address);
     await setup.controller.addModule(wrapModule.address);
 
     // compoundWrapAdapter setup
     const compoundLibrary = await deployer.libraries.deployCompound();
-    const compoundWrapAdapter = await deployer.adapters.deployCompoundWrapAdapter(
-      "contracts/protocol/integration/lib/Compound.sol:Compound",
-      compoundLibrary.address
-    );
+    const compoundLibraryName = "contracts/protocol/integration/lib/Compound.sol:Compound";
+    const compoundWrapAdapter = version === "V1"
+      ? await deployer.adapters.deployCompoundWrapAdapter(compoundLibraryName, compoundLibrary.address)
+      : await deployer.adapters.deployCompoundWrapV2Adapter(compoundLibraryName, compoundLibrary.address);
     await setup.integrationRegistry.addIntegration(wrapModule.address, compoundWrapAdapterIntegrationName, compoundWrapAdapter.address);
-  });
-
-  addSnapshotBeforeRestoreAfterEach();
-
-  context("when a CKToken has been deployed and issued", async () => {
-    let ckToken: CKToken;
-    let ckTokensIssued: BigNumber;
-
-    beforeEach(async () => {
-      ckToken = await setup.createCKToken(
-        [setup.dai.address],
-        [ether(1)],
-        [setup.issuanceModule.address, wrapModule.address]
-      );
-
-      // Initialize modules
-      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
-      await wrapModule.initialize(ckToken.address);
-
-      // Issue some CKs
-      ckTokensIssued = ether(10);
-      const underlyingRequired = ckTokensIssued;
-      await setup.dai.approve(setup.issuanceModule.address, underlyingRequired);
-      await setup.issuanceModule.issue(ckToken.address, ckTokensIssued, owner.address);
-    });
 
-    describe("#wrap", async () => {
-      let subjectCKToken: Address;
-      let subjectUnderlyingToken: Address;
-      let subjectWrappedToken: Address;
-      let subjectUnderlyingUnits: BigNumber;
-      let subjectIntegrationName: string;
-      let subjectCaller: Account;
-
-      beforeEach(async () => {
-        subjectCKToken = ckToken.address;
-        subjectUnderlyingToken = setup.dai.address;
-        subjectWrappedToken = cDai.address;
-        subjectUnderlyingUnits = ether(1);
-        subjectIntegrationName = compoundWrapAdapterIntegrationName;
-        subjectCaller = owner;
-      });
-
-      async function subject(): Promise<any> {
-        return wrapModule.connect(subjectCaller.wallet).wrap(
-          subjectCKToken,
-          subjectUnderlyingToken,
-          subjectWrappedToken,
-          subjectUnderlyingUnits,
-          subjectIntegrationName,
-        );
-      }
+    return { owner, setup, cDai, exchangeRate, wrapModule };
+  },
 
-      it("should reduce the underlying quantity and mint the wrapped asset to the CKToken", async () => {
-        const previousUnderlyingBalance = await setup.dai.balanceOf(ckToken.address);
+  scenarios: (parity: ParityContext<CompoundWrapModuleSystem>) => {
+    let owner: Account;
+    let setup: SystemFixture;
 
-        await subject();
+    let cDai: CERc20;
+    let exchangeRate: BigNumber;
 
-        const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
-        const wrappedBalance = await cDai.balanceOf(ckToken.address);
-        const expectedUnderlyingBalance = previousUnderlyingBalance.sub(ckTokensIssued);
+    let wrapModule: WrapModule | WrapModuleV2;
 
-        expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
-
-        const expectedWrappedBalance = preciseDiv(previousUnderlyingBalance, exchangeRate);
-
-        expect(wrappedBalance).to.eq(expectedWrappedBalance);
-      });
+    before(async () => {
+      ({ owner, setup, cDai, exchangeRate, wrapModule } = parity.system);
     });
 
-    describe("#unwrap", () => {
-      let subjectCKToken: Address;
-      let subjectUnderlyingToken: Address;
-      let subjectWrappedToken: Address;
-      let subjectWrappedTokenUnits: BigNumber;
-      let subjectIntegrationName: string;
-      let subjectCaller: Account;
+    function wrapModuleAs(caller: Account): WrapModuleEntryPoints {
+      return getWrapModuleEntryPoints(parity.version, wrapModule, caller);
+    }
 
-      let wrappedQuantity: BigNumber;
+    context("when a CKToken has been deployed and issued", async () => {
+      let ckToken: CKToken;
+      let ckTokensIssued: BigNumber;
 
       beforeEach(async () => {
-        subjectCKToken = ckToken.address;
-        subjectUnderlyingToken = setup.dai.address;
-        subjectWrappedToken = cDai.address;
-        subjectWrappedTokenUnits = BigNumber.from("5000000000");  // ctokens have 8 decimals
-        subjectIntegrationName = compoundWrapAdapterIntegrationName;
-        subjectCaller = owner;
-
-        wrappedQuantity = ether(1);
-
-        await wrapModule.wrap(
-          subjectCKToken,
-          subjectUnderlyingToken,
-          subjectWrappedToken,
-          wrappedQuantity,
-          subjectIntegrationName,
-        );
-      });
-
-      async function subject(): Promise<any> {
-        return wrapModule.connect(subjectCaller.wallet).unwrap(
-          subjectCKToken,
-          subjectUnderlyingToken,
-          subjectWrappedToken,
-          subjectWrappedTokenUnits,
-          subjectIntegrationName
+        ckToken = await setup.createCKToken(
+          [setup.dai.address],
+          [ether(1)],
+          [setup.issuanceModule.address, wrapModule.address]
         );
-      }
-
-      it("should burn the wrapped asset to the CKToken and increase the underlying quantity", async () => {
-        const previousWrappedBalance = await cDai.balanceOf(ckToken.address);
-
-        await subject();
 
-        const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
-        const wrappedBalance = await cDai.balanceOf(ckToken.address);
-        const delta = preciseMul(ckTokensIssued, subjectWrappedTokenUnits);
-        const expectedUnderlyingBalance = preciseMul(delta, exchangeRate);
+        // Initialize modules
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        await wrapModule.initialize(ckToken.address);
 
-        expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
+        // Issue some CKs
+        ckTokensIssued = ether(10);
+        const underlyingRequired = ckTokensIssued;
+        await setup.dai.approve(setup.issuanceModule.address, underlyingRequired);
+        await setup.issuanceModule.issue(ckToken.address, ckTokensIssued, owner.address);
+      });
 
-        const expectedWrappedBalance = previousWrappedBalance.sub(delta);
+      describe("#wrap", async () => {
+        let subjectCKToken: Address;
+        let subjectUnderlyingToken: Address;
+        let subjectWrappedToken: Address;
+        let subjectUnderlyingUnits: BigNumber;
+        let subjectIntegrationName: string;
+        let subjectCaller: Account;
+
+        beforeEach(async () => {
+          subjectCKToken = ckToken.address;
+          subjectUnderlyingToken = setup.dai.address;
+          subjectWrappedToken = cDai.address;
+          subjectUnderlyingUnits = ether(1);
+          subjectIntegrationName = compoundWrapAdapterIntegrationName;
+          subjectCaller = owner;
+        });
+
+        async function subject(): Promise<any> {
+          return wrapModuleAs(subjectCaller).wrap(
+            subjectCKToken,
+            subjectUnderlyingToken,
+            subjectWrappedToken,
+            subjectUnderlyingUnits,
+            subjectIntegrationName,
+          );
+        }
+
+        it("should reduce the underlying quantity and mint the wrapped asset to the CKToken", async () => {
+          const previousUnderlyingBalance = await setup.dai.balanceOf(ckToken.address);
+
+          await subject();
+
+          const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
+          const wrappedBalance = await cDai.balanceOf(ckToken.address);
+          const expectedUnderlyingBalance = previousUnderlyingBalance.sub(ckTokensIssued);
+
+          expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
+
+          const expectedWrappedBalance = preciseDiv(previousUnderlyingBalance, exchangeRate);
+
+          expect(wrappedBalance).to.eq(expectedWrappedBalance);
+        });
+      });
 
-        expect(wrappedBalance).to.eq(expectedWrappedBalance);
+      describe("#unwrap", () => {
+        let subjectCKToken: Address;
+        let subjectUnderlyingToken: Address;
+        let subjectWrappedToken: Address;
+        let subjectWrappedTokenUnits: BigNumber;
+        let subjectIntegrationName: string;
+        let subjectCaller: Account;
+
+        let wrappedQuantity: BigNumber;
+
+        beforeEach(async () => {
+          subjectCKToken = ckToken.address;
+          subjectUnderlyingToken = setup.dai.address;
+          subjectWrappedToken = cDai.address;
+          subjectWrappedTokenUnits = BigNumber.from("5000000000");  // ctokens have 8 decimals
+          subjectIntegrationName = compoundWrapAdapterIntegrationName;
+          subjectCaller = owner;
+
+          wrappedQuantity = ether(1);
+
+          await wrapModuleAs(owner).wrap(
+            subjectCKToken,
+            subjectUnderlyingToken,
+            subjectWrappedToken,
+            wrappedQuantity,
+            subjectIntegrationName,
+          );
+        });
+
+        async function subject(): Promise<any> {
+          return wrapModuleAs(subjectCaller).unwrap(
+            subjectCKToken,
+            subjectUnderlyingToken,
+            subjectWrappedToken,
+            subjectWrappedTokenUnits,
+            subjectIntegrationName
+          );
+        }
+
+        it("should burn the wrapped asset to the CKToken and increase the underlying quantity", async () => {
+          const previousWrappedBalance = await cDai.balanceOf(ckToken.address);
+
+          await subject();
+
+          const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
+          const wrappedBalance = await cDai.balanceOf(ckToken.address);
+          const delta = preciseMul(ckTokensIssued, subjectWrappedTokenUnits);
+          const expectedUnderlyingBalance = preciseMul(delta, exchangeRate);
+
+          expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
+
+          const expectedWrappedBalance = previousWrappedBalance.sub(delta);
+
+          expect(wrappedBalance).to.eq(expectedWrappedBalance);
+        });
       });
     });
-  });
+  },
 });
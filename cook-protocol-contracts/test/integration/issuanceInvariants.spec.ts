@@ -0,0 +1,172 @@
+import "module-alias/register";
+
+import { AirdropSettings, StreamingFeeState } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ZERO } from "@utils/constants";
+import {
+  AirdropModule,
+  DebtIssuanceModule,
+  TradeAdapterMock,
+  TradeModule,
+} from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import {
+  checkInvariants,
+  createInvariantModel,
+  InvariantSystem,
+  runInvariantHarness,
+} from "@utils/test/invariantHarness";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("Issuance invariants", () => {
+  let owner: Account;
+  let mockModule: Account;
+  let actorOne: Account;
+  let actorTwo: Account;
+  let actorThree: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let debtIssuanceModule: DebtIssuanceModule;
+  let airdropModule: AirdropModule;
+  let tradeModule: TradeModule;
+  let tradeAdapter: TradeAdapterMock;
+
+  let system: InvariantSystem;
+
+  const tradeAdapterName = "TRADE_MOCK";
+
+  before(async () => {
+    // The SystemFixture sends protocol fees to the fourth account so it is skipped for the actors
+    [
+      owner,
+      mockModule,
+      ,
+      ,
+      actorOne,
+      actorTwo,
+      actorThree,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    debtIssuanceModule = await deployer.modules.deployDebtIssuanceModule(setup.controller.address);
+    airdropModule = await deployer.modules.deployAirdropModule(setup.controller.address);
+    tradeModule = await deployer.modules.deployTradeModule(setup.controller.address);
+    await setup.controller.addModule(debtIssuanceModule.address);
+    await setup.controller.addModule(airdropModule.address);
+    await setup.controller.addModule(tradeModule.address);
+    await setup.controller.addModule(mockModule.address);
+
+    tradeAdapter = await deployer.mocks.deployTradeAdapterMock();
+    await setup.integrationRegistry.addIntegration(tradeModule.address, tradeAdapterName, tradeAdapter.address);
+
+    const ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.usdc.address, setup.wbtc.address],
+      [ether(1), usdc(100), bitcoin(.01)],
+      [
+        setup.issuanceModule.address,
+        debtIssuanceModule.address,
+        setup.streamingFeeModule.address,
+        airdropModule.address,
+        tradeModule.address,
+        mockModule.address,
+      ]
+    );
+
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await debtIssuanceModule.initialize(ckToken.address, ether(.1), ZERO, ZERO, owner.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(ckToken.address, {
+      feeRecipient: owner.address,
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    } as StreamingFeeState);
+    await airdropModule.initialize(ckToken.address, {
+      airdrops: [setup.weth.address, setup.usdc.address, setup.wbtc.address, setup.dai.address],
+      feeRecipient: owner.address,
+      airdropFee: ether(.05),
+      anyoneAbsorb: true,
+    } as AirdropSettings);
+    await tradeModule.initialize(ckToken.address);
+    await ckToken.connect(mockModule.wallet).initializeModule();
+
+    system = {
+      setup,
+      ckToken,
+      manager: owner,
+      funder: owner,
+      actors: [actorOne, actorTwo, actorThree],
+      issuanceModules: [setup.issuanceModule, debtIssuanceModule],
+      airdropModule,
+      tradeModule,
+      tradeAdapter,
+      tradeAdapterName,
+    };
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function getFailureMessage(assertion: Promise<void>): Promise<string> {
+    try {
+      await assertion;
+    } catch (error) {
+      return error.message;
+    }
+    return "";
+  }
+
+  describe("#runInvariantHarness", async () => {
+    it("should hold the invariants across random issuance, redemption, fee, airdrop and trade interleavings", async () => {
+      await runInvariantHarness(system);
+    });
+  });
+
+  describe("#checkInvariants", async () => {
+    beforeEach(async () => {
+      await setup.weth.approve(setup.issuanceModule.address, ether(1));
+      await setup.usdc.approve(setup.issuanceModule.address, usdc(100));
+      await setup.wbtc.approve(setup.issuanceModule.address, bitcoin(.01));
+      await setup.issuanceModule.issue(system.ckToken.address, ether(1), owner.address);
+    });
+
+    it("should pass when no actor holds CKTokens and the components are covered", async () => {
+      await checkInvariants(system, createInvariantModel(system.actors.length));
+    });
+
+    it("should fail with the uncovered component when the CKToken balance falls below the tracked notional", async () => {
+      const transferData = setup.weth.interface.encodeFunctionData("transfer", [owner.address, ether(.5)]);
+      await system.ckToken.connect(mockModule.wallet).invoke(setup.weth.address, ZERO, transferData);
+
+      const message = await getFailureMessage(checkInvariants(system, createInvariantModel(system.actors.length)));
+
+      expect(message).to.contain("Invariants broken after no commands");
+      expect(message).to.contain("Components do not cover totalSupply * realUnit");
+      expect(message).to.contain(`> | WETH      | ${ether(1).toString()} | ${ether(1).toString()} | ${ether(.5).toString()}`);
+    });
+
+    it("should fail with the actor when they hold value they never deposited", async () => {
+      await system.ckToken.transfer(actorTwo.address, ether(1));
+
+      const message = await getFailureMessage(checkInvariants(system, createInvariantModel(system.actors.length)));
+
+      expect(message).to.contain("Actors can extract more value than deposited");
+      expect(message).to.contain("> | actor 1 | 0");
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO } from "@utils/constants";
+import { CKToken, GeneralIndexModule, KyberDMMPoolMock, KyberV3IndexExchangeAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { bitcoin, ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getKyberV3DMMFixture,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { KyberV3DMMFixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("KyberV3GeneralIndexModule", () => {
+  let owner: Account;
+  let trader: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let kyberSetup: KyberV3DMMFixture;
+
+  let indexModule: GeneralIndexModule;
+  let kyberV3IndexExchangeAdapter: KyberV3IndexExchangeAdapter;
+  const kyberV3AdapterName = "KYBERV3";
+
+  let index: CKToken;
+
+  before(async () => {
+    [owner, trader] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    kyberSetup = getKyberV3DMMFixture(owner.address);
+    await kyberSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+    // 1 WBTC = ~38.46 WETH and 1 WETH = 230 DAI
+    await kyberSetup.addLiquidity(
+      kyberSetup.wethWbtcPool,
+      setup.weth.address,
+      setup.wbtc.address,
+      ether(1000),
+      bitcoin(26),
+      owner.address
+    );
+    await kyberSetup.addLiquidity(
+      kyberSetup.wethDaiPool,
+      setup.weth.address,
+      setup.dai.address,
+      ether(1000),
+      ether(230000),
+      owner.address
+    );
+
+    indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(indexModule.address);
+
+    kyberV3IndexExchangeAdapter = await deployer.adapters.deployKyberV3IndexExchangeAdapter(
+      kyberSetup.dmmRouter.address,
+      kyberSetup.dmmFactory.address
+    );
+    await setup.integrationRegistry.addIntegration(indexModule.address, kyberV3AdapterName, kyberV3IndexExchangeAdapter.address);
+
+    index = await setup.createCKToken(
+      [setup.wbtc.address, setup.dai.address, setup.weth.address],
+      [bitcoin(.01), ether(50), ether(.1)],
+      [setup.issuanceModule.address, indexModule.address]
+    );
+    await setup.issuanceModule.initialize(index.address, ADDRESS_ZERO);
+    await setup.approveAndIssueCKToken(index, ether(10));
+
+    await indexModule.initialize(index.address);
+    await indexModule.setTradeMaximums(index.address, [setup.wbtc.address, setup.dai.address], [bitcoin(1), ether(10000)]);
+    await indexModule.setExchanges(index.address, [setup.wbtc.address, setup.dai.address], [kyberV3AdapterName, kyberV3AdapterName]);
+    await indexModule.setExchangeData(
+      index.address,
+      [setup.wbtc.address, setup.dai.address],
+      [kyberSetup.wethWbtcPool.address, kyberSetup.wethDaiPool.address]
+    );
+    await indexModule.setTraderStatus(index.address, [trader.address], [true]);
+
+    // Sell 0.05 WBTC and buy 200 DAI across the 10 CKTokens
+    await indexModule.startRebalance(
+      index.address,
+      [],
+      [],
+      [bitcoin(.005), ether(70), ether(.1)],
+      await index.positionMultiplier()
+    );
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#trade", async () => {
+    let subjectComponent: Address;
+    let subjectEthQuantityLimit: BigNumber;
+
+    async function subject(): Promise<any> {
+      return indexModule.connect(trader.wallet).trade(index.address, subjectComponent, subjectEthQuantityLimit);
+    }
+
+    async function quoteExactIn(pool: KyberDMMPoolMock, tokenIn: Address, tokenOut: Address, amountIn: BigNumber): Promise<BigNumber> {
+      const amounts = await kyberSetup.dmmRouter.getAmountsOut(amountIn, [pool.address], [tokenIn, tokenOut]);
+      return amounts[1];
+    }
+
+    async function quoteExactOut(pool: KyberDMMPoolMock, tokenIn: Address, tokenOut: Address, amountOut: BigNumber): Promise<BigNumber> {
+      const amounts = await kyberSetup.dmmRouter.getAmountsIn(amountOut, [pool.address], [tokenIn, tokenOut]);
+      return amounts[0];
+    }
+
+    describe("when selling a component for an exact input", async () => {
+      let expectedWethReceived: BigNumber;
+
+      beforeEach(async () => {
+        expectedWethReceived = await quoteExactIn(kyberSetup.wethWbtcPool, setup.wbtc.address, setup.weth.address, bitcoin(.05));
+
+        subjectComponent = setup.wbtc.address;
+        subjectEthQuantityLimit = expectedWethReceived;
+      });
+
+      it("should sell the component for the quoted amount of WETH", async () => {
+        const wbtcBalanceBefore = await setup.wbtc.balanceOf(index.address);
+        const wethBalanceBefore = await setup.weth.balanceOf(index.address);
+
+        await subject();
+
+        expect(await setup.wbtc.balanceOf(index.address)).to.eq(wbtcBalanceBefore.sub(bitcoin(.05)));
+        expect(await setup.weth.balanceOf(index.address)).to.eq(wethBalanceBefore.add(expectedWethReceived));
+        expect(await index.getDefaultPositionRealUnit(setup.wbtc.address)).to.eq(bitcoin(.005));
+      });
+
+      describe("when the WETH received is less than the limit", async () => {
+        beforeEach(async () => {
+          subjectEthQuantityLimit = expectedWethReceived.add(1);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("DMMRouter: INSUFFICIENT_OUTPUT_AMOUNT");
+        });
+      });
+
+      describe("when trading through an unamplified pool", async () => {
+        let amplifiedWethReceived: BigNumber;
+
+        beforeEach(async () => {
+          const unamplifiedPool = await kyberSetup.createNewPool(setup.weth.address, setup.wbtc.address, 10000);
+          await kyberSetup.addLiquidity(unamplifiedPool, setup.weth.address, setup.wbtc.address, ether(1000), bitcoin(26), owner.address);
+          await indexModule.setExchangeData(index.address, [setup.wbtc.address], [unamplifiedPool.address]);
+
+          amplifiedWethReceived = expectedWethReceived;
+          expectedWethReceived = await quoteExactIn(unamplifiedPool, setup.wbtc.address, setup.weth.address, bitcoin(.05));
+          subjectEthQuantityLimit = expectedWethReceived;
+        });
+
+        it("should receive less WETH than through the amplified pool with the same reserves", async () => {
+          const wethBalanceBefore = await setup.weth.balanceOf(index.address);
+
+          await subject();
+
+          expect(await setup.weth.balanceOf(index.address)).to.eq(wethBalanceBefore.add(expectedWethReceived));
+          expect(expectedWethReceived).to.be.lt(amplifiedWethReceived);
+        });
+      });
+    });
+
+    describe("when buying a component for an exact output", async () => {
+      let expectedWethSpent: BigNumber;
+
+      beforeEach(async () => {
+        expectedWethSpent = await quoteExactOut(kyberSetup.wethDaiPool, setup.weth.address, setup.dai.address, ether(200));
+
+        subjectComponent = setup.dai.address;
+        subjectEthQuantityLimit = expectedWethSpent;
+      });
+
+      it("should buy the component for the quoted amount of WETH", async () => {
+        const daiBalanceBefore = await setup.dai.balanceOf(index.address);
+        const wethBalanceBefore = await setup.weth.balanceOf(index.address);
+
+        await subject();
+
+        expect(await setup.dai.balanceOf(index.address)).to.eq(daiBalanceBefore.add(ether(200)));
+        expect(await setup.weth.balanceOf(index.address)).to.eq(wethBalanceBefore.sub(expectedWethSpent));
+        expect(await index.getDefaultPositionRealUnit(setup.dai.address)).to.eq(ether(70));
+      });
+
+      describe("when the WETH required is more than the limit", async () => {
+        beforeEach(async () => {
+          subjectEthQuantityLimit = expectedWethSpent.sub(1);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("DMMRouter: EXCESSIVE_INPUT_AMOUNT");
+        });
+      });
+    });
+
+    describe("when the exchange data is a pool for another pair", async () => {
+      beforeEach(async () => {
+        await indexModule.setExchangeData(index.address, [setup.wbtc.address], [kyberSetup.wethDaiPool.address]);
+
+        subjectComponent = setup.wbtc.address;
+        subjectEthQuantityLimit = ether(1);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Invalid pool address");
+      });
+    });
+  });
+});
@@ -13,8 +13,7 @@ import {
 import {
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getCompoundFixture,
+  loadFixtureCombination,
   addSnapshotBeforeRestoreAfterEach,
 } from "@utils/test/index";
 import { CompoundFixture, SystemFixture } from "@utils/fixtures";
@@ -41,12 +40,11 @@ describe("CTokenOracle", () => {
 
     // System setup
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
 
     // Compound setup
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
 
     exchangeRate = ether(0.5);
 
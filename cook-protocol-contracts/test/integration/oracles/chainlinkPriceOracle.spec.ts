@@ -0,0 +1,173 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, NAVIssuanceSettings } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ZERO } from "@utils/constants";
+import { CKToken } from "@utils/contracts";
+import {
+  bitcoin,
+  ether,
+  getExpectedCKTokenIssueQuantity,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getLastBlockTimestamp,
+  getRandomAddress,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("ChainlinkPriceOracle", () => {
+  let owner: Account;
+  let recipient: Account;
+  let setup: SystemFixture;
+
+  let ckToken: CKToken;
+
+  before(async () => {
+    [
+      owner,
+      recipient,
+    ] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize({ useChainlinkOracles: true });
+
+    // Valued at 2000 USDC
+    ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.usdc.address, setup.wbtc.address, setup.dai.address],
+      [ether(1), usdc(270), bitcoin(1).div(10), ether(600)],
+      [setup.issuanceModule.address, setup.navIssuanceModule.address]
+    );
+
+    const navIssuanceSettings = {
+      managerIssuanceHook: ADDRESS_ZERO,
+      managerRedemptionHook: ADDRESS_ZERO,
+      reserveAssets: [setup.usdc.address, setup.weth.address],
+      feeRecipient: await getRandomAddress(),
+      managerFees: [ZERO, ZERO],
+      maxManagerFee: ether(0.1),
+      premiumPercentage: ZERO,
+      maxPremiumPercentage: ether(0.1),
+      minCKTokenSupply: ether(1),
+    } as NAVIssuanceSettings;
+    await setup.navIssuanceModule.initialize(ckToken.address, navIssuanceSettings);
+
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await setup.approveAndIssueCKToken(ckToken, ether(2));
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#calculateCKTokenValuation", async () => {
+    let subjectCKToken: Address;
+    let subjectQuoteAsset: Address;
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectQuoteAsset = setup.usdc.address;
+    });
+
+    async function subject(): Promise<BigNumber> {
+      return setup.ckValuer.calculateCKTokenValuation(subjectCKToken, subjectQuoteAsset);
+    }
+
+    it("should value the CKToken with the 8 decimal aggregator answers", async () => {
+      const valuation = await subject();
+
+      expect(valuation).to.eq(ether(2000));
+    });
+
+    describe("when the ETH price is updated", async () => {
+      beforeEach(async () => {
+        await setup.updateChainlinkPrice(setup.ETH_USD_Aggregator, ether(330));
+      });
+
+      it("should value the CKToken at the latest round", async () => {
+        const valuation = await subject();
+
+        expect(valuation).to.eq(ether(2100));
+      });
+
+      it("should keep the previous round in the aggregator history", async () => {
+        const latestRound = await setup.ETH_USD_Aggregator.latestRound();
+        const previousAnswer = await setup.ETH_USD_Aggregator.getAnswer(latestRound.sub(1));
+
+        expect(previousAnswer).to.eq(setup.toChainlinkAnswer(ether(230), 8));
+      });
+    });
+
+    describe("when the latest round is stale", async () => {
+      beforeEach(async () => {
+        const staleTimestamp = (await getLastBlockTimestamp()).sub(86400);
+        const latestRound = await setup.ETH_USD_Aggregator.latestRound();
+
+        await setup.ETH_USD_Aggregator.updateRoundData(
+          latestRound.add(1),
+          setup.toChainlinkAnswer(ether(100), 8),
+          staleTimestamp,
+          staleTimestamp,
+          latestRound.add(1)
+        );
+      });
+
+      it("should still value the CKToken at the stale answer, since the adapter does not check round freshness", async () => {
+        const valuation = await subject();
+
+        expect(valuation).to.eq(ether(1870));
+      });
+    });
+  });
+
+  describe("#issue", async () => {
+    let subjectReserveQuantity: BigNumber;
+
+    beforeEach(async () => {
+      subjectReserveQuantity = usdc(1000);
+
+      await setup.usdc.approve(setup.navIssuanceModule.address, subjectReserveQuantity);
+    });
+
+    async function subject(): Promise<any> {
+      return setup.navIssuanceModule.issue(
+        ckToken.address,
+        setup.usdc.address,
+        subjectReserveQuantity,
+        ZERO,
+        recipient.address
+      );
+    }
+
+    describe("when the ETH price is updated", async () => {
+      beforeEach(async () => {
+        await setup.updateChainlinkPrice(setup.ETH_USD_Aggregator, ether(330));
+      });
+
+      it("should issue CKTokens at the NAV from the latest round", async () => {
+        const expectedCKTokenIssueQuantity = await getExpectedCKTokenIssueQuantity(
+          ckToken,
+          setup.ckValuer,
+          setup.usdc.address,
+          usdc(1),
+          subjectReserveQuantity,
+          ZERO,
+          ZERO,
+          ZERO
+        );
+
+        await subject();
+
+        const issuedBalance = await ckToken.balanceOf(recipient.address);
+        expect(issuedBalance).to.eq(expectedCKTokenIssueQuantity);
+        // 1000 USDC buys 1000 / 2100 CKTokens
+        expect(issuedBalance).to.lt(ether(0.5));
+      });
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import "module-alias/register";
+
+import { StreamingFeeState } from "@utils/types";
+import { ADDRESS_ZERO, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import {
+  ether,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getSystemFixture,
+  getWaffleExpect,
+  runScenario,
+  ScenarioActors,
+  ScenarioContext,
+  ScenarioDefinition,
+  ScenarioStep,
+  ScenarioSystem,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("ScenarioRunner", () => {
+  // The manager owns the SystemFixture and funds the investor
+  async function buildSystem(actors: ScenarioActors): Promise<ScenarioSystem> {
+    const setup = getSystemFixture(actors.manager.address);
+    await setup.initialize();
+
+    const ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.usdc.address],
+      [ether(1), usdc(100)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address]
+    );
+
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(ckToken.address, {
+      feeRecipient: actors.feeRecipient.address,
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    } as StreamingFeeState);
+
+    await setup.weth.transfer(actors.investor.address, ether(10));
+    await setup.usdc.transfer(actors.investor.address, usdc(1000));
+
+    return { setup, ckToken, fixtures: {} };
+  }
+
+  function buildScenario(steps: (context: ScenarioContext) => ScenarioStep[]): ScenarioDefinition {
+    return {
+      name: "Basic issuance with streaming fees",
+      actors: ["manager", "investor", "feeRecipient"],
+      system: buildSystem,
+      steps,
+    };
+  }
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#run", async () => {
+    let subjectScenario: ScenarioDefinition;
+
+    async function subject(): Promise<ScenarioContext> {
+      return runScenario(subjectScenario);
+    }
+
+    describe("when every step matches its expectations", async () => {
+      beforeEach(async () => {
+        subjectScenario = buildScenario(({ setup, ckToken }) => [
+          {
+            action: "issue",
+            description: "investor issues 2 CKTokens",
+            caller: "investor",
+            module: setup.issuanceModule,
+            quantity: ether(2),
+            approve: true,
+            expect: {
+              positions: [
+                { component: setup.weth.address, unit: ether(1) },
+                { component: setup.usdc.address, unit: usdc(100) },
+              ],
+              balances: [
+                { token: ckToken.address, holder: "investor", amount: ether(2) },
+                { token: setup.weth.address, holder: ckToken.address, amount: ether(2) },
+              ],
+              totalSupply: ether(2),
+            },
+          },
+          {
+            action: "movePrice",
+            oracle: setup.ETH_USD_Oracle,
+            price: ether(300),
+            expect: {
+              check: async () => {
+                const valuation = await setup.ckValuer.calculateCKTokenValuation(ckToken.address, setup.usdc.address);
+                expect(valuation).to.eq(ether(400));
+              },
+            },
+          },
+          {
+            action: "advanceTime",
+            duration: ONE_YEAR_IN_SECONDS,
+          },
+          {
+            action: "accrueFee",
+            expect: {
+              check: async ({ actors }) => {
+                expect(await ckToken.balanceOf(actors.feeRecipient.address)).to.be.gt(ZERO);
+                expect(await ckToken.getDefaultPositionRealUnit(setup.weth.address)).to.be.lt(ether(1));
+              },
+            },
+          },
+          {
+            action: "redeem",
+            caller: "investor",
+            module: setup.issuanceModule,
+            quantity: ether(1),
+            expect: {
+              balances: [
+                { token: ckToken.address, holder: "investor", amount: ether(1) },
+              ],
+            },
+          },
+          {
+            action: "redeem",
+            description: "investor redeems more than they hold",
+            caller: "investor",
+            module: setup.issuanceModule,
+            quantity: ether(2),
+            revertsWith: "ERC20: burn amount exceeds balance",
+          },
+        ]);
+      });
+
+      it("should run every step against the CKToken", async () => {
+        const { ckToken, actors } = await subject();
+
+        expect(await ckToken.totalSupply()).to.be.gt(ether(1));
+        expect(await ckToken.balanceOf(actors.investor.address)).to.eq(ether(1));
+      });
+    });
+
+    describe("when a step does not match its expected positions", async () => {
+      beforeEach(async () => {
+        subjectScenario = buildScenario(({ setup }) => [
+          {
+            action: "issue",
+            description: "investor issues 1 CKToken",
+            caller: "investor",
+            module: setup.issuanceModule,
+            quantity: ether(1),
+            approve: true,
+            expect: {
+              positions: [
+                { component: setup.weth.address, unit: ether(2) },
+                { component: setup.wbtc.address, unit: ZERO },
+              ],
+            },
+          },
+        ]);
+      });
+
+      it("should fail with a table of expected and actual positions", async () => {
+        let message = "";
+        try {
+          await subject();
+        } catch (error) {
+          message = error.message;
+        }
+
+        expect(message).to.contain(`Scenario "Basic issuance with streaming fees" step 1 (issue: investor issues 1 CKToken)`);
+        expect(message).to.contain("Component | Module | State   | Expected Unit       | Actual Unit         | Difference");
+        expect(message).to.contain(`> | WETH      | -      | Default | ${ether(2).toString()} | ${ether(1).toString()} | ${ether(-1).toString()}`);
+        expect(message).to.contain("> | WBTC      | -      | Default | 0                   | missing");
+        expect(message).to.contain(`> | USDC      | -      | Default | missing             | ${usdc(100).toString()}`);
+      });
+    });
+
+    describe("when a step references an unknown actor", async () => {
+      beforeEach(async () => {
+        subjectScenario = buildScenario(() => [
+          {
+            action: "accrueFee",
+            caller: "keeper",
+          },
+        ]);
+      });
+
+      it("should throw", async () => {
+        let message = "";
+        try {
+          await subject();
+        } catch (error) {
+          message = error.message;
+        }
+
+        expect(message).to.eq(`Scenario "Basic issuance with streaming fees" has no actor named "keeper"`);
+      });
+    });
+  });
+});
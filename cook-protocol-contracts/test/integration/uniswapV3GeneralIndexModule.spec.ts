@@ -0,0 +1,166 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ZERO } from "@utils/constants";
+import { CKToken, GeneralIndexModule, UniswapV3IndexExchangeAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { bitcoin, ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture, UniswapV3Fixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("UniswapV3GeneralIndexModule", () => {
+  let owner: Account;
+  let trader: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  let indexModule: GeneralIndexModule;
+  let uniswapV3IndexExchangeAdapter: UniswapV3IndexExchangeAdapter;
+  const uniswapV3AdapterName = "UNISWAPV3";
+
+  let index: CKToken;
+
+  before(async () => {
+    [owner, trader] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(owner, setup.weth.address, 230, setup.wbtc.address, 9000, setup.dai.address);
+
+    // 1 WBTC = ~39.13 WETH and 1 WETH = 230 DAI
+    await uniswapV3Setup.addLiquidityWide(setup.weth.address, setup.wbtc.address, 3000, ether(1000), bitcoin(26), owner.address);
+    await uniswapV3Setup.addLiquidityWide(setup.weth.address, setup.dai.address, 3000, ether(1000), ether(230000), owner.address);
+
+    indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(indexModule.address);
+
+    uniswapV3IndexExchangeAdapter = await deployer.adapters.deployUniswapV3IndexExchangeAdapter(uniswapV3Setup.swapRouter.address);
+    await setup.integrationRegistry.addIntegration(indexModule.address, uniswapV3AdapterName, uniswapV3IndexExchangeAdapter.address);
+
+    index = await setup.createCKToken(
+      [setup.wbtc.address, setup.dai.address, setup.weth.address],
+      [bitcoin(.01), ether(50), ether(.1)],
+      [setup.issuanceModule.address, indexModule.address]
+    );
+    await setup.issuanceModule.initialize(index.address, ADDRESS_ZERO);
+    await setup.approveAndIssueCKToken(index, ether(10));
+
+    const feeData = await uniswapV3IndexExchangeAdapter.getEncodedFeeData(3000);
+    await indexModule.initialize(index.address);
+    await indexModule.setTradeMaximums(index.address, [setup.wbtc.address, setup.dai.address], [bitcoin(1), ether(10000)]);
+    await indexModule.setExchanges(index.address, [setup.wbtc.address, setup.dai.address], [uniswapV3AdapterName, uniswapV3AdapterName]);
+    await indexModule.setExchangeData(index.address, [setup.wbtc.address, setup.dai.address], [feeData, feeData]);
+    await indexModule.setTraderStatus(index.address, [trader.address], [true]);
+
+    // Sell 0.05 WBTC and buy 200 DAI across the 10 CKTokens
+    await indexModule.startRebalance(
+      index.address,
+      [],
+      [],
+      [bitcoin(.005), ether(70), ether(.1)],
+      await index.positionMultiplier()
+    );
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#trade", async () => {
+    let subjectComponent: Address;
+    let subjectEthQuantityLimit: BigNumber;
+
+    async function subject(): Promise<any> {
+      return indexModule.connect(trader.wallet).trade(index.address, subjectComponent, subjectEthQuantityLimit);
+    }
+
+    describe("when selling a component for an exact input", async () => {
+      let expectedWethReceived: BigNumber;
+
+      beforeEach(async () => {
+        expectedWethReceived = await uniswapV3Setup.quoter.callStatic.quoteExactInputSingle(
+          setup.wbtc.address,
+          setup.weth.address,
+          3000,
+          bitcoin(.05),
+          ZERO
+        );
+
+        subjectComponent = setup.wbtc.address;
+        subjectEthQuantityLimit = expectedWethReceived;
+      });
+
+      it("should sell the component for the quoted amount of WETH", async () => {
+        const wbtcBalanceBefore = await setup.wbtc.balanceOf(index.address);
+        const wethBalanceBefore = await setup.weth.balanceOf(index.address);
+
+        await subject();
+
+        expect(await setup.wbtc.balanceOf(index.address)).to.eq(wbtcBalanceBefore.sub(bitcoin(.05)));
+        expect(await setup.weth.balanceOf(index.address)).to.eq(wethBalanceBefore.add(expectedWethReceived));
+        expect(await index.getDefaultPositionRealUnit(setup.wbtc.address)).to.eq(bitcoin(.005));
+      });
+
+      describe("when the WETH received is less than the limit", async () => {
+        beforeEach(async () => {
+          subjectEthQuantityLimit = expectedWethReceived.add(1);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Too little received");
+        });
+      });
+    });
+
+    describe("when buying a component for an exact output", async () => {
+      let expectedWethSpent: BigNumber;
+
+      beforeEach(async () => {
+        expectedWethSpent = await uniswapV3Setup.quoter.callStatic.quoteExactOutputSingle(
+          setup.weth.address,
+          setup.dai.address,
+          3000,
+          ether(200),
+          ZERO
+        );
+
+        subjectComponent = setup.dai.address;
+        subjectEthQuantityLimit = expectedWethSpent;
+      });
+
+      it("should buy the component for the quoted amount of WETH", async () => {
+        const daiBalanceBefore = await setup.dai.balanceOf(index.address);
+        const wethBalanceBefore = await setup.weth.balanceOf(index.address);
+
+        await subject();
+
+        expect(await setup.dai.balanceOf(index.address)).to.eq(daiBalanceBefore.add(ether(200)));
+        expect(await setup.weth.balanceOf(index.address)).to.eq(wethBalanceBefore.sub(expectedWethSpent));
+        expect(await index.getDefaultPositionRealUnit(setup.dai.address)).to.eq(ether(70));
+      });
+
+      describe("when the WETH required is more than the limit", async () => {
+        beforeEach(async () => {
+          subjectEthQuantityLimit = expectedWethSpent.sub(1);
+        });
+
+        // The module only approves the limit, so the router's payment in the swap callback fails before its own check
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("STF");
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, Bytes } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO } from "@utils/constants";
+import { CKToken, TradeModule, UniswapV3ExchangeAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { bitcoin, ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture, UniswapV3Fixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("UniswapV3TradeModule", () => {
+  let owner: Account;
+  let manager: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  let tradeModule: TradeModule;
+  let uniswapV3ExchangeAdapter: UniswapV3ExchangeAdapter;
+  const uniswapV3AdapterName = "UNISWAPV3";
+
+  let ckToken: CKToken;
+
+  before(async () => {
+    [owner, manager] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(owner, setup.weth.address, 230, setup.wbtc.address, 9000, setup.dai.address);
+
+    // 1 WBTC = ~39.13 WETH and 1 WETH = 230 DAI
+    await uniswapV3Setup.addLiquidityWide(setup.weth.address, setup.wbtc.address, 3000, ether(1000), bitcoin(26), owner.address);
+    await uniswapV3Setup.addLiquidityWide(setup.weth.address, setup.dai.address, 3000, ether(1000), ether(230000), owner.address);
+
+    tradeModule = await deployer.modules.deployTradeModule(setup.controller.address);
+    await setup.controller.addModule(tradeModule.address);
+
+    uniswapV3ExchangeAdapter = await deployer.adapters.deployUniswapV3ExchangeAdapter(uniswapV3Setup.swapRouter.address);
+    await setup.integrationRegistry.addIntegration(tradeModule.address, uniswapV3AdapterName, uniswapV3ExchangeAdapter.address);
+
+    ckToken = await setup.createCKToken(
+      [setup.wbtc.address],
+      [bitcoin(1)],
+      [setup.issuanceModule.address, tradeModule.address],
+      manager.address
+    );
+    await setup.issuanceModule.connect(manager.wallet).initialize(ckToken.address, ADDRESS_ZERO);
+    await tradeModule.connect(manager.wallet).initialize(ckToken.address);
+
+    // Issue 2 CKTokens holding 2 WBTC in total
+    await setup.approveAndIssueCKToken(ckToken, ether(2));
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#trade", async () => {
+    let subjectCKToken: Address;
+    let subjectSourceToken: Address;
+    let subjectSourceQuantity: BigNumber;
+    let subjectDestinationToken: Address;
+    let subjectMinDestinationQuantity: BigNumber;
+    let subjectData: Bytes;
+    let subjectCaller: Account;
+
+    let expectedReceiveQuantity: BigNumber;
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectSourceToken = setup.wbtc.address;
+      subjectSourceQuantity = bitcoin(.5);
+      subjectDestinationToken = setup.dai.address;
+      subjectData = await uniswapV3ExchangeAdapter.generateDataParam(
+        [setup.wbtc.address, setup.weth.address, setup.dai.address],
+        [3000, 3000]
+      );
+      subjectCaller = manager;
+
+      // Units are per CKToken, the trade sells 1 WBTC in total
+      expectedReceiveQuantity = await uniswapV3Setup.quoter.callStatic.quoteExactInput(subjectData, bitcoin(1));
+      subjectMinDestinationQuantity = expectedReceiveQuantity.div(2);
+    });
+
+    async function subject(): Promise<any> {
+      return tradeModule.connect(subjectCaller.wallet).trade(
+        subjectCKToken,
+        uniswapV3AdapterName,
+        subjectSourceToken,
+        subjectSourceQuantity,
+        subjectDestinationToken,
+        subjectMinDestinationQuantity,
+        subjectData
+      );
+    }
+
+    it("should swap WBTC for DAI through the WETH pools", async () => {
+      await subject();
+
+      expect(await setup.dai.balanceOf(ckToken.address)).to.eq(expectedReceiveQuantity);
+      expect(await setup.wbtc.balanceOf(ckToken.address)).to.eq(bitcoin(1));
+      expect(await setup.weth.balanceOf(ckToken.address)).to.eq(0);
+    });
+
+    it("should update the default positions of the CKToken", async () => {
+      await subject();
+
+      expect(await ckToken.getDefaultPositionRealUnit(setup.wbtc.address)).to.eq(bitcoin(.5));
+      expect(await ckToken.getDefaultPositionRealUnit(setup.dai.address)).to.eq(expectedReceiveQuantity.div(2));
+      expect(await ckToken.getComponents()).to.deep.eq([setup.wbtc.address, setup.dai.address]);
+    });
+
+    describe("when the path goes through a 0.05% pool", async () => {
+      beforeEach(async () => {
+        await uniswapV3Setup.createNewPair(setup.weth.address, setup.dai.address, 500, 230);
+        await uniswapV3Setup.addLiquidityWide(setup.weth.address, setup.dai.address, 500, ether(1000), ether(230000), owner.address);
+
+        subjectData = await uniswapV3ExchangeAdapter.generateDataParam(
+          [setup.wbtc.address, setup.weth.address, setup.dai.address],
+          [3000, 500]
+        );
+        expectedReceiveQuantity = await uniswapV3Setup.quoter.callStatic.quoteExactInput(subjectData, bitcoin(1));
+        subjectMinDestinationQuantity = expectedReceiveQuantity.div(2);
+      });
+
+      it("should receive the quoted amount of DAI", async () => {
+        await subject();
+
+        expect(await setup.dai.balanceOf(ckToken.address)).to.eq(expectedReceiveQuantity);
+      });
+    });
+
+    describe("when the path is a single hop", async () => {
+      beforeEach(async () => {
+        subjectDestinationToken = setup.weth.address;
+        subjectData = await uniswapV3ExchangeAdapter.generateDataParam([setup.wbtc.address, setup.weth.address], [3000]);
+        expectedReceiveQuantity = await uniswapV3Setup.quoter.callStatic.quoteExactInput(subjectData, bitcoin(1));
+        subjectMinDestinationQuantity = expectedReceiveQuantity.div(2);
+      });
+
+      it("should swap WBTC for WETH", async () => {
+        await subject();
+
+        expect(await setup.weth.balanceOf(ckToken.address)).to.eq(expectedReceiveQuantity);
+      });
+    });
+
+    describe("when the minimum receive quantity is more than the path returns", async () => {
+      beforeEach(async () => {
+        subjectMinDestinationQuantity = expectedReceiveQuantity.div(2).add(1);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Too little received");
+      });
+    });
+
+    describe("when the path does not end in the receive token", async () => {
+      beforeEach(async () => {
+        subjectDestinationToken = setup.weth.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("UniswapV3ExchangeAdapter: destination token path mismatch");
+      });
+    });
+  });
+});
@@ -4,7 +4,7 @@ import { BigNumber } from "@ethersproject/bignumber";
 import { Address } from "@utils/types";
 import { Account } from "@utils/test/types";
 import { ADDRESS_ZERO } from "@utils/constants";
-import { YearnWrapAdapter, CKToken, WrapModule } from "@utils/contracts";
+import { CKToken, WrapModule, WrapModuleV2 } from "@utils/contracts";
 import DeployHelper from "@utils/deploys";
 import {
   ether,
@@ -15,193 +15,217 @@ import {
   getWaffleExpect,
   getSystemFixture,
   getYearnFixture,
-  addSnapshotBeforeRestoreAfterEach,
 } from "@utils/test/index";
-import { YearnFixture, SystemFixture } from "@utils/fixtures";
+import {
+  describeParity,
+  getWrapModuleEntryPoints,
+  ParityContext,
+  ParityVersion,
+  WrapModuleEntryPoints,
+} from "@utils/test/parityHarness";
+import { SystemFixture } from "@utils/fixtures";
 import { Vault } from "@utils/contracts/yearn";
 
 
 const expect = getWaffleExpect();
 
-describe("yearnWrapModule", () => {
-  let owner: Account;
-  let deployer: DeployHelper;
-  let setup: SystemFixture;
-
-  let yearnSetup: YearnFixture;
-  let daiVault: Vault;
+const yearnWrapAdapterIntegrationName: string = "YEARN_WRAPPER";
 
-  let wrapModule: WrapModule;
-  let yearnWrapAdapter: YearnWrapAdapter;
+interface YearnWrapModuleSystem {
+  owner: Account;
+  setup: SystemFixture;
+  daiVault: Vault;
+  wrapModule: WrapModule | WrapModuleV2;
+}
 
-  const yearnWrapAdapterIntegrationName: string = "YEARN_WRAPPER";
-
-  before(async () => {
-    [
+describeParity<YearnWrapModuleSystem>("yearnWrapModule", {
+  deploy: async (version: ParityVersion) => {
+    const [
       owner,
     ] = await getAccounts();
 
     // System setup
-    deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
+    const deployer = new DeployHelper(owner.wallet);
+    const setup = getSystemFixture(owner.address);
     await setup.initialize();
 
     // Yearn setup
-    yearnSetup = getYearnFixture(owner.address);
+    const yearnSetup = getYearnFixture(owner.address);
     await yearnSetup.initialize();
 
-    daiVault =  await yearnSetup.createAndEnableVaultWithStrategyMock(
+    const daiVault =  await yearnSetup.createAndEnableVaultWithStrategyMock(
       setup.dai.address, owner.address, owner.address, owner.address, "daiMockStrategy", "yvDAI", ether(100)
     );
 
     // WrapModule setup
-    wrapModule = await deployer.modules.deployWrapModule(setup.controller.address, setup.weth.address);
+    const wrapModule = version === "V1"
+      ? await deployer.modules.deployWrapModule(setup.controller.address, setup.weth.address)
+      : await deployer.modules.deployWrapModuleV2(setup.controller.address, setup.weth.address);
     await setup.controller.addModule(wrapModule.address);
 
     // YearnWrapAdapter setup
-    yearnWrapAdapter = await deployer.adapters.deployYearnWrapAdapter();
+    const yearnWrapAdapter = version === "V1"
+      ? await deployer.adapters.deployYearnWrapAdapter()
+      : await deployer.adapters.deployYearnWrapV2Adapter();
     await setup.integrationRegistry.addIntegration(wrapModule.address, yearnWrapAdapterIntegrationName, yearnWrapAdapter.address);
-  });
 
-  addSnapshotBeforeRestoreAfterEach();
+    return { owner, setup, daiVault, wrapModule };
+  },
+
+  scenarios: (parity: ParityContext<YearnWrapModuleSystem>) => {
+    let owner: Account;
+    let setup: SystemFixture;
 
-  context("when a CKToken has been deployed and issued", async () => {
-    let ckToken: CKToken;
-    let ckTokensIssued: BigNumber;
+    let daiVault: Vault;
+
+    let wrapModule: WrapModule | WrapModuleV2;
 
     before(async () => {
-      ckToken = await setup.createCKToken(
-        [setup.dai.address],
-        [ether(1)],
-        [setup.issuanceModule.address, wrapModule.address]
-      );
-
-      // Initialize modules
-      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
-      await wrapModule.initialize(ckToken.address);
-
-      // Issue some CKs
-      ckTokensIssued = ether(10);
-      const underlyingRequired = ckTokensIssued;
-      await setup.dai.approve(setup.issuanceModule.address, underlyingRequired);
-      await setup.issuanceModule.issue(ckToken.address, ckTokensIssued, owner.address);
+      ({ owner, setup, daiVault, wrapModule } = parity.system);
     });
 
-    describe("#wrap", async () => {
-      let subjectCKToken: Address;
-      let subjectUnderlyingToken: Address;
-      let subjectWrappedToken: Address;
-      let subjectUnderlyingUnits: BigNumber;
-      let subjectIntegrationName: string;
-      let subjectCaller: Account;
-
-      beforeEach(async () => {
-        subjectCKToken = ckToken.address;
-        subjectUnderlyingToken = setup.dai.address;
-        subjectWrappedToken = daiVault.address;
-        subjectUnderlyingUnits = ether(1);
-        subjectIntegrationName = yearnWrapAdapterIntegrationName;
-        subjectCaller = owner;
-      });
+    function wrapModuleAs(caller: Account): WrapModuleEntryPoints {
+      return getWrapModuleEntryPoints(parity.version, wrapModule, caller);
+    }
+
+    context("when a CKToken has been deployed and issued", async () => {
+      let ckToken: CKToken;
+      let ckTokensIssued: BigNumber;
 
-      async function subject(): Promise<any> {
-        return wrapModule.connect(subjectCaller.wallet).wrap(
-          subjectCKToken,
-          subjectUnderlyingToken,
-          subjectWrappedToken,
-          subjectUnderlyingUnits,
-          subjectIntegrationName,
+      before(async () => {
+        ckToken = await setup.createCKToken(
+          [setup.dai.address],
+          [ether(1)],
+          [setup.issuanceModule.address, wrapModule.address]
         );
-      }
 
-      it("should reduce the underlying quantity and mint the wrapped asset to the CKToken", async () => {
-        const previousUnderlyingBalance = await setup.dai.balanceOf(ckToken.address);
-        const previousWrappedBalance = await daiVault.balanceOf(ckToken.address);
+        // Initialize modules
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        await wrapModule.initialize(ckToken.address);
 
-        await subject();
+        // Issue some CKs
+        ckTokensIssued = ether(10);
+        const underlyingRequired = ckTokensIssued;
+        await setup.dai.approve(setup.issuanceModule.address, underlyingRequired);
+        await setup.issuanceModule.issue(ckToken.address, ckTokensIssued, owner.address);
+      });
 
-        const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
-        const wrappedBalance = await daiVault.balanceOf(ckToken.address);
+      describe("#wrap", async () => {
+        let subjectCKToken: Address;
+        let subjectUnderlyingToken: Address;
+        let subjectWrappedToken: Address;
+        let subjectUnderlyingUnits: BigNumber;
+        let subjectIntegrationName: string;
+        let subjectCaller: Account;
 
-        const expectedUnderlyingBalance = previousUnderlyingBalance.sub(ckTokensIssued);
-        expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
+        beforeEach(async () => {
+          subjectCKToken = ckToken.address;
+          subjectUnderlyingToken = setup.dai.address;
+          subjectWrappedToken = daiVault.address;
+          subjectUnderlyingUnits = ether(1);
+          subjectIntegrationName = yearnWrapAdapterIntegrationName;
+          subjectCaller = owner;
+        });
 
-        const expectedWrappedBalance = previousWrappedBalance.add(ckTokensIssued);
-        expect(wrappedBalance).to.eq(expectedWrappedBalance);
-      });
+        async function subject(): Promise<any> {
+          return wrapModuleAs(subjectCaller).wrap(
+            subjectCKToken,
+            subjectUnderlyingToken,
+            subjectWrappedToken,
+            subjectUnderlyingUnits,
+            subjectIntegrationName,
+          );
+        }
 
-    });
+        it("should reduce the underlying quantity and mint the wrapped asset to the CKToken", async () => {
+          const previousUnderlyingBalance = await setup.dai.balanceOf(ckToken.address);
+          const previousWrappedBalance = await daiVault.balanceOf(ckToken.address);
+
+          await subject();
+
+          const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
+          const wrappedBalance = await daiVault.balanceOf(ckToken.address);
+
+          const expectedUnderlyingBalance = previousUnderlyingBalance.sub(ckTokensIssued);
+          expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
+
+          const expectedWrappedBalance = previousWrappedBalance.add(ckTokensIssued);
+          expect(wrappedBalance).to.eq(expectedWrappedBalance);
+        });
 
-    describe("#unwrap", () => {
-      let subjectCKToken: Address;
-      let subjectUnderlyingToken: Address;
-      let subjectWrappedToken: Address;
-      let subjectWrappedTokenUnits: BigNumber;
-      let subjectIntegrationName: string;
-      let subjectCaller: Account;
-
-      let wrappedQuantity: BigNumber;
-
-      beforeEach(async () => {
-        subjectCKToken = ckToken.address;
-        subjectUnderlyingToken = setup.dai.address;
-        subjectWrappedToken = daiVault.address;
-        subjectWrappedTokenUnits = ether(0.5);
-        subjectIntegrationName = yearnWrapAdapterIntegrationName;
-        subjectCaller = owner;
-
-        wrappedQuantity = ether(1);
-
-        await wrapModule.wrap(
-          subjectCKToken,
-          subjectUnderlyingToken,
-          subjectWrappedToken,
-          wrappedQuantity,
-          subjectIntegrationName,
-        );
       });
 
-      async function subject(): Promise<any> {
-        return wrapModule.connect(subjectCaller.wallet).unwrap(
-          subjectCKToken,
-          subjectUnderlyingToken,
-          subjectWrappedToken,
-          subjectWrappedTokenUnits,
-          subjectIntegrationName,
-          {
-            gasLimit: 5000000,
-          }
-        );
-      }
+      describe("#unwrap", () => {
+        let subjectCKToken: Address;
+        let subjectUnderlyingToken: Address;
+        let subjectWrappedToken: Address;
+        let subjectWrappedTokenUnits: BigNumber;
+        let subjectIntegrationName: string;
+        let subjectCaller: Account;
+
+        let wrappedQuantity: BigNumber;
+
+        beforeEach(async () => {
+          subjectCKToken = ckToken.address;
+          subjectUnderlyingToken = setup.dai.address;
+          subjectWrappedToken = daiVault.address;
+          subjectWrappedTokenUnits = ether(0.5);
+          subjectIntegrationName = yearnWrapAdapterIntegrationName;
+          subjectCaller = owner;
+
+          wrappedQuantity = ether(1);
+
+          await wrapModuleAs(owner).wrap(
+            subjectCKToken,
+            subjectUnderlyingToken,
+            subjectWrappedToken,
+            wrappedQuantity,
+            subjectIntegrationName,
+          );
+        });
 
-      it("should burn the wrapped asset to the CKToken and increase the underlying quantity", async () => {
-        const previousUnderlyingBalance = await setup.dai.balanceOf(ckToken.address);
-        const previousWrappedBalance = await daiVault.balanceOf(ckToken.address);
+        async function subject(): Promise<any> {
+          return wrapModuleAs(subjectCaller).unwrap(
+            subjectCKToken,
+            subjectUnderlyingToken,
+            subjectWrappedToken,
+            subjectWrappedTokenUnits,
+            subjectIntegrationName,
+            {
+              gasLimit: 5000000,
+            }
+          );
+        }
 
-        await subject();
+        it("should burn the wrapped asset to the CKToken and increase the underlying quantity", async () => {
+          const previousUnderlyingBalance = await setup.dai.balanceOf(ckToken.address);
+          const previousWrappedBalance = await daiVault.balanceOf(ckToken.address);
 
-        const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
-        const wrappedBalance = await daiVault.balanceOf(ckToken.address);
+          await subject();
 
-        const delta = preciseMul(ckTokensIssued, wrappedQuantity.sub(subjectWrappedTokenUnits));
+          const underlyingBalance = await setup.dai.balanceOf(ckToken.address);
+          const wrappedBalance = await daiVault.balanceOf(ckToken.address);
 
-        const expectedUnderlyingBalance = previousUnderlyingBalance.add(delta);
-        expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
+          const delta = preciseMul(ckTokensIssued, wrappedQuantity.sub(subjectWrappedTokenUnits));
 
-        const expectedWrappedBalance = previousWrappedBalance.sub(delta);
-        expect(wrappedBalance).to.eq(expectedWrappedBalance);
-      });
+          const expectedUnderlyingBalance = previousUnderlyingBalance.add(delta);
+          expect(underlyingBalance).to.eq(expectedUnderlyingBalance);
 
-      describe("when it is an invalid vault - underlying token", async () => {
-        beforeEach(async () => {
-            subjectUnderlyingToken = setup.usdc.address;
+          const expectedWrappedBalance = previousWrappedBalance.sub(delta);
+          expect(wrappedBalance).to.eq(expectedWrappedBalance);
         });
 
-        it("should revert as it the vault holds a different underlying token", async () => {
-          await expect(subject()).to.be.revertedWith("Must be a valid token pair");
+        describe("when it is an invalid vault - underlying token", async () => {
+          beforeEach(async () => {
+              subjectUnderlyingToken = setup.usdc.address;
+          });
+
+          it("should revert as it the vault holds a different underlying token", async () => {
+            await expect(subject()).to.be.revertedWith("Must be a valid token pair");
+          });
         });
-      });
 
+      });
     });
-  });
+  },
 });
@@ -0,0 +1,178 @@
+import "module-alias/register";
+import * as fc from "fast-check";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account } from "@utils/test/types";
+import { MIN_INT_256, PRECISE_UNIT } from "@utils/constants";
+import { PreciseUnitMathMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  conservativePreciseDiv,
+  conservativePreciseMul,
+  divDown,
+  preciseDiv,
+  preciseDivCeil,
+  preciseDivCeilInt,
+  preciseMul,
+  preciseMulCeil,
+  preciseMulCeilInt,
+} from "@utils/index";
+import {
+  getAccounts,
+  getWaffleExpect,
+} from "@utils/test/index";
+import {
+  expectParity,
+  fitsInt256,
+  fitsUint256,
+  int256Arbitrary,
+  intNArbitrary,
+  PROPERTY_RUNS,
+  uint256Arbitrary,
+  uintNArbitrary,
+} from "@utils/test/propertyUtils";
+
+const expect = getWaffleExpect();
+
+describe("PreciseUnitMath properties", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+
+  let mathMock: PreciseUnitMathMock;
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    mathMock = await deployer.mocks.deployPreciseUnitMathMock();
+  });
+
+  describe("#preciseMul: uint256", async () => {
+    it("matches the TypeScript mirror, reverting when the product overflows", async () => {
+      await fc.assert(fc.asyncProperty(uint256Arbitrary(), uint256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = fitsUint256(a.mul(b)) ? preciseMul(a, b) : undefined;
+
+        await expectParity(() => mathMock.preciseMul(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#preciseMulInt", async () => {
+    it("matches the TypeScript mirror, rounding towards zero", async () => {
+      await fc.assert(fc.asyncProperty(int256Arbitrary(), int256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = fitsInt256(a.mul(b)) ? preciseMul(a, b) : undefined;
+
+        await expectParity(() => mathMock.preciseMulInt(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#preciseMulCeil", async () => {
+    it("matches the TypeScript mirror, reverting when the product overflows", async () => {
+      await fc.assert(fc.asyncProperty(uint256Arbitrary(), uint256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = a.isZero() || b.isZero() || fitsUint256(a.mul(b)) ? preciseMulCeil(a, b) : undefined;
+
+        await expectParity(() => mathMock.preciseMulCeil(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+
+    it("is preciseMul plus one whenever the product is not a multiple of a precise unit", async () => {
+      await fc.assert(fc.asyncProperty(uintNArbitrary(128), uintNArbitrary(128), async (a: BigNumber, b: BigNumber) => {
+        const floor = await mathMock.preciseMul(a, b);
+        const ceil = await mathMock.preciseMulCeil(a, b);
+
+        const isExact = a.mul(b).mod(PRECISE_UNIT).isZero();
+        expect(ceil).to.eq(isExact ? floor : floor.add(1));
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  // PreciseUnitMath has no signed ceil functions, so the signed mirrors are tied to the unsigned on-chain results
+  describe("#preciseMulCeilInt", async () => {
+    it("rounds away from zero by the unsigned on-chain ceil of the absolute values", async () => {
+      await fc.assert(fc.asyncProperty(intNArbitrary(127), intNArbitrary(127), async (a: BigNumber, b: BigNumber) => {
+        const absoluteCeil = await mathMock.preciseMulCeil(a.abs(), b.abs());
+        const isNegative = a.mul(b).lt(0);
+
+        expect(preciseMulCeilInt(a, b)).to.eq(isNegative ? absoluteCeil.mul(-1) : absoluteCeil);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#preciseDiv: uint256", async () => {
+    it("matches the TypeScript mirror, reverting on overflow or a zero divisor", async () => {
+      await fc.assert(fc.asyncProperty(uint256Arbitrary(), uint256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = !b.isZero() && fitsUint256(a.mul(PRECISE_UNIT)) ? preciseDiv(a, b) : undefined;
+
+        await expectParity(async () => (await mathMock.functions["preciseDiv(uint256,uint256)"](a, b))[0], expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#preciseDiv: int256", async () => {
+    it("matches the TypeScript mirror, rounding towards zero", async () => {
+      await fc.assert(fc.asyncProperty(int256Arbitrary(), int256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = !b.isZero() && fitsInt256(a.mul(PRECISE_UNIT)) ? preciseDiv(a, b) : undefined;
+
+        await expectParity(async () => (await mathMock.functions["preciseDiv(int256,int256)"](a, b))[0], expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#preciseDivCeil", async () => {
+    it("matches the TypeScript mirror, reverting on overflow or a zero divisor", async () => {
+      await fc.assert(fc.asyncProperty(uint256Arbitrary(), uint256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = !b.isZero() && fitsUint256(a.mul(PRECISE_UNIT)) ? preciseDivCeil(a, b) : undefined;
+
+        await expectParity(() => mathMock.preciseDivCeil(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#preciseDivCeilInt", async () => {
+    it("rounds away from zero by the unsigned on-chain ceil of the absolute values", async () => {
+      await fc.assert(fc.asyncProperty(intNArbitrary(128), intNArbitrary(128), async (a: BigNumber, b: BigNumber) => {
+        fc.pre(!b.isZero());
+
+        const absoluteCeil = await mathMock.preciseDivCeil(a.abs(), b.abs());
+        const isNegative = a.mul(b).lt(0);
+
+        expect(preciseDivCeilInt(a, b)).to.eq(isNegative ? absoluteCeil.mul(-1) : absoluteCeil);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#divDown", async () => {
+    it("matches the TypeScript mirror, rounding towards negative infinity", async () => {
+      await fc.assert(fc.asyncProperty(int256Arbitrary(), int256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const isInvalid = b.isZero() || (a.eq(MIN_INT_256) && b.eq(-1));
+        const expected = isInvalid ? undefined : divDown(a, b);
+
+        await expectParity(() => mathMock.divDown(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#conservativePreciseMul", async () => {
+    it("matches the TypeScript mirror, rounding towards negative infinity", async () => {
+      await fc.assert(fc.asyncProperty(int256Arbitrary(), int256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = fitsInt256(a.mul(b)) ? conservativePreciseMul(a, b) : undefined;
+
+        await expectParity(() => mathMock.conservativePreciseMul(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#conservativePreciseDiv", async () => {
+    it("matches the TypeScript mirror, rounding towards negative infinity", async () => {
+      await fc.assert(fc.asyncProperty(int256Arbitrary(), int256Arbitrary(), async (a: BigNumber, b: BigNumber) => {
+        const expected = !b.isZero() && fitsInt256(a.mul(PRECISE_UNIT)) ? conservativePreciseDiv(a, b) : undefined;
+
+        await expectParity(() => mathMock.conservativePreciseDiv(a, b), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+});
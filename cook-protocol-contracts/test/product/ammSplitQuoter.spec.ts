@@ -0,0 +1,306 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { MAX_UINT_256 } from "@utils/constants";
+import { AMMSplitter, ProtocolViewer } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  AMMRouteComparison,
+  AMMSplitPools,
+  AMMSplitQuote,
+  AMMSplitQuoter,
+  AMMSplitTradeSizes,
+  bitcoin,
+  ether,
+  getSplitTradeSizes,
+  getUniswapV2AmountsIn,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getAMMSplitterFixture,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { AMMSplitterFixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("AMMSplitQuoter", () => {
+  let owner: Account;
+  let recipient: Account;
+
+  let setup: SystemFixture;
+  let splitterSetup: AMMSplitterFixture;
+  let ammSplitter: AMMSplitter;
+  let viewer: ProtocolViewer;
+  let quoter: AMMSplitQuoter;
+
+  before(async () => {
+    [
+      owner,
+      recipient,
+    ] = await getAccounts();
+
+    const deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    splitterSetup = getAMMSplitterFixture(owner.address);
+    await splitterSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    ammSplitter = splitterSetup.ammSplitter;
+
+    await splitterSetup.addLiquidity(splitterSetup.uniswap, setup.weth.address, setup.dai.address, ether(100), ether(23000));
+    await splitterSetup.addLiquidity(splitterSetup.sushiswap, setup.weth.address, setup.dai.address, ether(50), ether(11500));
+    await splitterSetup.addLiquidity(splitterSetup.uniswap, setup.weth.address, setup.wbtc.address, ether(390), bitcoin(10));
+    await splitterSetup.addLiquidity(splitterSetup.sushiswap, setup.weth.address, setup.wbtc.address, ether(117), bitcoin(3));
+
+    await setup.weth.approve(ammSplitter.address, MAX_UINT_256);
+    await setup.dai.approve(ammSplitter.address, MAX_UINT_256);
+
+    viewer = await deployer.viewers.deployProtocolViewer();
+    quoter = new AMMSplitQuoter(viewer, splitterSetup.uniswap.factory, splitterSetup.sushiswap.factory);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#getPools", async () => {
+    let subjectPath: Address[];
+
+    beforeEach(async () => {
+      subjectPath = [setup.dai.address, setup.weth.address, setup.wbtc.address];
+    });
+
+    async function subject(): Promise<AMMSplitPools> {
+      return await quoter.getPools(subjectPath);
+    }
+
+    it("should return each venue's balances of the path tokens per hop", async () => {
+      const pools = await subject();
+
+      const uniWethWbtcPair = await splitterSetup.uniswap.factory.getPair(setup.weth.address, setup.wbtc.address);
+      const sushiWethDaiPair = await splitterSetup.sushiswap.factory.getPair(setup.weth.address, setup.dai.address);
+      expect(pools.path).to.deep.eq(subjectPath);
+      expect(pools.uniswap[1].balanceIn).to.eq(await setup.weth.balanceOf(uniWethWbtcPair));
+      expect(pools.uniswap[1].balanceOut).to.eq(await setup.wbtc.balanceOf(uniWethWbtcPair));
+      expect(pools.sushiswap[0].balanceIn).to.eq(await setup.dai.balanceOf(sushiWethDaiPair));
+      expect(pools.sushiswap[0].balanceOut).to.eq(await setup.weth.balanceOf(sushiWethDaiPair));
+    });
+
+    describe("when the path has more than three tokens", async () => {
+      beforeEach(async () => {
+        subjectPath = [setup.weth.address, setup.dai.address, setup.weth.address, setup.wbtc.address];
+      });
+
+      it("should throw", async () => {
+        let errorMessage: string = "";
+        try {
+          await subject();
+        } catch (error) {
+          errorMessage = error.message;
+        }
+
+        expect(errorMessage).to.eq("AMMSplitter: incorrect path length");
+      });
+    });
+  });
+
+  describe("#quoteExactInput", async () => {
+    let subjectAmountIn: BigNumber;
+    let subjectPath: Address[];
+
+    beforeEach(async () => {
+      subjectAmountIn = ether(1000);
+      subjectPath = [setup.dai.address, setup.weth.address, setup.wbtc.address];
+    });
+
+    async function subject(): Promise<AMMSplitQuote> {
+      return await quoter.quoteExactInput(subjectAmountIn, subjectPath);
+    }
+
+    it("should match the AMMSplitter quote", async () => {
+      const quote = await subject();
+
+      expect(quote.amounts).to.deep.eq(await ammSplitter.getAmountsOut(subjectAmountIn, subjectPath));
+    });
+
+    it("should report the sizes AMMSplitter routes to each venue", async () => {
+      const quote = await subject();
+
+      await expect(
+        ammSplitter.swapExactTokensForTokens(subjectAmountIn, 0, subjectPath, recipient.address, MAX_UINT_256)
+      ).to.emit(ammSplitter, "TradeExactInputExecuted").withArgs(
+        setup.dai.address,
+        setup.wbtc.address,
+        recipient.address,
+        subjectAmountIn,
+        quote.amounts[2],
+        quote.uniswap.size,
+        quote.sushiswap.size
+      );
+    });
+
+    it("should report the per venue amounts and a price impact above the LP fee", async () => {
+      const quote = await subject();
+
+      expect(quote.uniswap.amounts[0].add(quote.sushiswap.amounts[0])).to.eq(subjectAmountIn);
+      expect(quote.uniswap.amounts).to.deep.eq(await splitterSetup.uniswap.router.getAmountsOut(quote.uniswap.size, subjectPath));
+      expect(quote.priceImpact).to.be.gt(ether(0.003));
+      expect(quote.priceImpact).to.be.lt((await quoter.compareRoutes(subjectAmountIn, subjectPath, true)).uniswap!.priceImpact);
+    });
+
+    describe("when the trade has a single hop", async () => {
+      beforeEach(async () => {
+        subjectAmountIn = ether(3);
+        subjectPath = [setup.weth.address, setup.dai.address];
+      });
+
+      it("should match the AMMSplitter quote", async () => {
+        const quote = await subject();
+
+        expect(quote.amounts).to.deep.eq(await ammSplitter.getAmountsOut(subjectAmountIn, subjectPath));
+      });
+    });
+  });
+
+  describe("#quoteExactOutput", async () => {
+    let subjectAmountOut: BigNumber;
+    let subjectPath: Address[];
+
+    beforeEach(async () => {
+      subjectAmountOut = ether(690);
+      subjectPath = [setup.weth.address, setup.dai.address];
+    });
+
+    async function subject(): Promise<AMMSplitQuote> {
+      return await quoter.quoteExactOutput(subjectAmountOut, subjectPath);
+    }
+
+    it("should match the AMMSplitter quote", async () => {
+      const quote = await subject();
+
+      expect(quote.amounts).to.deep.eq(await ammSplitter.getAmountsIn(subjectAmountOut, subjectPath));
+    });
+
+    it("should report the input AMMSplitter pulls", async () => {
+      const quote = await subject();
+
+      await expect(
+        ammSplitter.swapTokensForExactTokens(subjectAmountOut, MAX_UINT_256, subjectPath, recipient.address, MAX_UINT_256)
+      ).to.emit(ammSplitter, "TradeExactOutputExecuted").withArgs(
+        setup.weth.address,
+        setup.dai.address,
+        recipient.address,
+        quote.amounts[0],
+        subjectAmountOut,
+        quote.uniswap.size,
+        quote.sushiswap.size
+      );
+    });
+  });
+
+  describe("#compareRoutes", async () => {
+    let subjectSize: BigNumber;
+    let subjectPath: Address[];
+    let subjectIsExactInput: boolean;
+
+    beforeEach(async () => {
+      subjectSize = ether(10);
+      subjectPath = [setup.weth.address, setup.dai.address];
+      subjectIsExactInput = true;
+    });
+
+    async function subject(): Promise<AMMRouteComparison> {
+      return await quoter.compareRoutes(subjectSize, subjectPath, subjectIsExactInput);
+    }
+
+    it("should prefer the split when both venues quote the same price", async () => {
+      const comparison = await subject();
+
+      const uniOutput = (await splitterSetup.uniswap.router.getAmountsOut(subjectSize, subjectPath))[1];
+      expect(comparison.best).to.eq("split");
+      expect(comparison.uniswap!.amounts[1]).to.eq(uniOutput);
+      expect(comparison.splitImprovement).to.eq(comparison.split.amounts[1].sub(uniOutput));
+      expect(comparison.splitImprovement).to.be.gt(0);
+    });
+
+    describe("when a single venue is cheaper", async () => {
+      beforeEach(async () => {
+        // Buying WETH on Sushiswap leaves it more expensive there than on Uniswap
+        await setup.dai.approve(splitterSetup.sushiswap.router.address, ether(2000));
+        await splitterSetup.sushiswap.router.swapExactTokensForTokens(
+          ether(2000),
+          0,
+          [setup.dai.address, setup.weth.address],
+          owner.address,
+          MAX_UINT_256
+        );
+
+        subjectSize = ether(230);
+        subjectPath = [setup.dai.address, setup.weth.address];
+      });
+
+      it("should pick the venue and report the split's shortfall", async () => {
+        const comparison = await subject();
+
+        expect(comparison.best).to.eq("uniswap");
+        expect(comparison.splitImprovement).to.eq(comparison.split.amounts[1].sub(comparison.uniswap!.amounts[1]));
+        expect(comparison.splitImprovement).to.be.lt(0);
+      });
+    });
+
+    describe("when a venue cannot fill an exact output trade", async () => {
+      beforeEach(async () => {
+        subjectSize = ether(12000);
+        subjectIsExactInput = false;
+      });
+
+      it("should leave the venue out of the comparison", async () => {
+        const comparison = await subject();
+
+        expect(comparison.sushiswap).to.be.undefined;
+        expect(comparison.uniswap!.amounts[1]).to.eq(subjectSize);
+        expect(comparison.splitImprovement).to.eq(comparison.uniswap!.amounts[0].sub(comparison.split.amounts[0]));
+      });
+    });
+  });
+
+  describe("#getSplitTradeSizes", async () => {
+    let subjectPools: AMMSplitPools;
+    let subjectSize: BigNumber;
+
+    beforeEach(async () => {
+      subjectPools = {
+        path: [setup.dai.address, setup.weth.address, setup.wbtc.address],
+        uniswap: [
+          { balanceIn: ether(23000), balanceOut: ether(100) },
+          { balanceIn: ether(0), balanceOut: bitcoin(0) },
+        ],
+        sushiswap: [
+          { balanceIn: ether(11500), balanceOut: ether(50) },
+          { balanceIn: ether(117), balanceOut: bitcoin(3) },
+        ],
+      };
+      subjectSize = ether(1000);
+    });
+
+    function subject(): AMMSplitTradeSizes {
+      return getSplitTradeSizes(subjectPools, subjectSize);
+    }
+
+    it("should route a two hop trade missing a Uniswap pool to Sushiswap", async () => {
+      expect(subject()).to.deep.eq({ uniSize: ether(0), sushiSize: subjectSize });
+    });
+  });
+
+  describe("#getUniswapV2AmountsIn", async () => {
+    it("should throw when the output exceeds the pool balance", async () => {
+      const hops = [{ balanceIn: ether(50), balanceOut: ether(11500) }];
+
+      expect(() => getUniswapV2AmountsIn(ether(11500), hops)).to.throw("ds-math-sub-underflow");
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+import { ContractTransaction } from "ethers";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { MAX_UINT_256, PRECISE_UNIT } from "@utils/constants";
+import { AMMSplitter, StandardTokenMock, WETH9 } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  preciseDiv,
+  preciseMul,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getAMMSplitterFixture,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { AMMSplitterFixture, SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("AMMSplitter", () => {
+  let owner: Account;
+  let recipient: Account;
+  let deployer: DeployHelper;
+
+  let setup: SystemFixture;
+  let splitterSetup: AMMSplitterFixture;
+  let ammSplitter: AMMSplitter;
+
+  before(async () => {
+    [
+      owner,
+      recipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    splitterSetup = getAMMSplitterFixture(owner.address);
+    await splitterSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    ammSplitter = splitterSetup.ammSplitter;
+
+    // 1 WETH = 230 DAI on both venues, Uniswap twice as deep
+    await splitterSetup.addLiquidity(splitterSetup.uniswap, setup.weth.address, setup.dai.address, ether(100), ether(23000));
+    await splitterSetup.addLiquidity(splitterSetup.sushiswap, setup.weth.address, setup.dai.address, ether(50), ether(11500));
+
+    // 1 WBTC = 39 WETH
+    await splitterSetup.addLiquidity(splitterSetup.uniswap, setup.weth.address, setup.wbtc.address, ether(390), bitcoin(10));
+    await splitterSetup.addLiquidity(splitterSetup.sushiswap, setup.weth.address, setup.wbtc.address, ether(117), bitcoin(3));
+
+    await setup.weth.approve(ammSplitter.address, MAX_UINT_256);
+    await setup.dai.approve(ammSplitter.address, MAX_UINT_256);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function getPairBalance(
+    venue: UniswapFixture,
+    pairedToken: Address,
+    balanceToken: StandardTokenMock | WETH9
+  ): Promise<BigNumber> {
+    return await balanceToken.balanceOf(await venue.factory.getPair(pairedToken, balanceToken.address));
+  }
+
+  async function getSingleHopUniSize(size: BigNumber): Promise<BigNumber> {
+    const uniLiqPool = await getPairBalance(splitterSetup.uniswap, setup.weth.address, setup.dai);
+    const sushiLiqPool = await getPairBalance(splitterSetup.sushiswap, setup.weth.address, setup.dai);
+
+    return preciseMul(size, preciseDiv(uniLiqPool, uniLiqPool.add(sushiLiqPool)));
+  }
+
+  // DAI -> WETH -> WBTC, pools measured in WETH
+  async function getTwoHopUniSize(size: BigNumber): Promise<BigNumber> {
+    const uniLiqPoolA = await getPairBalance(splitterSetup.uniswap, setup.dai.address, setup.weth);
+    const uniLiqPoolB = await getPairBalance(splitterSetup.uniswap, setup.wbtc.address, setup.weth);
+    const sushiLiqPoolA = await getPairBalance(splitterSetup.sushiswap, setup.dai.address, setup.weth);
+    const sushiLiqPoolB = await getPairBalance(splitterSetup.sushiswap, setup.wbtc.address, setup.weth);
+
+    const a = preciseDiv(sushiLiqPoolA.add(sushiLiqPoolB), uniLiqPoolA.add(uniLiqPoolB));
+    const b = preciseDiv(uniLiqPoolA, sushiLiqPoolA);
+    const c = preciseDiv(uniLiqPoolB, sushiLiqPoolB);
+    const ratio = preciseMul(preciseMul(a, b), c);
+
+    return preciseMul(size, preciseDiv(ratio, ratio.add(PRECISE_UNIT)));
+  }
+
+  describe("#constructor", async () => {
+    async function subject(): Promise<AMMSplitter> {
+      return await deployer.product.deployAMMSplitter(
+        splitterSetup.uniswap.router.address,
+        splitterSetup.sushiswap.router.address,
+        splitterSetup.uniswap.factory.address,
+        splitterSetup.sushiswap.factory.address
+      );
+    }
+
+    it("should set the routers and factories", async () => {
+      const splitter = await subject();
+
+      expect(await splitter.uniRouter()).to.eq(splitterSetup.uniswap.router.address);
+      expect(await splitter.sushiRouter()).to.eq(splitterSetup.sushiswap.router.address);
+      expect(await splitter.uniFactory()).to.eq(splitterSetup.uniswap.factory.address);
+      expect(await splitter.sushiFactory()).to.eq(splitterSetup.sushiswap.factory.address);
+    });
+  });
+
+  describe("#swapExactTokensForTokens", async () => {
+    let subjectAmountIn: BigNumber;
+    let subjectAmountOutMin: BigNumber;
+    let subjectPath: Address[];
+    let subjectTo: Address;
+
+    beforeEach(async () => {
+      subjectAmountIn = ether(3);
+      subjectAmountOutMin = ether(0);
+      subjectPath = [setup.weth.address, setup.dai.address];
+      subjectTo = recipient.address;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return await ammSplitter.swapExactTokensForTokens(
+        subjectAmountIn,
+        subjectAmountOutMin,
+        subjectPath,
+        subjectTo,
+        MAX_UINT_256
+      );
+    }
+
+    it("should split the input in proportion to the pools' output token balances", async () => {
+      const expectedUniSize = await getSingleHopUniSize(subjectAmountIn);
+      const expectedSushiSize = subjectAmountIn.sub(expectedUniSize);
+      const expectedUniOutput = (await splitterSetup.uniswap.router.getAmountsOut(expectedUniSize, subjectPath))[1];
+      const expectedSushiOutput = (await splitterSetup.sushiswap.router.getAmountsOut(expectedSushiSize, subjectPath))[1];
+
+      await expect(subject()).to.emit(ammSplitter, "TradeExactInputExecuted").withArgs(
+        setup.weth.address,
+        setup.dai.address,
+        recipient.address,
+        subjectAmountIn,
+        expectedUniOutput.add(expectedSushiOutput),
+        expectedUniSize,
+        expectedSushiSize
+      );
+    });
+
+    it("should send the output to the recipient", async () => {
+      const expectedOutput = (await ammSplitter.getAmountsOut(subjectAmountIn, subjectPath))[1];
+
+      await subject();
+
+      expect(await setup.dai.balanceOf(recipient.address)).to.eq(expectedOutput);
+      expect(await setup.weth.balanceOf(ammSplitter.address)).to.eq(0);
+    });
+
+    describe("when the trade has two hops", async () => {
+      beforeEach(async () => {
+        subjectAmountIn = ether(1000);
+        subjectPath = [setup.dai.address, setup.weth.address, setup.wbtc.address];
+      });
+
+      it("should split the input by the two hop ratio of the intermediate token balances", async () => {
+        const expectedUniSize = await getTwoHopUniSize(subjectAmountIn);
+        const expectedSushiSize = subjectAmountIn.sub(expectedUniSize);
+        const expectedUniOutput = (await splitterSetup.uniswap.router.getAmountsOut(expectedUniSize, subjectPath))[2];
+        const expectedSushiOutput = (await splitterSetup.sushiswap.router.getAmountsOut(expectedSushiSize, subjectPath))[2];
+
+        await expect(subject()).to.emit(ammSplitter, "TradeExactInputExecuted").withArgs(
+          setup.dai.address,
+          setup.wbtc.address,
+          recipient.address,
+          subjectAmountIn,
+          expectedUniOutput.add(expectedSushiOutput),
+          expectedUniSize,
+          expectedSushiSize
+        );
+      });
+    });
+
+    describe("when Sushiswap has no pool for the second hop", async () => {
+      beforeEach(async () => {
+        await splitterSetup.addLiquidity(
+          splitterSetup.uniswap,
+          setup.weth.address,
+          splitterSetup.uniswap.uni.address,
+          ether(100),
+          ether(20000)
+        );
+
+        subjectAmountIn = ether(230);
+        subjectPath = [setup.dai.address, setup.weth.address, splitterSetup.uniswap.uni.address];
+      });
+
+      it("should route the whole trade through Uniswap", async () => {
+        const expectedOutput = (await splitterSetup.uniswap.router.getAmountsOut(subjectAmountIn, subjectPath))[2];
+
+        await expect(subject()).to.emit(ammSplitter, "TradeExactInputExecuted").withArgs(
+          setup.dai.address,
+          splitterSetup.uniswap.uni.address,
+          recipient.address,
+          subjectAmountIn,
+          expectedOutput,
+          subjectAmountIn,
+          0
+        );
+      });
+    });
+
+    describe("when the output is below the minimum", async () => {
+      beforeEach(async () => {
+        subjectAmountOutMin = ether(690);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("AMMSplitter: INSUFFICIENT_OUTPUT_AMOUNT");
+      });
+    });
+
+    describe("when the path has more than three tokens", async () => {
+      beforeEach(async () => {
+        subjectPath = [setup.weth.address, setup.dai.address, setup.weth.address, setup.wbtc.address];
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("AMMSplitter: incorrect path length");
+      });
+    });
+  });
+
+  describe("#swapTokensForExactTokens", async () => {
+    let subjectAmountOut: BigNumber;
+    let subjectAmountInMax: BigNumber;
+    let subjectPath: Address[];
+    let subjectTo: Address;
+
+    beforeEach(async () => {
+      subjectAmountOut = ether(690);
+      subjectAmountInMax = ether(4);
+      subjectPath = [setup.weth.address, setup.dai.address];
+      subjectTo = recipient.address;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return await ammSplitter.swapTokensForExactTokens(
+        subjectAmountOut,
+        subjectAmountInMax,
+        subjectPath,
+        subjectTo,
+        MAX_UINT_256
+      );
+    }
+
+    it("should split the output in proportion to the pools' output token balances", async () => {
+      const expectedUniSize = await getSingleHopUniSize(subjectAmountOut);
+      const expectedSushiSize = subjectAmountOut.sub(expectedUniSize);
+      const expectedUniInput = (await splitterSetup.uniswap.router.getAmountsIn(expectedUniSize, subjectPath))[0];
+      const expectedSushiInput = (await splitterSetup.sushiswap.router.getAmountsIn(expectedSushiSize, subjectPath))[0];
+
+      await expect(subject()).to.emit(ammSplitter, "TradeExactOutputExecuted").withArgs(
+        setup.weth.address,
+        setup.dai.address,
+        recipient.address,
+        expectedUniInput.add(expectedSushiInput),
+        subjectAmountOut,
+        expectedUniSize,
+        expectedSushiSize
+      );
+    });
+
+    it("should pull only the quoted input and send the exact output", async () => {
+      const expectedInput = (await ammSplitter.getAmountsIn(subjectAmountOut, subjectPath))[0];
+      const previousWethBalance = await setup.weth.balanceOf(owner.address);
+
+      await subject();
+
+      expect(await setup.weth.balanceOf(owner.address)).to.eq(previousWethBalance.sub(expectedInput));
+      expect(await setup.dai.balanceOf(recipient.address)).to.eq(subjectAmountOut);
+    });
+
+    describe("when the input is above the maximum", async () => {
+      beforeEach(async () => {
+        subjectAmountInMax = ether(3);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("AMMSplitter: INSUFFICIENT_INPUT_AMOUNT");
+      });
+    });
+  });
+
+  describe("#getAmountsOut", async () => {
+    let subjectAmountIn: BigNumber;
+    let subjectPath: Address[];
+
+    beforeEach(async () => {
+      subjectAmountIn = ether(1000);
+      subjectPath = [setup.dai.address, setup.weth.address, setup.wbtc.address];
+    });
+
+    async function subject(): Promise<BigNumber[]> {
+      return await ammSplitter.getAmountsOut(subjectAmountIn, subjectPath);
+    }
+
+    it("should sum the quotes of both venues for each token in the path", async () => {
+      const uniSize = await getTwoHopUniSize(subjectAmountIn);
+      const uniAmounts = await splitterSetup.uniswap.router.getAmountsOut(uniSize, subjectPath);
+      const sushiAmounts = await splitterSetup.sushiswap.router.getAmountsOut(subjectAmountIn.sub(uniSize), subjectPath);
+
+      const amounts = await subject();
+
+      expect(amounts).to.deep.eq(uniAmounts.map((amount, i) => amount.add(sushiAmounts[i])));
+    });
+  });
+
+  describe("#getAmountsIn", async () => {
+    let subjectAmountOut: BigNumber;
+    let subjectPath: Address[];
+
+    beforeEach(async () => {
+      subjectAmountOut = ether(690);
+      subjectPath = [setup.weth.address, setup.dai.address];
+    });
+
+    async function subject(): Promise<BigNumber[]> {
+      return await ammSplitter.getAmountsIn(subjectAmountOut, subjectPath);
+    }
+
+    it("should sum the quotes of both venues for each token in the path", async () => {
+      const uniSize = await getSingleHopUniSize(subjectAmountOut);
+      const uniAmounts = await splitterSetup.uniswap.router.getAmountsIn(uniSize, subjectPath);
+      const sushiAmounts = await splitterSetup.sushiswap.router.getAmountsIn(subjectAmountOut.sub(uniSize), subjectPath);
+
+      const amounts = await subject();
+
+      expect(amounts).to.deep.eq(uniAmounts.map((amount, i) => amount.add(sushiAmounts[i])));
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { CKToken, IssuanceModule, WrapAdapterMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  getMinReceiveQuantity,
+  IssuanceQuote,
+  IssuanceQuoter,
+  preciseDiv,
+  RedemptionQuote,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getWaffleExpect,
+  loadFixtureCombination,
+} from "@utils/test/index";
+import { SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("IssuanceQuoter", () => {
+  let owner: Account;
+
+  let setup: SystemFixture;
+  let uniswapSetup: UniswapFixture;
+  let issuanceModule: IssuanceModule;
+  let wrapAdapterMock: WrapAdapterMock;
+  let ckToken: CKToken;
+  let quoter: IssuanceQuoter;
+
+  const uniswapAdapterName = "UNISWAP";
+  const wrapAdapterName = "WRAPPER";
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    const fixtures = await loadFixtureCombination(owner, { uniswap: true });
+    setup = fixtures.system;
+    uniswapSetup = fixtures.uniswap as UniswapFixture;
+
+    const deployer = new DeployHelper(owner.wallet);
+    issuanceModule = await deployer.modules.deployIssuanceModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(issuanceModule.address);
+
+    const uniswapAdapter = await deployer.adapters.deployUniswapV2ExchangeAdapterV2(uniswapSetup.router.address);
+    wrapAdapterMock = await deployer.mocks.deployWrapAdapterMock();
+    await setup.integrationRegistry.addIntegration(issuanceModule.address, uniswapAdapterName, uniswapAdapter.address);
+    await setup.integrationRegistry.addIntegration(issuanceModule.address, wrapAdapterName, wrapAdapterMock.address);
+
+    await setup.weth.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await setup.dai.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await setup.wbtc.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await uniswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.dai.address,
+      ether(100),
+      ether(23000),
+      ether(99),
+      ether(22700),
+      owner.address,
+      MAX_UINT_256
+    );
+    await uniswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.wbtc.address,
+      ether(390),
+      bitcoin(10),
+      ether(385),
+      bitcoin(9.9),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    // The wrapped component wraps WBTC, so buying it trades DAI -> WETH -> WBTC through the DAI / WETH pair again
+    ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.dai.address, wrapAdapterMock.address],
+      [ether(0.5), ether(100), ether(0.01)],
+      [issuanceModule.address]
+    );
+    await issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await issuanceModule.setExchanges(
+      [setup.weth.address, setup.dai.address, setup.wbtc.address],
+      [uniswapAdapterName, uniswapAdapterName, uniswapAdapterName]
+    );
+    await issuanceModule.setWrapAdapters([wrapAdapterMock.address], [wrapAdapterName], [setup.wbtc.address]);
+
+    await setup.dai.approve(issuanceModule.address, MAX_UINT_256);
+    quoter = new IssuanceQuoter(issuanceModule);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function issue(quote: IssuanceQuote): Promise<void> {
+    await issuanceModule.issueWithSingleToken2(
+      quote.ckToken,
+      quote.issueToken,
+      quote.issueTokenQuantity,
+      ZERO,
+      quote.weightings,
+      owner.address,
+      quote.returnDust
+    );
+  }
+
+  describe("#getDefaultWeightings", async () => {
+    let subjectCKToken: Address;
+    let subjectIssueToken: Address;
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectIssueToken = setup.dai.address;
+    });
+
+    async function subject(): Promise<BigNumber[]> {
+      return await quoter.getDefaultWeightings(subjectCKToken, subjectIssueToken);
+    }
+
+    it("should weight each component by its share of the cost of one CKToken", async () => {
+      const weightings = await subject();
+
+      const [wethCost] = await uniswapSetup.router.getAmountsIn(ether(0.5), [setup.dai.address, setup.weth.address]);
+      const daiCost = ether(100);
+      const [wbtcCost] = await uniswapSetup.router.getAmountsIn(
+        bitcoin(0.01),
+        [setup.dai.address, setup.weth.address, setup.wbtc.address]
+      );
+      const totalCost = wethCost.add(daiCost).add(wbtcCost);
+      expect(weightings).to.deep.eq([
+        preciseDiv(wethCost, totalCost),
+        preciseDiv(daiCost, totalCost),
+        preciseDiv(wbtcCost, totalCost),
+      ]);
+    });
+  });
+
+  describe("#quoteIssue", async () => {
+    let subjectCKToken: Address;
+    let subjectIssueToken: Address;
+    let subjectIssueTokenQuantity: BigNumber;
+    let subjectWeightings: BigNumber[] | undefined;
+    let subjectReturnDust: boolean | undefined;
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectIssueToken = setup.dai.address;
+      subjectIssueTokenQuantity = ether(3000);
+      subjectWeightings = undefined;
+      subjectReturnDust = undefined;
+    });
+
+    async function subject(): Promise<IssuanceQuote> {
+      return await quoter.quoteIssue(subjectCKToken, subjectIssueToken, subjectIssueTokenQuantity, {
+        weightings: subjectWeightings,
+        returnDust: subjectReturnDust,
+      });
+    }
+
+    it("should quote the CKTokens issueWithSingleToken2 mints", async () => {
+      const quote = await subject();
+
+      await issue(quote);
+
+      expect(quote.ckTokenQuantity).to.gt(ZERO);
+      expect(await ckToken.balanceOf(owner.address)).to.eq(quote.ckTokenQuantity);
+    });
+
+    it("should quote the issue token returned", async () => {
+      const quote = await subject();
+      const preIssueBalance = await setup.dai.balanceOf(owner.address);
+
+      await issue(quote);
+
+      const spent = preIssueBalance.sub(await setup.dai.balanceOf(owner.address));
+      expect(quote.issueTokenReturned).to.gt(ZERO);
+      expect(spent).to.eq(subjectIssueTokenQuantity.sub(quote.issueTokenReturned));
+    });
+
+    it("should return each component's route", async () => {
+      const quote = await subject();
+
+      const [wethQuote, daiQuote, wrappedQuote] = quote.components;
+      expect(wethQuote.exchangeName).to.eq(uniswapAdapterName);
+      expect(wethQuote.path).to.deep.eq([setup.dai.address, setup.weth.address]);
+      expect(daiQuote.exchangeName).to.be.undefined;
+      expect(daiQuote.path).to.deep.eq([]);
+      expect(wrappedQuote.path).to.deep.eq([setup.dai.address, setup.weth.address, setup.wbtc.address]);
+      expect(wrappedQuote.wrapAdapterName).to.eq(wrapAdapterName);
+      expect(wrappedQuote.underlyingToken).to.eq(setup.wbtc.address);
+      expect(wrappedQuote.componentReceived).to.eq((wrappedQuote.underlyingReceived as BigNumber).mul(10 ** 10));
+    });
+
+    it("should limit the quantity by the component that backs the fewest CKTokens", async () => {
+      const quote = await subject();
+
+      const maxIssues = quote.components.map(component => component.maxIssue);
+      const limitingQuote = quote.components.filter(component => component.component === quote.limitingComponent)[0];
+      expect(limitingQuote.maxIssue).to.eq(quote.ckTokenQuantity);
+      for (let i = 0; i < maxIssues.length; i++) {
+        expect(maxIssues[i]).to.gte(quote.ckTokenQuantity);
+      }
+    });
+
+    describe("when weightings are passed", async () => {
+      beforeEach(async () => {
+        subjectWeightings = [ether(0.5), ether(0.2), ether(0.3)];
+      });
+
+      it("should quote the CKTokens issueWithSingleToken2 mints with them", async () => {
+        const quote = await subject();
+
+        await issue(quote);
+
+        expect(quote.weightings).to.deep.eq(subjectWeightings);
+        expect(await ckToken.balanceOf(owner.address)).to.eq(quote.ckTokenQuantity);
+      });
+    });
+
+    describe("when dust is not returned", async () => {
+      beforeEach(async () => {
+        subjectReturnDust = false;
+      });
+
+      it("should keep the whole issue token quantity", async () => {
+        const quote = await subject();
+        const preIssueBalance = await setup.dai.balanceOf(owner.address);
+
+        await issue(quote);
+
+        expect(quote.issueTokenReturned).to.eq(ZERO);
+        expect(await ckToken.balanceOf(owner.address)).to.eq(quote.ckTokenQuantity);
+        expect(await setup.dai.balanceOf(owner.address)).to.eq(preIssueBalance.sub(subjectIssueTokenQuantity));
+      });
+    });
+
+    describe("when the weightings do not match the components", async () => {
+      beforeEach(async () => {
+        subjectWeightings = [ether(0.5), ether(0.5)];
+      });
+
+      it("should throw", async () => {
+        let errorMessage: string = "";
+        try {
+          await subject();
+        } catch (error) {
+          errorMessage = error.message;
+        }
+
+        expect(errorMessage).to.eq("weightings mismatch");
+      });
+    });
+
+    describe("when a trade has no Uniswap V2 pair", async () => {
+      beforeEach(async () => {
+        subjectIssueToken = setup.usdc.address;
+        subjectIssueTokenQuantity = BigNumber.from(3000 * 10 ** 6);
+        subjectWeightings = [ether(0.4), ether(0.3), ether(0.3)];
+      });
+
+      it("should throw", async () => {
+        let errorMessage: string = "";
+        try {
+          await subject();
+        } catch (error) {
+          errorMessage = error.message;
+        }
+
+        const router = uniswapSetup.router.address;
+        expect(errorMessage).to.eq(`No Uniswap V2 pair for ${setup.usdc.address} and ${setup.weth.address} on router ${router}`);
+      });
+    });
+  });
+
+  describe("#quoteRedeem", async () => {
+    let subjectCKToken: Address;
+    let subjectCKTokenQuantity: BigNumber;
+    let subjectRedeemToken: Address;
+
+    beforeEach(async () => {
+      await issue(await quoter.quoteIssue(ckToken.address, setup.dai.address, ether(3000)));
+
+      subjectCKToken = ckToken.address;
+      subjectCKTokenQuantity = ether(5);
+      subjectRedeemToken = setup.weth.address;
+    });
+
+    async function subject(): Promise<RedemptionQuote> {
+      return await quoter.quoteRedeem(subjectCKToken, subjectCKTokenQuantity, subjectRedeemToken);
+    }
+
+    it("should quote the redeem token redeemToSingleToken sends", async () => {
+      const quote = await subject();
+      const preRedeemBalance = await setup.weth.balanceOf(owner.address);
+
+      await issuanceModule.redeemToSingleToken(ckToken.address, subjectCKTokenQuantity, subjectRedeemToken, owner.address, ZERO);
+
+      expect(quote.redeemTokenQuantity).to.gt(ZERO);
+      expect(await setup.weth.balanceOf(owner.address)).to.eq(preRedeemBalance.add(quote.redeemTokenQuantity));
+    });
+
+    it("should return each component's route", async () => {
+      const quote = await subject();
+
+      const [wethQuote, daiQuote, wrappedQuote] = quote.components;
+      expect(wethQuote.path).to.deep.eq([]);
+      expect(wethQuote.redeemTokenReceived).to.eq(wethQuote.componentQuantity);
+      expect(daiQuote.path).to.deep.eq([setup.dai.address, setup.weth.address]);
+      expect(wrappedQuote.path).to.deep.eq([setup.wbtc.address, setup.weth.address]);
+      expect(wrappedQuote.componentQuantity).to.eq(ether(0.05));
+      expect(wrappedQuote.underlyingReceived).to.eq(bitcoin(0.05));
+    });
+  });
+
+  describe("#getIssueRevertReason", async () => {
+    let quote: IssuanceQuote;
+    let subjectMinCKTokenQuantity: BigNumber;
+
+    beforeEach(async () => {
+      quote = await quoter.quoteIssue(ckToken.address, setup.dai.address, ether(3000));
+      subjectMinCKTokenQuantity = quote.ckTokenQuantity;
+    });
+
+    async function subject(): Promise<string | undefined> {
+      return await quoter.getIssueRevertReason(quote, subjectMinCKTokenQuantity);
+    }
+
+    it("should not revert at the quoted quantity", async () => {
+      expect(await subject()).to.be.undefined;
+    });
+
+    describe("when the minimum is a slippage tolerance below the quote", async () => {
+      beforeEach(async () => {
+        subjectMinCKTokenQuantity = getMinReceiveQuantity(quote.ckTokenQuantity, ether(0.005));
+      });
+
+      it("should not revert", async () => {
+        expect(await subject()).to.be.undefined;
+      });
+    });
+
+    describe("when the minimum is above the quote", async () => {
+      beforeEach(async () => {
+        subjectMinCKTokenQuantity = quote.ckTokenQuantity.add(1);
+      });
+
+      it("should return the revert reason", async () => {
+        expect(await subject()).to.contain("_minCkTokenRec not met");
+      });
+    });
+  });
+
+  describe("#getRedeemRevertReason", async () => {
+    let quote: RedemptionQuote;
+    let subjectMinRedeemTokenQuantity: BigNumber;
+
+    beforeEach(async () => {
+      await issue(await quoter.quoteIssue(ckToken.address, setup.dai.address, ether(3000)));
+
+      quote = await quoter.quoteRedeem(ckToken.address, ether(5), setup.dai.address);
+      subjectMinRedeemTokenQuantity = quote.redeemTokenQuantity;
+    });
+
+    async function subject(): Promise<string | undefined> {
+      return await quoter.getRedeemRevertReason(quote, subjectMinRedeemTokenQuantity);
+    }
+
+    it("should not revert at the quoted quantity", async () => {
+      expect(await subject()).to.be.undefined;
+    });
+
+    describe("when the minimum is above the quote", async () => {
+      beforeEach(async () => {
+        subjectMinRedeemTokenQuantity = quote.redeemTokenQuantity.add(1);
+      });
+
+      it("should return the revert reason", async () => {
+        expect(await subject()).to.contain("_minRedeemTokenToRec not met");
+      });
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import "module-alias/register";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MODULE_STATE, ONE } from "@utils/constants";
+import { CKToken } from "@utils/contracts";
+import {
+  bitcoin,
+  ether,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getProtocolUtils,
+  getRandomAddress,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { labelAddress } from "@utils/test/tableUtils";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+const protocolUtils = getProtocolUtils();
+
+describe("CKToken matchers", () => {
+  let owner: Account;
+  let mockModule: Account;
+  let setup: SystemFixture;
+
+  let ckToken: CKToken;
+
+  before(async () => {
+    [
+      owner,
+      mockModule,
+    ] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    await setup.controller.addModule(mockModule.address);
+
+    ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.usdc.address],
+      [ether(1), usdc(100)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address, mockModule.address]
+    );
+
+    // Streaming fee module stays pending
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await ckToken.connect(mockModule.wallet).initializeModule();
+
+    await ckToken.connect(mockModule.wallet).addExternalPositionModule(setup.usdc.address, mockModule.address);
+    await ckToken.connect(mockModule.wallet).editExternalPositionUnit(setup.usdc.address, mockModule.address, usdc(-50));
+    await ckToken.connect(mockModule.wallet).editExternalPositionData(setup.usdc.address, mockModule.address, "0x01");
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function getFailureMessage(assertion: Promise<void>): Promise<string> {
+    try {
+      await assertion;
+    } catch (error) {
+      return error.message;
+    }
+    return "";
+  }
+
+  describe("#havePositions", async () => {
+    it("should match the positions regardless of order", async () => {
+      await expect(ckToken).to.havePositions([
+        protocolUtils.getExternalPosition(setup.usdc.address, mockModule.address, usdc(-50), "0x01"),
+        protocolUtils.getDefaultPosition(setup.usdc.address, usdc(100)),
+        protocolUtils.getDefaultPosition(setup.weth.address, ether(1)),
+      ]);
+    });
+
+    it("should match units within the tolerance", async () => {
+      await expect(ckToken).to.havePositions([
+        protocolUtils.getDefaultPosition(setup.weth.address, ether(1).add(1)),
+        protocolUtils.getDefaultPosition(setup.usdc.address, usdc(100).sub(1)),
+        protocolUtils.getExternalPosition(setup.usdc.address, mockModule.address, usdc(-50), "0x01"),
+      ], ONE);
+    });
+
+    it("should fail with a table flagging the mismatched positions", async () => {
+      const message = await getFailureMessage(expect(ckToken).to.havePositions([
+        protocolUtils.getDefaultPosition(setup.weth.address, ether(2)),
+        protocolUtils.getDefaultPosition(setup.wbtc.address, bitcoin(1)),
+        protocolUtils.getExternalPosition(setup.usdc.address, mockModule.address, usdc(-50), "0x02"),
+      ]));
+
+      expect(message).to.contain(`Expected CKToken ${ckToken.address} to have positions`);
+      expect(message).to.contain("Component     | Module        | State    | Expected Unit       | Actual Unit         | Difference");
+      expect(message).to.contain(
+        `> | ${labelAddress(setup.weth.address)} | ${labelAddress(ADDRESS_ZERO)} | Default  | ${ether(2).toString()} | ${ether(1).toString()}`
+      );
+      expect(message).to.contain(
+        `> | ${labelAddress(setup.wbtc.address)} | ${labelAddress(ADDRESS_ZERO)} | Default  | ${bitcoin(1).toString()}           | missing`
+      );
+      expect(message).to.contain(`| missing             | ${usdc(100).toString()}`);
+      expect(message).to.contain("data 0x01");
+    });
+
+    it("should support negation", async () => {
+      await expect(ckToken).to.not.havePositions([
+        protocolUtils.getDefaultPosition(setup.weth.address, ether(1)),
+      ]);
+    });
+  });
+
+  describe("#haveDefaultUnit", async () => {
+    it("should match the default position unit", async () => {
+      await expect(ckToken).to.haveDefaultUnit(setup.usdc.address, usdc(100));
+    });
+
+    it("should match a zero unit for a component that is not in the CKToken", async () => {
+      await expect(ckToken).to.haveDefaultUnit(setup.wbtc.address, bitcoin(0));
+    });
+
+    it("should match a unit within the tolerance", async () => {
+      await expect(ckToken).to.haveDefaultUnit(setup.weth.address, ether(0.99), ether(0.01));
+    });
+
+    it("should fail with the actual unit and the position table", async () => {
+      const message = await getFailureMessage(expect(ckToken).to.haveDefaultUnit(setup.weth.address, ether(0.99)));
+
+      expect(message).to.contain(`to have default unit ${ether(0.99).toString()} of ${setup.weth.address}, actual ${ether(1).toString()}`);
+      expect(message).to.contain(`${ether(0.99).toString()} | ${ether(1).toString()} | ${ether(0.01).toString()}`);
+    });
+  });
+
+  describe("#haveExternalUnit", async () => {
+    it("should match the external position unit", async () => {
+      await expect(ckToken).to.haveExternalUnit(setup.usdc.address, mockModule.address, usdc(-50));
+    });
+
+    it("should fail with the actual unit", async () => {
+      const message = await getFailureMessage(expect(ckToken).to.haveExternalUnit(setup.usdc.address, mockModule.address, usdc(-40)));
+
+      expect(message).to.contain(`actual ${usdc(-50).toString()}`);
+      expect(message).to.contain("External");
+    });
+  });
+
+  describe("#haveModuleState", async () => {
+    it("should match initialized, pending and unknown modules", async () => {
+      await expect(ckToken).to.haveModuleState(setup.issuanceModule.address, MODULE_STATE.INITIALIZED);
+      await expect(ckToken).to.haveModuleState(setup.streamingFeeModule.address, MODULE_STATE.PENDING);
+      await expect(ckToken).to.haveModuleState(await getRandomAddress(), MODULE_STATE.NONE);
+    });
+
+    it("should fail with a table of module states", async () => {
+      const message = await getFailureMessage(
+        expect(ckToken).to.haveModuleState(setup.streamingFeeModule.address, MODULE_STATE.INITIALIZED)
+      );
+
+      expect(message).to.contain(`Expected module ${setup.streamingFeeModule.address} to be INITIALIZED`);
+      expect(message).to.contain(`> | ${labelAddress(setup.streamingFeeModule.address)} | INITIALIZED    | PENDING`);
+      expect(message).to.contain(`  | ${labelAddress(setup.issuanceModule.address)} | -              | INITIALIZED`);
+    });
+  });
+});
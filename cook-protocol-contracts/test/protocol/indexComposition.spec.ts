@@ -0,0 +1,186 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account } from "@utils/test/types";
+import { Address } from "@utils/types";
+import { CKToken } from "@utils/contracts";
+import {
+  calculateIndexComposition,
+  ether,
+  getIndexComposition,
+  IndexComposition,
+  IndexWeight,
+  NavAssetInfo,
+  usdc,
+  validateIndexValuation,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("IndexComposition", () => {
+  let owner: Account;
+  let setup: SystemFixture;
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#calculateIndexComposition", async () => {
+    let subjectWeights: IndexWeight[];
+    let subjectNavPerToken: BigNumber;
+    let subjectAssets: { [component: string]: NavAssetInfo };
+    let subjectTolerance: BigNumber | undefined;
+
+    beforeEach(async () => {
+      subjectWeights = [
+        { component: setup.weth.address, weight: ether(.5) },
+        { component: setup.wbtc.address, weight: ether(.5) },
+      ];
+      subjectNavPerToken = ether(18460);
+      subjectAssets = {
+        [setup.weth.address]: { decimals: 18, price: ether(230) },
+        [setup.wbtc.address]: { decimals: 8, price: ether(9000) },
+      };
+      subjectTolerance = undefined;
+    });
+
+    function subject(): IndexComposition {
+      return calculateIndexComposition(subjectWeights, subjectNavPerToken, subjectAssets, { tolerance: subjectTolerance });
+    }
+
+    it("should return the components in weight order with their units", async () => {
+      const composition = subject();
+
+      expect(composition.components).to.deep.eq([setup.weth.address, setup.wbtc.address]);
+      expect(composition.units).to.deep.eq([ether("40.130434782608695652"), BigNumber.from(102555555)]);
+    });
+
+    it("should return the rounded down valuation", async () => {
+      const composition = subject();
+
+      expect(composition.expectedValuation.lte(subjectNavPerToken)).to.be.true;
+      expect(composition.valuationError.lte(ether(.0001))).to.be.true;
+    });
+
+    describe("when the weights do not sum to one", async () => {
+      beforeEach(async () => {
+        subjectWeights[1].weight = ether(.4);
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw("Weights must sum to 1e18, got 900000000000000000");
+      });
+    });
+
+    describe("when a weight is too small for the component decimals", async () => {
+      beforeEach(async () => {
+        subjectWeights = [
+          { component: setup.weth.address, weight: ether("0.999999999999") },
+          { component: setup.wbtc.address, weight: ether("0.000000000001") },
+        ];
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw(`Weight of ${setup.wbtc.address} is too small to be represented with 8 decimals`);
+      });
+    });
+
+    describe("when rounding moves the valuation outside the tolerance", async () => {
+      beforeEach(async () => {
+        subjectWeights = [{ component: setup.wbtc.address, weight: ether(1) }];
+        subjectNavPerToken = ether(.00015);
+        subjectTolerance = ether(.01);
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw("deviates from target NAV 150000000000000 by more than the tolerance");
+      });
+    });
+  });
+
+  describe("#getIndexComposition", async () => {
+    let subjectWeights: IndexWeight[];
+    let subjectNavPerToken: BigNumber;
+    let subjectQuoteAsset: Address | undefined;
+
+    beforeEach(async () => {
+      subjectWeights = [
+        { component: setup.weth.address, weight: ether(.5) },
+        { component: setup.wbtc.address, weight: ether(.3) },
+        { component: setup.usdc.address, weight: ether(.2) },
+      ];
+      subjectNavPerToken = ether(100);
+      subjectQuoteAsset = undefined;
+    });
+
+    async function subject(): Promise<IndexComposition> {
+      return getIndexComposition(subjectWeights, subjectNavPerToken, setup.priceOracle, subjectQuoteAsset);
+    }
+
+    it("should price components through the oracle", async () => {
+      const composition = await subject();
+
+      expect(composition.units[2]).to.eq(usdc(20));
+    });
+
+    it("should produce a CKToken valued at the CKValuer expected valuation", async () => {
+      const composition = await subject();
+
+      const ckToken: CKToken = await setup.createCKToken(composition.components, composition.units, [setup.issuanceModule.address]);
+
+      const valuation = await setup.ckValuer.calculateCKTokenValuation(ckToken.address, setup.usdc.address);
+      expect(valuation).to.eq(composition.expectedValuation);
+      expect(await validateIndexValuation(ckToken, setup.ckValuer, setup.usdc.address, subjectNavPerToken)).to.eq(valuation);
+    });
+
+    describe("when the NAV is quoted in another asset", async () => {
+      beforeEach(async () => {
+        subjectNavPerToken = ether(1);
+        subjectQuoteAsset = setup.weth.address;
+      });
+
+      it("should match the CKValuer valuation in that asset", async () => {
+        const composition = await subject();
+
+        const ckToken = await setup.createCKToken(composition.components, composition.units, [setup.issuanceModule.address]);
+
+        const valuation = await setup.ckValuer.calculateCKTokenValuation(ckToken.address, setup.weth.address);
+        expect(valuation).to.eq(composition.expectedValuation);
+        expect(composition.units[0]).to.eq(ether(.5));
+      });
+    });
+  });
+
+  describe("#validateIndexValuation", async () => {
+    let ckToken: CKToken;
+
+    beforeEach(async () => {
+      ckToken = await setup.createCKToken([setup.usdc.address], [usdc(100)], [setup.issuanceModule.address]);
+    });
+
+    it("should throw when the valuation is off target", async () => {
+      let errorMessage: string = "";
+      try {
+        await validateIndexValuation(ckToken, setup.ckValuer, setup.usdc.address, ether(101));
+      } catch (error) {
+        errorMessage = error.message;
+      }
+
+      expect(errorMessage).to.eq(
+        `CKToken ${ckToken.address} valuation ${ether(100).toString()} deviates from target NAV ${ether(101).toString()}`
+      );
+    });
+  });
+});
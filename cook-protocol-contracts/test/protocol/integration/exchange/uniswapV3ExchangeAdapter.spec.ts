@@ -0,0 +1,203 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+import { solidityPack } from "ethers/lib/utils";
+
+import { Address, Bytes } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ZERO } from "@utils/constants";
+import { UniswapV3ExchangeAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+  getLastBlockTimestamp
+} from "@utils/test/index";
+
+import { SystemFixture, UniswapV3Fixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("UniswapV3ExchangeAdapter", () => {
+  let owner: Account;
+  let mockCKToken: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  let uniswapV3ExchangeAdapter: UniswapV3ExchangeAdapter;
+
+  before(async () => {
+    [
+      owner,
+      mockCKToken,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(
+      owner,
+      setup.weth.address,
+      230,
+      setup.wbtc.address,
+      9000,
+      setup.dai.address
+    );
+
+    uniswapV3ExchangeAdapter = await deployer.adapters.deployUniswapV3ExchangeAdapter(uniswapV3Setup.swapRouter.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("constructor", async () => {
+    let subjectSwapRouter: Address;
+
+    beforeEach(async () => {
+      subjectSwapRouter = uniswapV3Setup.swapRouter.address;
+    });
+
+    async function subject(): Promise<UniswapV3ExchangeAdapter> {
+      return await deployer.adapters.deployUniswapV3ExchangeAdapter(subjectSwapRouter);
+    }
+
+    it("should have the correct SwapRouter address", async () => {
+      const deployedUniswapV3ExchangeAdapter = await subject();
+
+      const actualRouterAddress = await deployedUniswapV3ExchangeAdapter.swapRouter();
+      expect(actualRouterAddress).to.eq(uniswapV3Setup.swapRouter.address);
+    });
+  });
+
+  describe("getSpender", async () => {
+    async function subject(): Promise<any> {
+      return await uniswapV3ExchangeAdapter.getSpender();
+    }
+
+    it("should return the correct spender address", async () => {
+      const spender = await subject();
+
+      expect(spender).to.eq(uniswapV3Setup.swapRouter.address);
+    });
+  });
+
+  describe("generateDataParam", async () => {
+    let subjectPath: Address[];
+    let subjectFees: number[];
+
+    beforeEach(async () => {
+      subjectPath = [setup.wbtc.address, setup.weth.address, setup.dai.address];
+      subjectFees = [3000, 500];
+    });
+
+    async function subject(): Promise<string> {
+      return await uniswapV3ExchangeAdapter.generateDataParam(subjectPath, subjectFees);
+    }
+
+    it("should pack each token with the fee of the pool to the next token", async () => {
+      const data = await subject();
+
+      const expectedData = solidityPack(
+        ["address", "uint24", "address", "uint24", "address"],
+        [setup.wbtc.address, 3000, setup.weth.address, 500, setup.dai.address]
+      );
+      expect(data).to.eq(expectedData);
+    });
+
+    describe("when the path is a single hop", async () => {
+      beforeEach(async () => {
+        subjectPath = [setup.wbtc.address, setup.weth.address];
+        subjectFees = [3000];
+      });
+
+      it("should return the packed pool", async () => {
+        const data = await subject();
+
+        expect(data).to.eq(solidityPack(["address", "uint24", "address"], [setup.wbtc.address, 3000, setup.weth.address]));
+      });
+    });
+  });
+
+  describe("getTradeCalldata", async () => {
+    let sourceToken: Address;
+    let destinationToken: Address;
+    let sourceQuantity: BigNumber;
+    let destinationQuantity: BigNumber;
+
+    let subjectMockCKToken: Address;
+    let subjectSourceToken: Address;
+    let subjectDestinationToken: Address;
+    let subjectSourceQuantity: BigNumber;
+    let subjectMinDestinationQuantity: BigNumber;
+    let subjectData: Bytes;
+
+    beforeEach(async () => {
+      sourceToken = setup.wbtc.address;           // WBTC Address
+      sourceQuantity = BigNumber.from(100000000); // Trade 1 WBTC
+      destinationToken = setup.dai.address;       // DAI Address
+      destinationQuantity = ether(8500);          // Receive at least 8.5k DAI
+
+      subjectSourceToken = sourceToken;
+      subjectDestinationToken = destinationToken;
+      subjectMockCKToken = mockCKToken.address;
+      subjectSourceQuantity = sourceQuantity;
+      subjectMinDestinationQuantity = destinationQuantity;
+      subjectData = await uniswapV3ExchangeAdapter.generateDataParam(
+        [setup.wbtc.address, setup.weth.address, setup.dai.address],
+        [3000, 3000]
+      );
+    });
+
+    async function subject(): Promise<any> {
+      return await uniswapV3ExchangeAdapter.getTradeCalldata(
+        subjectSourceToken,
+        subjectDestinationToken,
+        subjectMockCKToken,
+        subjectSourceQuantity,
+        subjectMinDestinationQuantity,
+        subjectData,
+      );
+    }
+
+    it("should return the correct trade calldata", async () => {
+      const calldata = await subject();
+      const callTimestamp = await getLastBlockTimestamp();
+      const expectedCallData = uniswapV3Setup.swapRouter.interface.encodeFunctionData("exactInput", [{
+        path: subjectData,
+        recipient: subjectMockCKToken,
+        deadline: callTimestamp,
+        amountIn: sourceQuantity,
+        amountOutMinimum: destinationQuantity,
+      }]);
+      expect(JSON.stringify(calldata)).to.eq(JSON.stringify([uniswapV3Setup.swapRouter.address, ZERO, expectedCallData]));
+    });
+
+    describe("when the source token does not match the path", async () => {
+      beforeEach(async () => {
+        subjectSourceToken = setup.weth.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("UniswapV3ExchangeAdapter: source token path mismatch");
+      });
+    });
+
+    describe("when the destination token does not match the path", async () => {
+      beforeEach(async () => {
+        subjectDestinationToken = setup.weth.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("UniswapV3ExchangeAdapter: destination token path mismatch");
+      });
+    });
+  });
+});
@@ -10,8 +10,8 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getWaffleExpect,
-  getAaveFixture,
-  getRandomAddress
+  getRandomAddress,
+  loadFixtureCombination
 } from "@utils/test/index";
 import { AaveFixture } from "@utils/fixtures";
 
@@ -33,8 +33,7 @@ describe("AaveGovernanceAdapter", () => {
 
     deployer = new DeployHelper(owner.wallet);
 
-    aaveSetup = getAaveFixture(owner.address);
-    await aaveSetup.initialize();
+    aaveSetup = (await loadFixtureCombination(owner, { aave: true })).aave;
 
     aaveGovernanceV2Adapter = await deployer.adapters.deployAaveGovernanceV2Adapter(
       aaveSetup.aaveGovernanceV2.address,
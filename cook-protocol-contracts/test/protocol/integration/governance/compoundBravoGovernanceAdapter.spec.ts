@@ -10,8 +10,8 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getWaffleExpect,
-  getCompoundFixture,
-  getRandomAddress
+  getRandomAddress,
+  loadFixtureCombination
 } from "@utils/test/index";
 
 import { CompoundFixture } from "@utils/fixtures";
@@ -38,8 +38,7 @@ describe("CompoundBravoGovernanceAdapter", () => {
 
     deployer = new DeployHelper(owner.wallet);
 
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = (await loadFixtureCombination(owner, { compound: true })).compound;
     await compoundSetup.initializeGovernorBravo();
 
     compoundBravoGovernanceAdapter = await deployer.adapters.deployCompoundBravoGovernanceAdapter(
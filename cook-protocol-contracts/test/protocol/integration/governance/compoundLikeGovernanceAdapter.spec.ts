@@ -10,8 +10,8 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getWaffleExpect,
-  getCompoundFixture,
-  getRandomAddress
+  getRandomAddress,
+  loadFixtureCombination
 } from "@utils/test/index";
 
 import { CompoundFixture } from "@utils/fixtures";
@@ -38,8 +38,7 @@ describe("CompoundLikeGovernanceAdapter", () => {
 
     deployer = new DeployHelper(owner.wallet);
 
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = (await loadFixtureCombination(owner, { compound: true })).compound;
 
     compoundLikeGovernanceAdapter = await deployer.adapters.deployCompoundLikeGovernanceAdapter(
       compoundSetup.compoundGovernorAlpha.address,
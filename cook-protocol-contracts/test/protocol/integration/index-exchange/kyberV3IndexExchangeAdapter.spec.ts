@@ -0,0 +1,190 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, Bytes } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ZERO } from "@utils/constants";
+import { KyberV3IndexExchangeAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getKyberV3DMMFixture,
+  getWaffleExpect,
+  getLastBlockTimestamp
+} from "@utils/test/index";
+
+import { KyberV3DMMFixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("KyberV3IndexExchangeAdapter", () => {
+  let owner: Account;
+  let mockCKToken: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let kyberSetup: KyberV3DMMFixture;
+
+  let kyberV3IndexExchangeAdapter: KyberV3IndexExchangeAdapter;
+
+  before(async () => {
+    [
+      owner,
+      mockCKToken,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    kyberSetup = getKyberV3DMMFixture(owner.address);
+    await kyberSetup.initialize(
+      owner,
+      setup.weth.address,
+      setup.wbtc.address,
+      setup.dai.address
+    );
+
+    kyberV3IndexExchangeAdapter = await deployer.adapters.deployKyberV3IndexExchangeAdapter(
+      kyberSetup.dmmRouter.address,
+      kyberSetup.dmmFactory.address
+    );
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("constructor", async () => {
+    let subjectDMMRouter: Address;
+    let subjectDMMFactory: Address;
+
+    beforeEach(async () => {
+      subjectDMMRouter = kyberSetup.dmmRouter.address;
+      subjectDMMFactory = kyberSetup.dmmFactory.address;
+    });
+
+    async function subject(): Promise<KyberV3IndexExchangeAdapter> {
+      return await deployer.adapters.deployKyberV3IndexExchangeAdapter(subjectDMMRouter, subjectDMMFactory);
+    }
+
+    it("should have the correct router address", async () => {
+      const deployedKyberV3IndexExchangeAdapter = await subject();
+
+      const actualRouterAddress = await deployedKyberV3IndexExchangeAdapter.dmmRouter();
+      expect(actualRouterAddress).to.eq(kyberSetup.dmmRouter.address);
+    });
+
+    it("should have the correct factory address", async () => {
+      const deployedKyberV3IndexExchangeAdapter = await subject();
+
+      const actualFactoryAddress = await deployedKyberV3IndexExchangeAdapter.dmmFactory();
+      expect(actualFactoryAddress).to.eq(kyberSetup.dmmFactory.address);
+    });
+  });
+
+  describe("getSpender", async () => {
+    async function subject(): Promise<any> {
+      return await kyberV3IndexExchangeAdapter.getSpender();
+    }
+
+    it("should return the correct spender address", async () => {
+      const spender = await subject();
+
+      expect(spender).to.eq(kyberSetup.dmmRouter.address);
+    });
+  });
+
+  describe("getTradeCalldata", async () => {
+    let sourceToken: Address;
+    let destinationToken: Address;
+    let sourceQuantity: BigNumber;
+    let destinationQuantity: BigNumber;
+    let poolAddress: Address;
+
+    let subjectMockCKToken: Address;
+    let subjectSourceToken: Address;
+    let subjectDestinationToken: Address;
+    let subjectIsSendTokenFixed: boolean;
+    let subjectSourceQuantity: BigNumber;
+    let subjectDestinationQuantity: BigNumber;
+    let subjectData: Bytes;
+
+    beforeEach(async () => {
+      sourceToken = setup.wbtc.address;           // WBTC Address
+      sourceQuantity = BigNumber.from(100000000); // Trade 1 WBTC
+      destinationToken = setup.weth.address;      // WETH Address
+      destinationQuantity = ether(38);            // Receive at least 38 WETH
+      poolAddress = kyberSetup.wethWbtcPool.address;
+
+      subjectSourceToken = sourceToken;
+      subjectDestinationToken = destinationToken;
+      subjectMockCKToken = mockCKToken.address;
+      subjectIsSendTokenFixed = true;
+      subjectSourceQuantity = sourceQuantity;
+      subjectDestinationQuantity = destinationQuantity;
+      subjectData = poolAddress;
+    });
+
+    async function subject(): Promise<any> {
+      return await kyberV3IndexExchangeAdapter.getTradeCalldata(
+        subjectSourceToken,
+        subjectDestinationToken,
+        subjectMockCKToken,
+        subjectIsSendTokenFixed,
+        subjectSourceQuantity,
+        subjectDestinationQuantity,
+        subjectData,
+      );
+    }
+
+    describe("when the send token quantity is fixed", async () => {
+      it("should return swapExactTokensForTokens calldata", async () => {
+        const calldata = await subject();
+        const callTimestamp = await getLastBlockTimestamp();
+        const expectedCallData = kyberSetup.dmmRouter.interface.encodeFunctionData("swapExactTokensForTokens", [
+          sourceQuantity,
+          destinationQuantity,
+          [poolAddress],
+          [sourceToken, destinationToken],
+          subjectMockCKToken,
+          callTimestamp,
+        ]);
+        expect(JSON.stringify(calldata)).to.eq(JSON.stringify([kyberSetup.dmmRouter.address, ZERO, expectedCallData]));
+      });
+    });
+
+    describe("when the receive token quantity is fixed", async () => {
+      beforeEach(async () => {
+        subjectIsSendTokenFixed = false;
+      });
+
+      it("should return swapTokensForExactTokens calldata", async () => {
+        const calldata = await subject();
+        const callTimestamp = await getLastBlockTimestamp();
+        const expectedCallData = kyberSetup.dmmRouter.interface.encodeFunctionData("swapTokensForExactTokens", [
+          destinationQuantity,
+          sourceQuantity, // Source quantity is the maximum sent when the receive quantity is fixed
+          [poolAddress],
+          [sourceToken, destinationToken],
+          subjectMockCKToken,
+          callTimestamp,
+        ]);
+        expect(JSON.stringify(calldata)).to.eq(JSON.stringify([kyberSetup.dmmRouter.address, ZERO, expectedCallData]));
+      });
+    });
+
+    describe("when the pool is not a pool for the token pair", async () => {
+      beforeEach(async () => {
+        subjectData = kyberSetup.wethDaiPool.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Invalid pool address");
+      });
+    });
+  });
+});
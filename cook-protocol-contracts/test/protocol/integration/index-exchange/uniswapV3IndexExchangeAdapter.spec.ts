@@ -0,0 +1,193 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+import { solidityPack } from "ethers/lib/utils";
+
+import { Address, Bytes } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ZERO } from "@utils/constants";
+import { UniswapV3IndexExchangeAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+  getLastBlockTimestamp
+} from "@utils/test/index";
+
+import { SystemFixture, UniswapV3Fixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("UniswapV3IndexExchangeAdapter", () => {
+  let owner: Account;
+  let mockCKToken: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  let uniswapV3IndexExchangeAdapter: UniswapV3IndexExchangeAdapter;
+
+  before(async () => {
+    [
+      owner,
+      mockCKToken,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(
+      owner,
+      setup.weth.address,
+      230,
+      setup.wbtc.address,
+      9000,
+      setup.dai.address
+    );
+
+    uniswapV3IndexExchangeAdapter = await deployer.adapters.deployUniswapV3IndexExchangeAdapter(uniswapV3Setup.swapRouter.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("constructor", async () => {
+    let subjectSwapRouter: Address;
+
+    beforeEach(async () => {
+      subjectSwapRouter = uniswapV3Setup.swapRouter.address;
+    });
+
+    async function subject(): Promise<UniswapV3IndexExchangeAdapter> {
+      return await deployer.adapters.deployUniswapV3IndexExchangeAdapter(subjectSwapRouter);
+    }
+
+    it("should have the correct router address", async () => {
+      const deployedUniswapV3IndexExchangeAdapter = await subject();
+
+      const actualRouterAddress = await deployedUniswapV3IndexExchangeAdapter.router();
+      expect(actualRouterAddress).to.eq(uniswapV3Setup.swapRouter.address);
+    });
+  });
+
+  describe("getSpender", async () => {
+    async function subject(): Promise<any> {
+      return await uniswapV3IndexExchangeAdapter.getSpender();
+    }
+
+    it("should return the correct spender address", async () => {
+      const spender = await subject();
+
+      expect(spender).to.eq(uniswapV3Setup.swapRouter.address);
+    });
+  });
+
+  describe("getEncodedFeeData", async () => {
+    let subjectFee: number;
+
+    beforeEach(async () => {
+      subjectFee = 3000;
+    });
+
+    async function subject(): Promise<string> {
+      return await uniswapV3IndexExchangeAdapter.getEncodedFeeData(subjectFee);
+    }
+
+    it("should return the packed fee", async () => {
+      const data = await subject();
+
+      expect(data).to.eq(solidityPack(["uint24"], [subjectFee]));
+    });
+  });
+
+  describe("getTradeCalldata", async () => {
+    let sourceToken: Address;
+    let destinationToken: Address;
+    let sourceQuantity: BigNumber;
+    let destinationQuantity: BigNumber;
+    let fee: number;
+
+    let subjectMockCKToken: Address;
+    let subjectSourceToken: Address;
+    let subjectDestinationToken: Address;
+    let subjectIsSendTokenFixed: boolean;
+    let subjectSourceQuantity: BigNumber;
+    let subjectDestinationQuantity: BigNumber;
+    let subjectData: Bytes;
+
+    beforeEach(async () => {
+      sourceToken = setup.wbtc.address;           // WBTC Address
+      sourceQuantity = BigNumber.from(100000000); // Trade 1 WBTC
+      destinationToken = setup.weth.address;      // WETH Address
+      destinationQuantity = ether(38);            // Receive at least 38 WETH
+      fee = 3000;
+
+      subjectSourceToken = sourceToken;
+      subjectDestinationToken = destinationToken;
+      subjectMockCKToken = mockCKToken.address;
+      subjectIsSendTokenFixed = true;
+      subjectSourceQuantity = sourceQuantity;
+      subjectDestinationQuantity = destinationQuantity;
+      subjectData = await uniswapV3IndexExchangeAdapter.getEncodedFeeData(fee);
+    });
+
+    async function subject(): Promise<any> {
+      return await uniswapV3IndexExchangeAdapter.getTradeCalldata(
+        subjectSourceToken,
+        subjectDestinationToken,
+        subjectMockCKToken,
+        subjectIsSendTokenFixed,
+        subjectSourceQuantity,
+        subjectDestinationQuantity,
+        subjectData,
+      );
+    }
+
+    describe("when the send token quantity is fixed", async () => {
+      it("should return exactInputSingle calldata", async () => {
+        const calldata = await subject();
+        const callTimestamp = await getLastBlockTimestamp();
+        const expectedCallData = uniswapV3Setup.swapRouter.interface.encodeFunctionData("exactInputSingle", [{
+          tokenIn: sourceToken,
+          tokenOut: destinationToken,
+          fee,
+          recipient: subjectMockCKToken,
+          deadline: callTimestamp,
+          amountIn: sourceQuantity,
+          amountOutMinimum: destinationQuantity,
+          sqrtPriceLimitX96: ZERO,
+        }]);
+        expect(JSON.stringify(calldata)).to.eq(JSON.stringify([uniswapV3Setup.swapRouter.address, ZERO, expectedCallData]));
+      });
+    });
+
+    describe("when the receive token quantity is fixed", async () => {
+      beforeEach(async () => {
+        subjectIsSendTokenFixed = false;
+      });
+
+      it("should return exactOutputSingle calldata", async () => {
+        const calldata = await subject();
+        const callTimestamp = await getLastBlockTimestamp();
+        const expectedCallData = uniswapV3Setup.swapRouter.interface.encodeFunctionData("exactOutputSingle", [{
+          tokenIn: sourceToken,
+          tokenOut: destinationToken,
+          fee,
+          recipient: subjectMockCKToken,
+          deadline: callTimestamp,
+          amountOut: destinationQuantity, // Source quantity is the maximum sent when the receive quantity is fixed
+          amountInMaximum: sourceQuantity,
+          sqrtPriceLimitX96: ZERO,
+        }]);
+        expect(JSON.stringify(calldata)).to.eq(JSON.stringify([uniswapV3Setup.swapRouter.address, ZERO, expectedCallData]));
+      });
+    });
+  });
+});
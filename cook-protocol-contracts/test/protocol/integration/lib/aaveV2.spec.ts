@@ -0,0 +1,613 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { AaveV2, AaveV2Mock, InvokeMock, CKToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  getAccounts,
+  getSystemFixture,
+  getAaveV2Fixture,
+  getWaffleExpect,
+  addSnapshotBeforeRestoreAfterEach,
+} from "@utils/test/index";
+import { AaveV2Fixture, SystemFixture } from "@utils/fixtures";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+
+const expect = getWaffleExpect();
+
+const STABLE_RATE_MODE = BigNumber.from(1);
+const VARIABLE_RATE_MODE = BigNumber.from(2);
+
+describe("AaveV2", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+
+  let aaveV2Lib: AaveV2;
+  let aaveV2LibMock: AaveV2Mock;
+  let invokeLibMock: InvokeMock;
+  let setup: SystemFixture;
+  let aaveSetup: AaveV2Fixture;
+
+  let ckToken: CKToken;
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    aaveSetup = getAaveV2Fixture(owner.address);
+    await aaveSetup.initialize(setup.weth.address, setup.dai.address);
+
+    aaveV2Lib = await deployer.libraries.deployAaveV2();
+    aaveV2LibMock = await deployer.mocks.deployAaveV2Mock(
+      "contracts/protocol/integration/lib/AaveV2.sol:AaveV2",
+      aaveV2Lib.address
+    );
+    invokeLibMock = await deployer.mocks.deployInvokeMock();
+    await setup.controller.addModule(aaveV2LibMock.address);
+    await setup.controller.addModule(invokeLibMock.address);
+
+    // Seed the DAI reserve so the CKToken has liquidity to borrow against
+    await setup.dai.approve(aaveSetup.lendingPool.address, MAX_UINT_256);
+    await aaveSetup.lendingPool.deposit(setup.dai.address, ether(100000), owner.address, ZERO);
+
+    ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.dai.address],
+      [ether(10), ether(10000)],
+      [setup.issuanceModule.address, aaveV2LibMock.address, invokeLibMock.address]
+    );
+
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await aaveV2LibMock.initializeModuleOnCK(ckToken.address);
+    await invokeLibMock.initializeModuleOnCK(ckToken.address);
+
+    await setup.weth.approve(setup.issuanceModule.address, MAX_UINT_256);
+    await setup.dai.approve(setup.issuanceModule.address, MAX_UINT_256);
+    await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+
+    await invokeLibMock.testInvokeApprove(ckToken.address, setup.weth.address, aaveSetup.lendingPool.address, MAX_UINT_256);
+    await invokeLibMock.testInvokeApprove(ckToken.address, setup.dai.address, aaveSetup.lendingPool.address, MAX_UINT_256);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#getDepositCalldata", async () => {
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+    let subjectOnBehalfOf: Address;
+    let subjectReferralCode: number;
+
+    beforeEach(async () => {
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.weth.address;
+      subjectQuantity = ether(1);
+      subjectOnBehalfOf = ckToken.address;
+      subjectReferralCode = 0;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testGetDepositCalldata(
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+        subjectOnBehalfOf,
+        subjectReferralCode,
+      );
+    }
+
+    it("should get correct data", async () => {
+      const [target, value, calldata] = await subject();
+      const expectedCalldata = aaveSetup.lendingPool.interface.encodeFunctionData(
+        "deposit",
+        [subjectAsset, subjectQuantity, subjectOnBehalfOf, subjectReferralCode]
+      );
+
+      expect(target).to.eq(subjectLendingPool);
+      expect(value).to.eq(ZERO);
+      expect(calldata).to.eq(expectedCalldata);
+    });
+  });
+
+  describe("#invokeDeposit", async () => {
+    let subjectCKToken: Address;
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.weth.address;
+      subjectQuantity = ether(1);
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testInvokeDeposit(
+        subjectCKToken,
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+      );
+    }
+
+    it("should mint aWETH to the CKToken", async () => {
+      const previousATokenBalance = await aaveSetup.wethReserveTokens.aToken.balanceOf(ckToken.address);
+      const previousWethBalance = await setup.weth.balanceOf(ckToken.address);
+
+      await subject();
+
+      const currentATokenBalance = await aaveSetup.wethReserveTokens.aToken.balanceOf(ckToken.address);
+      const currentWethBalance = await setup.weth.balanceOf(ckToken.address);
+      expect(currentATokenBalance).to.eq(previousATokenBalance.add(subjectQuantity));
+      expect(currentWethBalance).to.eq(previousWethBalance.sub(subjectQuantity));
+    });
+
+    it("should enable the reserve as collateral on first deposit", async () => {
+      await subject();
+
+      const isUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.weth.address);
+      expect(isUsingAsCollateral).to.be.true;
+    });
+  });
+
+  describe("#getWithdrawCalldata", async () => {
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+    let subjectReceiver: Address;
+
+    beforeEach(async () => {
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.weth.address;
+      subjectQuantity = ether(1);
+      subjectReceiver = ckToken.address;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testGetWithdrawCalldata(
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+        subjectReceiver,
+      );
+    }
+
+    it("should get correct data", async () => {
+      const [target, value, calldata] = await subject();
+      const expectedCalldata = aaveSetup.lendingPool.interface.encodeFunctionData(
+        "withdraw",
+        [subjectAsset, subjectQuantity, subjectReceiver]
+      );
+
+      expect(target).to.eq(subjectLendingPool);
+      expect(value).to.eq(ZERO);
+      expect(calldata).to.eq(expectedCalldata);
+    });
+  });
+
+  describe("#invokeWithdraw", async () => {
+    let subjectCKToken: Address;
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+
+    beforeEach(async () => {
+      await aaveV2LibMock.testInvokeDeposit(ckToken.address, aaveSetup.lendingPool.address, setup.weth.address, ether(2));
+
+      subjectCKToken = ckToken.address;
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.weth.address;
+      subjectQuantity = ether(1);
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testInvokeWithdraw(
+        subjectCKToken,
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+      );
+    }
+
+    it("should burn aWETH and return WETH to the CKToken", async () => {
+      const previousATokenBalance = await aaveSetup.wethReserveTokens.aToken.balanceOf(ckToken.address);
+      const previousWethBalance = await setup.weth.balanceOf(ckToken.address);
+
+      await subject();
+
+      const currentATokenBalance = await aaveSetup.wethReserveTokens.aToken.balanceOf(ckToken.address);
+      const currentWethBalance = await setup.weth.balanceOf(ckToken.address);
+      expect(currentATokenBalance).to.eq(previousATokenBalance.sub(subjectQuantity));
+      expect(currentWethBalance).to.eq(previousWethBalance.add(subjectQuantity));
+    });
+
+    describe("when withdrawing the max uint amount", async () => {
+      beforeEach(async () => {
+        subjectQuantity = MAX_UINT_256;
+      });
+
+      it("should withdraw the entire aToken balance", async () => {
+        await subject();
+
+        const currentATokenBalance = await aaveSetup.wethReserveTokens.aToken.balanceOf(ckToken.address);
+        const currentWethBalance = await setup.weth.balanceOf(ckToken.address);
+        expect(currentATokenBalance).to.eq(ZERO);
+        expect(currentWethBalance).to.eq(ether(10));
+      });
+    });
+  });
+
+  describe("#getBorrowCalldata", async () => {
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+    let subjectInterestRateMode: BigNumber;
+    let subjectReferralCode: number;
+    let subjectOnBehalfOf: Address;
+
+    beforeEach(async () => {
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.dai.address;
+      subjectQuantity = ether(1000);
+      subjectInterestRateMode = VARIABLE_RATE_MODE;
+      subjectReferralCode = 0;
+      subjectOnBehalfOf = ckToken.address;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testGetBorrowCalldata(
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+        subjectInterestRateMode,
+        subjectReferralCode,
+        subjectOnBehalfOf,
+      );
+    }
+
+    it("should get correct data", async () => {
+      const [target, value, calldata] = await subject();
+      const expectedCalldata = aaveSetup.lendingPool.interface.encodeFunctionData(
+        "borrow",
+        [subjectAsset, subjectQuantity, subjectInterestRateMode, subjectReferralCode, subjectOnBehalfOf]
+      );
+
+      expect(target).to.eq(subjectLendingPool);
+      expect(value).to.eq(ZERO);
+      expect(calldata).to.eq(expectedCalldata);
+    });
+  });
+
+  describe("#invokeBorrow", async () => {
+    let subjectCKToken: Address;
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+    let subjectInterestRateMode: BigNumber;
+
+    beforeEach(async () => {
+      await aaveV2LibMock.testInvokeDeposit(ckToken.address, aaveSetup.lendingPool.address, setup.weth.address, ether(10));
+
+      subjectCKToken = ckToken.address;
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.dai.address;
+      subjectQuantity = ether(1000);
+      subjectInterestRateMode = VARIABLE_RATE_MODE;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testInvokeBorrow(
+        subjectCKToken,
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+        subjectInterestRateMode,
+      );
+    }
+
+    it("should mint variable debt and transfer DAI to the CKToken", async () => {
+      const previousDaiBalance = await setup.dai.balanceOf(ckToken.address);
+
+      await subject();
+
+      const currentDaiBalance = await setup.dai.balanceOf(ckToken.address);
+      const currentVariableDebt = await aaveSetup.daiReserveTokens.variableDebtToken.balanceOf(ckToken.address);
+      expect(currentDaiBalance).to.eq(previousDaiBalance.add(subjectQuantity));
+      expect(currentVariableDebt).to.eq(subjectQuantity);
+    });
+
+    describe("when borrowing at the stable rate", async () => {
+      beforeEach(async () => {
+        subjectInterestRateMode = STABLE_RATE_MODE;
+      });
+
+      it("should mint stable debt", async () => {
+        await subject();
+
+        const currentStableDebt = await aaveSetup.daiReserveTokens.stableDebtToken.balanceOf(ckToken.address);
+        const currentVariableDebt = await aaveSetup.daiReserveTokens.variableDebtToken.balanceOf(ckToken.address);
+        expect(currentStableDebt).to.eq(subjectQuantity);
+        expect(currentVariableDebt).to.eq(ZERO);
+      });
+    });
+
+    describe("when the borrow exceeds the LTV of the collateral", async () => {
+      beforeEach(async () => {
+        // 10 WETH at 80% LTV supports at most 8000 DAI
+        subjectQuantity = ether(8001);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("11");
+      });
+    });
+  });
+
+  describe("#getRepayCalldata", async () => {
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+    let subjectInterestRateMode: BigNumber;
+    let subjectOnBehalfOf: Address;
+
+    beforeEach(async () => {
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.dai.address;
+      subjectQuantity = ether(1000);
+      subjectInterestRateMode = VARIABLE_RATE_MODE;
+      subjectOnBehalfOf = ckToken.address;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testGetRepayCalldata(
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+        subjectInterestRateMode,
+        subjectOnBehalfOf,
+      );
+    }
+
+    it("should get correct data", async () => {
+      const [target, value, calldata] = await subject();
+      const expectedCalldata = aaveSetup.lendingPool.interface.encodeFunctionData(
+        "repay",
+        [subjectAsset, subjectQuantity, subjectInterestRateMode, subjectOnBehalfOf]
+      );
+
+      expect(target).to.eq(subjectLendingPool);
+      expect(value).to.eq(ZERO);
+      expect(calldata).to.eq(expectedCalldata);
+    });
+  });
+
+  describe("#invokeRepay", async () => {
+    let subjectCKToken: Address;
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectQuantity: BigNumber;
+    let subjectInterestRateMode: BigNumber;
+
+    beforeEach(async () => {
+      await aaveV2LibMock.testInvokeDeposit(ckToken.address, aaveSetup.lendingPool.address, setup.weth.address, ether(10));
+      await aaveV2LibMock.testInvokeBorrow(
+        ckToken.address,
+        aaveSetup.lendingPool.address,
+        setup.dai.address,
+        ether(1000),
+        VARIABLE_RATE_MODE
+      );
+
+      subjectCKToken = ckToken.address;
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.dai.address;
+      subjectQuantity = ether(500);
+      subjectInterestRateMode = VARIABLE_RATE_MODE;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testInvokeRepay(
+        subjectCKToken,
+        subjectLendingPool,
+        subjectAsset,
+        subjectQuantity,
+        subjectInterestRateMode,
+      );
+    }
+
+    it("should burn variable debt and pull DAI from the CKToken", async () => {
+      const previousDaiBalance = await setup.dai.balanceOf(ckToken.address);
+
+      await subject();
+
+      const currentDaiBalance = await setup.dai.balanceOf(ckToken.address);
+      const currentVariableDebt = await aaveSetup.daiReserveTokens.variableDebtToken.balanceOf(ckToken.address);
+      expect(currentDaiBalance).to.eq(previousDaiBalance.sub(subjectQuantity));
+      expect(currentVariableDebt).to.eq(ether(500));
+    });
+
+    describe("when repaying more than the debt", async () => {
+      beforeEach(async () => {
+        subjectQuantity = ether(2000);
+      });
+
+      it("should only repay the outstanding debt", async () => {
+        const previousDaiBalance = await setup.dai.balanceOf(ckToken.address);
+
+        await subject();
+
+        const currentDaiBalance = await setup.dai.balanceOf(ckToken.address);
+        const currentVariableDebt = await aaveSetup.daiReserveTokens.variableDebtToken.balanceOf(ckToken.address);
+        expect(currentDaiBalance).to.eq(previousDaiBalance.sub(ether(1000)));
+        expect(currentVariableDebt).to.eq(ZERO);
+      });
+    });
+  });
+
+  describe("#getSetUserUseReserveAsCollateralCalldata", async () => {
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectUseAsCollateral: boolean;
+
+    beforeEach(async () => {
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.weth.address;
+      subjectUseAsCollateral = false;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testGetSetUserUseReserveAsCollateralCalldata(
+        subjectLendingPool,
+        subjectAsset,
+        subjectUseAsCollateral,
+      );
+    }
+
+    it("should get correct data", async () => {
+      const [target, value, calldata] = await subject();
+      const expectedCalldata = aaveSetup.lendingPool.interface.encodeFunctionData(
+        "setUserUseReserveAsCollateral",
+        [subjectAsset, subjectUseAsCollateral]
+      );
+
+      expect(target).to.eq(subjectLendingPool);
+      expect(value).to.eq(ZERO);
+      expect(calldata).to.eq(expectedCalldata);
+    });
+  });
+
+  describe("#invokeSetUserUseReserveAsCollateral", async () => {
+    let subjectCKToken: Address;
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectUseAsCollateral: boolean;
+
+    beforeEach(async () => {
+      await aaveV2LibMock.testInvokeDeposit(ckToken.address, aaveSetup.lendingPool.address, setup.weth.address, ether(1));
+
+      subjectCKToken = ckToken.address;
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.weth.address;
+      subjectUseAsCollateral = false;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testInvokeSetUserUseReserveAsCollateral(
+        subjectCKToken,
+        subjectLendingPool,
+        subjectAsset,
+        subjectUseAsCollateral,
+      );
+    }
+
+    it("should disable the reserve as collateral", async () => {
+      await subject();
+
+      const isUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.weth.address);
+      expect(isUsingAsCollateral).to.be.false;
+    });
+
+    describe("when the CKToken holds no aTokens of the reserve", async () => {
+      beforeEach(async () => {
+        subjectAsset = setup.dai.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("19");
+      });
+    });
+  });
+
+  describe("#getSwapBorrowRateModeCalldata", async () => {
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectRateMode: BigNumber;
+
+    beforeEach(async () => {
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.dai.address;
+      subjectRateMode = VARIABLE_RATE_MODE;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testGetSwapBorrowRateModeCalldata(
+        subjectLendingPool,
+        subjectAsset,
+        subjectRateMode,
+      );
+    }
+
+    it("should get correct data", async () => {
+      const [target, value, calldata] = await subject();
+      const expectedCalldata = aaveSetup.lendingPool.interface.encodeFunctionData(
+        "swapBorrowRateMode",
+        [subjectAsset, subjectRateMode]
+      );
+
+      expect(target).to.eq(subjectLendingPool);
+      expect(value).to.eq(ZERO);
+      expect(calldata).to.eq(expectedCalldata);
+    });
+  });
+
+  describe("#invokeSwapBorrowRateMode", async () => {
+    let subjectCKToken: Address;
+    let subjectLendingPool: Address;
+    let subjectAsset: Address;
+    let subjectRateMode: BigNumber;
+
+    beforeEach(async () => {
+      await aaveV2LibMock.testInvokeDeposit(ckToken.address, aaveSetup.lendingPool.address, setup.weth.address, ether(10));
+      await aaveV2LibMock.testInvokeBorrow(
+        ckToken.address,
+        aaveSetup.lendingPool.address,
+        setup.dai.address,
+        ether(1000),
+        VARIABLE_RATE_MODE
+      );
+
+      subjectCKToken = ckToken.address;
+      subjectLendingPool = aaveSetup.lendingPool.address;
+      subjectAsset = setup.dai.address;
+      subjectRateMode = VARIABLE_RATE_MODE;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveV2LibMock.testInvokeSwapBorrowRateMode(
+        subjectCKToken,
+        subjectLendingPool,
+        subjectAsset,
+        subjectRateMode,
+      );
+    }
+
+    it("should move the variable debt to the stable rate", async () => {
+      await subject();
+
+      const currentStableDebt = await aaveSetup.daiReserveTokens.stableDebtToken.balanceOf(ckToken.address);
+      const currentVariableDebt = await aaveSetup.daiReserveTokens.variableDebtToken.balanceOf(ckToken.address);
+      expect(currentStableDebt).to.eq(ether(1000));
+      expect(currentVariableDebt).to.eq(ZERO);
+    });
+
+    describe("when there is no debt in the swapped rate mode", async () => {
+      beforeEach(async () => {
+        subjectRateMode = STABLE_RATE_MODE;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("17");
+      });
+    });
+  });
+});
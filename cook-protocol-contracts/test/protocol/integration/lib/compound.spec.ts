@@ -13,11 +13,10 @@ import {
 } from "@utils/index";
 import {
   getAccounts,
-  getSystemFixture,
-  getCompoundFixture,
   getEthBalance,
   getWaffleExpect,
   addSnapshotBeforeRestoreAfterEach,
+  loadFixtureCombination,
 } from "@utils/test/index";
 import { CompoundFixture, SystemFixture } from "@utils/fixtures";
 import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
@@ -44,8 +43,8 @@ describe("Compound", () => {
     ] = await getAccounts();
 
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
 
     compoundLib = await deployer.libraries.deployCompound();
     compoundLibMock = await deployer.mocks.deployCompoundMock(
@@ -56,8 +55,7 @@ describe("Compound", () => {
     await setup.controller.addModule(compoundLibMock.address);
     await setup.controller.addModule(invokeLibMock.address);
 
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
 
     cEther = await compoundSetup.createAndEnableCEther(
       ether(200000000),
@@ -0,0 +1,129 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ChainlinkAggregatorMock, ChainlinkOracleAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getLastBlockTimestamp,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("ChainlinkOracleAdapter", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+
+  let aggregator: ChainlinkAggregatorMock;
+  let chainlinkOracleAdapter: ChainlinkOracleAdapter;
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    // 8 decimal ETH / USD feed answering $230
+    aggregator = await deployer.mocks.deployChainlinkAggregatorMock(BigNumber.from(23000000000), 8, "ETH / USD");
+    chainlinkOracleAdapter = await deployer.oracles.deployChainlinkOracleAdapter(aggregator.address, 10);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#constructor", async () => {
+    let subjectAggregator: Address;
+    let subjectPriceMultiplierDecimals: number;
+
+    beforeEach(async () => {
+      subjectAggregator = aggregator.address;
+      subjectPriceMultiplierDecimals = 10;
+    });
+
+    async function subject(): Promise<ChainlinkOracleAdapter> {
+      return deployer.oracles.deployChainlinkOracleAdapter(subjectAggregator, subjectPriceMultiplierDecimals);
+    }
+
+    it("should set the correct oracle address", async () => {
+      const deployedAdapter = await subject();
+
+      const actualOracle = await deployedAdapter.oracle();
+      expect(actualOracle).to.eq(subjectAggregator);
+    });
+
+    it("should set the correct price multiplier", async () => {
+      const deployedAdapter = await subject();
+
+      const actualPriceMultiplier = await deployedAdapter.priceMultiplier();
+      expect(actualPriceMultiplier).to.eq(BigNumber.from(10).pow(10));
+    });
+  });
+
+  describe("#read", async () => {
+    async function subject(): Promise<BigNumber> {
+      return chainlinkOracleAdapter.read();
+    }
+
+    it("should return the answer scaled to 18 decimals", async () => {
+      const price = await subject();
+
+      expect(price).to.eq(ether(230));
+    });
+
+    describe("when a new round is answered", async () => {
+      beforeEach(async () => {
+        await aggregator.updateAnswer(BigNumber.from(25012345678));
+      });
+
+      it("should return the latest answer", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(250.12345678));
+      });
+    });
+
+    describe("when the aggregator answers with 18 decimals", async () => {
+      let eighteenDecimalAggregator: ChainlinkAggregatorMock;
+
+      beforeEach(async () => {
+        eighteenDecimalAggregator = await deployer.mocks.deployChainlinkAggregatorMock(ether(230), 18, "ETH / USD");
+      });
+
+      it("should return the answer unscaled when the multiplier decimals are 0", async () => {
+        const adapter = await deployer.oracles.deployChainlinkOracleAdapter(eighteenDecimalAggregator.address, 0);
+
+        const price = await adapter.read();
+        expect(price).to.eq(ether(230));
+      });
+
+      it("should overstate the price when the multiplier assumes 8 decimals", async () => {
+        const adapter = await deployer.oracles.deployChainlinkOracleAdapter(eighteenDecimalAggregator.address, 10);
+
+        const price = await adapter.read();
+        expect(price).to.eq(ether(230).mul(BigNumber.from(10).pow(10)));
+      });
+    });
+
+    describe("when the latest round is stale", async () => {
+      beforeEach(async () => {
+        const staleTimestamp = (await getLastBlockTimestamp()).sub(86400);
+        const latestRound = await aggregator.latestRound();
+
+        await aggregator.updateRoundData(latestRound.add(1), BigNumber.from(10000000000), staleTimestamp, staleTimestamp, latestRound);
+      });
+
+      it("should return the stale answer", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(100));
+      });
+    });
+  });
+});
@@ -13,7 +13,7 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getWaffleExpect,
-  getAaveFixture
+  loadFixtureCombination
 } from "@utils/test/index";
 
 import { AaveFixture } from "@utils/fixtures";
@@ -38,8 +38,7 @@ describe("AaveMigrationWrapAdapter", () => {
 
     deployer = new DeployHelper(owner.wallet);
 
-    aaveSetup = getAaveFixture(owner.address);
-    await aaveSetup.initialize();
+    aaveSetup = (await loadFixtureCombination(owner, { aave: true })).aave;
 
     // Note: In production, the spender is the
     aaveMigrationWrapAdapter = await deployer.adapters.deployAaveMigrationWrapAdapter(
@@ -12,9 +12,8 @@ import { ether } from "@utils/index";
 import {
   addSnapshotBeforeRestoreAfterEach,
   getAccounts,
-  getSystemFixture,
-  getCompoundFixture,
   getWaffleExpect,
+  loadFixtureCombination,
 } from "@utils/test/index";
 
 const expect = getWaffleExpect();
@@ -34,11 +33,10 @@ describe("CompoundWrapAdapter", () => {
     ] = await getAccounts();
 
     deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
 
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
 
     cEther = await compoundSetup.createAndEnableCEther(
       ether(200000000),
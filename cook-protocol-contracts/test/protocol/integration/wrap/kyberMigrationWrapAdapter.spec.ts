@@ -0,0 +1,156 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+import { Interface } from "ethers/lib/utils";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ZERO } from "@utils/constants";
+import { KyberMigrationWrapAdapter } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+
+const expect = getWaffleExpect();
+
+describe("KyberMigrationWrapAdapter", () => {
+  let owner: Account;
+  let kncLegacyToken: Account;
+  let kncToken: Account;
+  let mockOtherUnderlyingToken: Account;
+  let mockOtherWrappedToken: Account;
+  let deployer: DeployHelper;
+  let kyberMigrationWrapAdapter: KyberMigrationWrapAdapter;
+
+  before(async () => {
+    [
+      owner,
+      kncLegacyToken,
+      kncToken,
+      mockOtherUnderlyingToken,
+      mockOtherWrappedToken,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    kyberMigrationWrapAdapter = await deployer.adapters.deployKyberMigrationWrapAdapter(
+      kncLegacyToken.address,
+      kncToken.address
+    );
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#constructor", async () => {
+    let subjectKncLegacyToken: Address;
+    let subjectKncToken: Address;
+
+    beforeEach(async () => {
+      subjectKncLegacyToken = kncLegacyToken.address;
+      subjectKncToken = kncToken.address;
+    });
+
+    async function subject(): Promise<any> {
+      return deployer.adapters.deployKyberMigrationWrapAdapter(subjectKncLegacyToken, subjectKncToken);
+    }
+
+    it("should have the correct KNC Legacy token address", async () => {
+      const deployedKyberMigrationWrapAdapter = await subject();
+
+      const actualKncLegacyToken = await deployedKyberMigrationWrapAdapter.kncLegacyToken();
+      expect(actualKncLegacyToken).to.eq(subjectKncLegacyToken);
+    });
+
+    it("should have the correct KNC token address", async () => {
+      const deployedKyberMigrationWrapAdapter = await subject();
+
+      const actualKncToken = await deployedKyberMigrationWrapAdapter.kncToken();
+      expect(actualKncToken).to.eq(subjectKncToken);
+    });
+  });
+
+  describe("#getSpenderAddress", async () => {
+    async function subject(): Promise<any> {
+      return kyberMigrationWrapAdapter.getSpenderAddress(kncLegacyToken.address, kncToken.address);
+    }
+
+    it("should return the KNC token as spender", async () => {
+      const spender = await subject();
+
+      expect(spender).to.eq(kncToken.address);
+    });
+  });
+
+  describe("#getWrapCallData", async () => {
+    let subjectUnderlyingToken: Address;
+    let subjectWrappedToken: Address;
+    let subjectUnderlyingUnits: BigNumber;
+
+    beforeEach(async () => {
+      subjectUnderlyingToken = kncLegacyToken.address;
+      subjectWrappedToken = kncToken.address;
+      subjectUnderlyingUnits = ether(2);
+    });
+
+    async function subject(): Promise<any> {
+      return kyberMigrationWrapAdapter.getWrapCallData(subjectUnderlyingToken, subjectWrappedToken, subjectUnderlyingUnits);
+    }
+
+    it("should return correct data for valid pair", async () => {
+      const [targetAddress, ethValue, callData] = await subject();
+
+      const kncInterface = new Interface(["function mintWithOldKnc(uint256 amount)"]);
+      const expectedCallData = kncInterface.encodeFunctionData("mintWithOldKnc", [subjectUnderlyingUnits]);
+
+      expect(targetAddress).to.eq(kncToken.address);
+      expect(ethValue).to.eq(ZERO);
+      expect(callData).to.eq(expectedCallData);
+    });
+
+    describe("when underlying asset is not KNC Legacy token", () => {
+      beforeEach(async () => {
+        subjectUnderlyingToken = mockOtherUnderlyingToken.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be KNC Legacy token");
+      });
+    });
+
+    describe("when wrapped asset is not KNC token", () => {
+      beforeEach(async () => {
+        subjectWrappedToken = mockOtherWrappedToken.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be KNC token");
+      });
+    });
+  });
+
+  describe("#getUnwrapCallData", async () => {
+    let subjectUnderlyingToken: Address;
+    let subjectWrappedToken: Address;
+    let subjectWrappedTokenUnits: BigNumber;
+
+    beforeEach(async () => {
+      subjectUnderlyingToken = kncLegacyToken.address;
+      subjectWrappedToken = kncToken.address;
+      subjectWrappedTokenUnits = ether(2);
+    });
+
+    async function subject(): Promise<any> {
+      return kyberMigrationWrapAdapter.getUnwrapCallData(subjectUnderlyingToken, subjectWrappedToken, subjectWrappedTokenUnits);
+    }
+
+    it("should revert", async () => {
+      await expect(subject()).to.be.revertedWith("KNC migration cannot be reversed");
+    });
+  });
+});
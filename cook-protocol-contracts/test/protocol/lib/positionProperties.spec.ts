@@ -0,0 +1,184 @@
+import "module-alias/register";
+import * as fc from "fast-check";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { PositionMock, CKToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  calculateDefaultEditPositionUnit,
+  convertRealToVirtualUnit,
+  convertVirtualToRealUnit,
+  ether,
+  getDefaultPositionUnit,
+  getDefaultTotalNotional,
+  preciseMul,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAddress,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import {
+  expectParity,
+  fitsInt256,
+  fitsUint256,
+  int256Arbitrary,
+  intNArbitrary,
+  PROPERTY_RUNS,
+  uint256Arbitrary,
+  uintNArbitrary,
+} from "@utils/test/propertyUtils";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { PRECISE_UNIT, ZERO } from "@utils/constants";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("Position properties", () => {
+  let owner: Account, moduleOne: Account;
+  let ckToken: CKToken;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let positionLibMock: PositionMock;
+
+  before(async () => {
+    [
+      owner,
+      moduleOne,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    positionLibMock = await deployer.mocks.deployPositionMock();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#getDefaultTotalNotional", async () => {
+    it("matches the TypeScript mirror", async () => {
+      await fc.assert(fc.asyncProperty(uintNArbitrary(128), uint256Arbitrary(), async (supply: BigNumber, unit: BigNumber) => {
+        const expected = fitsUint256(supply.mul(unit)) ? getDefaultTotalNotional(supply, unit) : undefined;
+
+        await expectParity(() => positionLibMock.testGetDefaultTotalNotional(supply, unit), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#getDefaultPositionUnit", async () => {
+    it("matches the TypeScript mirror", async () => {
+      await fc.assert(fc.asyncProperty(uintNArbitrary(128), uint256Arbitrary(), async (supply: BigNumber, notional: BigNumber) => {
+        const isValid = !supply.isZero() && fitsUint256(notional.mul(PRECISE_UNIT));
+        const expected = isValid ? getDefaultPositionUnit(supply, notional) : undefined;
+
+        await expectParity(() => positionLibMock.testGetDefaultPositionUnit(supply, notional), expected);
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("#calculateDefaultEditPositionUnit", async () => {
+    // The pre action notional is the tracked balance plus a signed airdrop so both airdropped and under-collateralized
+    // components are covered
+    it("matches the TypeScript mirror, reverting when balances fall below the tracked notional", async () => {
+      await fc.assert(fc.asyncProperty(
+        uintNArbitrary(128),
+        uintNArbitrary(96),
+        intNArbitrary(96),
+        uintNArbitrary(160),
+        async (supply: BigNumber, prePositionUnit: BigNumber, airdrop: BigNumber, postTotalNotional: BigNumber) => {
+          const trackedNotional = preciseMul(prePositionUnit, supply);
+          const preTotalNotional = trackedNotional.add(airdrop).lt(0) ? ZERO : trackedNotional.add(airdrop);
+
+          const airdroppedAmount = preTotalNotional.sub(trackedNotional);
+          const isValid = !supply.isZero() && airdroppedAmount.gte(0) && postTotalNotional.gte(airdroppedAmount);
+          const expected = isValid
+            ? calculateDefaultEditPositionUnit(supply, preTotalNotional, postTotalNotional, prePositionUnit)
+            : undefined;
+
+          await expectParity(
+            () => positionLibMock.testCalculateDefaultEditPositionUnit(supply, preTotalNotional, postTotalNotional, prePositionUnit),
+            expected
+          );
+        }
+      ), { numRuns: PROPERTY_RUNS });
+    });
+  });
+
+  describe("real and virtual unit conversions", async () => {
+    // Anchors the minimum virtual unit so any multiplier up to 2^128 passes the CKToken's multiplier validation
+    const anchorVirtualUnit = ether(1).mul(PRECISE_UNIT);
+
+    let anchorComponent: Address;
+    let editedComponent: Address;
+
+    const multiplierArbitrary = (): fc.Arbitrary<BigNumber> => {
+      return fc.oneof(
+        fc.constantFrom(BigNumber.from(1), BigNumber.from(2), PRECISE_UNIT.sub(1), PRECISE_UNIT, PRECISE_UNIT.add(1)),
+        uintNArbitrary(32),
+        uintNArbitrary(64),
+        uintNArbitrary(128)
+      ).filter(multiplier => multiplier.gt(0));
+    };
+
+    beforeEach(async () => {
+      await setup.controller.addModule(moduleOne.address);
+
+      anchorComponent = await getRandomAddress();
+      editedComponent = await getRandomAddress();
+
+      ckToken = await setup.createCKToken(
+        [anchorComponent, editedComponent],
+        [anchorVirtualUnit, ether(1)],
+        [moduleOne.address]
+      );
+
+      ckToken = ckToken.connect(moduleOne.wallet);
+      await ckToken.initializeModule();
+    });
+
+    it("stores and reads back units exactly as the TypeScript mirrors predict", async () => {
+      await fc.assert(fc.asyncProperty(multiplierArbitrary(), int256Arbitrary(), async (multiplier: BigNumber, realUnit: BigNumber) => {
+        // Clear the edited position so it does not constrain the new multiplier
+        await ckToken.editDefaultPositionUnit(editedComponent, ZERO);
+        await ckToken.editPositionMultiplier(multiplier);
+
+        let virtualUnit: BigNumber | undefined;
+        if (fitsInt256(realUnit.mul(PRECISE_UNIT))) {
+          virtualUnit = convertRealToVirtualUnit(realUnit, multiplier);
+
+          const isRoundedToZero = realUnit.gt(0) &&
+            (virtualUnit.isZero() || convertVirtualToRealUnit(virtualUnit, multiplier).isZero());
+          if (isRoundedToZero) {
+            virtualUnit = undefined;
+          }
+        }
+
+        if (virtualUnit === undefined) {
+          await expect(ckToken.editDefaultPositionUnit(editedComponent, realUnit)).to.be.reverted;
+          return;
+        }
+
+        await ckToken.editDefaultPositionUnit(editedComponent, realUnit);
+
+        const expectedRealUnit = fitsInt256(virtualUnit.mul(multiplier))
+          ? convertVirtualToRealUnit(virtualUnit, multiplier)
+          : undefined;
+        await expectParity(() => ckToken.getDefaultPositionRealUnit(editedComponent), expectedRealUnit);
+        expect(await ckToken.getDefaultPositionRealUnit(anchorComponent)).to.eq(
+          convertVirtualToRealUnit(anchorVirtualUnit, multiplier)
+        );
+
+        // Conservative rounding never reads back more than was stored
+        if (expectedRealUnit !== undefined) {
+          expect(expectedRealUnit).to.be.lte(realUnit);
+        }
+      }), { numRuns: PROPERTY_RUNS });
+    });
+  });
+});
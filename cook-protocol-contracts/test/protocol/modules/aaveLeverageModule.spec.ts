@@ -0,0 +1,3174 @@
+import "module-alias/register";
+import Web3 from "web3";
+import { Address, Bytes } from "@utils/types";
+import { Account } from "@utils/test/types";
+import {
+  AaveLeverageModule,
+  AaveV2,
+  AaveV2ATokenMock,
+  AaveV2VariableDebtTokenMock,
+  DebtIssuanceMock,
+  DebtIssuanceModule,
+  OneInchExchangeAdapter,
+  OneInchExchangeMock,
+  CKToken
+} from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+  preciseMul
+} from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAccounts,
+  getWaffleExpect,
+  getSystemFixture,
+  getAaveV2Fixture,
+  getRandomAccount,
+  getRandomAddress
+} from "@utils/test/index";
+import { AaveV2Fixture, AaveV2ReserveTokens, SystemFixture } from "@utils/fixtures";
+import { BigNumber } from "@ethersproject/bignumber";
+import { ADDRESS_ZERO, ZERO, EMPTY_BYTES, MAX_UINT_256 } from "@utils/constants";
+
+const expect = getWaffleExpect();
+const web3 = new Web3();
+
+describe("AaveLeverageModule", () => {
+  let owner: Account;
+  let mockModule: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let aaveSetup: AaveV2Fixture;
+
+  let aaveV2Library: AaveV2;
+  let aaveLeverageModule: AaveLeverageModule;
+  let debtIssuanceMock: DebtIssuanceMock;
+  let aWETH: AaveV2ATokenMock;
+  let aDAI: AaveV2ATokenMock;
+  let variableDebtWETH: AaveV2VariableDebtTokenMock;
+  let variableDebtDAI: AaveV2VariableDebtTokenMock;
+
+  let oneInchFunctionSignature: Bytes;
+  let oneInchExchangeMockToWeth: OneInchExchangeMock;
+  let oneInchExchangeMockFromWeth: OneInchExchangeMock;
+  let oneInchExchangeMockWithSlippage: OneInchExchangeMock;
+
+  let oneInchExchangeAdapterToWeth: OneInchExchangeAdapter;
+  let oneInchExchangeAdapterFromWeth: OneInchExchangeAdapter;
+
+  cacheBeforeEach(async () => {
+    [
+      owner,
+      mockModule,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    // 1 ETH = 1000 DAI on the Aave price oracle
+    aaveSetup = getAaveV2Fixture(owner.address);
+    await aaveSetup.initialize(setup.weth.address, setup.dai.address);
+
+    aWETH = aaveSetup.wethReserveTokens.aToken;
+    aDAI = aaveSetup.daiReserveTokens.aToken;
+    variableDebtWETH = aaveSetup.wethReserveTokens.variableDebtToken;
+    variableDebtDAI = aaveSetup.daiReserveTokens.variableDebtToken;
+
+    // Seed the lending pool with liquidity. Owner receives aWETH used to issue CKTokens
+    await setup.weth.approve(aaveSetup.lendingPool.address, MAX_UINT_256);
+    await aaveSetup.lendingPool.deposit(setup.weth.address, ether(1000), owner.address, ZERO);
+    await setup.dai.approve(aaveSetup.lendingPool.address, MAX_UINT_256);
+    await aaveSetup.lendingPool.deposit(setup.dai.address, ether(100000), owner.address, ZERO);
+
+    debtIssuanceMock = await deployer.mocks.deployDebtIssuanceMock();
+    await setup.controller.addModule(debtIssuanceMock.address);
+
+    aaveV2Library = await deployer.libraries.deployAaveV2();
+    aaveLeverageModule = await deployer.modules.deployAaveLeverageModule(
+      setup.controller.address,
+      aaveSetup.lendingPoolAddressesProvider.address,
+      "contracts/protocol/integration/lib/AaveV2.sol:AaveV2",
+      aaveV2Library.address,
+    );
+    await setup.controller.addModule(aaveLeverageModule.address);
+
+    // Deploy 1inch mock contracts
+
+    // 1inch function signature
+    oneInchFunctionSignature = web3.eth.abi.encodeFunctionSignature(
+      "swap(address,address,uint256,uint256,uint256,address,address[],bytes,uint256[],uint256[])"
+    );
+
+    // Mock OneInch exchange that allows for fixed exchange amounts. So we need to setup separate exchange adapters
+    oneInchExchangeMockToWeth = await deployer.mocks.deployOneInchExchangeMock(
+      setup.dai.address,
+      setup.weth.address,
+      ether(1000), // 1000 DAI
+      ether(1), // Trades for 1 WETH
+    );
+    oneInchExchangeAdapterToWeth = await deployer.adapters.deployOneInchExchangeAdapter(
+      oneInchExchangeMockToWeth.address,
+      oneInchExchangeMockToWeth.address,
+      oneInchFunctionSignature
+    );
+
+    await setup.integrationRegistry.addIntegration(
+      aaveLeverageModule.address,
+      "ONEINCHTOWETH",
+      oneInchExchangeAdapterToWeth.address
+    );
+
+    oneInchExchangeMockFromWeth = await deployer.mocks.deployOneInchExchangeMock(
+      setup.weth.address,
+      setup.dai.address,
+      ether(1), // 1 WETH
+      ether(1000), // Trades for 1000 DAI
+    );
+    oneInchExchangeAdapterFromWeth = await deployer.adapters.deployOneInchExchangeAdapter(
+      oneInchExchangeMockFromWeth.address,
+      oneInchExchangeMockFromWeth.address,
+      oneInchFunctionSignature
+    );
+
+    await setup.integrationRegistry.addIntegration(
+      aaveLeverageModule.address,
+      "ONEINCHFROMWETH",
+      oneInchExchangeAdapterFromWeth.address
+    );
+
+    // Setup Mock 1inch exchange that does not return sufficient units to satisfy slippage requirement
+    oneInchExchangeMockWithSlippage = await deployer.mocks.deployOneInchExchangeMock(
+      setup.dai.address,
+      setup.weth.address,
+      ether(1000), // 1000 DAI
+      ether(0.9), // Trades for 0.9 WETH
+    );
+    const oneInchExchangeAdapterWithSlippage = await deployer.adapters.deployOneInchExchangeAdapter(
+      oneInchExchangeMockWithSlippage.address,
+      oneInchExchangeMockWithSlippage.address,
+      oneInchFunctionSignature
+    );
+
+    await setup.integrationRegistry.addIntegration(
+      aaveLeverageModule.address,
+      "ONEINCHSLIPPAGE",
+      oneInchExchangeAdapterWithSlippage.address
+    );
+
+    // Add debt issuance address to integration
+    await setup.integrationRegistry.addIntegration(
+      aaveLeverageModule.address,
+      "DefaultIssuanceModule",
+      debtIssuanceMock.address
+    );
+  });
+
+  const leverCKTokenToWeth = async (ckToken: CKToken): Promise<void> => {
+    // Add CK token as token sender / recipient
+    await oneInchExchangeMockToWeth.addCKTokenAddress(ckToken.address);
+
+    // Fund One Inch exchange with destinationToken WETH
+    await setup.weth.transfer(oneInchExchangeMockToWeth.address, ether(10));
+
+    const leverTradeData = oneInchExchangeMockToWeth.interface.encodeFunctionData("swap", [
+      setup.dai.address, // Send token
+      setup.weth.address, // Receive token
+      ether(1000), // Send quantity
+      ether(1), // Min receive quantity
+      ZERO,
+      ADDRESS_ZERO,
+      [ADDRESS_ZERO],
+      EMPTY_BYTES,
+      [ZERO],
+      [ZERO],
+    ]);
+
+    await aaveLeverageModule.lever(
+      ckToken.address,
+      setup.dai.address,
+      setup.weth.address,
+      ether(1000),
+      ether(1),
+      "ONEINCHTOWETH",
+      leverTradeData
+    );
+  };
+
+  describe("#constructor", async () => {
+    let subjectController: Address;
+    let subjectLendingPoolAddressesProvider: Address;
+
+    beforeEach(async () => {
+      subjectController = setup.controller.address;
+      subjectLendingPoolAddressesProvider = aaveSetup.lendingPoolAddressesProvider.address;
+    });
+
+    async function subject(): Promise<AaveLeverageModule> {
+      return deployer.modules.deployAaveLeverageModule(
+        subjectController,
+        subjectLendingPoolAddressesProvider,
+        "contracts/protocol/integration/lib/AaveV2.sol:AaveV2",
+        aaveV2Library.address,
+      );
+    }
+
+    it("should set the correct controller", async () => {
+      const aaveLeverageModule = await subject();
+
+      const controller = await aaveLeverageModule.controller();
+      expect(controller).to.eq(subjectController);
+    });
+
+    it("should set the correct lending pool addresses provider", async () => {
+      const aaveLeverageModule = await subject();
+
+      const lendingPoolAddressesProvider = await aaveLeverageModule.lendingPoolAddressesProvider();
+      expect(lendingPoolAddressesProvider).to.eq(subjectLendingPoolAddressesProvider);
+    });
+
+    it("should set the correct protocol data provider", async () => {
+      const aaveLeverageModule = await subject();
+
+      const protocolDataProvider = await aaveLeverageModule.protocolDataProvider();
+      expect(protocolDataProvider).to.eq(aaveSetup.protocolDataProvider.address);
+    });
+
+    it("should set the correct underlying to reserve tokens mappings", async () => {
+      const aaveLeverageModule = await subject();
+
+      const wethReserveTokens = await aaveLeverageModule.underlyingToReserveTokens(setup.weth.address);
+      const daiReserveTokens = await aaveLeverageModule.underlyingToReserveTokens(setup.dai.address);
+
+      expect(wethReserveTokens.aToken).to.eq(aWETH.address);
+      expect(wethReserveTokens.variableDebtToken).to.eq(variableDebtWETH.address);
+      expect(daiReserveTokens.aToken).to.eq(aDAI.address);
+      expect(daiReserveTokens.variableDebtToken).to.eq(variableDebtDAI.address);
+    });
+  });
+
+  describe("#initialize", async () => {
+    let ckToken: CKToken;
+    let isAllowlisted: boolean;
+    let subjectCKToken: Address;
+    let subjectCollateralAssets: Address[];
+    let subjectBorrowAssets: Address[];
+    let subjectCaller: Account;
+
+    const initializeContracts = async () => {
+      ckToken = await setup.createCKToken(
+        [setup.weth.address, setup.dai.address],
+        [ether(1), ether(100)],
+        [aaveLeverageModule.address, debtIssuanceMock.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+
+      if (isAllowlisted) {
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      }
+    };
+
+    const initializeSubjectVariables = () => {
+      subjectCKToken = ckToken.address;
+      subjectCollateralAssets = [setup.weth.address, setup.dai.address];
+      subjectBorrowAssets = [setup.dai.address, setup.weth.address];
+      subjectCaller = owner;
+    };
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).initialize(
+        subjectCKToken,
+        subjectCollateralAssets,
+        subjectBorrowAssets,
+      );
+    }
+
+    describe("when isAllowlisted is true", () => {
+      before(async () => {
+        isAllowlisted = true;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      it("should enable the Module on the CKToken", async () => {
+        await subject();
+        const isModuleEnabled = await ckToken.isInitializedModule(aaveLeverageModule.address);
+        expect(isModuleEnabled).to.eq(true);
+      });
+
+      it("should set the Aave settings and mappings", async () => {
+        await subject();
+        const [collateralAssets, borrowAssets] = await aaveLeverageModule.getEnabledAssets(ckToken.address);
+        const isWethCollateral = await aaveLeverageModule.collateralAssetEnabled(ckToken.address, setup.weth.address);
+        const isDaiCollateral = await aaveLeverageModule.collateralAssetEnabled(ckToken.address, setup.dai.address);
+        const isDaiBorrow = await aaveLeverageModule.borrowAssetEnabled(ckToken.address, setup.dai.address);
+        const isWethBorrow = await aaveLeverageModule.borrowAssetEnabled(ckToken.address, setup.weth.address);
+        expect(JSON.stringify(collateralAssets)).to.eq(JSON.stringify(subjectCollateralAssets));
+        expect(JSON.stringify(borrowAssets)).to.eq(JSON.stringify(subjectBorrowAssets));
+        expect(isWethCollateral).to.be.true;
+        expect(isDaiCollateral).to.be.true;
+        expect(isDaiBorrow).to.be.true;
+        expect(isWethBorrow).to.be.true;
+      });
+
+      it("should register on the debt issuance module", async () => {
+        await subject();
+        const isRegistered = await debtIssuanceMock.isRegistered(ckToken.address);
+        expect(isRegistered).to.be.true;
+      });
+
+      it("should emit the correct CollateralAssetsUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "CollateralAssetsUpdated").withArgs(
+          ckToken.address,
+          true,
+          subjectCollateralAssets
+        );
+      });
+
+      it("should emit the correct BorrowAssetsUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "BorrowAssetsUpdated").withArgs(
+          ckToken.address,
+          true,
+          subjectBorrowAssets
+        );
+      });
+
+      describe("when debt issuance module is not added to integration registry", async () => {
+        beforeEach(async () => {
+          await setup.integrationRegistry.removeIntegration(aaveLeverageModule.address, "DefaultIssuanceModule");
+        });
+
+        afterEach(async () => {
+          // Add debt issuance address to integration
+          await setup.integrationRegistry.addIntegration(
+            aaveLeverageModule.address,
+            "DefaultIssuanceModule",
+            debtIssuanceMock.address
+          );
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be valid adapter");
+        });
+      });
+
+      describe("when debt issuance module is not initialized on CKToken", async () => {
+        beforeEach(async () => {
+          await ckToken.removeModule(debtIssuanceMock.address);
+        });
+
+        afterEach(async () => {
+          await ckToken.addModule(debtIssuanceMock.address);
+          await debtIssuanceMock.initialize(ckToken.address);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Issuance not initialized");
+        });
+      });
+
+      describe("when collateral asset does not exist on Aave", async () => {
+        beforeEach(async () => {
+          subjectCollateralAssets = [setup.weth.address, await getRandomAddress()];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Invalid aave reserve");
+        });
+      });
+
+      describe("when collateral asset is duplicated", async () => {
+        beforeEach(async () => {
+          subjectCollateralAssets = [setup.weth.address, setup.weth.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Collateral already enabled");
+        });
+      });
+
+      describe("when collateral reserve is frozen on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.setReserveFrozen(setup.dai.address, true);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Frozen aave reserve");
+        });
+      });
+
+      describe("when collateral asset is disabled as collateral on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.configureReserveAsCollateral(setup.dai.address, ZERO, ZERO, ZERO);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Collateral disabled on Aave");
+        });
+      });
+
+      describe("when borrow asset does not exist on Aave", async () => {
+        beforeEach(async () => {
+          subjectBorrowAssets = [await getRandomAddress(), setup.weth.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Invalid aave reserve");
+        });
+      });
+
+      describe("when borrow asset is duplicated", async () => {
+        beforeEach(async () => {
+          subjectBorrowAssets = [setup.weth.address, setup.weth.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Borrow already enabled");
+        });
+      });
+
+      describe("when borrowing is disabled on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.setBorrowingEnabled(setup.weth.address, false, false);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Borrowing disabled on Aave");
+        });
+      });
+
+      describe("when the caller is not the CKToken manager", async () => {
+        beforeEach(async () => {
+          subjectCaller = await getRandomAccount();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        });
+      });
+
+      describe("when CKToken is not in pending state", async () => {
+        beforeEach(async () => {
+          const newModule = await getRandomAddress();
+          await setup.controller.addModule(newModule);
+
+          const aaveLeverageModuleNotPendingCKToken = await setup.createCKToken(
+            [setup.weth.address],
+            [ether(1)],
+            [newModule]
+          );
+
+          subjectCKToken = aaveLeverageModuleNotPendingCKToken.address;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be pending initialization");
+        });
+      });
+
+      describe("when the CKToken is not enabled on the controller", async () => {
+        beforeEach(async () => {
+          const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+            [setup.weth.address],
+            [ether(1)],
+            [aaveLeverageModule.address]
+          );
+
+          subjectCKToken = nonEnabledCKToken.address;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be controller-enabled CKToken");
+        });
+      });
+    });
+
+    describe("when isAllowlisted is false", async () => {
+      before(async () => {
+        isAllowlisted = false;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      describe("when CKToken is not allowlisted", async () => {
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Not allowed CKToken");
+        });
+      });
+
+      describe("when any CK can initialize this module", async () => {
+        beforeEach(async () => {
+          await aaveLeverageModule.updateAnyCKAllowed(true);
+        });
+
+        it("should enable the Module on the CKToken", async () => {
+          await subject();
+          const isModuleEnabled = await ckToken.isInitializedModule(aaveLeverageModule.address);
+          expect(isModuleEnabled).to.eq(true);
+        });
+      });
+    });
+  });
+
+  describe("#lever", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+    let destinationTokenQuantity: BigNumber;
+
+    let subjectCKToken: Address;
+    let subjectBorrowAsset: Address;
+    let subjectCollateralAsset: Address;
+    let subjectBorrowQuantity: BigNumber;
+    let subjectMinCollateralQuantity: BigNumber;
+    let subjectTradeAdapterName: string;
+    let subjectTradeData: Bytes;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral asset and borrow positions is 0", async () => {
+      const initializeContracts = async () => {
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        // Initialize module if set to true
+        if (isInitialized) {
+          await aaveLeverageModule.initialize(
+            ckToken.address,
+            [setup.weth.address, setup.dai.address],
+            [setup.dai.address, setup.weth.address]
+          );
+        }
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+        // Add CK token as token sender / recipient
+        oneInchExchangeMockToWeth = oneInchExchangeMockToWeth.connect(owner.wallet);
+        await oneInchExchangeMockToWeth.addCKTokenAddress(ckToken.address);
+
+        // Fund One Inch exchange with destinationToken WETH
+        await setup.weth.transfer(oneInchExchangeMockToWeth.address, ether(10));
+
+        // Approve aTokens to issuance module and call issue
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+
+        // Issue 1 CKToken. Note: 1inch mock is hardcoded to trade 1000 DAI regardless of CK supply
+        const issueQuantity = ether(1);
+        destinationTokenQuantity = ether(1);
+        await setup.issuanceModule.issue(ckToken.address, issueQuantity, owner.address);
+      };
+
+      const initializeSubjectVariables = () => {
+        subjectCKToken = ckToken.address;
+        subjectBorrowAsset = setup.dai.address;
+        subjectCollateralAsset = setup.weth.address;
+        subjectBorrowQuantity = ether(1000);
+        subjectMinCollateralQuantity = destinationTokenQuantity;
+        subjectTradeAdapterName = "ONEINCHTOWETH";
+        subjectTradeData = oneInchExchangeMockToWeth.interface.encodeFunctionData("swap", [
+          setup.dai.address, // Send token
+          setup.weth.address, // Receive token
+          subjectBorrowQuantity, // Send quantity
+          subjectMinCollateralQuantity, // Min receive quantity
+          ZERO,
+          ADDRESS_ZERO,
+          [ADDRESS_ZERO],
+          EMPTY_BYTES,
+          [ZERO],
+          [ZERO],
+        ]);
+        subjectCaller = owner;
+      };
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).lever(
+          subjectCKToken,
+          subjectBorrowAsset,
+          subjectCollateralAsset,
+          subjectBorrowQuantity,
+          subjectMinCollateralQuantity,
+          subjectTradeAdapterName,
+          subjectTradeData
+        );
+      }
+
+      describe("when module is initialized", async () => {
+        before(async () => {
+          isInitialized = true;
+        });
+
+        cacheBeforeEach(initializeContracts);
+        beforeEach(initializeSubjectVariables);
+
+        it("should update the collateral position on the CKToken correctly", async () => {
+          const initialPositions = await ckToken.getPositions();
+
+          await subject();
+
+          // aWETH position is increased
+          const currentPositions = await ckToken.getPositions();
+          const newFirstPosition = (await ckToken.getPositions())[0];
+
+          // aTokens are minted 1:1 with the deposited WETH
+          const expectedFirstPositionUnit = initialPositions[0].unit.add(destinationTokenQuantity);
+
+          expect(initialPositions.length).to.eq(1);
+          expect(currentPositions.length).to.eq(2);
+          expect(newFirstPosition.component).to.eq(aWETH.address);
+          expect(newFirstPosition.positionState).to.eq(0); // Default
+          expect(newFirstPosition.unit).to.eq(expectedFirstPositionUnit);
+          expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+        });
+
+        it("should update the borrow position on the CKToken correctly", async () => {
+          const initialPositions = await ckToken.getPositions();
+
+          await subject();
+
+          // DAI debt position is created
+          const currentPositions = await ckToken.getPositions();
+          const newSecondPosition = (await ckToken.getPositions())[1];
+
+          const expectedSecondPositionUnit = (await variableDebtDAI.balanceOf(ckToken.address)).mul(-1);
+
+          expect(initialPositions.length).to.eq(1);
+          expect(currentPositions.length).to.eq(2);
+          expect(newSecondPosition.component).to.eq(setup.dai.address);
+          expect(newSecondPosition.positionState).to.eq(1); // External
+          expect(newSecondPosition.unit).to.eq(expectedSecondPositionUnit);
+          expect(newSecondPosition.unit).to.eq(ether(-1000));
+          expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+        });
+
+        it("should transfer the correct components to the exchange", async () => {
+          const oldSourceTokenBalance = await setup.dai.balanceOf(oneInchExchangeMockToWeth.address);
+
+          await subject();
+          const totalSourceQuantity = subjectBorrowQuantity;
+          const expectedSourceTokenBalance = oldSourceTokenBalance.add(totalSourceQuantity);
+          const newSourceTokenBalance = await setup.dai.balanceOf(oneInchExchangeMockToWeth.address);
+          expect(newSourceTokenBalance).to.eq(expectedSourceTokenBalance);
+        });
+
+        it("should transfer the correct components from the exchange", async () => {
+          const oldDestinationTokenBalance = await setup.weth.balanceOf(oneInchExchangeMockToWeth.address);
+
+          await subject();
+          const totalDestinationQuantity = destinationTokenQuantity;
+          const expectedDestinationTokenBalance = oldDestinationTokenBalance.sub(totalDestinationQuantity);
+          const newDestinationTokenBalance = await setup.weth.balanceOf(oneInchExchangeMockToWeth.address);
+          expect(newDestinationTokenBalance).to.eq(expectedDestinationTokenBalance);
+        });
+
+        it("should deposit the received WETH into the lending pool", async () => {
+          const oldReserveBalance = await setup.weth.balanceOf(aWETH.address);
+
+          await subject();
+          const expectedReserveBalance = oldReserveBalance.add(destinationTokenQuantity);
+          const newReserveBalance = await setup.weth.balanceOf(aWETH.address);
+          expect(newReserveBalance).to.eq(expectedReserveBalance);
+          expect(await setup.weth.balanceOf(ckToken.address)).to.eq(ZERO);
+        });
+
+        it("should emit the correct LeverageIncreased event", async () => {
+          await expect(subject()).to.emit(aaveLeverageModule, "LeverageIncreased").withArgs(
+            ckToken.address,
+            subjectBorrowAsset,
+            subjectCollateralAsset,
+            oneInchExchangeAdapterToWeth.address,
+            subjectBorrowQuantity,
+            destinationTokenQuantity,
+            ZERO
+          );
+        });
+
+        describe("when the leverage position has been liquidated", async () => {
+          let wethSeized: BigNumber;
+
+          cacheBeforeEach(async () => {
+            // Lever up
+            await aaveLeverageModule.connect(subjectCaller.wallet).lever(
+              subjectCKToken,
+              subjectBorrowAsset,
+              subjectCollateralAsset,
+              subjectBorrowQuantity,
+              subjectMinCollateralQuantity,
+              subjectTradeAdapterName,
+              subjectTradeData
+            );
+
+            // DAI price increases to 0.003 ETH so the CKToken's health factor drops below 1
+            await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.003));
+
+            // Repay 500 DAI (the 50% close factor) and seize 1.5 WETH + 5% liquidation bonus
+            await aaveSetup.lendingPool.liquidationCall(setup.weth.address, setup.dai.address, ckToken.address, ether(500), false);
+            wethSeized = ether(1.575);
+
+            // DAI price falls to 0.0005 ETH to allow more borrow
+            await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.0005));
+          });
+
+          it("should update the collateral position on the CKToken correctly", async () => {
+            const initialPositions = await ckToken.getPositions();
+
+            await subject();
+
+            const currentPositions = await ckToken.getPositions();
+            const newFirstPosition = (await ckToken.getPositions())[0];
+
+            // Stale position unit is replaced by the post liquidation aWETH balance plus the newly deposited WETH
+            const expectedPostLiquidationUnit = ether(3).sub(wethSeized).add(destinationTokenQuantity);
+
+            expect(initialPositions.length).to.eq(2);
+            expect(currentPositions.length).to.eq(2);
+            expect(newFirstPosition.component).to.eq(aWETH.address);
+            expect(newFirstPosition.positionState).to.eq(0); // Default
+            expect(newFirstPosition.unit).to.eq(expectedPostLiquidationUnit);
+            expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+          });
+
+          it("should update the borrow position on the CKToken correctly", async () => {
+            await subject();
+
+            const newSecondPosition = (await ckToken.getPositions())[1];
+
+            // 1000 DAI borrowed, 500 DAI repaid by the liquidator and 1000 DAI borrowed again
+            expect(newSecondPosition.component).to.eq(setup.dai.address);
+            expect(newSecondPosition.positionState).to.eq(1); // External
+            expect(newSecondPosition.unit).to.eq(ether(-1500));
+            expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+          });
+        });
+
+        describe("when there is a protocol fee charged", async () => {
+          let feePercentage: BigNumber;
+
+          cacheBeforeEach(async () => {
+            feePercentage = ether(0.05);
+            setup.controller = setup.controller.connect(owner.wallet);
+            await setup.controller.addFee(
+              aaveLeverageModule.address,
+              ZERO, // Fee type on trade function denoted as 0
+              feePercentage // Set fee to 5 bps
+            );
+          });
+
+          it("should transfer the correct protocol fee to the protocol", async () => {
+            const feeRecipient = await setup.controller.feeRecipient();
+            const oldFeeRecipientBalance = await setup.weth.balanceOf(feeRecipient);
+
+            await subject();
+            const expectedFeeRecipientBalance = oldFeeRecipientBalance.add(preciseMul(feePercentage, destinationTokenQuantity));
+            const newFeeRecipientBalance = await setup.weth.balanceOf(feeRecipient);
+            expect(newFeeRecipientBalance).to.eq(expectedFeeRecipientBalance);
+          });
+
+          it("should update the collateral position on the CKToken correctly", async () => {
+            const initialPositions = await ckToken.getPositions();
+
+            await subject();
+
+            const newFirstPosition = (await ckToken.getPositions())[0];
+
+            const unitProtocolFee = preciseMul(feePercentage, destinationTokenQuantity);
+            const expectedFirstPositionUnit = initialPositions[0].unit.add(destinationTokenQuantity).sub(unitProtocolFee);
+
+            expect(newFirstPosition.component).to.eq(aWETH.address);
+            expect(newFirstPosition.positionState).to.eq(0); // Default
+            expect(newFirstPosition.unit).to.eq(expectedFirstPositionUnit);
+            expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+          });
+
+          it("should update the borrow position on the CKToken correctly", async () => {
+            await subject();
+
+            const newSecondPosition = (await ckToken.getPositions())[1];
+
+            const expectedSecondPositionUnit = (await variableDebtDAI.balanceOf(ckToken.address)).mul(-1);
+
+            expect(newSecondPosition.component).to.eq(setup.dai.address);
+            expect(newSecondPosition.positionState).to.eq(1); // External
+            expect(newSecondPosition.unit).to.eq(expectedSecondPositionUnit);
+            expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+          });
+
+          it("should emit the correct LeverageIncreased event", async () => {
+            const totalBorrowQuantity = subjectBorrowQuantity;
+            const totalCollateralQuantity = destinationTokenQuantity;
+            const totalProtocolFee = preciseMul(feePercentage, totalCollateralQuantity);
+
+            await expect(subject()).to.emit(aaveLeverageModule, "LeverageIncreased").withArgs(
+              ckToken.address,
+              subjectBorrowAsset,
+              subjectCollateralAsset,
+              oneInchExchangeAdapterToWeth.address,
+              totalBorrowQuantity,
+              totalCollateralQuantity.sub(totalProtocolFee),
+              totalProtocolFee
+            );
+          });
+        });
+
+        describe("when slippage is greater than allowed", async () => {
+          cacheBeforeEach(async () => {
+            // Add CK token as token sender / recipient
+            oneInchExchangeMockWithSlippage = oneInchExchangeMockWithSlippage.connect(owner.wallet);
+            await oneInchExchangeMockWithSlippage.addCKTokenAddress(ckToken.address);
+
+            // Fund One Inch exchange with destinationToken WETH
+            await setup.weth.transfer(oneInchExchangeMockWithSlippage.address, ether(10));
+          });
+
+          beforeEach(async () => {
+            // Set to other mock exchange adapter with slippage
+            subjectTradeAdapterName = "ONEINCHSLIPPAGE";
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Slippage too high");
+          });
+        });
+
+        describe("when the exchange is not valid", async () => {
+          beforeEach(async () => {
+            subjectTradeAdapterName = "UNISWAP";
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be valid adapter");
+          });
+        });
+
+        describe("when quantity of token to sell is 0", async () => {
+          beforeEach(async () => {
+            subjectBorrowQuantity = ZERO;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Quantity is 0");
+          });
+        });
+
+        describe("when the borrow exceeds the loan to value allowed by Aave", async () => {
+          beforeEach(async () => {
+            // 2 aWETH at 80% LTV can back at most 1600 DAI
+            subjectBorrowQuantity = ether(1700);
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("11");
+          });
+        });
+
+        describe("when collateral asset is not enabled", async () => {
+          beforeEach(async () => {
+            subjectCollateralAsset = setup.wbtc.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Collateral not enabled");
+          });
+        });
+
+        describe("when borrow asset is not enabled", async () => {
+          beforeEach(async () => {
+            subjectBorrowAsset = await getRandomAddress();
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Borrow not enabled");
+          });
+        });
+
+        describe("when borrow asset is same as collateral asset", async () => {
+          beforeEach(async () => {
+            subjectBorrowAsset = setup.weth.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Collateral and borrow asset must be different");
+          });
+        });
+
+        describe("when the caller is not the CKToken manager", async () => {
+          beforeEach(async () => {
+            subjectCaller = await getRandomAccount();
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+          });
+        });
+
+        describe("when CKToken is not valid", async () => {
+          beforeEach(async () => {
+            const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+              [setup.weth.address],
+              [ether(1)],
+              [aaveLeverageModule.address],
+              owner.address
+            );
+
+            subjectCKToken = nonEnabledCKToken.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+          });
+        });
+      });
+
+      describe("when module is not initialized", async () => {
+        beforeEach(async () => {
+          isInitialized = false;
+          await initializeContracts();
+          initializeSubjectVariables();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+        });
+      });
+    });
+  });
+
+  describe("#delever", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+    let destinationTokenQuantity: BigNumber;
+
+    let subjectCKToken: Address;
+    let subjectCollateralAsset: Address;
+    let subjectRepayAsset: Address;
+    let subjectRedeemQuantity: BigNumber;
+    let subjectMinRepayQuantity: BigNumber;
+    let subjectTradeAdapterName: string;
+    let subjectTradeData: Bytes;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral asset and DAI is borrowed", async () => {
+      const initializeContracts = async () => {
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        // Initialize module if set to true
+        if (isInitialized) {
+          await aaveLeverageModule.initialize(
+            ckToken.address,
+            [setup.weth.address, setup.dai.address],
+            [setup.dai.address, setup.weth.address]
+          );
+        }
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+        // Approve aTokens to issuance module and call issue
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+
+        // Issue 1 CKToken. Note: 1inch mock is hardcoded to trade 1000 DAI regardless of CK supply
+        const issueQuantity = ether(1);
+        await setup.issuanceModule.issue(ckToken.address, issueQuantity, owner.address);
+
+        // Lever CKToken
+        if (isInitialized) {
+          await leverCKTokenToWeth(ckToken);
+        }
+
+        // Add CK token as token sender / recipient
+        oneInchExchangeMockFromWeth = oneInchExchangeMockFromWeth.connect(owner.wallet);
+        await oneInchExchangeMockFromWeth.addCKTokenAddress(ckToken.address);
+
+        // Fund One Inch exchange with destinationToken DAI
+        await setup.dai.transfer(oneInchExchangeMockFromWeth.address, ether(10000));
+
+        destinationTokenQuantity = ether(1000);
+      };
+
+      const initializeSubjectVariables = () => {
+        subjectCKToken = ckToken.address;
+        subjectCollateralAsset = setup.weth.address;
+        subjectRepayAsset = setup.dai.address;
+        subjectRedeemQuantity = ether(1);
+        subjectMinRepayQuantity = destinationTokenQuantity;
+        subjectTradeAdapterName = "ONEINCHFROMWETH";
+        subjectTradeData = oneInchExchangeMockFromWeth.interface.encodeFunctionData("swap", [
+          setup.weth.address, // Send token
+          setup.dai.address, // Receive token
+          subjectRedeemQuantity, // Send quantity
+          subjectMinRepayQuantity, // Min receive quantity
+          ZERO,
+          ADDRESS_ZERO,
+          [ADDRESS_ZERO],
+          EMPTY_BYTES,
+          [ZERO],
+          [ZERO],
+        ]);
+        subjectCaller = owner;
+      };
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).delever(
+          subjectCKToken,
+          subjectCollateralAsset,
+          subjectRepayAsset,
+          subjectRedeemQuantity,
+          subjectMinRepayQuantity,
+          subjectTradeAdapterName,
+          subjectTradeData
+        );
+      }
+
+      describe("when module is initialized", async () => {
+        before(async () => {
+          isInitialized = true;
+        });
+
+        cacheBeforeEach(initializeContracts);
+        beforeEach(initializeSubjectVariables);
+
+        it("should update the collateral position on the CKToken correctly", async () => {
+          const initialPositions = await ckToken.getPositions();
+
+          await subject();
+
+          // aWETH position is decreased
+          const currentPositions = await ckToken.getPositions();
+          const newFirstPosition = (await ckToken.getPositions())[0];
+
+          const expectedFirstPositionUnit = initialPositions[0].unit.sub(subjectRedeemQuantity);
+
+          expect(initialPositions.length).to.eq(2);
+          expect(currentPositions.length).to.eq(1);
+          expect(newFirstPosition.component).to.eq(aWETH.address);
+          expect(newFirstPosition.positionState).to.eq(0); // Default
+          expect(newFirstPosition.unit).to.eq(expectedFirstPositionUnit);
+          expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+        });
+
+        it("should repay the borrow and remove the borrow position", async () => {
+          await subject();
+
+          const borrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+          const borrowPositionUnit = await ckToken.getExternalPositionRealUnit(setup.dai.address, aaveLeverageModule.address);
+          const components = await ckToken.getComponents();
+
+          expect(borrowBalance).to.eq(ZERO);
+          expect(borrowPositionUnit).to.eq(ZERO);
+          expect(JSON.stringify(components)).to.eq(JSON.stringify([aWETH.address]));
+        });
+
+        it("should transfer the correct components to the exchange", async () => {
+          const oldSourceTokenBalance = await setup.weth.balanceOf(oneInchExchangeMockFromWeth.address);
+
+          await subject();
+          const totalSourceQuantity = subjectRedeemQuantity;
+          const expectedSourceTokenBalance = oldSourceTokenBalance.add(totalSourceQuantity);
+          const newSourceTokenBalance = await setup.weth.balanceOf(oneInchExchangeMockFromWeth.address);
+          expect(newSourceTokenBalance).to.eq(expectedSourceTokenBalance);
+        });
+
+        it("should transfer the correct components from the exchange", async () => {
+          const oldDestinationTokenBalance = await setup.dai.balanceOf(oneInchExchangeMockFromWeth.address);
+
+          await subject();
+          const totalDestinationQuantity = destinationTokenQuantity;
+          const expectedDestinationTokenBalance = oldDestinationTokenBalance.sub(totalDestinationQuantity);
+          const newDestinationTokenBalance = await setup.dai.balanceOf(oneInchExchangeMockFromWeth.address);
+          expect(newDestinationTokenBalance).to.eq(expectedDestinationTokenBalance);
+        });
+
+        it("should emit the correct LeverageDecreased event", async () => {
+          await expect(subject()).to.emit(aaveLeverageModule, "LeverageDecreased").withArgs(
+            ckToken.address,
+            subjectCollateralAsset,
+            subjectRepayAsset,
+            oneInchExchangeAdapterFromWeth.address,
+            subjectRedeemQuantity,
+            destinationTokenQuantity,
+            ZERO
+          );
+        });
+
+        describe("when there is a protocol fee charged", async () => {
+          let feePercentage: BigNumber;
+
+          cacheBeforeEach(async () => {
+            feePercentage = ether(0.05);
+            setup.controller = setup.controller.connect(owner.wallet);
+            await setup.controller.addFee(
+              aaveLeverageModule.address,
+              ZERO, // Fee type on trade function denoted as 0
+              feePercentage // Set fee to 5 bps
+            );
+          });
+
+          it("should transfer the correct protocol fee to the protocol", async () => {
+            const feeRecipient = await setup.controller.feeRecipient();
+            const oldFeeRecipientBalance = await setup.dai.balanceOf(feeRecipient);
+
+            await subject();
+            const expectedFeeRecipientBalance = oldFeeRecipientBalance.add(preciseMul(feePercentage, destinationTokenQuantity));
+            const newFeeRecipientBalance = await setup.dai.balanceOf(feeRecipient);
+            expect(newFeeRecipientBalance).to.eq(expectedFeeRecipientBalance);
+          });
+
+          it("should update the borrow position on the CKToken correctly", async () => {
+            const initialPositions = await ckToken.getPositions();
+
+            await subject();
+
+            // Fee is taken out of the DAI received so part of the borrow remains
+            const currentPositions = await ckToken.getPositions();
+            const newSecondPosition = (await ckToken.getPositions())[1];
+
+            const unitProtocolFee = preciseMul(feePercentage, destinationTokenQuantity);
+            const expectedSecondPositionUnit = initialPositions[1].unit.add(destinationTokenQuantity).sub(unitProtocolFee);
+
+            expect(initialPositions.length).to.eq(2);
+            expect(currentPositions.length).to.eq(2);
+            expect(newSecondPosition.component).to.eq(setup.dai.address);
+            expect(newSecondPosition.positionState).to.eq(1); // External
+            expect(newSecondPosition.unit).to.eq(expectedSecondPositionUnit);
+            expect(newSecondPosition.unit).to.eq((await variableDebtDAI.balanceOf(ckToken.address)).mul(-1));
+            expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+          });
+
+          it("should emit the correct LeverageDecreased event", async () => {
+            const totalProtocolFee = preciseMul(feePercentage, destinationTokenQuantity);
+
+            await expect(subject()).to.emit(aaveLeverageModule, "LeverageDecreased").withArgs(
+              ckToken.address,
+              subjectCollateralAsset,
+              subjectRepayAsset,
+              oneInchExchangeAdapterFromWeth.address,
+              subjectRedeemQuantity,
+              destinationTokenQuantity.sub(totalProtocolFee),
+              totalProtocolFee
+            );
+          });
+        });
+
+        describe("when slippage is greater than allowed", async () => {
+          beforeEach(async () => {
+            subjectMinRepayQuantity = ether(1001);
+            subjectTradeData = oneInchExchangeMockFromWeth.interface.encodeFunctionData("swap", [
+              setup.weth.address, // Send token
+              setup.dai.address, // Receive token
+              subjectRedeemQuantity, // Send quantity
+              subjectMinRepayQuantity, // Min receive quantity
+              ZERO,
+              ADDRESS_ZERO,
+              [ADDRESS_ZERO],
+              EMPTY_BYTES,
+              [ZERO],
+              [ZERO],
+            ]);
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Slippage too high");
+          });
+        });
+
+        describe("when withdrawing would leave the CKToken undercollateralized", async () => {
+          beforeEach(async () => {
+            // DAI price increases to 0.0024 ETH so 1 aWETH cannot be withdrawn against 2.4 ETH of debt
+            await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.0024));
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("6");
+          });
+        });
+
+        describe("when the exchange is not valid", async () => {
+          beforeEach(async () => {
+            subjectTradeAdapterName = "UNISWAP";
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be valid adapter");
+          });
+        });
+
+        describe("when quantity of token to sell is 0", async () => {
+          beforeEach(async () => {
+            subjectRedeemQuantity = ZERO;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Quantity is 0");
+          });
+        });
+
+        describe("when borrow / repay asset is not enabled", async () => {
+          beforeEach(async () => {
+            subjectRepayAsset = setup.wbtc.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Borrow not enabled");
+          });
+        });
+
+        describe("when collateral asset is not enabled", async () => {
+          beforeEach(async () => {
+            subjectCollateralAsset = await getRandomAddress();
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Collateral not enabled");
+          });
+        });
+
+        describe("when borrow asset is same as collateral asset", async () => {
+          beforeEach(async () => {
+            subjectRepayAsset = setup.weth.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Collateral and borrow asset must be different");
+          });
+        });
+
+        describe("when the caller is not the CKToken manager", async () => {
+          beforeEach(async () => {
+            subjectCaller = await getRandomAccount();
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+          });
+        });
+
+        describe("when CKToken is not valid", async () => {
+          beforeEach(async () => {
+            const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+              [setup.weth.address],
+              [ether(1)],
+              [aaveLeverageModule.address],
+              owner.address
+            );
+
+            subjectCKToken = nonEnabledCKToken.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+          });
+        });
+      });
+
+      describe("when module is not initialized", async () => {
+        beforeEach(async () => {
+          isInitialized = false;
+          await initializeContracts();
+          initializeSubjectVariables();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+        });
+      });
+    });
+  });
+
+  describe("#deleverToZeroBorrowBalance", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+    let borrowBalance: BigNumber;
+
+    let subjectCKToken: Address;
+    let subjectCollateralAsset: Address;
+    let subjectRepayAsset: Address;
+    let subjectRedeemQuantity: BigNumber;
+    let subjectTradeAdapterName: string;
+    let subjectTradeData: Bytes;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral asset and DAI is borrowed", async () => {
+      const initializeContracts = async () => {
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        // Initialize module if set to true
+        if (isInitialized) {
+          await aaveLeverageModule.initialize(
+            ckToken.address,
+            [setup.weth.address, setup.dai.address],
+            [setup.dai.address, setup.weth.address]
+          );
+        }
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+        // Approve aTokens to issuance module and call issue
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+        await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+
+        // Lever CKToken
+        if (isInitialized) {
+          await leverCKTokenToWeth(ckToken);
+        }
+
+        // Add CK token as token sender / recipient
+        oneInchExchangeMockFromWeth = oneInchExchangeMockFromWeth.connect(owner.wallet);
+        await oneInchExchangeMockFromWeth.addCKTokenAddress(ckToken.address);
+
+        // Fund One Inch exchange with destinationToken DAI
+        await setup.dai.transfer(oneInchExchangeMockFromWeth.address, ether(10000));
+      };
+
+      const initializeSubjectVariables = async () => {
+        borrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+
+        subjectCKToken = ckToken.address;
+        subjectCollateralAsset = setup.weth.address;
+        subjectRepayAsset = setup.dai.address;
+        subjectRedeemQuantity = ether(1);
+        subjectTradeAdapterName = "ONEINCHFROMWETH";
+        subjectTradeData = oneInchExchangeMockFromWeth.interface.encodeFunctionData("swap", [
+          setup.weth.address, // Send token
+          setup.dai.address, // Receive token
+          subjectRedeemQuantity, // Send quantity
+          borrowBalance, // Min receive quantity is the full borrow balance
+          ZERO,
+          ADDRESS_ZERO,
+          [ADDRESS_ZERO],
+          EMPTY_BYTES,
+          [ZERO],
+          [ZERO],
+        ]);
+        subjectCaller = owner;
+      };
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).deleverToZeroBorrowBalance(
+          subjectCKToken,
+          subjectCollateralAsset,
+          subjectRepayAsset,
+          subjectRedeemQuantity,
+          subjectTradeAdapterName,
+          subjectTradeData
+        );
+      }
+
+      describe("when module is initialized", async () => {
+        before(async () => {
+          isInitialized = true;
+        });
+
+        cacheBeforeEach(initializeContracts);
+        beforeEach(initializeSubjectVariables);
+
+        it("should return the repaid borrow balance", async () => {
+          const repayQuantity = await aaveLeverageModule.connect(subjectCaller.wallet).callStatic.deleverToZeroBorrowBalance(
+            subjectCKToken,
+            subjectCollateralAsset,
+            subjectRepayAsset,
+            subjectRedeemQuantity,
+            subjectTradeAdapterName,
+            subjectTradeData
+          );
+
+          expect(repayQuantity).to.eq(borrowBalance);
+        });
+
+        it("should wipe out the debt on Aave", async () => {
+          await subject();
+
+          const currentBorrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+          expect(currentBorrowBalance).to.eq(ZERO);
+        });
+
+        it("should update the positions on the CKToken correctly", async () => {
+          const initialPositions = await ckToken.getPositions();
+
+          await subject();
+
+          const currentPositions = await ckToken.getPositions();
+          const newFirstPosition = (await ckToken.getPositions())[0];
+
+          expect(initialPositions.length).to.eq(2);
+          expect(currentPositions.length).to.eq(1);
+          expect(newFirstPosition.component).to.eq(aWETH.address);
+          expect(newFirstPosition.positionState).to.eq(0); // Default
+          expect(newFirstPosition.unit).to.eq(initialPositions[0].unit.sub(subjectRedeemQuantity));
+          expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+        });
+
+        it("should emit the correct LeverageDecreased event", async () => {
+          await expect(subject()).to.emit(aaveLeverageModule, "LeverageDecreased").withArgs(
+            ckToken.address,
+            subjectCollateralAsset,
+            subjectRepayAsset,
+            oneInchExchangeAdapterFromWeth.address,
+            subjectRedeemQuantity,
+            borrowBalance,
+            ZERO
+          );
+        });
+
+        describe("when the trade returns more than the borrow balance", async () => {
+          beforeEach(async () => {
+            await oneInchExchangeMockFromWeth.updateReceiveAmount(ether(1200));
+          });
+
+          it("should add the remaining repay asset as a default position", async () => {
+            await subject();
+
+            const currentPositions = await ckToken.getPositions();
+            const newSecondPosition = (await ckToken.getPositions())[1];
+
+            expect(currentPositions.length).to.eq(2);
+            expect(newSecondPosition.component).to.eq(setup.dai.address);
+            expect(newSecondPosition.positionState).to.eq(0); // Default
+            expect(newSecondPosition.unit).to.eq(ether(1200).sub(borrowBalance));
+            expect(newSecondPosition.module).to.eq(ADDRESS_ZERO);
+          });
+        });
+
+        describe("when interest has accrued on the borrow", async () => {
+          beforeEach(async () => {
+            // Variable borrow index of 1.1 ray grows the 1000 DAI borrow to 1100 DAI
+            await aaveSetup.setReserveIndexes(setup.dai.address, ether(1).mul(1e9), ether(1.1).mul(1e9));
+            await initializeSubjectVariables();
+          });
+
+          it("should revert when the trade does not cover the accrued debt", async () => {
+            expect(borrowBalance).to.eq(ether(1100));
+            await expect(subject()).to.be.revertedWith("Slippage too high");
+          });
+        });
+
+        describe("when borrow balance is zero", async () => {
+          beforeEach(async () => {
+            subjectRepayAsset = setup.weth.address;
+            subjectCollateralAsset = setup.dai.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Borrow balance is zero");
+          });
+        });
+
+        describe("when borrow / repay asset is not enabled", async () => {
+          beforeEach(async () => {
+            subjectRepayAsset = setup.wbtc.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Borrow not enabled");
+          });
+        });
+
+        describe("when the exchange is not valid", async () => {
+          beforeEach(async () => {
+            subjectTradeAdapterName = "UNISWAP";
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be valid adapter");
+          });
+        });
+
+        describe("when the caller is not the CKToken manager", async () => {
+          beforeEach(async () => {
+            subjectCaller = await getRandomAccount();
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+          });
+        });
+      });
+
+      describe("when module is not initialized", async () => {
+        beforeEach(async () => {
+          isInitialized = false;
+          await initializeContracts();
+          await initializeSubjectVariables();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+        });
+      });
+    });
+  });
+
+  describe("#sync", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+
+    let subjectCKToken: Address;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral asset and DAI is borrowed", async () => {
+      const initializeContracts = async () => {
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        // Initialize module if set to true
+        if (isInitialized) {
+          await aaveLeverageModule.initialize(
+            ckToken.address,
+            [setup.weth.address, setup.dai.address],
+            [setup.dai.address, setup.weth.address]
+          );
+        }
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+        // Approve aTokens to issuance module and call issue
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+        await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+
+        // Lever CKToken
+        if (isInitialized) {
+          await leverCKTokenToWeth(ckToken);
+        }
+      };
+
+      const initializeSubjectVariables = async () => {
+        subjectCKToken = ckToken.address;
+        subjectCaller = await getRandomAccount();
+      };
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).sync(subjectCKToken);
+      }
+
+      describe("when module is initialized", async () => {
+        before(async () => {
+          isInitialized = true;
+        });
+
+        cacheBeforeEach(initializeContracts);
+        beforeEach(initializeSubjectVariables);
+
+        it("should not change the positions when Aave balances are in sync", async () => {
+          const initialPositions = await ckToken.getPositions();
+
+          await subject();
+
+          const currentPositions = await ckToken.getPositions();
+
+          expect(currentPositions.length).to.eq(2);
+          expect(currentPositions[0].unit).to.eq(initialPositions[0].unit);
+          expect(currentPositions[1].unit).to.eq(initialPositions[1].unit);
+        });
+
+        describe("when interest has accrued on collateral and borrow", async () => {
+          beforeEach(async () => {
+            // Liquidity index of 1.1 ray and variable borrow index of 1.2 ray
+            await aaveSetup.setReserveIndexes(setup.weth.address, ether(1.1).mul(1e9), ether(1).mul(1e9));
+            await aaveSetup.setReserveIndexes(setup.dai.address, ether(1).mul(1e9), ether(1.2).mul(1e9));
+          });
+
+          it("should update the collateral position on the CKToken correctly", async () => {
+            await subject();
+
+            const newFirstPosition = (await ckToken.getPositions())[0];
+
+            expect(newFirstPosition.component).to.eq(aWETH.address);
+            expect(newFirstPosition.positionState).to.eq(0); // Default
+            expect(newFirstPosition.unit).to.eq(await aWETH.balanceOf(ckToken.address));
+            expect(newFirstPosition.unit).to.eq(ether(3.3));
+            expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+          });
+
+          it("should update the borrow position on the CKToken correctly", async () => {
+            await subject();
+
+            const newSecondPosition = (await ckToken.getPositions())[1];
+
+            expect(newSecondPosition.component).to.eq(setup.dai.address);
+            expect(newSecondPosition.positionState).to.eq(1); // External
+            expect(newSecondPosition.unit).to.eq((await variableDebtDAI.balanceOf(ckToken.address)).mul(-1));
+            expect(newSecondPosition.unit).to.eq(ether(-1200));
+            expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+          });
+        });
+
+        describe("when the leverage position has been liquidated", async () => {
+          beforeEach(async () => {
+            // DAI price increases to 0.003 ETH so the CKToken's health factor drops below 1
+            await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.003));
+
+            // Repay 500 DAI (the 50% close factor) and seize 1.5 WETH + 5% liquidation bonus
+            await aaveSetup.lendingPool.liquidationCall(setup.weth.address, setup.dai.address, ckToken.address, ether(500), false);
+          });
+
+          it("should update the collateral position on the CKToken correctly", async () => {
+            await subject();
+
+            const newFirstPosition = (await ckToken.getPositions())[0];
+
+            expect(newFirstPosition.component).to.eq(aWETH.address);
+            expect(newFirstPosition.positionState).to.eq(0); // Default
+            expect(newFirstPosition.unit).to.eq(ether(3).sub(ether(1.575)));
+            expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+          });
+
+          it("should update the borrow position on the CKToken correctly", async () => {
+            await subject();
+
+            const newSecondPosition = (await ckToken.getPositions())[1];
+
+            expect(newSecondPosition.component).to.eq(setup.dai.address);
+            expect(newSecondPosition.positionState).to.eq(1); // External
+            expect(newSecondPosition.unit).to.eq(ether(-500));
+            expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+          });
+        });
+
+        describe("when the CKToken has no supply", async () => {
+          let zeroSupplyCKToken: CKToken;
+
+          beforeEach(async () => {
+            zeroSupplyCKToken = await setup.createCKToken(
+              [aWETH.address],
+              [ether(2)],
+              [aaveLeverageModule.address, debtIssuanceMock.address]
+            );
+            await debtIssuanceMock.initialize(zeroSupplyCKToken.address);
+            await aaveLeverageModule.updateAllowedCKToken(zeroSupplyCKToken.address, true);
+            await aaveLeverageModule.initialize(zeroSupplyCKToken.address, [setup.weth.address], [setup.dai.address]);
+
+            subjectCKToken = zeroSupplyCKToken.address;
+          });
+
+          it("should not remove the default positions from the CKToken", async () => {
+            await subject();
+
+            const currentPositions = await zeroSupplyCKToken.getPositions();
+            expect(currentPositions.length).to.eq(1);
+            expect(currentPositions[0].component).to.eq(aWETH.address);
+            expect(currentPositions[0].unit).to.eq(ether(2));
+          });
+        });
+
+        describe("when CKToken is not valid", async () => {
+          beforeEach(async () => {
+            const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+              [setup.weth.address],
+              [ether(1)],
+              [aaveLeverageModule.address],
+              owner.address
+            );
+
+            subjectCKToken = nonEnabledCKToken.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+          });
+        });
+      });
+
+      describe("when module is not initialized", async () => {
+        beforeEach(async () => {
+          isInitialized = false;
+          await initializeContracts();
+          await initializeSubjectVariables();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+        });
+      });
+    });
+  });
+
+  describe("#removeModule", async () => {
+    let ckToken: CKToken;
+    let subjectModule: Address;
+
+    cacheBeforeEach(async () => {
+      ckToken = await setup.createCKToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      // Add CKToken to allow list
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      await aaveLeverageModule.initialize(
+        ckToken.address,
+        [setup.weth.address],
+        [setup.weth.address, setup.dai.address],
+      );
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      // Approve aTokens to issuance module and call issue
+      await aWETH.approve(setup.issuanceModule.address, ether(1000));
+      await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+    });
+
+    beforeEach(() => {
+      subjectModule = aaveLeverageModule.address;
+    });
+
+    async function subject(): Promise<any> {
+      return ckToken.removeModule(subjectModule);
+    }
+
+    it("should remove the Module on the CKToken", async () => {
+      await subject();
+      const isModuleEnabled = await ckToken.isInitializedModule(aaveLeverageModule.address);
+      expect(isModuleEnabled).to.be.false;
+    });
+
+    it("should delete the Aave settings and mappings", async () => {
+      await subject();
+      const [collateralAssets, borrowAssets] = await aaveLeverageModule.getEnabledAssets(ckToken.address);
+      const isWethCollateral = await aaveLeverageModule.collateralAssetEnabled(ckToken.address, setup.weth.address);
+      const isDaiBorrow = await aaveLeverageModule.borrowAssetEnabled(ckToken.address, setup.dai.address);
+      const isWethBorrow = await aaveLeverageModule.borrowAssetEnabled(ckToken.address, setup.weth.address);
+      expect(collateralAssets.length).to.eq(0);
+      expect(borrowAssets.length).to.eq(0);
+      expect(isWethCollateral).to.be.false;
+      expect(isDaiBorrow).to.be.false;
+      expect(isWethBorrow).to.be.false;
+    });
+
+    it("should disable the aTokens as collateral on Aave", async () => {
+      const previousUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.weth.address);
+
+      await subject();
+
+      const currentUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.weth.address);
+      expect(previousUsingAsCollateral).to.be.true;
+      expect(currentUsingAsCollateral).to.be.false;
+    });
+
+    it("should unregister on the debt issuance module", async () => {
+      await subject();
+      const isRegistered = await debtIssuanceMock.isRegistered(ckToken.address);
+      expect(isRegistered).to.be.false;
+    });
+
+    describe("when borrow balance exists", async () => {
+      beforeEach(async () => {
+        await leverCKTokenToWeth(ckToken);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Variable debt remaining");
+      });
+    });
+  });
+
+  describe("#addUnderlyingToReserveTokensMapping", async () => {
+    let wbtcReserveTokens: AaveV2ReserveTokens;
+    let subjectUnderlying: Address;
+    let subjectCaller: Account;
+
+    cacheBeforeEach(async () => {
+      // Reserve is listed on Aave after the module is deployed
+      wbtcReserveTokens = await aaveSetup.createAndEnableReserve(setup.wbtc.address, "WBTC", 8, 7000, 7500, 10650);
+    });
+
+    beforeEach(async () => {
+      subjectUnderlying = setup.wbtc.address;
+      subjectCaller = await getRandomAccount();
+    });
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).addUnderlyingToReserveTokensMapping(subjectUnderlying);
+    }
+
+    it("should add the underlying to reserve tokens mapping", async () => {
+      await subject();
+
+      const reserveTokens = await aaveLeverageModule.underlyingToReserveTokens(setup.wbtc.address);
+      expect(reserveTokens.aToken).to.eq(wbtcReserveTokens.aToken.address);
+      expect(reserveTokens.variableDebtToken).to.eq(wbtcReserveTokens.variableDebtToken.address);
+    });
+
+    it("should emit the correct ReserveTokensUpdated event", async () => {
+      await expect(subject()).to.emit(aaveLeverageModule, "ReserveTokensUpdated").withArgs(
+        setup.wbtc.address,
+        wbtcReserveTokens.aToken.address,
+        wbtcReserveTokens.variableDebtToken.address
+      );
+    });
+
+    describe("when the mapping already exists", async () => {
+      beforeEach(async () => {
+        subjectUnderlying = setup.weth.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Mapping already exists");
+      });
+    });
+
+    describe("when the reserve is not active on Aave", async () => {
+      beforeEach(async () => {
+        await aaveSetup.lendingPool.setReserveActive(setup.wbtc.address, false);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Invalid aave reserve");
+      });
+    });
+
+    describe("when the asset has no reserve on Aave", async () => {
+      beforeEach(async () => {
+        subjectUnderlying = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Invalid aave reserve");
+      });
+    });
+  });
+
+  describe("#updateAllowedCKToken", async () => {
+    let ckToken: CKToken;
+
+    let subjectCKToken: Address;
+    let subjectStatus: boolean;
+    let subjectCaller: Account;
+
+    cacheBeforeEach(async () => {
+      ckToken = await setup.createCKToken(
+        [setup.weth.address],
+        [ether(1)],
+        [aaveLeverageModule.address, debtIssuanceMock.address]
+      );
+    });
+
+    beforeEach(async () => {
+      subjectCKToken = ckToken.address;
+      subjectStatus = true;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).updateAllowedCKToken(subjectCKToken, subjectStatus);
+    }
+
+    it("should add CK to allow list", async () => {
+      await subject();
+
+      const isAllowed = await aaveLeverageModule.allowedCKTokens(subjectCKToken);
+
+      expect(isAllowed).to.be.true;
+    });
+
+    it("should emit the correct CKTokenStatusUpdated event", async () => {
+      await expect(subject()).to.emit(aaveLeverageModule, "CKTokenStatusUpdated").withArgs(
+        subjectCKToken,
+        subjectStatus
+      );
+    });
+
+    describe("when disabling a CK", async () => {
+      beforeEach(async () => {
+        await subject();
+        subjectStatus = false;
+      });
+
+      it("should remove CK from allow list", async () => {
+        await subject();
+
+        const isAllowed = await aaveLeverageModule.allowedCKTokens(subjectCKToken);
+
+        expect(isAllowed).to.be.false;
+      });
+
+      it("should emit the correct CKTokenStatusUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "CKTokenStatusUpdated").withArgs(
+          subjectCKToken,
+          subjectStatus
+        );
+      });
+
+      describe("when CK is removed from the controller", async () => {
+        beforeEach(async () => {
+          await setup.controller.removeCK(ckToken.address);
+        });
+
+        it("should remove the CK from allow list", async () => {
+          await subject();
+
+          const isAllowed = await aaveLeverageModule.allowedCKTokens(subjectCKToken);
+
+          expect(isAllowed).to.be.false;
+        });
+      });
+    });
+
+    describe("when CK is not valid", async () => {
+      beforeEach(async () => {
+        subjectCKToken = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Invalid CKToken");
+      });
+    });
+
+    describe("when not called by owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = await getRandomAccount();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("#updateAnyCKAllowed", async () => {
+    let subjectAnyCKAllowed: boolean;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectAnyCKAllowed = true;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).updateAnyCKAllowed(subjectAnyCKAllowed);
+    }
+
+    it("should allow any CK to initialize the module", async () => {
+      await subject();
+
+      const anyCKAllowed = await aaveLeverageModule.anyCKAllowed();
+
+      expect(anyCKAllowed).to.be.true;
+    });
+
+    it("should emit the correct AnyCKAllowedUpdated event", async () => {
+      await expect(subject()).to.emit(aaveLeverageModule, "AnyCKAllowedUpdated").withArgs(
+        subjectAnyCKAllowed
+      );
+    });
+
+    describe("when not called by owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = await getRandomAccount();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("#registerToModule", async () => {
+    let ckToken: CKToken;
+    let otherIssuanceModule: DebtIssuanceMock;
+    let isInitialized: boolean;
+    let subjectCKToken: Address;
+    let subjectDebtIssuanceModule: Address;
+
+    const initializeContracts = async function() {
+      otherIssuanceModule = await deployer.mocks.deployDebtIssuanceMock();
+      await setup.controller.addModule(otherIssuanceModule.address);
+
+      ckToken = await setup.createCKToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, setup.issuanceModule.address, debtIssuanceMock.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      // Add CKToken to allow list
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      // Initialize module if set to true
+      if (isInitialized) {
+        await aaveLeverageModule.initialize(
+          ckToken.address,
+          [setup.weth.address, setup.dai.address],
+          [setup.dai.address, setup.weth.address]
+        );
+      }
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+      // Add other issuance mock after initializing Aave leverage module, so register is never called
+      await ckToken.addModule(otherIssuanceModule.address);
+      await otherIssuanceModule.initialize(ckToken.address);
+    };
+
+    const initializeSubjectVariables = () => {
+      subjectCKToken = ckToken.address;
+      subjectDebtIssuanceModule = otherIssuanceModule.address;
+    };
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.registerToModule(subjectCKToken, subjectDebtIssuanceModule);
+    }
+
+    describe("when module is initialized", () => {
+      beforeEach(() => {
+        isInitialized = true;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      it("should register on the other issuance module", async () => {
+        const previousIsRegistered = await otherIssuanceModule.isRegistered(ckToken.address);
+        await subject();
+        const currentIsRegistered = await otherIssuanceModule.isRegistered(ckToken.address);
+        expect(previousIsRegistered).to.be.false;
+        expect(currentIsRegistered).to.be.true;
+      });
+
+      describe("when CKToken is not valid", async () => {
+        beforeEach(async () => {
+          const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+            [setup.weth.address],
+            [ether(1)],
+            [aaveLeverageModule.address],
+            owner.address
+          );
+
+          subjectCKToken = nonEnabledCKToken.address;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+        });
+      });
+
+      describe("when debt issuance module is not initialized on CKToken", async () => {
+        beforeEach(async () => {
+          await ckToken.removeModule(otherIssuanceModule.address);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Issuance not initialized");
+        });
+      });
+    });
+
+    describe("when module is not initialized", async () => {
+      beforeEach(async () => {
+        isInitialized = false;
+        await initializeContracts();
+        initializeSubjectVariables();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+      });
+    });
+  });
+
+  describe("#addCollateralAssets", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+
+    let subjectCKToken: Address;
+    let subjectCollateralAssets: Address[];
+    let subjectCaller: Account;
+
+    const initializeContracts = async () => {
+      ckToken = await setup.createCKToken(
+        [aWETH.address, aDAI.address],
+        [ether(2), ether(1000)],
+        [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      // Add CKToken to allow list
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      // Initialize module if set to true
+      if (isInitialized) {
+        await aaveLeverageModule.initialize(ckToken.address, [setup.weth.address], []);
+      }
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      // Approve aTokens to issuance module and call issue
+      await aWETH.approve(setup.issuanceModule.address, ether(1000));
+      await aDAI.approve(setup.issuanceModule.address, ether(100000));
+      await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+    };
+
+    const initializeSubjectVariables = () => {
+      subjectCKToken = ckToken.address;
+      subjectCollateralAssets = [setup.dai.address];
+      subjectCaller = owner;
+    };
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).addCollateralAssets(subjectCKToken, subjectCollateralAssets);
+    }
+
+    describe("when module is initialized", () => {
+      before(() => {
+        isInitialized = true;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      it("should add the collateral asset to mappings", async () => {
+        await subject();
+        const collateralAssets = (await aaveLeverageModule.getEnabledAssets(ckToken.address))[0];
+        const isDaiCollateral = await aaveLeverageModule.collateralAssetEnabled(ckToken.address, setup.dai.address);
+
+        expect(JSON.stringify(collateralAssets)).to.eq(JSON.stringify([setup.weth.address, setup.dai.address]));
+        expect(isDaiCollateral).to.be.true;
+      });
+
+      it("should emit the correct CollateralAssetsUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "CollateralAssetsUpdated").withArgs(
+          ckToken.address,
+          true,
+          subjectCollateralAssets,
+        );
+      });
+
+      describe("when the aToken is held but disabled as collateral on Aave", async () => {
+        beforeEach(async () => {
+          await setup.controller.addModule(mockModule.address);
+          await ckToken.addModule(mockModule.address);
+          await ckToken.connect(mockModule.wallet).initializeModule();
+
+          // Disable aDAI as collateral directly on the lending pool
+          const disableCollateralData = aaveSetup.lendingPool.interface.encodeFunctionData(
+            "setUserUseReserveAsCollateral",
+            [setup.dai.address, false]
+          );
+          await ckToken.connect(mockModule.wallet).invoke(aaveSetup.lendingPool.address, ZERO, disableCollateralData);
+        });
+
+        it("should enable the aToken as collateral on Aave", async () => {
+          const previousUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.dai.address);
+
+          await subject();
+
+          const currentUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.dai.address);
+          expect(previousUsingAsCollateral).to.be.false;
+          expect(currentUsingAsCollateral).to.be.true;
+        });
+      });
+
+      describe("when collateral asset is duplicated", async () => {
+        beforeEach(async () => {
+          subjectCollateralAssets = [setup.weth.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Collateral already enabled");
+        });
+      });
+
+      describe("when the reserve was added to Aave after the module was deployed", async () => {
+        beforeEach(async () => {
+          await aaveSetup.createAndEnableReserve(setup.wbtc.address, "WBTC", 8, 7000, 7500, 10650);
+          subjectCollateralAssets = [setup.wbtc.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Invalid aToken address");
+        });
+      });
+
+      describe("when the reserve is frozen on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.setReserveFrozen(setup.dai.address, true);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Frozen aave reserve");
+        });
+      });
+
+      describe("when the reserve cannot be used as collateral on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.configureReserveAsCollateral(setup.dai.address, ZERO, ZERO, ZERO);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Collateral disabled on Aave");
+        });
+      });
+
+      describe("when the caller is not the CKToken manager", async () => {
+        beforeEach(async () => {
+          subjectCaller = await getRandomAccount();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        });
+      });
+    });
+
+    describe("when module is not initialized", async () => {
+      beforeEach(async () => {
+        isInitialized = false;
+        await initializeContracts();
+        initializeSubjectVariables();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+      });
+    });
+  });
+
+  describe("#removeCollateralAssets", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+
+    let subjectCKToken: Address;
+    let subjectCollateralAssets: Address[];
+    let subjectCaller: Account;
+
+    const initializeContracts = async () => {
+      ckToken = await setup.createCKToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      // Add CKToken to allow list
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      // Initialize module if set to true
+      if (isInitialized) {
+        await aaveLeverageModule.initialize(
+          ckToken.address,
+          [setup.weth.address, setup.dai.address],
+          [setup.dai.address]
+        );
+      }
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      // Approve aTokens to issuance module and call issue
+      await aWETH.approve(setup.issuanceModule.address, ether(1000));
+      await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+    };
+
+    const initializeSubjectVariables = () => {
+      subjectCKToken = ckToken.address;
+      subjectCollateralAssets = [setup.weth.address];
+      subjectCaller = owner;
+    };
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).removeCollateralAssets(subjectCKToken, subjectCollateralAssets);
+    }
+
+    describe("when module is initialized", () => {
+      before(() => {
+        isInitialized = true;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      it("should remove the collateral asset from mappings", async () => {
+        await subject();
+        const collateralAssets = (await aaveLeverageModule.getEnabledAssets(ckToken.address))[0];
+        const isWethCollateral = await aaveLeverageModule.collateralAssetEnabled(ckToken.address, setup.weth.address);
+
+        expect(JSON.stringify(collateralAssets)).to.eq(JSON.stringify([setup.dai.address]));
+        expect(isWethCollateral).to.be.false;
+      });
+
+      it("should disable the aToken as collateral on Aave", async () => {
+        await subject();
+
+        const isUsingAsCollateral = await aaveSetup.lendingPool.isUsingAsCollateral(ckToken.address, setup.weth.address);
+        expect(isUsingAsCollateral).to.be.false;
+      });
+
+      it("should emit the correct CollateralAssetsUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "CollateralAssetsUpdated").withArgs(
+          ckToken.address,
+          false,
+          subjectCollateralAssets,
+        );
+      });
+
+      describe("when the collateral backs an outstanding borrow", async () => {
+        beforeEach(async () => {
+          await leverCKTokenToWeth(ckToken);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("20");
+        });
+      });
+
+      describe("when collateral asset is not enabled on module", async () => {
+        beforeEach(async () => {
+          subjectCollateralAssets = [setup.weth.address, setup.wbtc.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Collateral not enabled");
+        });
+      });
+
+      describe("when the caller is not the CKToken manager", async () => {
+        beforeEach(async () => {
+          subjectCaller = await getRandomAccount();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        });
+      });
+    });
+
+    describe("when module is not initialized", async () => {
+      beforeEach(async () => {
+        isInitialized = false;
+        await initializeContracts();
+        initializeSubjectVariables();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+      });
+    });
+  });
+
+  describe("#addBorrowAssets", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+
+    let subjectCKToken: Address;
+    let subjectBorrowAssets: Address[];
+    let subjectCaller: Account;
+
+    const initializeContracts = async () => {
+      ckToken = await setup.createCKToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, debtIssuanceMock.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      // Add CKToken to allow list
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      // Initialize module if set to true
+      if (isInitialized) {
+        await aaveLeverageModule.initialize(ckToken.address, [setup.weth.address], [setup.dai.address]);
+      }
+    };
+
+    const initializeSubjectVariables = () => {
+      subjectCKToken = ckToken.address;
+      subjectBorrowAssets = [setup.weth.address];
+      subjectCaller = owner;
+    };
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).addBorrowAssets(subjectCKToken, subjectBorrowAssets);
+    }
+
+    describe("when module is initialized", () => {
+      before(() => {
+        isInitialized = true;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      it("should add the borrow asset to mappings", async () => {
+        await subject();
+        const borrowAssets = (await aaveLeverageModule.getEnabledAssets(ckToken.address))[1];
+        const isWethBorrow = await aaveLeverageModule.borrowAssetEnabled(ckToken.address, setup.weth.address);
+
+        expect(JSON.stringify(borrowAssets)).to.eq(JSON.stringify([setup.dai.address, setup.weth.address]));
+        expect(isWethBorrow).to.be.true;
+      });
+
+      it("should emit the correct BorrowAssetsUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "BorrowAssetsUpdated").withArgs(
+          ckToken.address,
+          true,
+          subjectBorrowAssets,
+        );
+      });
+
+      describe("when borrow asset is duplicated", async () => {
+        beforeEach(async () => {
+          subjectBorrowAssets = [setup.dai.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Borrow already enabled");
+        });
+      });
+
+      describe("when the reserve was added to Aave after the module was deployed", async () => {
+        beforeEach(async () => {
+          await aaveSetup.createAndEnableReserve(setup.wbtc.address, "WBTC", 8, 7000, 7500, 10650);
+          subjectBorrowAssets = [setup.wbtc.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Invalid variable debt token address");
+        });
+      });
+
+      describe("when the reserve is frozen on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.setReserveFrozen(setup.weth.address, true);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Frozen aave reserve");
+        });
+      });
+
+      describe("when borrowing is disabled on Aave", async () => {
+        beforeEach(async () => {
+          await aaveSetup.lendingPool.setBorrowingEnabled(setup.weth.address, false, false);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Borrowing disabled on Aave");
+        });
+      });
+
+      describe("when the caller is not the CKToken manager", async () => {
+        beforeEach(async () => {
+          subjectCaller = await getRandomAccount();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        });
+      });
+    });
+
+    describe("when module is not initialized", async () => {
+      beforeEach(async () => {
+        isInitialized = false;
+        await initializeContracts();
+        initializeSubjectVariables();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+      });
+    });
+  });
+
+  describe("#removeBorrowAssets", async () => {
+    let ckToken: CKToken;
+    let isInitialized: boolean;
+
+    let subjectCKToken: Address;
+    let subjectBorrowAssets: Address[];
+    let subjectCaller: Account;
+
+    const initializeContracts = async () => {
+      ckToken = await setup.createCKToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      // Add CKToken to allow list
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      // Initialize module if set to true
+      if (isInitialized) {
+        await aaveLeverageModule.initialize(
+          ckToken.address,
+          [setup.weth.address],
+          [setup.dai.address, setup.weth.address]
+        );
+      }
+      await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      // Approve aTokens to issuance module and call issue
+      await aWETH.approve(setup.issuanceModule.address, ether(1000));
+      await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+    };
+
+    const initializeSubjectVariables = () => {
+      subjectCKToken = ckToken.address;
+      subjectBorrowAssets = [setup.dai.address];
+      subjectCaller = owner;
+    };
+
+    async function subject(): Promise<any> {
+      return aaveLeverageModule.connect(subjectCaller.wallet).removeBorrowAssets(subjectCKToken, subjectBorrowAssets);
+    }
+
+    describe("when module is initialized", () => {
+      before(() => {
+        isInitialized = true;
+      });
+
+      cacheBeforeEach(initializeContracts);
+      beforeEach(initializeSubjectVariables);
+
+      it("should remove the borrow asset from mappings", async () => {
+        await subject();
+        const borrowAssets = (await aaveLeverageModule.getEnabledAssets(ckToken.address))[1];
+        const isDaiBorrow = await aaveLeverageModule.borrowAssetEnabled(ckToken.address, setup.dai.address);
+
+        expect(JSON.stringify(borrowAssets)).to.eq(JSON.stringify([setup.weth.address]));
+        expect(isDaiBorrow).to.be.false;
+      });
+
+      it("should emit the correct BorrowAssetsUpdated event", async () => {
+        await expect(subject()).to.emit(aaveLeverageModule, "BorrowAssetsUpdated").withArgs(
+          ckToken.address,
+          false,
+          subjectBorrowAssets,
+        );
+      });
+
+      describe("when borrow balance exists", async () => {
+        beforeEach(async () => {
+          await leverCKTokenToWeth(ckToken);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Variable debt remaining");
+        });
+      });
+
+      describe("when borrow asset is not enabled on module", async () => {
+        beforeEach(async () => {
+          subjectBorrowAssets = [setup.dai.address, setup.wbtc.address];
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Borrow not enabled");
+        });
+      });
+
+      describe("when the caller is not the CKToken manager", async () => {
+        beforeEach(async () => {
+          subjectCaller = await getRandomAccount();
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        });
+      });
+    });
+
+    describe("when module is not initialized", async () => {
+      beforeEach(async () => {
+        isInitialized = false;
+        await initializeContracts();
+        initializeSubjectVariables();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+      });
+    });
+  });
+
+  describe("#moduleIssueHook", async () => {
+    let ckToken: CKToken;
+
+    let subjectCKToken: Address;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral and DAI is borrow asset", async () => {
+      cacheBeforeEach(async () => {
+        // Add mock module to controller
+        await setup.controller.addModule(mockModule.address);
+
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, setup.issuanceModule.address, debtIssuanceMock.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        await aaveLeverageModule.initialize(
+          ckToken.address,
+          [setup.weth.address, setup.dai.address], // Enable DAI collateral that is not a CK position
+          [setup.dai.address, setup.weth.address]
+        );
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        // Initialize mock module
+        await ckToken.addModule(mockModule.address);
+        await ckToken.connect(mockModule.wallet).initializeModule();
+
+        // Approve aTokens to issuance module and call issue
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+        await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+
+        await leverCKTokenToWeth(ckToken);
+
+        // Accrue interest on both sides of the position
+        await aaveSetup.setReserveIndexes(setup.weth.address, ether(1.1).mul(1e9), ether(1).mul(1e9));
+        await aaveSetup.setReserveIndexes(setup.dai.address, ether(1).mul(1e9), ether(1.2).mul(1e9));
+      });
+
+      beforeEach(() => {
+        subjectCKToken = ckToken.address;
+        subjectCaller = mockModule;
+      });
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).moduleIssueHook(subjectCKToken, ZERO);
+      }
+
+      it("should update the collateral position on the CKToken correctly", async () => {
+        const initialPositions = await ckToken.getPositions();
+
+        await subject();
+
+        const currentPositions = await ckToken.getPositions();
+        const newFirstPosition = (await ckToken.getPositions())[0];
+
+        expect(initialPositions.length).to.eq(2);
+        expect(currentPositions.length).to.eq(2);
+        expect(newFirstPosition.component).to.eq(aWETH.address);
+        expect(newFirstPosition.positionState).to.eq(0); // Default
+        expect(newFirstPosition.unit).to.eq(await aWETH.balanceOf(ckToken.address));
+        expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+      });
+
+      it("should update the borrow position on the CKToken correctly", async () => {
+        await subject();
+
+        const newSecondPosition = (await ckToken.getPositions())[1];
+
+        const expectedSecondPositionUnit = (await variableDebtDAI.balanceOf(ckToken.address)).mul(-1);
+
+        expect(newSecondPosition.component).to.eq(setup.dai.address);
+        expect(newSecondPosition.positionState).to.eq(1); // External
+        expect(newSecondPosition.unit).to.eq(expectedSecondPositionUnit);
+        expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+      });
+
+      describe("when caller is not module", async () => {
+        beforeEach(async () => {
+          subjectCaller = owner;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Only the module can call");
+        });
+      });
+
+      describe("if disabled module is caller", async () => {
+        beforeEach(async () => {
+          await setup.controller.removeModule(mockModule.address);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Module must be enabled on controller");
+        });
+      });
+    });
+  });
+
+  describe("#moduleRedeemHook", async () => {
+    let ckToken: CKToken;
+
+    let subjectCKToken: Address;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral and DAI is borrow asset", async () => {
+      cacheBeforeEach(async () => {
+        // Add mock module to controller
+        await setup.controller.addModule(mockModule.address);
+
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, setup.issuanceModule.address, debtIssuanceMock.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        await aaveLeverageModule.initialize(
+          ckToken.address,
+          [setup.weth.address, setup.dai.address], // Enable DAI collateral that is not a CK position
+          [setup.dai.address, setup.weth.address]
+        );
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        // Initialize mock module
+        await ckToken.addModule(mockModule.address);
+        await ckToken.connect(mockModule.wallet).initializeModule();
+
+        // Approve aTokens to issuance module and call issue
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+        await setup.issuanceModule.issue(ckToken.address, ether(1), owner.address);
+
+        await leverCKTokenToWeth(ckToken);
+
+        // Accrue interest on both sides of the position
+        await aaveSetup.setReserveIndexes(setup.weth.address, ether(1.1).mul(1e9), ether(1).mul(1e9));
+        await aaveSetup.setReserveIndexes(setup.dai.address, ether(1).mul(1e9), ether(1.2).mul(1e9));
+      });
+
+      beforeEach(() => {
+        subjectCKToken = ckToken.address;
+        subjectCaller = mockModule;
+      });
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).moduleRedeemHook(subjectCKToken, ZERO);
+      }
+
+      it("should update the collateral position on the CKToken correctly", async () => {
+        await subject();
+
+        const newFirstPosition = (await ckToken.getPositions())[0];
+
+        expect(newFirstPosition.component).to.eq(aWETH.address);
+        expect(newFirstPosition.positionState).to.eq(0); // Default
+        expect(newFirstPosition.unit).to.eq(await aWETH.balanceOf(ckToken.address));
+        expect(newFirstPosition.module).to.eq(ADDRESS_ZERO);
+      });
+
+      it("should update the borrow position on the CKToken correctly", async () => {
+        await subject();
+
+        const newSecondPosition = (await ckToken.getPositions())[1];
+
+        const expectedSecondPositionUnit = (await variableDebtDAI.balanceOf(ckToken.address)).mul(-1);
+
+        expect(newSecondPosition.component).to.eq(setup.dai.address);
+        expect(newSecondPosition.positionState).to.eq(1); // External
+        expect(newSecondPosition.unit).to.eq(expectedSecondPositionUnit);
+        expect(newSecondPosition.module).to.eq(aaveLeverageModule.address);
+      });
+
+      describe("when caller is not module", async () => {
+        beforeEach(async () => {
+          subjectCaller = owner;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Only the module can call");
+        });
+      });
+
+      describe("if disabled module is caller", async () => {
+        beforeEach(async () => {
+          await setup.controller.removeModule(mockModule.address);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Module must be enabled on controller");
+        });
+      });
+    });
+  });
+
+  describe("#componentIssueHook", async () => {
+    let ckToken: CKToken;
+    let borrowQuantity: BigNumber;
+    let issueQuantity: BigNumber;
+
+    let subjectCKToken: Address;
+    let subjectCKQuantity: BigNumber;
+    let subjectComponent: Address;
+    let subjectIsEquity: boolean;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral and DAI is borrow asset", async () => {
+      cacheBeforeEach(async () => {
+        // Add mock module to controller
+        await setup.controller.addModule(mockModule.address);
+
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, setup.issuanceModule.address, debtIssuanceMock.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        await aaveLeverageModule.initialize(ckToken.address, [setup.weth.address], [setup.dai.address]);
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        // Initialize mock module
+        await ckToken.addModule(mockModule.address);
+        await ckToken.connect(mockModule.wallet).initializeModule();
+
+        // Approve aTokens to issuance module and call issue
+        issueQuantity = ether(1);
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+        await setup.issuanceModule.issue(ckToken.address, issueQuantity, owner.address);
+
+        // Lever aWETH in CKToken
+        borrowQuantity = ether(1000);
+        await leverCKTokenToWeth(ckToken);
+      });
+
+      beforeEach(() => {
+        subjectCKToken = ckToken.address;
+        subjectCKQuantity = issueQuantity;
+        subjectComponent = setup.dai.address;
+        subjectIsEquity = false;
+        subjectCaller = mockModule;
+      });
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).componentIssueHook(
+          subjectCKToken,
+          subjectCKQuantity,
+          subjectComponent,
+          subjectIsEquity
+        );
+      }
+
+      it("should increase borrowed quantity on the CKToken", async () => {
+        const previousDaiBalance = await setup.dai.balanceOf(ckToken.address);
+
+        await subject();
+
+        const currentDaiBalance = await setup.dai.balanceOf(ckToken.address);
+
+        expect(previousDaiBalance).to.eq(ZERO);
+        expect(currentDaiBalance).to.eq(preciseMul(borrowQuantity, subjectCKQuantity));
+      });
+
+      it("should increase the variable debt of the CKToken", async () => {
+        const previousBorrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+
+        await subject();
+
+        const currentBorrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+        expect(currentBorrowBalance).to.eq(previousBorrowBalance.add(preciseMul(borrowQuantity, subjectCKQuantity)));
+      });
+
+      describe("when isEquity is true", async () => {
+        beforeEach(async () => {
+          subjectIsEquity = true;
+        });
+
+        it("should not borrow on behalf of the CKToken", async () => {
+          await subject();
+
+          const currentDaiBalance = await setup.dai.balanceOf(ckToken.address);
+          expect(currentDaiBalance).to.eq(ZERO);
+        });
+      });
+
+      describe("when component has positive unit", async () => {
+        beforeEach(async () => {
+          subjectComponent = aWETH.address;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Component must be negative");
+        });
+      });
+
+      describe("when caller is not module", async () => {
+        beforeEach(async () => {
+          subjectCaller = owner;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Only the module can call");
+        });
+      });
+
+      describe("if disabled module is caller", async () => {
+        beforeEach(async () => {
+          await setup.controller.removeModule(mockModule.address);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Module must be enabled on controller");
+        });
+      });
+    });
+  });
+
+  describe("#componentRedeemHook", async () => {
+    let ckToken: CKToken;
+    let repayQuantity: BigNumber;
+    let issueQuantity: BigNumber;
+
+    let subjectCKToken: Address;
+    let subjectCKQuantity: BigNumber;
+    let subjectComponent: Address;
+    let subjectIsEquity: boolean;
+    let subjectCaller: Account;
+
+    context("when aWETH is collateral and DAI is borrow asset", async () => {
+      cacheBeforeEach(async () => {
+        // Add mock module to controller
+        await setup.controller.addModule(mockModule.address);
+
+        ckToken = await setup.createCKToken(
+          [aWETH.address],
+          [ether(2)],
+          [aaveLeverageModule.address, setup.issuanceModule.address, debtIssuanceMock.address]
+        );
+        await debtIssuanceMock.initialize(ckToken.address);
+        // Add CKToken to allow list
+        await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+        await aaveLeverageModule.initialize(ckToken.address, [setup.weth.address], [setup.dai.address]);
+        await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+        // Initialize mock module
+        await ckToken.addModule(mockModule.address);
+        await ckToken.connect(mockModule.wallet).initializeModule();
+
+        // Approve aTokens to issuance module and call issue
+        issueQuantity = ether(1);
+        await aWETH.approve(setup.issuanceModule.address, ether(1000));
+        await setup.issuanceModule.issue(ckToken.address, issueQuantity, owner.address);
+
+        // Lever aWETH in CKToken
+        repayQuantity = ether(1000);
+        await leverCKTokenToWeth(ckToken);
+
+        // Transfer of repay token to CKToken is performed by the issuance module before the hook is called
+        await setup.dai.transfer(ckToken.address, repayQuantity);
+      });
+
+      beforeEach(() => {
+        subjectCKToken = ckToken.address;
+        subjectCKQuantity = issueQuantity;
+        subjectComponent = setup.dai.address;
+        subjectIsEquity = false;
+        subjectCaller = mockModule;
+      });
+
+      async function subject(): Promise<any> {
+        return aaveLeverageModule.connect(subjectCaller.wallet).componentRedeemHook(
+          subjectCKToken,
+          subjectCKQuantity,
+          subjectComponent,
+          subjectIsEquity
+        );
+      }
+
+      it("should repay the borrow on Aave", async () => {
+        const previousBorrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+
+        await subject();
+
+        const currentBorrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+
+        expect(previousBorrowBalance).to.eq(repayQuantity);
+        expect(currentBorrowBalance).to.eq(ZERO);
+      });
+
+      it("should use the DAI held by the CKToken", async () => {
+        await subject();
+
+        const currentDaiBalance = await setup.dai.balanceOf(ckToken.address);
+        expect(currentDaiBalance).to.eq(ZERO);
+      });
+
+      describe("when isEquity is true", async () => {
+        beforeEach(async () => {
+          subjectIsEquity = true;
+        });
+
+        it("should not repay on behalf of the CKToken", async () => {
+          await subject();
+
+          const currentBorrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+          expect(currentBorrowBalance).to.eq(repayQuantity);
+        });
+      });
+
+      describe("when component has positive unit", async () => {
+        beforeEach(async () => {
+          subjectComponent = aWETH.address;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Component must be negative");
+        });
+      });
+
+      describe("when caller is not module", async () => {
+        beforeEach(async () => {
+          subjectCaller = owner;
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Only the module can call");
+        });
+      });
+
+      describe("if disabled module is caller", async () => {
+        beforeEach(async () => {
+          await setup.controller.removeModule(mockModule.address);
+        });
+
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Module must be enabled on controller");
+        });
+      });
+    });
+  });
+
+  context("when a levered CKToken is issued and redeemed through the DebtIssuanceModule", async () => {
+    let ckToken: CKToken;
+    let debtIssuanceModule: DebtIssuanceModule;
+
+    let subjectCKToken: Address;
+    let subjectQuantity: BigNumber;
+    let subjectTo: Address;
+
+    cacheBeforeEach(async () => {
+      debtIssuanceModule = await deployer.modules.deployDebtIssuanceModule(setup.controller.address);
+      await setup.controller.addModule(debtIssuanceModule.address);
+
+      ckToken = await setup.createCKToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, debtIssuanceMock.address, debtIssuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(ckToken.address);
+      await debtIssuanceModule.initialize(ckToken.address, ether(0.02), ZERO, ZERO, owner.address, ADDRESS_ZERO);
+      // Add CKToken to allow list. Initializing registers the module hooks on every issuance module
+      await aaveLeverageModule.updateAllowedCKToken(ckToken.address, true);
+      await aaveLeverageModule.initialize(ckToken.address, [setup.weth.address], [setup.dai.address]);
+
+      // Issue 1 CKToken and lever to 3 aWETH and 1000 DAI of debt per CKToken
+      await aWETH.approve(debtIssuanceModule.address, MAX_UINT_256);
+      await setup.dai.approve(debtIssuanceModule.address, MAX_UINT_256);
+      await debtIssuanceModule.issue(ckToken.address, ether(1), owner.address);
+      await leverCKTokenToWeth(ckToken);
+    });
+
+    beforeEach(() => {
+      subjectCKToken = ckToken.address;
+      subjectQuantity = ether(1);
+      subjectTo = owner.address;
+    });
+
+    it("should be registered as an issuance hook on the DebtIssuanceModule", async () => {
+      const isModuleIssuanceHook = await debtIssuanceModule.isModuleIssuanceHook(ckToken.address, aaveLeverageModule.address);
+      expect(isModuleIssuanceHook).to.be.true;
+    });
+
+    describe("#issue", async () => {
+      async function subject(): Promise<any> {
+        return debtIssuanceModule.issue(subjectCKToken, subjectQuantity, subjectTo);
+      }
+
+      it("should return the required equity and debt quantities", async () => {
+        const [components, equityUnits, debtUnits] = await debtIssuanceModule.getRequiredComponentIssuanceUnits(
+          subjectCKToken,
+          subjectQuantity
+        );
+
+        expect(JSON.stringify(components)).to.eq(JSON.stringify([aWETH.address, setup.dai.address]));
+        expect(equityUnits[0]).to.eq(ether(3));
+        expect(equityUnits[1]).to.eq(ZERO);
+        expect(debtUnits[0]).to.eq(ZERO);
+        expect(debtUnits[1]).to.eq(ether(1000));
+      });
+
+      it("should transfer the aWETH from the issuer and return the borrowed DAI", async () => {
+        const previousAWethBalance = await aWETH.balanceOf(owner.address);
+        const previousDaiBalance = await setup.dai.balanceOf(owner.address);
+
+        await subject();
+
+        const currentAWethBalance = await aWETH.balanceOf(owner.address);
+        const currentDaiBalance = await setup.dai.balanceOf(owner.address);
+        expect(currentAWethBalance).to.eq(previousAWethBalance.sub(ether(3)));
+        expect(currentDaiBalance).to.eq(previousDaiBalance.add(ether(1000)));
+      });
+
+      it("should borrow on Aave on behalf of the CKToken", async () => {
+        await subject();
+
+        const borrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+        expect(borrowBalance).to.eq(ether(2000));
+      });
+
+      it("should keep the position units of the CKToken", async () => {
+        await subject();
+
+        const currentPositions = await ckToken.getPositions();
+        expect(currentPositions.length).to.eq(2);
+        expect(currentPositions[0].unit).to.eq(ether(3));
+        expect(currentPositions[1].unit).to.eq(ether(-1000));
+      });
+
+      describe("when interest has accrued on the borrow", async () => {
+        beforeEach(async () => {
+          // Variable borrow index of 1.1 ray grows the 1000 DAI borrow to 1100 DAI
+          await aaveSetup.setReserveIndexes(setup.dai.address, ether(1).mul(1e9), ether(1.1).mul(1e9));
+        });
+
+        it("should sync the borrow position before returning the debt to the issuer", async () => {
+          const previousDaiBalance = await setup.dai.balanceOf(owner.address);
+
+          await subject();
+
+          const currentDaiBalance = await setup.dai.balanceOf(owner.address);
+          expect(currentDaiBalance).to.eq(previousDaiBalance.add(ether(1100)));
+        });
+      });
+    });
+
+    describe("#redeem", async () => {
+      async function subject(): Promise<any> {
+        return debtIssuanceModule.redeem(subjectCKToken, subjectQuantity, subjectTo);
+      }
+
+      it("should transfer the DAI from the redeemer and return the aWETH", async () => {
+        const previousAWethBalance = await aWETH.balanceOf(owner.address);
+        const previousDaiBalance = await setup.dai.balanceOf(owner.address);
+
+        await subject();
+
+        const currentAWethBalance = await aWETH.balanceOf(owner.address);
+        const currentDaiBalance = await setup.dai.balanceOf(owner.address);
+        expect(currentAWethBalance).to.eq(previousAWethBalance.add(ether(3)));
+        expect(currentDaiBalance).to.eq(previousDaiBalance.sub(ether(1000)));
+      });
+
+      it("should repay the borrow on Aave on behalf of the CKToken", async () => {
+        await subject();
+
+        const borrowBalance = await variableDebtDAI.balanceOf(ckToken.address);
+        expect(borrowBalance).to.eq(ZERO);
+      });
+
+      describe("when interest has accrued on the borrow", async () => {
+        beforeEach(async () => {
+          // Variable borrow index of 1.1 ray grows the 1000 DAI borrow to 1100 DAI
+          await aaveSetup.setReserveIndexes(setup.dai.address, ether(1).mul(1e9), ether(1.1).mul(1e9));
+        });
+
+        it("should sync the borrow position and require the accrued debt from the redeemer", async () => {
+          const previousDaiBalance = await setup.dai.balanceOf(owner.address);
+
+          await subject();
+
+          const currentDaiBalance = await setup.dai.balanceOf(owner.address);
+          expect(currentDaiBalance).to.eq(previousDaiBalance.sub(ether(1100)));
+          expect(await variableDebtDAI.balanceOf(ckToken.address)).to.eq(ZERO);
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,584 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, BatchIssuanceSettingV2 } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { BatchIssuanceModuleV2, CKToken, IssuanceModule } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { ether, preciseMul } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAccount,
+  getRandomAddress,
+  getWaffleExpect,
+  loadFixtureCombination,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("BatchIssuanceModuleV2", () => {
+  let owner: Account;
+  let alice: Account;
+  let bob: Account;
+  let keeper: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let issuanceModule: IssuanceModule;
+  let batchIssuanceModule: BatchIssuanceModuleV2;
+  let batchIssuanceSetting: BatchIssuanceSettingV2;
+  let ckToken: CKToken;
+
+  // BatchIssuanceModuleV2.batchIssue always passes 1% as the IssuanceModule's slippage reserve
+  const ISSUANCE_SLIPPAGE = ether(0.01);
+
+  before(async () => {
+    [
+      owner,
+      alice,
+      bob,
+      keeper,
+    ] = await getAccounts();
+
+    setup = (await loadFixtureCombination(owner)).system;
+    deployer = new DeployHelper(owner.wallet);
+
+    issuanceModule = await deployer.modules.deployIssuanceModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(issuanceModule.address);
+
+    batchIssuanceModule = await deployer.modules.deployBatchIssuanceModuleV2(
+      setup.controller.address,
+      setup.weth.address,
+      issuanceModule.address
+    );
+    await setup.controller.addModule(batchIssuanceModule.address);
+
+    // With the pooled token as the only component IssuanceModule issues without trading
+    ckToken = await setup.createCKToken(
+      [setup.weth.address],
+      [ether(1)],
+      [issuanceModule.address, batchIssuanceModule.address]
+    );
+    await issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+    batchIssuanceSetting = {
+      pooledToken: setup.weth.address,
+      slippage: ether(0.01),
+      incentive: ether(0.005),
+    };
+    await batchIssuanceModule.initialize(ckToken.address, batchIssuanceSetting);
+
+    const depositors = [alice, bob];
+    for (let i = 0; i < depositors.length; i++) {
+      await setup.weth.transfer(depositors[i].address, ether(20));
+      await setup.dai.transfer(depositors[i].address, ether(1000));
+      await setup.weth.connect(depositors[i].wallet).approve(batchIssuanceModule.address, MAX_UINT_256);
+      await setup.dai.connect(depositors[i].wallet).approve(batchIssuanceModule.address, MAX_UINT_256);
+    }
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function deposit(depositor: Account, amount: BigNumber): Promise<void> {
+    await batchIssuanceModule.connect(depositor.wallet).deposit(ckToken.address, amount);
+  }
+
+  // CKTokens a round of deposits mints: the incentive is held back and the rest issued at a CKToken price of 1 WETH
+  function getExpectedIssued(deposited: BigNumber, incentive: BigNumber): BigNumber {
+    const toMintAmount = preciseMul(deposited, ether(1).sub(incentive));
+    return preciseMul(toMintAmount, ether(1).sub(ISSUANCE_SLIPPAGE));
+  }
+
+  describe("#constructor", async () => {
+    let subjectController: Address;
+    let subjectWETH: Address;
+    let subjectIssuanceModule: Address;
+
+    beforeEach(async () => {
+      subjectController = setup.controller.address;
+      subjectWETH = setup.weth.address;
+      subjectIssuanceModule = issuanceModule.address;
+    });
+
+    async function subject(): Promise<BatchIssuanceModuleV2> {
+      return deployer.modules.deployBatchIssuanceModuleV2(subjectController, subjectWETH, subjectIssuanceModule);
+    }
+
+    it("should set the controller, weth and issuance module", async () => {
+      const deployedModule = await subject();
+
+      expect(await deployedModule.controller()).to.eq(subjectController);
+      expect(await deployedModule.weth()).to.eq(subjectWETH);
+      expect(await deployedModule.issuanceModule()).to.eq(subjectIssuanceModule);
+    });
+  });
+
+  describe("#initialize", async () => {
+    let subjectCKToken: Address;
+    let subjectSetting: BatchIssuanceSettingV2;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      const newCKToken = await setup.createCKToken(
+        [setup.weth.address],
+        [ether(1)],
+        [issuanceModule.address, batchIssuanceModule.address]
+      );
+      await issuanceModule.initialize(newCKToken.address, ADDRESS_ZERO);
+
+      subjectCKToken = newCKToken.address;
+      subjectSetting = {
+        pooledToken: setup.dai.address,
+        slippage: ether(0.02),
+        incentive: ether(0.001),
+      };
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(subjectCaller.wallet).initialize(subjectCKToken, subjectSetting);
+    }
+
+    it("should store the batch issuance setting", async () => {
+      await subject();
+
+      const setting = await batchIssuanceModule.batchIssuanceSettings(subjectCKToken);
+      expect(setting.pooledToken).to.eq(subjectSetting.pooledToken);
+      expect(setting.slippage).to.eq(subjectSetting.slippage);
+      expect(setting.incentive).to.eq(subjectSetting.incentive);
+    });
+
+    it("should start the CKToken at round 0", async () => {
+      await subject();
+
+      expect(await batchIssuanceModule.getCurrentRound(subjectCKToken)).to.eq(ZERO);
+    });
+
+    describe("when the IssuanceModule is not initialized on the CKToken", async () => {
+      beforeEach(async () => {
+        const newCKToken = await setup.createCKToken(
+          [setup.weth.address],
+          [ether(1)],
+          [issuanceModule.address, batchIssuanceModule.address]
+        );
+        subjectCKToken = newCKToken.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("IssuanceModule must be initialized");
+      });
+    });
+
+    describe("when the caller is not the CKToken manager", async () => {
+      beforeEach(async () => {
+        subjectCaller = await getRandomAccount();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+      });
+    });
+  });
+
+  describe("#depositEth", async () => {
+    let subjectValue: BigNumber;
+
+    beforeEach(async () => {
+      subjectValue = ether(1.5);
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(alice.wallet).depositEth(ckToken.address, { value: subjectValue });
+    }
+
+    it("should wrap the ETH and credit it to the current round", async () => {
+      await subject();
+
+      expect(await setup.weth.balanceOf(batchIssuanceModule.address)).to.eq(subjectValue);
+      expect(await batchIssuanceModule.inputBalanceOf(ckToken.address, alice.address)).to.eq(subjectValue);
+      expect(await batchIssuanceModule.getCurrentRoundDeposited(ckToken.address)).to.eq(subjectValue);
+    });
+
+    it("should emit the Deposit event", async () => {
+      await expect(subject()).to.emit(batchIssuanceModule, "Deposit").withArgs(ckToken.address, alice.address, subjectValue, ZERO);
+    });
+  });
+
+  describe("#batchIssue", async () => {
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      await deposit(alice, ether(3));
+      await deposit(bob, ether(1));
+      subjectCaller = keeper;
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(subjectCaller.wallet).batchIssue(ckToken.address);
+    }
+
+    it("should mint the round's CKTokens to the module", async () => {
+      await subject();
+
+      const expectedIssued = getExpectedIssued(ether(4), batchIssuanceSetting.incentive);
+      const roundInfo = await batchIssuanceModule.roundInfos(ckToken.address, 0);
+      expect(roundInfo.totalCkTokenIssued).to.eq(expectedIssued);
+      expect(await ckToken.balanceOf(batchIssuanceModule.address)).to.eq(expectedIssued);
+    });
+
+    it("should pay the caller the incentive and the pooled token the IssuanceModule returned", async () => {
+      const previousCallerBalance = await setup.weth.balanceOf(subjectCaller.address);
+
+      await subject();
+
+      const expectedIssued = getExpectedIssued(ether(4), batchIssuanceSetting.incentive);
+      const callerBalance = await setup.weth.balanceOf(subjectCaller.address);
+      expect(callerBalance.sub(previousCallerBalance)).to.eq(ether(4).sub(expectedIssued));
+      expect(callerBalance.sub(previousCallerBalance)).to.be.gte(preciseMul(ether(4), batchIssuanceSetting.incentive));
+      expect(await setup.weth.balanceOf(batchIssuanceModule.address)).to.eq(ZERO);
+    });
+
+    it("should emit the CKTokenBatchIssued event", async () => {
+      const expectedIssued = getExpectedIssued(ether(4), batchIssuanceSetting.incentive);
+
+      await expect(subject()).to.emit(batchIssuanceModule, "CKTokenBatchIssued").withArgs(
+        ckToken.address,
+        setup.weth.address,
+        ether(4),
+        expectedIssued,
+        ZERO,
+        ether(4).sub(expectedIssued)
+      );
+    });
+
+    it("should split the CKTokens between depositors by deposit and open the next round", async () => {
+      await subject();
+
+      const expectedIssued = getExpectedIssued(ether(4), batchIssuanceSetting.incentive);
+      expect(await batchIssuanceModule.outputBalanceOf(ckToken.address, alice.address)).to.eq(expectedIssued.mul(3).div(4));
+      expect(await batchIssuanceModule.outputBalanceOf(ckToken.address, bob.address)).to.eq(expectedIssued.div(4));
+      expect(await batchIssuanceModule.inputBalanceOf(ckToken.address, alice.address)).to.eq(ZERO);
+      expect(await batchIssuanceModule.getCurrentRound(ckToken.address)).to.eq(1);
+    });
+
+    describe("when the incentive rate is raised", async () => {
+      beforeEach(async () => {
+        await batchIssuanceModule.updateIncentiveRate(ckToken.address, ether(0.02));
+      });
+
+      it("should issue less and pay the caller more", async () => {
+        const previousCallerBalance = await setup.weth.balanceOf(subjectCaller.address);
+
+        await subject();
+
+        const expectedIssued = getExpectedIssued(ether(4), ether(0.02));
+        const callerBalance = await setup.weth.balanceOf(subjectCaller.address);
+        expect(await ckToken.balanceOf(batchIssuanceModule.address)).to.eq(expectedIssued);
+        expect(callerBalance.sub(previousCallerBalance)).to.eq(ether(4).sub(expectedIssued));
+        expect(callerBalance.sub(previousCallerBalance)).to.be.gte(ether(0.08));
+      });
+    });
+
+    describe("when the configured slippage is changed", async () => {
+      beforeEach(async () => {
+        await batchIssuanceModule.updateSlippage(ckToken.address, ether(0.05));
+      });
+
+      it("should still reserve the fixed issuance slippage", async () => {
+        await subject();
+
+        expect(await ckToken.balanceOf(batchIssuanceModule.address)).to.eq(
+          getExpectedIssued(ether(4), batchIssuanceSetting.incentive)
+        );
+      });
+    });
+
+    describe("when the round has no deposits", async () => {
+      beforeEach(async () => {
+        await subject();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Quantity must be > 0");
+      });
+    });
+
+    describe("when the module is not initialized on the CKToken", async () => {
+      beforeEach(async () => {
+        await ckToken.removeModule(batchIssuanceModule.address);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+      });
+    });
+  });
+
+  describe("#updateSlippage", async () => {
+    let subjectSlippage: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectSlippage = ether(0.03);
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(subjectCaller.wallet).updateSlippage(ckToken.address, subjectSlippage);
+    }
+
+    it("should store the slippage and emit the SlippageUpdated event", async () => {
+      await expect(subject()).to.emit(batchIssuanceModule, "SlippageUpdated").withArgs(ckToken.address, subjectSlippage);
+
+      expect((await batchIssuanceModule.batchIssuanceSettings(ckToken.address)).slippage).to.eq(subjectSlippage);
+    });
+
+    describe("when the caller is not the CKToken manager", async () => {
+      beforeEach(async () => {
+        subjectCaller = alice;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+      });
+    });
+  });
+
+  describe("#updateIncentiveRate", async () => {
+    let subjectIncentive: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectIncentive = ether(0.015);
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(subjectCaller.wallet).updateIncentiveRate(ckToken.address, subjectIncentive);
+    }
+
+    it("should store the incentive and emit the IncentiveUpdated event", async () => {
+      await expect(subject()).to.emit(batchIssuanceModule, "IncentiveUpdated").withArgs(ckToken.address, subjectIncentive);
+
+      expect((await batchIssuanceModule.batchIssuanceSettings(ckToken.address)).incentive).to.eq(subjectIncentive);
+    });
+
+    describe("when the caller is not the CKToken manager", async () => {
+      beforeEach(async () => {
+        subjectCaller = keeper;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+      });
+    });
+  });
+
+  describe("#updatePooledToken", async () => {
+    let subjectPooledToken: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      await deposit(alice, ether(2));
+      await batchIssuanceModule.batchIssue(ckToken.address);
+
+      subjectPooledToken = setup.dai.address;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(subjectCaller.wallet).updatePooledToken(ckToken.address, subjectPooledToken);
+    }
+
+    it("should pool the new token from the next deposit", async () => {
+      await expect(subject()).to.emit(batchIssuanceModule, "PooledTokenUpdated").withArgs(ckToken.address, subjectPooledToken);
+
+      await deposit(bob, ether(100));
+      expect((await batchIssuanceModule.batchIssuanceSettings(ckToken.address)).pooledToken).to.eq(subjectPooledToken);
+      expect(await setup.dai.balanceOf(batchIssuanceModule.address)).to.eq(ether(100));
+      expect(await batchIssuanceModule.inputBalanceOf(ckToken.address, bob.address)).to.eq(ether(100));
+    });
+
+    it("should keep rounds issued from the old token withdrawable", async () => {
+      await subject();
+
+      const expectedIssued = getExpectedIssued(ether(2), batchIssuanceSetting.incentive);
+      await batchIssuanceModule.connect(alice.wallet).withdrawCKToken(ckToken.address);
+      expect(await ckToken.balanceOf(alice.address)).to.eq(expectedIssued);
+    });
+
+    it("should reject ETH deposits once the pooled token is not WETH", async () => {
+      await subject();
+
+      await expect(
+        batchIssuanceModule.connect(bob.wallet).depositEth(ckToken.address, { value: ether(1) })
+      ).to.be.revertedWith("pooled must be WETH");
+    });
+
+    describe("when the current round has deposits", async () => {
+      beforeEach(async () => {
+        await deposit(bob, ether(1));
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("should drain batch first");
+      });
+
+      describe("when the round is issued", async () => {
+        beforeEach(async () => {
+          await batchIssuanceModule.batchIssue(ckToken.address);
+        });
+
+        it("should switch the pooled token", async () => {
+          await subject();
+
+          expect((await batchIssuanceModule.batchIssuanceSettings(ckToken.address)).pooledToken).to.eq(subjectPooledToken);
+        });
+      });
+    });
+
+    describe("when the pooled token is unset", async () => {
+      beforeEach(async () => {
+        subjectPooledToken = ADDRESS_ZERO;
+      });
+
+      it("should reject deposits", async () => {
+        await subject();
+
+        await expect(deposit(bob, ether(1))).to.be.revertedWith("pooled token no specified");
+      });
+    });
+
+    describe("when the caller is not the CKToken manager", async () => {
+      beforeEach(async () => {
+        subjectCaller = alice;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+      });
+    });
+  });
+
+  describe("#withdrawCKTokenTo", async () => {
+    let roundZeroIssued: BigNumber;
+    let roundOneIssued: BigNumber;
+
+    let subjectTo: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      // Round 0: alice and bob, round 1: bob only, round 2: alice, still open
+      await deposit(alice, ether(2));
+      await deposit(bob, ether(6));
+      await batchIssuanceModule.batchIssue(ckToken.address);
+      roundZeroIssued = (await batchIssuanceModule.roundInfos(ckToken.address, 0)).totalCkTokenIssued;
+
+      await deposit(bob, ether(4));
+      await batchIssuanceModule.batchIssue(ckToken.address);
+      roundOneIssued = (await batchIssuanceModule.roundInfos(ckToken.address, 1)).totalCkTokenIssued;
+
+      await deposit(alice, ether(5));
+
+      subjectTo = bob.address;
+      subjectCaller = bob;
+    });
+
+    async function subject(): Promise<any> {
+      return batchIssuanceModule.connect(subjectCaller.wallet).withdrawCKTokenTo(ckToken.address, subjectTo);
+    }
+
+    it("should pay out every issued round the recipient deposited into", async () => {
+      await subject();
+
+      const expectedWithdrawn = roundZeroIssued.mul(6).div(8).add(roundOneIssued);
+      expect(await ckToken.balanceOf(bob.address)).to.eq(expectedWithdrawn);
+      expect(await batchIssuanceModule.outputBalanceOf(ckToken.address, bob.address)).to.eq(ZERO);
+    });
+
+    it("should leave the rest of a shared round to its other depositors", async () => {
+      await subject();
+
+      const roundInfo = await batchIssuanceModule.roundInfos(ckToken.address, 0);
+      expect(roundInfo.totalEthDeposited).to.eq(ether(2));
+      expect(roundInfo.totalCkTokenIssued).to.eq(roundZeroIssued.sub(roundZeroIssued.mul(6).div(8)));
+      expect(await batchIssuanceModule.outputBalanceOf(ckToken.address, alice.address)).to.eq(roundInfo.totalCkTokenIssued);
+    });
+
+    it("should emit the WithdrawCKToken event", async () => {
+      await expect(subject()).to.emit(batchIssuanceModule, "WithdrawCKToken").withArgs(
+        ckToken.address,
+        bob.address,
+        bob.address,
+        roundZeroIssued.mul(6).div(8).add(roundOneIssued)
+      );
+    });
+
+    describe("when the recipient has deposits in the open round", async () => {
+      beforeEach(async () => {
+        subjectTo = alice.address;
+      });
+
+      it("should pay out the issued rounds and keep the open deposit pending", async () => {
+        await subject();
+
+        expect(await ckToken.balanceOf(alice.address)).to.eq(roundZeroIssued.mul(2).div(8));
+        expect(await batchIssuanceModule.inputBalanceOf(ckToken.address, alice.address)).to.eq(ether(5));
+      });
+
+      describe("when the open round is issued afterwards", async () => {
+        beforeEach(async () => {
+          await subject();
+          await batchIssuanceModule.batchIssue(ckToken.address);
+        });
+
+        it("should pay out only the newly issued round", async () => {
+          const roundTwoIssued = (await batchIssuanceModule.roundInfos(ckToken.address, 2)).totalCkTokenIssued;
+
+          await subject();
+
+          expect(await ckToken.balanceOf(alice.address)).to.eq(roundZeroIssued.mul(2).div(8).add(roundTwoIssued));
+        });
+      });
+    });
+
+    describe("when a third party withdraws for the recipient", async () => {
+      beforeEach(async () => {
+        subjectCaller = keeper;
+      });
+
+      it("should send the CKTokens to the recipient and emit the caller as the sender", async () => {
+        await expect(subject()).to.emit(batchIssuanceModule, "WithdrawCKToken").withArgs(
+          ckToken.address,
+          keeper.address,
+          bob.address,
+          roundZeroIssued.mul(6).div(8).add(roundOneIssued)
+        );
+        expect(await ckToken.balanceOf(keeper.address)).to.eq(ZERO);
+      });
+    });
+
+    describe("when the recipient has already withdrawn", async () => {
+      beforeEach(async () => {
+        await subject();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("no claimable ckToken");
+      });
+    });
+
+    describe("when the recipient never deposited", async () => {
+      beforeEach(async () => {
+        subjectTo = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("no claimable ckToken");
+      });
+    });
+  });
+});
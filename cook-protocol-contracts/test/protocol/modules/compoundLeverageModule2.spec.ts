@@ -18,10 +18,9 @@ import {
   cacheBeforeEach,
   getAccounts,
   getWaffleExpect,
-  getSystemFixture,
-  getCompoundFixture,
   getRandomAccount,
-  getRandomAddress
+  getRandomAddress,
+  loadFixtureCombination
 } from "@utils/test/index";
 import { CompoundFixture, SystemFixture } from "@utils/fixtures";
 import { BigNumber } from "@ethersproject/bignumber";
@@ -54,11 +53,10 @@ describe("CompoundLeverageModule TestSuite 2", () => {
 
     deployer = new DeployHelper(owner.wallet);
 
-    setup = getSystemFixture(owner.address);
-    await setup.initialize();
+    const fixtures = await loadFixtureCombination(owner, { compound: true });
+    setup = fixtures.system;
 
-    compoundSetup = getCompoundFixture(owner.address);
-    await compoundSetup.initialize();
+    compoundSetup = fixtures.compound;
 
     cTokenInitialMantissa = ether(200000000);
     cEther = await compoundSetup.createAndEnableCEther(
@@ -4,8 +4,16 @@ import { BigNumber } from "@ethersproject/bignumber";
 
 import { Address } from "@utils/types";
 import { Account } from "@utils/test/types";
-import { ZERO, ADDRESS_ZERO } from "@utils/constants";
-import { DebtIssuanceModule, DebtModuleMock, ModuleIssuanceHookMock, CKToken, ManagerIssuanceHookMock } from "@utils/contracts";
+import { ZERO, ADDRESS_ZERO, MAX_UINT_256 } from "@utils/constants";
+import {
+  DebtIssuanceModule,
+  DebtIssuanceModuleV2,
+  DebtModuleMock,
+  ModuleIssuanceHookMock,
+  CKToken,
+  ManagerIssuanceHookMock,
+  StandardTokenWithRoundingErrorMock,
+} from "@utils/contracts";
 import DeployHelper from "@utils/deploys";
 import {
   ether,
@@ -14,35 +22,41 @@ import {
   bitcoin,
 } from "@utils/index";
 import {
-  addSnapshotBeforeRestoreAfterEach,
   getAccounts,
   getRandomAccount,
   getRandomAddress,
   getSystemFixture,
   getWaffleExpect,
 } from "@utils/test/index";
+import {
+  describeParity,
+  getParityOutcome,
+  ParityContext,
+  ParityVersion,
+} from "@utils/test/parityHarness";
 import { SystemFixture } from "@utils/fixtures";
 import { ContractTransaction } from "ethers";
 
 const expect = getWaffleExpect();
 
-describe("DebtIssuanceModule", () => {
-  let owner: Account;
-  let manager: Account;
-  let feeRecipient: Account;
-  let dummyModule: Account;
-  let recipient: Account;
-  let deployer: DeployHelper;
-  let setup: SystemFixture;
-
-  let debtModule: DebtModuleMock;
-  let externalPositionModule: ModuleIssuanceHookMock;
-  let debtIssuance: DebtIssuanceModule;
-  let issuanceHook: ManagerIssuanceHookMock;
-  let ckToken: CKToken;
-
-  before(async () => {
-    [
+interface DebtIssuanceModuleSystem {
+  owner: Account;
+  manager: Account;
+  feeRecipient: Account;
+  dummyModule: Account;
+  recipient: Account;
+  deployer: DeployHelper;
+  setup: SystemFixture;
+  debtModule: DebtModuleMock;
+  externalPositionModule: ModuleIssuanceHookMock;
+  debtIssuance: DebtIssuanceModule | DebtIssuanceModuleV2;
+  issuanceHook: ManagerIssuanceHookMock;
+  ckToken: CKToken;
+}
+
+describeParity<DebtIssuanceModuleSystem>("DebtIssuanceModule", {
+  deploy: async (version: ParityVersion) => {
+    const [
       owner,
       manager,
       feeRecipient,
@@ -50,21 +64,23 @@ describe("DebtIssuanceModule", () => {
       recipient,
     ] = await getAccounts();
 
-    deployer = new DeployHelper(owner.wallet);
-    setup = getSystemFixture(owner.address);
+    const deployer = new DeployHelper(owner.wallet);
+    const setup = getSystemFixture(owner.address);
 
     await setup.initialize();
 
-    debtIssuance = await deployer.modules.deployDebtIssuanceModule(setup.controller.address);
-    debtModule = await deployer.mocks.deployDebtModuleMock(setup.controller.address, debtIssuance.address);
-    externalPositionModule = await deployer.mocks.deployModuleIssuanceHookMock();
-    issuanceHook = await deployer.mocks.deployManagerIssuanceHookMock();
+    const debtIssuance = version === "V1"
+      ? await deployer.modules.deployDebtIssuanceModule(setup.controller.address)
+      : await deployer.modules.deployDebtIssuanceModuleV2(setup.controller.address);
+    const debtModule = await deployer.mocks.deployDebtModuleMock(setup.controller.address, debtIssuance.address);
+    const externalPositionModule = await deployer.mocks.deployModuleIssuanceHookMock();
+    const issuanceHook = await deployer.mocks.deployManagerIssuanceHookMock();
 
     await setup.controller.addModule(debtIssuance.address);
     await setup.controller.addModule(debtModule.address);
     await setup.controller.addModule(externalPositionModule.address);
 
-    ckToken = await setup.createCKToken(
+    const ckToken = await setup.createCKToken(
       [setup.weth.address],
       [ether(1)],
       [setup.issuanceModule.address, debtIssuance.address, debtModule.address, externalPositionModule.address],
@@ -74,444 +90,379 @@ describe("DebtIssuanceModule", () => {
     );
 
     await externalPositionModule.initialize(ckToken.address);
-  });
-
-  addSnapshotBeforeRestoreAfterEach();
-
-  describe("#initialize", async () => {
-    let subjectCKToken: Address;
-    let subjectMaxManagerFee: BigNumber;
-    let subjectManagerIssueFee: BigNumber;
-    let subjectManagerRedeemFee: BigNumber;
-    let subjectFeeRecipient: Address;
-    let subjectManagerIssuanceHook: Address;
-    let subjectCaller: Account;
-
-    beforeEach(async () => {
-      subjectCKToken = ckToken.address;
-      subjectMaxManagerFee = ether(0.02);
-      subjectManagerIssueFee = ether(0.005);
-      subjectManagerRedeemFee = ether(0.004);
-      subjectFeeRecipient = feeRecipient.address;
-      subjectManagerIssuanceHook = owner.address;
-      subjectCaller = manager;
-    });
-
-    async function subject(): Promise<ContractTransaction> {
-      return debtIssuance.connect(subjectCaller.wallet).initialize(
-        subjectCKToken,
-        subjectMaxManagerFee,
-        subjectManagerIssueFee,
-        subjectManagerRedeemFee,
-        subjectFeeRecipient,
-        subjectManagerIssuanceHook
-      );
-    }
-
-    it("should set the correct state", async () => {
-      await subject();
-
-      const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
-
-      expect(settings.maxManagerFee).to.eq(subjectMaxManagerFee);
-      expect(settings.managerIssueFee).to.eq(subjectManagerIssueFee);
-      expect(settings.managerRedeemFee).to.eq(subjectManagerRedeemFee);
-      expect(settings.feeRecipient).to.eq(subjectFeeRecipient);
-      expect(settings.managerIssuanceHook).to.eq(subjectManagerIssuanceHook);
-    });
-
-    describe("when the issue fee is greater than the maximum fee", async () => {
-      beforeEach(async () => {
-        subjectManagerIssueFee = ether(0.03);
-      });
-
-      it("should revert", async () => {
-        await expect(subject()).to.be.revertedWith("Issue fee can't exceed maximum fee");
-      });
-    });
-
-    describe("when the redeem fee is greater than the maximum fee", async () => {
-      beforeEach(async () => {
-        subjectManagerRedeemFee = ether(0.03);
-      });
-
-      it("should revert", async () => {
-        await expect(subject()).to.be.revertedWith("Redeem fee can't exceed maximum fee");
-      });
-    });
-
-    describe("when the caller is not the CKToken manager", async () => {
-      beforeEach(async () => {
-        subjectCaller = await getRandomAccount();
-      });
-
-      it("should revert", async () => {
-        await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
-      });
-    });
-
-    describe("when CKToken is not in pending state", async () => {
-      beforeEach(async () => {
-        const newModule = await getRandomAddress();
-        await setup.controller.addModule(newModule);
-
-        const issuanceModuleNotPendingCKToken = await setup.createCKToken(
-          [setup.weth.address],
-          [ether(1)],
-          [newModule],
-          manager.address
-        );
-
-        subjectCKToken = issuanceModuleNotPendingCKToken.address;
-      });
-
-      it("should revert", async () => {
-        await expect(subject()).to.be.revertedWith("Must be pending initialization");
-      });
-    });
-
-    describe("when the CKToken is not enabled on the controller", async () => {
-      beforeEach(async () => {
-        const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
-          [setup.weth.address],
-          [ether(1)],
-          [debtIssuance.address],
-          manager.address
-        );
-
-        subjectCKToken = nonEnabledCKToken.address;
-      });
 
-      it("should revert", async () => {
-        await expect(subject()).to.be.revertedWith("Must be controller-enabled CKToken");
-      });
-    });
-  });
-
-  context("DebtIssuanceModule has been initialized", async () => {
-    let preIssueHook: Address;
-    let initialize: boolean;
-    let maxFee: BigNumber;
-    let issueFee: BigNumber;
-    let redeemFee: BigNumber;
+    return {
+      owner,
+      manager,
+      feeRecipient,
+      dummyModule,
+      recipient,
+      deployer,
+      setup,
+      debtModule,
+      externalPositionModule,
+      debtIssuance,
+      issuanceHook,
+      ckToken,
+    };
+  },
+
+  scenarios: (parity: ParityContext<DebtIssuanceModuleSystem>) => {
+    let owner: Account;
+    let manager: Account;
+    let feeRecipient: Account;
+    let dummyModule: Account;
+    let recipient: Account;
+    let deployer: DeployHelper;
+    let setup: SystemFixture;
+
+    let debtModule: DebtModuleMock;
+    let externalPositionModule: ModuleIssuanceHookMock;
+    let debtIssuance: DebtIssuanceModule | DebtIssuanceModuleV2;
+    let issuanceHook: ManagerIssuanceHookMock;
+    let ckToken: CKToken;
 
     before(async () => {
-      preIssueHook = ADDRESS_ZERO;
-      initialize = true;
-      maxFee = ether(0.02);
-      issueFee = ether(0.005);
-      redeemFee = ether(0.005);
-    });
-
-    beforeEach(async () => {
-      if (initialize) {
-        await debtIssuance.connect(manager.wallet).initialize(
-          ckToken.address,
-          maxFee,
-          issueFee,
-          redeemFee,
-          feeRecipient.address,
-          preIssueHook
-        );
-      }
+      ({
+        owner,
+        manager,
+        feeRecipient,
+        dummyModule,
+        recipient,
+        deployer,
+        setup,
+        debtModule,
+        externalPositionModule,
+        debtIssuance,
+        issuanceHook,
+        ckToken,
+      } = parity.system);
     });
 
-    describe("#removeModule", async () => {
-      let subjectModule: Address;
+    describe("#initialize", async () => {
+      let subjectCKToken: Address;
+      let subjectMaxManagerFee: BigNumber;
+      let subjectManagerIssueFee: BigNumber;
+      let subjectManagerRedeemFee: BigNumber;
+      let subjectFeeRecipient: Address;
+      let subjectManagerIssuanceHook: Address;
+      let subjectCaller: Account;
 
       beforeEach(async () => {
-        subjectModule = debtIssuance.address;
+        subjectCKToken = ckToken.address;
+        subjectMaxManagerFee = ether(0.02);
+        subjectManagerIssueFee = ether(0.005);
+        subjectManagerRedeemFee = ether(0.004);
+        subjectFeeRecipient = feeRecipient.address;
+        subjectManagerIssuanceHook = owner.address;
+        subjectCaller = manager;
       });
 
       async function subject(): Promise<ContractTransaction> {
-        return ckToken.connect(manager.wallet).removeModule(subjectModule);
+        return debtIssuance.connect(subjectCaller.wallet).initialize(
+          subjectCKToken,
+          subjectMaxManagerFee,
+          subjectManagerIssueFee,
+          subjectManagerRedeemFee,
+          subjectFeeRecipient,
+          subjectManagerIssuanceHook
+        );
       }
 
       it("should set the correct state", async () => {
         await subject();
 
-        const settings: any = await debtIssuance.issuanceSettings(ckToken.address);
+        const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
 
-        expect(settings.managerIssueFee).to.eq(ZERO);
-        expect(settings.managerRedeemFee).to.eq(ZERO);
-        expect(settings.feeRecipient).to.eq(ADDRESS_ZERO);
-        expect(settings.managerIssuanceHook).to.eq(ADDRESS_ZERO);
+        expect(settings.maxManagerFee).to.eq(subjectMaxManagerFee);
+        expect(settings.managerIssueFee).to.eq(subjectManagerIssueFee);
+        expect(settings.managerRedeemFee).to.eq(subjectManagerRedeemFee);
+        expect(settings.feeRecipient).to.eq(subjectFeeRecipient);
+        expect(settings.managerIssuanceHook).to.eq(subjectManagerIssuanceHook);
       });
 
-      describe("when a module is still registered with the DebtIssuanceModule", async () => {
+      describe("when the issue fee is greater than the maximum fee", async () => {
         beforeEach(async () => {
-          await setup.controller.addModule(dummyModule.address);
-          await ckToken.connect(manager.wallet).addModule(dummyModule.address);
-          await ckToken.connect(dummyModule.wallet).initializeModule();
-
-          await debtIssuance.connect(dummyModule.wallet).registerToIssuanceModule(ckToken.address);
+          subjectManagerIssueFee = ether(0.03);
         });
 
         it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Registered modules must be removed.");
+          await expect(subject()).to.be.revertedWith("Issue fee can't exceed maximum fee");
         });
       });
-    });
-
-    describe("#registerToIssuanceModule", async () => {
-      let subjectCKToken: Address;
-      let subjectCaller: Account;
 
-      beforeEach(async () => {
-        await setup.controller.addModule(dummyModule.address);
-        await ckToken.connect(manager.wallet).addModule(dummyModule.address);
-        await ckToken.connect(dummyModule.wallet).initializeModule();
+      describe("when the redeem fee is greater than the maximum fee", async () => {
+        beforeEach(async () => {
+          subjectManagerRedeemFee = ether(0.03);
+        });
 
-        subjectCKToken = ckToken.address;
-        subjectCaller = dummyModule;
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Redeem fee can't exceed maximum fee");
+        });
       });
 
-      async function subject(): Promise<ContractTransaction> {
-        return debtIssuance.connect(subjectCaller.wallet).registerToIssuanceModule(
-          subjectCKToken
-        );
-      }
-
-      it("should add dummyModule to moduleIssuanceHooks", async () => {
-        await subject();
+      describe("when the caller is not the CKToken manager", async () => {
+        beforeEach(async () => {
+          subjectCaller = await getRandomAccount();
+        });
 
-        const moduleHooks = await debtIssuance.getModuleIssuanceHooks(subjectCKToken);
-        expect(moduleHooks).to.contain(subjectCaller.address);
+        it("should revert", async () => {
+          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        });
       });
 
-      it("should mark dummyModule as a valid module issuance hook", async () => {
-        await subject();
-
-        const isModuleHook = await debtIssuance.isModuleIssuanceHook(subjectCKToken, dummyModule.address);
-        expect(isModuleHook).to.be.true;
-      });
+      describe("when CKToken is not in pending state", async () => {
+        beforeEach(async () => {
+          const newModule = await getRandomAddress();
+          await setup.controller.addModule(newModule);
 
-      describe("when DebtIssuanceModule is not initialized", async () => {
-        before(async () => {
-          initialize = false;
-        });
+          const issuanceModuleNotPendingCKToken = await setup.createCKToken(
+            [setup.weth.address],
+            [ether(1)],
+            [newModule],
+            manager.address
+          );
 
-        after(async () => {
-          initialize = true;
+          subjectCKToken = issuanceModuleNotPendingCKToken.address;
         });
 
         it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+          await expect(subject()).to.be.revertedWith("Must be pending initialization");
         });
       });
 
-      describe("when module is already registered", async () => {
+      describe("when the CKToken is not enabled on the controller", async () => {
         beforeEach(async () => {
-          await subject();
+          const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+            [setup.weth.address],
+            [ether(1)],
+            [debtIssuance.address],
+            manager.address
+          );
+
+          subjectCKToken = nonEnabledCKToken.address;
         });
 
         it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Module already registered.");
+          await expect(subject()).to.be.revertedWith("Must be controller-enabled CKToken");
         });
       });
     });
 
-    describe("#unregisterFromIssuanceModule", async () => {
-      let subjectCKToken: Address;
-      let subjectCaller: Account;
-      let register: boolean;
+    context("DebtIssuanceModule has been initialized", async () => {
+      let preIssueHook: Address;
+      let initialize: boolean;
+      let maxFee: BigNumber;
+      let issueFee: BigNumber;
+      let redeemFee: BigNumber;
 
       before(async () => {
-        register = true;
+        preIssueHook = ADDRESS_ZERO;
+        initialize = true;
+        maxFee = ether(0.02);
+        issueFee = ether(0.005);
+        redeemFee = ether(0.005);
       });
 
       beforeEach(async () => {
-        await setup.controller.addModule(dummyModule.address);
-        await ckToken.connect(manager.wallet).addModule(dummyModule.address);
-        await ckToken.connect(dummyModule.wallet).initializeModule();
-
-        if (register) {
-          await debtIssuance.connect(dummyModule.wallet).registerToIssuanceModule(ckToken.address);
+        if (initialize) {
+          await debtIssuance.connect(manager.wallet).initialize(
+            ckToken.address,
+            maxFee,
+            issueFee,
+            redeemFee,
+            feeRecipient.address,
+            preIssueHook
+          );
         }
-
-        subjectCKToken = ckToken.address;
-        subjectCaller = dummyModule;
       });
 
-      async function subject(): Promise<ContractTransaction> {
-        return debtIssuance.connect(subjectCaller.wallet).unregisterFromIssuanceModule(
-          subjectCKToken
-        );
-      }
-
-      it("should remove dummyModule from issuanceSettings", async () => {
-        const preModuleHooks = await debtIssuance.getModuleIssuanceHooks(subjectCKToken);
-        expect(preModuleHooks).to.contain(subjectCaller.address);
+      describe("#removeModule", async () => {
+        let subjectModule: Address;
 
-        await subject();
+        beforeEach(async () => {
+          subjectModule = debtIssuance.address;
+        });
 
-        const postModuleHooks = await debtIssuance.getModuleIssuanceHooks(subjectCKToken);
-        expect(postModuleHooks).to.not.contain(subjectCaller.address);
-      });
+        async function subject(): Promise<ContractTransaction> {
+          return ckToken.connect(manager.wallet).removeModule(subjectModule);
+        }
 
-      it("should not mark dummyModule as a valid module issuance hook", async () => {
-        await subject();
+        it("should set the correct state", async () => {
+          await subject();
 
-        const isModuleHook = await debtIssuance.isModuleIssuanceHook(subjectCKToken, dummyModule.address);
-        expect(isModuleHook).to.be.false;
-      });
+          const settings: any = await debtIssuance.issuanceSettings(ckToken.address);
 
-      describe("when calling module isn't registered", async () => {
-        before(async () => {
-          register = false;
+          expect(settings.managerIssueFee).to.eq(ZERO);
+          expect(settings.managerRedeemFee).to.eq(ZERO);
+          expect(settings.feeRecipient).to.eq(ADDRESS_ZERO);
+          expect(settings.managerIssuanceHook).to.eq(ADDRESS_ZERO);
         });
 
-        after(async () => {
-          register = true;
-        });
+        describe("when a module is still registered with the DebtIssuanceModule", async () => {
+          beforeEach(async () => {
+            await setup.controller.addModule(dummyModule.address);
+            await ckToken.connect(manager.wallet).addModule(dummyModule.address);
+            await ckToken.connect(dummyModule.wallet).initializeModule();
 
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Module not registered.");
-        });
-      });
-    });
+            await debtIssuance.connect(dummyModule.wallet).registerToIssuanceModule(ckToken.address);
+          });
 
-    context("External debt module has been registered with DebtIssuanceModule", async () => {
-      beforeEach(async () => {
-        await debtModule.connect(manager.wallet).initialize(ckToken.address);
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Registered modules must be removed.");
+          });
+        });
       });
 
-      describe("#getRequiredComponentIssuanceUnits", async () => {
+      describe("#registerToIssuanceModule", async () => {
         let subjectCKToken: Address;
-        let subjectQuantity: BigNumber;
-
-        const debtUnits: BigNumber = ether(100);
+        let subjectCaller: Account;
 
         beforeEach(async () => {
-          await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
+          await setup.controller.addModule(dummyModule.address);
+          await ckToken.connect(manager.wallet).addModule(dummyModule.address);
+          await ckToken.connect(dummyModule.wallet).initializeModule();
 
           subjectCKToken = ckToken.address;
-          subjectQuantity = ether(1);
+          subjectCaller = dummyModule;
         });
 
-        async function subject(): Promise<any> {
-          return debtIssuance.getRequiredComponentIssuanceUnits(
-            subjectCKToken,
-            subjectQuantity
+        async function subject(): Promise<ContractTransaction> {
+          return debtIssuance.connect(subjectCaller.wallet).registerToIssuanceModule(
+            subjectCKToken
           );
         }
 
-        it("should return the correct issue token amounts", async () => {
-          const [components, equityFlows, debtFlows] = await subject();
+        it("should add dummyModule to moduleIssuanceHooks", async () => {
+          await subject();
 
-          const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
-          const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
-          const wethFlows = preciseMul(mintQuantity, ether(1));
+          const moduleHooks = await debtIssuance.getModuleIssuanceHooks(subjectCKToken);
+          expect(moduleHooks).to.contain(subjectCaller.address);
+        });
 
-          const expectedComponents = await ckToken.getComponents();
-          const expectedEquityFlows = [wethFlows, ZERO];
-          const expectedDebtFlows = [ZERO, daiFlows];
+        it("should mark dummyModule as a valid module issuance hook", async () => {
+          await subject();
 
-          expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
-          expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
-          expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+          const isModuleHook = await debtIssuance.isModuleIssuanceHook(subjectCKToken, dummyModule.address);
+          expect(isModuleHook).to.be.true;
         });
 
-        describe("when an additive external equity position is in place", async () => {
-          const externalUnits: BigNumber = ether(1);
-
-          beforeEach(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+        describe("when DebtIssuanceModule is not initialized", async () => {
+          before(async () => {
+            initialize = false;
           });
 
-          it("should return the correct issue token amounts", async () => {
-            const [components, equityFlows, debtFlows] = await subject();
-
-            const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
-            const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
-            const wethFlows = preciseMul(mintQuantity, ether(1).add(externalUnits));
-
-            const expectedComponents = await ckToken.getComponents();
-            const expectedEquityFlows = [wethFlows, ZERO];
-            const expectedDebtFlows = [ZERO, daiFlows];
+          after(async () => {
+            initialize = true;
+          });
 
-            expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
-            expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
-            expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
           });
         });
 
-        describe("when a non-additive external equity position is in place", async () => {
-          const externalUnits: BigNumber = bitcoin(.5);
-
+        describe("when module is already registered", async () => {
           beforeEach(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.wbtc.address, externalUnits);
+            await subject();
           });
 
-          it("should return the correct issue token amounts", async () => {
-            const [components, equityFlows, debtFlows] = await subject();
-
-            const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
-            const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
-            const wethFlows = preciseMul(mintQuantity, ether(1));
-            const btcFlows = preciseMul(mintQuantity, externalUnits);
-
-            const expectedComponents = await ckToken.getComponents();
-            const expectedEquityFlows = [wethFlows, ZERO, btcFlows];
-            const expectedDebtFlows = [ZERO, daiFlows, ZERO];
-
-            expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
-            expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
-            expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Module already registered.");
           });
         });
       });
 
-      describe("#getRequiredComponentRedemptionUnits", async () => {
+      describe("#unregisterFromIssuanceModule", async () => {
         let subjectCKToken: Address;
-        let subjectQuantity: BigNumber;
+        let subjectCaller: Account;
+        let register: boolean;
 
-        const debtUnits: BigNumber = ether(100);
+        before(async () => {
+          register = true;
+        });
 
         beforeEach(async () => {
-          await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
+          await setup.controller.addModule(dummyModule.address);
+          await ckToken.connect(manager.wallet).addModule(dummyModule.address);
+          await ckToken.connect(dummyModule.wallet).initializeModule();
+
+          if (register) {
+            await debtIssuance.connect(dummyModule.wallet).registerToIssuanceModule(ckToken.address);
+          }
 
           subjectCKToken = ckToken.address;
-          subjectQuantity = ether(1);
+          subjectCaller = dummyModule;
         });
 
-        async function subject(): Promise<any> {
-          return debtIssuance.getRequiredComponentRedemptionUnits(
-            subjectCKToken,
-            subjectQuantity
+        async function subject(): Promise<ContractTransaction> {
+          return debtIssuance.connect(subjectCaller.wallet).unregisterFromIssuanceModule(
+            subjectCKToken
           );
         }
 
-        it("should return the correct redeem token amounts", async () => {
-          const [components, equityFlows, debtFlows] = await subject();
+        it("should remove dummyModule from issuanceSettings", async () => {
+          const preModuleHooks = await debtIssuance.getModuleIssuanceHooks(subjectCKToken);
+          expect(preModuleHooks).to.contain(subjectCaller.address);
+
+          await subject();
+
+          const postModuleHooks = await debtIssuance.getModuleIssuanceHooks(subjectCKToken);
+          expect(postModuleHooks).to.not.contain(subjectCaller.address);
+        });
+
+        it("should not mark dummyModule as a valid module issuance hook", async () => {
+          await subject();
+
+          const isModuleHook = await debtIssuance.isModuleIssuanceHook(subjectCKToken, dummyModule.address);
+          expect(isModuleHook).to.be.false;
+        });
+
+        describe("when calling module isn't registered", async () => {
+          before(async () => {
+            register = false;
+          });
 
-          const mintQuantity = preciseMul(subjectQuantity, ether(1).sub(issueFee));
-          const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
-          const wethFlows = preciseMul(mintQuantity, ether(1));
+          after(async () => {
+            register = true;
+          });
 
-          const expectedComponents = await ckToken.getComponents();
-          const expectedEquityFlows = [wethFlows, ZERO];
-          const expectedDebtFlows = [ZERO, daiFlows];
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Module not registered.");
+          });
+        });
+      });
 
-          expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
-          expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
-          expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+      context("External debt module has been registered with DebtIssuanceModule", async () => {
+        beforeEach(async () => {
+          await debtModule.connect(manager.wallet).initialize(ckToken.address);
         });
 
+        describe("#getRequiredComponentIssuanceUnits", async () => {
+          let subjectCKToken: Address;
+          let subjectQuantity: BigNumber;
 
-        describe("when an additive external equity position is in place", async () => {
-          const externalUnits: BigNumber = ether(1);
+          const debtUnits: BigNumber = ether(100);
 
           beforeEach(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+            await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
+
+            subjectCKToken = ckToken.address;
+            subjectQuantity = ether(1);
           });
 
-          it("should return the correct redeem token amounts", async () => {
+          async function subject(): Promise<any> {
+            return debtIssuance.getRequiredComponentIssuanceUnits(
+              subjectCKToken,
+              subjectQuantity
+            );
+          }
+
+          it("should return the correct issue token amounts", async () => {
             const [components, equityFlows, debtFlows] = await subject();
 
-            const mintQuantity = preciseMul(subjectQuantity, ether(1).sub(issueFee));
-            const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
-            const wethFlows = preciseMul(mintQuantity, ether(1).add(externalUnits));
+            const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
+            const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
+            const wethFlows = preciseMul(mintQuantity, ether(1));
 
             const expectedComponents = await ckToken.getComponents();
             const expectedEquityFlows = [wethFlows, ZERO];
@@ -521,179 +472,182 @@ describe("DebtIssuanceModule", () => {
             expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
             expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
           });
+
+          describe("when an additive external equity position is in place", async () => {
+            const externalUnits: BigNumber = ether(1);
+
+            beforeEach(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+            });
+
+            it("should return the correct issue token amounts", async () => {
+              const [components, equityFlows, debtFlows] = await subject();
+
+              const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
+              const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
+              const wethFlows = preciseMul(mintQuantity, ether(1).add(externalUnits));
+
+              const expectedComponents = await ckToken.getComponents();
+              const expectedEquityFlows = [wethFlows, ZERO];
+              const expectedDebtFlows = [ZERO, daiFlows];
+
+              expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
+              expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
+              expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+            });
+          });
+
+          describe("when a non-additive external equity position is in place", async () => {
+            const externalUnits: BigNumber = bitcoin(.5);
+
+            beforeEach(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.wbtc.address, externalUnits);
+            });
+
+            it("should return the correct issue token amounts", async () => {
+              const [components, equityFlows, debtFlows] = await subject();
+
+              const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
+              const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
+              const wethFlows = preciseMul(mintQuantity, ether(1));
+              const btcFlows = preciseMul(mintQuantity, externalUnits);
+
+              const expectedComponents = await ckToken.getComponents();
+              const expectedEquityFlows = [wethFlows, ZERO, btcFlows];
+              const expectedDebtFlows = [ZERO, daiFlows, ZERO];
+
+              expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
+              expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
+              expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+            });
+          });
         });
 
-        describe("when a non-additive external equity position is in place", async () => {
-          const externalUnits: BigNumber = bitcoin(0.5);
+        describe("#getRequiredComponentRedemptionUnits", async () => {
+          let subjectCKToken: Address;
+          let subjectQuantity: BigNumber;
+
+          const debtUnits: BigNumber = ether(100);
 
           beforeEach(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.wbtc.address, externalUnits);
+            await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
+
+            subjectCKToken = ckToken.address;
+            subjectQuantity = ether(1);
           });
 
+          async function subject(): Promise<any> {
+            return debtIssuance.getRequiredComponentRedemptionUnits(
+              subjectCKToken,
+              subjectQuantity
+            );
+          }
+
           it("should return the correct redeem token amounts", async () => {
             const [components, equityFlows, debtFlows] = await subject();
 
             const mintQuantity = preciseMul(subjectQuantity, ether(1).sub(issueFee));
-            const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
+            const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
             const wethFlows = preciseMul(mintQuantity, ether(1));
-            const wbtcFlows = preciseMul(mintQuantity, externalUnits);
 
             const expectedComponents = await ckToken.getComponents();
-            const expectedEquityFlows = [wethFlows, ZERO, wbtcFlows];
-            const expectedDebtFlows = [ZERO, daiFlows, ZERO];
+            const expectedEquityFlows = [wethFlows, ZERO];
+            const expectedDebtFlows = [ZERO, daiFlows];
 
             expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
             expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
             expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
           });
-        });
-      });
 
-      describe("#issue", async () => {
-        let subjectCKToken: Address;
-        let subjectQuantity: BigNumber;
-        let subjectTo: Address;
-        let subjectCaller: Account;
 
-        const debtUnits: BigNumber = ether(100);
+          describe("when an additive external equity position is in place", async () => {
+            const externalUnits: BigNumber = ether(1);
 
-        beforeEach(async () => {
-          await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
-          await setup.dai.transfer(debtModule.address, ether(100.5));
+            beforeEach(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+            });
 
-          const [, equityFlows, ] = await debtIssuance.getRequiredComponentIssuanceUnits(ckToken.address, ether(1));
-          await setup.weth.approve(debtIssuance.address, equityFlows[0].mul(ether(1.005)));
+            it("should return the correct redeem token amounts", async () => {
+              const [components, equityFlows, debtFlows] = await subject();
 
-          subjectCKToken = ckToken.address;
-          subjectQuantity = ether(1);
-          subjectTo = recipient.address;
-          subjectCaller = owner;
-        });
+              const mintQuantity = preciseMul(subjectQuantity, ether(1).sub(issueFee));
+              const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
+              const wethFlows = preciseMul(mintQuantity, ether(1).add(externalUnits));
 
-        async function subject(): Promise<ContractTransaction> {
-          return debtIssuance.connect(subjectCaller.wallet).issue(
-            subjectCKToken,
-            subjectQuantity,
-            subjectTo,
-          );
-        }
+              const expectedComponents = await ckToken.getComponents();
+              const expectedEquityFlows = [wethFlows, ZERO];
+              const expectedDebtFlows = [ZERO, daiFlows];
 
-        it("should mint CKTokens to the correct addresses", async () => {
-          await subject();
+              expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
+              expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
+              expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+            });
+          });
 
-          const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
-          const managerBalance = await ckToken.balanceOf(feeRecipient.address);
-          const toBalance = await ckToken.balanceOf(subjectTo);
+          describe("when a non-additive external equity position is in place", async () => {
+            const externalUnits: BigNumber = bitcoin(0.5);
 
-          expect(toBalance).to.eq(subjectQuantity);
-          expect(managerBalance).to.eq(feeQuantity);
-        });
+            beforeEach(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.wbtc.address, externalUnits);
+            });
 
-        it("should have the correct token balances", async () => {
-          const preMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
-          const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-          const preMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-          const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-          const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+            it("should return the correct redeem token amounts", async () => {
+              const [components, equityFlows, debtFlows] = await subject();
 
-          await subject();
+              const mintQuantity = preciseMul(subjectQuantity, ether(1).sub(issueFee));
+              const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
+              const wethFlows = preciseMul(mintQuantity, ether(1));
+              const wbtcFlows = preciseMul(mintQuantity, externalUnits);
 
-          const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
-          const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
-          const wethFlows = preciseMul(mintQuantity, ether(1));
-
-          const postMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
-          const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-          const postMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-          const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-          const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
-
-          expect(postMinterWethBalance).to.eq(preMinterWethBalance.sub(wethFlows));
-          expect(postSetWethBalance).to.eq(preSetWethBalance.add(wethFlows));
-          expect(postMinterDaiBalance).to.eq(preMinterDaiBalance.add(daiFlows));
-          expect(postSetDaiBalance).to.eq(preSetDaiBalance);
-          expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.sub(daiFlows));
+              const expectedComponents = await ckToken.getComponents();
+              const expectedEquityFlows = [wethFlows, ZERO, wbtcFlows];
+              const expectedDebtFlows = [ZERO, daiFlows, ZERO];
+
+              expect(JSON.stringify(expectedComponents)).to.eq(JSON.stringify(components));
+              expect(JSON.stringify(expectedEquityFlows)).to.eq(JSON.stringify(equityFlows));
+              expect(JSON.stringify(expectedDebtFlows)).to.eq(JSON.stringify(debtFlows));
+            });
+          });
         });
 
-        it("should have called the module issue hook", async () => {
-          await subject();
+        describe("#issue", async () => {
+          let subjectCKToken: Address;
+          let subjectQuantity: BigNumber;
+          let subjectTo: Address;
+          let subjectCaller: Account;
 
-          const hookCalled = await debtModule.moduleIssueHookCalled();
+          const debtUnits: BigNumber = ether(100);
 
-          expect(hookCalled).to.be.true;
-        });
+          beforeEach(async () => {
+            await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
+            await setup.dai.transfer(debtModule.address, ether(100.5));
 
-        it("should emit the correct CKTokenIssued event", async () => {
-          const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
+            const [, equityFlows, ] = await debtIssuance.getRequiredComponentIssuanceUnits(ckToken.address, ether(1));
+            await setup.weth.approve(debtIssuance.address, equityFlows[0].mul(ether(1.005)));
 
-          await expect(subject()).to.emit(debtIssuance, "CKTokenIssued").withArgs(
-            ckToken.address,
-            subjectCaller.address,
-            subjectTo,
-            preIssueHook,
-            subjectQuantity,
-            feeQuantity,
-            ZERO
-          );
-        });
-
-        describe("when an external equity position is in place", async () => {
-          const externalUnits: BigNumber = ether(1);
-
-          before(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
-          });
-
-          after(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, ZERO);
-          });
-
-          it("should have the correct token balances", async () => {
-            const preMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
-            const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-            const preExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
-            const preMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-            const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-            const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
-
-            await subject();
-
-            const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
-            const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
-            const wethDefaultFlows = preciseMul(mintQuantity, ether(1));
-            const wethExternalFlows = preciseMul(mintQuantity, externalUnits);
-
-            const postMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
-            const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-            const postExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
-            const postMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-            const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-            const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
-
-            expect(postMinterWethBalance).to.eq(preMinterWethBalance.sub(wethDefaultFlows.add(wethExternalFlows)));
-            expect(postSetWethBalance).to.eq(preSetWethBalance.add(wethDefaultFlows));
-            expect(postExternalWethBalance).to.eq(preExternalWethBalance.add(wethExternalFlows));
-            expect(postMinterDaiBalance).to.eq(preMinterDaiBalance.add(daiFlows));
-            expect(postSetDaiBalance).to.eq(preSetDaiBalance);
-            expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.sub(daiFlows));
-          });
-        });
-
-        describe("when the manager issuance fee is 0", async () => {
-          before(async () => {
-            issueFee = ZERO;
+            subjectCKToken = ckToken.address;
+            subjectQuantity = ether(1);
+            subjectTo = recipient.address;
+            subjectCaller = owner;
           });
 
-          after(async () => {
-            issueFee = ether(0.005);
-          });
+          async function subject(): Promise<ContractTransaction> {
+            return debtIssuance.connect(subjectCaller.wallet).issue(
+              subjectCKToken,
+              subjectQuantity,
+              subjectTo,
+            );
+          }
 
           it("should mint CKTokens to the correct addresses", async () => {
             await subject();
 
+            const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
+            const managerBalance = await ckToken.balanceOf(feeRecipient.address);
             const toBalance = await ckToken.balanceOf(subjectTo);
 
             expect(toBalance).to.eq(subjectQuantity);
+            expect(managerBalance).to.eq(feeQuantity);
           });
 
           it("should have the correct token balances", async () => {
@@ -706,8 +660,8 @@ describe("DebtIssuanceModule", () => {
             await subject();
 
             const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
-            const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
-            const wethDefaultFlows = preciseMul(mintQuantity, ether(1));
+            const daiFlows = preciseMulCeil( mintQuantity, debtUnits);
+            const wethFlows = preciseMul(mintQuantity, ether(1));
 
             const postMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
             const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
@@ -715,191 +669,239 @@ describe("DebtIssuanceModule", () => {
             const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
             const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
 
-            expect(postMinterWethBalance).to.eq(preMinterWethBalance.sub(wethDefaultFlows));
-            expect(postSetWethBalance).to.eq(preSetWethBalance.add(wethDefaultFlows));
+            expect(postMinterWethBalance).to.eq(preMinterWethBalance.sub(wethFlows));
+            expect(postSetWethBalance).to.eq(preSetWethBalance.add(wethFlows));
             expect(postMinterDaiBalance).to.eq(preMinterDaiBalance.add(daiFlows));
             expect(postSetDaiBalance).to.eq(preSetDaiBalance);
             expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.sub(daiFlows));
           });
-        });
 
-        describe("when protocol fees are enabled", async () => {
-          const protocolFee: BigNumber = ether(.2);
+          it("should have called the module issue hook", async () => {
+            await subject();
 
-          beforeEach(async () => {
-            await setup.controller.addFee(debtIssuance.address, ZERO, protocolFee);
-          });
+            const hookCalled = await debtModule.moduleIssueHookCalled();
 
-          it("should mint CKTokens to the correct addresses", async () => {
-            await subject();
+            expect(hookCalled).to.be.true;
+          });
 
+          it("should emit the correct CKTokenIssued event", async () => {
             const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
-            const protocolSplit = preciseMul(feeQuantity, protocolFee);
 
-            const managerBalance = await ckToken.balanceOf(feeRecipient.address);
-            const protocolBalance = await ckToken.balanceOf(dummyModule.address);  // DummyModule is set as address in fixture setup
-            const toBalance = await ckToken.balanceOf(subjectTo);
-
-            expect(toBalance).to.eq(subjectQuantity);
-            expect(managerBalance).to.eq(feeQuantity.sub(protocolSplit));
-            expect(protocolBalance).to.eq(protocolSplit);
+            await expect(subject()).to.emit(debtIssuance, "CKTokenIssued").withArgs(
+              ckToken.address,
+              subjectCaller.address,
+              subjectTo,
+              preIssueHook,
+              subjectQuantity,
+              feeQuantity,
+              ZERO
+            );
           });
-        });
 
-        describe("when manager issuance hook is defined", async () => {
-          before(async () => {
-            preIssueHook = issuanceHook.address;
+          describe("when an external equity position is in place", async () => {
+            const externalUnits: BigNumber = ether(1);
+
+            before(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+            });
+
+            after(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, ZERO);
+            });
+
+            it("should have the correct token balances", async () => {
+              const preMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
+              const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const preExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
+              const preMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              await subject();
+
+              const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
+              const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
+              const wethDefaultFlows = preciseMul(mintQuantity, ether(1));
+              const wethExternalFlows = preciseMul(mintQuantity, externalUnits);
+
+              const postMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
+              const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const postExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
+              const postMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              expect(postMinterWethBalance).to.eq(preMinterWethBalance.sub(wethDefaultFlows.add(wethExternalFlows)));
+              expect(postSetWethBalance).to.eq(preSetWethBalance.add(wethDefaultFlows));
+              expect(postExternalWethBalance).to.eq(preExternalWethBalance.add(wethExternalFlows));
+              expect(postMinterDaiBalance).to.eq(preMinterDaiBalance.add(daiFlows));
+              expect(postSetDaiBalance).to.eq(preSetDaiBalance);
+              expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.sub(daiFlows));
+            });
           });
 
-          after(async () => {
-            preIssueHook = ADDRESS_ZERO;
-          });
+          describe("when the manager issuance fee is 0", async () => {
+            before(async () => {
+              issueFee = ZERO;
+            });
 
-          it("should call the issuance hook", async () => {
-            await subject();
+            after(async () => {
+              issueFee = ether(0.005);
+            });
 
-            const ckToken = await issuanceHook.retrievedCKToken();
+            it("should mint CKTokens to the correct addresses", async () => {
+              await subject();
 
-            expect(ckToken).to.eq(subjectCKToken);
-          });
-        });
+              const toBalance = await ckToken.balanceOf(subjectTo);
 
-        describe("when the issue quantity is 0", async () => {
-          beforeEach(async () => {
-            subjectQuantity = ZERO;
-          });
+              expect(toBalance).to.eq(subjectQuantity);
+            });
 
-          it("should revert", async () => {
-            await expect(subject()).to.be.revertedWith("Issue quantity must be > 0");
-          });
-        });
+            it("should have the correct token balances", async () => {
+              const preMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
+              const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const preMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
 
-        describe("when the CKToken is not enabled on the controller", async () => {
-          beforeEach(async () => {
-            const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
-              [setup.weth.address],
-              [ether(1)],
-              [debtIssuance.address]
-            );
+              await subject();
 
-            subjectCKToken = nonEnabledCKToken.address;
-          });
+              const mintQuantity = preciseMul(subjectQuantity, ether(1).add(issueFee));
+              const daiFlows = preciseMulCeil(mintQuantity, debtUnits);
+              const wethDefaultFlows = preciseMul(mintQuantity, ether(1));
 
-          it("should revert", async () => {
-            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+              const postMinterWethBalance = await setup.weth.balanceOf(subjectCaller.address);
+              const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const postMinterDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              expect(postMinterWethBalance).to.eq(preMinterWethBalance.sub(wethDefaultFlows));
+              expect(postSetWethBalance).to.eq(preSetWethBalance.add(wethDefaultFlows));
+              expect(postMinterDaiBalance).to.eq(preMinterDaiBalance.add(daiFlows));
+              expect(postSetDaiBalance).to.eq(preSetDaiBalance);
+              expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.sub(daiFlows));
+            });
           });
-        });
-      });
 
-      describe("#redeem", async () => {
-        let subjectCKToken: Address;
-        let subjectQuantity: BigNumber;
-        let subjectTo: Address;
-        let subjectCaller: Account;
+          describe("when protocol fees are enabled", async () => {
+            const protocolFee: BigNumber = ether(.2);
 
-        const debtUnits: BigNumber = ether(100);
+            beforeEach(async () => {
+              await setup.controller.addFee(debtIssuance.address, ZERO, protocolFee);
+            });
 
-        beforeEach(async () => {
-          await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
-          await setup.dai.transfer(debtModule.address, ether(100.5));
+            it("should mint CKTokens to the correct addresses", async () => {
+              await subject();
 
-          const [, equityFlows, ] = await debtIssuance.getRequiredComponentRedemptionUnits(ckToken.address, ether(1));
-          await setup.weth.approve(debtIssuance.address, equityFlows[0].mul(ether(1.005)));
+              const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
+              const protocolSplit = preciseMul(feeQuantity, protocolFee);
 
-          await debtIssuance.issue(ckToken.address, ether(1), owner.address);
+              const managerBalance = await ckToken.balanceOf(feeRecipient.address);
+              const protocolBalance = await ckToken.balanceOf(dummyModule.address);  // DummyModule is set as address in fixture setup
+              const toBalance = await ckToken.balanceOf(subjectTo);
 
-          await setup.dai.approve(debtIssuance.address, ether(100.5));
+              expect(toBalance).to.eq(subjectQuantity);
+              expect(managerBalance).to.eq(feeQuantity.sub(protocolSplit));
+              expect(protocolBalance).to.eq(protocolSplit);
+            });
+          });
 
-          subjectCKToken = ckToken.address;
-          subjectQuantity = ether(1);
-          subjectTo = recipient.address;
-          subjectCaller = owner;
-        });
+          describe("when manager issuance hook is defined", async () => {
+            before(async () => {
+              preIssueHook = issuanceHook.address;
+            });
 
-        async function subject(): Promise<ContractTransaction> {
-          return debtIssuance.connect(subjectCaller.wallet).redeem(
-            subjectCKToken,
-            subjectQuantity,
-            subjectTo,
-          );
-        }
+            after(async () => {
+              preIssueHook = ADDRESS_ZERO;
+            });
 
-        it("should mint CKTokens to the correct addresses", async () => {
-          const preManagerBalance = await ckToken.balanceOf(feeRecipient.address);
-          const preCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+            it("should call the issuance hook", async () => {
+              await subject();
 
-          await subject();
+              const ckToken = await issuanceHook.retrievedCKToken();
 
-          const feeQuantity = preciseMulCeil(subjectQuantity, redeemFee);
-          const postManagerBalance = await ckToken.balanceOf(feeRecipient.address);
-          const postCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+              expect(ckToken).to.eq(subjectCKToken);
+            });
+          });
 
-          expect(postManagerBalance).to.eq(preManagerBalance.add(feeQuantity));
-          expect(postCallerBalance).to.eq(preCallerBalance.sub(subjectQuantity));
-        });
+          describe("when the issue quantity is 0", async () => {
+            beforeEach(async () => {
+              subjectQuantity = ZERO;
+            });
 
-        it("should have the correct token balances", async () => {
-          const preToWethBalance = await setup.weth.balanceOf(subjectTo);
-          const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-          const preRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-          const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-          const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Issue quantity must be > 0");
+            });
+          });
 
-          await subject();
+          describe("when the CKToken is not enabled on the controller", async () => {
+            beforeEach(async () => {
+              const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+                [setup.weth.address],
+                [ether(1)],
+                [debtIssuance.address]
+              );
+
+              subjectCKToken = nonEnabledCKToken.address;
+            });
 
-          const redeemQuantity = preciseMul(subjectQuantity, ether(1).sub(redeemFee));
-          const daiFlows = preciseMulCeil(redeemQuantity, debtUnits);
-          const wethFlows = preciseMul(redeemQuantity, ether(1));
-
-          const postToWethBalance = await setup.weth.balanceOf(subjectTo);
-          const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-          const postRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-          const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-          const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
-
-          expect(postToWethBalance).to.eq(preToWethBalance.add(wethFlows));
-          expect(postSetWethBalance).to.eq(preSetWethBalance.sub(wethFlows));
-          expect(postRedeemerDaiBalance).to.eq(preRedeemerDaiBalance.sub(daiFlows));
-          expect(postSetDaiBalance).to.eq(preSetDaiBalance);
-          expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.add(daiFlows));
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+            });
+          });
         });
 
-        it("should have called the module issue hook", async () => {
-          await subject();
+        describe("#redeem", async () => {
+          let subjectCKToken: Address;
+          let subjectQuantity: BigNumber;
+          let subjectTo: Address;
+          let subjectCaller: Account;
 
-          const hookCalled = await debtModule.moduleRedeemHookCalled();
+          const debtUnits: BigNumber = ether(100);
 
-          expect(hookCalled).to.be.true;
-        });
+          beforeEach(async () => {
+            await debtModule.addDebt(ckToken.address, setup.dai.address, debtUnits);
+            await setup.dai.transfer(debtModule.address, ether(100.5));
 
-        it("should emit the correct CKTokenRedeemed event", async () => {
-          const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
+            const [, equityFlows, ] = await debtIssuance.getRequiredComponentRedemptionUnits(ckToken.address, ether(1));
+            await setup.weth.approve(debtIssuance.address, equityFlows[0].mul(ether(1.005)));
 
-          await expect(subject()).to.emit(debtIssuance, "CKTokenRedeemed").withArgs(
-            ckToken.address,
-            subjectCaller.address,
-            subjectTo,
-            subjectQuantity,
-            feeQuantity,
-            ZERO
-          );
-        });
+            await debtIssuance.issue(ckToken.address, ether(1), owner.address);
 
-        describe("when an external equity position is in place", async () => {
-          const externalUnits: BigNumber = ether(1);
+            await setup.dai.approve(debtIssuance.address, ether(100.5));
 
-          before(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+            subjectCKToken = ckToken.address;
+            subjectQuantity = ether(1);
+            subjectTo = recipient.address;
+            subjectCaller = owner;
           });
 
-          after(async () => {
-            await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, ZERO);
+          async function subject(): Promise<ContractTransaction> {
+            return debtIssuance.connect(subjectCaller.wallet).redeem(
+              subjectCKToken,
+              subjectQuantity,
+              subjectTo,
+            );
+          }
+
+          it("should mint CKTokens to the correct addresses", async () => {
+            const preManagerBalance = await ckToken.balanceOf(feeRecipient.address);
+            const preCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+
+            await subject();
+
+            const feeQuantity = preciseMulCeil(subjectQuantity, redeemFee);
+            const postManagerBalance = await ckToken.balanceOf(feeRecipient.address);
+            const postCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+
+            expect(postManagerBalance).to.eq(preManagerBalance.add(feeQuantity));
+            expect(postCallerBalance).to.eq(preCallerBalance.sub(subjectQuantity));
           });
 
           it("should have the correct token balances", async () => {
             const preToWethBalance = await setup.weth.balanceOf(subjectTo);
             const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-            const preExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
             const preRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
             const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
             const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
@@ -908,138 +910,279 @@ describe("DebtIssuanceModule", () => {
 
             const redeemQuantity = preciseMul(subjectQuantity, ether(1).sub(redeemFee));
             const daiFlows = preciseMulCeil(redeemQuantity, debtUnits);
-            const wethExternalFlows = preciseMul(redeemQuantity, externalUnits);
-            const wethDefaultFlows = preciseMul(redeemQuantity, ether(1));
+            const wethFlows = preciseMul(redeemQuantity, ether(1));
 
             const postToWethBalance = await setup.weth.balanceOf(subjectTo);
             const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-            const postExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
             const postRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
             const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
             const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
 
-            expect(postToWethBalance).to.eq(preToWethBalance.add(wethExternalFlows.add(wethDefaultFlows)));
-            expect(postSetWethBalance).to.eq(preSetWethBalance.sub(wethDefaultFlows));
-            expect(postExternalWethBalance).to.eq(preExternalWethBalance.sub(wethExternalFlows));
+            expect(postToWethBalance).to.eq(preToWethBalance.add(wethFlows));
+            expect(postSetWethBalance).to.eq(preSetWethBalance.sub(wethFlows));
             expect(postRedeemerDaiBalance).to.eq(preRedeemerDaiBalance.sub(daiFlows));
             expect(postSetDaiBalance).to.eq(preSetDaiBalance);
             expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.add(daiFlows));
           });
-        });
 
-        describe("when the manager redemption fee is 0", async () => {
-          before(async () => {
-            redeemFee = ZERO;
-          });
+          it("should have called the module issue hook", async () => {
+            await subject();
 
-          after(async () => {
-            redeemFee = ether(0.005);
+            const hookCalled = await debtModule.moduleRedeemHookCalled();
+
+            expect(hookCalled).to.be.true;
           });
 
-          it("should mint CKTokens to the correct addresses", async () => {
-            await subject();
+          it("should emit the correct CKTokenRedeemed event", async () => {
+            const feeQuantity = preciseMulCeil(subjectQuantity, issueFee);
 
-            const toBalance = await ckToken.balanceOf(subjectTo);
+            await expect(subject()).to.emit(debtIssuance, "CKTokenRedeemed").withArgs(
+              ckToken.address,
+              subjectCaller.address,
+              subjectTo,
+              subjectQuantity,
+              feeQuantity,
+              ZERO
+            );
+          });
 
-            expect(toBalance).to.eq(ZERO);
+          describe("when an external equity position is in place", async () => {
+            const externalUnits: BigNumber = ether(1);
+
+            before(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, externalUnits);
+            });
+
+            after(async () => {
+              await externalPositionModule.addExternalPosition(ckToken.address, setup.weth.address, ZERO);
+            });
+
+            it("should have the correct token balances", async () => {
+              const preToWethBalance = await setup.weth.balanceOf(subjectTo);
+              const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const preExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
+              const preRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              await subject();
+
+              const redeemQuantity = preciseMul(subjectQuantity, ether(1).sub(redeemFee));
+              const daiFlows = preciseMulCeil(redeemQuantity, debtUnits);
+              const wethExternalFlows = preciseMul(redeemQuantity, externalUnits);
+              const wethDefaultFlows = preciseMul(redeemQuantity, ether(1));
+
+              const postToWethBalance = await setup.weth.balanceOf(subjectTo);
+              const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const postExternalWethBalance = await setup.weth.balanceOf(externalPositionModule.address);
+              const postRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              expect(postToWethBalance).to.eq(preToWethBalance.add(wethExternalFlows.add(wethDefaultFlows)));
+              expect(postSetWethBalance).to.eq(preSetWethBalance.sub(wethDefaultFlows));
+              expect(postExternalWethBalance).to.eq(preExternalWethBalance.sub(wethExternalFlows));
+              expect(postRedeemerDaiBalance).to.eq(preRedeemerDaiBalance.sub(daiFlows));
+              expect(postSetDaiBalance).to.eq(preSetDaiBalance);
+              expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.add(daiFlows));
+            });
           });
 
-          it("should have the correct token balances", async () => {
-            const preToWethBalance = await setup.weth.balanceOf(subjectTo);
-            const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-            const preRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-            const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-            const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+          describe("when the manager redemption fee is 0", async () => {
+            before(async () => {
+              redeemFee = ZERO;
+            });
 
-            await subject();
+            after(async () => {
+              redeemFee = ether(0.005);
+            });
 
-            const redeemQuantity = preciseMul(subjectQuantity, ether(1).sub(redeemFee));
-            const daiFlows = preciseMulCeil(redeemQuantity, debtUnits);
-            const wethFlows = preciseMul(redeemQuantity, ether(1));
+            it("should mint CKTokens to the correct addresses", async () => {
+              await subject();
 
-            const postToWethBalance = await setup.weth.balanceOf(subjectTo);
-            const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
-            const postRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
-            const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
-            const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+              const toBalance = await ckToken.balanceOf(subjectTo);
 
-            expect(postToWethBalance).to.eq(preToWethBalance.add(wethFlows));
-            expect(postSetWethBalance).to.eq(preSetWethBalance.sub(wethFlows));
-            expect(postRedeemerDaiBalance).to.eq(preRedeemerDaiBalance.sub(daiFlows));
-            expect(postSetDaiBalance).to.eq(preSetDaiBalance);
-            expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.add(daiFlows));
+              expect(toBalance).to.eq(ZERO);
+            });
+
+            it("should have the correct token balances", async () => {
+              const preToWethBalance = await setup.weth.balanceOf(subjectTo);
+              const preSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const preRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const preSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const preExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              await subject();
+
+              const redeemQuantity = preciseMul(subjectQuantity, ether(1).sub(redeemFee));
+              const daiFlows = preciseMulCeil(redeemQuantity, debtUnits);
+              const wethFlows = preciseMul(redeemQuantity, ether(1));
+
+              const postToWethBalance = await setup.weth.balanceOf(subjectTo);
+              const postSetWethBalance = await setup.weth.balanceOf(subjectCKToken);
+              const postRedeemerDaiBalance = await setup.dai.balanceOf(subjectCaller.address);
+              const postSetDaiBalance = await setup.dai.balanceOf(subjectCKToken);
+              const postExternalDaiBalance = await setup.dai.balanceOf(debtModule.address);
+
+              expect(postToWethBalance).to.eq(preToWethBalance.add(wethFlows));
+              expect(postSetWethBalance).to.eq(preSetWethBalance.sub(wethFlows));
+              expect(postRedeemerDaiBalance).to.eq(preRedeemerDaiBalance.sub(daiFlows));
+              expect(postSetDaiBalance).to.eq(preSetDaiBalance);
+              expect(postExternalDaiBalance).to.eq(preExternalDaiBalance.add(daiFlows));
+            });
           });
-        });
 
-        describe("when protocol fees are enabled", async () => {
-          const protocolFee: BigNumber = ether(.2);
+          describe("when protocol fees are enabled", async () => {
+            const protocolFee: BigNumber = ether(.2);
 
-          beforeEach(async () => {
-            await setup.controller.addFee(debtIssuance.address, ZERO, protocolFee);
+            beforeEach(async () => {
+              await setup.controller.addFee(debtIssuance.address, ZERO, protocolFee);
+            });
+
+            it("should mint CKTokens to the correct addresses", async () => {
+              const preManagerBalance = await ckToken.balanceOf(feeRecipient.address);
+              const preProtocolBalance = await ckToken.balanceOf(dummyModule.address);
+              const preCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+
+              await subject();
+
+              const feeQuantity = preciseMulCeil(subjectQuantity, redeemFee);
+              const protocolSplit = preciseMul(feeQuantity, protocolFee);
+
+              const postManagerBalance = await ckToken.balanceOf(feeRecipient.address);
+              const postProtocolBalance = await ckToken.balanceOf(dummyModule.address);  // DummyModule is set as address in fixture setup
+              const postCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+
+              expect(postCallerBalance).to.eq(preCallerBalance.sub(subjectQuantity));
+              expect(postManagerBalance).to.eq(preManagerBalance.add(feeQuantity.sub(protocolSplit)));
+              expect(postProtocolBalance).to.eq(preProtocolBalance.add(protocolSplit));
+            });
           });
 
-          it("should mint CKTokens to the correct addresses", async () => {
-            const preManagerBalance = await ckToken.balanceOf(feeRecipient.address);
-            const preProtocolBalance = await ckToken.balanceOf(dummyModule.address);
-            const preCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+          describe("when the issue quantity is 0", async () => {
+            beforeEach(async () => {
+              subjectQuantity = ZERO;
+            });
 
-            await subject();
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Redeem quantity must be > 0");
+            });
+          });
 
-            const feeQuantity = preciseMulCeil(subjectQuantity, redeemFee);
-            const protocolSplit = preciseMul(feeQuantity, protocolFee);
+          describe("when the CKToken is not enabled on the controller", async () => {
+            beforeEach(async () => {
+              const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+                [setup.weth.address],
+                [ether(1)],
+                [debtIssuance.address]
+              );
 
-            const postManagerBalance = await ckToken.balanceOf(feeRecipient.address);
-            const postProtocolBalance = await ckToken.balanceOf(dummyModule.address);  // DummyModule is set as address in fixture setup
-            const postCallerBalance = await ckToken.balanceOf(subjectCaller.address);
+              subjectCKToken = nonEnabledCKToken.address;
+            });
 
-            expect(postCallerBalance).to.eq(preCallerBalance.sub(subjectQuantity));
-            expect(postManagerBalance).to.eq(preManagerBalance.add(feeQuantity.sub(protocolSplit)));
-            expect(postProtocolBalance).to.eq(preProtocolBalance.add(protocolSplit));
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+            });
           });
         });
 
-        describe("when the issue quantity is 0", async () => {
+        describe("#updateFeeRecipient", async () => {
+          let subjectCKToken: Address;
+          let subjectNewFeeRecipient: Address;
+          let subjectCaller: Account;
+
           beforeEach(async () => {
-            subjectQuantity = ZERO;
+            subjectNewFeeRecipient = recipient.address;
+            subjectCKToken = ckToken.address;
+            subjectCaller = manager;
           });
 
-          it("should revert", async () => {
-            await expect(subject()).to.be.revertedWith("Redeem quantity must be > 0");
+          async function subject(): Promise<ContractTransaction> {
+            return debtIssuance.connect(subjectCaller.wallet).updateFeeRecipient(
+              subjectCKToken,
+              subjectNewFeeRecipient
+            );
+          }
+
+          it("should have set the new fee recipient address", async () => {
+            await subject();
+
+            const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
+
+            expect(settings.feeRecipient).to.eq(subjectNewFeeRecipient);
           });
-        });
 
-        describe("when the CKToken is not enabled on the controller", async () => {
-          beforeEach(async () => {
-            const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
-              [setup.weth.address],
-              [ether(1)],
-              [debtIssuance.address]
+          it("should emit the correct FeeRecipientUpdated event", async () => {
+            await expect(subject()).to.emit(debtIssuance, "FeeRecipientUpdated").withArgs(
+              subjectCKToken,
+              subjectNewFeeRecipient
             );
+          });
 
-            subjectCKToken = nonEnabledCKToken.address;
+          describe("when fee recipient address is null address", async () => {
+            beforeEach(async () => {
+              subjectNewFeeRecipient = ADDRESS_ZERO;
+            });
+
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Fee Recipient must be non-zero address.");
+            });
           });
 
-          it("should revert", async () => {
-            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+          describe("when fee recipient address is same address", async () => {
+            beforeEach(async () => {
+              subjectNewFeeRecipient = (await debtIssuance.issuanceSettings(subjectCKToken)).feeRecipient;
+            });
+
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Same fee recipient passed");
+            });
+          });
+
+          describe("when CKToken is not valid", async () => {
+            beforeEach(async () => {
+              const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+                [setup.weth.address],
+                [ether(1)],
+                [debtIssuance.address],
+                manager.address
+              );
+
+              subjectCKToken = nonEnabledCKToken.address;
+            });
+
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+            });
+          });
+
+          describe("when the caller is not the CKToken manager", async () => {
+            beforeEach(async () => {
+              subjectCaller = owner;
+            });
+
+            it("should revert", async () => {
+              await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+            });
           });
         });
       });
 
-      describe("#updateFeeRecipient", async () => {
+      describe("#updateIssueFee", async () => {
         let subjectCKToken: Address;
-        let subjectNewFeeRecipient: Address;
+        let subjectNewIssueFee: BigNumber;
         let subjectCaller: Account;
 
         beforeEach(async () => {
-          subjectNewFeeRecipient = recipient.address;
+          subjectNewIssueFee = ether(.01);
           subjectCKToken = ckToken.address;
           subjectCaller = manager;
         });
 
         async function subject(): Promise<ContractTransaction> {
-          return debtIssuance.connect(subjectCaller.wallet).updateFeeRecipient(
+          return debtIssuance.connect(subjectCaller.wallet).updateIssueFee(
             subjectCKToken,
-            subjectNewFeeRecipient
+            subjectNewIssueFee
           );
         }
 
@@ -1048,33 +1191,33 @@ describe("DebtIssuanceModule", () => {
 
           const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
 
-          expect(settings.feeRecipient).to.eq(subjectNewFeeRecipient);
+          expect(settings.managerIssueFee).to.eq(subjectNewIssueFee);
         });
 
-        it("should emit the correct FeeRecipientUpdated event", async () => {
-          await expect(subject()).to.emit(debtIssuance, "FeeRecipientUpdated").withArgs(
+        it("should emit the correct IssueFeeUpdated event", async () => {
+          await expect(subject()).to.emit(debtIssuance, "IssueFeeUpdated").withArgs(
             subjectCKToken,
-            subjectNewFeeRecipient
+            subjectNewIssueFee
           );
         });
 
-        describe("when fee recipient address is null address", async () => {
+        describe("when new issue fee is greater than max fee", async () => {
           beforeEach(async () => {
-            subjectNewFeeRecipient = ADDRESS_ZERO;
+            subjectNewIssueFee = ether(0.03);
           });
 
           it("should revert", async () => {
-            await expect(subject()).to.be.revertedWith("Fee Recipient must be non-zero address.");
+            await expect(subject()).to.be.revertedWith("Issue fee can't exceed maximum");
           });
         });
 
-        describe("when fee recipient address is same address", async () => {
+        describe("when issue fee is same amount", async () => {
           beforeEach(async () => {
-            subjectNewFeeRecipient = (await debtIssuance.issuanceSettings(subjectCKToken)).feeRecipient;
+            subjectNewIssueFee = (await debtIssuance.issuanceSettings(subjectCKToken)).managerIssueFee;
           });
 
           it("should revert", async () => {
-            await expect(subject()).to.be.revertedWith("Same fee recipient passed");
+            await expect(subject()).to.be.revertedWith("Same issue fee passed");
           });
         });
 
@@ -1105,168 +1248,123 @@ describe("DebtIssuanceModule", () => {
           });
         });
       });
-    });
-
-    describe("#updateIssueFee", async () => {
-      let subjectCKToken: Address;
-      let subjectNewIssueFee: BigNumber;
-      let subjectCaller: Account;
 
-      beforeEach(async () => {
-        subjectNewIssueFee = ether(.01);
-        subjectCKToken = ckToken.address;
-        subjectCaller = manager;
-      });
-
-      async function subject(): Promise<ContractTransaction> {
-        return debtIssuance.connect(subjectCaller.wallet).updateIssueFee(
-          subjectCKToken,
-          subjectNewIssueFee
-        );
-      }
+      describe("#updateRedeemFee", async () => {
+        let subjectCKToken: Address;
+        let subjectNewRedeemFee: BigNumber;
+        let subjectCaller: Account;
 
-      it("should have set the new fee recipient address", async () => {
-        await subject();
+        beforeEach(async () => {
+          subjectNewRedeemFee = ether(.01);
+          subjectCKToken = ckToken.address;
+          subjectCaller = manager;
+        });
 
-        const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
+        async function subject(): Promise<ContractTransaction> {
+          return debtIssuance.connect(subjectCaller.wallet).updateRedeemFee(
+            subjectCKToken,
+            subjectNewRedeemFee
+          );
+        }
 
-        expect(settings.managerIssueFee).to.eq(subjectNewIssueFee);
-      });
+        it("should have set the new fee recipient address", async () => {
+          await subject();
 
-      it("should emit the correct IssueFeeUpdated event", async () => {
-        await expect(subject()).to.emit(debtIssuance, "IssueFeeUpdated").withArgs(
-          subjectCKToken,
-          subjectNewIssueFee
-        );
-      });
+          const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
 
-      describe("when new issue fee is greater than max fee", async () => {
-        beforeEach(async () => {
-          subjectNewIssueFee = ether(0.03);
+          expect(settings.managerRedeemFee).to.eq(subjectNewRedeemFee);
         });
 
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Issue fee can't exceed maximum");
+        it("should emit the correct RedeemFeeUpdated event", async () => {
+          await expect(subject()).to.emit(debtIssuance, "RedeemFeeUpdated").withArgs(
+            subjectCKToken,
+            subjectNewRedeemFee
+          );
         });
-      });
 
-      describe("when issue fee is same amount", async () => {
-        beforeEach(async () => {
-          subjectNewIssueFee = (await debtIssuance.issuanceSettings(subjectCKToken)).managerIssueFee;
-        });
+        describe("when new redeem fee is greater than max fee", async () => {
+          beforeEach(async () => {
+            subjectNewRedeemFee = ether(0.03);
+          });
 
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Same issue fee passed");
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Redeem fee can't exceed maximum");
+          });
         });
-      });
 
-      describe("when CKToken is not valid", async () => {
-        beforeEach(async () => {
-          const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
-            [setup.weth.address],
-            [ether(1)],
-            [debtIssuance.address],
-            manager.address
-          );
+        describe("when redeem fee is same amount", async () => {
+          beforeEach(async () => {
+            subjectNewRedeemFee = (await debtIssuance.issuanceSettings(subjectCKToken)).managerRedeemFee;
+          });
 
-          subjectCKToken = nonEnabledCKToken.address;
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Same redeem fee passed");
+          });
         });
 
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
-        });
-      });
+        describe("when CKToken is not valid", async () => {
+          beforeEach(async () => {
+            const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
+              [setup.weth.address],
+              [ether(1)],
+              [debtIssuance.address],
+              manager.address
+            );
 
-      describe("when the caller is not the CKToken manager", async () => {
-        beforeEach(async () => {
-          subjectCaller = owner;
+            subjectCKToken = nonEnabledCKToken.address;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
+          });
         });
 
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+        describe("when the caller is not the CKToken manager", async () => {
+          beforeEach(async () => {
+            subjectCaller = owner;
+          });
+
+          it("should revert", async () => {
+            await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
+          });
         });
       });
     });
 
-    describe("#updateRedeemFee", async () => {
-      let subjectCKToken: Address;
-      let subjectNewRedeemFee: BigNumber;
-      let subjectCaller: Account;
+    describe("when a component balance reads one unit short", async () => {
+      let roundingErrorToken: StandardTokenWithRoundingErrorMock;
+      let roundingCKToken: CKToken;
 
       beforeEach(async () => {
-        subjectNewRedeemFee = ether(.01);
-        subjectCKToken = ckToken.address;
-        subjectCaller = manager;
-      });
-
-      async function subject(): Promise<ContractTransaction> {
-        return debtIssuance.connect(subjectCaller.wallet).updateRedeemFee(
-          subjectCKToken,
-          subjectNewRedeemFee
-        );
-      }
+        roundingErrorToken = await deployer.mocks.deployTokenWithErrorMock(owner.address, ether(1000), ZERO);
+        roundingCKToken = await setup.createCKToken([roundingErrorToken.address], [ether(1)], [debtIssuance.address]);
+        await debtIssuance.initialize(roundingCKToken.address, ZERO, ZERO, ZERO, feeRecipient.address, ADDRESS_ZERO);
+        await roundingErrorToken.approve(debtIssuance.address, MAX_UINT_256);
 
-      it("should have set the new fee recipient address", async () => {
-        await subject();
-
-        const settings: any = await debtIssuance.issuanceSettings(subjectCKToken);
-
-        expect(settings.managerRedeemFee).to.eq(subjectNewRedeemFee);
+        await debtIssuance.issue(roundingCKToken.address, ether(1), owner.address);
+        await roundingErrorToken.setError(-1);
       });
 
-      it("should emit the correct RedeemFeeUpdated event", async () => {
-        await expect(subject()).to.emit(debtIssuance, "RedeemFeeUpdated").withArgs(
-          subjectCKToken,
-          subjectNewRedeemFee
+      it("should check the component balance after issuing", async () => {
+        parity.record(
+          "issue while the component balance reads one unit short",
+          await getParityOutcome(debtIssuance.issue(roundingCKToken.address, ether(1), owner.address))
         );
       });
 
-      describe("when new redeem fee is greater than max fee", async () => {
-        beforeEach(async () => {
-          subjectNewRedeemFee = ether(0.03);
-        });
-
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Redeem fee can't exceed maximum");
-        });
-      });
-
-      describe("when redeem fee is same amount", async () => {
-        beforeEach(async () => {
-          subjectNewRedeemFee = (await debtIssuance.issuanceSettings(subjectCKToken)).managerRedeemFee;
-        });
-
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Same redeem fee passed");
-        });
-      });
-
-      describe("when CKToken is not valid", async () => {
-        beforeEach(async () => {
-          const nonEnabledCKToken = await setup.createNonControllerEnabledCKToken(
-            [setup.weth.address],
-            [ether(1)],
-            [debtIssuance.address],
-            manager.address
-          );
-
-          subjectCKToken = nonEnabledCKToken.address;
-        });
-
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Must be a valid and initialized CKToken");
-        });
-      });
-
-      describe("when the caller is not the CKToken manager", async () => {
-        beforeEach(async () => {
-          subjectCaller = owner;
-        });
-
-        it("should revert", async () => {
-          await expect(subject()).to.be.revertedWith("Must be the CKToken manager");
-        });
+      it("should check the component balance after redeeming the whole supply", async () => {
+        parity.record(
+          "redeem the whole supply while the component balance reads one unit short",
+          await getParityOutcome(debtIssuance.redeem(roundingCKToken.address, ether(1), owner.address))
+        );
       });
     });
-  });
+  },
+
+  intendedDifferences: {
+    "issue while the component balance reads one unit short":
+      "DebtIssuanceModuleV2 checks the CKToken stays collateralized instead of the exact balance change of each transfer",
+    "redeem the whole supply while the component balance reads one unit short":
+      "DebtIssuanceModuleV2 checks the CKToken stays collateralized instead of the exact balance change of each transfer",
+  },
 });
@@ -0,0 +1,271 @@
+import "module-alias/register";
+
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, NAVIssuanceSettings } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ONE, TWO, ZERO, THREE, ADDRESS_ZERO } from "@utils/constants";
+import { NavIssuanceModule, CKToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  getNavIssuanceSnapshot,
+  NavIssuanceSimulator,
+  NavIssuanceSnapshot,
+  usdc,
+} from "@utils/index";
+import {
+  getAccounts,
+  cacheBeforeEach,
+  getWaffleExpect,
+  getSystemFixture,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("NavIssuanceSimulator", () => {
+  let owner: Account;
+  let feeRecipient: Account;
+  let recipient: Account;
+  let deployer: DeployHelper;
+
+  let setup: SystemFixture;
+  let navIssuanceModule: NavIssuanceModule;
+  let ckToken: CKToken;
+
+  cacheBeforeEach(async () => {
+    [
+      owner,
+      feeRecipient,
+      recipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    navIssuanceModule = await deployer.modules.deployNavIssuanceModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(navIssuanceModule.address);
+
+    // Issue and redeem manager revenue share, issue and redeem direct fees
+    await setup.controller.addFee(navIssuanceModule.address, ZERO, ether(0.1));
+    await setup.controller.addFee(navIssuanceModule.address, ONE, ether(0.15));
+    await setup.controller.addFee(navIssuanceModule.address, TWO, ether(0.0013));
+    await setup.controller.addFee(navIssuanceModule.address, THREE, ether(0.0017));
+
+    ckToken = await setup.createCKToken(
+      [setup.weth.address, setup.usdc.address, setup.wbtc.address, setup.dai.address],
+      [ether(1), usdc(270), bitcoin(1).div(10), ether(600)],
+      [setup.issuanceModule.address, navIssuanceModule.address]
+    );
+
+    const navIssuanceSettings = {
+      managerIssuanceHook: ADDRESS_ZERO,
+      managerRedemptionHook: ADDRESS_ZERO,
+      reserveAssets: [setup.usdc.address, setup.weth.address],
+      feeRecipient: feeRecipient.address,
+      managerFees: [ether(0.001), ether(0.002)],
+      maxManagerFee: ether(0.02),
+      premiumPercentage: ether(0.0033),
+      maxPremiumPercentage: ether(0.1),
+      minCKTokenSupply: ether(1),
+    } as NAVIssuanceSettings;
+    await navIssuanceModule.initialize(ckToken.address, navIssuanceSettings);
+
+    await setup.weth.approve(setup.controller.address, ether(100));
+    await setup.usdc.approve(setup.controller.address, usdc(1000000));
+    await setup.wbtc.approve(setup.controller.address, bitcoin(1000000));
+    await setup.dai.approve(setup.controller.address, ether(1000000));
+
+    await setup.issuanceModule.connect(owner.wallet).initialize(ckToken.address, ADDRESS_ZERO);
+    await setup.issuanceModule.connect(owner.wallet).issue(ckToken.address, ether(3), owner.address);
+
+    await setup.usdc.approve(navIssuanceModule.address, usdc(100000));
+  });
+
+  async function getSnapshot(): Promise<NavIssuanceSnapshot> {
+    return getNavIssuanceSnapshot(ckToken, navIssuanceModule, setup.controller, setup.priceOracle);
+  }
+
+  async function expectSnapshotToMatchChain(snapshot: NavIssuanceSnapshot): Promise<void> {
+    const simulator = new NavIssuanceSimulator(snapshot);
+
+    const components = await ckToken.getComponents();
+    expect(snapshot.positions.map(position => position.component)).to.deep.eq(components);
+    expect(snapshot.positionMultiplier).to.eq(await ckToken.positionMultiplier());
+    expect(snapshot.totalSupply).to.eq(await ckToken.totalSupply());
+
+    for (let i = 0; i < components.length; i++) {
+      expect(simulator.getDefaultPositionRealUnit(components[i])).to.eq(await ckToken.getDefaultPositionRealUnit(components[i]));
+    }
+  }
+
+  describe("#getCKTokenValuation", async () => {
+    let subjectQuoteAsset: Address;
+
+    beforeEach(async () => {
+      subjectQuoteAsset = setup.weth.address;
+    });
+
+    async function subject(): Promise<BigNumber> {
+      const simulator = new NavIssuanceSimulator(await getSnapshot());
+      return simulator.getCKTokenValuation(subjectQuoteAsset);
+    }
+
+    it("should match the CKValuer", async () => {
+      const valuation = await subject();
+
+      const expectedValuation = await setup.ckValuer.calculateCKTokenValuation(ckToken.address, subjectQuoteAsset);
+      expect(valuation).to.eq(expectedValuation);
+    });
+  });
+
+  describe("#simulateIssue", async () => {
+    let subjectReserveAsset: Address;
+    let subjectReserveQuantity: BigNumber;
+
+    beforeEach(async () => {
+      subjectReserveAsset = setup.usdc.address;
+      subjectReserveQuantity = BigNumber.from(1234567891);   // 1234.567891 USDC
+    });
+
+    async function subject(): Promise<any> {
+      return navIssuanceModule.connect(owner.wallet).issue(
+        ckToken.address,
+        subjectReserveAsset,
+        subjectReserveQuantity,
+        ZERO,
+        recipient.address
+      );
+    }
+
+    it("should quote the same mint quantity and fees as the module", async () => {
+      const result = new NavIssuanceSimulator(await getSnapshot()).simulateIssue(subjectReserveAsset, subjectReserveQuantity);
+      const preIssueManagerBalance = await setup.usdc.balanceOf(feeRecipient.address);
+      const preIssueProtocolBalance = await setup.usdc.balanceOf(setup.feeRecipient);
+
+      await subject();
+
+      expect(await ckToken.balanceOf(recipient.address)).to.eq(result.ckTokenQuantity);
+      expect(await setup.usdc.balanceOf(feeRecipient.address)).to.eq(preIssueManagerBalance.add(result.managerFee));
+      expect(await setup.usdc.balanceOf(setup.feeRecipient)).to.eq(preIssueProtocolBalance.add(result.protocolFees));
+    });
+
+    it("should match the post-trade position multiplier and units", async () => {
+      const result = new NavIssuanceSimulator(await getSnapshot()).simulateIssue(subjectReserveAsset, subjectReserveQuantity);
+
+      await subject();
+
+      expect(result.newPositionMultiplier).to.eq(await ckToken.positionMultiplier());
+      expect(result.newPositionUnits[subjectReserveAsset]).to.eq(await ckToken.getDefaultPositionRealUnit(subjectReserveAsset));
+      await expectSnapshotToMatchChain(result.postTradeSnapshot);
+    });
+
+    describe("when the reserve asset is not the master quote asset", async () => {
+      beforeEach(async () => {
+        await setup.weth.approve(navIssuanceModule.address, ether(10));
+
+        subjectReserveAsset = setup.weth.address;
+        subjectReserveQuantity = ether(1.234567);
+      });
+
+      it("should match the module", async () => {
+        const result = new NavIssuanceSimulator(await getSnapshot()).simulateIssue(subjectReserveAsset, subjectReserveQuantity);
+
+        await subject();
+
+        expect(await ckToken.balanceOf(recipient.address)).to.eq(result.ckTokenQuantity);
+        await expectSnapshotToMatchChain(result.postTradeSnapshot);
+      });
+    });
+
+    describe("when the min CKToken receive quantity is not met", async () => {
+      it("should throw the module's revert reason", async () => {
+        const simulator = new NavIssuanceSimulator(await getSnapshot());
+        const { ckTokenQuantity } = simulator.simulateIssue(subjectReserveAsset, subjectReserveQuantity);
+
+        expect(() => simulator.simulateIssue(subjectReserveAsset, subjectReserveQuantity, ckTokenQuantity.add(1)))
+          .to.throw("Must be greater than min CKToken");
+      });
+    });
+
+    describe("when the reserve asset is not valid", async () => {
+      it("should throw the module's revert reason", async () => {
+        const simulator = new NavIssuanceSimulator(await getSnapshot());
+
+        expect(() => simulator.simulateIssue(setup.wbtc.address, bitcoin(1))).to.throw("Must be valid reserve asset");
+      });
+    });
+  });
+
+  describe("#simulateRedeem", async () => {
+    let subjectReserveAsset: Address;
+    let subjectCKTokenQuantity: BigNumber;
+
+    beforeEach(async () => {
+      subjectReserveAsset = setup.usdc.address;
+      subjectCKTokenQuantity = ether(0.12345);
+    });
+
+    async function subject(): Promise<any> {
+      return navIssuanceModule.connect(owner.wallet).redeem(
+        ckToken.address,
+        subjectReserveAsset,
+        subjectCKTokenQuantity,
+        ZERO,
+        recipient.address
+      );
+    }
+
+    it("should quote the same reserve quantity and fees as the module", async () => {
+      const result = new NavIssuanceSimulator(await getSnapshot()).simulateRedeem(subjectReserveAsset, subjectCKTokenQuantity);
+      const preRedeemManagerBalance = await setup.usdc.balanceOf(feeRecipient.address);
+      const preRedeemProtocolBalance = await setup.usdc.balanceOf(setup.feeRecipient);
+
+      await subject();
+
+      expect(await setup.usdc.balanceOf(recipient.address)).to.eq(result.netFlowQuantity);
+      expect(await setup.usdc.balanceOf(feeRecipient.address)).to.eq(preRedeemManagerBalance.add(result.managerFee));
+      expect(await setup.usdc.balanceOf(setup.feeRecipient)).to.eq(preRedeemProtocolBalance.add(result.protocolFees));
+    });
+
+    it("should match the post-trade position multiplier and units", async () => {
+      const result = new NavIssuanceSimulator(await getSnapshot()).simulateRedeem(subjectReserveAsset, subjectCKTokenQuantity);
+
+      await subject();
+
+      expect(result.newPositionMultiplier).to.eq(await ckToken.positionMultiplier());
+      expect(result.newPositionUnits[subjectReserveAsset]).to.eq(await ckToken.getDefaultPositionRealUnit(subjectReserveAsset));
+      await expectSnapshotToMatchChain(result.postTradeSnapshot);
+    });
+
+    describe("when chained after a simulated issue", async () => {
+      it("should match the chain after both trades", async () => {
+        const issueResult = new NavIssuanceSimulator(await getSnapshot()).simulateIssue(setup.usdc.address, usdc(500));
+        const redeemResult = new NavIssuanceSimulator(issueResult.postTradeSnapshot)
+          .simulateRedeem(subjectReserveAsset, subjectCKTokenQuantity);
+
+        await navIssuanceModule.connect(owner.wallet).issue(ckToken.address, setup.usdc.address, usdc(500), ZERO, owner.address);
+        await subject();
+
+        expect(await setup.usdc.balanceOf(recipient.address)).to.eq(redeemResult.netFlowQuantity);
+        await expectSnapshotToMatchChain(redeemResult.postTradeSnapshot);
+      });
+    });
+
+    describe("when the redemption exceeds the reserve asset held by the CKToken", async () => {
+      beforeEach(async () => {
+        subjectCKTokenQuantity = ether(2.5);
+      });
+
+      it("should throw the module's revert reason", async () => {
+        const simulator = new NavIssuanceSimulator(await getSnapshot());
+
+        expect(() => simulator.simulateRedeem(subjectReserveAsset, subjectCKTokenQuantity))
+          .to.throw("Must be greater than total available collateral");
+      });
+    });
+  });
+});
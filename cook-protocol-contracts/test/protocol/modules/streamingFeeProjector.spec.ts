@@ -0,0 +1,158 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+import { hexZeroPad } from "ethers/lib/utils";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ONE_DAY_IN_SECONDS, ZERO } from "@utils/constants";
+import { CKToken } from "@utils/contracts";
+import {
+  ether,
+  FeePeriodSummary,
+  FeeProjection,
+  getAccrualSchedule,
+  getStreamingFeeProjectionSettings,
+  groupFeesByPeriod,
+  projectStreamingFees,
+  StreamingFeeProjectionSettings,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getLastBlockTimestamp,
+  getRandomAddress,
+  getSystemFixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { Address, StreamingFeeState } from "@utils/types";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("StreamingFeeProjector", () => {
+  let owner: Account;
+  let setup: SystemFixture;
+  let ckToken: CKToken;
+  let feeRecipient: Address;
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    ckToken = await setup.createCKToken(
+      [setup.weth.address],
+      [ether(1)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address]
+    );
+
+    feeRecipient = await getRandomAddress();
+    await setup.controller.addFee(setup.streamingFeeModule.address, ZERO, ether(.15));
+    await setup.issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(ckToken.address, {
+      feeRecipient,
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    } as StreamingFeeState);
+
+    await setup.approveAndIssueCKToken(ckToken, ether(10));
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#projectStreamingFees", async () => {
+    let subjectSettings: StreamingFeeProjectionSettings;
+    let subjectAccrualTimestamps: number[];
+
+    beforeEach(async () => {
+      subjectSettings = await getStreamingFeeProjectionSettings(setup.streamingFeeModule, setup.controller, ckToken);
+
+      subjectAccrualTimestamps = [];
+      for (let i = 0; i < 3; i++) {
+        await increaseTimeAsync(ONE_DAY_IN_SECONDS.mul(30));
+        await setup.streamingFeeModule.accrueFee(ckToken.address);
+        subjectAccrualTimestamps.push((await getLastBlockTimestamp()).toNumber());
+      }
+    });
+
+    function subject(): FeeProjection {
+      return projectStreamingFees(subjectSettings, subjectAccrualTimestamps);
+    }
+
+    it("should match the supply and position multiplier after the accruals", async () => {
+      const projection = subject();
+
+      expect(projection.totalSupply).to.eq(await ckToken.totalSupply());
+      expect(projection.positionMultiplier).to.eq(await ckToken.positionMultiplier());
+    });
+
+    it("should split the minted CKTokens between manager and protocol", async () => {
+      const projection = subject();
+
+      expect(projection.totalManagerFee).to.eq(await ckToken.balanceOf(feeRecipient));
+      expect(projection.totalProtocolFee).to.eq(await ckToken.balanceOf(setup.feeRecipient));
+    });
+
+    it("should match every FeeActualized event", async () => {
+      const projection = subject();
+
+      const events = await setup.streamingFeeModule.queryFilter({
+        address: setup.streamingFeeModule.address,
+        topics: [setup.streamingFeeModule.interface.getEventTopic("FeeActualized"), hexZeroPad(ckToken.address, 32)],
+      });
+      expect(events.length).to.eq(3);
+      for (let i = 0; i < events.length; i++) {
+        expect(projection.accruals[i].managerFee).to.eq(events[i].args!._managerFee);
+        expect(projection.accruals[i].protocolFee).to.eq(events[i].args!._protocolFee);
+      }
+    });
+
+    describe("when an accrual precedes the last accrual", async () => {
+      beforeEach(async () => {
+        subjectAccrualTimestamps = [subjectSettings.feeState.lastStreamingFeeTimestamp.toNumber() - 1];
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw("precedes the previous accrual");
+      });
+    });
+  });
+
+  describe("#getAccrualSchedule", async () => {
+    it("should add a final accrual at the horizon", async () => {
+      expect(getAccrualSchedule(1000, 250, 100)).to.deep.eq([1100, 1200, 1250]);
+    });
+
+    it("should not duplicate an accrual falling on the horizon", async () => {
+      expect(getAccrualSchedule(1000, 300, 100)).to.deep.eq([1100, 1200, 1300]);
+    });
+  });
+
+  describe("#groupFeesByPeriod", async () => {
+    let subjectAccruals: { timestamp: number; managerFee: BigNumber; protocolFee: BigNumber }[];
+
+    beforeEach(async () => {
+      subjectAccruals = [
+        { timestamp: 100, managerFee: ether(1), protocolFee: ether(.1) },
+        { timestamp: 150, managerFee: ether(2), protocolFee: ether(.2) },
+        { timestamp: 350, managerFee: ether(3), protocolFee: ether(.3) },
+      ];
+    });
+
+    function subject(): FeePeriodSummary[] {
+      return groupFeesByPeriod(subjectAccruals, 100, 100);
+    }
+
+    it("should sum the fees of each period including empty ones", async () => {
+      const periods = subject();
+
+      expect(periods.map(period => period.accrualCount)).to.deep.eq([2, 0, 1]);
+      expect(periods[0].managerFee).to.eq(ether(3));
+      expect(periods[1].managerFee).to.eq(ZERO);
+      expect(periods[2].protocolFee).to.eq(ether(.3));
+      expect(periods[2].endTimestamp).to.eq(400);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { GeneralIndexModule, CKToken, UniswapV2IndexExchangeAdapter } from "@utils/contracts";
+import {
+  ExecutedRebalanceStep,
+  GeneralIndexRebalanceExecutor,
+  planRebalance,
+  RebalancePlan,
+  RebalancePlannerInput,
+} from "@utils/rebalance";
+import DeployHelper from "@utils/deploys";
+import { bitcoin, ether, preciseMul } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getLastBlockTimestamp,
+  getSystemFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("GeneralIndexModule rebalance planner", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let uniswapSetup: UniswapFixture;
+  let sushiswapSetup: UniswapFixture;
+
+  let index: CKToken;
+  let indexModule: GeneralIndexModule;
+
+  const ONE_MINUTE_IN_SECONDS: BigNumber = BigNumber.from(60);
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    uniswapSetup = getUniswapFixture(owner.address);
+    sushiswapSetup = getUniswapFixture(owner.address);
+
+    await setup.initialize();
+    await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    await sushiswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+    indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(indexModule.address);
+
+    const uniswapExchangeAdapter: UniswapV2IndexExchangeAdapter =
+      await deployer.modules.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+    const sushiswapExchangeAdapter: UniswapV2IndexExchangeAdapter =
+      await deployer.modules.deployUniswapV2IndexExchangeAdapter(sushiswapSetup.router.address);
+    await setup.integrationRegistry.batchAddIntegration(
+      [indexModule.address, indexModule.address],
+      ["UNISWAP", "SUSHISWAP"],
+      [uniswapExchangeAdapter.address, sushiswapExchangeAdapter.address]
+    );
+
+    // 1 UNI = 0.005 WETH
+    await setup.weth.approve(uniswapSetup.router.address, ether(2000));
+    await uniswapSetup.uni.approve(uniswapSetup.router.address, ether(400000));
+    await uniswapSetup.router.addLiquidity(
+      setup.weth.address,
+      uniswapSetup.uni.address,
+      ether(2000),
+      ether(400000),
+      ether(1485),
+      ether(173000),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    // 1 WBTC =~ 39.13 WETH
+    await setup.weth.approve(sushiswapSetup.router.address, ether(1000));
+    await setup.wbtc.approve(sushiswapSetup.router.address, ether(26));
+    await sushiswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.wbtc.address,
+      ether(1000),
+      bitcoin(25.5555),
+      ether(999),
+      ether(25.3),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    index = await setup.createCKToken(
+      [uniswapSetup.uni.address, setup.wbtc.address, setup.weth.address],
+      [ether(100), bitcoin(.0127), ether(.1)],
+      [setup.issuanceModule.address, indexModule.address]
+    );
+    await setup.issuanceModule.initialize(index.address, ADDRESS_ZERO);
+    await setup.approveAndIssueCKToken(index, ether(20));
+
+    await indexModule.initialize(index.address);
+    await indexModule.setTradeMaximums(
+      index.address,
+      [uniswapSetup.uni.address, setup.wbtc.address, setup.weth.address],
+      [ether(600), bitcoin(.1), ether(100)]
+    );
+    await indexModule.setExchanges(index.address, [uniswapSetup.uni.address, setup.wbtc.address], ["UNISWAP", "SUSHISWAP"]);
+    await indexModule.setCoolOffPeriods(
+      index.address,
+      [uniswapSetup.uni.address, setup.wbtc.address],
+      [ONE_MINUTE_IN_SECONDS.mul(3), ONE_MINUTE_IN_SECONDS]
+    );
+    await indexModule.setTraderStatus(index.address, [owner.address], [true]);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function getPlannerInput(): Promise<RebalancePlannerInput> {
+    return {
+      weth: setup.weth.address,
+      currentComponents: await index.getComponents(),
+      currentUnits: {
+        [uniswapSetup.uni.address]: await index.getDefaultPositionRealUnit(uniswapSetup.uni.address),
+        [setup.wbtc.address]: await index.getDefaultPositionRealUnit(setup.wbtc.address),
+        [setup.weth.address]: await index.getDefaultPositionRealUnit(setup.weth.address),
+      },
+      targetWeights: {
+        [uniswapSetup.uni.address]: ether(.25),
+        [setup.wbtc.address]: ether(.70),
+        [setup.weth.address]: ether(.05),
+      },
+      prices: {
+        [uniswapSetup.uni.address]: ether(.005),
+        [setup.wbtc.address]: ether(39.13),
+        [setup.weth.address]: ether(1),
+      },
+      decimals: {
+        [uniswapSetup.uni.address]: 18,
+        [setup.wbtc.address]: 8,
+        [setup.weth.address]: 18,
+      },
+      executionParams: {
+        [uniswapSetup.uni.address]: { maxSize: ether(600), coolOffPeriod: ONE_MINUTE_IN_SECONDS.mul(3) },
+        [setup.wbtc.address]: { maxSize: bitcoin(.1), coolOffPeriod: ONE_MINUTE_IN_SECONDS },
+        [setup.weth.address]: { maxSize: ether(100), coolOffPeriod: ZERO },
+      },
+      totalSupply: await index.totalSupply(),
+      positionMultiplier: await index.positionMultiplier(),
+      slippageTolerance: ether(.03),
+      startTimestamp: (await getLastBlockTimestamp()).toNumber(),
+    };
+  }
+
+  describe("#planRebalance", async () => {
+    let subjectInput: RebalancePlannerInput;
+
+    beforeEach(async () => {
+      subjectInput = await getPlannerInput();
+    });
+
+    function subject(): RebalancePlan {
+      return planRebalance(subjectInput);
+    }
+
+    it("should return startRebalance arguments in getComponents order", async () => {
+      const plan = subject();
+
+      const components = await index.getComponents();
+      expect(plan.startRebalanceArgs.newComponents).to.be.empty;
+      expect(plan.startRebalanceArgs.oldComponentsTargetUnits).to.deep.eq(components.map(component => plan.targetUnits[component]));
+      expect(plan.startRebalanceArgs.positionMultiplier).to.eq(await index.positionMultiplier());
+    });
+
+    it("should derive target units from the weights and NAV", async () => {
+      const plan = subject();
+
+      // NAV per token is 0.5 WETH of UNI + 0.496951 WETH of WBTC + 0.1 WETH
+      const nav = ether(.5).add(ether(.496951)).add(ether(.1));
+      expect(plan.targetUnits[uniswapSetup.uni.address]).to.eq(preciseMul(ether(.25), nav).mul(200));
+      expect(plan.targetUnits[setup.weth.address]).to.eq(preciseMul(ether(.05), nav));
+    });
+
+    it("should schedule sells before buys and split trades by the trade maximum", async () => {
+      const plan = subject();
+
+      const trades = plan.steps.filter(step => step.type === "trade");
+      const sellSteps = trades.filter(step => step.isSell);
+      const buySteps = trades.filter(step => !step.isSell);
+
+      expect(trades.map(step => step.isSell)).to.deep.eq([true, true, false, false]);
+      expect(sellSteps.every(step => step.component === uniswapSetup.uni.address)).to.be.true;
+      expect(buySteps.every(step => step.component === setup.wbtc.address)).to.be.true;
+      expect(sellSteps[0].quantity).to.eq(ether(600));
+      expect(buySteps[0].quantity).to.eq(bitcoin(.1));
+    });
+
+    it("should space trades of a component by its cool off period", async () => {
+      const plan = subject();
+
+      const trades = plan.steps.filter(step => step.type === "trade");
+      expect(trades[1].notBefore - trades[0].notBefore).to.eq(180);
+      expect(trades[2].notBefore).to.eq(trades[1].notBefore);
+      expect(trades[3].notBefore - trades[2].notBefore).to.eq(60);
+    });
+
+    describe("when a raise target percentage is passed", async () => {
+      beforeEach(async () => {
+        subjectInput.raiseTargetPercentage = ether(.0025);
+      });
+
+      it("should end with an optional raiseAssetTargets step", async () => {
+        const plan = subject();
+
+        const lastStep = plan.steps[plan.steps.length - 1];
+        expect(lastStep.type).to.eq("raiseAssetTargets");
+        expect(lastStep.optional).to.be.true;
+      });
+    });
+
+    describe("when the target weights do not sum to one", async () => {
+      beforeEach(async () => {
+        subjectInput.targetWeights[setup.weth.address] = ether(.1);
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw("Target weights must sum to 1e18, got 1050000000000000000");
+      });
+    });
+  });
+
+  describe("GeneralIndexRebalanceExecutor", async () => {
+    let plan: RebalancePlan;
+    let executor: GeneralIndexRebalanceExecutor;
+
+    beforeEach(async () => {
+      plan = planRebalance(await getPlannerInput());
+      executor = new GeneralIndexRebalanceExecutor(indexModule, index.address, {
+        waitUntil: async (timestamp: number) => {
+          const now = await getLastBlockTimestamp();
+          if (now.lt(timestamp)) {
+            await increaseTimeAsync(BigNumber.from(timestamp).sub(now));
+          }
+        },
+      });
+    });
+
+    describe("#startRebalance", async () => {
+      it("should set the planned target units on the module", async () => {
+        await executor.startRebalance(plan);
+
+        const uniInfo = await indexModule.executionInfo(index.address, uniswapSetup.uni.address);
+        const wbtcInfo = await indexModule.executionInfo(index.address, setup.wbtc.address);
+        expect(uniInfo.targetUnit).to.eq(plan.targetUnits[uniswapSetup.uni.address]);
+        expect(wbtcInfo.targetUnit).to.eq(plan.targetUnits[setup.wbtc.address]);
+      });
+    });
+
+    describe("#execute", async () => {
+      beforeEach(async () => {
+        await executor.startRebalance(plan);
+      });
+
+      async function subject(): Promise<ExecutedRebalanceStep[]> {
+        return executor.execute(plan);
+      }
+
+      it("should meet the component targets", async () => {
+        await subject();
+
+        const uniUnit = await index.getDefaultPositionRealUnit(uniswapSetup.uni.address);
+        const wbtcUnit = await index.getDefaultPositionRealUnit(setup.wbtc.address);
+        expect(uniUnit).to.eq(plan.targetUnits[uniswapSetup.uni.address]);
+        expect(wbtcUnit).to.eq(plan.targetUnits[setup.wbtc.address]);
+      });
+
+      it("should return the executed trades in plan order", async () => {
+        const executed = await subject();
+
+        const trades = executed.filter(step => !step.skipped);
+        expect(trades.length).to.eq(4);
+        expect(trades[0].trade!.sellComponent).to.eq(uniswapSetup.uni.address);
+        expect(trades[0].trade!.buyComponent).to.eq(setup.weth.address);
+        expect(trades[3].trade!.sellComponent).to.eq(setup.weth.address);
+        expect(trades[3].trade!.buyComponent).to.eq(setup.wbtc.address);
+      });
+
+      describe("when a component target is already met", async () => {
+        let componentToSkip: Address;
+
+        beforeEach(async () => {
+          componentToSkip = uniswapSetup.uni.address;
+          await executor.executeStep(plan, plan.steps[0]);
+          await executor.executeStep(plan, plan.steps[1]);
+        });
+
+        it("should skip its remaining steps", async () => {
+          const executed = await executor.executeStep(plan, plan.steps[1]);
+
+          expect(executed.step.component).to.eq(componentToSkip);
+          expect(executed.skipped).to.be.true;
+          expect(executed.reason).to.eq("Target already met");
+        });
+      });
+
+      describe("when the module rejects a trade step's component", async () => {
+        it("should revert instead of skipping the step", async () => {
+          const step = { ...plan.steps[0], component: ADDRESS_ZERO };
+
+          await expect(executor.executeStep(plan, step)).to.be.revertedWith("Component not recognized");
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import "module-alias/register";
+import hre, { deployments } from "hardhat";
+
+import { Account } from "@utils/test/types";
+import { Address, NetworkAddressBook } from "@utils/types";
+import { buildAddressBook } from "@utils/deploys/addressBook";
+import { loadDeployManifest, resolveReference } from "@utils/deploys/manifestUtils";
+import {
+  ExpectedIntegration,
+  IntegrationAuditReport,
+  IntegrationRegistryAuditor,
+  ProtocolRegistry,
+  getExpectedIntegrations,
+} from "@utils/registry";
+import { IntegrationRegistry } from "@utils/contracts";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("IntegrationRegistryAuditor", () => {
+  let owner: Account;
+  let addressBook: NetworkAddressBook;
+  let integrationRegistry: IntegrationRegistry;
+  let expected: ExpectedIntegration[];
+  let wrapModule: Address;
+  let yearnWrapAdapter: Address;
+
+  let auditor: IntegrationRegistryAuditor;
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    await deployments.fixture();
+    const manifest = loadDeployManifest(hre.network.name);
+    addressBook = await buildAddressBook(hre, manifest);
+    integrationRegistry = new ProtocolRegistry(addressBook, owner.wallet).integrationRegistry;
+
+    expected = await getExpectedIntegrations(manifest, reference => resolveReference(hre, manifest, reference));
+    wrapModule = addressBook.modules.WrapModule;
+    yearnWrapAdapter = addressBook.adapters.YearnWrapAdapter.address;
+
+    auditor = new IntegrationRegistryAuditor(integrationRegistry);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#getExpectedIntegrations", async () => {
+    it("should resolve the manifest's integrations to addresses", async () => {
+      expect(expected).to.deep.eq([{
+        module: wrapModule,
+        moduleName: "WrapModule",
+        integrationName: "YearnWrapAdapter",
+        adapter: yearnWrapAdapter,
+        adapterName: "YearnWrapAdapter",
+      }]);
+    });
+  });
+
+  describe("#getRegisteredIntegrations", async () => {
+    let otherAdapter: Address;
+
+    beforeEach(async () => {
+      otherAdapter = await getRandomAddress();
+
+      await integrationRegistry.addIntegration(wrapModule, "OtherWrapAdapter", otherAdapter);
+      await integrationRegistry.editIntegration(wrapModule, "YearnWrapAdapter", otherAdapter);
+      await integrationRegistry.removeIntegration(wrapModule, "OtherWrapAdapter");
+    });
+
+    it("should replay added, edited and removed integrations", async () => {
+      const registered = await auditor.getRegisteredIntegrations();
+
+      expect(registered.length).to.eq(1);
+      expect(registered[0].module).to.eq(wrapModule);
+      expect(registered[0].integrationName).to.eq("YearnWrapAdapter");
+      expect(registered[0].adapter).to.eq(otherAdapter);
+      expect(await integrationRegistry.getIntegrationAdapter(wrapModule, "YearnWrapAdapter")).to.eq(otherAdapter);
+    });
+  });
+
+  describe("#audit", async () => {
+    async function subject(): Promise<IntegrationAuditReport> {
+      return auditor.audit(expected);
+    }
+
+    it("should report a clean registry", async () => {
+      const report = await subject();
+
+      expect(report.isClean).to.be.true;
+      expect(report.modules.length).to.eq(1);
+      expect(report.modules[0].matching).to.deep.eq(expected);
+      expect(report.batchAddIntegration).to.be.undefined;
+      expect(report.batchEditIntegration).to.be.undefined;
+    });
+
+    describe("when an integration points to another adapter", async () => {
+      let otherAdapter: Address;
+
+      beforeEach(async () => {
+        otherAdapter = await getRandomAddress();
+        await integrationRegistry.editIntegration(wrapModule, "YearnWrapAdapter", otherAdapter);
+      });
+
+      it("should report it as stale", async () => {
+        const report = await subject();
+
+        expect(report.isClean).to.be.false;
+        expect(report.modules[0].stale).to.deep.eq([{ expected: expected[0], registeredAdapter: otherAdapter }]);
+        expect(report.batchAddIntegration).to.be.undefined;
+      });
+
+      it("should return batchEditIntegration calldata that reconciles the registry", async () => {
+        const { batchEditIntegration } = await subject();
+
+        expect(batchEditIntegration!.to).to.eq(integrationRegistry.address);
+        expect(batchEditIntegration!.adapters).to.deep.eq([yearnWrapAdapter]);
+
+        await owner.wallet.sendTransaction({ to: batchEditIntegration!.to, data: batchEditIntegration!.data });
+
+        expect(await integrationRegistry.getIntegrationAdapter(wrapModule, "YearnWrapAdapter")).to.eq(yearnWrapAdapter);
+        expect((await subject()).isClean).to.be.true;
+      });
+    });
+
+    describe("when an integration has been removed", async () => {
+      beforeEach(async () => {
+        await integrationRegistry.removeIntegration(wrapModule, "YearnWrapAdapter");
+      });
+
+      it("should report it as missing", async () => {
+        const report = await subject();
+
+        expect(report.isClean).to.be.false;
+        expect(report.modules[0].missing).to.deep.eq(expected);
+        expect(report.batchEditIntegration).to.be.undefined;
+      });
+
+      it("should return batchAddIntegration calldata that reconciles the registry", async () => {
+        const { batchAddIntegration } = await subject();
+
+        await owner.wallet.sendTransaction({ to: batchAddIntegration!.to, data: batchAddIntegration!.data });
+
+        expect(await integrationRegistry.getIntegrationAdapter(wrapModule, "YearnWrapAdapter")).to.eq(yearnWrapAdapter);
+        expect((await subject()).isClean).to.be.true;
+      });
+    });
+
+    describe("when an integration is not in the manifest", async () => {
+      let otherModule: Address;
+      let otherAdapter: Address;
+
+      beforeEach(async () => {
+        otherModule = addressBook.modules.TradeModule;
+        otherAdapter = await getRandomAddress();
+        await integrationRegistry.addIntegration(otherModule, "OtherExchangeAdapter", otherAdapter);
+      });
+
+      it("should report it as unexpected without generating calldata", async () => {
+        const report = await subject();
+        const tradeModuleAudit = report.modules.filter(audit => audit.module === otherModule)[0];
+
+        expect(report.isClean).to.be.false;
+        expect(tradeModuleAudit.unexpected.length).to.eq(1);
+        expect(tradeModuleAudit.unexpected[0].integrationName).to.eq("OtherExchangeAdapter");
+        expect(tradeModuleAudit.unexpected[0].adapter).to.eq(otherAdapter);
+        expect(report.batchAddIntegration).to.be.undefined;
+        expect(report.batchEditIntegration).to.be.undefined;
+      });
+    });
+  });
+});
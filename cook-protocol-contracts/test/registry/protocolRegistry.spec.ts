@@ -0,0 +1,143 @@
+import "module-alias/register";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments } from "hardhat";
+
+import { Account } from "@utils/test/types";
+import { Address, NetworkAddressBook } from "@utils/types";
+import { buildAddressBook, readAddressBook, writeAddressBook } from "@utils/deploys/addressBook";
+import { loadDeployManifest } from "@utils/deploys/manifestUtils";
+import { ProtocolRegistry } from "@utils/registry";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("ProtocolRegistry", () => {
+  let owner: Account;
+  let addressBook: NetworkAddressBook;
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    await deployments.fixture();
+    addressBook = await buildAddressBook(hre, loadDeployManifest(hre.network.name));
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#buildAddressBook", async () => {
+    it("should include the core contracts, modules and adapters", async () => {
+      expect(addressBook.core.Controller).to.eq((await deployments.get("Controller")).address);
+      expect(addressBook.modules.TradeModule).to.eq((await deployments.get("TradeModule")).address);
+      expect(addressBook.adapters.YearnWrapAdapter.address).to.eq((await deployments.get("YearnWrapAdapter")).address);
+      expect(addressBook.adapters.YearnWrapAdapter.integrations).to.deep.eq([
+        { module: "WrapModule", integrationName: "YearnWrapAdapter" },
+      ]);
+    });
+
+    it("should include deployed tokens and oracles", async () => {
+      expect(addressBook.external.WETH).to.eq((await deployments.get("WETH")).address);
+      expect(addressBook.external.USDC).to.eq((await deployments.get("USDC")).address);
+      expect(addressBook.external.ETH_USD_Oracle).to.eq((await deployments.get("ETH_USD_Oracle")).address);
+    });
+  });
+
+  describe("#writeAddressBook", async () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "address-book-"));
+    });
+
+    afterEach(async () => {
+      fs.rmdirSync(directory, { recursive: true });
+    });
+
+    it("should be read back unchanged", async () => {
+      writeAddressBook(addressBook, directory);
+
+      expect(readAddressBook(addressBook.network, directory)).to.deep.eq(addressBook);
+    });
+  });
+
+  describe("#load", async () => {
+    let subjectAddressBook: NetworkAddressBook;
+
+    beforeEach(async () => {
+      subjectAddressBook = JSON.parse(JSON.stringify(addressBook));
+    });
+
+    async function subject(): Promise<ProtocolRegistry> {
+      return ProtocolRegistry.load(subjectAddressBook, owner.wallet);
+    }
+
+    it("should return connected core contracts and modules", async () => {
+      const registry = await subject();
+
+      expect(registry.controller.address).to.eq(addressBook.core.Controller);
+      expect(registry.priceOracle.address).to.eq(addressBook.core.PriceOracle);
+      expect(registry.getModule("StreamingFeeModule").address).to.eq(addressBook.modules.StreamingFeeModule);
+      expect(await registry.getModule("GeneralIndexModule").weth()).to.eq(addressBook.external.WETH);
+      expect(registry.getAdapter("YearnWrapAdapter").address).to.eq(addressBook.adapters.YearnWrapAdapter.address);
+    });
+
+    describe("when a module is not registered on the Controller", async () => {
+      let unregisteredModule: Address;
+
+      beforeEach(async () => {
+        unregisteredModule = await getRandomAddress();
+        subjectAddressBook.modules.TradeModule = unregisteredModule;
+      });
+
+      it("should throw", async () => {
+        let errorMessage: string = "";
+        try {
+          await subject();
+        } catch (error) {
+          errorMessage = error.message;
+        }
+
+        expect(errorMessage).to.contain(`Module TradeModule at ${unregisteredModule} is not registered on the Controller`);
+      });
+    });
+
+    describe("when a module is missing from the address book", async () => {
+      beforeEach(async () => {
+        delete subjectAddressBook.modules.TradeModule;
+      });
+
+      it("should throw on access", async () => {
+        const registry = await subject();
+
+        expect(() => registry.getModule("TradeModule")).to.throw(`No TradeModule in the ${addressBook.network} address book`);
+      });
+    });
+  });
+
+  describe("#validate", async () => {
+    let registry: ProtocolRegistry;
+    let otherAdapter: Address;
+
+    beforeEach(async () => {
+      registry = new ProtocolRegistry(addressBook, owner.wallet);
+
+      otherAdapter = await getRandomAddress();
+      await registry.integrationRegistry.editIntegration(addressBook.modules.WrapModule, "YearnWrapAdapter", otherAdapter);
+    });
+
+    it("should report integrations resolving to another adapter", async () => {
+      const errors = await registry.validate();
+
+      expect(errors).to.deep.eq([
+        `Integration YearnWrapAdapter on WrapModule resolves to ${otherAdapter} instead of YearnWrapAdapter at ` +
+        `${addressBook.adapters.YearnWrapAdapter.address}`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import "module-alias/register";
+import { deployments, run } from "hardhat";
+
+import { Account } from "@utils/test/types";
+import { Address } from "@utils/types";
+import { ADDRESS_ZERO, MODULE_STATE } from "@utils/constants";
+import DeployHelper from "@utils/deploys";
+import { BasicIssuanceModule, CKToken } from "@utils/contracts";
+import { ether, usdc } from "@utils/index";
+import { WETH9__factory } from "@typechain/factories/WETH9__factory";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getProvider,
+  getRandomAddress,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("Manager tasks", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let issuanceModule: BasicIssuanceModule;
+
+  before(async () => {
+    [owner] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    await deployments.fixture();
+
+    issuanceModule = await deployer.modules.getBasicIssuanceModule((await deployments.get("BasicIssuanceModule")).address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function createCKToken(dryRun: boolean = false): Promise<Address> {
+    return run("ck:create", {
+      components: "WETH,USDC",
+      units: "1,100",
+      modules: "BasicIssuanceModule,StreamingFeeModule",
+      name: "Test Index",
+      symbol: "TEST",
+      dryRun,
+    });
+  }
+
+  describe("ck:create", async () => {
+    it("should create the CKToken with units scaled by component decimals", async () => {
+      const ckToken = await deployer.core.getCKToken(await createCKToken());
+
+      const weth = (await deployments.get("WETH")).address;
+      const usdcAddress = (await deployments.get("USDC")).address;
+      expect(await ckToken.getComponents()).to.deep.eq([weth, usdcAddress]);
+      expect(await ckToken.getDefaultPositionRealUnit(weth)).to.eq(ether(1));
+      expect(await ckToken.getDefaultPositionRealUnit(usdcAddress)).to.eq(usdc(100));
+      expect(await ckToken.manager()).to.eq(owner.address);
+    });
+
+    describe("when it is a dry run", async () => {
+      it("should return the address without deploying", async () => {
+        const ckTokenAddress = await createCKToken(true);
+
+        expect(await getProvider().getCode(ckTokenAddress)).to.eq("0x");
+      });
+    });
+  });
+
+  describe("ck:add-module", async () => {
+    let ckToken: CKToken;
+    let subjectModule: string;
+
+    beforeEach(async () => {
+      ckToken = await deployer.core.getCKToken(await createCKToken());
+      subjectModule = "TradeModule";
+    });
+
+    async function subject(dryRun: boolean = false): Promise<any> {
+      return run("ck:add-module", { ckToken: ckToken.address, module: subjectModule, dryRun });
+    }
+
+    it("should add the module as pending", async () => {
+      await subject();
+
+      const tradeModule = (await deployments.get("TradeModule")).address;
+      expect(await ckToken.moduleStates(tradeModule)).to.eq(MODULE_STATE.PENDING);
+    });
+
+    describe("when the module is not in the address book", async () => {
+      beforeEach(async () => {
+        subjectModule = "UnknownModule";
+      });
+
+      it("should throw", async () => {
+        let errorMessage: string = "";
+        try {
+          await subject();
+        } catch (error) {
+          errorMessage = error.message;
+        }
+
+        expect(errorMessage).to.eq("UnknownModule is neither an address nor a contract in the address book");
+      });
+    });
+  });
+
+  describe("ck:issue", async () => {
+    let ckToken: CKToken;
+
+    beforeEach(async () => {
+      ckToken = await deployer.core.getCKToken(await createCKToken());
+      await issuanceModule.initialize(ckToken.address, ADDRESS_ZERO);
+
+      const weth = WETH9__factory.connect((await deployments.get("WETH")).address, owner.wallet);
+      await weth.deposit({ value: ether(2) });
+    });
+
+    async function subject(dryRun: boolean = false): Promise<any> {
+      return run("ck:issue", { ckToken: ckToken.address, quantity: "2", dryRun });
+    }
+
+    it("should approve the components and issue", async () => {
+      await subject();
+
+      expect(await ckToken.balanceOf(owner.address)).to.eq(ether(2));
+    });
+
+    describe("when it is a dry run", async () => {
+      it("should not issue", async () => {
+        await subject(true);
+
+        expect(await ckToken.totalSupply()).to.eq(0);
+      });
+    });
+  });
+
+  describe("oracle:add-pair", async () => {
+    let subjectAssetOne: Address;
+
+    beforeEach(async () => {
+      subjectAssetOne = await getRandomAddress();
+    });
+
+    async function subject(dryRun: boolean = false): Promise<any> {
+      return run("oracle:add-pair", { assetOne: subjectAssetOne, assetTwo: "USDC", oracle: "USD_USD_Oracle", dryRun });
+    }
+
+    it("should add the pair to the PriceOracle", async () => {
+      await subject();
+
+      const priceOracle = await deployer.core.getPriceOracle((await deployments.get("PriceOracle")).address);
+      const oracle = (await deployments.get("USD_USD_Oracle")).address;
+      expect(await priceOracle.oracles(subjectAssetOne, (await deployments.get("USDC")).address)).to.eq(oracle);
+    });
+
+    describe("when it is a dry run", async () => {
+      it("should leave the PriceOracle unchanged", async () => {
+        await subject(true);
+
+        const priceOracle = await deployer.core.getPriceOracle((await deployments.get("PriceOracle")).address);
+        expect(await priceOracle.oracles(subjectAssetOne, (await deployments.get("USDC")).address)).to.eq(ADDRESS_ZERO);
+      });
+    });
+  });
+});
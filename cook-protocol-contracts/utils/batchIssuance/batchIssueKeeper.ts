@@ -0,0 +1,154 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { getRevertReason } from "../common/revertUtils";
+import { BatchIssuanceRoundExplorer } from "./roundExplorer";
+
+export interface BatchIssueKeeperOptions {
+  depositThreshold?: BigNumber;       // Issue once the open round holds at least this much WETH
+  maxRoundDuration?: number;          // Seconds after a round's first deposit at which it is issued whatever its size
+  pollInterval?: number;              // Milliseconds between checks of the run loop
+  wait?: (milliseconds: number) => Promise<void>;   // Defaults to a timer, tests inject one that mines blocks
+}
+
+export interface BatchIssueCheck {
+  roundNumber: number;
+  deposited: BigNumber;               // getCurrentRoundDeposited
+  roundOpenedAt?: number;             // Timestamp of the round's first deposit
+  blockTimestamp: number;             // Timestamp of the block the check was made at
+  shouldIssue: boolean;
+  reason: string;
+}
+
+export interface BatchIssueResult {
+  check: BatchIssueCheck;
+  issued: boolean;
+  reason?: string;                    // Revert reason when the round was due but batchIssue would fail
+  transactionHash?: string;
+}
+
+export interface BatchIssueRunOptions {
+  maxIterations?: number;             // Stops the loop after this many checks. Runs until stop() when unset
+  onResult?: (result: BatchIssueResult) => void;    // Called with the result of every check
+  onError?: (error: Error) => void;                 // Called when a check or batchIssue throws, logs when unset
+}
+
+const DEFAULT_POLL_INTERVAL = 15000;
+
+/**
+ * Calls batchIssue on a BatchIssuanceModule once the open round is worth issuing: when its deposits reach the
+ * threshold, or when maxRoundDuration has passed since its first deposit. Deposits are read from
+ * getCurrentRoundDeposited and the round's first deposit from the explorer, which the keeper syncs before every check.
+ * The explorer's module must be connected to the signer that sends batchIssue.
+ */
+export class BatchIssueKeeper {
+  public explorer: BatchIssuanceRoundExplorer;
+
+  private _depositThreshold: BigNumber | undefined;
+  private _maxRoundDuration: number | undefined;
+  private _pollInterval: number;
+  private _wait: (milliseconds: number) => Promise<void>;
+  private _isRunning: boolean = false;
+
+  constructor(explorer: BatchIssuanceRoundExplorer, options: BatchIssueKeeperOptions = {}) {
+    if (options.depositThreshold === undefined && options.maxRoundDuration === undefined) {
+      throw new Error("BatchIssueKeeper needs a depositThreshold, a maxRoundDuration or both");
+    }
+
+    this.explorer = explorer;
+    this._depositThreshold = options.depositThreshold;
+    this._maxRoundDuration = options.maxRoundDuration;
+    this._pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+    this._wait = options.wait || (milliseconds => new Promise(resolve => setTimeout(resolve, milliseconds)));
+  }
+
+  public async check(): Promise<BatchIssueCheck> {
+    const batchIssuanceModule = this.explorer.batchIssuanceModule;
+    const blockNumber = await this.explorer.sync();
+    const overrides = { blockTag: blockNumber };
+
+    const [roundNumber, deposited, block] = await Promise.all([
+      batchIssuanceModule.getCurrentRound(this.explorer.ckToken, overrides),
+      batchIssuanceModule.getCurrentRoundDeposited(this.explorer.ckToken, overrides),
+      batchIssuanceModule.provider.getBlock(blockNumber),
+    ]);
+    const roundOpenedAt = this.explorer.getCurrentRound().firstDepositTimestamp;
+
+    const result: BatchIssueCheck = {
+      roundNumber: roundNumber.toNumber(),
+      deposited,
+      roundOpenedAt,
+      blockTimestamp: block.timestamp,
+      shouldIssue: false,
+      reason: "",
+    };
+
+    if (deposited.eq(0)) {
+      result.reason = "Round has no deposits";
+    } else if (this._depositThreshold !== undefined && deposited.gte(this._depositThreshold)) {
+      result.shouldIssue = true;
+      result.reason = "Deposits reached the threshold";
+    } else if (
+      this._maxRoundDuration !== undefined &&
+      roundOpenedAt !== undefined &&
+      block.timestamp >= roundOpenedAt + this._maxRoundDuration
+    ) {
+      result.shouldIssue = true;
+      result.reason = "Round has been open for maxRoundDuration";
+    } else {
+      result.reason = "Round is not due";
+    }
+
+    return result;
+  }
+
+  public async checkAndIssue(): Promise<BatchIssueResult> {
+    const check = await this.check();
+    if (!check.shouldIssue) {
+      return { check, issued: false };
+    }
+
+    const batchIssuanceModule = this.explorer.batchIssuanceModule;
+    const reason = await getRevertReason(batchIssuanceModule.callStatic.batchIssue(this.explorer.ckToken));
+    if (reason !== undefined) {
+      return { check, issued: false, reason };
+    }
+
+    const tx = await batchIssuanceModule.batchIssue(this.explorer.ckToken);
+    await tx.wait();
+
+    return { check, issued: true, transactionHash: tx.hash };
+  }
+
+  /**
+   * Checks and issues every pollInterval until stop() or maxIterations. Only the latest result is kept, onResult sees
+   * every one of them. A check or batchIssue that throws, e.g. on a dropped RPC connection, is reported to onError and
+   * the loop keeps polling. Returns the latest result, undefined if every check threw.
+   */
+  public async run(options: BatchIssueRunOptions = {}): Promise<BatchIssueResult | undefined> {
+    const onError = options.onError || (error => console.error(`BatchIssueKeeper check failed: ${error.message}`));
+    let latestResult: BatchIssueResult | undefined;
+    this._isRunning = true;
+
+    for (let i = 0; this._isRunning; i++) {
+      try {
+        latestResult = await this.checkAndIssue();
+        options.onResult && options.onResult(latestResult);
+      } catch (error) {
+        onError(error);
+      }
+
+      if (options.maxIterations !== undefined && i + 1 >= options.maxIterations) {
+        break;
+      }
+      await this._wait(this._pollInterval);
+    }
+
+    this._isRunning = false;
+    return latestResult;
+  }
+
+  // Ends the run loop after its current check
+  public stop(): void {
+    this._isRunning = false;
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  BatchIssuanceBalanceCheck,
+  BatchIssuanceRound,
+  BatchIssuanceRoundExplorer,
+  BatchIssuanceUserBalances,
+  BatchIssuanceUserRound,
+  RoundSyncOptions
+} from "./roundExplorer";
+export {
+  BatchIssueCheck,
+  BatchIssueKeeper,
+  BatchIssueKeeperOptions,
+  BatchIssueResult,
+  BatchIssueRunOptions
+} from "./batchIssueKeeper";
@@ -0,0 +1,306 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Log } from "@ethersproject/providers";
+import { utils } from "ethers";
+
+import { Address } from "../types";
+import { BatchIssuanceModule } from "../contracts";
+
+export interface BatchIssuanceRound {
+  roundNumber: number;
+  totalEthDeposited: BigNumber;       // WETH deposited into the round, unaffected by withdrawals
+  totalCkTokenIssued: BigNumber;      // CKTokens minted by the round's batchIssue, zero while the round is open
+  remainingEthDeposited: BigNumber;   // Mirrors roundInfos.totalEthDeposited, reduced as depositors withdraw
+  remainingCkTokenIssued: BigNumber;  // Mirrors roundInfos.totalCkTokenIssued, reduced as depositors withdraw
+  deposits: { [depositor: string]: BigNumber };           // Deposited WETH per lowercased depositor
+  remainingDeposits: { [depositor: string]: BigNumber };  // Mirrors userDeposits, zeroed when the depositor withdraws
+  firstDepositBlock?: number;
+  firstDepositTimestamp?: number;
+  issuedBlock?: number;
+  issuedTimestamp?: number;
+}
+
+export interface BatchIssuanceUserRound {
+  roundNumber: number;
+  deposited: BigNumber;
+  pending: BigNumber;                 // WETH still waiting for the round's batchIssue
+  claimable: BigNumber;               // CKTokens withdrawCKToken would pay out for the round
+  isWithdrawn: boolean;
+}
+
+export interface BatchIssuanceUserBalances {
+  user: Address;
+  pending: BigNumber;                 // Same as inputBalanceOf
+  claimable: BigNumber;               // Same as outputBalanceOf
+  rounds: BatchIssuanceUserRound[];
+}
+
+export interface BatchIssuanceBalanceCheck {
+  user: Address;
+  pending: BigNumber;
+  claimable: BigNumber;
+  onChainPending: BigNumber;
+  onChainClaimable: BigNumber;
+  isMatching: boolean;
+}
+
+export interface RoundSyncOptions {
+  fromBlock?: number;                 // First block to read. Defaults to 0, the replay needs every event of the CKToken
+  toBlock?: number;                   // Defaults to the latest block
+  batchSize?: number;                 // Blocks per eth_getLogs request
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+const ROUND_EVENTS = ["Deposit", "CKTokenBatchIssued", "WithdrawCKToken"];
+
+/**
+ * Rebuilds the batch issuance rounds of a CKToken from BatchIssuanceModule's Deposit, CKTokenBatchIssued and
+ * WithdrawCKToken events. Withdrawals are replayed against the same roundInfos and userDeposits bookkeeping the module
+ * keeps, so per user pending and claimable balances match inputBalanceOf and outputBalanceOf including their rounding.
+ * Syncing resumes from the last synced block.
+ */
+export class BatchIssuanceRoundExplorer {
+  public batchIssuanceModule: BatchIssuanceModule;
+  public ckToken: Address;
+  public rounds: BatchIssuanceRound[] = [];
+  public lastSyncedBlock: number | undefined;
+
+  private _topics: string[];
+  private _timestamps: { [blockNumber: number]: number } = {};
+
+  constructor(batchIssuanceModule: BatchIssuanceModule, ckToken: Address) {
+    this.batchIssuanceModule = batchIssuanceModule;
+    this.ckToken = ckToken;
+    this._topics = ROUND_EVENTS.map(name => batchIssuanceModule.interface.getEventTopic(name));
+    this.rounds.push(createRound(0));
+  }
+
+  public async sync(options: RoundSyncOptions = {}): Promise<number> {
+    const provider = this.batchIssuanceModule.provider;
+    // getBlockNumber never goes below a block number the provider has seen, which outlives an evm_revert
+    const toBlock = options.toBlock !== undefined ? options.toBlock : (await provider.getBlock("latest")).number;
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+
+    let fromBlock: number;
+    if (this.lastSyncedBlock !== undefined) {
+      fromBlock = this.lastSyncedBlock + 1;
+    } else {
+      fromBlock = options.fromBlock || 0;
+    }
+
+    for (let batchStart = fromBlock; batchStart <= toBlock; batchStart += batchSize) {
+      const batchEnd = Math.min(batchStart + batchSize - 1, toBlock);
+      const logs = await this._getLogs(batchStart, batchEnd);
+
+      for (let i = 0; i < logs.length; i++) {
+        await this._applyLog(logs[i]);
+      }
+
+      this.lastSyncedBlock = batchEnd;
+    }
+
+    return toBlock;
+  }
+
+  // The round currently accepting deposits, mirrors getCurrentRound
+  public getCurrentRound(): BatchIssuanceRound {
+    return this.rounds[this.rounds.length - 1];
+  }
+
+  public getUserBalances(user: Address): BatchIssuanceUserBalances {
+    const key = user.toLowerCase();
+    const currentRound = this.getCurrentRound().roundNumber;
+
+    const rounds: BatchIssuanceUserRound[] = [];
+    let pending = BigNumber.from(0);
+    let claimable = BigNumber.from(0);
+
+    this.rounds.forEach(round => {
+      const deposited = round.deposits[key];
+      if (deposited === undefined) {
+        return;
+      }
+
+      const remaining = round.remainingDeposits[key];
+      const userRound: BatchIssuanceUserRound = {
+        roundNumber: round.roundNumber,
+        deposited,
+        pending: BigNumber.from(0),
+        claimable: BigNumber.from(0),
+        isWithdrawn: round.roundNumber < currentRound && remaining.eq(0),
+      };
+
+      if (round.roundNumber === currentRound) {
+        userRound.pending = remaining;
+        pending = remaining;
+      } else {
+        userRound.claimable = getWithdrawableAmount(round, remaining);
+        claimable = claimable.add(userRound.claimable);
+      }
+
+      rounds.push(userRound);
+    });
+
+    return { user, pending, claimable, rounds };
+  }
+
+  // Every address that has deposited into any synced round
+  public getDepositors(): Address[] {
+    const depositors: Address[] = [];
+    this.rounds.forEach(round => {
+      Object.keys(round.deposits).forEach(depositor => {
+        if (depositors.indexOf(depositor) === -1) {
+          depositors.push(depositor);
+        }
+      });
+    });
+
+    return depositors;
+  }
+
+  /**
+   * Compares the replayed balances of each user with the module's inputBalanceOf and outputBalanceOf. Read at the last
+   * synced block so blocks mined after the sync do not show up as mismatches. Defaults to every depositor.
+   */
+  public async checkBalances(users: Address[] = this.getDepositors()): Promise<BatchIssuanceBalanceCheck[]> {
+    if (this.lastSyncedBlock === undefined) {
+      throw new Error("Sync the explorer before checking balances");
+    }
+
+    const overrides = { blockTag: this.lastSyncedBlock };
+    const checks: BatchIssuanceBalanceCheck[] = [];
+
+    for (let i = 0; i < users.length; i++) {
+      const { user, pending, claimable } = this.getUserBalances(users[i]);
+      const onChainPending = await this.batchIssuanceModule.inputBalanceOf(this.ckToken, user, overrides);
+      const onChainClaimable = await this.batchIssuanceModule.outputBalanceOf(this.ckToken, user, overrides);
+
+      checks.push({
+        user,
+        pending,
+        claimable,
+        onChainPending,
+        onChainClaimable,
+        isMatching: pending.eq(onChainPending) && claimable.eq(onChainClaimable),
+      });
+    }
+
+    return checks;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async _getLogs(fromBlock: number, toBlock: number): Promise<Log[]> {
+    const logs = await this.batchIssuanceModule.provider.getLogs({
+      address: this.batchIssuanceModule.address,
+      fromBlock,
+      toBlock,
+      topics: [this._topics, utils.hexZeroPad(this.ckToken, 32)],
+    });
+
+    return logs.sort((a, b) => a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.logIndex - b.logIndex);
+  }
+
+  // Mirrors the module storage updates behind each event
+  private async _applyLog(log: Log): Promise<void> {
+    const parsed = this.batchIssuanceModule.interface.parseLog(log);
+    const round = this.getCurrentRound();
+
+    switch (parsed.name) {
+      case "Deposit": {
+        const roundNumber = parsed.args._round.toNumber();
+        if (roundNumber !== round.roundNumber) {
+          throw new Error(`Deposit into round ${roundNumber} while replaying round ${round.roundNumber}, sync from an earlier block`);
+        }
+
+        const depositor = parsed.args._to.toLowerCase();
+        const amount: BigNumber = parsed.args._amount;
+        round.totalEthDeposited = round.totalEthDeposited.add(amount);
+        round.remainingEthDeposited = round.remainingEthDeposited.add(amount);
+        round.deposits[depositor] = (round.deposits[depositor] || BigNumber.from(0)).add(amount);
+        round.remainingDeposits[depositor] = (round.remainingDeposits[depositor] || BigNumber.from(0)).add(amount);
+
+        if (round.firstDepositBlock === undefined) {
+          round.firstDepositBlock = log.blockNumber;
+          round.firstDepositTimestamp = await this._getTimestamp(log.blockNumber);
+        }
+        return;
+      }
+      case "CKTokenBatchIssued": {
+        const roundNumber = parsed.args._roundNumber.toNumber();
+        if (roundNumber !== round.roundNumber) {
+          throw new Error(`Round ${roundNumber} issued while replaying round ${round.roundNumber}, sync from an earlier block`);
+        }
+
+        round.totalCkTokenIssued = parsed.args._outputCK;
+        round.remainingCkTokenIssued = parsed.args._outputCK;
+        round.issuedBlock = log.blockNumber;
+        round.issuedTimestamp = await this._getTimestamp(log.blockNumber);
+
+        this.rounds.push(createRound(roundNumber + 1));
+        return;
+      }
+      case "WithdrawCKToken": {
+        const withdrawn = this._applyWithdraw(parsed.args._to.toLowerCase());
+        if (!withdrawn.eq(parsed.args._amount)) {
+          throw new Error(
+            `Replayed withdrawal of ${withdrawn.toString()} does not match the ${parsed.args._amount.toString()} withdrawn ` +
+            `in ${log.transactionHash}, sync from an earlier block`
+          );
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  // Mirrors withdrawCKTokenTo: every issued round is paid out and its totals reduced by the user's share
+  private _applyWithdraw(user: string): BigNumber {
+    let total = BigNumber.from(0);
+
+    for (let i = 0; i < this.rounds.length - 1; i++) {
+      const round = this.rounds[i];
+      const remaining = round.remainingDeposits[user];
+      const withdrawable = getWithdrawableAmount(round, remaining);
+      if (withdrawable.eq(0)) {
+        continue;
+      }
+
+      round.remainingEthDeposited = round.remainingEthDeposited.sub(remaining);
+      round.remainingCkTokenIssued = round.remainingCkTokenIssued.sub(withdrawable);
+      round.remainingDeposits[user] = BigNumber.from(0);
+
+      total = total.add(withdrawable);
+    }
+
+    return total;
+  }
+
+  private async _getTimestamp(blockNumber: number): Promise<number> {
+    if (this._timestamps[blockNumber] === undefined) {
+      this._timestamps[blockNumber] = (await this.batchIssuanceModule.provider.getBlock(blockNumber)).timestamp;
+    }
+
+    return this._timestamps[blockNumber];
+  }
+}
+
+const createRound = (roundNumber: number): BatchIssuanceRound => ({
+  roundNumber,
+  totalEthDeposited: BigNumber.from(0),
+  totalCkTokenIssued: BigNumber.from(0),
+  remainingEthDeposited: BigNumber.from(0),
+  remainingCkTokenIssued: BigNumber.from(0),
+  deposits: {},
+  remainingDeposits: {},
+});
+
+// Same skip conditions and rounding as the module's outputBalanceOf loop
+const getWithdrawableAmount = (round: BatchIssuanceRound, deposit: BigNumber | undefined): BigNumber => {
+  if (deposit === undefined || deposit.eq(0) || round.remainingEthDeposited.eq(0) || round.remainingCkTokenIssued.eq(0)) {
+    return BigNumber.from(0);
+  }
+
+  return round.remainingCkTokenIssued.mul(deposit).div(round.remainingEthDeposited);
+};
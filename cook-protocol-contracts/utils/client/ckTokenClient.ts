@@ -0,0 +1,413 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { Provider } from "@ethersproject/providers";
+import { Contract, ContractTransaction, Signer, utils } from "ethers";
+
+import { MODULE_STATE, EMPTY_BYTES } from "../constants";
+import { Address, Bytes, Position } from "../types";
+import {
+  BasicIssuanceModule,
+  CKToken,
+  DebtIssuanceModule,
+  GeneralIndexModule,
+  NavIssuanceModule,
+  StreamingFeeModule,
+  TradeModule,
+  WrapModule
+} from "../contracts";
+import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
+import { CKToken__factory } from "../../typechain/factories/CKToken__factory";
+import { DebtIssuanceModule__factory } from "../../typechain/factories/DebtIssuanceModule__factory";
+import { GeneralIndexModule__factory } from "../../typechain/factories/GeneralIndexModule__factory";
+import { NavIssuanceModule__factory } from "../../typechain/factories/NavIssuanceModule__factory";
+import { StreamingFeeModule__factory } from "../../typechain/factories/StreamingFeeModule__factory";
+import { TradeModule__factory } from "../../typechain/factories/TradeModule__factory";
+import { WrapModule__factory } from "../../typechain/factories/WrapModule__factory";
+
+export interface CKTokenModules {
+  basicIssuance?: BasicIssuanceModule;
+  debtIssuance?: DebtIssuanceModule;
+  navIssuance?: NavIssuanceModule;
+  streamingFee?: StreamingFeeModule;
+  trade?: TradeModule;
+  wrap?: WrapModule;
+  generalIndex?: GeneralIndexModule;
+}
+
+export type CKTokenModuleName = keyof CKTokenModules;
+
+// Deployed address of each module the client supports, e.g. from the network's address book
+export type CKTokenModuleAddresses = { [K in CKTokenModuleName]?: Address };
+
+export interface IssuedEvent {
+  transactionHash: string;
+  module: Address;
+  issuer: Address;
+  to: Address;
+  reserveAsset?: Address;             // Only set for NAV issuance
+  quantity: BigNumber;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface RedeemedEvent {
+  transactionHash: string;
+  module: Address;
+  redeemer: Address;
+  to: Address;
+  reserveAsset?: Address;             // Only set for NAV redemption
+  quantity: BigNumber;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface FeeActualizedEvent {
+  transactionHash: string;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface WrappedEvent {
+  transactionHash: string;
+  underlyingToken: Address;
+  wrappedToken: Address;
+  underlyingQuantity: BigNumber;
+  wrappedQuantity: BigNumber;
+  integrationName: string;
+}
+
+export interface TradedEvent {
+  transactionHash: string;
+  sendToken: Address;
+  receiveToken: Address;
+  exchangeAdapter: Address;
+  totalSendAmount: BigNumber;
+  totalReceiveAmount: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface RebalanceTradedEvent {
+  transactionHash: string;
+  sellComponent: Address;
+  buyComponent: Address;
+  exchangeAdapter: Address;
+  executor: Address;
+  netAmountSold: BigNumber;
+  netAmountReceived: BigNumber;
+  protocolFee: BigNumber;
+}
+
+// Sets the module under its name, connected to the client's Signer or Provider
+type ModuleConnector = (modules: CKTokenModules, address: Address, signerOrProvider: Signer | Provider) => void;
+
+const MODULE_CONNECTORS: Record<CKTokenModuleName, ModuleConnector> = {
+  basicIssuance: (modules, address, signerOrProvider) => {
+    modules.basicIssuance = BasicIssuanceModule__factory.connect(address, signerOrProvider);
+  },
+  debtIssuance: (modules, address, signerOrProvider) => {
+    modules.debtIssuance = DebtIssuanceModule__factory.connect(address, signerOrProvider);
+  },
+  navIssuance: (modules, address, signerOrProvider) => {
+    modules.navIssuance = NavIssuanceModule__factory.connect(address, signerOrProvider);
+  },
+  streamingFee: (modules, address, signerOrProvider) => {
+    modules.streamingFee = StreamingFeeModule__factory.connect(address, signerOrProvider);
+  },
+  trade: (modules, address, signerOrProvider) => {
+    modules.trade = TradeModule__factory.connect(address, signerOrProvider);
+  },
+  wrap: (modules, address, signerOrProvider) => {
+    modules.wrap = WrapModule__factory.connect(address, signerOrProvider);
+  },
+  generalIndex: (modules, address, signerOrProvider) => {
+    modules.generalIndex = GeneralIndexModule__factory.connect(address, signerOrProvider);
+  },
+};
+
+/**
+ * High level client for a single CKToken. `initialize` discovers the CKToken's initialized modules and the action
+ * methods route to them, waiting for the transaction and returning the module's parsed event. Modules are identified
+ * by their address in `moduleAddresses`, initialized modules missing from it are listed in `unrecognizedModules`.
+ * Pass a Signer to send transactions; a Provider is enough for the read methods.
+ */
+export class CKTokenClient {
+  public ckToken: CKToken;
+  public modules: CKTokenModules = {};
+  public unrecognizedModules: Address[] = [];
+
+  private _signerOrProvider: Signer | Provider;
+  private _moduleAddresses: CKTokenModuleAddresses;
+
+  constructor(ckTokenAddress: Address, signerOrProvider: Signer | Provider, moduleAddresses: CKTokenModuleAddresses) {
+    this._signerOrProvider = signerOrProvider;
+    this._moduleAddresses = moduleAddresses;
+    this.ckToken = CKToken__factory.connect(ckTokenAddress, signerOrProvider);
+  }
+
+  public static async create(
+    ckTokenAddress: Address,
+    signerOrProvider: Signer | Provider,
+    moduleAddresses: CKTokenModuleAddresses
+  ): Promise<CKTokenClient> {
+    const client = new CKTokenClient(ckTokenAddress, signerOrProvider, moduleAddresses);
+    await client.initialize();
+    return client;
+  }
+
+  public async initialize(): Promise<void> {
+    const modules: CKTokenModules = {};
+    const unrecognizedModules: Address[] = [];
+
+    const moduleAddresses = await this.ckToken.getModules();
+    for (let i = 0; i < moduleAddresses.length; i++) {
+      const moduleState = await this.ckToken.moduleStates(moduleAddresses[i]);
+      if (moduleState !== MODULE_STATE["INITIALIZED"]) {
+        continue;
+      }
+
+      const name = this._getModuleName(moduleAddresses[i]);
+      if (name === undefined) {
+        unrecognizedModules.push(moduleAddresses[i]);
+        continue;
+      }
+
+      MODULE_CONNECTORS[name](modules, moduleAddresses[i], this._signerOrProvider);
+    }
+
+    this.modules = modules;
+    this.unrecognizedModules = unrecognizedModules;
+  }
+
+  /* ============ Views ============ */
+
+  public async getComponents(): Promise<Address[]> {
+    return await this.ckToken.getComponents();
+  }
+
+  public async getPositions(): Promise<Position[]> {
+    return await this.ckToken.getPositions();
+  }
+
+  public async getTotalSupply(): Promise<BigNumber> {
+    return await this.ckToken.totalSupply();
+  }
+
+  public hasModule(name: CKTokenModuleName): boolean {
+    return !!this.modules[name];
+  }
+
+  /* ============ Issuance ============ */
+
+  // Issues through the DebtIssuanceModule if initialized, otherwise the BasicIssuanceModule
+  public async issue(quantity: BigNumberish, to: Address): Promise<IssuedEvent> {
+    const module = this.modules.debtIssuance || this._requireModule("basicIssuance");
+    const tx = await module.issue(this.ckToken.address, quantity, to);
+
+    const args = await this._getEventArgs(tx, module, "CKTokenIssued");
+    return {
+      transactionHash: tx.hash,
+      module: module.address,
+      issuer: args._issuer,
+      to: args._to,
+      quantity: args._quantity,
+      managerFee: args._managerFee || BigNumber.from(0),
+      protocolFee: args._protocolFee || BigNumber.from(0),
+    };
+  }
+
+  public async redeem(quantity: BigNumberish, to: Address): Promise<RedeemedEvent> {
+    const module = this.modules.debtIssuance || this._requireModule("basicIssuance");
+    const tx = await module.redeem(this.ckToken.address, quantity, to);
+
+    const args = await this._getEventArgs(tx, module, "CKTokenRedeemed");
+    return {
+      transactionHash: tx.hash,
+      module: module.address,
+      redeemer: args._redeemer,
+      to: args._to,
+      quantity: args._quantity,
+      managerFee: args._managerFee || BigNumber.from(0),
+      protocolFee: args._protocolFee || BigNumber.from(0),
+    };
+  }
+
+  public async navIssue(
+    reserveAsset: Address,
+    reserveQuantity: BigNumberish,
+    minCKTokenReceiveQuantity: BigNumberish,
+    to: Address
+  ): Promise<IssuedEvent> {
+    const module = this._requireModule("navIssuance");
+    const tx = await module.issue(this.ckToken.address, reserveAsset, reserveQuantity, minCKTokenReceiveQuantity, to);
+
+    const args = await this._getEventArgs(tx, module, "CKTokenNAVIssued");
+    return {
+      transactionHash: tx.hash,
+      module: module.address,
+      issuer: args._issuer,
+      to: args._to,
+      reserveAsset: args._reserveAsset,
+      quantity: args._ckTokenQuantity,
+      managerFee: args._managerFee,
+      // The module emits its protocol fees under the `_premium` name
+      protocolFee: args._premium,
+    };
+  }
+
+  public async navRedeem(
+    reserveAsset: Address,
+    ckTokenQuantity: BigNumberish,
+    minReserveReceiveQuantity: BigNumberish,
+    to: Address
+  ): Promise<RedeemedEvent> {
+    const module = this._requireModule("navIssuance");
+    const tx = await module.redeem(this.ckToken.address, reserveAsset, ckTokenQuantity, minReserveReceiveQuantity, to);
+
+    const args = await this._getEventArgs(tx, module, "CKTokenNAVRedeemed");
+    return {
+      transactionHash: tx.hash,
+      module: module.address,
+      redeemer: args._redeemer,
+      to: args._to,
+      reserveAsset: args._reserveAsset,
+      quantity: args._ckTokenQuantity,
+      managerFee: args._managerFee,
+      protocolFee: args._premium,
+    };
+  }
+
+  /* ============ Fees ============ */
+
+  public async accrueFee(): Promise<FeeActualizedEvent> {
+    const module = this._requireModule("streamingFee");
+    const tx = await module.accrueFee(this.ckToken.address);
+
+    const args = await this._getEventArgs(tx, module, "FeeActualized");
+    return {
+      transactionHash: tx.hash,
+      managerFee: args._managerFee,
+      protocolFee: args._protocolFee,
+    };
+  }
+
+  /* ============ Manager Actions ============ */
+
+  public async wrap(
+    underlyingToken: Address,
+    wrappedToken: Address,
+    underlyingUnits: BigNumberish,
+    integrationName: string
+  ): Promise<WrappedEvent> {
+    const module = this._requireModule("wrap");
+    const tx = await module.wrap(this.ckToken.address, underlyingToken, wrappedToken, underlyingUnits, integrationName);
+
+    return this._toWrappedEvent(tx, await this._getEventArgs(tx, module, "ComponentWrapped"));
+  }
+
+  public async unwrap(
+    underlyingToken: Address,
+    wrappedToken: Address,
+    wrappedUnits: BigNumberish,
+    integrationName: string
+  ): Promise<WrappedEvent> {
+    const module = this._requireModule("wrap");
+    const tx = await module.unwrap(this.ckToken.address, underlyingToken, wrappedToken, wrappedUnits, integrationName);
+
+    return this._toWrappedEvent(tx, await this._getEventArgs(tx, module, "ComponentUnwrapped"));
+  }
+
+  public async trade(
+    exchangeName: string,
+    sendToken: Address,
+    sendQuantity: BigNumberish,
+    receiveToken: Address,
+    minReceiveQuantity: BigNumberish,
+    data: Bytes = EMPTY_BYTES
+  ): Promise<TradedEvent> {
+    const module = this._requireModule("trade");
+    const tx = await module.trade(
+      this.ckToken.address,
+      exchangeName,
+      sendToken,
+      sendQuantity,
+      receiveToken,
+      minReceiveQuantity,
+      data
+    );
+
+    const args = await this._getEventArgs(tx, module, "ComponentExchanged");
+    return {
+      transactionHash: tx.hash,
+      sendToken: args._sendToken,
+      receiveToken: args._receiveToken,
+      exchangeAdapter: args._exchangeAdapter,
+      totalSendAmount: args._totalSendAmount,
+      totalReceiveAmount: args._totalReceiveAmount,
+      protocolFee: args._protocolFee,
+    };
+  }
+
+  // Executes one GeneralIndexModule rebalance trade of the component towards its target unit
+  public async rebalance(component: Address, ethQuantityLimit: BigNumberish): Promise<RebalanceTradedEvent> {
+    const module = this._requireModule("generalIndex");
+    const tx = await module.trade(this.ckToken.address, component, ethQuantityLimit);
+
+    const args = await this._getEventArgs(tx, module, "TradeExecuted");
+    return {
+      transactionHash: tx.hash,
+      sellComponent: args._sellComponent,
+      buyComponent: args._buyComponent,
+      exchangeAdapter: args._exchangeAdapter,
+      executor: args._executor,
+      netAmountSold: args._netAmountSold,
+      netAmountReceived: args._netAmountReceived,
+      protocolFee: args._protocolFee,
+    };
+  }
+
+  /* ============ Private Functions ============ */
+
+  private _getModuleName(moduleAddress: Address): CKTokenModuleName | undefined {
+    const names = Object.keys(this._moduleAddresses) as CKTokenModuleName[];
+    return names.filter(name => {
+      const address = this._moduleAddresses[name];
+      return address !== undefined && address.toLowerCase() === moduleAddress.toLowerCase();
+    })[0];
+  }
+
+  private _requireModule<K extends CKTokenModuleName>(name: K): NonNullable<CKTokenModules[K]> {
+    const module = this.modules[name];
+    if (!module) {
+      throw new Error(`CKToken ${this.ckToken.address} has no initialized ${name} module`);
+    }
+    return module as NonNullable<CKTokenModules[K]>;
+  }
+
+  private async _getEventArgs(tx: ContractTransaction, module: Contract, eventName: string): Promise<utils.Result> {
+    const receipt = await tx.wait();
+
+    for (let i = 0; i < receipt.logs.length; i++) {
+      const log = receipt.logs[i];
+      if (log.address.toLowerCase() !== module.address.toLowerCase()) {
+        continue;
+      }
+
+      const parsed = module.interface.parseLog(log);
+      if (parsed.name === eventName) {
+        return parsed.args;
+      }
+    }
+
+    throw new Error(`No ${eventName} event emitted in transaction ${tx.hash}`);
+  }
+
+  private _toWrappedEvent(tx: ContractTransaction, args: utils.Result): WrappedEvent {
+    return {
+      transactionHash: tx.hash,
+      underlyingToken: args._underlyingToken,
+      wrappedToken: args._wrappedToken,
+      underlyingQuantity: args._underlyingQuantity,
+      wrappedQuantity: args._wrappedQuantity,
+      integrationName: args._integrationName,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+export {
+  CKTokenClient,
+  CKTokenModuleAddresses,
+  CKTokenModuleName,
+  CKTokenModules,
+  FeeActualizedEvent,
+  IssuedEvent,
+  RebalanceTradedEvent,
+  RedeemedEvent,
+  TradedEvent,
+  WrappedEvent
+} from "./ckTokenClient";
@@ -0,0 +1,367 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "../types";
+import { PRECISE_UNIT, ZERO } from "../constants";
+import { ProtocolViewer, UniswapV2Factory } from "../contracts";
+import { preciseDiv, preciseMul } from "./mathUtils";
+
+export type AMMVenue = "uniswap" | "sushiswap";
+
+export interface AMMHopBalances {
+  balanceIn: BigNumber;               // Balance of path[i] held by the path[i] / path[i + 1] pair
+  balanceOut: BigNumber;              // Balance of path[i + 1] held by the same pair
+}
+
+export interface AMMSplitPools {
+  path: Address[];
+  uniswap: AMMHopBalances[];          // One entry per hop, in path order
+  sushiswap: AMMHopBalances[];
+}
+
+export interface AMMSplitTradeSizes {
+  uniSize: BigNumber;
+  sushiSize: BigNumber;
+}
+
+export interface AMMVenueQuote {
+  venue: AMMVenue;
+  size: BigNumber;                    // Input amount for exact input quotes, output amount for exact output quotes
+  amounts: BigNumber[];               // Router getAmountsOut / getAmountsIn result, all zeros when size is zero
+  priceImpact: BigNumber;             // Shortfall against the pools' mid price in precise units, LP fee included
+}
+
+export interface AMMSplitQuote {
+  path: Address[];
+  isExactInput: boolean;
+  size: BigNumber;
+  amounts: BigNumber[];               // Matches AMMSplitter.getAmountsOut / getAmountsIn
+  uniswap: AMMVenueQuote;
+  sushiswap: AMMVenueQuote;
+  priceImpact: BigNumber;
+}
+
+export interface AMMRouteComparison {
+  split: AMMSplitQuote;
+  uniswap?: AMMVenueQuote;            // Undefined when the venue cannot fill the whole trade
+  sushiswap?: AMMVenueQuote;
+  best: AMMVenue | "split";
+  splitImprovement: BigNumber;        // Output gained (exact input) or input saved (exact output) over the best single venue, negative when worse
+}
+
+// Uniswap V2 and Sushiswap charge a 0.3% LP fee, applied by the router library as amount * 997 / 1000
+const FEE_NUMERATOR = BigNumber.from(997);
+const FEE_DENOMINATOR = BigNumber.from(1000);
+
+/**
+ * Mirror of AMMSplitter._calculateTwoHopRatio. Returns the ratio of the Uniswap trade size to the Sushiswap trade size
+ * in precise units given each venue's balance of the intermediate token in the first and second pools.
+ */
+export const calculateTwoHopRatio = (
+  uniLiqPoolA: BigNumber,
+  uniLiqPoolB: BigNumber,
+  sushiLiqPoolA: BigNumber,
+  sushiLiqPoolB: BigNumber
+): BigNumber => {
+  const a = preciseDiv(sushiLiqPoolA.add(sushiLiqPoolB), uniLiqPoolA.add(uniLiqPoolB));
+  const b = preciseDiv(uniLiqPoolA, sushiLiqPoolA);
+  const c = preciseDiv(uniLiqPoolB, sushiLiqPoolB);
+
+  return preciseMul(preciseMul(a, b), c);
+};
+
+/**
+ * Mirror of AMMSplitter._getTradeSizes. Single hop trades are split in proportion to each venue's balance of the output
+ * token, two hop trades by the ratio of calculateTwoHopRatio, measured in the intermediate token. A two hop route that
+ * is missing a pool on one venue is sent entirely to the other one.
+ */
+export const getSplitTradeSizes = (pools: AMMSplitPools, size: BigNumber): AMMSplitTradeSizes => {
+  checkPath(pools.path);
+
+  let uniPercentage: BigNumber;
+  if (pools.path.length === 2) {
+    const uniLiqPool = pools.uniswap[0].balanceOut;
+    const sushiLiqPool = pools.sushiswap[0].balanceOut;
+
+    if (uniLiqPool.add(sushiLiqPool).isZero()) {
+      throw new Error(`Neither Uniswap nor Sushiswap has liquidity for ${pools.path.join(" -> ")}`);
+    }
+
+    uniPercentage = preciseDiv(uniLiqPool, uniLiqPool.add(sushiLiqPool));
+  } else {
+    const uniLiqPoolA = pools.uniswap[0].balanceOut;
+    const uniLiqPoolB = pools.uniswap[1].balanceIn;
+    if (uniLiqPoolA.isZero() || uniLiqPoolB.isZero()) {
+      return { uniSize: ZERO, sushiSize: size };
+    }
+
+    const sushiLiqPoolA = pools.sushiswap[0].balanceOut;
+    const sushiLiqPoolB = pools.sushiswap[1].balanceIn;
+    if (sushiLiqPoolA.isZero() || sushiLiqPoolB.isZero()) {
+      return { uniSize: size, sushiSize: ZERO };
+    }
+
+    const ratio = calculateTwoHopRatio(uniLiqPoolA, uniLiqPoolB, sushiLiqPoolA, sushiLiqPoolB);
+    uniPercentage = preciseDiv(ratio, ratio.add(PRECISE_UNIT));
+  }
+
+  const uniSize = preciseMul(size, uniPercentage);
+  return { uniSize, sushiSize: size.sub(uniSize) };
+};
+
+/**
+ * Mirror of UniswapV2Library.getAmountsOut over the pools' balances, which stand in for the getReserves values it reads
+ */
+export const getUniswapV2AmountsOut = (amountIn: BigNumber, hops: AMMHopBalances[]): BigNumber[] => {
+  const amounts = [amountIn];
+  for (let i = 0; i < hops.length; i++) {
+    const { balanceIn, balanceOut } = hops[i];
+    if (amounts[i].isZero()) {
+      throw new Error("UniswapV2Library: INSUFFICIENT_INPUT_AMOUNT");
+    }
+    if (balanceIn.isZero() || balanceOut.isZero()) {
+      throw new Error("UniswapV2Library: INSUFFICIENT_LIQUIDITY");
+    }
+
+    const amountInWithFee = amounts[i].mul(FEE_NUMERATOR);
+    amounts.push(amountInWithFee.mul(balanceOut).div(balanceIn.mul(FEE_DENOMINATOR).add(amountInWithFee)));
+  }
+
+  return amounts;
+};
+
+/**
+ * Mirror of UniswapV2Library.getAmountsIn over the pools' balances, which stand in for the getReserves values it reads
+ */
+export const getUniswapV2AmountsIn = (amountOut: BigNumber, hops: AMMHopBalances[]): BigNumber[] => {
+  const amounts = [amountOut];
+  for (let i = hops.length - 1; i >= 0; i--) {
+    const { balanceIn, balanceOut } = hops[i];
+    if (amounts[0].isZero()) {
+      throw new Error("UniswapV2Library: INSUFFICIENT_OUTPUT_AMOUNT");
+    }
+    if (balanceIn.isZero() || balanceOut.isZero()) {
+      throw new Error("UniswapV2Library: INSUFFICIENT_LIQUIDITY");
+    }
+    if (amounts[0].gte(balanceOut)) {
+      throw new Error("ds-math-sub-underflow");
+    }
+
+    const numerator = balanceIn.mul(amounts[0]).mul(FEE_DENOMINATOR);
+    const denominator = balanceOut.sub(amounts[0]).mul(FEE_NUMERATOR);
+    amounts.unshift(numerator.div(denominator).add(1));
+  }
+
+  return amounts;
+};
+
+/**
+ * Quotes `size` through a single venue the way AMMSplitter._getTradeInputOrOutput does, returning all zeros for a
+ * zero size instead of reverting.
+ */
+export const quoteVenue = (
+  pools: AMMSplitPools,
+  venue: AMMVenue,
+  size: BigNumber,
+  isExactInput: boolean
+): AMMVenueQuote => {
+  checkPath(pools.path);
+
+  const hops = pools[venue];
+  if (size.isZero()) {
+    return { venue, size, amounts: pools.path.map(() => ZERO), priceImpact: ZERO };
+  }
+
+  const amounts = isExactInput ? getUniswapV2AmountsOut(size, hops) : getUniswapV2AmountsIn(size, hops);
+  const amountIn = amounts[0];
+  const amountOut = amounts[amounts.length - 1];
+
+  return { venue, size, amounts, priceImpact: getPriceImpact(amountIn, amountOut, getMidPriceOutput(amountIn, hops)) };
+};
+
+/**
+ * Reproduces AMMSplitter.getAmountsOut (exact input) or getAmountsIn (exact output) together with the size and quote
+ * routed to each venue. The split's price impact compares the combined amounts with the mid price output of each
+ * venue's share of the trade.
+ */
+export const quoteSplit = (pools: AMMSplitPools, size: BigNumber, isExactInput: boolean): AMMSplitQuote => {
+  const { uniSize, sushiSize } = getSplitTradeSizes(pools, size);
+
+  const uniswap = quoteVenue(pools, "uniswap", uniSize, isExactInput);
+  const sushiswap = quoteVenue(pools, "sushiswap", sushiSize, isExactInput);
+  const amounts = uniswap.amounts.map((amount, i) => amount.add(sushiswap.amounts[i]));
+
+  const amountIn = amounts[0];
+  const amountOut = amounts[amounts.length - 1];
+  const midPriceOutput = getVenueMidPriceOutput(pools, uniswap).add(getVenueMidPriceOutput(pools, sushiswap));
+
+  return {
+    path: pools.path,
+    isExactInput,
+    size,
+    amounts,
+    uniswap,
+    sushiswap,
+    priceImpact: getPriceImpact(amountIn, amountOut, midPriceOutput),
+  };
+};
+
+/**
+ * Compares the split route with sending the whole trade through Uniswap or Sushiswap alone. A venue that cannot fill
+ * the trade (missing pool or not enough liquidity for an exact output) is left out of the comparison.
+ */
+export const compareSplitRoutes = (pools: AMMSplitPools, size: BigNumber, isExactInput: boolean): AMMRouteComparison => {
+  const split = quoteSplit(pools, size, isExactInput);
+  const uniswap = tryQuoteVenue(pools, "uniswap", size, isExactInput);
+  const sushiswap = tryQuoteVenue(pools, "sushiswap", size, isExactInput);
+
+  // Exact input routes are ranked by output received, exact output routes by input spent
+  const getCost = (amounts: BigNumber[]): BigNumber => isExactInput ? amounts[amounts.length - 1].mul(-1) : amounts[0];
+
+  let best: AMMVenue | "split" = "split";
+  let bestCost = getCost(split.amounts);
+  let bestSingleVenueCost: BigNumber | undefined;
+  const singleVenueQuotes = [uniswap, sushiswap];
+  for (let i = 0; i < singleVenueQuotes.length; i++) {
+    const quote = singleVenueQuotes[i];
+    if (quote === undefined) {
+      continue;
+    }
+
+    const cost = getCost(quote.amounts);
+    if (bestSingleVenueCost === undefined || cost.lt(bestSingleVenueCost)) {
+      bestSingleVenueCost = cost;
+    }
+    if (cost.lt(bestCost)) {
+      best = quote.venue;
+      bestCost = cost;
+    }
+  }
+
+  return {
+    split,
+    uniswap,
+    sushiswap,
+    best,
+    splitImprovement: bestSingleVenueCost === undefined ? ZERO : bestSingleVenueCost.sub(getCost(split.amounts)),
+  };
+};
+
+/**
+ * Fetches the balances AMMSplitter reads for a path. Pair addresses are resolved on both factories in parallel, then the
+ * balances of every path token in every pair are read in a single ProtocolViewer.batchFetchBalancesOf call.
+ *
+ * The balances are used both for the split, exactly as the splitter computes it, and as the pools' reserves for the
+ * router quotes. The routers quote from getReserves, not balanceOf, so the quotes only match them for pairs synced since
+ * their last transfer. Tokens sent to a pair without a swap, mint or sync, or fee on transfer tokens, skew the quotes.
+ */
+export const getAMMSplitPools = async (
+  viewer: ProtocolViewer,
+  uniFactory: UniswapV2Factory,
+  sushiFactory: UniswapV2Factory,
+  path: Address[]
+): Promise<AMMSplitPools> => {
+  checkPath(path);
+
+  const hopIndexes = path.slice(1).map((_, j) => j);
+  const pairs = await Promise.all([uniFactory, sushiFactory].map(factory =>
+    Promise.all(hopIndexes.map(j => factory.getPair(path[j], path[j + 1])))
+  ));
+
+  const tokens: Address[] = [];
+  const owners: Address[] = [];
+  pairs.forEach(venuePairs => venuePairs.forEach((pair, j) => {
+    tokens.push(path[j], path[j + 1]);
+    owners.push(pair, pair);
+  }));
+
+  const balances = await viewer.batchFetchBalancesOf(tokens, owners);
+  const getHops = (venueIndex: number): AMMHopBalances[] => {
+    const hops: AMMHopBalances[] = [];
+    for (let j = 0; j < path.length - 1; j++) {
+      const offset = (venueIndex * (path.length - 1) + j) * 2;
+      hops.push({ balanceIn: balances[offset], balanceOut: balances[offset + 1] });
+    }
+    return hops;
+  };
+
+  return { path, uniswap: getHops(0), sushiswap: getHops(1) };
+};
+
+/**
+ * Quotes AMMSplitter trades from pool balances fetched with getAMMSplitPools
+ */
+export class AMMSplitQuoter {
+  private _viewer: ProtocolViewer;
+  private _uniFactory: UniswapV2Factory;
+  private _sushiFactory: UniswapV2Factory;
+
+  constructor(viewer: ProtocolViewer, uniFactory: UniswapV2Factory, sushiFactory: UniswapV2Factory) {
+    this._viewer = viewer;
+    this._uniFactory = uniFactory;
+    this._sushiFactory = sushiFactory;
+  }
+
+  public async getPools(path: Address[]): Promise<AMMSplitPools> {
+    return await getAMMSplitPools(this._viewer, this._uniFactory, this._sushiFactory, path);
+  }
+
+  public async getAmountsOut(amountIn: BigNumber, path: Address[]): Promise<BigNumber[]> {
+    return quoteSplit(await this.getPools(path), amountIn, true).amounts;
+  }
+
+  public async getAmountsIn(amountOut: BigNumber, path: Address[]): Promise<BigNumber[]> {
+    return quoteSplit(await this.getPools(path), amountOut, false).amounts;
+  }
+
+  public async quoteExactInput(amountIn: BigNumber, path: Address[]): Promise<AMMSplitQuote> {
+    return quoteSplit(await this.getPools(path), amountIn, true);
+  }
+
+  public async quoteExactOutput(amountOut: BigNumber, path: Address[]): Promise<AMMSplitQuote> {
+    return quoteSplit(await this.getPools(path), amountOut, false);
+  }
+
+  public async compareRoutes(size: BigNumber, path: Address[], isExactInput: boolean): Promise<AMMRouteComparison> {
+    return compareSplitRoutes(await this.getPools(path), size, isExactInput);
+  }
+}
+
+function checkPath(path: Address[]): void {
+  if (path.length !== 2 && path.length !== 3) {
+    throw new Error("AMMSplitter: incorrect path length");
+  }
+}
+
+function tryQuoteVenue(pools: AMMSplitPools, venue: AMMVenue, size: BigNumber, isExactInput: boolean): AMMVenueQuote | undefined {
+  try {
+    return quoteVenue(pools, venue, size, isExactInput);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Output the trade would receive at the pools' current mid prices, without fee or price impact
+function getMidPriceOutput(amountIn: BigNumber, hops: AMMHopBalances[]): BigNumber {
+  let numerator = amountIn;
+  let denominator = BigNumber.from(1);
+  for (let i = 0; i < hops.length; i++) {
+    numerator = numerator.mul(hops[i].balanceOut);
+    denominator = denominator.mul(hops[i].balanceIn);
+  }
+
+  return numerator.div(denominator);
+}
+
+function getVenueMidPriceOutput(pools: AMMSplitPools, quote: AMMVenueQuote): BigNumber {
+  return quote.size.isZero() ? ZERO : getMidPriceOutput(quote.amounts[0], pools[quote.venue]);
+}
+
+// One minus the ratio of the execution price to the mid price, i.e. the share of the output the input actually spent
+// would buy at the mid price that is not received
+function getPriceImpact(amountIn: BigNumber, amountOut: BigNumber, midPriceOutput: BigNumber): BigNumber {
+  if (amountIn.isZero() || midPriceOutput.isZero()) {
+    return ZERO;
+  }
+
+  return PRECISE_UNIT.sub(preciseDiv(amountOut, midPriceOutput));
+}
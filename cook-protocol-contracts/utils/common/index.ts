@@ -7,6 +7,19 @@ export {
   getStreamingFeeInflationAmount
 } from "./feeModuleUtils";
 export {
+  FeeAccrual,
+  FeePeriodSummary,
+  FeeProjection,
+  getAccrualSchedule,
+  getStreamingFeeProjectionSettings,
+  groupFeesByPeriod,
+  projectStreamingFees,
+  StreamingFeeProjectionSettings
+} from "./streamingFeeProjector";
+export {
+  conservativePreciseDiv,
+  conservativePreciseMul,
+  divCeil,
   divDown,
   min,
   preciseDiv,
@@ -26,6 +39,25 @@ export {
   getExpectedRedeemPositionMultiplier,
   getExpectedRedeemPositionUnit
 } from "./navIssuanceModuleUtils";
+export {
+  getNavIssuanceSnapshot,
+  NavAssetInfo,
+  NavIssuanceFees,
+  NavIssuanceResult,
+  NavIssuanceSimulator,
+  NavIssuanceSimulatorSettings,
+  NavIssuanceSnapshot,
+  NavPositionSnapshot,
+  NavProtocolFees
+} from "./navIssuanceSimulator";
+export {
+  calculateIndexComposition,
+  getIndexComposition,
+  IndexComposition,
+  IndexCompositionOptions,
+  IndexWeight,
+  validateIndexValuation
+} from "./indexCompositionUtils";
 export {
   calculateEngageQuantities,
   calculateLPTokensIssued,
@@ -34,9 +66,47 @@ export {
   calculateTokensInReserve,
   getReservesSafe
 } from "./uniswapUtils";
+export {
+  calculateDefaultEditPositionUnit,
+  convertRealToVirtualUnit,
+  convertVirtualToRealUnit,
+  getDefaultPositionUnit,
+  getDefaultTotalNotional
+} from "./positionUtils";
 export {
   convertLibraryNameToLinkId
 } from "./libraryUtils";
 export {
   getRandomAddress
 } from "./addressUtils";
+export {
+  getRevertReason
+} from "./revertUtils";
+export {
+  AMMHopBalances,
+  AMMRouteComparison,
+  AMMSplitPools,
+  AMMSplitQuote,
+  AMMSplitQuoter,
+  AMMSplitTradeSizes,
+  AMMVenue,
+  AMMVenueQuote,
+  calculateTwoHopRatio,
+  compareSplitRoutes,
+  getAMMSplitPools,
+  getSplitTradeSizes,
+  getUniswapV2AmountsIn,
+  getUniswapV2AmountsOut,
+  quoteSplit,
+  quoteVenue
+} from "./ammSplitQuoter";
+export {
+  getMinReceiveQuantity,
+  IssuanceComponentQuote,
+  IssuanceComponentRoute,
+  IssuanceQuote,
+  IssuanceQuoteOptions,
+  IssuanceQuoter,
+  RedemptionComponentQuote,
+  RedemptionQuote
+} from "./issuanceQuoter";
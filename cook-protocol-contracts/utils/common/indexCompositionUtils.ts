@@ -0,0 +1,148 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "../types";
+import { PRECISE_UNIT, ZERO } from "../constants";
+import { CKToken, CKValuer, PriceOracle } from "../contracts";
+import { Controller__factory } from "../../typechain/factories/Controller__factory";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { preciseDiv, preciseMul } from "./mathUtils";
+import { NavAssetInfo } from "./navIssuanceSimulator";
+
+export interface IndexWeight {
+  component: Address;
+  weight: BigNumber;                  // Share of the NAV in precise units, all weights sum to 1e18
+}
+
+export interface IndexCompositionOptions {
+  quotePrice?: BigNumber;             // Price of the NAV's quote asset in the master quote asset, defaults to 1e18
+  tolerance?: BigNumber;              // Max relative valuation error in precise units, defaults to 1 basis point
+}
+
+export interface IndexComposition {
+  components: Address[];
+  units: BigNumber[];
+  expectedValuation: BigNumber;       // What CKValuer.calculateCKTokenValuation returns for these units, in the quote asset
+  valuationError: BigNumber;          // Relative shortfall or excess vs the target NAV in precise units
+}
+
+const DEFAULT_TOLERANCE = PRECISE_UNIT.div(10000);
+const CK_VALUER_RESOURCE_ID = 2;
+
+/**
+ * Converts target weights and a starting NAV per CKToken into the components and units arrays expected by
+ * CKTokenCreator.create. Units are rounded down and the resulting valuation is recomputed with CKValuer's rounding,
+ * throwing if it is further from the target NAV than the tolerance.
+ *
+ * @param weights           Component weights, in the order the components should be created in
+ * @param navPerToken       Starting NAV of one CKToken in the quote asset, precise units
+ * @param assets            Decimals and master quote asset price of every component, keyed by address
+ */
+export const calculateIndexComposition = (
+  weights: IndexWeight[],
+  navPerToken: BigNumber,
+  assets: { [component: string]: NavAssetInfo },
+  options: IndexCompositionOptions = {}
+): IndexComposition => {
+  const quotePrice = options.quotePrice || PRECISE_UNIT;
+  const tolerance = options.tolerance || DEFAULT_TOLERANCE;
+
+  const totalWeight = weights.reduce((sum, { weight }) => sum.add(weight), ZERO);
+  if (!totalWeight.eq(PRECISE_UNIT)) {
+    throw new Error(`Weights must sum to 1e18, got ${totalWeight.toString()}`);
+  }
+
+  const navInMaster = preciseMul(navPerToken, quotePrice);
+  const components: Address[] = [];
+  const units: BigNumber[] = [];
+  let masterValuation = ZERO;
+
+  weights.forEach(({ component, weight }) => {
+    const asset = getAssetInfo(assets, component);
+    const baseUnits = BigNumber.from(10).pow(asset.decimals);
+
+    const unit = preciseDiv(preciseMul(weight, navInMaster), asset.price).mul(baseUnits).div(PRECISE_UNIT);
+    if (unit.eq(0)) {
+      throw new Error(`Weight of ${component} is too small to be represented with ${asset.decimals} decimals`);
+    }
+
+    components.push(component);
+    units.push(unit);
+
+    // Mirrors CKValuer.calculateCKTokenValuation: normalize units to precise units, then value at the oracle price
+    masterValuation = masterValuation.add(preciseMul(preciseDiv(unit, baseUnits), asset.price));
+  });
+
+  const expectedValuation = quotePrice.eq(PRECISE_UNIT) ? masterValuation : preciseDiv(masterValuation, quotePrice);
+  const valuationError = preciseDiv(expectedValuation.sub(navPerToken).abs(), navPerToken);
+  if (valuationError.gt(tolerance)) {
+    throw new Error(
+      `Valuation ${expectedValuation.toString()} deviates from target NAV ${navPerToken.toString()} by more than the tolerance`
+    );
+  }
+
+  return { components, units, expectedValuation, valuationError };
+};
+
+/**
+ * Same as calculateIndexComposition with prices and decimals read from the PriceOracle and the component tokens.
+ * The NAV is denominated in the quote asset, which defaults to the oracle's master quote asset. The oracle's Controller
+ * must have the CKValuer registered as resource 2, the id the protocol deploys it under.
+ */
+export const getIndexComposition = async (
+  weights: IndexWeight[],
+  navPerToken: BigNumber,
+  priceOracle: PriceOracle,
+  quoteAsset?: Address,
+  tolerance?: BigNumber
+): Promise<IndexComposition> => {
+  const masterQuoteAsset = await priceOracle.masterQuoteAsset();
+
+  // getPrice only answers system contracts, so prices are read as the CKValuer whose valuation the composition mirrors
+  const controller = Controller__factory.connect(await priceOracle.controller(), priceOracle.provider);
+  const valuerOracle = priceOracle.connect(priceOracle.provider);
+  const priceOverrides = { from: await controller.resourceId(CK_VALUER_RESOURCE_ID) };
+
+  const assets: { [component: string]: NavAssetInfo } = {};
+  for (let i = 0; i < weights.length; i++) {
+    const component = weights[i].component;
+    assets[component.toLowerCase()] = {
+      decimals: await ERC20__factory.connect(component, priceOracle.provider).decimals(),
+      price: await valuerOracle.getPrice(component, masterQuoteAsset, priceOverrides),
+    };
+  }
+
+  const quotePrice = quoteAsset && quoteAsset.toLowerCase() !== masterQuoteAsset.toLowerCase()
+    ? await valuerOracle.getPrice(quoteAsset, masterQuoteAsset, priceOverrides)
+    : undefined;
+
+  return calculateIndexComposition(weights, navPerToken, assets, { quotePrice, tolerance });
+};
+
+/**
+ * Checks a created CKToken's on-chain valuation against the NAV it was designed for and returns the valuation.
+ */
+export const validateIndexValuation = async (
+  ckToken: CKToken,
+  ckValuer: CKValuer,
+  quoteAsset: Address,
+  navPerToken: BigNumber,
+  tolerance: BigNumber = DEFAULT_TOLERANCE
+): Promise<BigNumber> => {
+  const valuation = await ckValuer.calculateCKTokenValuation(ckToken.address, quoteAsset);
+
+  if (preciseDiv(valuation.sub(navPerToken).abs(), navPerToken).gt(tolerance)) {
+    throw new Error(
+      `CKToken ${ckToken.address} valuation ${valuation.toString()} deviates from target NAV ${navPerToken.toString()}`
+    );
+  }
+
+  return valuation;
+};
+
+const getAssetInfo = (assets: { [component: string]: NavAssetInfo }, component: Address): NavAssetInfo => {
+  const asset = assets[component] || assets[component.toLowerCase()];
+  if (!asset) {
+    throw new Error(`Missing price and decimals for ${component}`);
+  }
+  return asset;
+};
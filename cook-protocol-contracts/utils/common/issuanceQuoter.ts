@@ -0,0 +1,524 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Provider } from "@ethersproject/providers";
+
+import { Address } from "../types";
+import { ADDRESS_ZERO, PRECISE_UNIT, ZERO } from "../constants";
+import { IssuanceModule } from "../contracts";
+import { IWrapAdapter } from "../../typechain/IWrapAdapter";
+import { CKToken__factory } from "../../typechain/factories/CKToken__factory";
+import { Controller__factory } from "../../typechain/factories/Controller__factory";
+import { IExchangeAdapter__factory } from "../../typechain/factories/IExchangeAdapter__factory";
+import { IntegrationRegistry__factory } from "../../typechain/factories/IntegrationRegistry__factory";
+import { IWrapAdapter__factory } from "../../typechain/factories/IWrapAdapter__factory";
+import { UniswapV2Factory__factory } from "../../typechain/factories/UniswapV2Factory__factory";
+import { UniswapV2Pair__factory } from "../../typechain/factories/UniswapV2Pair__factory";
+import { UniswapV2Router02__factory } from "../../typechain/factories/UniswapV2Router02__factory";
+import { AMMHopBalances, getUniswapV2AmountsIn, getUniswapV2AmountsOut } from "./ammSplitQuoter";
+import { preciseDiv, preciseMul } from "./mathUtils";
+import { getRevertReason } from "./revertUtils";
+
+export interface IssuanceComponentRoute {
+  exchangeName?: string;              // exchangeInfo of the token bought, unset when no trade is needed
+  path: Address[];                    // Router path of the trade, empty when no trade is needed
+  wrapAdapterName?: string;           // wrapInfo of the component, unset for components that are not wrapped
+  underlyingToken?: Address;          // Token traded before wrapping or after unwrapping, WETH for components wrapping ETH
+}
+
+export interface IssuanceComponentQuote extends IssuanceComponentRoute {
+  component: Address;
+  realUnit: BigNumber;                // Default position real unit
+  weighting: BigNumber;
+  issueTokenUsed: BigNumber;          // preciseMul(issueTokenQuantity, weighting) - 1, as the module spends it
+  underlyingReceived?: BigNumber;     // Underlying bought before wrapping
+  componentReceived: BigNumber;
+  maxIssue: BigNumber;                // CKTokens the component alone backs, componentReceived / realUnit
+  dust: BigNumber;                    // componentReceived above what the issued CKTokens need
+  issueTokenReturned: BigNumber;      // Issue token the dust is sold for, zero without returnDust or below the 0.01% threshold
+}
+
+export interface IssuanceQuote {
+  ckToken: Address;
+  issueToken: Address;
+  issueTokenQuantity: BigNumber;
+  weightings: BigNumber[];
+  returnDust: boolean;
+  ckTokenQuantity: BigNumber;         // CKTokens issueWithSingleToken2 mints
+  limitingComponent: Address;         // Component whose maxIssue sets ckTokenQuantity
+  issueTokenReturned: BigNumber;
+  components: IssuanceComponentQuote[];
+}
+
+export interface IssuanceQuoteOptions {
+  weightings?: BigNumber[];           // Defaults to getDefaultWeightings
+  returnDust?: boolean;               // Defaults to true
+}
+
+export interface RedemptionComponentQuote extends IssuanceComponentRoute {
+  component: Address;
+  componentQuantity: BigNumber;       // getRequiredComponentIssuanceUnits for the redeemed quantity, rounded down
+  underlyingReceived?: BigNumber;     // Underlying unwrapped before the trade
+  redeemTokenReceived: BigNumber;
+}
+
+export interface RedemptionQuote {
+  ckToken: Address;
+  ckTokenQuantity: BigNumber;
+  redeemToken: Address;
+  redeemTokenQuantity: BigNumber;     // Redeem token redeemToSingleToken sends
+  components: RedemptionComponentQuote[];
+}
+
+interface WrapRoute {
+  wrapAdapter: IWrapAdapter;
+  wrapAdapterName: string;
+  underlyingToken: Address;           // As configured, may be the wrap adapter's ETH_TOKEN_ADDRESS
+  tradeToken: Address;                // underlyingToken, or WETH when it is ETH
+}
+
+interface TradeQuote {
+  exchangeName?: string;
+  path: Address[];
+  received: BigNumber;
+}
+
+// IssuanceModule._dustToReturn only sells dust worth more than 0.01% of the component's required quantity
+const DUST_THRESHOLD = PRECISE_UNIT.div(10000);
+// Wrapping is treated as linear, with the rate read from the wrap adapter over this many base units of wrapped token
+const WRAP_RATE_REFERENCE = PRECISE_UNIT.mul(PRECISE_UNIT);
+
+/**
+ * Returns the quantity to pass as _minCkTokenRec or _minRedeemTokenToRec for a quoted quantity and a slippage tolerance
+ * in precise units
+ */
+export const getMinReceiveQuantity = (quantity: BigNumber, slippage: BigNumber): BigNumber => {
+  return preciseMul(quantity, PRECISE_UNIT.sub(slippage));
+};
+
+/**
+ * Quotes IssuanceModule.issueWithSingleToken2 (and issueWithEther2) and redeemToSingleToken. Each component's trade is
+ * routed the way the module routes it: through the exchange set in exchangeInfo for the token bought, on the path
+ * [send, receive] when either is WETH and [send, WETH, receive] otherwise, followed by a wrap through the wrap adapter
+ * set in wrapInfo. Trades are simulated against the Uniswap V2 pairs behind each exchange adapter's spender, with the
+ * reserves tracked across the quote so components trading through the same pair see each other's price impact.
+ * Exchange adapters must therefore trade on a Uniswap V2 style router (UniswapV2ExchangeAdapterV2 or a fork of it).
+ */
+export class IssuanceQuoter {
+  public issuanceModule: IssuanceModule;
+
+  private _provider: Provider;
+  private _routers: { [exchangeName: string]: Address } = {};
+
+  constructor(issuanceModule: IssuanceModule) {
+    this.issuanceModule = issuanceModule;
+    this._provider = issuanceModule.provider;
+  }
+
+  /**
+   * Weightings that split the issue token by each component's share of the AMM cost of one CKToken, so the components
+   * are bought close to the CKToken's own ratios
+   */
+  public async getDefaultWeightings(ckTokenAddress: Address, issueToken: Address): Promise<BigNumber[]> {
+    const ckToken = CKToken__factory.connect(ckTokenAddress, this._provider);
+    const components = await ckToken.getComponents();
+    const pools = new UniswapV2PoolState(this._provider);
+
+    const costs: BigNumber[] = [];
+    let totalCost = ZERO;
+    for (let i = 0; i < components.length; i++) {
+      const realUnit = await ckToken.getDefaultPositionRealUnit(components[i]);
+      const cost = await this._getIssueTokenCost(pools, issueToken, components[i], realUnit);
+      costs.push(cost);
+      totalCost = totalCost.add(cost);
+    }
+
+    return costs.map(cost => preciseDiv(cost, totalCost));
+  }
+
+  public async quoteIssue(
+    ckTokenAddress: Address,
+    issueToken: Address,
+    issueTokenQuantity: BigNumber,
+    options: IssuanceQuoteOptions = {}
+  ): Promise<IssuanceQuote> {
+    if (issueTokenQuantity.isZero()) {
+      throw new Error("Issue token quantity must be > 0");
+    }
+
+    const ckToken = CKToken__factory.connect(ckTokenAddress, this._provider);
+    const components = await ckToken.getComponents();
+    const weightings = options.weightings || await this.getDefaultWeightings(ckTokenAddress, issueToken);
+    const returnDust = options.returnDust === undefined ? true : options.returnDust;
+    if (weightings.length !== components.length) {
+      throw new Error("weightings mismatch");
+    }
+
+    const pools = new UniswapV2PoolState(this._provider);
+    const componentQuotes: IssuanceComponentQuote[] = [];
+    let limitingComponent = components[0];
+    let ckTokenQuantity: BigNumber | undefined;
+
+    for (let i = 0; i < components.length; i++) {
+      const issueTokenAmount = preciseMul(issueTokenQuantity, weightings[i]);
+      if (issueTokenAmount.isZero()) {
+        throw new Error(`Weighting of ${components[i]} spends no ${issueToken}`);
+      }
+
+      const issueTokenUsed = issueTokenAmount.sub(1);
+      const realUnit = await ckToken.getDefaultPositionRealUnit(components[i]);
+      const componentQuote = await this._quoteComponentIssue(pools, issueToken, components[i], issueTokenUsed);
+      const maxIssue = preciseDiv(componentQuote.componentReceived, realUnit);
+
+      componentQuotes.push({
+        ...componentQuote,
+        component: components[i],
+        realUnit,
+        weighting: weightings[i],
+        issueTokenUsed,
+        maxIssue,
+        dust: ZERO,
+        issueTokenReturned: ZERO,
+      });
+
+      if (ckTokenQuantity === undefined || maxIssue.lte(ckTokenQuantity)) {
+        ckTokenQuantity = maxIssue;
+        limitingComponent = components[i];
+      }
+    }
+
+    let issueTokenReturned = ZERO;
+    for (let i = 0; i < componentQuotes.length; i++) {
+      const componentQuote = componentQuotes[i];
+      const required = preciseMul(componentQuote.realUnit, ckTokenQuantity as BigNumber);
+      componentQuote.dust = componentQuote.componentReceived.sub(required);
+
+      if (returnDust && preciseDiv(componentQuote.dust, required).gt(DUST_THRESHOLD)) {
+        const dustQuote = await this._quoteComponentRedeem(pools, issueToken, componentQuote.component, componentQuote.dust);
+        componentQuote.issueTokenReturned = dustQuote.redeemTokenReceived;
+        issueTokenReturned = issueTokenReturned.add(dustQuote.redeemTokenReceived);
+      }
+    }
+
+    return {
+      ckToken: ckTokenAddress,
+      issueToken,
+      issueTokenQuantity,
+      weightings,
+      returnDust,
+      ckTokenQuantity: ckTokenQuantity as BigNumber,
+      limitingComponent,
+      issueTokenReturned,
+      components: componentQuotes,
+    };
+  }
+
+  public async quoteRedeem(ckTokenAddress: Address, ckTokenQuantity: BigNumber, redeemToken: Address): Promise<RedemptionQuote> {
+    if (ckTokenQuantity.isZero()) {
+      throw new Error("Redeem quantity must be > 0");
+    }
+
+    const [components, componentQuantities] = await this.issuanceModule.getRequiredComponentIssuanceUnits(
+      ckTokenAddress,
+      ckTokenQuantity,
+      false
+    );
+
+    const pools = new UniswapV2PoolState(this._provider);
+    const componentQuotes: RedemptionComponentQuote[] = [];
+    let redeemTokenQuantity = ZERO;
+    for (let i = 0; i < components.length; i++) {
+      const componentQuote = await this._quoteComponentRedeem(pools, redeemToken, components[i], componentQuantities[i]);
+      componentQuotes.push(componentQuote);
+      redeemTokenQuantity = redeemTokenQuantity.add(componentQuote.redeemTokenReceived);
+    }
+
+    return {
+      ckToken: ckTokenAddress,
+      ckTokenQuantity,
+      redeemToken,
+      redeemTokenQuantity,
+      components: componentQuotes,
+    };
+  }
+
+  /**
+   * Simulates issueWithSingleToken2 for a quote through callStatic from the module's signer, which needs the issue token
+   * balance and allowance. Returns the revert reason, or undefined when the issuance would succeed.
+   */
+  public async getIssueRevertReason(
+    quote: IssuanceQuote,
+    minCkTokenQuantity: BigNumber = quote.ckTokenQuantity
+  ): Promise<string | undefined> {
+    const to = await this.issuanceModule.signer.getAddress();
+    return getRevertReason(this.issuanceModule.callStatic.issueWithSingleToken2(
+      quote.ckToken,
+      quote.issueToken,
+      quote.issueTokenQuantity,
+      minCkTokenQuantity,
+      quote.weightings,
+      to,
+      quote.returnDust
+    ));
+  }
+
+  /**
+   * Simulates redeemToSingleToken for a quote through callStatic from the module's signer, which needs the CKToken
+   * balance. Returns the revert reason, or undefined when the redemption would succeed.
+   */
+  public async getRedeemRevertReason(
+    quote: RedemptionQuote,
+    minRedeemTokenQuantity: BigNumber = quote.redeemTokenQuantity
+  ): Promise<string | undefined> {
+    const to = await this.issuanceModule.signer.getAddress();
+    return getRevertReason(this.issuanceModule.callStatic.redeemToSingleToken(
+      quote.ckToken,
+      quote.ckTokenQuantity,
+      quote.redeemToken,
+      to,
+      minRedeemTokenQuantity
+    ));
+  }
+
+  /* ============ Private Functions ============ */
+
+  // Mirror of IssuanceModule._tradeAndWrapComponents2
+  private async _quoteComponentIssue(
+    pools: UniswapV2PoolState,
+    issueToken: Address,
+    component: Address,
+    issueTokenUsed: BigNumber
+  ): Promise<IssuanceComponentRoute & { underlyingReceived?: BigNumber; componentReceived: BigNumber }> {
+    if (isSameAddress(issueToken, component)) {
+      return { path: [], componentReceived: issueTokenUsed };
+    }
+
+    const wrapRoute = await this._getWrapRoute(component);
+    if (wrapRoute === undefined) {
+      const trade = await this._quoteTrade(pools, issueToken, component, issueTokenUsed);
+      return { exchangeName: trade.exchangeName, path: trade.path, componentReceived: trade.received };
+    }
+
+    const underlyingTrade = await this._quoteTrade(pools, issueToken, wrapRoute.tradeToken, issueTokenUsed);
+    const underlyingPerReference = await wrapRoute.wrapAdapter.getDepositUnderlyingTokenAmount(
+      wrapRoute.underlyingToken,
+      component,
+      WRAP_RATE_REFERENCE
+    );
+
+    return {
+      exchangeName: underlyingTrade.exchangeName,
+      path: underlyingTrade.path,
+      wrapAdapterName: wrapRoute.wrapAdapterName,
+      underlyingToken: wrapRoute.tradeToken,
+      underlyingReceived: underlyingTrade.received,
+      componentReceived: underlyingTrade.received.mul(WRAP_RATE_REFERENCE).div(underlyingPerReference),
+    };
+  }
+
+  // Mirror of IssuanceModule._exchangeDefaultPositionsToRedeemToken
+  private async _quoteComponentRedeem(
+    pools: UniswapV2PoolState,
+    redeemToken: Address,
+    component: Address,
+    componentQuantity: BigNumber
+  ): Promise<RedemptionComponentQuote> {
+    if (isSameAddress(redeemToken, component)) {
+      return { component, componentQuantity, path: [], redeemTokenReceived: componentQuantity };
+    }
+
+    const wrapRoute = await this._getWrapRoute(component);
+    if (wrapRoute === undefined) {
+      const trade = await this._quoteTrade(pools, component, redeemToken, componentQuantity);
+      return { component, componentQuantity, exchangeName: trade.exchangeName, path: trade.path, redeemTokenReceived: trade.received };
+    }
+
+    const underlyingReceived = await wrapRoute.wrapAdapter.getWithdrawUnderlyingTokenAmount(
+      wrapRoute.underlyingToken,
+      component,
+      componentQuantity
+    );
+    const trade = await this._quoteTrade(pools, wrapRoute.tradeToken, redeemToken, underlyingReceived);
+
+    return {
+      component,
+      componentQuantity,
+      exchangeName: trade.exchangeName,
+      path: trade.path,
+      wrapAdapterName: wrapRoute.wrapAdapterName,
+      underlyingToken: wrapRoute.tradeToken,
+      underlyingReceived,
+      redeemTokenReceived: trade.received,
+    };
+  }
+
+  // Issue token bought by getAmountsIn for a component quantity, read from the pools without moving them
+  private async _getIssueTokenCost(
+    pools: UniswapV2PoolState,
+    issueToken: Address,
+    component: Address,
+    componentQuantity: BigNumber
+  ): Promise<BigNumber> {
+    if (isSameAddress(issueToken, component)) {
+      return componentQuantity;
+    }
+
+    let receiveToken = component;
+    let receiveQuantity = componentQuantity;
+    const wrapRoute = await this._getWrapRoute(component);
+    if (wrapRoute !== undefined) {
+      receiveToken = wrapRoute.tradeToken;
+      receiveQuantity = await wrapRoute.wrapAdapter.getDepositUnderlyingTokenAmount(
+        wrapRoute.underlyingToken,
+        component,
+        componentQuantity
+      );
+      if (isSameAddress(issueToken, receiveToken)) {
+        return receiveQuantity;
+      }
+    }
+
+    const [exchangeName, path] = await this._getTradeRoute(issueToken, receiveToken);
+    return (await pools.getAmountsIn(await this._getRouter(exchangeName), path, receiveQuantity))[0];
+  }
+
+  // Mirror of IssuanceModule._trade for exact input trades
+  private async _quoteTrade(
+    pools: UniswapV2PoolState,
+    sendToken: Address,
+    receiveToken: Address,
+    sendQuantity: BigNumber
+  ): Promise<TradeQuote> {
+    if (isSameAddress(sendToken, receiveToken)) {
+      return { path: [], received: sendQuantity };
+    }
+
+    const [exchangeName, path] = await this._getTradeRoute(sendToken, receiveToken);
+    const received = await pools.swapExactTokensForTokens(await this._getRouter(exchangeName), path, sendQuantity);
+
+    return { exchangeName, path, received };
+  }
+
+  // Exchange and path IssuanceModule._createTradeInfo uses for a trade
+  private async _getTradeRoute(sendToken: Address, receiveToken: Address): Promise<[string, Address[]]> {
+    const exchangeName = await this.issuanceModule.exchangeInfo(receiveToken);
+    if (exchangeName === "") {
+      throw new Error(`No exchange is set for ${receiveToken} on the IssuanceModule`);
+    }
+
+    const weth = await this.issuanceModule.weth();
+    const path = isSameAddress(sendToken, weth) || isSameAddress(receiveToken, weth)
+      ? [sendToken, receiveToken]
+      : [sendToken, weth, receiveToken];
+
+    return [exchangeName, path];
+  }
+
+  private async _getRouter(exchangeName: string): Promise<Address> {
+    if (this._routers[exchangeName] === undefined) {
+      const exchangeAdapter = await this._getAdapter(exchangeName);
+      this._routers[exchangeName] = await IExchangeAdapter__factory.connect(exchangeAdapter, this._provider).getSpender();
+    }
+
+    return this._routers[exchangeName];
+  }
+
+  private async _getWrapRoute(component: Address): Promise<WrapRoute | undefined> {
+    const [wrapAdapterName, underlyingToken] = await this.issuanceModule.wrapInfo(component);
+    if (underlyingToken === ADDRESS_ZERO) {
+      return undefined;
+    }
+
+    const wrapAdapter = IWrapAdapter__factory.connect(await this._getAdapter(wrapAdapterName), this._provider);
+    const isEth = isSameAddress(underlyingToken, await wrapAdapter.ETH_TOKEN_ADDRESS());
+
+    return {
+      wrapAdapter,
+      wrapAdapterName,
+      underlyingToken,
+      tradeToken: isEth ? await this.issuanceModule.weth() : underlyingToken,
+    };
+  }
+
+  // Mirror of ModuleBase.getAndValidateAdapter
+  private async _getAdapter(integrationName: string): Promise<Address> {
+    const controller = Controller__factory.connect(await this.issuanceModule.controller(), this._provider);
+    const integrationRegistry = IntegrationRegistry__factory.connect(await controller.resourceId(0), this._provider);
+    const adapter = await integrationRegistry.getIntegrationAdapter(this.issuanceModule.address, integrationName);
+    if (adapter === ADDRESS_ZERO) {
+      throw new Error(`${integrationName} is not a valid IssuanceModule integration`);
+    }
+
+    return adapter;
+  }
+}
+
+/**
+ * Reserves of the Uniswap V2 pairs a quote trades through. Pairs are read on first use and every simulated swap
+ * moves them the way the swap would, so later trades in the same quote are priced after earlier ones.
+ */
+class UniswapV2PoolState {
+  private _provider: Provider;
+  private _factories: { [router: string]: Address } = {};
+  private _reserves: { [pair: string]: { [token: string]: BigNumber } } = {};
+
+  constructor(provider: Provider) {
+    this._provider = provider;
+  }
+
+  public async getAmountsIn(router: Address, path: Address[], amountOut: BigNumber): Promise<BigNumber[]> {
+    return getUniswapV2AmountsIn(amountOut, await this._getHops(router, path));
+  }
+
+  public async swapExactTokensForTokens(router: Address, path: Address[], amountIn: BigNumber): Promise<BigNumber> {
+    const amounts = getUniswapV2AmountsOut(amountIn, await this._getHops(router, path));
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const reserves = await this._getReserves(router, path[i], path[i + 1]);
+      const tokenIn = path[i].toLowerCase();
+      const tokenOut = path[i + 1].toLowerCase();
+      reserves[tokenIn] = reserves[tokenIn].add(amounts[i]);
+      reserves[tokenOut] = reserves[tokenOut].sub(amounts[i + 1]);
+    }
+
+    return amounts[amounts.length - 1];
+  }
+
+  private async _getHops(router: Address, path: Address[]): Promise<AMMHopBalances[]> {
+    const hops: AMMHopBalances[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+      const reserves = await this._getReserves(router, path[i], path[i + 1]);
+      hops.push({ balanceIn: reserves[path[i].toLowerCase()], balanceOut: reserves[path[i + 1].toLowerCase()] });
+    }
+
+    return hops;
+  }
+
+  private async _getReserves(router: Address, tokenA: Address, tokenB: Address): Promise<{ [token: string]: BigNumber }> {
+    if (this._factories[router] === undefined) {
+      this._factories[router] = await UniswapV2Router02__factory.connect(router, this._provider).factory();
+    }
+
+    const factory = UniswapV2Factory__factory.connect(this._factories[router], this._provider);
+    const pairAddress = await factory.getPair(tokenA, tokenB);
+    if (pairAddress === ADDRESS_ZERO) {
+      throw new Error(`No Uniswap V2 pair for ${tokenA} and ${tokenB} on router ${router}`);
+    }
+
+    const key = pairAddress.toLowerCase();
+    if (this._reserves[key] === undefined) {
+      const pair = UniswapV2Pair__factory.connect(pairAddress, this._provider);
+      const [token0, [reserve0, reserve1]] = await Promise.all([pair.token0(), pair.getReserves()]);
+      const isToken0A = isSameAddress(token0, tokenA);
+
+      this._reserves[key] = {
+        [tokenA.toLowerCase()]: isToken0A ? reserve0 : reserve1,
+        [tokenB.toLowerCase()]: isToken0A ? reserve1 : reserve0,
+      };
+    }
+
+    return this._reserves[key];
+  }
+}
+
+function isSameAddress(addressA: Address, addressB: Address): boolean {
+  return addressA.toLowerCase() === addressB.toLowerCase();
+}
@@ -43,11 +43,9 @@ export const preciseDivCeilInt = (a: BigNumber, b: BigNumber): BigNumber => {
     return ZERO;
   }
 
-  if (a.gt(0) && b.gt(0) || a.lt(0) && b.lt(0)) {
-    return a.mul(PRECISE_UNIT).sub(1).div(b).add(1);
-  } else {
-    return a.mul(PRECISE_UNIT).add(1).div(b).sub(1);
-  }
+  // Round the absolute values up, then apply the sign, so negative results round away from zero as well
+  const absoluteCeil = a.abs().mul(PRECISE_UNIT).sub(1).div(b.abs()).add(1);
+  return a.lt(0) !== b.lt(0) ? absoluteCeil.mul(-1) : absoluteCeil;
 };
 
 export const divDown = (a: BigNumber, b: BigNumber): BigNumber => {
@@ -60,6 +58,18 @@ export const divDown = (a: BigNumber, b: BigNumber): BigNumber => {
   return result;
 };
 
+export const divCeil = (a: BigNumber, b: BigNumber): BigNumber => {
+  return divDown(a.mul(-1), b).mul(-1);
+};
+
+export const conservativePreciseMul = (a: BigNumber, b: BigNumber): BigNumber => {
+  return divDown(a.mul(b), PRECISE_UNIT);
+};
+
+export const conservativePreciseDiv = (a: BigNumber, b: BigNumber): BigNumber => {
+  return divDown(a.mul(PRECISE_UNIT), b);
+};
+
 export const min = (
   valueOne: BigNumber,
   valueTwo: BigNumber
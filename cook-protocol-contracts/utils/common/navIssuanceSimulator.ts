@@ -0,0 +1,478 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "../types";
+import { PRECISE_UNIT, ZERO } from "../constants";
+import { CKToken, Controller, NavIssuanceModule, PriceOracle } from "../contracts";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import {
+  conservativePreciseDiv,
+  conservativePreciseMul,
+  divCeil,
+  preciseDiv,
+  preciseMul,
+  preciseMulCeil
+} from "./mathUtils";
+
+// Controller fee indices used by the NAVIssuanceModule
+const PROTOCOL_ISSUE_MANAGER_REVENUE_SHARE_FEE_INDEX = 0;
+const PROTOCOL_REDEEM_MANAGER_REVENUE_SHARE_FEE_INDEX = 1;
+const PROTOCOL_ISSUE_DIRECT_FEE_INDEX = 2;
+const PROTOCOL_REDEEM_DIRECT_FEE_INDEX = 3;
+
+// Indices into NAVIssuanceSettings.managerFees
+const MANAGER_ISSUE_FEE_INDEX = 0;
+const MANAGER_REDEEM_FEE_INDEX = 1;
+
+export interface NavAssetInfo {
+  decimals: number;
+  price: BigNumber;                   // Price in the master quote asset, as returned by PriceOracle.getPrice
+}
+
+export interface NavPositionSnapshot {
+  component: Address;
+  virtualUnit: BigNumber;             // Default position virtual unit as stored on the CKToken
+  externalVirtualUnits: BigNumber[];  // Virtual units of each external position on the component
+}
+
+export interface NavProtocolFees {
+  issueManagerRevenueShare: BigNumber;
+  redeemManagerRevenueShare: BigNumber;
+  issueDirect: BigNumber;
+  redeemDirect: BigNumber;
+}
+
+export interface NavIssuanceSimulatorSettings {
+  reserveAssets: Address[];
+  managerFees: [BigNumber, BigNumber];
+  premiumPercentage: BigNumber;
+  minCKTokenSupply: BigNumber;
+}
+
+export interface NavIssuanceSnapshot {
+  masterQuoteAsset: Address;
+  assets: { [asset: string]: NavAssetInfo };
+  positions: NavPositionSnapshot[];   // In CKToken.getComponents() order
+  positionMultiplier: BigNumber;
+  totalSupply: BigNumber;
+  settings: NavIssuanceSimulatorSettings;
+  protocolFees: NavProtocolFees;
+}
+
+export interface NavIssuanceFees {
+  protocolFees: BigNumber;
+  managerFee: BigNumber;
+  netFlowQuantity: BigNumber;
+}
+
+export interface NavIssuanceResult extends NavIssuanceFees {
+  reserveAsset: Address;
+  ckTokenQuantity: BigNumber;         // CKTokens minted on issue or burned on redeem
+  preFeeReserveQuantity: BigNumber;
+  previousCKTokenSupply: BigNumber;
+  newCKTokenSupply: BigNumber;
+  newPositionMultiplier: BigNumber;
+  newReservePositionUnit: BigNumber;  // Passed to editDefaultPosition, can read back a wei lower once stored as a virtual unit
+  newPositionUnits: { [component: string]: BigNumber };   // Post-trade default position real units
+  postTradeSnapshot: NavIssuanceSnapshot;
+}
+
+/**
+ * Pure mirror of NAVIssuanceModule issuance and redemption. Given a snapshot of the CKToken's positions, supply,
+ * prices and NAV issuance settings it reproduces the module's fee split, mint / redeem quantities, position multiplier
+ * and reserve unit updates to the wei, throwing the same revert reasons the module would. Results carry the post-trade
+ * snapshot so consecutive trades can be simulated without touching the chain.
+ */
+export class NavIssuanceSimulator {
+  private _snapshot: NavIssuanceSnapshot;
+
+  constructor(snapshot: NavIssuanceSnapshot) {
+    this._snapshot = snapshot;
+  }
+
+  get snapshot(): NavIssuanceSnapshot {
+    return this._snapshot;
+  }
+
+  public getDefaultPositionRealUnit(component: Address): BigNumber {
+    const position = this._findPosition(component);
+    return position ? conservativePreciseMul(position.virtualUnit, this._snapshot.positionMultiplier) : ZERO;
+  }
+
+  public getTotalComponentRealUnits(component: Address): BigNumber {
+    const position = this._findPosition(component);
+    if (!position) {
+      return ZERO;
+    }
+
+    return position.externalVirtualUnits.reduce(
+      (total, virtualUnit) => total.add(conservativePreciseMul(virtualUnit, this._snapshot.positionMultiplier)),
+      conservativePreciseMul(position.virtualUnit, this._snapshot.positionMultiplier)
+    );
+  }
+
+  // Mirrors CKValuer.calculateCKTokenValuation, all intermediate math is signed and truncates towards zero
+  public getCKTokenValuation(quoteAsset: Address): BigNumber {
+    let valuation = ZERO;
+
+    for (let i = 0; i < this._snapshot.positions.length; i++) {
+      const component = this._snapshot.positions[i].component;
+      const { decimals, price } = this._getAssetInfo(component);
+
+      const normalizedUnits = preciseDiv(this.getTotalComponentRealUnits(component), BigNumber.from(10).pow(decimals));
+      valuation = preciseMul(normalizedUnits, price).add(valuation);
+    }
+
+    if (!this._isSameAddress(quoteAsset, this._snapshot.masterQuoteAsset)) {
+      valuation = preciseDiv(valuation, this._getAssetInfo(quoteAsset).price);
+    }
+
+    if (valuation.lt(0)) {
+      throw new Error("SafeCast: value must be positive");
+    }
+
+    return valuation;
+  }
+
+  public getFees(reserveAssetQuantity: BigNumber, isIssue: boolean): NavIssuanceFees {
+    const { settings, protocolFees } = this._snapshot;
+
+    const protocolManagerShareFeePercent = isIssue ? protocolFees.issueManagerRevenueShare : protocolFees.redeemManagerRevenueShare;
+    const protocolDirectFeePercent = isIssue ? protocolFees.issueDirect : protocolFees.redeemDirect;
+    const managerFeePercent = settings.managerFees[isIssue ? MANAGER_ISSUE_FEE_INDEX : MANAGER_REDEEM_FEE_INDEX];
+
+    const protocolRevenueSharePercentage = preciseMul(protocolManagerShareFeePercent, managerFeePercent);
+    const managerRevenueSharePercentage = managerFeePercent.sub(protocolRevenueSharePercentage);
+    const totalProtocolFeePercentage = protocolRevenueSharePercentage.add(protocolDirectFeePercent);
+
+    const protocolFeeQuantity = preciseMul(totalProtocolFeePercentage, reserveAssetQuantity);
+    const managerFee = preciseMul(managerRevenueSharePercentage, reserveAssetQuantity);
+
+    return {
+      protocolFees: protocolFeeQuantity,
+      managerFee,
+      netFlowQuantity: reserveAssetQuantity.sub(protocolFeeQuantity).sub(managerFee),
+    };
+  }
+
+  public getExpectedCKTokenIssueQuantity(reserveAsset: Address, reserveAssetQuantity: BigNumber): BigNumber {
+    const { netFlowQuantity } = this.getFees(reserveAssetQuantity, true);
+    return this._getCKTokenMintQuantity(reserveAsset, netFlowQuantity);
+  }
+
+  public getExpectedReserveRedeemQuantity(reserveAsset: Address, ckTokenQuantity: BigNumber): BigNumber {
+    const preFeeReserveQuantity = this._getRedeemReserveQuantity(reserveAsset, ckTokenQuantity);
+    return this.getFees(preFeeReserveQuantity, false).netFlowQuantity;
+  }
+
+  public simulateIssue(
+    reserveAsset: Address,
+    reserveAssetQuantity: BigNumber,
+    minCKTokenReceiveQuantity: BigNumber = ZERO
+  ): NavIssuanceResult {
+    this._validateCommon(reserveAsset, reserveAssetQuantity);
+
+    const previousCKTokenSupply = this._snapshot.totalSupply;
+    const fees = this.getFees(reserveAssetQuantity, true);
+    const ckTokenQuantity = this._getCKTokenMintQuantity(reserveAsset, fees.netFlowQuantity);
+
+    const newCKTokenSupply = previousCKTokenSupply.add(ckTokenQuantity);
+    const newPositionMultiplier = this._snapshot.positionMultiplier.mul(previousCKTokenSupply).div(newCKTokenSupply);
+
+    const totalReserve = preciseMul(this.getDefaultPositionRealUnit(reserveAsset), previousCKTokenSupply).add(fees.netFlowQuantity);
+    const newReservePositionUnit = preciseDiv(totalReserve, newCKTokenSupply);
+
+    if (previousCKTokenSupply.lt(this._snapshot.settings.minCKTokenSupply)) {
+      throw new Error("Supply must be greater than minimum to enable issuance");
+    }
+
+    if (ckTokenQuantity.lt(minCKTokenReceiveQuantity)) {
+      throw new Error("Must be greater than min CKToken");
+    }
+
+    return this._applyStateUpdates(reserveAsset, {
+      ...fees,
+      reserveAsset,
+      ckTokenQuantity,
+      preFeeReserveQuantity: reserveAssetQuantity,
+      previousCKTokenSupply,
+      newCKTokenSupply,
+      newPositionMultiplier,
+      newReservePositionUnit,
+    });
+  }
+
+  public simulateRedeem(
+    reserveAsset: Address,
+    ckTokenQuantity: BigNumber,
+    minReserveReceiveQuantity: BigNumber = ZERO
+  ): NavIssuanceResult {
+    this._validateCommon(reserveAsset, ckTokenQuantity);
+
+    const preFeeReserveQuantity = this._getRedeemReserveQuantity(reserveAsset, ckTokenQuantity);
+    const fees = this.getFees(preFeeReserveQuantity, false);
+
+    const previousCKTokenSupply = this._snapshot.totalSupply;
+    if (ckTokenQuantity.gt(previousCKTokenSupply)) {
+      throw new Error("SafeMath: subtraction overflow");
+    }
+
+    const newCKTokenSupply = previousCKTokenSupply.sub(ckTokenQuantity);
+    const newPositionMultiplier = this._snapshot.positionMultiplier.mul(previousCKTokenSupply).div(newCKTokenSupply);
+
+    const totalExistingUnits = preciseMul(this.getDefaultPositionRealUnit(reserveAsset), previousCKTokenSupply);
+    const outflow = fees.netFlowQuantity.add(fees.protocolFees).add(fees.managerFee);
+    if (totalExistingUnits.lt(outflow)) {
+      throw new Error("Must be greater than total available collateral");
+    }
+    const newReservePositionUnit = preciseDiv(totalExistingUnits.sub(outflow), newCKTokenSupply);
+
+    if (newCKTokenSupply.lt(this._snapshot.settings.minCKTokenSupply)) {
+      throw new Error("Supply must be greater than minimum to enable redemption");
+    }
+
+    if (fees.netFlowQuantity.lt(minReserveReceiveQuantity)) {
+      throw new Error("Must be greater than min receive reserve quantity");
+    }
+
+    return this._applyStateUpdates(reserveAsset, {
+      ...fees,
+      reserveAsset,
+      ckTokenQuantity,
+      preFeeReserveQuantity,
+      previousCKTokenSupply,
+      newCKTokenSupply,
+      newPositionMultiplier,
+      newReservePositionUnit,
+    });
+  }
+
+  /* ============ Private Functions ============ */
+
+  private _validateCommon(reserveAsset: Address, quantity: BigNumber): void {
+    if (quantity.lte(0)) {
+      throw new Error("Quantity must be > 0");
+    }
+
+    if (!this._snapshot.settings.reserveAssets.some(asset => this._isSameAddress(asset, reserveAsset))) {
+      throw new Error("Must be valid reserve asset");
+    }
+  }
+
+  private _getCKTokenMintQuantity(reserveAsset: Address, netReserveFlows: BigNumber): BigNumber {
+    const ckTotalSupply = this._snapshot.totalSupply;
+    const premiumValue = preciseMul(netReserveFlows, this._snapshot.settings.premiumPercentage);
+
+    const ckTokenValuation = this.getCKTokenValuation(reserveAsset);
+
+    const reserveAssetBaseUnits = BigNumber.from(10).pow(this._getAssetInfo(reserveAsset).decimals);
+    const normalizedTotalReserveQuantityNetFees = preciseDiv(netReserveFlows, reserveAssetBaseUnits);
+    const normalizedTotalReserveQuantityNetFeesAndPremium = preciseDiv(netReserveFlows.sub(premiumValue), reserveAssetBaseUnits);
+
+    const denominator = preciseMul(ckTotalSupply, ckTokenValuation)
+      .add(normalizedTotalReserveQuantityNetFees)
+      .sub(normalizedTotalReserveQuantityNetFeesAndPremium);
+
+    return preciseDiv(preciseMul(normalizedTotalReserveQuantityNetFeesAndPremium, ckTotalSupply), denominator);
+  }
+
+  private _getRedeemReserveQuantity(reserveAsset: Address, ckTokenQuantity: BigNumber): BigNumber {
+    const ckTokenValuation = this.getCKTokenValuation(reserveAsset);
+
+    const totalRedeemValueInPreciseUnits = preciseMul(ckTokenQuantity, ckTokenValuation);
+    const reserveAssetBaseUnits = BigNumber.from(10).pow(this._getAssetInfo(reserveAsset).decimals);
+    const prePremiumReserveQuantity = preciseMul(totalRedeemValueInPreciseUnits, reserveAssetBaseUnits);
+
+    const premiumQuantity = preciseMulCeil(prePremiumReserveQuantity, this._snapshot.settings.premiumPercentage);
+
+    return prePremiumReserveQuantity.sub(premiumQuantity);
+  }
+
+  // Mirrors CKToken.editPositionMultiplier followed by Position.editDefaultPosition on the reserve asset
+  private _applyStateUpdates(
+    reserveAsset: Address,
+    result: Omit<NavIssuanceResult, "newPositionUnits" | "postTradeSnapshot">
+  ): NavIssuanceResult {
+    const { newPositionMultiplier, newReservePositionUnit } = result;
+
+    if (conservativePreciseMul(this._getPositionsAbsMinimumVirtualUnit(), newPositionMultiplier).lte(0)) {
+      throw new Error("New multiplier too small");
+    }
+
+    const positions = this._snapshot.positions.map(position => ({
+      component: position.component,
+      virtualUnit: position.virtualUnit,
+      externalVirtualUnits: position.externalVirtualUnits.slice(),
+    }));
+
+    let reserveIndex = -1;
+    for (let i = 0; i < positions.length; i++) {
+      if (this._isSameAddress(positions[i].component, reserveAsset)) {
+        reserveIndex = i;
+      }
+    }
+
+    const hasExternalPosition = reserveIndex > -1 && positions[reserveIndex].externalVirtualUnits.length > 0;
+    const hasDefaultPosition = reserveIndex > -1 &&
+      conservativePreciseMul(positions[reserveIndex].virtualUnit, newPositionMultiplier).gt(0);
+
+    if (!hasDefaultPosition && newReservePositionUnit.gt(0) && !hasExternalPosition) {
+      reserveIndex = positions.push({ component: reserveAsset, virtualUnit: ZERO, externalVirtualUnits: [] }) - 1;
+    } else if (hasDefaultPosition && newReservePositionUnit.eq(0) && !hasExternalPosition) {
+      // CKToken.removeComponent swaps the last component into the removed slot
+      positions[reserveIndex] = positions[positions.length - 1];
+      positions.pop();
+      reserveIndex = -1;
+    }
+
+    if (reserveIndex > -1) {
+      positions[reserveIndex].virtualUnit = this._convertRealToVirtualUnit(newReservePositionUnit, newPositionMultiplier);
+    }
+
+    const postTradeSnapshot: NavIssuanceSnapshot = {
+      ...this._snapshot,
+      positions,
+      positionMultiplier: newPositionMultiplier,
+      totalSupply: result.newCKTokenSupply,
+    };
+
+    const newPositionUnits: { [component: string]: BigNumber } = {};
+    positions.forEach(position => {
+      newPositionUnits[position.component] = conservativePreciseMul(position.virtualUnit, newPositionMultiplier);
+    });
+
+    return { ...result, newPositionUnits, postTradeSnapshot };
+  }
+
+  private _convertRealToVirtualUnit(realUnit: BigNumber, positionMultiplier: BigNumber): BigNumber {
+    const virtualUnit = conservativePreciseDiv(realUnit, positionMultiplier);
+
+    if (realUnit.gt(0) && virtualUnit.eq(0)) {
+      throw new Error("Real to Virtual unit conversion invalid");
+    }
+
+    if (realUnit.gt(0) && conservativePreciseMul(virtualUnit, positionMultiplier).eq(0)) {
+      throw new Error("Virtual to Real unit conversion invalid");
+    }
+
+    return virtualUnit;
+  }
+
+  private _getPositionsAbsMinimumVirtualUnit(): BigNumber {
+    let minimumUnit: BigNumber | undefined;
+
+    this._snapshot.positions.forEach(position => {
+      const units = [position.virtualUnit].concat(position.externalVirtualUnits.map(unit => unit.abs()));
+      units.forEach(unit => {
+        if (unit.gt(0) && (!minimumUnit || unit.lt(minimumUnit))) {
+          minimumUnit = unit;
+        }
+      });
+    });
+
+    if (!minimumUnit) {
+      throw new Error("SafeCast: value doesn't fit in an int256");
+    }
+
+    return minimumUnit;
+  }
+
+  private _findPosition(component: Address): NavPositionSnapshot | undefined {
+    const { positions } = this._snapshot;
+    for (let i = 0; i < positions.length; i++) {
+      if (this._isSameAddress(positions[i].component, component)) {
+        return positions[i];
+      }
+    }
+    return undefined;
+  }
+
+  private _getAssetInfo(asset: Address): NavAssetInfo {
+    const info = this._snapshot.assets[asset.toLowerCase()];
+    if (!info) {
+      throw new Error(`No price or decimals in snapshot for asset ${asset}`);
+    }
+    return info;
+  }
+
+  private _isSameAddress(one: Address, two: Address): boolean {
+    return one.toLowerCase() === two.toLowerCase();
+  }
+}
+
+/**
+ * Reads everything the simulator needs from the chain. CKToken does not expose virtual units, so each one is recovered
+ * as the smallest virtual unit that converts back to the on-chain real unit under the current position multiplier. This
+ * reproduces every current real unit (and therefore valuations, fees and reserve updates) exactly; non-reserve units of
+ * a post-trade snapshot can differ from the chain by a wei when several virtual units share one real unit.
+ */
+export const getNavIssuanceSnapshot = async (
+  ckToken: CKToken,
+  navIssuanceModule: NavIssuanceModule,
+  controller: Controller,
+  priceOracle: PriceOracle
+): Promise<NavIssuanceSnapshot> => {
+  const masterQuoteAsset = await priceOracle.masterQuoteAsset();
+  const positionMultiplier = await ckToken.positionMultiplier();
+  const components = await ckToken.getComponents();
+  const reserveAssets = await navIssuanceModule.getReserveAssets(ckToken.address);
+
+  const toVirtualUnit = (realUnit: BigNumber): BigNumber => divCeil(realUnit.mul(PRECISE_UNIT), positionMultiplier);
+
+  const positions: NavPositionSnapshot[] = [];
+  for (let i = 0; i < components.length; i++) {
+    const externalModules = await ckToken.getExternalPositionModules(components[i]);
+    const externalVirtualUnits: BigNumber[] = [];
+    for (let j = 0; j < externalModules.length; j++) {
+      externalVirtualUnits.push(toVirtualUnit(await ckToken.getExternalPositionRealUnit(components[i], externalModules[j])));
+    }
+
+    positions.push({
+      component: components[i],
+      virtualUnit: toVirtualUnit(await ckToken.getDefaultPositionRealUnit(components[i])),
+      externalVirtualUnits,
+    });
+  }
+
+  // getPrice only answers system contracts, so prices are read as the module that reads them on issue and redeem
+  const moduleOracle = priceOracle.connect(ckToken.provider);
+  const priceOverrides = { from: navIssuanceModule.address };
+
+  const assets: { [asset: string]: NavAssetInfo } = {};
+  const assetAddresses = components.concat(reserveAssets, [masterQuoteAsset]);
+  for (let i = 0; i < assetAddresses.length; i++) {
+    const key = assetAddresses[i].toLowerCase();
+    if (!assets[key]) {
+      const token = ERC20__factory.connect(assetAddresses[i], ckToken.provider);
+      assets[key] = {
+        decimals: await token.decimals(),
+        price: await moduleOracle.getPrice(assetAddresses[i], masterQuoteAsset, priceOverrides),
+      };
+    }
+  }
+
+  const settings = await navIssuanceModule.navIssuanceSettings(ckToken.address);
+  const getModuleFee = (feeIndex: number) => controller.getModuleFee(navIssuanceModule.address, feeIndex);
+
+  return {
+    masterQuoteAsset,
+    assets,
+    positions,
+    positionMultiplier,
+    totalSupply: await ckToken.totalSupply(),
+    settings: {
+      reserveAssets,
+      managerFees: [
+        await navIssuanceModule.getManagerFee(ckToken.address, MANAGER_ISSUE_FEE_INDEX),
+        await navIssuanceModule.getManagerFee(ckToken.address, MANAGER_REDEEM_FEE_INDEX),
+      ],
+      premiumPercentage: settings.premiumPercentage,
+      minCKTokenSupply: settings.minCKTokenSupply,
+    },
+    protocolFees: {
+      issueManagerRevenueShare: await getModuleFee(PROTOCOL_ISSUE_MANAGER_REVENUE_SHARE_FEE_INDEX),
+      redeemManagerRevenueShare: await getModuleFee(PROTOCOL_REDEEM_MANAGER_REVENUE_SHARE_FEE_INDEX),
+      issueDirect: await getModuleFee(PROTOCOL_ISSUE_DIRECT_FEE_INDEX),
+      redeemDirect: await getModuleFee(PROTOCOL_REDEEM_DIRECT_FEE_INDEX),
+    },
+  };
+};
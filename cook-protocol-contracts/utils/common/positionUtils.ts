@@ -0,0 +1,36 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import {
+  conservativePreciseDiv,
+  conservativePreciseMul,
+  preciseDiv,
+  preciseMul
+} from "./mathUtils";
+
+// TypeScript mirrors of the Position library and the CKToken real / virtual unit conversions
+
+export const getDefaultTotalNotional = (ckTokenSupply: BigNumber, positionUnit: BigNumber): BigNumber => {
+  return preciseMul(ckTokenSupply, positionUnit);
+};
+
+export const getDefaultPositionUnit = (ckTokenSupply: BigNumber, totalNotional: BigNumber): BigNumber => {
+  return preciseDiv(totalNotional, ckTokenSupply);
+};
+
+export const calculateDefaultEditPositionUnit = (
+  ckTokenSupply: BigNumber,
+  preTotalNotional: BigNumber,
+  postTotalNotional: BigNumber,
+  prePositionUnit: BigNumber
+): BigNumber => {
+  const airdroppedAmount = preTotalNotional.sub(preciseMul(prePositionUnit, ckTokenSupply));
+  return preciseDiv(postTotalNotional.sub(airdroppedAmount), ckTokenSupply);
+};
+
+export const convertRealToVirtualUnit = (realUnit: BigNumber, positionMultiplier: BigNumber): BigNumber => {
+  return conservativePreciseDiv(realUnit, positionMultiplier);
+};
+
+export const convertVirtualToRealUnit = (virtualUnit: BigNumber, positionMultiplier: BigNumber): BigNumber => {
+  return conservativePreciseMul(virtualUnit, positionMultiplier);
+};
@@ -0,0 +1,11 @@
+/**
+ * Returns the error message a call or transaction fails with, or undefined if it goes through
+ */
+export const getRevertReason = async (call: Promise<unknown>): Promise<string | undefined> => {
+  try {
+    await call;
+    return undefined;
+  } catch (error) {
+    return error.message;
+  }
+};
@@ -0,0 +1,170 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { preciseMul } from "./mathUtils";
+import { getStreamingFeeInflationAmount } from "./feeModuleUtils";
+import { ONE_YEAR_IN_SECONDS, PRECISE_UNIT, ZERO } from "../constants";
+import { Address, StreamingFeeState } from "../types";
+import { CKToken, Controller, StreamingFeeModule } from "../contracts";
+
+// Controller fee index used by the StreamingFeeModule
+const PROTOCOL_STREAMING_FEE_INDEX = 0;
+
+export interface StreamingFeeProjectionSettings {
+  feeState: StreamingFeeState;
+  protocolFeePercentage: BigNumber;   // Controller module fee, share of every accrual minted to the protocol
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+}
+
+export interface FeeAccrual {
+  timestamp: number;
+  inflationPercentage: BigNumber;     // Streaming fee for the elapsed time, StreamingFeeModule.getFee
+  managerFee: BigNumber;              // CKTokens minted to the fee recipient
+  protocolFee: BigNumber;             // CKTokens minted to the protocol fee recipient
+  totalSupply: BigNumber;             // Supply after the accrual
+  positionMultiplier: BigNumber;      // Multiplier after the accrual
+}
+
+export interface FeeProjection {
+  accruals: FeeAccrual[];
+  totalManagerFee: BigNumber;
+  totalProtocolFee: BigNumber;
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+}
+
+export interface FeePeriodSummary {
+  startTimestamp: number;
+  endTimestamp: number;               // Exclusive
+  accrualCount: number;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+/**
+ * Replays StreamingFeeModule.accrueFee at each timestamp, assuming no issuance or redemption in between. Rounding
+ * follows the module so projected supply and multiplier match the chain exactly for the same accrual timestamps.
+ */
+export const projectStreamingFees = (
+  settings: StreamingFeeProjectionSettings,
+  accrualTimestamps: number[]
+): FeeProjection => {
+  const { feeState, protocolFeePercentage } = settings;
+
+  let lastAccrual = feeState.lastStreamingFeeTimestamp.toNumber();
+  let totalSupply = settings.totalSupply;
+  let positionMultiplier = settings.positionMultiplier;
+  let totalManagerFee = ZERO;
+  let totalProtocolFee = ZERO;
+
+  const accruals: FeeAccrual[] = accrualTimestamps.map(timestamp => {
+    if (timestamp < lastAccrual) {
+      throw new Error(`Accrual at ${timestamp} precedes the previous accrual at ${lastAccrual}`);
+    }
+
+    const inflationPercentage = BigNumber.from(timestamp - lastAccrual)
+      .mul(feeState.streamingFeePercentage)
+      .div(ONE_YEAR_IN_SECONDS);
+
+    let managerFee = ZERO;
+    let protocolFee = ZERO;
+    if (feeState.streamingFeePercentage.gt(0)) {
+      const feeQuantity = getStreamingFeeInflationAmount(inflationPercentage, totalSupply);
+      protocolFee = preciseMul(feeQuantity, protocolFeePercentage);
+      managerFee = feeQuantity.sub(protocolFee);
+
+      totalSupply = totalSupply.add(feeQuantity);
+      positionMultiplier = preciseMul(positionMultiplier, PRECISE_UNIT.sub(inflationPercentage));
+    }
+
+    totalManagerFee = totalManagerFee.add(managerFee);
+    totalProtocolFee = totalProtocolFee.add(protocolFee);
+    lastAccrual = timestamp;
+
+    return { timestamp, inflationPercentage, managerFee, protocolFee, totalSupply, positionMultiplier };
+  });
+
+  return { accruals, totalManagerFee, totalProtocolFee, totalSupply, positionMultiplier };
+};
+
+/**
+ * Returns accrual timestamps every `cadence` seconds after the last accrual up to `horizon` seconds after it, plus a
+ * final accrual at the horizon when it does not fall on the cadence.
+ */
+export const getAccrualSchedule = (lastAccrualTimestamp: number, horizon: number, cadence: number): number[] => {
+  if (cadence <= 0) {
+    throw new Error("Accrual cadence must be greater than 0");
+  }
+
+  const timestamps: number[] = [];
+  for (let elapsed = cadence; elapsed < horizon; elapsed += cadence) {
+    timestamps.push(lastAccrualTimestamp + elapsed);
+  }
+  timestamps.push(lastAccrualTimestamp + horizon);
+
+  return timestamps;
+};
+
+/**
+ * Buckets realized or projected accruals into consecutive periods of `periodLength` seconds starting at `startTimestamp`.
+ * Empty periods between accruals are included so reports line up with calendar periods.
+ */
+export const groupFeesByPeriod = (
+  accruals: { timestamp: number; managerFee: BigNumber; protocolFee: BigNumber }[],
+  startTimestamp: number,
+  periodLength: number
+): FeePeriodSummary[] => {
+  if (accruals.length === 0) {
+    return [];
+  }
+
+  const lastTimestamp = accruals[accruals.length - 1].timestamp;
+  const periodCount = Math.floor((lastTimestamp - startTimestamp) / periodLength) + 1;
+
+  const periods: FeePeriodSummary[] = [];
+  for (let i = 0; i < periodCount; i++) {
+    periods.push({
+      startTimestamp: startTimestamp + i * periodLength,
+      endTimestamp: startTimestamp + (i + 1) * periodLength,
+      accrualCount: 0,
+      managerFee: ZERO,
+      protocolFee: ZERO,
+    });
+  }
+
+  accruals.forEach(accrual => {
+    if (accrual.timestamp < startTimestamp) {
+      return;
+    }
+
+    const period = periods[Math.floor((accrual.timestamp - startTimestamp) / periodLength)];
+    period.accrualCount += 1;
+    period.managerFee = period.managerFee.add(accrual.managerFee);
+    period.protocolFee = period.protocolFee.add(accrual.protocolFee);
+  });
+
+  return periods;
+};
+
+/**
+ * Reads the projection settings of a CKToken from the StreamingFeeModule, the Controller and the CKToken itself.
+ */
+export const getStreamingFeeProjectionSettings = async (
+  streamingFeeModule: StreamingFeeModule,
+  controller: Controller,
+  ckToken: CKToken
+): Promise<StreamingFeeProjectionSettings> => {
+  const feeState = await streamingFeeModule.feeStates(ckToken.address);
+
+  return {
+    feeState: {
+      feeRecipient: feeState.feeRecipient as Address,
+      streamingFeePercentage: feeState.streamingFeePercentage,
+      maxStreamingFeePercentage: feeState.maxStreamingFeePercentage,
+      lastStreamingFeeTimestamp: feeState.lastStreamingFeeTimestamp,
+    },
+    protocolFeePercentage: await controller.getModuleFee(streamingFeeModule.address, PROTOCOL_STREAMING_FEE_INDEX),
+    totalSupply: await ckToken.totalSupply(),
+    positionMultiplier: await ckToken.positionMultiplier(),
+  };
+};
@@ -2,16 +2,30 @@ export { AaveGovernanceAdapter } from "../../typechain/AaveGovernanceAdapter";
 export { AaveGovernanceV2Adapter } from "../../typechain/AaveGovernanceV2Adapter";
 export { AaveLendingPoolCoreMock } from "../../typechain/AaveLendingPoolCoreMock";
 export { AaveLendingPoolMock } from "../../typechain/AaveLendingPoolMock";
+export { AaveLeverageModule } from "../../typechain/AaveLeverageModule";
+export { AaveV2 } from "../../typechain/AaveV2";
+export { AaveV2ATokenMock } from "../../typechain/AaveV2ATokenMock";
+export { AaveV2LendingPoolMock } from "../../typechain/AaveV2LendingPoolMock";
+export { AaveV2Mock } from "../../typechain/AaveV2Mock";
+export { AaveV2PriceOracleMock } from "../../typechain/AaveV2PriceOracleMock";
+export { AaveV2ProtocolDataProviderMock } from "../../typechain/AaveV2ProtocolDataProviderMock";
+export { AaveV2StableDebtTokenMock } from "../../typechain/AaveV2StableDebtTokenMock";
+export { AaveV2VariableDebtTokenMock } from "../../typechain/AaveV2VariableDebtTokenMock";
+export { AaveV2WrapV2Adapter } from "../../typechain/AaveV2WrapV2Adapter";
 export { AaveMigrationWrapAdapter } from "../../typechain/AaveMigrationWrapAdapter";
 export { AaveWrapAdapter } from "../../typechain/AaveWrapAdapter";
 export { AddressArrayUtilsMock } from "../../typechain/AddressArrayUtilsMock";
 export { AirdropModule } from "../../typechain/AirdropModule";
 export { AmmAdapterMock } from "../../typechain/AmmAdapterMock";
 export { AmmModule } from "../../typechain/AmmModule";
+export { AMMSplitter } from "../../typechain/AMMSplitter";
 export { AssetLimitHook } from "../../typechain/AssetLimitHook";
 export { BalancerV1IndexExchangeAdapter } from "../../typechain/BalancerV1IndexExchangeAdapter";
 export { BasicIssuanceModule } from "../../typechain/BasicIssuanceModule";
 export { BatchIssuanceModule } from "../../typechain/BatchIssuanceModule";
+export { BatchIssuanceModuleV2 } from "../../typechain/BatchIssuanceModuleV2";
+export { ChainlinkAggregatorMock } from "../../typechain/ChainlinkAggregatorMock";
+export { ChainlinkOracleAdapter } from "../../typechain/ChainlinkOracleAdapter";
 export { ClaimAdapterMock } from "../../typechain/ClaimAdapterMock";
 export { ClaimModule } from "../../typechain/ClaimModule";
 export { Compound } from "../../typechain/Compound";
@@ -20,6 +34,7 @@ export { CompoundLikeGovernanceAdapter } from "../../typechain/CompoundLikeGover
 export { CompoundLeverageModule } from "../../typechain/CompoundLeverageModule";
 export { CompoundMock } from "../../typechain/CompoundMock";
 export { CompoundWrapAdapter } from "../../typechain/CompoundWrapAdapter";
+export { CompoundWrapV2Adapter } from "../../typechain/CompoundWrapV2Adapter";
 export { ComptrollerMock } from "../../typechain/ComptrollerMock";
 export { ContractCallerMock } from "../../typechain/ContractCallerMock";
 export { Controller } from "../../typechain/Controller";
@@ -28,6 +43,7 @@ export { CustomOracleNavIssuanceModule } from "../../typechain/CustomOracleNavIs
 export { CustomCKValuerMock } from "../../typechain/CustomCKValuerMock";
 export { DebtIssuanceMock } from "../../typechain/DebtIssuanceMock";
 export { DebtIssuanceModule } from "../../typechain/DebtIssuanceModule";
+export { DebtIssuanceModuleV2 } from "../../typechain/DebtIssuanceModuleV2";
 export { DebtModuleMock } from "../../typechain/DebtModuleMock";
 export { DelegateRegistry } from "../../typechain/DelegateRegistry";
 export { ExplicitERC20Mock } from "../../typechain/ExplicitERC20Mock";
@@ -40,8 +56,15 @@ export { IntegrationRegistry } from "../../typechain/IntegrationRegistry";
 export { InvokeMock } from "../../typechain/InvokeMock";
 export { ICKValuer } from "../../typechain/ICKValuer";
 export { IssuanceModule } from "../../typechain/IssuanceModule";
+export { IssuanceModuleV2 } from "../../typechain/IssuanceModuleV2";
+export { KyberDMMFactoryMock } from "../../typechain/KyberDMMFactoryMock";
+export { KyberDMMPoolMock } from "../../typechain/KyberDMMPoolMock";
+export { KyberDMMRouterMock } from "../../typechain/KyberDMMRouterMock";
 export { KyberExchangeAdapter } from "../../typechain/KyberExchangeAdapter";
+export { KyberMigrationWrapAdapter } from "../../typechain/KyberMigrationWrapAdapter";
 export { KyberNetworkProxyMock } from "../../typechain/KyberNetworkProxyMock";
+export { KyberV3IndexExchangeAdapter } from "../../typechain/KyberV3IndexExchangeAdapter";
+export { LendingPoolAddressesProviderMock } from "../../typechain/LendingPoolAddressesProviderMock";
 export { LendToAaveMigrator } from "../../typechain/LendToAaveMigrator";
 export { ManagerIssuanceHookMock } from "../../typechain/ManagerIssuanceHookMock";
 export { ModuleBaseMock } from "../../typechain/ModuleBaseMock";
@@ -71,6 +94,7 @@ export { StakingModule } from "../../typechain/StakingModule";
 export { StakingRewards } from "../../typechain/StakingRewards";
 export { StandardTokenMock } from "../../typechain/StandardTokenMock";
 export { StandardTokenWithFeeMock } from "../../typechain/StandardTokenWithFeeMock";
+export { StandardTokenWithRoundingErrorMock } from "../../typechain/StandardTokenWithRoundingErrorMock";
 export { StreamingFeeModule } from "../../typechain/StreamingFeeModule";
 export { SynthetixExchangeAdapter } from "../../typechain/SynthetixExchangeAdapter";
 export { SynthetixExchangerMock } from "../../typechain/SynthetixExchangerMock";
@@ -87,11 +111,16 @@ export { UniswapV2TransferFeeExchangeAdapter } from "../../typechain/UniswapV2Tr
 export { UniswapV2Factory } from "../../typechain/UniswapV2Factory";
 export { UniswapV2Pair } from "../../typechain/UniswapV2Pair";
 export { UniswapV2Router02 } from "../../typechain/UniswapV2Router02";
+export { UniswapV3ExchangeAdapter } from "../../typechain/UniswapV3ExchangeAdapter";
+export { UniswapV3IndexExchangeAdapter } from "../../typechain/UniswapV3IndexExchangeAdapter";
 export { UniswapYieldHook } from "../../typechain/UniswapYieldHook";
 export { WETH9 } from "../../typechain/WETH9";
 export { WrapAdapterMock } from "../../typechain/WrapAdapterMock";
 export { WrapModule } from "../../typechain/WrapModule";
+export { WrapModuleV2 } from "../../typechain/WrapModuleV2";
+export { WrapV2AdapterMock } from "../../typechain/WrapV2AdapterMock";
 export { YearnWrapAdapter } from "../../typechain/YearnWrapAdapter";
+export { YearnWrapV2Adapter } from "../../typechain/YearnWrapV2Adapter";
 export { YearnStrategyMock } from "../../typechain/YearnStrategyMock";
 export { ZeroExApiAdapter } from "../../typechain/ZeroExApiAdapter";
 export { ZeroExMock } from "../../typechain/ZeroExMock";
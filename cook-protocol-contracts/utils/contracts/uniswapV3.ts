@@ -0,0 +1,6 @@
+// External Uniswap V3 Contracts, typed through their interfaces
+export { INonfungiblePositionManager as UniswapV3NonfungiblePositionManager } from "../../typechain/INonfungiblePositionManager";
+export { IQuoter as UniswapV3Quoter } from "../../typechain/IQuoter";
+export { ISwapRouter as UniswapV3SwapRouter } from "../../typechain/ISwapRouter";
+export { IUniswapV3Factory as UniswapV3Factory } from "../../typechain/IUniswapV3Factory";
+export { IUniswapV3Pool as UniswapV3Pool } from "../../typechain/IUniswapV3Pool";
@@ -0,0 +1,78 @@
+import fs from "fs";
+import path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { Address, DeployManifest, NetworkAddressBook } from "../types";
+
+// Kept free of typechain imports so hardhat tasks can read address books before contracts are compiled
+const ADDRESS_BOOK_DIRECTORY = path.join(__dirname, "../../addresses");
+
+export const CORE_CONTRACTS = ["Controller", "IntegrationRegistry", "PriceOracle", "CKValuer", "CKTokenCreator"];
+
+export const getAddressBookPath = (networkName: string, directory: string = ADDRESS_BOOK_DIRECTORY): string => {
+  return path.join(directory, `${networkName}.json`);
+};
+
+export const readAddressBook = (
+  networkName: string,
+  directory: string = ADDRESS_BOOK_DIRECTORY
+): NetworkAddressBook | undefined => {
+  const addressBookPath = getAddressBookPath(networkName, directory);
+  if (!fs.existsSync(addressBookPath)) {
+    return undefined;
+  }
+
+  return JSON.parse(fs.readFileSync(addressBookPath, "utf8")) as NetworkAddressBook;
+};
+
+export const writeAddressBook = (addressBook: NetworkAddressBook, directory: string = ADDRESS_BOOK_DIRECTORY): string => {
+  const addressBookPath = getAddressBookPath(addressBook.network, directory);
+
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(addressBookPath, JSON.stringify(addressBook, undefined, 2) + "\n");
+
+  return addressBookPath;
+};
+
+// Collects the addresses of everything the manifest describes from the deployments saved by the deploy scripts
+export const buildAddressBook = async (
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeployManifest
+): Promise<NetworkAddressBook> => {
+  const getAddress = async (name: string): Promise<Address> => (await hre.deployments.get(name)).address;
+
+  const core: { [name: string]: Address } = {};
+  for (const name of CORE_CONTRACTS) {
+    core[name] = await getAddress(name);
+  }
+
+  const modules: { [name: string]: Address } = {};
+  for (const module of manifest.modules) {
+    modules[module.name] = await getAddress(module.name);
+  }
+
+  const adapters: NetworkAddressBook["adapters"] = {};
+  for (const adapter of manifest.adapters) {
+    adapters[adapter.name] = { address: await getAddress(adapter.name), integrations: adapter.integrations };
+  }
+
+  const external: { [name: string]: Address } = { ...manifest.external };
+  const deployedExternals = ["WETH"]
+    .concat((manifest.mockTokens || []).map(token => token.name))
+    .concat((manifest.mockOracles || []).map(oracle => oracle.name));
+  for (const name of deployedExternals) {
+    const deployment = await hre.deployments.getOrNull(name);
+    if (deployment && !external[name]) {
+      external[name] = deployment.address;
+    }
+  }
+
+  return {
+    network: hre.network.name,
+    chainId: (await hre.ethers.provider.getNetwork()).chainId,
+    core,
+    modules,
+    adapters,
+    external,
+  };
+};
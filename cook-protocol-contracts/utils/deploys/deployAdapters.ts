@@ -7,16 +7,23 @@ import {
   CompoundLikeGovernanceAdapter,
   CurveStakingAdapter,
   KyberExchangeAdapter,
+  KyberMigrationWrapAdapter,
+  KyberV3IndexExchangeAdapter,
   OneInchExchangeAdapter,
   AaveMigrationWrapAdapter,
   AaveWrapAdapter,
+  AaveV2WrapV2Adapter,
   CompoundWrapAdapter,
+  CompoundWrapV2Adapter,
   YearnWrapAdapter,
+  YearnWrapV2Adapter,
   UniswapPairPriceAdapter,
   UniswapV2ExchangeAdapter,
   UniswapV2ExchangeAdapterV2,
   UniswapV2IndexExchangeAdapter,
   UniswapV2TransferFeeExchangeAdapter,
+  UniswapV3ExchangeAdapter,
+  UniswapV3IndexExchangeAdapter,
   ZeroExApiAdapter,
   SnapshotGovernanceAdapter,
   SynthetixExchangeAdapter,
@@ -31,17 +38,24 @@ import { BalancerV1IndexExchangeAdapter__factory } from "../../typechain/factori
 import { CompoundLikeGovernanceAdapter__factory } from "../../typechain/factories/CompoundLikeGovernanceAdapter__factory";
 import { CurveStakingAdapter__factory } from "../../typechain/factories/CurveStakingAdapter__factory";
 import { KyberExchangeAdapter__factory } from "../../typechain/factories/KyberExchangeAdapter__factory";
+import { KyberMigrationWrapAdapter__factory } from "../../typechain/factories/KyberMigrationWrapAdapter__factory";
+import { KyberV3IndexExchangeAdapter__factory } from "../../typechain/factories/KyberV3IndexExchangeAdapter__factory";
 import { OneInchExchangeAdapter__factory } from "../../typechain/factories/OneInchExchangeAdapter__factory";
 import { ZeroExApiAdapter__factory } from "../../typechain/factories/ZeroExApiAdapter__factory";
 import { AaveMigrationWrapAdapter__factory } from "../../typechain/factories/AaveMigrationWrapAdapter__factory";
 import { AaveWrapAdapter__factory } from "../../typechain/factories/AaveWrapAdapter__factory";
+import { AaveV2WrapV2Adapter__factory } from "../../typechain/factories/AaveV2WrapV2Adapter__factory";
 import { CompoundWrapAdapter__factory } from "../../typechain/factories/CompoundWrapAdapter__factory";
+import { CompoundWrapV2Adapter__factory } from "../../typechain/factories/CompoundWrapV2Adapter__factory";
 import { YearnWrapAdapter__factory } from "../../typechain/factories/YearnWrapAdapter__factory";
+import { YearnWrapV2Adapter__factory } from "../../typechain/factories/YearnWrapV2Adapter__factory";
 import { UniswapPairPriceAdapter__factory } from "../../typechain/factories/UniswapPairPriceAdapter__factory";
 import { UniswapV2ExchangeAdapter__factory } from "../../typechain/factories/UniswapV2ExchangeAdapter__factory";
 import { UniswapV2TransferFeeExchangeAdapter__factory } from "../../typechain/factories/UniswapV2TransferFeeExchangeAdapter__factory";
 import { UniswapV2ExchangeAdapterV2__factory } from "../../typechain/factories/UniswapV2ExchangeAdapterV2__factory";
 import { UniswapV2IndexExchangeAdapter__factory } from "../../typechain/factories/UniswapV2IndexExchangeAdapter__factory";
+import { UniswapV3ExchangeAdapter__factory } from "../../typechain/factories/UniswapV3ExchangeAdapter__factory";
+import { UniswapV3IndexExchangeAdapter__factory } from "../../typechain/factories/UniswapV3IndexExchangeAdapter__factory";
 import { SnapshotGovernanceAdapter__factory } from "../../typechain/factories/SnapshotGovernanceAdapter__factory";
 import { SynthetixExchangeAdapter__factory } from "../../typechain/factories/SynthetixExchangeAdapter__factory";
 import { CompoundBravoGovernanceAdapter__factory } from "../../typechain/factories/CompoundBravoGovernanceAdapter__factory";
@@ -57,6 +71,10 @@ export default class DeployAdapters {
     return await new KyberExchangeAdapter__factory(this._deployerSigner).deploy(kyberNetworkProxy);
   }
 
+  public async deployKyberV3IndexExchangeAdapter(dmmRouter: Address, dmmFactory: Address): Promise<KyberV3IndexExchangeAdapter> {
+    return await new KyberV3IndexExchangeAdapter__factory(this._deployerSigner).deploy(dmmRouter, dmmFactory);
+  }
+
   public async deployOneInchExchangeAdapter(
     approveAddress: Address,
     exchangeAddress: Address,
@@ -85,6 +103,14 @@ export default class DeployAdapters {
     return await new UniswapV2IndexExchangeAdapter__factory(this._deployerSigner).deploy(uniswapV2Router);
   }
 
+  public async deployUniswapV3ExchangeAdapter(swapRouter: Address): Promise<UniswapV3ExchangeAdapter> {
+    return await new UniswapV3ExchangeAdapter__factory(this._deployerSigner).deploy(swapRouter);
+  }
+
+  public async deployUniswapV3IndexExchangeAdapter(swapRouter: Address): Promise<UniswapV3IndexExchangeAdapter> {
+    return await new UniswapV3IndexExchangeAdapter__factory(this._deployerSigner).deploy(swapRouter);
+  }
+
   public async deployAaveGovernanceAdapter(aaveProtoGovernance: Address, aaveToken: Address): Promise<AaveGovernanceAdapter> {
     return await new AaveGovernanceAdapter__factory(this._deployerSigner).deploy(aaveProtoGovernance, aaveToken);
   }
@@ -101,10 +127,18 @@ export default class DeployAdapters {
     return await new AaveMigrationWrapAdapter__factory(this._deployerSigner).deploy(aaveMigrationProxy, lendToken, aaveToken);
   }
 
+  public async deployKyberMigrationWrapAdapter(kncLegacyToken: Address, kncToken: Address): Promise<KyberMigrationWrapAdapter> {
+    return await new KyberMigrationWrapAdapter__factory(this._deployerSigner).deploy(kncLegacyToken, kncToken);
+  }
+
   public async deployAaveWrapAdapter(aaveLendingPool: Address): Promise<AaveWrapAdapter> {
     return await new AaveWrapAdapter__factory(this._deployerSigner).deploy(aaveLendingPool);
   }
 
+  public async deployAaveV2WrapV2Adapter(lendingPool: Address): Promise<AaveV2WrapV2Adapter> {
+    return await new AaveV2WrapV2Adapter__factory(this._deployerSigner).deploy(lendingPool);
+  }
+
   public async deployCompoundWrapAdapter(libraryName: string, libraryAddress: Address): Promise<CompoundWrapAdapter> {
     const linkId = convertLibraryNameToLinkId(libraryName);
     return await new CompoundWrapAdapter__factory(
@@ -116,10 +150,25 @@ export default class DeployAdapters {
     ).deploy();
   }
 
+  public async deployCompoundWrapV2Adapter(libraryName: string, libraryAddress: Address): Promise<CompoundWrapV2Adapter> {
+    const linkId = convertLibraryNameToLinkId(libraryName);
+    return await new CompoundWrapV2Adapter__factory(
+       // @ts-ignore
+      {
+        [linkId]: libraryAddress,
+      },
+      this._deployerSigner
+    ).deploy();
+  }
+
   public async deployYearnWrapAdapter(): Promise<YearnWrapAdapter> {
     return await new YearnWrapAdapter__factory(this._deployerSigner).deploy();
   }
 
+  public async deployYearnWrapV2Adapter(): Promise<YearnWrapV2Adapter> {
+    return await new YearnWrapV2Adapter__factory(this._deployerSigner).deploy();
+  }
+
   public async deployBalancerV1IndexExchangeAdapter(balancerProxy: Address): Promise<BalancerV1IndexExchangeAdapter> {
     return await new BalancerV1IndexExchangeAdapter__factory(this._deployerSigner).deploy(balancerProxy);
   }
@@ -1,4 +1,4 @@
-import { Signer } from "ethers";
+import { Contract, ContractFactory, ContractInterface, Signer } from "ethers";
 import { BigNumberish, BigNumber } from "@ethersproject/bignumber";
 import { ether } from "../common";
 
@@ -113,6 +113,25 @@ import { UniswapV2Factory__factory } from "../../typechain/factories/UniswapV2Fa
 import { UniswapV2Pair__factory } from "../../typechain/factories/UniswapV2Pair__factory";
 import { UniswapV2Router02__factory } from "../../typechain/factories/UniswapV2Router02__factory";
 
+import {
+  UniswapV3Factory,
+  UniswapV3NonfungiblePositionManager,
+  UniswapV3Quoter,
+  UniswapV3SwapRouter
+} from "../contracts/uniswapV3";
+
+import { INonfungiblePositionManager__factory } from "../../typechain/factories/INonfungiblePositionManager__factory";
+import { IQuoter__factory } from "../../typechain/factories/IQuoter__factory";
+import { ISwapRouter__factory } from "../../typechain/factories/ISwapRouter__factory";
+import { IUniswapV3Factory__factory } from "../../typechain/factories/IUniswapV3Factory__factory";
+
+// Uniswap V3 is compiled with solc 0.7.6, so it is deployed from the artifacts published with Uniswap's packages
+import UniswapV3FactoryArtifact from "@uniswap/v3-core/artifacts/contracts/UniswapV3Factory.sol/UniswapV3Factory.json";
+import SwapRouterArtifact from "@uniswap/v3-periphery/artifacts/contracts/SwapRouter.sol/SwapRouter.json";
+import NonfungiblePositionManagerArtifact from
+  "@uniswap/v3-periphery/artifacts/contracts/NonfungiblePositionManager.sol/NonfungiblePositionManager.json";
+import QuoterArtifact from "@uniswap/v3-periphery/artifacts/contracts/lens/Quoter.sol/Quoter.json";
+
 import {
   BFactory,
   BRegistry,
@@ -511,6 +530,32 @@ export default class DeployExternalContracts {
     );
   }
 
+  // UNISWAP V3
+  public async deployUniswapV3Factory(): Promise<UniswapV3Factory> {
+    const factory = await this._deployFromArtifact(UniswapV3FactoryArtifact);
+    return IUniswapV3Factory__factory.connect(factory.address, this._deployerSigner);
+  }
+
+  public async deployUniswapV3SwapRouter(_factory: Address, _weth: Address): Promise<UniswapV3SwapRouter> {
+    const router = await this._deployFromArtifact(SwapRouterArtifact, _factory, _weth);
+    return ISwapRouter__factory.connect(router.address, this._deployerSigner);
+  }
+
+  // The token descriptor only renders tokenURI, so tests can pass any address
+  public async deployUniswapV3NonfungiblePositionManager(
+    _factory: Address,
+    _weth: Address,
+    _tokenDescriptor: Address
+  ): Promise<UniswapV3NonfungiblePositionManager> {
+    const positionManager = await this._deployFromArtifact(NonfungiblePositionManagerArtifact, _factory, _weth, _tokenDescriptor);
+    return INonfungiblePositionManager__factory.connect(positionManager.address, this._deployerSigner);
+  }
+
+  public async deployUniswapV3Quoter(_factory: Address, _weth: Address): Promise<UniswapV3Quoter> {
+    const quoter = await this._deployFromArtifact(QuoterArtifact, _factory, _weth);
+    return IQuoter__factory.connect(quoter.address, this._deployerSigner);
+  }
+
   public async deployB__factory(): Promise<BFactory> {
     return await new BFactory__factory(this._deployerSigner).deploy();
   }
@@ -540,4 +585,8 @@ export default class DeployExternalContracts {
     return await new Registry__factory(this._deployerSigner).deploy();
   }
 
+  private async _deployFromArtifact(artifact: { abi: ContractInterface; bytecode: string }, ...args: unknown[]): Promise<Contract> {
+    const contract = await new ContractFactory(artifact.abi, artifact.bytecode, this._deployerSigner).deploy(...args);
+    return await contract.deployed();
+  }
 }
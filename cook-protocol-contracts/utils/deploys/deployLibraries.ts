@@ -1,9 +1,11 @@
 import { Signer } from "ethers";
 
 import {
+  AaveV2,
   Compound,
 } from "../contracts";
 
+import { AaveV2__factory } from "../../typechain/factories/AaveV2__factory";
 import { Compound__factory } from "../../typechain/factories/Compound__factory";
 
 export default class DeployLibraries {
@@ -16,4 +18,8 @@ export default class DeployLibraries {
   public async deployCompound(): Promise<Compound> {
     return await new Compound__factory(this._deployerSigner).deploy();
   }
+
+  public async deployAaveV2(): Promise<AaveV2> {
+    return await new AaveV2__factory(this._deployerSigner).deploy();
+  }
 }
@@ -5,8 +5,16 @@ import { BigNumberish, BigNumber } from "@ethersproject/bignumber";
 import {
   AaveLendingPoolCoreMock,
   AaveLendingPoolMock,
+  AaveV2ATokenMock,
+  AaveV2LendingPoolMock,
+  AaveV2Mock,
+  AaveV2PriceOracleMock,
+  AaveV2ProtocolDataProviderMock,
+  AaveV2StableDebtTokenMock,
+  AaveV2VariableDebtTokenMock,
   AddressArrayUtilsMock,
   AmmAdapterMock,
+  ChainlinkAggregatorMock,
   ClaimAdapterMock,
   ContractCallerMock,
   CompoundMock,
@@ -19,7 +27,10 @@ import {
   GodModeMock,
   GovernanceAdapterMock,
   InvokeMock,
+  KyberDMMFactoryMock,
+  KyberDMMRouterMock,
   KyberNetworkProxyMock,
+  LendingPoolAddressesProviderMock,
   ManagerIssuanceHookMock,
   ModuleIssuanceHookMock,
   ModuleBaseMock,
@@ -35,21 +46,32 @@ import {
   StakingAdapterMock,
   StandardTokenMock,
   StandardTokenWithFeeMock,
+  StandardTokenWithRoundingErrorMock,
   TradeAdapterMock,
   SynthMock,
   SynthetixExchangerMock,
   Uint256ArrayUtilsMock,
   WrapAdapterMock,
+  WrapV2AdapterMock,
   ZeroExMock,
   YearnStrategyMock
 } from "../contracts";
 
 import { convertLibraryNameToLinkId, ether } from "../common";
+import { ZERO } from "../constants";
 
 import { AaveLendingPoolCoreMock__factory } from "../../typechain/factories/AaveLendingPoolCoreMock__factory";
 import { AaveLendingPoolMock__factory } from "../../typechain/factories/AaveLendingPoolMock__factory";
+import { AaveV2ATokenMock__factory } from "../../typechain/factories/AaveV2ATokenMock__factory";
+import { AaveV2LendingPoolMock__factory } from "../../typechain/factories/AaveV2LendingPoolMock__factory";
+import { AaveV2Mock__factory } from "../../typechain/factories/AaveV2Mock__factory";
+import { AaveV2PriceOracleMock__factory } from "../../typechain/factories/AaveV2PriceOracleMock__factory";
+import { AaveV2ProtocolDataProviderMock__factory } from "../../typechain/factories/AaveV2ProtocolDataProviderMock__factory";
+import { AaveV2StableDebtTokenMock__factory } from "../../typechain/factories/AaveV2StableDebtTokenMock__factory";
+import { AaveV2VariableDebtTokenMock__factory } from "../../typechain/factories/AaveV2VariableDebtTokenMock__factory";
 import { AddressArrayUtilsMock__factory } from "../../typechain/factories/AddressArrayUtilsMock__factory";
 import { AmmAdapterMock__factory } from "../../typechain/factories/AmmAdapterMock__factory";
+import { ChainlinkAggregatorMock__factory } from "../../typechain/factories/ChainlinkAggregatorMock__factory";
 import { ClaimAdapterMock__factory } from "../../typechain/factories/ClaimAdapterMock__factory";
 import { CompoundMock__factory } from "../../typechain/factories/CompoundMock__factory";
 import { ComptrollerMock__factory } from "../../typechain/factories/ComptrollerMock__factory";
@@ -62,7 +84,10 @@ import { GaugeControllerMock__factory } from "../../typechain/factories/GaugeCon
 import { GodModeMock__factory } from "../../typechain/factories/GodModeMock__factory";
 import { GovernanceAdapterMock__factory } from "../../typechain/factories/GovernanceAdapterMock__factory";
 import { InvokeMock__factory } from "../../typechain/factories/InvokeMock__factory";
+import { KyberDMMFactoryMock__factory } from "../../typechain/factories/KyberDMMFactoryMock__factory";
+import { KyberDMMRouterMock__factory } from "../../typechain/factories/KyberDMMRouterMock__factory";
 import { KyberNetworkProxyMock__factory } from "../../typechain/factories/KyberNetworkProxyMock__factory";
+import { LendingPoolAddressesProviderMock__factory } from "../../typechain/factories/LendingPoolAddressesProviderMock__factory";
 import { ManagerIssuanceHookMock__factory } from "../../typechain/factories/ManagerIssuanceHookMock__factory";
 import { ModuleBaseMock__factory } from "../../typechain/factories/ModuleBaseMock__factory";
 import { ModuleIssuanceHookMock__factory } from "../../typechain/factories/ModuleIssuanceHookMock__factory";
@@ -78,9 +103,11 @@ import { ResourceIdentifierMock__factory } from "../../typechain/factories/Resou
 import { StakingAdapterMock__factory } from "../../typechain/factories/StakingAdapterMock__factory";
 import { StandardTokenMock__factory } from "../../typechain/factories/StandardTokenMock__factory";
 import { StandardTokenWithFeeMock__factory } from "../../typechain/factories/StandardTokenWithFeeMock__factory";
+import { StandardTokenWithRoundingErrorMock__factory } from "../../typechain/factories/StandardTokenWithRoundingErrorMock__factory";
 import { TradeAdapterMock__factory } from "../../typechain/factories/TradeAdapterMock__factory";
 import { Uint256ArrayUtilsMock__factory } from "../../typechain/factories/Uint256ArrayUtilsMock__factory";
 import { WrapAdapterMock__factory } from "../../typechain/factories/WrapAdapterMock__factory";
+import { WrapV2AdapterMock__factory } from "../../typechain/factories/WrapV2AdapterMock__factory";
 import { ZeroExMock__factory } from "../../typechain/factories/ZeroExMock__factory";
 import { SynthMock__factory } from "../../typechain/factories/SynthMock__factory";
 import { SynthetixExchangerMock__factory } from "../../typechain/factories/SynthetixExchangerMock__factory";
@@ -129,6 +156,14 @@ export default class DeployMocks {
     return await new KyberNetworkProxyMock__factory(this._deployerSigner).deploy(mockWethAddress);
   }
 
+  public async deployKyberDMMFactoryMock(): Promise<KyberDMMFactoryMock> {
+    return await new KyberDMMFactoryMock__factory(this._deployerSigner).deploy();
+  }
+
+  public async deployKyberDMMRouterMock(dmmFactory: Address): Promise<KyberDMMRouterMock> {
+    return await new KyberDMMRouterMock__factory(this._deployerSigner).deploy(dmmFactory);
+  }
+
   public async deployModuleBaseMock(controllerAddress: Address): Promise<ModuleBaseMock> {
     return await new ModuleBaseMock__factory(this._deployerSigner).deploy(controllerAddress);
   }
@@ -177,6 +212,14 @@ export default class DeployMocks {
     return await new OracleMock__factory(this._deployerSigner).deploy(initialValue);
   }
 
+  public async deployChainlinkAggregatorMock(
+    initialAnswer: BigNumberish,
+    decimals: number = 8,
+    description: string = "Aggregator"
+  ): Promise<ChainlinkAggregatorMock> {
+    return await new ChainlinkAggregatorMock__factory(this._deployerSigner).deploy(decimals, initialAnswer, description);
+  }
+
   public async deployYearnVaultMock(pricePerShare: BigNumberish): Promise<YearnVaultMock> {
     return await new YearnVaultMock__factory(this._deployerSigner).deploy(pricePerShare);
   }
@@ -228,6 +271,17 @@ export default class DeployMocks {
       .deploy(initialAccount, initialBalance, name, symbol, fee);
   }
 
+  public async deployTokenWithErrorMock(
+    initialAccount: Address,
+    initialBalance: BigNumberish = ether(1000000000),
+    error: BigNumberish = ZERO,
+    name: string = "Token",
+    symbol: string = "Symbol"
+  ): Promise<StandardTokenWithRoundingErrorMock> {
+    return await new StandardTokenWithRoundingErrorMock__factory(this._deployerSigner)
+      .deploy(initialAccount, initialBalance, error, name, symbol, 18);
+  }
+
   public async deployTradeAdapterMock(): Promise<TradeAdapterMock> {
     return await new TradeAdapterMock__factory(this._deployerSigner).deploy();
   }
@@ -240,6 +294,10 @@ export default class DeployMocks {
     return await new WrapAdapterMock__factory(this._deployerSigner).deploy();
   }
 
+  public async deployWrapV2AdapterMock(): Promise<WrapV2AdapterMock> {
+    return await new WrapV2AdapterMock__factory(this._deployerSigner).deploy();
+  }
+
   public async deployAaveLendingPoolCoreMock(): Promise<AaveLendingPoolCoreMock> {
     return await new AaveLendingPoolCoreMock__factory(this._deployerSigner).deploy();
   }
@@ -248,6 +306,52 @@ export default class DeployMocks {
     return await new AaveLendingPoolMock__factory(this._deployerSigner).deploy(aaveLendingPoolCore);
   }
 
+  public async deployLendingPoolAddressesProviderMock(): Promise<LendingPoolAddressesProviderMock> {
+    return await new LendingPoolAddressesProviderMock__factory(this._deployerSigner).deploy();
+  }
+
+  public async deployAaveV2LendingPoolMock(lendingPoolAddressesProvider: Address): Promise<AaveV2LendingPoolMock> {
+    return await new AaveV2LendingPoolMock__factory(this._deployerSigner).deploy(lendingPoolAddressesProvider);
+  }
+
+  public async deployAaveV2ProtocolDataProviderMock(lendingPoolAddressesProvider: Address): Promise<AaveV2ProtocolDataProviderMock> {
+    return await new AaveV2ProtocolDataProviderMock__factory(this._deployerSigner).deploy(lendingPoolAddressesProvider);
+  }
+
+  public async deployAaveV2PriceOracleMock(): Promise<AaveV2PriceOracleMock> {
+    return await new AaveV2PriceOracleMock__factory(this._deployerSigner).deploy();
+  }
+
+  public async deployAaveV2ATokenMock(
+    lendingPool: Address,
+    underlyingAsset: Address,
+    name: string,
+    symbol: string,
+    decimals: BigNumberish
+  ): Promise<AaveV2ATokenMock> {
+    return await new AaveV2ATokenMock__factory(this._deployerSigner).deploy(lendingPool, underlyingAsset, name, symbol, decimals);
+  }
+
+  public async deployAaveV2StableDebtTokenMock(
+    lendingPool: Address,
+    underlyingAsset: Address,
+    name: string,
+    symbol: string,
+    decimals: BigNumberish
+  ): Promise<AaveV2StableDebtTokenMock> {
+    return await new AaveV2StableDebtTokenMock__factory(this._deployerSigner).deploy(lendingPool, underlyingAsset, name, symbol, decimals);
+  }
+
+  public async deployAaveV2VariableDebtTokenMock(
+    lendingPool: Address,
+    underlyingAsset: Address,
+    name: string,
+    symbol: string,
+    decimals: BigNumberish
+  ): Promise<AaveV2VariableDebtTokenMock> {
+    return await new AaveV2VariableDebtTokenMock__factory(this._deployerSigner).deploy(lendingPool, underlyingAsset, name, symbol, decimals);
+  }
+
   public async deployClaimAdapterMock(): Promise<ClaimAdapterMock> {
     return await new ClaimAdapterMock__factory(this._deployerSigner).deploy();
   }
@@ -288,6 +392,18 @@ export default class DeployMocks {
     ).deploy();
   }
 
+  public async deployAaveV2Mock(libraryName: string, libraryAddress: Address): Promise<AaveV2Mock> {
+    const linkId = convertLibraryNameToLinkId(libraryName);
+
+    return await new AaveV2Mock__factory(
+      // @ts-ignore
+      {
+        [linkId]: libraryAddress,
+      },
+      this._deployerSigner
+    ).deploy();
+  }
+
   public async deploySynthMock(
     initialAccount: Address,
     currencyKey: Bytes,
@@ -2,40 +2,49 @@ import { Signer } from "ethers";
 import { convertLibraryNameToLinkId } from "../common";
 
 import {
+  AaveLeverageModule,
   AirdropModule,
   AmmModule,
   BalancerV1IndexExchangeAdapter,
   BasicIssuanceModule,
   BatchIssuanceModule,
+  BatchIssuanceModuleV2,
   ClaimModule,
   CompoundLeverageModule,
   CustomOracleNavIssuanceModule,
   DebtIssuanceModule,
+  DebtIssuanceModuleV2,
   GeneralIndexModule,
   GovernanceModule,
   IssuanceModule,
+  IssuanceModuleV2,
   NavIssuanceModule,
   SingleIndexModule,
   StakingModule,
   StreamingFeeModule,
   TradeModule,
   UniswapV2IndexExchangeAdapter,
-  WrapModule
+  WrapModule,
+  WrapModuleV2
 } from "../contracts";
 import { Address } from "../types";
 
+import { AaveLeverageModule__factory } from "../../typechain/factories/AaveLeverageModule__factory";
 import { AirdropModule__factory } from "../../typechain/factories/AirdropModule__factory";
 import { AmmModule__factory } from "../../typechain/factories/AmmModule__factory";
 import { BalancerV1IndexExchangeAdapter__factory } from "../../typechain/factories/BalancerV1IndexExchangeAdapter__factory";
 import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
 import { BatchIssuanceModule__factory } from "../../typechain/factories/BatchIssuanceModule__factory";
+import { BatchIssuanceModuleV2__factory } from "../../typechain/factories/BatchIssuanceModuleV2__factory";
 import { ClaimModule__factory } from "../../typechain/factories/ClaimModule__factory";
 import { CompoundLeverageModule__factory } from "../../typechain/factories/CompoundLeverageModule__factory";
 import { CustomOracleNavIssuanceModule__factory } from "../../typechain/factories/CustomOracleNavIssuanceModule__factory";
 import { DebtIssuanceModule__factory } from "../../typechain/factories/DebtIssuanceModule__factory";
+import { DebtIssuanceModuleV2__factory } from "../../typechain/factories/DebtIssuanceModuleV2__factory";
 import { GeneralIndexModule__factory } from "../../typechain/factories/GeneralIndexModule__factory";
 import { GovernanceModule__factory } from "../../typechain/factories/GovernanceModule__factory";
 import { IssuanceModule__factory } from "../../typechain/factories/IssuanceModule__factory";
+import { IssuanceModuleV2__factory } from "../../typechain/factories/IssuanceModuleV2__factory";
 import { NavIssuanceModule__factory } from "../../typechain/factories/NavIssuanceModule__factory";
 import { SingleIndexModule__factory } from "../../typechain/factories/SingleIndexModule__factory";
 import { StakingModule__factory } from "../../typechain/factories/StakingModule__factory";
@@ -43,6 +52,7 @@ import { StreamingFeeModule__factory } from "../../typechain/factories/Streaming
 import { TradeModule__factory } from "../../typechain/factories/TradeModule__factory";
 import { UniswapV2IndexExchangeAdapter__factory } from "../../typechain/factories/UniswapV2IndexExchangeAdapter__factory";
 import { WrapModule__factory } from "../../typechain/factories/WrapModule__factory";
+import { WrapModuleV2__factory } from "../../typechain/factories/WrapModuleV2__factory";
 
 export default class DeployModules {
   private _deployerSigner: Signer;
@@ -55,14 +65,22 @@ export default class DeployModules {
     return await new BasicIssuanceModule__factory(this._deployerSigner).deploy(controller);
   }
 
-  public async deployIssuanceModule(controller: Address): Promise<IssuanceModule> {
-    return await new IssuanceModule__factory(this._deployerSigner).deploy(controller);
+  public async deployIssuanceModule(controller: Address, weth: Address): Promise<IssuanceModule> {
+    return await new IssuanceModule__factory(this._deployerSigner).deploy(controller, weth);
+  }
+
+  public async deployIssuanceModuleV2(controller: Address, weth: Address): Promise<IssuanceModuleV2> {
+    return await new IssuanceModuleV2__factory(this._deployerSigner).deploy(controller, weth);
   }
 
   public async deployDebtIssuanceModule(controller: Address): Promise<DebtIssuanceModule> {
     return await new DebtIssuanceModule__factory(this._deployerSigner).deploy(controller);
   }
 
+  public async deployDebtIssuanceModuleV2(controller: Address): Promise<DebtIssuanceModuleV2> {
+    return await new DebtIssuanceModuleV2__factory(this._deployerSigner).deploy(controller);
+  }
+
   public async deployAmmModule(controller: Address): Promise<AmmModule> {
     return await new AmmModule__factory(this._deployerSigner).deploy(controller);
   }
@@ -75,6 +93,10 @@ export default class DeployModules {
     return await new BatchIssuanceModule__factory(this._deployerSigner).deploy(controller, weth, basicIssuanceModule);
   }
 
+  public async deployBatchIssuanceModuleV2(controller: Address, weth: Address, issuanceModule: Address): Promise<BatchIssuanceModuleV2> {
+    return await new BatchIssuanceModuleV2__factory(this._deployerSigner).deploy(controller, weth, issuanceModule);
+  }
+
   public async deployStreamingFeeModule(controller: Address): Promise<StreamingFeeModule> {
     return await new StreamingFeeModule__factory(this._deployerSigner).deploy(controller);
   }
@@ -99,6 +121,10 @@ export default class DeployModules {
     return await new WrapModule__factory(this._deployerSigner).deploy(controller, weth);
   }
 
+  public async deployWrapModuleV2(controller: Address, weth: Address): Promise<WrapModuleV2> {
+    return await new WrapModuleV2__factory(this._deployerSigner).deploy(controller, weth);
+  }
+
   public async deployClaimModule(controller: Address): Promise<ClaimModule> {
     return await new ClaimModule__factory(this._deployerSigner).deploy(controller);
   }
@@ -182,4 +208,24 @@ export default class DeployModules {
       weth,
     );
   }
+
+  public async deployAaveLeverageModule(
+    controller: Address,
+    lendingPoolAddressesProvider: Address,
+    libraryName: string,
+    libraryAddress: Address
+  ): Promise<AaveLeverageModule> {
+    const linkId = convertLibraryNameToLinkId(libraryName);
+
+    return await new AaveLeverageModule__factory(
+      // @ts-ignore
+      {
+        [linkId]: libraryAddress,
+      },
+      this._deployerSigner
+    ).deploy(
+      controller,
+      lendingPoolAddressesProvider,
+    );
+  }
 }
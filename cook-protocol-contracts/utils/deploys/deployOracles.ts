@@ -2,8 +2,9 @@ import { Signer } from "ethers";
 import { Address } from "../types";
 import { BigNumber } from "@ethersproject/bignumber";
 
-import { CTokenOracle, YearnVaultOracle } from "../contracts";
+import { ChainlinkOracleAdapter, CTokenOracle, YearnVaultOracle } from "../contracts";
 
+import { ChainlinkOracleAdapter__factory } from "../../typechain/factories/ChainlinkOracleAdapter__factory";
 import { CTokenOracle__factory } from "../../typechain/factories/CTokenOracle__factory";
 import { YearnVaultOracle__factory } from "../../typechain/factories/YearnVaultOracle__factory";
 
@@ -32,4 +33,8 @@ export default class DeployOracles {
     return await new YearnVaultOracle__factory(this._deployerSigner).deploy(vault, underlyingOracle, underlyingFullUnit, dataDescription);
   }
 
+  public async deployChainlinkOracleAdapter(aggregator: Address, priceMultiplierDecimals: number): Promise<ChainlinkOracleAdapter> {
+    return await new ChainlinkOracleAdapter__factory(this._deployerSigner).deploy(aggregator, priceMultiplierDecimals);
+  }
+
 }
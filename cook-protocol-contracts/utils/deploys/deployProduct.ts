@@ -3,7 +3,9 @@ import { BigNumber } from "@ethersproject/bignumber";
 
 import { UniswapYieldHook } from "../contracts";
 import { AssetLimitHook } from "../contracts";
+import { AMMSplitter } from "../contracts";
 
+import { AMMSplitter__factory } from "../../typechain/factories/AMMSplitter__factory";
 import { UniswapYieldHook__factory } from "../../typechain/factories/UniswapYieldHook__factory";
 import { AssetLimitHook__factory } from "../../typechain/factories/AssetLimitHook__factory";
 import { Address } from "@utils/types";
@@ -29,6 +31,15 @@ export default class DeployProduct {
     return await new AssetLimitHook__factory(this._deployerSigner).deploy(_assets, _limits);
   }
 
+  public async deployAMMSplitter(
+    _uniRouter: Address,
+    _sushiRouter: Address,
+    _uniFactory: Address,
+    _sushiFactory: Address
+  ): Promise<AMMSplitter> {
+    return await new AMMSplitter__factory(this._deployerSigner).deploy(_uniRouter, _sushiRouter, _uniFactory, _sushiFactory);
+  }
+
   public async getAssetLimitHook(assetLimitHookAddress: Address): Promise<AssetLimitHook> {
     return await new AssetLimitHook__factory(this._deployerSigner).attach(assetLimitHookAddress);
   }
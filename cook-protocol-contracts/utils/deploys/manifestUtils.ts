@@ -0,0 +1,165 @@
+import fs from "fs";
+import path from "path";
+import { Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import DeployHelper from "./index";
+import { Address, DeployManifest } from "../types";
+
+type ModuleDeployer = (deployHelper: DeployHelper, controller: Address, args: string[]) => Promise<Contract>;
+type AdapterDeployer = (deployHelper: DeployHelper, args: string[]) => Promise<Contract>;
+
+const MANIFEST_DIRECTORY = path.join(__dirname, "../../manifests");
+
+// Both in-process and standalone hardhat nodes are described by the localhost manifest
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+export const MODULE_DEPLOYERS: { [name: string]: ModuleDeployer } = {
+  AirdropModule: (deployHelper, controller) => deployHelper.modules.deployAirdropModule(controller),
+  AmmModule: (deployHelper, controller) => deployHelper.modules.deployAmmModule(controller),
+  BasicIssuanceModule: (deployHelper, controller) => deployHelper.modules.deployBasicIssuanceModule(controller),
+  BatchIssuanceModule: (deployHelper, controller, [weth, basicIssuanceModule]) =>
+    deployHelper.modules.deployBatchIssuanceModule(controller, weth, basicIssuanceModule),
+  BatchIssuanceModuleV2: (deployHelper, controller, [weth, issuanceModule]) =>
+    deployHelper.modules.deployBatchIssuanceModuleV2(controller, weth, issuanceModule),
+  ClaimModule: (deployHelper, controller) => deployHelper.modules.deployClaimModule(controller),
+  CustomOracleNavIssuanceModule: (deployHelper, controller, [weth]) =>
+    deployHelper.modules.deployCustomOracleNavIssuanceModule(controller, weth),
+  DebtIssuanceModule: (deployHelper, controller) => deployHelper.modules.deployDebtIssuanceModule(controller),
+  DebtIssuanceModuleV2: (deployHelper, controller) => deployHelper.modules.deployDebtIssuanceModuleV2(controller),
+  GeneralIndexModule: (deployHelper, controller, [weth]) => deployHelper.modules.deployGeneralIndexModule(controller, weth),
+  GovernanceModule: (deployHelper, controller) => deployHelper.modules.deployGovernanceModule(controller),
+  IssuanceModule: (deployHelper, controller, [weth]) => deployHelper.modules.deployIssuanceModule(controller, weth),
+  IssuanceModuleV2: (deployHelper, controller, [weth]) => deployHelper.modules.deployIssuanceModuleV2(controller, weth),
+  NavIssuanceModule: (deployHelper, controller, [weth]) => deployHelper.modules.deployNavIssuanceModule(controller, weth),
+  SingleIndexModule: (deployHelper, controller, [weth, uniswapRouter, sushiswapRouter, balancerProxy]) =>
+    deployHelper.modules.deploySingleIndexModule(controller, weth, uniswapRouter, sushiswapRouter, balancerProxy),
+  StakingModule: (deployHelper, controller) => deployHelper.modules.deployStakingModule(controller),
+  StreamingFeeModule: (deployHelper, controller) => deployHelper.modules.deployStreamingFeeModule(controller),
+  TradeModule: (deployHelper, controller) => deployHelper.modules.deployTradeModule(controller),
+  WrapModule: (deployHelper, controller, [weth]) => deployHelper.modules.deployWrapModule(controller, weth),
+  WrapModuleV2: (deployHelper, controller, [weth]) => deployHelper.modules.deployWrapModuleV2(controller, weth),
+};
+
+export const ADAPTER_DEPLOYERS: { [name: string]: AdapterDeployer } = {
+  AaveGovernanceAdapter: (deployHelper, [governance, aaveToken]) =>
+    deployHelper.adapters.deployAaveGovernanceAdapter(governance, aaveToken),
+  AaveGovernanceV2Adapter: (deployHelper, [governance, aaveToken]) =>
+    deployHelper.adapters.deployAaveGovernanceV2Adapter(governance, aaveToken),
+  AaveMigrationWrapAdapter: (deployHelper, [migrationProxy, lendToken, aaveToken]) =>
+    deployHelper.adapters.deployAaveMigrationWrapAdapter(migrationProxy, lendToken, aaveToken),
+  AaveWrapAdapter: (deployHelper, [lendingPool]) => deployHelper.adapters.deployAaveWrapAdapter(lendingPool),
+  AaveV2WrapV2Adapter: (deployHelper, [lendingPool]) => deployHelper.adapters.deployAaveV2WrapV2Adapter(lendingPool),
+  BalancerV1IndexExchangeAdapter: (deployHelper, [balancerProxy]) =>
+    deployHelper.adapters.deployBalancerV1IndexExchangeAdapter(balancerProxy),
+  CompoundBravoGovernanceAdapter: (deployHelper, [governorBravo, governanceToken]) =>
+    deployHelper.adapters.deployCompoundBravoGovernanceAdapter(governorBravo, governanceToken),
+  CompoundLikeGovernanceAdapter: (deployHelper, [governorAlpha, governanceToken]) =>
+    deployHelper.adapters.deployCompoundLikeGovernanceAdapter(governorAlpha, governanceToken),
+  CurveStakingAdapter: (deployHelper, [gaugeController]) => deployHelper.adapters.deployCurveStakingAdapter(gaugeController),
+  KyberExchangeAdapter: (deployHelper, [kyberNetworkProxy]) => deployHelper.adapters.deployKyberExchangeAdapter(kyberNetworkProxy),
+  KyberMigrationWrapAdapter: (deployHelper, [kncLegacyToken, kncToken]) =>
+    deployHelper.adapters.deployKyberMigrationWrapAdapter(kncLegacyToken, kncToken),
+  KyberV3IndexExchangeAdapter: (deployHelper, [dmmRouter, dmmFactory]) =>
+    deployHelper.adapters.deployKyberV3IndexExchangeAdapter(dmmRouter, dmmFactory),
+  OneInchExchangeAdapter: (deployHelper, [approveAddress, exchangeAddress, swapFunctionSignature]) =>
+    deployHelper.adapters.deployOneInchExchangeAdapter(approveAddress, exchangeAddress, swapFunctionSignature),
+  SnapshotGovernanceAdapter: (deployHelper, [delegateRegistry]) =>
+    deployHelper.adapters.deploySnapshotGovernanceAdapter(delegateRegistry),
+  SynthetixExchangeAdapter: (deployHelper, [synthetixExchanger]) =>
+    deployHelper.adapters.deploySynthetixExchangeAdapter(synthetixExchanger),
+  UniswapV2ExchangeAdapter: (deployHelper, [router]) => deployHelper.adapters.deployUniswapV2ExchangeAdapter(router),
+  UniswapV2ExchangeAdapterV2: (deployHelper, [router]) => deployHelper.adapters.deployUniswapV2ExchangeAdapterV2(router),
+  UniswapV2IndexExchangeAdapter: (deployHelper, [router]) => deployHelper.adapters.deployUniswapV2IndexExchangeAdapter(router),
+  UniswapV2TransferFeeExchangeAdapter: (deployHelper, [router]) =>
+    deployHelper.adapters.deployUniswapV2TransferFeeExchangeAdapter(router),
+  UniswapV3ExchangeAdapter: (deployHelper, [swapRouter]) => deployHelper.adapters.deployUniswapV3ExchangeAdapter(swapRouter),
+  UniswapV3IndexExchangeAdapter: (deployHelper, [swapRouter]) => deployHelper.adapters.deployUniswapV3IndexExchangeAdapter(swapRouter),
+  YearnWrapAdapter: deployHelper => deployHelper.adapters.deployYearnWrapAdapter(),
+  YearnWrapV2Adapter: deployHelper => deployHelper.adapters.deployYearnWrapV2Adapter(),
+  ZeroExApiAdapter: (deployHelper, [zeroEx]) => deployHelper.adapters.deployZeroExApiAdapter(zeroEx),
+};
+
+export const isLocalNetwork = (networkName: string): boolean => LOCAL_NETWORKS.indexOf(networkName) > -1;
+
+export const loadDeployManifest = (networkName: string): DeployManifest => {
+  const manifestName = isLocalNetwork(networkName) ? "localhost" : networkName;
+  const manifestPath = path.join(MANIFEST_DIRECTORY, `${manifestName}.json`);
+
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No deploy manifest found for network ${networkName} at ${manifestPath}`);
+  }
+
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeployManifest;
+};
+
+export const getDeployerAddress = async (hre: HardhatRuntimeEnvironment): Promise<Address> => {
+  const { deployer } = await hre.getNamedAccounts();
+  return deployer;
+};
+
+export const getDeployHelper = async (hre: HardhatRuntimeEnvironment): Promise<DeployHelper> => {
+  const deployer = await getDeployerAddress(hre);
+  return new DeployHelper(hre.ethers.provider.getSigner(deployer));
+};
+
+// Manifest values are either raw hex (addresses, bytes), a name in the manifest's `external`
+// address map or the name of a contract saved by a previous deploy script.
+export const resolveReference = async (
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeployManifest,
+  reference: string
+): Promise<string> => {
+  if (utils.isHexString(reference)) {
+    return reference;
+  }
+
+  if (manifest.external && manifest.external[reference]) {
+    return manifest.external[reference];
+  }
+
+  const deployment = await hre.deployments.getOrNull(reference);
+  if (!deployment) {
+    throw new Error(`Unable to resolve manifest reference ${reference}`);
+  }
+
+  return deployment.address;
+};
+
+export const resolveReferences = async (
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeployManifest,
+  references: string[] = []
+): Promise<string[]> => {
+  const resolved: string[] = [];
+  for (let i = 0; i < references.length; i++) {
+    resolved.push(await resolveReference(hre, manifest, references[i]));
+  }
+  return resolved;
+};
+
+// Deploys the contract and saves it under `name` unless a saved deployment with code already exists,
+// which keeps every deploy script safe to re-run against the same node.
+export const deployIfMissing = async (
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  deploy: () => Promise<Contract>
+): Promise<Address> => {
+  const existing = await hre.deployments.getOrNull(name);
+  if (existing && (await hre.ethers.provider.getCode(existing.address)) !== "0x") {
+    hre.deployments.log(`Reusing ${name} at ${existing.address}`);
+    return existing.address;
+  }
+
+  const contract = await deploy();
+  await contract.deployTransaction.wait();
+
+  await hre.deployments.save(name, {
+    abi: JSON.parse(contract.interface.format(utils.FormatTypes.json) as string),
+    address: contract.address,
+    transactionHash: contract.deployTransaction.hash,
+  });
+  hre.deployments.log(`Deployed ${name} at ${contract.address}`);
+
+  return contract.address;
+};
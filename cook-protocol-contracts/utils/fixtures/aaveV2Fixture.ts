@@ -0,0 +1,129 @@
+import DeployHelper from "../deploys";
+import { Signer } from "ethers";
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { Address } from "../types";
+
+import {
+  AaveV2ATokenMock,
+  AaveV2LendingPoolMock,
+  AaveV2PriceOracleMock,
+  AaveV2ProtocolDataProviderMock,
+  AaveV2StableDebtTokenMock,
+  AaveV2VariableDebtTokenMock,
+  LendingPoolAddressesProviderMock
+} from "../contracts";
+
+import { ether } from "../common";
+
+// Id the ProtocolDataProvider is registered under on Aave's LendingPoolAddressesProvider
+const PROTOCOL_DATA_PROVIDER_ID = "0x0100000000000000000000000000000000000000000000000000000000000000";
+
+export interface AaveV2ReserveTokens {
+  aToken: AaveV2ATokenMock;
+  stableDebtToken: AaveV2StableDebtTokenMock;
+  variableDebtToken: AaveV2VariableDebtTokenMock;
+}
+
+export class AaveV2Fixture {
+  private _deployer: DeployHelper;
+  private _ownerSigner: Signer;
+
+  public lendingPoolAddressesProvider: LendingPoolAddressesProviderMock;
+  public lendingPool: AaveV2LendingPoolMock;
+  public protocolDataProvider: AaveV2ProtocolDataProviderMock;
+  public priceOracle: AaveV2PriceOracleMock;
+
+  public wethReserveTokens: AaveV2ReserveTokens;
+  public daiReserveTokens: AaveV2ReserveTokens;
+
+  constructor(provider: Web3Provider | JsonRpcProvider, ownerAddress: Address) {
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  /**
+   * Deploys the addresses provider, lending pool, protocol data provider and price oracle and creates WETH and DAI reserves.
+   * Prices are denominated in ETH; DAI defaults to 0.001 ETH (1 ETH = 1000 DAI).
+   */
+  public async initialize(
+    weth: Address,
+    dai: Address,
+    daiPriceInEth: BigNumber = ether(0.001)
+  ): Promise<void> {
+    this.lendingPoolAddressesProvider = await this._deployer.mocks.deployLendingPoolAddressesProviderMock();
+    this.lendingPool = await this._deployer.mocks.deployAaveV2LendingPoolMock(this.lendingPoolAddressesProvider.address);
+    this.protocolDataProvider = await this._deployer.mocks.deployAaveV2ProtocolDataProviderMock(this.lendingPoolAddressesProvider.address);
+    this.priceOracle = await this._deployer.mocks.deployAaveV2PriceOracleMock();
+
+    await this.lendingPoolAddressesProvider.setLendingPoolImpl(this.lendingPool.address);
+    await this.lendingPoolAddressesProvider.setPriceOracle(this.priceOracle.address);
+    await this.lendingPoolAddressesProvider.setAddress(PROTOCOL_DATA_PROVIDER_ID, this.protocolDataProvider.address);
+
+    // Mainnet Aave V2 risk parameters. WETH: 80% LTV, 82.5% liquidation threshold. DAI: 75% LTV, 80% liquidation threshold.
+    // Both have a 5% liquidation bonus.
+    this.wethReserveTokens = await this.createAndEnableReserve(weth, "WETH", 18, 8000, 8250, 10500, true, false);
+    this.daiReserveTokens = await this.createAndEnableReserve(dai, "DAI", 18, 7500, 8000, 10500, true, true);
+
+    await this.setAssetPriceInOracle(weth, ether(1));
+    await this.setAssetPriceInOracle(dai, daiPriceInEth);
+  }
+
+  /**
+   * Deploys the aToken and debt tokens for an underlying asset and registers the reserve on the lending pool. LTV, liquidation
+   * threshold and liquidation bonus are in basis points. Setting the liquidation threshold to 0 disables the reserve as collateral.
+   */
+  public async createAndEnableReserve(
+    underlying: Address,
+    underlyingSymbol: string,
+    decimals: BigNumberish,
+    ltv: BigNumberish,
+    liquidationThreshold: BigNumberish,
+    liquidationBonus: BigNumberish,
+    borrowingEnabled: boolean = true,
+    stableBorrowRateEnabled: boolean = false
+  ): Promise<AaveV2ReserveTokens> {
+    const aToken = await this._deployer.mocks.deployAaveV2ATokenMock(
+      this.lendingPool.address,
+      underlying,
+      `Aave interest bearing ${underlyingSymbol}`,
+      `a${underlyingSymbol}`,
+      decimals
+    );
+    const stableDebtToken = await this._deployer.mocks.deployAaveV2StableDebtTokenMock(
+      this.lendingPool.address,
+      underlying,
+      `Aave stable debt bearing ${underlyingSymbol}`,
+      `stableDebt${underlyingSymbol}`,
+      decimals
+    );
+    const variableDebtToken = await this._deployer.mocks.deployAaveV2VariableDebtTokenMock(
+      this.lendingPool.address,
+      underlying,
+      `Aave variable debt bearing ${underlyingSymbol}`,
+      `variableDebt${underlyingSymbol}`,
+      decimals
+    );
+
+    await this.lendingPool.initReserve(underlying, aToken.address, stableDebtToken.address, variableDebtToken.address, decimals);
+    await this.lendingPool.configureReserveAsCollateral(underlying, ltv, liquidationThreshold, liquidationBonus);
+    await this.lendingPool.setBorrowingEnabled(underlying, borrowingEnabled, stableBorrowRateEnabled);
+
+    return { aToken, stableDebtToken, variableDebtToken };
+  }
+
+  /**
+   * Sets the price of one whole unit of the asset denominated in ETH
+   */
+  public async setAssetPriceInOracle(asset: Address, priceInEth: BigNumber): Promise<void> {
+    await this.priceOracle.setAssetPrice(asset, priceInEth);
+  }
+
+  /**
+   * Simulates interest accrual by setting the liquidity index (aToken balances) and variable borrow index (variable debt
+   * balances) of a reserve. Indexes are in ray and start at 1e27.
+   */
+  public async setReserveIndexes(asset: Address, liquidityIndex: BigNumber, variableBorrowIndex: BigNumber): Promise<void> {
+    await this.lendingPool.setReserveIndexes(asset, liquidityIndex, variableBorrowIndex);
+  }
+}
@@ -0,0 +1,76 @@
+import DeployHelper from "../deploys";
+import { Signer } from "ethers";
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { BigNumber } from "@ethersproject/bignumber";
+import { Address } from "../types";
+import { Account } from "../test/types";
+
+import { AMMSplitter } from "../contracts";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { MAX_UINT_256 } from "../constants";
+import { UniswapFixture } from "./uniswapFixture";
+
+export class AMMSplitterFixture {
+  private _deployer: DeployHelper;
+  private _provider: Web3Provider | JsonRpcProvider;
+  private _ownerAddress: Address;
+  private _ownerSigner: Signer;
+
+  public owner: Account;
+  public uniswap: UniswapFixture;
+  public sushiswap: UniswapFixture;
+  public ammSplitter: AMMSplitter;
+
+  constructor(provider: Web3Provider | JsonRpcProvider, ownerAddress: Address) {
+    this._provider = provider;
+    this._ownerAddress = ownerAddress;
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  /**
+   * Deploys two independent Uniswap V2 factories and routers, the second standing in for Sushiswap, each with empty
+   * WETH/DAI and WETH/WBTC pairs, and an AMMSplitter routing between them.
+   */
+  public async initialize(_owner: Account, _weth: Address, _wbtc: Address, _dai: Address): Promise<void> {
+    this.owner = _owner;
+
+    this.uniswap = new UniswapFixture(this._provider, this._ownerAddress);
+    await this.uniswap.initialize(_owner, _weth, _wbtc, _dai);
+
+    this.sushiswap = new UniswapFixture(this._provider, this._ownerAddress);
+    await this.sushiswap.initialize(_owner, _weth, _wbtc, _dai);
+
+    this.ammSplitter = await this._deployer.product.deployAMMSplitter(
+      this.uniswap.router.address,
+      this.sushiswap.router.address,
+      this.uniswap.factory.address,
+      this.sushiswap.factory.address
+    );
+  }
+
+  /**
+   * Adds liquidity from the owner to a pair on one of the venues, creating the pair when the router has not seen it yet
+   */
+  public async addLiquidity(
+    _venue: UniswapFixture,
+    _tokenOne: Address,
+    _tokenTwo: Address,
+    _amountOne: BigNumber,
+    _amountTwo: BigNumber
+  ): Promise<void> {
+    await ERC20__factory.connect(_tokenOne, this._ownerSigner).approve(_venue.router.address, _amountOne);
+    await ERC20__factory.connect(_tokenTwo, this._ownerSigner).approve(_venue.router.address, _amountTwo);
+
+    await _venue.router.connect(this._ownerSigner).addLiquidity(
+      _tokenOne,
+      _tokenTwo,
+      _amountOne,
+      _amountTwo,
+      _amountOne,
+      _amountTwo,
+      this._ownerAddress,
+      MAX_UINT_256
+    );
+  }
+}
@@ -1,7 +1,11 @@
 export { AaveFixture } from "./aaveFixture";
+export { AaveV2Fixture, AaveV2ReserveTokens } from "./aaveV2Fixture";
+export { AMMSplitterFixture } from "./ammSplitterFixture";
 export { BalancerFixture } from "./balancerFixture";
 export { CompoundFixture } from "./compoundFixture";
 export { CurveFixture } from "./curveFixture";
-export { SystemFixture } from "./systemFixture";
+export { KyberV3DMMFixture } from "./kyberV3DMMFixture";
+export { SystemFixture, SystemFixtureOptions } from "./systemFixture";
 export { UniswapFixture } from "./uniswapFixture";
+export { UniswapV3Fixture } from "./uniswapV3Fixture";
 export { YearnFixture } from "./yearnFixture";
@@ -0,0 +1,79 @@
+import DeployHelper from "../deploys";
+import { Signer } from "ethers";
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { BigNumber } from "@ethersproject/bignumber";
+import { Address } from "../types";
+import { Account } from "../test/types";
+
+import {
+  KyberDMMFactoryMock,
+  KyberDMMPoolMock,
+  KyberDMMRouterMock
+} from "../contracts";
+import { KyberDMMPoolMock__factory } from "../../typechain/factories/KyberDMMPoolMock__factory";
+import { StandardTokenMock__factory } from "../../typechain/factories/StandardTokenMock__factory";
+
+// Amplification is in basis points, 10000 is an unamplified pool priced like Uniswap V2
+const WETH_WBTC_AMP_BPS = 15000;
+const WETH_DAI_AMP_BPS = 20000;
+
+export class KyberV3DMMFixture {
+  private _deployer: DeployHelper;
+  private _ownerSigner: Signer;
+
+  public owner: Account;
+  public dmmFactory: KyberDMMFactoryMock;
+  public dmmRouter: KyberDMMRouterMock;
+
+  public wethWbtcPool: KyberDMMPoolMock;
+  public wethDaiPool: KyberDMMPoolMock;
+
+  constructor(provider: Web3Provider | JsonRpcProvider, ownerAddress: Address) {
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  /**
+   * Deploys the DMM factory and router and creates amplified WETH/WBTC and WETH/DAI pools. Pools are created without liquidity.
+   */
+  public async initialize(_owner: Account, _weth: Address, _wbtc: Address, _dai: Address): Promise<void> {
+    this.owner = _owner;
+    this.dmmFactory = await this._deployer.mocks.deployKyberDMMFactoryMock();
+    this.dmmRouter = await this._deployer.mocks.deployKyberDMMRouterMock(this.dmmFactory.address);
+
+    this.wethWbtcPool = await this.createNewPool(_weth, _wbtc, WETH_WBTC_AMP_BPS);
+    this.wethDaiPool = await this.createNewPool(_weth, _dai, WETH_DAI_AMP_BPS);
+  }
+
+  /**
+   * Creates a pool for the pair. Any number of amplified pools can exist per pair, but only one unamplified pool (10000 bps).
+   */
+  public async createNewPool(_tokenOne: Address, _tokenTwo: Address, _ampBps: number): Promise<KyberDMMPoolMock> {
+    await this.dmmFactory.createPool(_tokenOne, _tokenTwo, _ampBps);
+
+    const pools = await this.dmmFactory.getPools(_tokenOne, _tokenTwo);
+    return this.getPool(pools[pools.length - 1]);
+  }
+
+  /**
+   * Transfers both amounts from the owner to the pool and mints the LP tokens to `_recipient`. The first deposit sets the
+   * pool's price; later deposits should match the reserve ratio, since LP tokens are minted for the smaller share.
+   */
+  public async addLiquidity(
+    _pool: KyberDMMPoolMock,
+    _tokenOne: Address,
+    _tokenTwo: Address,
+    _amountOne: BigNumber,
+    _amountTwo: BigNumber,
+    _recipient: Address
+  ): Promise<void> {
+    await StandardTokenMock__factory.connect(_tokenOne, this._ownerSigner).transfer(_pool.address, _amountOne);
+    await StandardTokenMock__factory.connect(_tokenTwo, this._ownerSigner).transfer(_pool.address, _amountTwo);
+
+    await _pool.mint(_recipient);
+  }
+
+  public getPool(_poolAddress: Address): KyberDMMPoolMock {
+    return KyberDMMPoolMock__factory.connect(_poolAddress, this._ownerSigner);
+  }
+}
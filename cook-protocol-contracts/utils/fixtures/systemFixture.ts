@@ -4,6 +4,7 @@ import { BigNumber } from "@ethersproject/bignumber";
 
 import {
   BasicIssuanceModule,
+  ChainlinkAggregatorMock,
   Controller,
   IntegrationRegistry,
   OracleMock,
@@ -30,6 +31,14 @@ import {
 
 import { CKToken__factory } from "../../typechain/factories/CKToken__factory";
 
+// Chainlink USD feeds answer with 8 decimals, the ChainlinkOracleAdapter scales them up to 18
+const CHAINLINK_DECIMALS = 8;
+
+export interface SystemFixtureOptions {
+  // Price components through ChainlinkOracleAdapters reading ChainlinkAggregatorMocks instead of OracleMocks
+  useChainlinkOracles?: boolean;
+}
+
 export class SystemFixture {
   private _provider: Web3Provider | JsonRpcProvider;
   private _ownerAddress: Address;
@@ -58,6 +67,11 @@ export class SystemFixture {
   public BTC_USD_Oracle: OracleMock;
   public DAI_USD_Oracle: OracleMock;
 
+  public ETH_USD_Aggregator: ChainlinkAggregatorMock;
+  public USD_USD_Aggregator: ChainlinkAggregatorMock;
+  public BTC_USD_Aggregator: ChainlinkAggregatorMock;
+  public DAI_USD_Aggregator: ChainlinkAggregatorMock;
+
   public component1Price: BigNumber;
   public component2Price: BigNumber;
   public component3Price: BigNumber;
@@ -70,7 +84,7 @@ export class SystemFixture {
     this._deployer = new DeployHelper(this._ownerSigner);
   }
 
-  public async initialize(): Promise<void> {
+  public async initialize(options: SystemFixtureOptions = {}): Promise<void> {
     // Choose an arbitrary address as fee recipient
     [, , , this.feeRecipient] = await this._provider.listAccounts();
 
@@ -81,6 +95,10 @@ export class SystemFixture {
 
     this.integrationRegistry = await this._deployer.core.deployIntegrationRegistry(this.controller.address);
 
+    const oracles = options.useChainlinkOracles
+      ? await this.initializeChainlinkOracles()
+      : [this.ETH_USD_Oracle.address, this.USD_USD_Oracle.address, this.BTC_USD_Oracle.address, this.DAI_USD_Oracle.address];
+
     this.factory = await this._deployer.core.deployCKTokenCreator(this.controller.address);
     this.priceOracle = await this._deployer.core.deployPriceOracle(
       this.controller.address,
@@ -88,12 +106,7 @@ export class SystemFixture {
       [],
       [this.weth.address, this.usdc.address, this.wbtc.address, this.dai.address],
       [this.usdc.address, this.usdc.address, this.usdc.address, this.usdc.address],
-      [
-        this.ETH_USD_Oracle.address,
-        this.USD_USD_Oracle.address,
-        this.BTC_USD_Oracle.address,
-        this.DAI_USD_Oracle.address,
-      ]
+      oracles
     );
 
     this.integrationRegistry = await this._deployer.core.deployIntegrationRegistry(this.controller.address);
@@ -132,6 +145,51 @@ export class SystemFixture {
     await this.dai.approve(this.issuanceModule.address, ether(10000));
   }
 
+  /**
+   * Deploys an 8 decimal aggregator per component answering the standard component prices and wraps each in a
+   * ChainlinkOracleAdapter. Returns the adapter addresses in WETH, USDC, WBTC, DAI order.
+   */
+  public async initializeChainlinkOracles(): Promise<Address[]> {
+    this.ETH_USD_Aggregator = await this.deployChainlinkAggregator(this.component1Price, "ETH / USD");
+    this.USD_USD_Aggregator = await this.deployChainlinkAggregator(this.component2Price, "USD / USD");
+    this.BTC_USD_Aggregator = await this.deployChainlinkAggregator(this.component3Price, "BTC / USD");
+    this.DAI_USD_Aggregator = await this.deployChainlinkAggregator(this.component4Price, "DAI / USD");
+
+    const aggregators = [this.ETH_USD_Aggregator, this.USD_USD_Aggregator, this.BTC_USD_Aggregator, this.DAI_USD_Aggregator];
+    const adapters: Address[] = [];
+    for (let i = 0; i < aggregators.length; i++) {
+      const adapter = await this._deployer.oracles.deployChainlinkOracleAdapter(aggregators[i].address, 18 - CHAINLINK_DECIMALS);
+      adapters.push(adapter.address);
+    }
+
+    return adapters;
+  }
+
+  /**
+   * Deploys an aggregator answering `price`, an 18 decimal precise unit, scaled down to the aggregator's decimals
+   */
+  public async deployChainlinkAggregator(
+    price: BigNumber,
+    description: string,
+    decimals: number = CHAINLINK_DECIMALS
+  ): Promise<ChainlinkAggregatorMock> {
+    return await this._deployer.mocks.deployChainlinkAggregatorMock(this.toChainlinkAnswer(price, decimals), decimals, description);
+  }
+
+  /**
+   * Opens a new round on the aggregator answering `price`, an 18 decimal precise unit
+   */
+  public async updateChainlinkPrice(aggregator: ChainlinkAggregatorMock, price: BigNumber): Promise<ContractTransaction> {
+    const decimals = await aggregator.decimals();
+    return await aggregator.updateAnswer(this.toChainlinkAnswer(price, decimals));
+  }
+
+  public toChainlinkAnswer(price: BigNumber, decimals: number): BigNumber {
+    return decimals > 18
+      ? price.mul(BigNumber.from(10).pow(decimals - 18))
+      : price.div(BigNumber.from(10).pow(18 - decimals));
+  }
+
   public async createCKToken(
     components: Address[],
     units: BigNumber[],
@@ -0,0 +1,151 @@
+import DeployHelper from "../deploys";
+import { Signer } from "ethers";
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { BigNumber } from "@ethersproject/bignumber";
+import { parseEther } from "ethers/lib/utils";
+import { Address } from "../types";
+import { Account } from "../test/types";
+
+import {
+  UniswapV3Factory,
+  UniswapV3NonfungiblePositionManager,
+  UniswapV3Pool,
+  UniswapV3Quoter,
+  UniswapV3SwapRouter
+} from "../contracts/uniswapV3";
+import { IUniswapV3Pool__factory } from "../../typechain/factories/IUniswapV3Pool__factory";
+import { StandardTokenMock__factory } from "../../typechain/factories/StandardTokenMock__factory";
+import { ether } from "../index";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "../constants";
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+const Q192 = BigNumber.from(2).pow(192);
+
+export class UniswapV3Fixture {
+  private _deployer: DeployHelper;
+  private _ownerSigner: Signer;
+
+  public owner: Account;
+  public factory: UniswapV3Factory;
+  public swapRouter: UniswapV3SwapRouter;
+  public nftPositionManager: UniswapV3NonfungiblePositionManager;
+  public quoter: UniswapV3Quoter;
+
+  public wethWbtcPool: UniswapV3Pool;
+  public wethDaiPool: UniswapV3Pool;
+
+  constructor(provider: Web3Provider | JsonRpcProvider, ownerAddress: Address) {
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  /**
+   * Deploys the factory, SwapRouter, NonfungiblePositionManager and Quoter and creates 0.3% WETH/WBTC and WETH/DAI
+   * pools priced from the USD prices passed in. Pools are created without liquidity.
+   */
+  public async initialize(
+    _owner: Account,
+    _weth: Address,
+    _wethPrice: number,
+    _wbtc: Address,
+    _wbtcPrice: number,
+    _dai: Address
+  ): Promise<void> {
+    this.owner = _owner;
+    this.factory = await this._deployer.external.deployUniswapV3Factory();
+    this.swapRouter = await this._deployer.external.deployUniswapV3SwapRouter(this.factory.address, _weth);
+    this.nftPositionManager = await this._deployer.external.deployUniswapV3NonfungiblePositionManager(
+      this.factory.address,
+      _weth,
+      ADDRESS_ZERO
+    );
+    this.quoter = await this._deployer.external.deployUniswapV3Quoter(this.factory.address, _weth);
+
+    this.wethWbtcPool = await this.createNewPair(_weth, _wbtc, 3000, _wethPrice / _wbtcPrice);
+    this.wethDaiPool = await this.createNewPair(_weth, _dai, 3000, _wethPrice);
+  }
+
+  /**
+   * Creates and initializes a pool. `_price` is the number of whole `_tokenTwo` one whole `_tokenOne` is worth.
+   */
+  public async createNewPair(_tokenOne: Address, _tokenTwo: Address, _fee: number, _price: number): Promise<UniswapV3Pool> {
+    const [token0, token1] = this.getTokenOrder(_tokenOne, _tokenTwo);
+    const sqrtPriceX96 = await this.getSqrtPriceX96(_tokenOne, _tokenTwo, _price);
+
+    await this.nftPositionManager.createAndInitializePoolIfNecessary(token0, token1, _fee, sqrtPriceX96);
+
+    return this.getPool(_tokenOne, _tokenTwo, _fee);
+  }
+
+  /**
+   * Mints a full range position from the owner's balances. The position manager only pulls the amounts that match the
+   * pool's current price, so one of the amounts may be partially left over.
+   */
+  public async addLiquidityWide(
+    _tokenOne: Address,
+    _tokenTwo: Address,
+    _fee: number,
+    _amountOne: BigNumber,
+    _amountTwo: BigNumber,
+    _recipient: Address
+  ): Promise<void> {
+    const tickSpacing = await this.factory.feeAmountTickSpacing(_fee);
+    const isOrdered = _tokenOne.toLowerCase() < _tokenTwo.toLowerCase();
+
+    await StandardTokenMock__factory.connect(_tokenOne, this._ownerSigner).approve(this.nftPositionManager.address, _amountOne);
+    await StandardTokenMock__factory.connect(_tokenTwo, this._ownerSigner).approve(this.nftPositionManager.address, _amountTwo);
+
+    await this.nftPositionManager.mint({
+      token0: isOrdered ? _tokenOne : _tokenTwo,
+      token1: isOrdered ? _tokenTwo : _tokenOne,
+      fee: _fee,
+      tickLower: Math.ceil(MIN_TICK / tickSpacing) * tickSpacing,
+      tickUpper: Math.floor(MAX_TICK / tickSpacing) * tickSpacing,
+      amount0Desired: isOrdered ? _amountOne : _amountTwo,
+      amount1Desired: isOrdered ? _amountTwo : _amountOne,
+      amount0Min: ZERO,
+      amount1Min: ZERO,
+      recipient: _recipient,
+      deadline: MAX_UINT_256,
+    });
+  }
+
+  public async getPool(_tokenOne: Address, _tokenTwo: Address, _fee: number): Promise<UniswapV3Pool> {
+    const poolAddress = await this.factory.getPool(_tokenOne, _tokenTwo, _fee);
+    return IUniswapV3Pool__factory.connect(poolAddress, this._ownerSigner);
+  }
+
+  /**
+   * Returns the pool's sqrt(token1 / token0) price in Q64.96 for a price of `_price` whole `_tokenTwo` per `_tokenOne`,
+   * accounting for the tokens' decimals and sort order.
+   */
+  public async getSqrtPriceX96(_tokenOne: Address, _tokenTwo: Address, _price: number): Promise<BigNumber> {
+    const decimalsOne = await StandardTokenMock__factory.connect(_tokenOne, this._ownerSigner).decimals();
+    const decimalsTwo = await StandardTokenMock__factory.connect(_tokenTwo, this._ownerSigner).decimals();
+
+    const amountTwo = parseEther(_price.toFixed(18)).mul(BigNumber.from(10).pow(decimalsTwo));
+    const amountOne = ether(1).mul(BigNumber.from(10).pow(decimalsOne));
+    const [amount0, amount1] = _tokenOne.toLowerCase() < _tokenTwo.toLowerCase() ? [amountOne, amountTwo] : [amountTwo, amountOne];
+
+    return this._sqrt(amount1.mul(Q192).div(amount0));
+  }
+
+  public getTokenOrder(_tokenOne: Address, _tokenTwo: Address): [Address, Address] {
+    return _tokenOne.toLowerCase() < _tokenTwo.toLowerCase() ? [_tokenOne, _tokenTwo] : [_tokenTwo, _tokenOne];
+  }
+
+  private _sqrt(_value: BigNumber): BigNumber {
+    if (_value.lt(2)) {
+      return _value;
+    }
+
+    let z = _value;
+    let x = _value.div(2).add(1);
+    while (x.lt(z)) {
+      z = x;
+      x = _value.div(x).add(x).div(2);
+    }
+    return z;
+  }
+}
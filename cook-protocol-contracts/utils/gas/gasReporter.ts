@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import { ContractReceipt, ContractTransaction } from "ethers";
+
+// Kept free of typechain imports so the gas:report task can compare reports before contracts are compiled
+
+export interface GasReport {
+  measurements: { [benchmark: string]: number };   // Benchmark name => gas used by its transaction
+}
+
+export type GasComparisonStatus = "regression" | "improvement" | "unchanged" | "new" | "removed";
+
+export interface GasComparison {
+  benchmark: string;
+  baseline?: number;                      // Missing for benchmarks added since the baseline
+  current?: number;                       // Missing for benchmarks removed since the baseline
+  difference?: number;
+  percentChange?: number;
+  status: GasComparisonStatus;
+}
+
+/**
+ * Collects the gas used by benchmark transactions. Gas is read from the receipts, so it is the real execution cost
+ * whatever gas limit the ABIs pin for the transaction.
+ */
+export class GasRecorder {
+  private _measurements: { [benchmark: string]: number } = {};
+
+  public async measure(benchmark: string, transaction: ContractTransaction | Promise<ContractTransaction>): Promise<ContractReceipt> {
+    const receipt = await (await transaction).wait();
+    this.record(benchmark, receipt.gasUsed.toNumber());
+    return receipt;
+  }
+
+  public record(benchmark: string, gasUsed: number): void {
+    if (this._measurements[benchmark] !== undefined) {
+      throw new Error(`Gas benchmark "${benchmark}" was already recorded`);
+    }
+    this._measurements[benchmark] = gasUsed;
+  }
+
+  public getReport(): GasReport {
+    return { measurements: { ...this._measurements } };
+  }
+}
+
+/**
+ * Compares every benchmark in either report. A benchmark regresses when it uses more than `thresholdPercent` percent
+ * more gas than the baseline and improves when it uses more than `thresholdPercent` percent less.
+ */
+export function compareGasReports(current: GasReport, baseline: GasReport, thresholdPercent: number): GasComparison[] {
+  const benchmarks = Object.keys(current.measurements);
+  Object.keys(baseline.measurements).forEach(benchmark => {
+    if (benchmarks.indexOf(benchmark) === -1) {
+      benchmarks.push(benchmark);
+    }
+  });
+
+  return benchmarks.sort().map(benchmark => {
+    const currentGas = current.measurements[benchmark];
+    const baselineGas = baseline.measurements[benchmark];
+
+    if (baselineGas === undefined) {
+      return { benchmark, current: currentGas, status: "new" } as GasComparison;
+    }
+    if (currentGas === undefined) {
+      return { benchmark, baseline: baselineGas, status: "removed" } as GasComparison;
+    }
+
+    const difference = currentGas - baselineGas;
+    const percentChange = baselineGas === 0 ? 0 : difference / baselineGas * 100;
+
+    let status: GasComparisonStatus = "unchanged";
+    if (percentChange > thresholdPercent) {
+      status = "regression";
+    } else if (percentChange < -thresholdPercent) {
+      status = "improvement";
+    }
+
+    return { benchmark, baseline: baselineGas, current: currentGas, difference, percentChange, status };
+  });
+}
+
+export function getGasRegressions(comparisons: GasComparison[]): GasComparison[] {
+  return comparisons.filter(comparison => comparison.status === "regression");
+}
+
+// Benchmarks the baseline has no entry for, which can never be reported as a regression
+export function getUnbaselinedBenchmarks(comparisons: GasComparison[]): GasComparison[] {
+  return comparisons.filter(comparison => comparison.status === "new");
+}
+
+/**
+ * Renders the comparison as a markdown table, or the plain measurements when there is no baseline to compare with
+ */
+export function formatGasReportMarkdown(report: GasReport, comparisons?: GasComparison[], thresholdPercent?: number): string {
+  if (comparisons === undefined) {
+    const rows = Object.keys(report.measurements).sort().map(benchmark => {
+      return `| ${benchmark} | ${formatGas(report.measurements[benchmark])} |`;
+    });
+
+    return ["# Gas report", "", "| Benchmark | Gas used |", "| --- | ---: |", ...rows, ""].join("\n");
+  }
+
+  const rows = comparisons.map(comparison => {
+    const change = comparison.difference === undefined
+      ? "-"
+      : `${formatSigned(comparison.difference, formatGas)} (${formatSigned(comparison.percentChange!, formatPercent)})`;
+
+    return `| ${comparison.benchmark} | ${formatOptionalGas(comparison.baseline)} | ${formatOptionalGas(comparison.current)} | ` +
+      `${change} | ${comparison.status} |`;
+  });
+
+  const regressionCount = getGasRegressions(comparisons).length;
+  const summary = regressionCount === 0
+    ? `No benchmark uses more than ${thresholdPercent}% more gas than the baseline.`
+    : `${regressionCount} benchmark(s) use more than ${thresholdPercent}% more gas than the baseline.`;
+
+  return [
+    "# Gas report",
+    "",
+    summary,
+    "",
+    "| Benchmark | Baseline | Current | Change | Status |",
+    "| --- | ---: | ---: | ---: | --- |",
+    ...rows,
+    "",
+  ].join("\n");
+}
+
+export const readGasReport = (reportPath: string): GasReport | undefined => {
+  if (!fs.existsSync(reportPath)) {
+    return undefined;
+  }
+
+  return JSON.parse(fs.readFileSync(reportPath, "utf8")) as GasReport;
+};
+
+export const writeGasReport = (report: GasReport, reportPath: string): string => {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, undefined, 2) + "\n");
+
+  return reportPath;
+};
+
+function formatGas(gas: number): string {
+  return gas.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+function formatOptionalGas(gas?: number): string {
+  return gas === undefined ? "-" : formatGas(gas);
+}
+
+function formatPercent(percent: number): string {
+  return `${percent.toFixed(2)}%`;
+}
+
+function formatSigned(value: number, format: (value: number) => string): string {
+  return value < 0 ? `-${format(-value)}` : `+${format(value)}`;
+}
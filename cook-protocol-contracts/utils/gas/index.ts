@@ -0,0 +1,12 @@
+export {
+  compareGasReports,
+  formatGasReportMarkdown,
+  GasComparison,
+  GasComparisonStatus,
+  GasRecorder,
+  GasReport,
+  getGasRegressions,
+  getUnbaselinedBenchmarks,
+  readGasReport,
+  writeGasReport,
+} from "./gasReporter";
@@ -1,15 +1,41 @@
 export {
   addressToData,
+  AMMHopBalances,
+  AMMRouteComparison,
+  AMMSplitPools,
+  AMMSplitQuote,
+  AMMSplitQuoter,
+  AMMSplitTradeSizes,
+  AMMVenue,
+  AMMVenueQuote,
   bigNumberToData,
   bitcoin,
+  calculateDefaultEditPositionUnit,
   calculateEngageQuantities,
+  calculateIndexComposition,
   calculateLPTokensIssued,
   calculateRebalanceFlows,
   calculateRebalanceQuantity,
   calculateTokensInReserve,
+  calculateTwoHopRatio,
+  compareSplitRoutes,
+  conservativePreciseDiv,
+  conservativePreciseMul,
+  convertRealToVirtualUnit,
+  convertVirtualToRealUnit,
+  divCeil,
   divDown,
   ether,
+  FeeAccrual,
+  FeePeriodSummary,
+  FeeProjection,
+  getAccrualSchedule,
+  getAMMSplitPools,
+  getDefaultPositionUnit,
+  getDefaultTotalNotional,
   getExpectedIssuePositionMultiplier,
+  getIndexComposition,
+  getMinReceiveQuantity,
   getExpectedIssuePositionUnit,
   getExpectedPostFeeQuantity,
   getPostFeePositionUnits,
@@ -17,17 +43,46 @@ export {
   getExpectedReserveRedeemQuantity,
   getExpectedRedeemPositionMultiplier,
   getExpectedRedeemPositionUnit,
+  getNavIssuanceSnapshot,
   getReservesSafe,
+  getSplitTradeSizes,
   getStreamingFee,
   getStreamingFeeInflationAmount,
+  getStreamingFeeProjectionSettings,
+  getUniswapV2AmountsIn,
+  getUniswapV2AmountsOut,
+  groupFeesByPeriod,
   gWei,
   hashAdapterName,
+  IndexComposition,
+  IndexCompositionOptions,
+  IndexWeight,
+  IssuanceComponentQuote,
+  IssuanceComponentRoute,
+  IssuanceQuote,
+  IssuanceQuoteOptions,
+  IssuanceQuoter,
   min,
+  NavAssetInfo,
+  NavIssuanceFees,
+  NavIssuanceResult,
+  NavIssuanceSimulator,
+  NavIssuanceSimulatorSettings,
+  NavIssuanceSnapshot,
+  NavPositionSnapshot,
+  NavProtocolFees,
   preciseDiv,
   preciseDivCeil,
   preciseMul,
   preciseMulCeil,
   preciseMulCeilInt,
   preciseDivCeilInt,
+  projectStreamingFees,
+  quoteSplit,
+  quoteVenue,
+  RedemptionComponentQuote,
+  RedemptionQuote,
+  StreamingFeeProjectionSettings,
   usdc,
+  validateIndexValuation,
 } from "./common";
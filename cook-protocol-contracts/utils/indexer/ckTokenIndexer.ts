@@ -0,0 +1,319 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Log, Provider } from "@ethersproject/providers";
+import { utils } from "ethers";
+
+import { Address } from "../types";
+import { ADDRESS_ZERO, PRECISE_UNIT } from "../constants";
+import { conservativePreciseDiv, conservativePreciseMul, divCeil } from "../common/mathUtils";
+import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
+import { CKToken__factory } from "../../typechain/factories/CKToken__factory";
+import { CKTokenCreator__factory } from "../../typechain/factories/CKTokenCreator__factory";
+import { DebtIssuanceModule__factory } from "../../typechain/factories/DebtIssuanceModule__factory";
+import { GeneralIndexModule__factory } from "../../typechain/factories/GeneralIndexModule__factory";
+import { NavIssuanceModule__factory } from "../../typechain/factories/NavIssuanceModule__factory";
+import { StreamingFeeModule__factory } from "../../typechain/factories/StreamingFeeModule__factory";
+import {
+  IndexedEvent,
+  IndexedPosition,
+  IndexerState,
+  JsonPositionStore,
+  PositionSnapshot
+} from "./positionStore";
+
+interface DecodableEvent {
+  iface: utils.Interface;
+  fragment: utils.EventFragment;
+}
+
+export interface IndexOptions {
+  fromBlock?: number;                 // First block to index. Defaults to the CKToken's creation block
+  toBlock?: number;                   // Defaults to the latest block
+  batchSize?: number;                 // Blocks per eth_getLogs request
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+// Module events that carry the CKToken as their first indexed argument
+const MODULE_EVENTS: { iface: utils.Interface; names: string[] }[] = [
+  { iface: new BasicIssuanceModule__factory().interface, names: ["CKTokenIssued", "CKTokenRedeemed"] },
+  { iface: new DebtIssuanceModule__factory().interface, names: ["CKTokenIssued", "CKTokenRedeemed"] },
+  { iface: new NavIssuanceModule__factory().interface, names: ["CKTokenNAVIssued", "CKTokenNAVRedeemed"] },
+  { iface: new StreamingFeeModule__factory().interface, names: ["FeeActualized"] },
+  { iface: new GeneralIndexModule__factory().interface, names: ["TradeExecuted"] },
+];
+
+const CK_TOKEN_INTERFACE = new CKToken__factory().interface;
+
+/**
+ * Rebuilds a CKToken's position history from its logs. The CKToken's own events are replayed against the same virtual
+ * unit bookkeeping the contract keeps, producing one snapshot per block that changed positions, the multiplier or the
+ * supply. Module issuance, fee and rebalance trade events are stored alongside. Indexing resumes from the store's last
+ * indexed block.
+ */
+export class CKTokenIndexer {
+  private _provider: Provider;
+  private _store: JsonPositionStore;
+  private _moduleEvents: { [topic: string]: DecodableEvent } = {};
+
+  constructor(provider: Provider, store: JsonPositionStore) {
+    this._provider = provider;
+    this._store = store;
+
+    MODULE_EVENTS.forEach(({ iface, names }) => {
+      names.forEach(name => {
+        const fragment = iface.getEvent(name);
+        this._moduleEvents[iface.getEventTopic(fragment)] = { iface, fragment };
+      });
+    });
+  }
+
+  public async index(ckTokenAddress: Address, options: IndexOptions = {}): Promise<number> {
+    // getBlockNumber never goes below a block number the provider has seen, which outlives an evm_revert
+    const toBlock = options.toBlock !== undefined ? options.toBlock : (await this._provider.getBlock("latest")).number;
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+
+    let state = this._store.getState(ckTokenAddress);
+    const lastIndexedBlock = this._store.getLastIndexedBlock(ckTokenAddress);
+
+    let fromBlock: number;
+    if (state && lastIndexedBlock !== undefined) {
+      fromBlock = lastIndexedBlock + 1;
+    } else {
+      // Positions set in the constructor emit no events, so the first snapshot is read from the chain
+      const startBlock = options.fromBlock !== undefined ? options.fromBlock : await this._getCreationBlock(ckTokenAddress);
+      state = await this._readState(ckTokenAddress, startBlock);
+      this._store.appendBlocks(ckTokenAddress, startBlock, state, [await this._toSnapshot(state, startBlock)], []);
+      fromBlock = startBlock + 1;
+    }
+
+    for (let batchStart = fromBlock; batchStart <= toBlock; batchStart += batchSize) {
+      const batchEnd = Math.min(batchStart + batchSize - 1, toBlock);
+      const logs = await this._getLogs(ckTokenAddress, batchStart, batchEnd);
+
+      const snapshots: PositionSnapshot[] = [];
+      const events: IndexedEvent[] = [];
+
+      let i = 0;
+      while (i < logs.length) {
+        const blockNumber = logs[i].blockNumber;
+        let isStateChanged = false;
+
+        for (; i < logs.length && logs[i].blockNumber === blockNumber; i++) {
+          const event = this._decode(ckTokenAddress, logs[i]);
+          if (!event) {
+            continue;
+          }
+
+          events.push(event);
+          if (event.address.toLowerCase() === ckTokenAddress.toLowerCase()) {
+            isStateChanged = this._applyEvent(state, event) || isStateChanged;
+          }
+        }
+
+        if (isStateChanged) {
+          snapshots.push(await this._toSnapshot(state, blockNumber));
+        }
+      }
+
+      this._store.appendBlocks(ckTokenAddress, batchEnd, state, snapshots, events);
+    }
+
+    this._store.save();
+
+    return toBlock;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async _getCreationBlock(ckTokenAddress: Address): Promise<number> {
+    const creatorInterface = new CKTokenCreator__factory().interface;
+    const logs = await this._provider.getLogs({
+      fromBlock: 0,
+      toBlock: "latest",
+      topics: [creatorInterface.getEventTopic("CKTokenCreated"), utils.hexZeroPad(ckTokenAddress, 32)],
+    });
+
+    if (logs.length === 0) {
+      throw new Error(`No CKTokenCreated event found for ${ckTokenAddress}, pass fromBlock to index it`);
+    }
+
+    return logs[0].blockNumber;
+  }
+
+  // CKToken only exposes real units, so virtual units are recovered as the smallest virtual unit that converts back to
+  // the real unit. This is exact at creation (multiplier of 1) and for the reconstruction of real units from then on.
+  private async _readState(ckTokenAddress: Address, blockNumber: number): Promise<IndexerState> {
+    const ckToken = CKToken__factory.connect(ckTokenAddress, this._provider);
+    const overrides = { blockTag: blockNumber };
+
+    const positionMultiplier = await ckToken.positionMultiplier(overrides);
+    const toVirtualUnit = (realUnit: BigNumber) => divCeil(realUnit.mul(PRECISE_UNIT), positionMultiplier);
+
+    const state: IndexerState = {
+      positionMultiplier,
+      totalSupply: await ckToken.totalSupply(overrides),
+      components: await ckToken.getComponents(overrides),
+      virtualUnits: {},
+      externalModules: {},
+      externalVirtualUnits: {},
+    };
+
+    for (let i = 0; i < state.components.length; i++) {
+      const component = state.components[i];
+      state.virtualUnits[component] = toVirtualUnit(await ckToken.getDefaultPositionRealUnit(component, overrides));
+      state.externalModules[component] = await ckToken.getExternalPositionModules(component, overrides);
+      state.externalVirtualUnits[component] = {};
+
+      for (let j = 0; j < state.externalModules[component].length; j++) {
+        const module = state.externalModules[component][j];
+        state.externalVirtualUnits[component][module] = toVirtualUnit(
+          await ckToken.getExternalPositionRealUnit(component, module, overrides)
+        );
+      }
+    }
+
+    return state;
+  }
+
+  private async _getLogs(ckTokenAddress: Address, fromBlock: number, toBlock: number): Promise<Log[]> {
+    const ckTokenLogs = await this._provider.getLogs({ address: ckTokenAddress, fromBlock, toBlock });
+    const moduleLogs = await this._provider.getLogs({
+      fromBlock,
+      toBlock,
+      topics: [Object.keys(this._moduleEvents), utils.hexZeroPad(ckTokenAddress, 32)],
+    });
+
+    return ckTokenLogs.concat(moduleLogs).sort((a, b) =>
+      a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.logIndex - b.logIndex
+    );
+  }
+
+  private _decode(ckTokenAddress: Address, log: Log): IndexedEvent | undefined {
+    let parsed: utils.LogDescription;
+
+    if (log.address.toLowerCase() === ckTokenAddress.toLowerCase()) {
+      try {
+        parsed = CK_TOKEN_INTERFACE.parseLog(log);
+      } catch (error) {
+        return undefined;
+      }
+    } else {
+      const decodable = this._moduleEvents[log.topics[0]];
+      if (!decodable) {
+        return undefined;
+      }
+      parsed = decodable.iface.parseLog(log);
+    }
+
+    const args: { [name: string]: string } = {};
+    parsed.eventFragment.inputs.forEach((input, index) => {
+      args[input.name] = parsed.args[index].toString();
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+      address: log.address,
+      name: parsed.name,
+      args,
+    };
+  }
+
+  // Mirrors the CKToken storage updates behind each event. Returns whether positions, multiplier or supply changed.
+  private _applyEvent(state: IndexerState, event: IndexedEvent): boolean {
+    const { args } = event;
+
+    switch (event.name) {
+      case "PositionMultiplierEdited":
+        state.positionMultiplier = BigNumber.from(args._newMultiplier);
+        return true;
+      case "ComponentAdded":
+        state.components.push(args._component);
+        state.virtualUnits[args._component] = state.virtualUnits[args._component] || BigNumber.from(0);
+        state.externalModules[args._component] = state.externalModules[args._component] || [];
+        state.externalVirtualUnits[args._component] = state.externalVirtualUnits[args._component] || {};
+        return true;
+      case "ComponentRemoved":
+        removeStorage(state.components, args._component);
+        return true;
+      case "DefaultPositionUnitEdited":
+        state.virtualUnits[args._component] = conservativePreciseDiv(BigNumber.from(args._realUnit), state.positionMultiplier);
+        return true;
+      case "PositionModuleAdded":
+        state.externalModules[args._component] = (state.externalModules[args._component] || []).concat(args._positionModule);
+        state.externalVirtualUnits[args._component] = state.externalVirtualUnits[args._component] || {};
+        return true;
+      case "PositionModuleRemoved":
+        removeStorage(state.externalModules[args._component], args._positionModule);
+        delete state.externalVirtualUnits[args._component][args._positionModule];
+        return true;
+      case "ExternalPositionUnitEdited":
+        state.externalVirtualUnits[args._component][args._positionModule] = conservativePreciseDiv(
+          BigNumber.from(args._realUnit),
+          state.positionMultiplier
+        );
+        return true;
+      case "Transfer":
+        if (args.from === ADDRESS_ZERO) {
+          state.totalSupply = state.totalSupply.add(args.value);
+          return true;
+        }
+        if (args.to === ADDRESS_ZERO) {
+          state.totalSupply = state.totalSupply.sub(args.value);
+          return true;
+        }
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  private async _toSnapshot(state: IndexerState, blockNumber: number): Promise<PositionSnapshot> {
+    const block = await this._provider.getBlock(blockNumber);
+    const positions: IndexedPosition[] = [];
+
+    // Same ordering as CKToken.getPositions: per component the default position, then its external positions
+    state.components.forEach(component => {
+      const virtualUnit = state.virtualUnits[component];
+      if (virtualUnit.gt(0)) {
+        positions.push({
+          component,
+          module: ADDRESS_ZERO,
+          realUnit: conservativePreciseMul(virtualUnit, state.positionMultiplier),
+          virtualUnit,
+        });
+      }
+
+      state.externalModules[component].forEach(module => {
+        const externalVirtualUnit = state.externalVirtualUnits[component][module];
+        positions.push({
+          component,
+          module,
+          realUnit: conservativePreciseMul(externalVirtualUnit, state.positionMultiplier),
+          virtualUnit: externalVirtualUnit,
+        });
+      });
+    });
+
+    return {
+      blockNumber,
+      timestamp: block.timestamp,
+      positionMultiplier: state.positionMultiplier,
+      totalSupply: state.totalSupply,
+      components: state.components.slice(),
+      positions,
+    };
+  }
+}
+
+// Mirrors AddressArrayUtils.removeStorage: the last element takes the removed element's place
+const removeStorage = (addresses: Address[], address: Address): void => {
+  const index = addresses.map(a => a.toLowerCase()).indexOf(address.toLowerCase());
+  if (index === -1) {
+    return;
+  }
+
+  addresses[index] = addresses[addresses.length - 1];
+  addresses.pop();
+};
@@ -0,0 +1,9 @@
+export { CKTokenIndexer, IndexOptions } from "./ckTokenIndexer";
+export {
+  EventFilter,
+  IndexedEvent,
+  IndexedPosition,
+  IndexerState,
+  JsonPositionStore,
+  PositionSnapshot
+} from "./positionStore";
@@ -0,0 +1,233 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "../types";
+import { ADDRESS_ZERO } from "../constants";
+
+export interface IndexedPosition {
+  component: Address;
+  module: Address;                    // Zero address for default positions
+  realUnit: BigNumber;
+  virtualUnit: BigNumber;
+}
+
+export interface PositionSnapshot {
+  blockNumber: number;
+  timestamp: number;
+  positionMultiplier: BigNumber;
+  totalSupply: BigNumber;
+  components: Address[];
+  positions: IndexedPosition[];
+}
+
+export interface IndexedEvent {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  address: Address;
+  name: string;
+  args: { [name: string]: string };   // Event arguments by name, numbers as decimal strings
+}
+
+export interface EventFilter {
+  name?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+// Virtual units are what the CKToken stores. Replaying against them keeps real units exact across multiplier edits.
+export interface IndexerState {
+  positionMultiplier: BigNumber;
+  totalSupply: BigNumber;
+  components: Address[];
+  virtualUnits: { [component: string]: BigNumber };
+  externalModules: { [component: string]: Address[] };
+  externalVirtualUnits: { [component: string]: { [module: string]: BigNumber } };
+}
+
+// BigNumbers as they are written to the store file
+interface SerializedBigNumber {
+  bn: string;                         // Decimal string
+}
+
+// Mapped types keep arrays as arrays, so this covers the BigNumbers nested in arrays and records as well
+type Serialized<T> = T extends BigNumber
+  ? SerializedBigNumber
+  : T extends object ? { [K in keyof T]: Serialized<T[K]> } : T;
+
+interface SerializedCKTokenRecord {
+  lastIndexedBlock: number;
+  state: Serialized<IndexerState>;
+  timeline: Serialized<PositionSnapshot>[];
+  events: IndexedEvent[];
+}
+
+interface SerializedStore {
+  version: number;
+  ckTokens: { [ckToken: string]: SerializedCKTokenRecord };
+}
+
+const STORE_VERSION = 1;
+
+/**
+ * JSON backed store of indexed CKToken position timelines. Without a file path the store only lives in memory.
+ * BigNumbers are kept as { "bn": <decimal string> } objects so the file can be inspected and diffed by hand.
+ */
+export class JsonPositionStore {
+  private _filePath: string | undefined;
+  private _data: SerializedStore;
+
+  constructor(filePath?: string) {
+    this._filePath = filePath;
+    this._data = filePath && fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, "utf8")) as SerializedStore
+      : { version: STORE_VERSION, ckTokens: {} };
+
+    if (this._data.version !== STORE_VERSION) {
+      throw new Error(`Unsupported position store version ${this._data.version}`);
+    }
+  }
+
+  public save(): void {
+    if (!this._filePath) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this._filePath), { recursive: true });
+    fs.writeFileSync(this._filePath, JSON.stringify(this._data, undefined, 2));
+  }
+
+  public getLastIndexedBlock(ckToken: Address): number | undefined {
+    const record = this._getRecord(ckToken);
+    return record ? record.lastIndexedBlock : undefined;
+  }
+
+  public getState(ckToken: Address): IndexerState | undefined {
+    const record = this._getRecord(ckToken);
+    return record ? deserialize<IndexerState>(record.state) : undefined;
+  }
+
+  /* ============ Writes ============ */
+
+  public appendBlocks(
+    ckToken: Address,
+    lastIndexedBlock: number,
+    state: IndexerState,
+    snapshots: PositionSnapshot[],
+    events: IndexedEvent[]
+  ): void {
+    const record = this._getRecord(ckToken);
+
+    this._data.ckTokens[ckToken.toLowerCase()] = {
+      lastIndexedBlock,
+      state: serialize(state),
+      timeline: (record ? record.timeline : []).concat(snapshots.map(snapshot => serialize(snapshot))),
+      events: (record ? record.events : []).concat(events),
+    };
+  }
+
+  /* ============ Queries ============ */
+
+  public getIndexedCKTokens(): Address[] {
+    return Object.keys(this._data.ckTokens);
+  }
+
+  public getTimeline(ckToken: Address, fromBlock: number = 0, toBlock: number = Infinity): PositionSnapshot[] {
+    const record = this._getRecord(ckToken);
+    if (!record) {
+      return [];
+    }
+
+    return record.timeline
+      .filter(snapshot => snapshot.blockNumber >= fromBlock && snapshot.blockNumber <= toBlock)
+      .map(snapshot => deserialize<PositionSnapshot>(snapshot));
+  }
+
+  // Returns the positions as they stood at the end of the block, i.e. the latest snapshot at or before it
+  public getPositionsAt(ckToken: Address, blockNumber: number): PositionSnapshot | undefined {
+    const timeline = this.getTimeline(ckToken, 0, blockNumber);
+    return timeline.length > 0 ? timeline[timeline.length - 1] : undefined;
+  }
+
+  public getLatestPositions(ckToken: Address): PositionSnapshot | undefined {
+    return this.getPositionsAt(ckToken, Infinity);
+  }
+
+  // Default position real unit of the component at every snapshot where it changed
+  public getComponentHistory(ckToken: Address, component: Address): { blockNumber: number; realUnit: BigNumber }[] {
+    const history: { blockNumber: number; realUnit: BigNumber }[] = [];
+
+    this.getTimeline(ckToken).forEach(snapshot => {
+      const position = snapshot.positions.filter(p =>
+        p.component.toLowerCase() === component.toLowerCase() && p.module === ADDRESS_ZERO
+      )[0];
+      const realUnit = position ? position.realUnit : BigNumber.from(0);
+
+      if (history.length === 0 || !history[history.length - 1].realUnit.eq(realUnit)) {
+        history.push({ blockNumber: snapshot.blockNumber, realUnit });
+      }
+    });
+
+    return history;
+  }
+
+  public getEvents(ckToken: Address, filter: EventFilter = {}): IndexedEvent[] {
+    const record = this._getRecord(ckToken);
+    if (!record) {
+      return [];
+    }
+
+    const { name, fromBlock = 0, toBlock = Infinity } = filter;
+    return record.events.filter(event =>
+      (!name || event.name === name) && event.blockNumber >= fromBlock && event.blockNumber <= toBlock
+    );
+  }
+
+  private _getRecord(ckToken: Address): SerializedCKTokenRecord | undefined {
+    return this._data.ckTokens[ckToken.toLowerCase()];
+  }
+}
+
+// JSON.stringify writes BigNumbers as { "type": "BigNumber", "hex": ... }, store them as { "bn": <decimal string> } instead
+const serialize = <T>(value: T): Serialized<T> => serializeValue(value) as Serialized<T>;
+
+const deserialize = <T>(value: Serialized<T>): T => deserializeValue(value) as T;
+
+const serializeValue = (value: unknown): unknown => {
+  if (BigNumber.isBigNumber(value)) {
+    return { bn: value.toString() };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+
+  if (value && typeof value === "object") {
+    const object = value as { [key: string]: unknown };
+    const result: { [key: string]: unknown } = {};
+    Object.keys(object).forEach(key => { result[key] = serializeValue(object[key]); });
+    return result;
+  }
+
+  return value;
+};
+
+const deserializeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(deserializeValue);
+  }
+
+  if (value && typeof value === "object") {
+    const object = value as { [key: string]: unknown };
+    if (typeof object.bn === "string" && Object.keys(object).length === 1) {
+      return BigNumber.from(object.bn);
+    }
+
+    const result: { [key: string]: unknown } = {};
+    Object.keys(object).forEach(key => { result[key] = deserializeValue(object[key]); });
+    return result;
+  }
+
+  return value;
+};
@@ -0,0 +1,223 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { ContractTransaction } from "ethers";
+
+import { Address } from "../types";
+import { PRECISE_UNIT } from "../constants";
+import { CKToken, GeneralIndexModule } from "../contracts";
+import { CKToken__factory } from "../../typechain/factories/CKToken__factory";
+import { RebalanceTradedEvent } from "../client";
+import { preciseMul, preciseMulCeil } from "../common/mathUtils";
+import { getRevertReason } from "../common/revertUtils";
+import { convertQuantity, RebalancePlan, RebalanceStep } from "./generalIndexPlanner";
+
+export interface RebalanceExecutorOptions {
+  // Resolves once a transaction sent afterwards is mined at or after the timestamp. Defaults to polling the latest block.
+  waitUntil?: (timestamp: number) => Promise<void>;
+  pollInterval?: number;              // Milliseconds between block polls of the default waitUntil
+}
+
+export interface ExecutedRebalanceStep {
+  step: RebalanceStep;
+  skipped: boolean;
+  reason?: string;                    // Why the step was skipped
+  transactionHash?: string;
+  trade?: RebalanceTradedEvent;       // Unset for raiseAssetTargets
+}
+
+const DEFAULT_POLL_INTERVAL = 5000;
+const TARGET_MET_REASON = "Target already met";
+
+/**
+ * Runs a RebalancePlan against a GeneralIndexModule. Trade sizes are re-read from the module before every step since
+ * execution prices drift from the planned ones, so the plan only fixes the order of trades and the prices used for the
+ * ETH quantity limits. Steps whose target is already met, and optional steps the module would reject, are skipped.
+ */
+export class GeneralIndexRebalanceExecutor {
+  public indexModule: GeneralIndexModule;
+  public ckToken: CKToken;
+
+  private _waitUntil: (timestamp: number) => Promise<void>;
+  private _pollInterval: number;
+
+  constructor(indexModule: GeneralIndexModule, ckToken: Address, options: RebalanceExecutorOptions = {}) {
+    this.indexModule = indexModule;
+    this.ckToken = CKToken__factory.connect(ckToken, indexModule.provider);
+    this._pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+    this._waitUntil = options.waitUntil || (timestamp => this._pollUntil(timestamp));
+  }
+
+  public async startRebalance(plan: RebalancePlan): Promise<ContractTransaction> {
+    const args = plan.startRebalanceArgs;
+    return this.indexModule.startRebalance(
+      this.ckToken.address,
+      args.newComponents,
+      args.newComponentsTargetUnits,
+      args.oldComponentsTargetUnits,
+      args.positionMultiplier
+    );
+  }
+
+  public async execute(plan: RebalancePlan): Promise<ExecutedRebalanceStep[]> {
+    const executed: ExecutedRebalanceStep[] = [];
+
+    for (let i = 0; i < plan.steps.length; i++) {
+      executed.push(await this.executeStep(plan, plan.steps[i]));
+    }
+
+    return executed;
+  }
+
+  public async executeStep(plan: RebalancePlan, step: RebalanceStep): Promise<ExecutedRebalanceStep> {
+    switch (step.type) {
+      case "trade":
+        return this._trade(plan, step);
+      case "tradeRemainingWETH":
+        return this._tradeRemainingWETH(plan, step);
+      case "raiseAssetTargets":
+        return this._raiseAssetTargets(step);
+      default:
+        throw new Error(`Unknown rebalance step ${step.type}`);
+    }
+  }
+
+  /* ============ Private Functions ============ */
+
+  private async _trade(plan: RebalancePlan, step: RebalanceStep): Promise<ExecutedRebalanceStep> {
+    const component = step.component!;
+
+    let isSell: boolean;
+    let quantity: BigNumber;
+    try {
+      [isSell, quantity] = await this.indexModule.getComponentTradeQuantityAndDirection(this.ckToken.address, component);
+    } catch (error) {
+      // The module reverts with this reason once the component sits at its target unit
+      if (error.message.indexOf(TARGET_MET_REASON) === -1) {
+        throw error;
+      }
+      return { step, skipped: true, reason: TARGET_MET_REASON };
+    }
+
+    if (quantity.eq(0)) {
+      return { step, skipped: true, reason: TARGET_MET_REASON };
+    }
+
+    const ethQuantity = convertQuantity(
+      quantity,
+      getFromMap(plan.prices, component),
+      getFromMap(plan.decimals, component),
+      getFromMap(plan.prices, plan.weth),
+      getFromMap(plan.decimals, plan.weth)
+    );
+    const ethQuantityLimit = isSell
+      ? preciseMul(ethQuantity, PRECISE_UNIT.sub(plan.slippageTolerance))
+      : preciseMul(ethQuantity, PRECISE_UNIT.add(plan.slippageTolerance));
+
+    await this._waitForCoolOff(step, component);
+
+    const tx = await this.indexModule.trade(this.ckToken.address, component, ethQuantityLimit);
+    return { step, skipped: false, transactionHash: tx.hash, trade: await this._getTradeExecuted(tx) };
+  }
+
+  private async _tradeRemainingWETH(plan: RebalancePlan, step: RebalanceStep): Promise<ExecutedRebalanceStep> {
+    const component = step.component!;
+
+    // Size the minimum receive quantity from the WETH actually left over rather than the planned amount
+    const [totalSupply, wethUnit, wethInfo, rebalanceInfo, currentMultiplier] = await Promise.all([
+      this.ckToken.totalSupply(),
+      this.ckToken.getDefaultPositionRealUnit(plan.weth),
+      this.indexModule.executionInfo(this.ckToken.address, plan.weth),
+      this.indexModule.rebalanceInfo(this.ckToken.address),
+      this.ckToken.positionMultiplier(),
+    ]);
+    const normalizedWethTarget = wethInfo.targetUnit.mul(currentMultiplier).div(rebalanceInfo.positionMultiplier);
+    const wethQuantity = preciseMul(totalSupply, wethUnit).sub(preciseMulCeil(totalSupply, normalizedWethTarget));
+
+    if (wethQuantity.lte(0)) {
+      return { step, skipped: true, reason: "WETH is below target unit" };
+    }
+
+    const componentQuantity = convertQuantity(
+      wethQuantity,
+      getFromMap(plan.prices, plan.weth),
+      getFromMap(plan.decimals, plan.weth),
+      getFromMap(plan.prices, component),
+      getFromMap(plan.decimals, component)
+    );
+    const minComponentReceived = preciseMul(componentQuantity, PRECISE_UNIT.sub(plan.slippageTolerance));
+
+    await this._waitForCoolOff(step, component);
+
+    const reason = await getRevertReason(
+      this.indexModule.callStatic.tradeRemainingWETH(this.ckToken.address, component, minComponentReceived)
+    );
+    if (reason !== undefined) {
+      return { step, skipped: true, reason };
+    }
+
+    const tx = await this.indexModule.tradeRemainingWETH(this.ckToken.address, component, minComponentReceived);
+    return { step, skipped: false, transactionHash: tx.hash, trade: await this._getTradeExecuted(tx) };
+  }
+
+  private async _raiseAssetTargets(step: RebalanceStep): Promise<ExecutedRebalanceStep> {
+    const reason = await getRevertReason(this.indexModule.callStatic.raiseAssetTargets(this.ckToken.address));
+    if (reason !== undefined) {
+      return { step, skipped: true, reason };
+    }
+
+    const tx = await this.indexModule.raiseAssetTargets(this.ckToken.address);
+    await tx.wait();
+    return { step, skipped: false, transactionHash: tx.hash };
+  }
+
+  // Waits for the later of the planned start and the component's on-chain cool off, which moves with every trade
+  private async _waitForCoolOff(step: RebalanceStep, component: Address): Promise<void> {
+    const info = await this.indexModule.executionInfo(this.ckToken.address, component);
+    const readyAt = Math.max(step.notBefore, info.lastTradeTimestamp.add(info.coolOffPeriod).toNumber());
+
+    const latestTimestamp = (await this.indexModule.provider.getBlock("latest")).timestamp;
+    if (readyAt > latestTimestamp) {
+      await this._waitUntil(readyAt);
+    }
+  }
+
+  private async _pollUntil(timestamp: number): Promise<void> {
+    while ((await this.indexModule.provider.getBlock("latest")).timestamp < timestamp) {
+      await new Promise(resolve => setTimeout(resolve, this._pollInterval));
+    }
+  }
+
+  private async _getTradeExecuted(tx: ContractTransaction): Promise<RebalanceTradedEvent> {
+    const receipt = await tx.wait();
+
+    for (let i = 0; i < receipt.logs.length; i++) {
+      const log = receipt.logs[i];
+      if (log.address.toLowerCase() !== this.indexModule.address.toLowerCase()) {
+        continue;
+      }
+
+      const parsed = this.indexModule.interface.parseLog(log);
+      if (parsed.name === "TradeExecuted") {
+        return {
+          transactionHash: tx.hash,
+          sellComponent: parsed.args._sellComponent,
+          buyComponent: parsed.args._buyComponent,
+          exchangeAdapter: parsed.args._exchangeAdapter,
+          executor: parsed.args._executor,
+          netAmountSold: parsed.args._netAmountSold,
+          netAmountReceived: parsed.args._netAmountReceived,
+          protocolFee: parsed.args._protocolFee,
+        };
+      }
+    }
+
+    throw new Error(`No TradeExecuted event emitted in transaction ${tx.hash}`);
+  }
+}
+
+const getFromMap = <T>(map: { [key: string]: T }, address: Address): T => {
+  const key = Object.keys(map).filter(k => k.toLowerCase() === address.toLowerCase())[0];
+  if (key === undefined) {
+    throw new Error(`Missing ${address} in rebalance plan`);
+  }
+  return map[key];
+};
@@ -0,0 +1,326 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "../types";
+import { PRECISE_UNIT, ZERO } from "../constants";
+import { min, preciseDiv, preciseMul, preciseMulCeil } from "../common/mathUtils";
+
+export interface ComponentExecutionParams {
+  maxSize: BigNumber;                 // GeneralIndexModule trade maximum, in component units
+  coolOffPeriod: BigNumber;           // Seconds required between two trades of the component
+  lastTradeTimestamp?: BigNumber;
+}
+
+export interface RebalancePlannerInput {
+  weth: Address;
+  currentComponents: Address[];       // In CKToken.getComponents() order
+  currentUnits: { [component: string]: BigNumber };
+  targetWeights: { [component: string]: BigNumber };   // Share of NAV per component in precise units, summing to 1e18
+  prices: { [asset: string]: BigNumber };              // Prices in a common quote asset, WETH included
+  decimals: { [asset: string]: number };
+  executionParams: { [component: string]: ComponentExecutionParams };
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+  protocolFee?: BigNumber;            // GeneralIndexModule protocol fee, deducted from bought quantities
+  slippageTolerance?: BigNumber;      // Applied to ETH quantity limits, defaults to 1%
+  raiseTargetPercentage?: BigNumber;  // Plans a raiseAssetTargets step when set on the module
+  startTimestamp?: number;
+}
+
+export interface StartRebalanceArgs {
+  newComponents: Address[];
+  newComponentsTargetUnits: BigNumber[];
+  oldComponentsTargetUnits: BigNumber[];
+  positionMultiplier: BigNumber;
+}
+
+export type RebalanceStepType = "trade" | "tradeRemainingWETH" | "raiseAssetTargets";
+
+export interface RebalanceStep {
+  type: RebalanceStepType;
+  component?: Address;
+  isSell?: boolean;
+  quantity?: BigNumber;               // Component quantity sold or bought (tradeRemainingWETH: WETH sold)
+  ethQuantityLimit?: BigNumber;       // Min WETH received on sells, max WETH spent on buys, min component received on tradeRemainingWETH
+  notBefore: number;                  // Earliest timestamp the step can run given cool off periods
+  optional: boolean;                  // Depends on execution prices and is re-checked on-chain by the executor
+}
+
+export interface RebalancePlan {
+  startRebalanceArgs: StartRebalanceArgs;
+  targetUnits: { [component: string]: BigNumber };
+  steps: RebalanceStep[];
+  prices: { [asset: string]: BigNumber };
+  decimals: { [asset: string]: number };
+  weth: Address;
+  slippageTolerance: BigNumber;
+}
+
+// Upper bound on trades planned for a single component, guards against a zero or tiny trade maximum
+const MAX_TRADES_PER_COMPONENT = 100;
+
+const DEFAULT_SLIPPAGE_TOLERANCE = PRECISE_UNIT.div(100);
+
+/**
+ * Plans a GeneralIndexModule rebalance. Target units are derived from the target weights and the CKToken's current NAV,
+ * then every component's notional difference is split into trades no larger than its trade maximum, mirroring
+ * GeneralIndexModule.calculateTradeSizeAndDirection. Sells are scheduled before buys so the buys can be funded with the
+ * WETH the sells raise, and each component's trades are spaced by its cool off period.
+ */
+export const planRebalance = (input: RebalancePlannerInput): RebalancePlan => {
+  const prices = lowerCaseKeys(input.prices);
+  const decimals = lowerCaseKeys(input.decimals);
+  const currentUnits = lowerCaseKeys(input.currentUnits);
+  const targetWeights = lowerCaseKeys(input.targetWeights);
+  const executionParams = lowerCaseKeys(input.executionParams);
+  const protocolFee = input.protocolFee || ZERO;
+  const slippageTolerance = input.slippageTolerance || DEFAULT_SLIPPAGE_TOLERANCE;
+  const startTimestamp = input.startTimestamp || 0;
+  const weth = input.weth.toLowerCase();
+
+  const components = input.currentComponents.slice();
+  Object.keys(input.targetWeights).forEach(component => {
+    if (!containsAddress(components, component)) {
+      components.push(component);
+    }
+  });
+
+  const totalWeight = Object.keys(targetWeights).reduce((sum, key) => sum.add(targetWeights[key]), ZERO);
+  if (!totalWeight.eq(PRECISE_UNIT)) {
+    throw new Error(`Target weights must sum to 1e18, got ${totalWeight.toString()}`);
+  }
+
+  // NAV per CKToken in the quote asset, precise units
+  const navPerToken = components.reduce(
+    (nav, component) => nav.add(getValue(component, currentUnits[component.toLowerCase()] || ZERO)),
+    ZERO
+  );
+
+  const targetUnits: { [component: string]: BigNumber } = {};
+  components.forEach(component => {
+    const weight = targetWeights[component.toLowerCase()] || ZERO;
+    targetUnits[component] = preciseMul(weight, navPerToken)
+      .mul(BigNumber.from(10).pow(getDecimals(component)))
+      .div(getPrice(component));
+  });
+
+  const newComponents = components.filter(component => !containsAddress(input.currentComponents, component));
+  const startRebalanceArgs: StartRebalanceArgs = {
+    newComponents,
+    newComponentsTargetUnits: newComponents.map(component => targetUnits[component]),
+    oldComponentsTargetUnits: input.currentComponents.map(component => targetUnits[component]),
+    positionMultiplier: input.positionMultiplier,
+  };
+
+  const sells: RebalanceStep[] = [];
+  const buys: RebalanceStep[] = [];
+  const lastScheduled: { [component: string]: number } = {};
+  let projectedWeth = preciseMul(input.totalSupply, currentUnits[weth] || ZERO);
+
+  // Sells first, each component's chunks spaced by its cool off period
+  components.filter(component => component.toLowerCase() !== weth).forEach(component => {
+    const { currentNotional, targetNotional } = getNotionals(component);
+    if (currentNotional.lte(targetNotional)) {
+      return;
+    }
+
+    const params = getExecutionParams(component);
+    let remaining = currentNotional.sub(targetNotional);
+    let notBefore = getFirstTradeTimestamp(params);
+
+    for (let i = 0; remaining.gt(0); i++) {
+      checkTradeCount(component, i);
+
+      const quantity = min(params.maxSize, remaining);
+      const ethQuantity = getEthQuantity(component, quantity);
+      sells.push({
+        type: "trade",
+        component,
+        isSell: true,
+        quantity,
+        ethQuantityLimit: preciseMul(ethQuantity, PRECISE_UNIT.sub(slippageTolerance)),
+        notBefore,
+        optional: false,
+      });
+
+      projectedWeth = projectedWeth.add(ethQuantity);
+      remaining = remaining.sub(quantity);
+      lastScheduled[component] = notBefore;
+      notBefore += params.coolOffPeriod.toNumber();
+    }
+  });
+
+  const sellPhaseEnd = sells.reduce((end, step) => Math.max(end, step.notBefore), startTimestamp);
+
+  components.filter(component => component.toLowerCase() !== weth).forEach(component => {
+    const { currentNotional, targetNotional } = getNotionals(component);
+    if (currentNotional.gte(targetNotional)) {
+      return;
+    }
+
+    const params = getExecutionParams(component);
+    let current = currentNotional;
+    let notBefore = Math.max(getFirstTradeTimestamp(params), sellPhaseEnd);
+
+    for (let i = 0; current.lt(targetNotional); i++) {
+      checkTradeCount(component, i);
+
+      // Grossed up by the protocol fee so the target can be reached, as in calculateTradeSizeAndDirection
+      const quantity = min(params.maxSize, preciseDiv(targetNotional.sub(current), PRECISE_UNIT.sub(protocolFee)));
+      const ethQuantity = getEthQuantity(component, quantity);
+      buys.push({
+        type: "trade",
+        component,
+        isSell: false,
+        quantity,
+        ethQuantityLimit: preciseMul(ethQuantity, PRECISE_UNIT.add(slippageTolerance)),
+        notBefore,
+        optional: false,
+      });
+
+      projectedWeth = projectedWeth.sub(ethQuantity);
+      current = current.add(quantity.sub(preciseMul(quantity, protocolFee)));
+      lastScheduled[component] = notBefore;
+      notBefore += params.coolOffPeriod.toNumber();
+    }
+  });
+
+  const steps = sortSteps(sells).concat(sortSteps(buys));
+  const tradePhaseEnd = steps.reduce((end, step) => Math.max(end, step.notBefore), startTimestamp);
+
+  // Any WETH left above its target after the buys is swept into the heaviest non WETH component
+  const wethTargetNotional = preciseMulCeil(input.totalSupply, targetUnits[findAddress(components, weth)] || ZERO);
+  const sweepComponent = components
+    .filter(component => component.toLowerCase() !== weth && (targetWeights[component.toLowerCase()] || ZERO).gt(0))
+    .sort((a, b) => (targetWeights[b.toLowerCase()].gt(targetWeights[a.toLowerCase()]) ? 1 : -1))[0];
+
+  if (sweepComponent && projectedWeth.gt(wethTargetNotional)) {
+    const wethQuantity = projectedWeth.sub(wethTargetNotional);
+    const params = getExecutionParams(sweepComponent);
+    const componentQuantity = getComponentQuantity(sweepComponent, wethQuantity);
+    const componentAvailable = lastScheduled[sweepComponent] !== undefined
+      ? lastScheduled[sweepComponent] + params.coolOffPeriod.toNumber()
+      : getFirstTradeTimestamp(params);
+
+    steps.push({
+      type: "tradeRemainingWETH",
+      component: sweepComponent,
+      quantity: wethQuantity,
+      ethQuantityLimit: preciseMul(componentQuantity, PRECISE_UNIT.sub(slippageTolerance)),
+      notBefore: Math.max(tradePhaseEnd, componentAvailable),
+      optional: true,
+    });
+  }
+
+  if (input.raiseTargetPercentage && input.raiseTargetPercentage.gt(0)) {
+    steps.push({
+      type: "raiseAssetTargets",
+      notBefore: steps.reduce((end, step) => Math.max(end, step.notBefore), startTimestamp),
+      optional: true,
+    });
+  }
+
+  return {
+    startRebalanceArgs,
+    targetUnits,
+    steps,
+    prices: input.prices,
+    decimals: input.decimals,
+    weth: input.weth,
+    slippageTolerance,
+  };
+
+  /* ============ Helpers ============ */
+
+  function getPrice(asset: Address): BigNumber {
+    const price = prices[asset.toLowerCase()];
+    if (!price) {
+      throw new Error(`Missing price for ${asset}`);
+    }
+    return price;
+  }
+
+  function getDecimals(asset: Address): number {
+    const assetDecimals = decimals[asset.toLowerCase()];
+    if (assetDecimals === undefined) {
+      throw new Error(`Missing decimals for ${asset}`);
+    }
+    return assetDecimals;
+  }
+
+  function getExecutionParams(component: Address): ComponentExecutionParams {
+    const params = executionParams[component.toLowerCase()];
+    if (!params || params.maxSize.eq(0)) {
+      throw new Error(`Missing trade maximum for ${component}`);
+    }
+    return params;
+  }
+
+  // Value of a component quantity in the quote asset, precise units
+  function getValue(asset: Address, quantity: BigNumber): BigNumber {
+    return preciseMul(quantity.mul(PRECISE_UNIT).div(BigNumber.from(10).pow(getDecimals(asset))), getPrice(asset));
+  }
+
+  function getEthQuantity(component: Address, quantity: BigNumber): BigNumber {
+    return convertQuantity(quantity, getPrice(component), getDecimals(component), getPrice(input.weth), getDecimals(input.weth));
+  }
+
+  function getComponentQuantity(component: Address, wethQuantity: BigNumber): BigNumber {
+    return convertQuantity(wethQuantity, getPrice(input.weth), getDecimals(input.weth), getPrice(component), getDecimals(component));
+  }
+
+  function getNotionals(component: Address): { currentNotional: BigNumber; targetNotional: BigNumber } {
+    return {
+      currentNotional: preciseMul(input.totalSupply, currentUnits[component.toLowerCase()] || ZERO),
+      targetNotional: preciseMulCeil(input.totalSupply, targetUnits[component]),
+    };
+  }
+
+  function getFirstTradeTimestamp(params: ComponentExecutionParams): number {
+    const lastTradeTimestamp = params.lastTradeTimestamp || ZERO;
+    return Math.max(startTimestamp, lastTradeTimestamp.add(params.coolOffPeriod).toNumber());
+  }
+
+  function checkTradeCount(component: Address, tradeCount: number): void {
+    if (tradeCount >= MAX_TRADES_PER_COMPONENT) {
+      throw new Error(`Rebalance of ${component} needs more than ${MAX_TRADES_PER_COMPONENT} trades, raise its trade maximum`);
+    }
+  }
+};
+
+/**
+ * Converts a quantity of one asset into the equivalent quantity of another given both prices in a common quote asset.
+ */
+export const convertQuantity = (
+  quantity: BigNumber,
+  fromPrice: BigNumber,
+  fromDecimals: number,
+  toPrice: BigNumber,
+  toDecimals: number
+): BigNumber => {
+  return quantity
+    .mul(fromPrice)
+    .mul(BigNumber.from(10).pow(toDecimals))
+    .div(toPrice)
+    .div(BigNumber.from(10).pow(fromDecimals));
+};
+
+const sortSteps = (steps: RebalanceStep[]): RebalanceStep[] => {
+  return steps
+    .map((step, index) => ({ step, index }))
+    .sort((a, b) => a.step.notBefore - b.step.notBefore || a.index - b.index)
+    .map(({ step }) => step);
+};
+
+const lowerCaseKeys = <T>(map: { [key: string]: T }): { [key: string]: T } => {
+  const result: { [key: string]: T } = {};
+  Object.keys(map).forEach(key => { result[key.toLowerCase()] = map[key]; });
+  return result;
+};
+
+const containsAddress = (addresses: Address[], address: Address): boolean => {
+  return addresses.map(a => a.toLowerCase()).indexOf(address.toLowerCase()) > -1;
+};
+
+const findAddress = (addresses: Address[], address: Address): Address => {
+  return addresses.filter(a => a.toLowerCase() === address.toLowerCase())[0] || address;
+};
@@ -0,0 +1,15 @@
+export {
+  ComponentExecutionParams,
+  convertQuantity,
+  planRebalance,
+  RebalancePlan,
+  RebalancePlannerInput,
+  RebalanceStep,
+  RebalanceStepType,
+  StartRebalanceArgs
+} from "./generalIndexPlanner";
+export {
+  ExecutedRebalanceStep,
+  GeneralIndexRebalanceExecutor,
+  RebalanceExecutorOptions
+} from "./generalIndexExecutor";
@@ -0,0 +1,12 @@
+export {
+  ExpectedIntegration,
+  IntegrationAuditReport,
+  IntegrationCalldata,
+  IntegrationRegistryAuditor,
+  ModuleIntegrationAudit,
+  RegisteredIntegration,
+  StaleIntegration,
+  diffIntegrations,
+  getExpectedIntegrations,
+} from "./integrationAuditor";
+export { ProtocolAdapters, ProtocolModules, ProtocolRegistry } from "./protocolRegistry";
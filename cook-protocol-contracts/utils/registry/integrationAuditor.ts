@@ -0,0 +1,198 @@
+import { Address, DeployManifest } from "../types";
+import { IntegrationRegistry } from "../contracts";
+import { IntegrationRegistry__factory } from "../../typechain/factories/IntegrationRegistry__factory";
+
+export interface RegisteredIntegration {
+  module: Address;
+  integrationName: string;
+  adapter: Address;
+  blockNumber: number;                // Block of the event that last set the adapter
+}
+
+export interface ExpectedIntegration {
+  module: Address;
+  moduleName: string;
+  integrationName: string;
+  adapter: Address;
+  adapterName: string;
+}
+
+export interface StaleIntegration {
+  expected: ExpectedIntegration;
+  registeredAdapter: Address;
+}
+
+export interface ModuleIntegrationAudit {
+  module: Address;
+  moduleName?: string;
+  matching: ExpectedIntegration[];
+  missing: ExpectedIntegration[];     // Expected but not registered
+  stale: StaleIntegration[];          // Registered to another adapter than expected
+  unexpected: RegisteredIntegration[]; // Registered but not in the manifest
+}
+
+export interface IntegrationCalldata {
+  to: Address;
+  data: string;
+  modules: Address[];
+  names: string[];
+  adapters: Address[];
+}
+
+export interface IntegrationAuditReport {
+  modules: ModuleIntegrationAudit[];
+  isClean: boolean;
+  batchAddIntegration?: IntegrationCalldata;    // Registers the missing integrations
+  batchEditIntegration?: IntegrationCalldata;   // Points the stale integrations at the expected adapters
+}
+
+const integrationKey = (module: Address, integrationName: string): string => `${module.toLowerCase()}:${integrationName}`;
+
+/**
+ * Resolves the manifest's adapter integrations to addresses. `resolve` maps a manifest reference (a contract name or
+ * raw address) to an address, e.g. manifestUtils.resolveReference bound to the hardhat runtime.
+ */
+export const getExpectedIntegrations = async (
+  manifest: DeployManifest,
+  resolve: (reference: string) => Promise<Address>
+): Promise<ExpectedIntegration[]> => {
+  const expected: ExpectedIntegration[] = [];
+
+  for (const adapter of manifest.adapters) {
+    const adapterAddress = await resolve(adapter.name);
+
+    for (const integration of adapter.integrations) {
+      expected.push({
+        module: await resolve(integration.module),
+        moduleName: integration.module,
+        integrationName: integration.integrationName,
+        adapter: adapterAddress,
+        adapterName: adapter.name,
+      });
+    }
+  }
+
+  return expected;
+};
+
+/**
+ * Compares registered integrations against the expected ones, module by module, and builds the IntegrationRegistry
+ * calls that reconcile them. Unexpected integrations are only reported since removing them is a judgement call.
+ */
+export const diffIntegrations = (
+  integrationRegistry: Address,
+  registered: RegisteredIntegration[],
+  expected: ExpectedIntegration[]
+): IntegrationAuditReport => {
+  const registeredByKey: { [key: string]: RegisteredIntegration } = {};
+  registered.forEach(integration => {
+    registeredByKey[integrationKey(integration.module, integration.integrationName)] = integration;
+  });
+
+  const audits: { [module: string]: ModuleIntegrationAudit } = {};
+  const getAudit = (module: Address, moduleName?: string): ModuleIntegrationAudit => {
+    const key = module.toLowerCase();
+    if (!audits[key]) {
+      audits[key] = { module, moduleName, matching: [], missing: [], stale: [], unexpected: [] };
+    }
+    audits[key].moduleName = audits[key].moduleName || moduleName;
+    return audits[key];
+  };
+
+  const expectedKeys: { [key: string]: boolean } = {};
+  expected.forEach(integration => {
+    const key = integrationKey(integration.module, integration.integrationName);
+    const audit = getAudit(integration.module, integration.moduleName);
+    const current = registeredByKey[key];
+    expectedKeys[key] = true;
+
+    if (!current) {
+      audit.missing.push(integration);
+    } else if (current.adapter.toLowerCase() !== integration.adapter.toLowerCase()) {
+      audit.stale.push({ expected: integration, registeredAdapter: current.adapter });
+    } else {
+      audit.matching.push(integration);
+    }
+  });
+
+  registered.forEach(integration => {
+    if (!expectedKeys[integrationKey(integration.module, integration.integrationName)]) {
+      getAudit(integration.module).unexpected.push(integration);
+    }
+  });
+
+  const modules = Object.keys(audits).map(key => audits[key]);
+  const missing = modules.reduce((all, audit) => all.concat(audit.missing), [] as ExpectedIntegration[]);
+  const stale = modules.reduce((all, audit) => all.concat(audit.stale.map(s => s.expected)), [] as ExpectedIntegration[]);
+
+  return {
+    modules,
+    isClean: modules.every(audit => audit.missing.length === 0 && audit.stale.length === 0 && audit.unexpected.length === 0),
+    batchAddIntegration: missing.length > 0 ? encodeBatchCall(integrationRegistry, "batchAddIntegration", missing) : undefined,
+    batchEditIntegration: stale.length > 0 ? encodeBatchCall(integrationRegistry, "batchEditIntegration", stale) : undefined,
+  };
+};
+
+const encodeBatchCall = (
+  integrationRegistry: Address,
+  method: "batchAddIntegration" | "batchEditIntegration",
+  integrations: ExpectedIntegration[]
+): IntegrationCalldata => {
+  const modules = integrations.map(integration => integration.module);
+  const names = integrations.map(integration => integration.integrationName);
+  const adapters = integrations.map(integration => integration.adapter);
+
+  return {
+    to: integrationRegistry,
+    data: new IntegrationRegistry__factory().interface.encodeFunctionData(method, [modules, names, adapters]),
+    modules,
+    names,
+    adapters,
+  };
+};
+
+/**
+ * Rebuilds the IntegrationRegistry's (module, name) => adapter mapping from its IntegrationAdded, IntegrationEdited
+ * and IntegrationRemoved events, since the registry itself cannot be enumerated.
+ */
+export class IntegrationRegistryAuditor {
+  public integrationRegistry: IntegrationRegistry;
+
+  constructor(integrationRegistry: IntegrationRegistry) {
+    this.integrationRegistry = integrationRegistry;
+  }
+
+  public async getRegisteredIntegrations(fromBlock: number = 0, toBlock?: number): Promise<RegisteredIntegration[]> {
+    const events = (await Promise.all([
+      this.integrationRegistry.queryFilter("IntegrationAdded", fromBlock, toBlock),
+      this.integrationRegistry.queryFilter("IntegrationEdited", fromBlock, toBlock),
+      this.integrationRegistry.queryFilter("IntegrationRemoved", fromBlock, toBlock),
+    ]))
+      .reduce((all, batch) => all.concat(batch), [])
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    const integrations: { [key: string]: RegisteredIntegration } = {};
+    events.forEach(event => {
+      const args = event.args!;
+      const key = integrationKey(args._module, args._integrationName);
+
+      if (event.event === "IntegrationRemoved") {
+        delete integrations[key];
+        return;
+      }
+
+      integrations[key] = {
+        module: args._module,
+        integrationName: args._integrationName,
+        adapter: event.event === "IntegrationEdited" ? args._newAdapter : args._adapter,
+        blockNumber: event.blockNumber,
+      };
+    });
+
+    return Object.keys(integrations).map(key => integrations[key]);
+  }
+
+  public async audit(expected: ExpectedIntegration[], fromBlock: number = 0): Promise<IntegrationAuditReport> {
+    return diffIntegrations(this.integrationRegistry.address, await this.getRegisteredIntegrations(fromBlock), expected);
+  }
+}
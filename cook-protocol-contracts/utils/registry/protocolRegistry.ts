@@ -0,0 +1,333 @@
+import { Provider } from "@ethersproject/providers";
+import { Signer } from "ethers";
+
+import { Address, NetworkAddressBook } from "../types";
+import {
+  AaveGovernanceAdapter,
+  AaveGovernanceV2Adapter,
+  AaveMigrationWrapAdapter,
+  AaveWrapAdapter,
+  AirdropModule,
+  AmmModule,
+  BalancerV1IndexExchangeAdapter,
+  BasicIssuanceModule,
+  BatchIssuanceModule,
+  CKTokenCreator,
+  CKValuer,
+  ClaimModule,
+  CompoundBravoGovernanceAdapter,
+  CompoundLikeGovernanceAdapter,
+  Controller,
+  CurveStakingAdapter,
+  CustomOracleNavIssuanceModule,
+  DebtIssuanceModule,
+  GeneralIndexModule,
+  GovernanceModule,
+  IntegrationRegistry,
+  IssuanceModule,
+  KyberExchangeAdapter,
+  KyberMigrationWrapAdapter,
+  KyberV3IndexExchangeAdapter,
+  NavIssuanceModule,
+  OneInchExchangeAdapter,
+  PriceOracle,
+  SingleIndexModule,
+  SnapshotGovernanceAdapter,
+  StakingModule,
+  StreamingFeeModule,
+  SynthetixExchangeAdapter,
+  TradeModule,
+  UniswapV2ExchangeAdapter,
+  UniswapV2ExchangeAdapterV2,
+  UniswapV2IndexExchangeAdapter,
+  UniswapV2TransferFeeExchangeAdapter,
+  UniswapV3ExchangeAdapter,
+  UniswapV3IndexExchangeAdapter,
+  WrapModule,
+  YearnWrapAdapter,
+  ZeroExApiAdapter
+} from "../contracts";
+import { AaveGovernanceAdapter__factory } from "../../typechain/factories/AaveGovernanceAdapter__factory";
+import { AaveGovernanceV2Adapter__factory } from "../../typechain/factories/AaveGovernanceV2Adapter__factory";
+import { AaveMigrationWrapAdapter__factory } from "../../typechain/factories/AaveMigrationWrapAdapter__factory";
+import { AaveWrapAdapter__factory } from "../../typechain/factories/AaveWrapAdapter__factory";
+import { AirdropModule__factory } from "../../typechain/factories/AirdropModule__factory";
+import { AmmModule__factory } from "../../typechain/factories/AmmModule__factory";
+import { BalancerV1IndexExchangeAdapter__factory } from "../../typechain/factories/BalancerV1IndexExchangeAdapter__factory";
+import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
+import { BatchIssuanceModule__factory } from "../../typechain/factories/BatchIssuanceModule__factory";
+import { CKTokenCreator__factory } from "../../typechain/factories/CKTokenCreator__factory";
+import { CKValuer__factory } from "../../typechain/factories/CKValuer__factory";
+import { ClaimModule__factory } from "../../typechain/factories/ClaimModule__factory";
+import { CompoundBravoGovernanceAdapter__factory } from "../../typechain/factories/CompoundBravoGovernanceAdapter__factory";
+import { CompoundLikeGovernanceAdapter__factory } from "../../typechain/factories/CompoundLikeGovernanceAdapter__factory";
+import { Controller__factory } from "../../typechain/factories/Controller__factory";
+import { CurveStakingAdapter__factory } from "../../typechain/factories/CurveStakingAdapter__factory";
+import { CustomOracleNavIssuanceModule__factory } from "../../typechain/factories/CustomOracleNavIssuanceModule__factory";
+import { DebtIssuanceModule__factory } from "../../typechain/factories/DebtIssuanceModule__factory";
+import { GeneralIndexModule__factory } from "../../typechain/factories/GeneralIndexModule__factory";
+import { GovernanceModule__factory } from "../../typechain/factories/GovernanceModule__factory";
+import { IntegrationRegistry__factory } from "../../typechain/factories/IntegrationRegistry__factory";
+import { IssuanceModule__factory } from "../../typechain/factories/IssuanceModule__factory";
+import { KyberExchangeAdapter__factory } from "../../typechain/factories/KyberExchangeAdapter__factory";
+import { KyberMigrationWrapAdapter__factory } from "../../typechain/factories/KyberMigrationWrapAdapter__factory";
+import { KyberV3IndexExchangeAdapter__factory } from "../../typechain/factories/KyberV3IndexExchangeAdapter__factory";
+import { NavIssuanceModule__factory } from "../../typechain/factories/NavIssuanceModule__factory";
+import { OneInchExchangeAdapter__factory } from "../../typechain/factories/OneInchExchangeAdapter__factory";
+import { PriceOracle__factory } from "../../typechain/factories/PriceOracle__factory";
+import { SingleIndexModule__factory } from "../../typechain/factories/SingleIndexModule__factory";
+import { SnapshotGovernanceAdapter__factory } from "../../typechain/factories/SnapshotGovernanceAdapter__factory";
+import { StakingModule__factory } from "../../typechain/factories/StakingModule__factory";
+import { StreamingFeeModule__factory } from "../../typechain/factories/StreamingFeeModule__factory";
+import { SynthetixExchangeAdapter__factory } from "../../typechain/factories/SynthetixExchangeAdapter__factory";
+import { TradeModule__factory } from "../../typechain/factories/TradeModule__factory";
+import { UniswapV2ExchangeAdapter__factory } from "../../typechain/factories/UniswapV2ExchangeAdapter__factory";
+import { UniswapV2ExchangeAdapterV2__factory } from "../../typechain/factories/UniswapV2ExchangeAdapterV2__factory";
+import { UniswapV2IndexExchangeAdapter__factory } from "../../typechain/factories/UniswapV2IndexExchangeAdapter__factory";
+import { UniswapV2TransferFeeExchangeAdapter__factory } from "../../typechain/factories/UniswapV2TransferFeeExchangeAdapter__factory";
+import { UniswapV3ExchangeAdapter__factory } from "../../typechain/factories/UniswapV3ExchangeAdapter__factory";
+import { UniswapV3IndexExchangeAdapter__factory } from "../../typechain/factories/UniswapV3IndexExchangeAdapter__factory";
+import { WrapModule__factory } from "../../typechain/factories/WrapModule__factory";
+import { YearnWrapAdapter__factory } from "../../typechain/factories/YearnWrapAdapter__factory";
+import { ZeroExApiAdapter__factory } from "../../typechain/factories/ZeroExApiAdapter__factory";
+
+export interface ProtocolModules {
+  AirdropModule: AirdropModule;
+  AmmModule: AmmModule;
+  BasicIssuanceModule: BasicIssuanceModule;
+  BatchIssuanceModule: BatchIssuanceModule;
+  ClaimModule: ClaimModule;
+  CustomOracleNavIssuanceModule: CustomOracleNavIssuanceModule;
+  DebtIssuanceModule: DebtIssuanceModule;
+  GeneralIndexModule: GeneralIndexModule;
+  GovernanceModule: GovernanceModule;
+  IssuanceModule: IssuanceModule;
+  NavIssuanceModule: NavIssuanceModule;
+  SingleIndexModule: SingleIndexModule;
+  StakingModule: StakingModule;
+  StreamingFeeModule: StreamingFeeModule;
+  TradeModule: TradeModule;
+  WrapModule: WrapModule;
+}
+
+export interface ProtocolAdapters {
+  AaveGovernanceAdapter: AaveGovernanceAdapter;
+  AaveGovernanceV2Adapter: AaveGovernanceV2Adapter;
+  AaveMigrationWrapAdapter: AaveMigrationWrapAdapter;
+  AaveWrapAdapter: AaveWrapAdapter;
+  BalancerV1IndexExchangeAdapter: BalancerV1IndexExchangeAdapter;
+  CompoundBravoGovernanceAdapter: CompoundBravoGovernanceAdapter;
+  CompoundLikeGovernanceAdapter: CompoundLikeGovernanceAdapter;
+  CurveStakingAdapter: CurveStakingAdapter;
+  KyberExchangeAdapter: KyberExchangeAdapter;
+  KyberMigrationWrapAdapter: KyberMigrationWrapAdapter;
+  KyberV3IndexExchangeAdapter: KyberV3IndexExchangeAdapter;
+  OneInchExchangeAdapter: OneInchExchangeAdapter;
+  SnapshotGovernanceAdapter: SnapshotGovernanceAdapter;
+  SynthetixExchangeAdapter: SynthetixExchangeAdapter;
+  UniswapV2ExchangeAdapter: UniswapV2ExchangeAdapter;
+  UniswapV2ExchangeAdapterV2: UniswapV2ExchangeAdapterV2;
+  UniswapV2IndexExchangeAdapter: UniswapV2IndexExchangeAdapter;
+  UniswapV2TransferFeeExchangeAdapter: UniswapV2TransferFeeExchangeAdapter;
+  UniswapV3ExchangeAdapter: UniswapV3ExchangeAdapter;
+  UniswapV3IndexExchangeAdapter: UniswapV3IndexExchangeAdapter;
+  YearnWrapAdapter: YearnWrapAdapter;
+  ZeroExApiAdapter: ZeroExApiAdapter;
+}
+
+type Connector<T> = (address: Address, signerOrProvider: Signer | Provider) => T;
+
+type Connectors<T> = { [K in keyof T]: Connector<T[K]> };
+
+const MODULE_CONNECTORS: Connectors<ProtocolModules> = {
+  AirdropModule: AirdropModule__factory.connect,
+  AmmModule: AmmModule__factory.connect,
+  BasicIssuanceModule: BasicIssuanceModule__factory.connect,
+  BatchIssuanceModule: BatchIssuanceModule__factory.connect,
+  ClaimModule: ClaimModule__factory.connect,
+  CustomOracleNavIssuanceModule: CustomOracleNavIssuanceModule__factory.connect,
+  DebtIssuanceModule: DebtIssuanceModule__factory.connect,
+  GeneralIndexModule: GeneralIndexModule__factory.connect,
+  GovernanceModule: GovernanceModule__factory.connect,
+  IssuanceModule: IssuanceModule__factory.connect,
+  NavIssuanceModule: NavIssuanceModule__factory.connect,
+  SingleIndexModule: SingleIndexModule__factory.connect,
+  StakingModule: StakingModule__factory.connect,
+  StreamingFeeModule: StreamingFeeModule__factory.connect,
+  TradeModule: TradeModule__factory.connect,
+  WrapModule: WrapModule__factory.connect,
+};
+
+const ADAPTER_CONNECTORS: Connectors<ProtocolAdapters> = {
+  AaveGovernanceAdapter: AaveGovernanceAdapter__factory.connect,
+  AaveGovernanceV2Adapter: AaveGovernanceV2Adapter__factory.connect,
+  AaveMigrationWrapAdapter: AaveMigrationWrapAdapter__factory.connect,
+  AaveWrapAdapter: AaveWrapAdapter__factory.connect,
+  BalancerV1IndexExchangeAdapter: BalancerV1IndexExchangeAdapter__factory.connect,
+  CompoundBravoGovernanceAdapter: CompoundBravoGovernanceAdapter__factory.connect,
+  CompoundLikeGovernanceAdapter: CompoundLikeGovernanceAdapter__factory.connect,
+  CurveStakingAdapter: CurveStakingAdapter__factory.connect,
+  KyberExchangeAdapter: KyberExchangeAdapter__factory.connect,
+  KyberMigrationWrapAdapter: KyberMigrationWrapAdapter__factory.connect,
+  KyberV3IndexExchangeAdapter: KyberV3IndexExchangeAdapter__factory.connect,
+  OneInchExchangeAdapter: OneInchExchangeAdapter__factory.connect,
+  SnapshotGovernanceAdapter: SnapshotGovernanceAdapter__factory.connect,
+  SynthetixExchangeAdapter: SynthetixExchangeAdapter__factory.connect,
+  UniswapV2ExchangeAdapter: UniswapV2ExchangeAdapter__factory.connect,
+  UniswapV2ExchangeAdapterV2: UniswapV2ExchangeAdapterV2__factory.connect,
+  UniswapV2IndexExchangeAdapter: UniswapV2IndexExchangeAdapter__factory.connect,
+  UniswapV2TransferFeeExchangeAdapter: UniswapV2TransferFeeExchangeAdapter__factory.connect,
+  UniswapV3ExchangeAdapter: UniswapV3ExchangeAdapter__factory.connect,
+  UniswapV3IndexExchangeAdapter: UniswapV3IndexExchangeAdapter__factory.connect,
+  YearnWrapAdapter: YearnWrapAdapter__factory.connect,
+  ZeroExApiAdapter: ZeroExApiAdapter__factory.connect,
+};
+
+// Resource ids the protocol looks resources up by, see ResourceIdentifier.sol
+const RESOURCE_IDS: { [name: string]: number } = {
+  IntegrationRegistry: 0,
+  PriceOracle: 1,
+  CKValuer: 2,
+};
+
+/**
+ * Typed access to a deployed system described by a NetworkAddressBook. Every core contract, module and adapter is
+ * returned as a connected typechain instance. `validate` checks the address book against what the Controller and the
+ * IntegrationRegistry actually have registered.
+ */
+export class ProtocolRegistry {
+  public addressBook: NetworkAddressBook;
+  public controller: Controller;
+  public integrationRegistry: IntegrationRegistry;
+  public priceOracle: PriceOracle;
+  public ckValuer: CKValuer;
+  public ckTokenCreator: CKTokenCreator;
+
+  private _signerOrProvider: Signer | Provider;
+
+  constructor(addressBook: NetworkAddressBook, signerOrProvider: Signer | Provider) {
+    this.addressBook = addressBook;
+    this._signerOrProvider = signerOrProvider;
+
+    this.controller = Controller__factory.connect(this._getCoreAddress("Controller"), signerOrProvider);
+    this.integrationRegistry = IntegrationRegistry__factory.connect(this._getCoreAddress("IntegrationRegistry"), signerOrProvider);
+    this.priceOracle = PriceOracle__factory.connect(this._getCoreAddress("PriceOracle"), signerOrProvider);
+    this.ckValuer = CKValuer__factory.connect(this._getCoreAddress("CKValuer"), signerOrProvider);
+    this.ckTokenCreator = CKTokenCreator__factory.connect(this._getCoreAddress("CKTokenCreator"), signerOrProvider);
+  }
+
+  // Connects to the address book and throws if it does not match the deployed system
+  public static async load(addressBook: NetworkAddressBook, signerOrProvider: Signer | Provider): Promise<ProtocolRegistry> {
+    const registry = new ProtocolRegistry(addressBook, signerOrProvider);
+
+    const errors = await registry.validate();
+    if (errors.length > 0) {
+      throw new Error(`Address book for ${addressBook.network} does not match the deployed system:\n  ${errors.join("\n  ")}`);
+    }
+
+    return registry;
+  }
+
+  public hasModule(name: string): boolean {
+    return this.addressBook.modules[name] !== undefined;
+  }
+
+  public getModule<K extends keyof ProtocolModules>(name: K): ProtocolModules[K] {
+    const address = this.addressBook.modules[name];
+    if (!address) {
+      throw new Error(`No ${name} in the ${this.addressBook.network} address book`);
+    }
+
+    return connect(MODULE_CONNECTORS, name, address, this._signerOrProvider);
+  }
+
+  public getAdapter<K extends keyof ProtocolAdapters>(name: K): ProtocolAdapters[K] {
+    const adapter = this.addressBook.adapters[name];
+    if (!adapter) {
+      throw new Error(`No ${name} in the ${this.addressBook.network} address book`);
+    }
+
+    return connect(ADAPTER_CONNECTORS, name, adapter.address, this._signerOrProvider);
+  }
+
+  public getExternal(name: string): Address {
+    const address = this.addressBook.external[name];
+    if (!address) {
+      throw new Error(`No ${name} in the ${this.addressBook.network} address book`);
+    }
+
+    return address;
+  }
+
+  /**
+   * Returns a description of every mismatch between the address book and the Controller and IntegrationRegistry:
+   * modules, factories and resources that are not registered, and integrations pointing at another adapter.
+   */
+  public async validate(): Promise<string[]> {
+    const errors: string[] = [];
+    const { core, modules, adapters } = this.addressBook;
+
+    const registeredModules = (await this.controller.getModules()).map(address => address.toLowerCase());
+    Object.keys(modules).forEach(name => {
+      if (registeredModules.indexOf(modules[name].toLowerCase()) === -1) {
+        errors.push(`Module ${name} at ${modules[name]} is not registered on the Controller`);
+      }
+    });
+
+    const registeredFactories = (await this.controller.getFactories()).map(address => address.toLowerCase());
+    if (registeredFactories.indexOf(core.CKTokenCreator.toLowerCase()) === -1) {
+      errors.push(`Factory CKTokenCreator at ${core.CKTokenCreator} is not registered on the Controller`);
+    }
+
+    const registeredResources = (await this.controller.getResources()).map(address => address.toLowerCase());
+    const resourceNames = Object.keys(RESOURCE_IDS);
+    for (let i = 0; i < resourceNames.length; i++) {
+      const name = resourceNames[i];
+      if (registeredResources.indexOf(core[name].toLowerCase()) === -1) {
+        errors.push(`Resource ${name} at ${core[name]} is not registered on the Controller`);
+      } else if ((await this.controller.resourceId(RESOURCE_IDS[name])).toLowerCase() !== core[name].toLowerCase()) {
+        errors.push(`Resource ${name} at ${core[name]} is not registered under id ${RESOURCE_IDS[name]}`);
+      }
+    }
+
+    const adapterNames = Object.keys(adapters);
+    for (let i = 0; i < adapterNames.length; i++) {
+      const adapter = adapters[adapterNames[i]];
+
+      for (let j = 0; j < adapter.integrations.length; j++) {
+        const { module, integrationName } = adapter.integrations[j];
+        const moduleAddress = modules[module] || module;
+        const registeredAdapter = await this.integrationRegistry.getIntegrationAdapter(moduleAddress, integrationName);
+
+        if (registeredAdapter.toLowerCase() !== adapter.address.toLowerCase()) {
+          errors.push(
+            `Integration ${integrationName} on ${module} resolves to ${registeredAdapter} instead of ${adapterNames[i]} at ${adapter.address}`
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /* ============ Private Functions ============ */
+
+  private _getCoreAddress(name: string): Address {
+    const address = this.addressBook.core[name];
+    if (!address) {
+      throw new Error(`No ${name} in the ${this.addressBook.network} address book`);
+    }
+
+    return address;
+  }
+}
+
+// Indexes the connectors through a generic map so the returned contract keeps the type of the requested name
+function connect<T, K extends keyof T>(
+  connectors: Connectors<T>,
+  name: K,
+  address: Address,
+  signerOrProvider: Signer | Provider
+): T[K] {
+  return connectors[name](address, signerOrProvider);
+}
@@ -0,0 +1,50 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { utils } from "ethers";
+
+import { Address } from "../types";
+import { readAddressBook } from "../deploys/addressBook";
+
+export type AddressBook = { [name: string]: Address };
+
+// Contracts of the network hardhat is connected to keyed by name. Reads the network's address book when one was
+// written and falls back to the deployments saved by the deploy scripts otherwise.
+export async function loadAddressBook(hre: HardhatRuntimeEnvironment): Promise<AddressBook> {
+  const networkAddressBook = readAddressBook(hre.network.name);
+  if (networkAddressBook) {
+    const { core, modules, adapters, external } = networkAddressBook;
+
+    const addressBook: AddressBook = { ...external, ...core, ...modules };
+    Object.keys(adapters).forEach(name => {
+      addressBook[name] = adapters[name].address;
+    });
+
+    return addressBook;
+  }
+
+  const deployments = await hre.deployments.all();
+
+  const addressBook: AddressBook = {};
+  Object.keys(deployments).forEach(name => {
+    addressBook[name] = deployments[name].address;
+  });
+
+  return addressBook;
+}
+
+// Task arguments accept either a raw address or the name of a contract in the address book
+export function resolveAddress(addressBook: AddressBook, nameOrAddress: string): Address {
+  if (utils.isAddress(nameOrAddress)) {
+    return utils.getAddress(nameOrAddress);
+  }
+
+  const name = Object.keys(addressBook).filter(key => key.toLowerCase() === nameOrAddress.toLowerCase())[0];
+  if (!name) {
+    throw new Error(`${nameOrAddress} is neither an address nor a contract in the address book`);
+  }
+
+  return addressBook[name];
+}
+
+export function getAddressName(addressBook: AddressBook, address: Address): string | undefined {
+  return Object.keys(addressBook).filter(name => addressBook[name].toLowerCase() === address.toLowerCase())[0];
+}
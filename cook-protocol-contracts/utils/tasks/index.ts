@@ -1,2 +1,4 @@
+export * from "./addressBook";
 export * from "./artifactUtils";
 export * from "./setupNativeSolc";
+export * from "./taskUtils";
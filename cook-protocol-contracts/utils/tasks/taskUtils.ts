@@ -0,0 +1,21 @@
+import type { Contract, ContractReceipt } from "ethers";
+
+// Sends the transaction and returns its receipt, or with `dryRun` only simulates it through callStatic and returns the simulated result
+export function sendOrSimulate(contract: Contract, method: string, args: unknown[], dryRun: true): Promise<unknown>;
+export function sendOrSimulate(contract: Contract, method: string, args: unknown[], dryRun: false): Promise<ContractReceipt>;
+export function sendOrSimulate(contract: Contract, method: string, args: unknown[], dryRun: boolean): Promise<ContractReceipt | unknown>;
+export async function sendOrSimulate(contract: Contract, method: string, args: unknown[], dryRun: boolean): Promise<ContractReceipt | unknown> {
+  if (dryRun) {
+    const result = await contract.callStatic[method](...args);
+    console.log(`[dry-run] ${method} succeeds`);
+    return result;
+  }
+
+  const tx = await contract[method](...args);
+  console.log(`${method} sent in ${tx.hash}`);
+  return tx.wait();
+}
+
+export function parseList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(item => item.length > 0);
+}
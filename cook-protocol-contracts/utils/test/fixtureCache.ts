@@ -0,0 +1,221 @@
+// Use HARDHAT version of providers
+import { ethers } from "hardhat";
+import { Account } from "./types";
+
+import {
+  AaveFixture,
+  AaveV2Fixture,
+  BalancerFixture,
+  CompoundFixture,
+  KyberV3DMMFixture,
+  SystemFixture,
+  SystemFixtureOptions,
+  UniswapFixture,
+  UniswapV3Fixture,
+  YearnFixture,
+} from "../fixtures";
+import { Blockchain } from "../common";
+
+const provider = ethers.provider;
+const blockchain = new Blockchain(provider);
+
+interface FixtureCacheEntry {
+  key: string;
+  snapshotId: string;
+  fixture: unknown;                   // Returned as the type the fixture was first loaded with
+}
+
+export interface FixtureCacheStats {
+  deployments: { [key: string]: number };
+  restores: { [key: string]: number };
+}
+
+export interface FixtureCombination {
+  system?: SystemFixtureOptions;
+  aave?: boolean;
+  aaveV2?: boolean;
+  balancer?: boolean;
+  compound?: boolean;
+  kyberV3DMM?: boolean;
+  sushiswap?: boolean;
+  uniswap?: boolean;
+  uniswapV3?: boolean;
+  yearn?: boolean;
+}
+
+export interface ProtocolFixtures {
+  aave: AaveFixture;
+  aaveV2: AaveV2Fixture;
+  balancer: BalancerFixture;
+  compound: CompoundFixture;
+  kyberV3DMM: KyberV3DMMFixture;
+  sushiswap: UniswapFixture;
+  uniswap: UniswapFixture;
+  uniswapV3: UniswapV3Fixture;
+  yearn: YearnFixture;
+}
+
+// Protocol fixtures flagged `true` in the combination are always set, the others may be undefined
+export type CachedFixtures<C extends FixtureCombination = FixtureCombination> = { system: SystemFixture } & {
+  [K in keyof ProtocolFixtures]: C[K] extends true ? ProtocolFixtures[K] : ProtocolFixtures[K] | undefined;
+};
+
+type DeployedFixtures = { system: SystemFixture } & Partial<ProtocolFixtures>;
+
+// Snapshots are only valid until the chain is reverted to an earlier one, so the cache is kept in the order the
+// snapshots were taken. Restoring an entry drops every entry after it, which is redeployed the next time it is loaded.
+const ENTRIES: FixtureCacheEntry[] = [];
+const STATS: FixtureCacheStats = { deployments: {}, restores: {} };
+
+/**
+ * Deploys a fixture the first time its name and configuration are loaded in a test run and snapshots the chain right
+ * after. Later loads, from any spec file, revert to that snapshot and return the same fixture object instead of
+ * deploying again. Everything a spec did to the chain before the load is discarded, so load fixtures before taking any
+ * snapshot of your own (in the top level `before` or `cacheBeforeEach` of a spec) and treat the returned object as
+ * read-only; deploy anything spec specific after the load.
+ *
+ * A spec reverting to a snapshot it took before the load, e.g. a load in a `beforeEach` under
+ * addSnapshotBeforeRestoreAfterEach, discards the fixture's snapshot along with its contracts. The next load then
+ * deploys the fixture again instead of restoring it.
+ */
+export async function loadFixture<T>(name: string, deploy: () => Promise<T>, config: unknown = {}): Promise<T> {
+  const key = getFixtureKey(name, config);
+
+  const index = getEntryIndex(key);
+  if (index !== -1) {
+    const entry = ENTRIES[index];
+    ENTRIES.splice(index);
+
+    // evm_revert returns false when the snapshot was discarded by a revert to an earlier one outside of the cache
+    if (await provider.send("evm_revert", [entry.snapshotId])) {
+      entry.snapshotId = await blockchain.saveSnapshotAsync();
+      ENTRIES.push(entry);
+      STATS.restores[key] = (STATS.restores[key] || 0) + 1;
+
+      return entry.fixture as T;
+    }
+  }
+
+  const fixture = await deploy();
+  ENTRIES.push({ key, snapshotId: await blockchain.saveSnapshotAsync(), fixture });
+  STATS.deployments[key] = (STATS.deployments[key] || 0) + 1;
+
+  return fixture;
+}
+
+/**
+ * Loads the SystemFixture together with the protocol fixtures flagged in the combination, all owned by `owner`. Each
+ * combination is cached under its own key; protocol fixtures are initialized against the system's WETH, WBTC and DAI
+ * the same way the specs set them up.
+ */
+export async function loadFixtureCombination<C extends FixtureCombination = {}>(
+  owner: Account,
+  combination: C = {} as C
+): Promise<CachedFixtures<C>> {
+  return loadFixture(
+    "combination",
+    async () => (await deployFixtureCombination(owner, combination)) as CachedFixtures<C>,
+    { owner: owner.address, combination }
+  );
+}
+
+export function getFixtureCacheStats(): FixtureCacheStats {
+  return STATS;
+}
+
+// Builds a key that does not depend on the order the configuration's properties were written in
+export function getFixtureKey(name: string, config: unknown = {}): string {
+  return `${name}:${stableStringify(config)}`;
+}
+
+async function deployFixtureCombination(owner: Account, combination: FixtureCombination): Promise<DeployedFixtures> {
+  const system = new SystemFixture(provider, owner.address);
+  await system.initialize(combination.system);
+
+  const fixtures: DeployedFixtures = { system };
+
+  if (combination.aave) {
+    fixtures.aave = new AaveFixture(provider, owner.address);
+    await fixtures.aave.initialize();
+  }
+
+  if (combination.aaveV2) {
+    fixtures.aaveV2 = new AaveV2Fixture(provider, owner.address);
+    await fixtures.aaveV2.initialize(system.weth.address, system.dai.address);
+  }
+
+  if (combination.balancer) {
+    fixtures.balancer = new BalancerFixture(provider, owner.address);
+    await fixtures.balancer.initialize(owner, system.weth, system.wbtc, system.dai);
+  }
+
+  if (combination.compound) {
+    fixtures.compound = new CompoundFixture(provider, owner.address);
+    await fixtures.compound.initialize();
+  }
+
+  if (combination.kyberV3DMM) {
+    fixtures.kyberV3DMM = new KyberV3DMMFixture(provider, owner.address);
+    await fixtures.kyberV3DMM.initialize(owner, system.weth.address, system.wbtc.address, system.dai.address);
+  }
+
+  if (combination.sushiswap) {
+    fixtures.sushiswap = new UniswapFixture(provider, owner.address);
+    await fixtures.sushiswap.initialize(owner, system.weth.address, system.wbtc.address, system.dai.address);
+  }
+
+  if (combination.uniswap) {
+    fixtures.uniswap = new UniswapFixture(provider, owner.address);
+    await fixtures.uniswap.initialize(owner, system.weth.address, system.wbtc.address, system.dai.address);
+  }
+
+  if (combination.uniswapV3) {
+    fixtures.uniswapV3 = new UniswapV3Fixture(provider, owner.address);
+    await fixtures.uniswapV3.initialize(
+      owner,
+      system.weth.address,
+      230,
+      system.wbtc.address,
+      9000,
+      system.dai.address
+    );
+  }
+
+  if (combination.yearn) {
+    fixtures.yearn = new YearnFixture(provider, owner.address);
+    await fixtures.yearn.initialize();
+  }
+
+  return fixtures;
+}
+
+function getEntryIndex(key: string): number {
+  for (let i = 0; i < ENTRIES.length; i++) {
+    if (ENTRIES[i].key === key) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const object = value as { [property: string]: unknown; toJSON?: () => unknown };
+    if (typeof object.toJSON === "function") {
+      return stableStringify(object.toJSON());
+    }
+
+    const properties = Object.keys(object)
+      .filter(property => object[property] !== undefined)
+      .sort()
+      .map(property => `${JSON.stringify(property)}:${stableStringify(object[property])}`);
+    return `{${properties.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
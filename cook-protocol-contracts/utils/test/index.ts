@@ -2,7 +2,19 @@
 import { ethers } from "hardhat";
 import { Address } from "../types";
 
-import { AaveFixture, BalancerFixture, CompoundFixture, CurveFixture, SystemFixture, UniswapFixture, YearnFixture } from "../fixtures";
+import {
+  AaveFixture,
+  AaveV2Fixture,
+  AMMSplitterFixture,
+  BalancerFixture,
+  CompoundFixture,
+  CurveFixture,
+  KyberV3DMMFixture,
+  SystemFixture,
+  UniswapFixture,
+  UniswapV3Fixture,
+  YearnFixture,
+} from "../fixtures";
 import { Blockchain, ProtocolUtils } from "../common";
 
 // Hardhat-Provider Aware Exports
@@ -11,10 +23,14 @@ export const getSystemFixture = (ownerAddress: Address) => new SystemFixture(pro
 export const getProtocolUtils = () => new ProtocolUtils(provider);
 export const getBlockchainUtils = () => new Blockchain(provider);
 export const getAaveFixture = (ownerAddress: Address) => new AaveFixture(provider, ownerAddress);
+export const getAaveV2Fixture = (ownerAddress: Address) => new AaveV2Fixture(provider, ownerAddress);
+export const getAMMSplitterFixture = (ownerAddress: Address) => new AMMSplitterFixture(provider, ownerAddress);
 export const getBalancerFixture = (ownerAddress: Address) => new BalancerFixture(provider, ownerAddress);
 export const getCurveFixture = (ownerAddress: Address) => new CurveFixture(provider, ownerAddress);
 export const getCompoundFixture = (ownerAddress: Address) => new CompoundFixture(provider, ownerAddress);
+export const getKyberV3DMMFixture = (ownerAddress: Address) => new KyberV3DMMFixture(provider, ownerAddress);
 export const getUniswapFixture = (ownerAddress: Address) => new UniswapFixture(provider, ownerAddress);
+export const getUniswapV3Fixture = (ownerAddress: Address) => new UniswapV3Fixture(provider, ownerAddress);
 export const getYearnFixture = (ownerAddress: Address) => new YearnFixture(provider, ownerAddress);
 
 export {
@@ -32,6 +48,38 @@ export {
   mineBlockAsync,
   cacheBeforeEach
 } from "./testingUtils";
+export {
+  CachedFixtures,
+  FixtureCacheStats,
+  FixtureCombination,
+  getFixtureCacheStats,
+  getFixtureKey,
+  loadFixture,
+  loadFixtureCombination,
+  ProtocolFixtures
+} from "./fixtureCache";
+export {
+  AccrueFeeStep,
+  AdvanceTimeStep,
+  CustomStep,
+  DeleverStep,
+  ExpectedBalance,
+  ExpectedPosition,
+  IssueStep,
+  LeverStep,
+  MovePriceStep,
+  RedeemStep,
+  runScenario,
+  ScenarioActors,
+  ScenarioContext,
+  ScenarioDefinition,
+  ScenarioExpectation,
+  ScenarioIssuanceModule,
+  ScenarioLeverageModule,
+  ScenarioRunner,
+  ScenarioStep,
+  ScenarioSystem
+} from "./scenario";
 export {
   getRandomAddress
 } from "../common";
@@ -0,0 +1,492 @@
+import * as fc from "fast-check";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address } from "../types";
+import { EMPTY_BYTES, MAX_UINT_256, PRECISE_UNIT, ZERO } from "../constants";
+import { AirdropModule, CKToken, TradeAdapterMock, TradeModule } from "../contracts";
+import { SystemFixture } from "../fixtures";
+import { Blockchain, ether, preciseMul } from "../common";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { ScenarioIssuanceModule } from "./scenario";
+import { formatTable, labelAddress } from "./tableUtils";
+import { getProvider, getWaffleExpect, increaseTimeAsync } from "./testingUtils";
+import { Account } from "./types";
+
+const expect = getWaffleExpect();
+
+// Every command sends several transactions, so runs are far more expensive than the PreciseUnitMath properties. Override
+// with INVARIANT_RUNS for longer local fuzzing sessions
+export const INVARIANT_RUNS = process.env.INVARIANT_RUNS ? parseInt(process.env.INVARIANT_RUNS) : 10;
+
+export interface InvariantSystem {
+  setup: SystemFixture;
+  ckToken: CKToken;                       // Must have the issuance, streaming fee, airdrop and trade modules initialized
+  manager: Account;                       // Calls the TradeModule
+  funder: Account;                        // Holds the component supply issuances, airdrops and trades are funded from
+  actors: Account[];                      // Issue and redeem, must not receive fees
+  issuanceModules: ScenarioIssuanceModule[];
+  airdropModule: AirdropModule;           // Must allow anyone to absorb every SystemFixture component
+  tradeModule: TradeModule;
+  tradeAdapter: TradeAdapterMock;
+  tradeAdapterName: string;
+}
+
+export interface InvariantModel {
+  deposited: BigNumber[];                 // Per actor value of components sent to issuance modules
+  withdrawn: BigNumber[];                 // Per actor value of components received on redemption
+  credited: BigNumber[];                  // Per actor value accrued by holding CKTokens through airdrops and trades
+  dust: BigNumber[];                      // Per actor rounding allowance, one base unit of every component per credit
+  history: string[];
+}
+
+export interface InvariantHarnessOptions {
+  numRuns?: number;                       // Defaults to INVARIANT_RUNS
+  maxCommands?: number;                   // Defaults to 15
+  seed?: number;                          // Replays a failing run
+}
+
+export type InvariantCommand = fc.AsyncCommand<InvariantModel, InvariantSystem>;
+
+export interface InvariantComponent {
+  address: Address;
+  price: BigNumber;                       // 18 decimal USD price, constant for the whole run
+  decimals: number;
+}
+
+/**
+ * Stateful invariant harness over a single CKToken. fast-check generates random interleavings of issuance and
+ * redemption through every issuance module, streaming fee accruals, airdrop absorbs and trades across the actors, and
+ * after every command checks that:
+ *
+ * - the CKToken holds at least totalSupply * realUnit of every default position component
+ * - no actor has withdrawn plus still holds redeemable value exceeding what they deposited plus what accrued to their
+ *   balance, valued at the SystemFixture oracle prices which stay constant through a run
+ *
+ * Every run starts from an EVM snapshot of the passed system and a failing run is shrunk to a minimal command list.
+ */
+export async function runInvariantHarness(system: InvariantSystem, options: InvariantHarnessOptions = {}): Promise<void> {
+  const blockchain = new Blockchain(getProvider());
+  const components = getInvariantComponents(system.setup);
+
+  await fc.assert(
+    fc.asyncProperty(fc.commands(getInvariantCommands(system, components), options.maxCommands || 15), async commands => {
+      const snapshotId = await blockchain.saveSnapshotAsync();
+
+      try {
+        await fc.asyncModelRun(() => ({ model: createInvariantModel(system.actors.length), real: system }), commands);
+      } finally {
+        await blockchain.revertByIdAsync(snapshotId);
+      }
+    }),
+    { numRuns: options.numRuns || INVARIANT_RUNS, seed: options.seed }
+  );
+}
+
+export function createInvariantModel(actorCount: number): InvariantModel {
+  const zeros = (): BigNumber[] => {
+    const values: BigNumber[] = [];
+    for (let i = 0; i < actorCount; i++) {
+      values.push(ZERO);
+    }
+    return values;
+  };
+
+  return {
+    deposited: zeros(),
+    withdrawn: zeros(),
+    credited: zeros(),
+    dust: zeros(),
+    history: [],
+  };
+}
+
+export function getInvariantCommands(
+  system: InvariantSystem,
+  components: InvariantComponent[] = getInvariantComponents(system.setup)
+): fc.Arbitrary<InvariantCommand>[] {
+  const actorIndex = fc.nat(system.actors.length - 1);
+  const moduleIndex = fc.nat(system.issuanceModules.length - 1);
+  const componentIndex = fc.nat(components.length - 1);
+  const percentage = fc.integer(1, 100);
+
+  return [
+    fc.tuple(moduleIndex, actorIndex, fc.integer(1, 10000)).map(
+      ([module, actor, milliTokens]) => new IssueCommand(components, module, actor, ether(1).mul(milliTokens).div(1000))
+    ),
+    fc.tuple(moduleIndex, actorIndex, percentage).map(
+      ([module, actor, percent]) => new RedeemCommand(components, module, actor, percent)
+    ),
+    fc.integer(1, 365).map(days => new AccrueFeeCommand(components, days)),
+    fc.tuple(componentIndex, fc.integer(1, 1000)).map(
+      ([component, dollars]) => new AirdropCommand(components, component, dollars)
+    ),
+    fc.tuple(componentIndex, componentIndex, percentage, fc.integer(0, 500)).map(
+      ([send, receive, percent, slippageBps]) => new TradeCommand(components, send, receive, percent, slippageBps)
+    ),
+  ];
+}
+
+/**
+ * Fails with a table of the offending components and actors if the CKToken does not hold totalSupply * realUnit of
+ * every default position or an actor can extract more value than the model says they are entitled to
+ */
+export async function checkInvariants(
+  system: InvariantSystem,
+  model: InvariantModel,
+  components: InvariantComponent[] = getInvariantComponents(system.setup)
+): Promise<void> {
+  const failures: string[] = [];
+  const labels = getLabels(system);
+
+  const collateralTable = await getCollateralizationTable(system, labels);
+  if (collateralTable !== undefined) {
+    failures.push(`Components do not cover totalSupply * realUnit:\n${collateralTable}`);
+  }
+
+  const extractionTable = await getExtractionTable(system, model, components, labels);
+  if (extractionTable !== undefined) {
+    failures.push(`Actors can extract more value than deposited:\n${extractionTable}`);
+  }
+
+  if (failures.length > 0) {
+    const history = model.history.length > 0 ? model.history.join(", ") : "no commands";
+    expect.fail(`Invariants broken after ${history}\n\n${failures.join("\n\n")}`);
+  }
+}
+
+/* ============ Commands ============ */
+
+abstract class InvariantHarnessCommand implements InvariantCommand {
+  protected _components: InvariantComponent[];
+
+  constructor(components: InvariantComponent[]) {
+    this._components = components;
+  }
+
+  public check(): boolean {
+    return true;
+  }
+
+  public async run(model: InvariantModel, system: InvariantSystem): Promise<void> {
+    const balancesBefore = await this._getActorBalances(system);
+    const valuePerTokenBefore = await getValuePerToken(system.ckToken, this._components);
+
+    await this.execute(model, system);
+    model.history.push(this.toString());
+
+    // Any increase in the value backing each CKToken accrues to the holders prior to the command
+    const valueAccrued = (await getValuePerToken(system.ckToken, this._components)).sub(valuePerTokenBefore);
+    if (valueAccrued.gt(0)) {
+      const dustPerCredit = getDustPerCredit(this._components);
+
+      balancesBefore.forEach((balance, i) => {
+        model.credited[i] = model.credited[i].add(preciseMul(balance, valueAccrued));
+        model.dust[i] = model.dust[i].add(dustPerCredit);
+      });
+    }
+
+    await checkInvariants(system, model, this._components);
+  }
+
+  public abstract execute(model: InvariantModel, system: InvariantSystem): Promise<void>;
+
+  public abstract toString(): string;
+
+  protected async _getComponentBalances(holder: Address, system: InvariantSystem): Promise<BigNumber[]> {
+    const balances: BigNumber[] = [];
+    for (let i = 0; i < this._components.length; i++) {
+      balances.push(await ERC20__factory.connect(this._components[i].address, system.funder.wallet).balanceOf(holder));
+    }
+    return balances;
+  }
+
+  // Value of the component balances the holder gained, negative if they sent more than they received
+  protected _getValueChange(before: BigNumber[], after: BigNumber[]): BigNumber {
+    return this._components.reduce(
+      (total, component, i) => total.add(getValue(component, after[i].sub(before[i]))),
+      ZERO
+    );
+  }
+
+  private async _getActorBalances(system: InvariantSystem): Promise<BigNumber[]> {
+    const balances: BigNumber[] = [];
+    for (let i = 0; i < system.actors.length; i++) {
+      balances.push(await system.ckToken.balanceOf(system.actors[i].address));
+    }
+    return balances;
+  }
+}
+
+class IssueCommand extends InvariantHarnessCommand {
+  private _moduleIndex: number;
+  private _actorIndex: number;
+  private _quantity: BigNumber;
+
+  constructor(components: InvariantComponent[], moduleIndex: number, actorIndex: number, quantity: BigNumber) {
+    super(components);
+    this._moduleIndex = moduleIndex;
+    this._actorIndex = actorIndex;
+    this._quantity = quantity;
+  }
+
+  public async execute(model: InvariantModel, system: InvariantSystem): Promise<void> {
+    const actor = system.actors[this._actorIndex];
+    const module = system.issuanceModules[this._moduleIndex];
+
+    // Fund the actor with the exact (rounded up) amounts issuance pulls so deposits are measured from real transfers
+    const components = await system.ckToken.getComponents();
+    for (let i = 0; i < components.length; i++) {
+      const unit = await system.ckToken.getDefaultPositionRealUnit(components[i]);
+      const amount = this._quantity.mul(unit).add(PRECISE_UNIT.sub(1)).div(PRECISE_UNIT);
+
+      await ERC20__factory.connect(components[i], system.funder.wallet).transfer(actor.address, amount);
+      await ERC20__factory.connect(components[i], actor.wallet).approve(module.address, MAX_UINT_256);
+    }
+
+    const balancesBefore = await this._getComponentBalances(actor.address, system);
+    await module.connect(actor.wallet).issue(system.ckToken.address, this._quantity, actor.address);
+    const balancesAfter = await this._getComponentBalances(actor.address, system);
+
+    model.deposited[this._actorIndex] = model.deposited[this._actorIndex].sub(this._getValueChange(balancesBefore, balancesAfter));
+  }
+
+  public toString(): string {
+    return `issue(module ${this._moduleIndex}, actor ${this._actorIndex}, ${this._quantity.toString()})`;
+  }
+}
+
+class RedeemCommand extends InvariantHarnessCommand {
+  private _moduleIndex: number;
+  private _actorIndex: number;
+  private _percentage: number;
+
+  constructor(components: InvariantComponent[], moduleIndex: number, actorIndex: number, percentage: number) {
+    super(components);
+    this._moduleIndex = moduleIndex;
+    this._actorIndex = actorIndex;
+    this._percentage = percentage;
+  }
+
+  public async execute(model: InvariantModel, system: InvariantSystem): Promise<void> {
+    const actor = system.actors[this._actorIndex];
+    const quantity = (await system.ckToken.balanceOf(actor.address)).mul(this._percentage).div(100);
+    if (quantity.isZero()) {
+      return;
+    }
+
+    const balancesBefore = await this._getComponentBalances(actor.address, system);
+    await system.issuanceModules[this._moduleIndex].connect(actor.wallet).redeem(system.ckToken.address, quantity, actor.address);
+    const balancesAfter = await this._getComponentBalances(actor.address, system);
+
+    model.withdrawn[this._actorIndex] = model.withdrawn[this._actorIndex].add(this._getValueChange(balancesBefore, balancesAfter));
+  }
+
+  public toString(): string {
+    return `redeem(module ${this._moduleIndex}, actor ${this._actorIndex}, ${this._percentage}%)`;
+  }
+}
+
+class AccrueFeeCommand extends InvariantHarnessCommand {
+  private _days: number;
+
+  constructor(components: InvariantComponent[], days: number) {
+    super(components);
+    this._days = days;
+  }
+
+  public async execute(model: InvariantModel, system: InvariantSystem): Promise<void> {
+    await increaseTimeAsync(BigNumber.from(this._days).mul(24 * 60 * 60));
+    await system.setup.streamingFeeModule.connect(system.funder.wallet).accrueFee(system.ckToken.address);
+  }
+
+  public toString(): string {
+    return `accrueFee(${this._days} days)`;
+  }
+}
+
+class AirdropCommand extends InvariantHarnessCommand {
+  private _componentIndex: number;
+  private _dollars: number;
+
+  constructor(components: InvariantComponent[], componentIndex: number, dollars: number) {
+    super(components);
+    this._componentIndex = componentIndex;
+    this._dollars = dollars;
+  }
+
+  public async execute(model: InvariantModel, system: InvariantSystem): Promise<void> {
+    // Absorbing divides by the supply, tokens airdropped before anyone issues would be stuck
+    if ((await system.ckToken.totalSupply()).isZero()) {
+      return;
+    }
+
+    const component = this._components[this._componentIndex];
+    const amount = ether(this._dollars).mul(BigNumber.from(10).pow(component.decimals)).div(component.price);
+
+    await ERC20__factory.connect(component.address, system.funder.wallet).transfer(system.ckToken.address, amount);
+    await system.airdropModule.connect(system.funder.wallet).absorb(system.ckToken.address, component.address);
+  }
+
+  public toString(): string {
+    return `airdrop($${this._dollars} of component ${this._componentIndex})`;
+  }
+}
+
+class TradeCommand extends InvariantHarnessCommand {
+  private _sendIndex: number;
+  private _receiveIndex: number;
+  private _percentage: number;
+  private _slippageBps: number;
+
+  constructor(components: InvariantComponent[], sendIndex: number, receiveIndex: number, percentage: number, slippageBps: number) {
+    super(components);
+    this._sendIndex = sendIndex;
+    this._receiveIndex = receiveIndex;
+    this._percentage = percentage;
+    this._slippageBps = slippageBps;
+  }
+
+  public check(): boolean {
+    return this._sendIndex !== this._receiveIndex;
+  }
+
+  public async execute(model: InvariantModel, system: InvariantSystem): Promise<void> {
+    const { ckToken } = system;
+    const sendComponent = this._components[this._sendIndex];
+    const receiveComponent = this._components[this._receiveIndex];
+
+    const totalSupply = await ckToken.totalSupply();
+    const sendUnit = (await ckToken.getDefaultPositionRealUnit(sendComponent.address)).mul(this._percentage).div(100);
+    const totalSendQuantity = preciseMul(totalSupply, sendUnit);
+    if (totalSendQuantity.isZero()) {
+      return;
+    }
+
+    // The mock exchange pays out its whole balance, fund it with the oracle value of the sent tokens less slippage
+    const receiveValue = getValue(sendComponent, totalSendQuantity).mul(10000 - this._slippageBps).div(10000);
+    const receiveQuantity = receiveValue.mul(BigNumber.from(10).pow(receiveComponent.decimals)).div(receiveComponent.price);
+    await ERC20__factory.connect(receiveComponent.address, system.funder.wallet).transfer(system.tradeAdapter.address, receiveQuantity);
+
+    await system.tradeModule.connect(system.manager.wallet).trade(
+      ckToken.address,
+      system.tradeAdapterName,
+      sendComponent.address,
+      sendUnit,
+      receiveComponent.address,
+      ZERO,
+      EMPTY_BYTES
+    );
+  }
+
+  public toString(): string {
+    return `trade(${this._percentage}% of component ${this._sendIndex} for component ${this._receiveIndex}, ` +
+      `${this._slippageBps} bps slippage)`;
+  }
+}
+
+/* ============ Helpers ============ */
+
+async function getCollateralizationTable(
+  system: InvariantSystem,
+  labels: { [address: string]: string }
+): Promise<string | undefined> {
+  const { ckToken } = system;
+  const totalSupply = await ckToken.totalSupply();
+  const components = await ckToken.getComponents();
+
+  const rows: string[][] = [];
+  const mismatches: boolean[] = [];
+  for (let i = 0; i < components.length; i++) {
+    const unit = await ckToken.getDefaultPositionRealUnit(components[i]);
+    const required = preciseMul(totalSupply, unit);
+    const balance = await ERC20__factory.connect(components[i], system.funder.wallet).balanceOf(ckToken.address);
+
+    rows.push([labelAddress(components[i], labels), unit.toString(), required.toString(), balance.toString()]);
+    mismatches.push(balance.lt(required));
+  }
+
+  if (mismatches.indexOf(true) === -1) {
+    return undefined;
+  }
+
+  return formatTable(["Component", "Real Unit", "Required", "Balance"], rows, mismatches);
+}
+
+async function getExtractionTable(
+  system: InvariantSystem,
+  model: InvariantModel,
+  components: InvariantComponent[],
+  labels: { [address: string]: string }
+): Promise<string | undefined> {
+  const valuePerToken = await getValuePerToken(system.ckToken, components);
+  const dustPerCredit = getDustPerCredit(components);
+
+  const rows: string[][] = [];
+  const mismatches: boolean[] = [];
+  for (let i = 0; i < system.actors.length; i++) {
+    const holding = preciseMul(await system.ckToken.balanceOf(system.actors[i].address), valuePerToken);
+    const extractable = model.withdrawn[i].add(holding);
+    const entitled = model.deposited[i].add(model.credited[i]);
+
+    rows.push([
+      labelAddress(system.actors[i].address, labels),
+      model.deposited[i].toString(),
+      model.credited[i].toString(),
+      model.withdrawn[i].toString(),
+      holding.toString(),
+      extractable.sub(entitled).toString(),
+    ]);
+    // Redeeming floors each component, so valuing the holding as a whole can overstate it by one more credit of dust
+    mismatches.push(extractable.gt(entitled.add(model.dust[i]).add(dustPerCredit)));
+  }
+
+  if (mismatches.indexOf(true) === -1) {
+    return undefined;
+  }
+
+  return formatTable(["Actor", "Deposited", "Credited", "Withdrawn", "Holding", "Excess"], rows, mismatches);
+}
+
+// Value of a component amount in 18 decimal USD
+function getValue(component: InvariantComponent, amount: BigNumber): BigNumber {
+  return amount.mul(component.price).div(BigNumber.from(10).pow(component.decimals));
+}
+
+async function getValuePerToken(ckToken: CKToken, components: InvariantComponent[]): Promise<BigNumber> {
+  let value = ZERO;
+  for (let i = 0; i < components.length; i++) {
+    const unit = await ckToken.getDefaultPositionRealUnit(components[i].address);
+    value = value.add(getValue(components[i], unit));
+  }
+  return value;
+}
+
+// Units are floored on every edit, so each credit can overstate an actor's claim by a base unit of every component
+function getDustPerCredit(components: InvariantComponent[]): BigNumber {
+  return components.reduce((total, component) => total.add(getValue(component, BigNumber.from(1))).add(1), ZERO);
+}
+
+function getInvariantComponents(setup: SystemFixture): InvariantComponent[] {
+  return [
+    { address: setup.weth.address, price: setup.component1Price, decimals: 18 },
+    { address: setup.usdc.address, price: setup.component2Price, decimals: 6 },
+    { address: setup.wbtc.address, price: setup.component3Price, decimals: 8 },
+    { address: setup.dai.address, price: setup.component4Price, decimals: 18 },
+  ];
+}
+
+function getLabels(system: InvariantSystem): { [address: string]: string } {
+  const { setup } = system;
+  const labels: { [address: string]: string } = {
+    [setup.weth.address.toLowerCase()]: "WETH",
+    [setup.usdc.address.toLowerCase()]: "USDC",
+    [setup.wbtc.address.toLowerCase()]: "WBTC",
+    [setup.dai.address.toLowerCase()]: "DAI",
+  };
+
+  system.actors.forEach((actor, i) => {
+    labels[actor.address.toLowerCase()] = `actor ${i}`;
+  });
+
+  return labels;
+}
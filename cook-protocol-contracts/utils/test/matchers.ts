@@ -0,0 +1,163 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, Position } from "../types";
+import { ADDRESS_ZERO, EMPTY_BYTES } from "../constants";
+import { CKToken } from "../contracts";
+import { ComparedPosition, diffPositions, formatTable, isWithinTolerance, labelAddress } from "./tableUtils";
+
+const MODULE_STATES = ["NONE", "PENDING", "INITIALIZED"];
+
+declare global {
+  export namespace Chai {
+    interface Assertion {
+      havePositions(positions: Position[], tolerance?: BigNumber): Promise<void>;
+      haveDefaultUnit(component: Address, unit: BigNumber, tolerance?: BigNumber): Promise<void>;
+      haveExternalUnit(component: Address, module: Address, unit: BigNumber, tolerance?: BigNumber): Promise<void>;
+      haveModuleState(module: Address, state: number): Promise<void>;
+    }
+  }
+}
+
+/**
+ * Chai plugin asserting on CKToken positions and module states. The matchers read the CKToken so they must be
+ * awaited, e.g. `await expect(ckToken).to.havePositions([...])`. Expected positions are built with
+ * ProtocolUtils.getDefaultPosition / getExternalPosition and a mismatch fails with a table of every position.
+ */
+export function ckTokenMatchers(chai: Chai.ChaiStatic): void {
+  const Assertion = chai.Assertion;
+
+  Assertion.addMethod("havePositions", function (this: any, positions: Position[], tolerance?: BigNumber) {
+    const ckToken: CKToken = this._obj;
+
+    return (async () => {
+      const actualPositions = await ckToken.getPositions();
+      const { matches, table } = diffPositions(
+        positions.map(position => ({ ...position, tolerance } as ComparedPosition)),
+        actualPositions
+      );
+
+      this.assert(
+        matches,
+        `Expected CKToken ${ckToken.address} to have positions\n\n${table}`,
+        `Expected CKToken ${ckToken.address} not to have positions\n\n${table}`,
+        positions,
+        actualPositions
+      );
+    })();
+  });
+
+  Assertion.addMethod("haveDefaultUnit", function (this: any, component: Address, unit: BigNumber, tolerance?: BigNumber) {
+    const ckToken: CKToken = this._obj;
+
+    return (async () => {
+      const actualUnit = await ckToken.getDefaultPositionRealUnit(component);
+      const table = await positionTableWith(ckToken, {
+        component,
+        module: ADDRESS_ZERO,
+        positionState: 0,
+        unit,
+        data: EMPTY_BYTES,
+        tolerance,
+      });
+
+      this.assert(
+        isWithinTolerance(actualUnit, unit, tolerance),
+        `Expected CKToken ${ckToken.address} to have default unit ${unit.toString()} of ${component}, ` +
+          `actual ${actualUnit.toString()}\n\n${table}`,
+        `Expected CKToken ${ckToken.address} not to have default unit ${unit.toString()} of ${component}\n\n${table}`,
+        unit.toString(),
+        actualUnit.toString()
+      );
+    })();
+  });
+
+  Assertion.addMethod(
+    "haveExternalUnit",
+    function (this: any, component: Address, module: Address, unit: BigNumber, tolerance?: BigNumber) {
+      const ckToken: CKToken = this._obj;
+
+      return (async () => {
+        const actualUnit = await ckToken.getExternalPositionRealUnit(component, module);
+        const table = await positionTableWith(ckToken, {
+          component,
+          module,
+          positionState: 1,
+          unit,
+          tolerance,
+        });
+
+        this.assert(
+          isWithinTolerance(actualUnit, unit, tolerance),
+          `Expected CKToken ${ckToken.address} to have external unit ${unit.toString()} of ${component} on module ${module}, ` +
+            `actual ${actualUnit.toString()}\n\n${table}`,
+          `Expected CKToken ${ckToken.address} not to have external unit ${unit.toString()} of ${component} on module ${module}\n\n${table}`,
+          unit.toString(),
+          actualUnit.toString()
+        );
+      })();
+    }
+  );
+
+  Assertion.addMethod("haveModuleState", function (this: any, module: Address, state: number) {
+    const ckToken: CKToken = this._obj;
+
+    return (async () => {
+      const actualState = await ckToken.moduleStates(module);
+
+      // Initialized modules plus the asserted module, which may be pending or unknown to the CKToken
+      const modules = (await ckToken.getModules()).slice();
+      if (modules.map(m => m.toLowerCase()).indexOf(module.toLowerCase()) === -1) {
+        modules.push(module);
+      }
+
+      const rows: string[][] = [];
+      const mismatches: boolean[] = [];
+      for (let i = 0; i < modules.length; i++) {
+        const isAsserted = modules[i].toLowerCase() === module.toLowerCase();
+        const moduleState = isAsserted ? actualState : await ckToken.moduleStates(modules[i]);
+
+        rows.push([
+          labelAddress(modules[i]),
+          isAsserted ? formatModuleState(state) : "-",
+          formatModuleState(moduleState),
+        ]);
+        mismatches.push(isAsserted && moduleState !== state);
+      }
+      const table = formatTable(["Module", "Expected State", "Actual State"], rows, mismatches);
+
+      this.assert(
+        actualState === state,
+        `Expected module ${module} to be ${formatModuleState(state)} on CKToken ${ckToken.address}\n\n${table}`,
+        `Expected module ${module} not to be ${formatModuleState(state)} on CKToken ${ckToken.address}\n\n${table}`,
+        formatModuleState(state),
+        formatModuleState(actualState)
+      );
+    })();
+  });
+}
+
+/**
+ * Renders every CKToken position with the asserted position's expectation substituted in, so a single unit assertion
+ * still shows the rest of the CKToken for context
+ */
+async function positionTableWith(ckToken: CKToken, assertedPosition: ComparedPosition): Promise<string> {
+  const actualPositions = await ckToken.getPositions();
+
+  const isAsserted = (position: Position): boolean => {
+    return position.component.toLowerCase() === assertedPosition.component.toLowerCase() &&
+      position.module.toLowerCase() === assertedPosition.module.toLowerCase() &&
+      position.positionState === assertedPosition.positionState;
+  };
+
+  const expectedPositions: ComparedPosition[] = actualPositions.filter(position => !isAsserted(position));
+  // A zero unit is equivalent to the position not existing on the CKToken
+  if (!assertedPosition.unit.isZero() || actualPositions.some(isAsserted)) {
+    expectedPositions.push(assertedPosition);
+  }
+
+  return diffPositions(expectedPositions, actualPositions).table;
+}
+
+function formatModuleState(state: number): string {
+  return MODULE_STATES[state] || state.toString();
+}
@@ -0,0 +1,259 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { ContractTransaction, Overrides } from "ethers";
+
+import { EMPTY_BYTES } from "../constants";
+import { WrapModule, WrapModuleV2 } from "../contracts";
+import { Address } from "../types";
+import { getRevertReason } from "../common/revertUtils";
+import { Account } from "./types";
+import { formatTable } from "./tableUtils";
+import { addSnapshotBeforeRestoreAfterEach, getWaffleExpect } from "./testingUtils";
+
+const expect = getWaffleExpect();
+
+export type ParityVersion = "V1" | "V2";
+
+export const PARITY_VERSIONS: ParityVersion[] = ["V1", "V2"];
+
+export interface ParityContext<T> {
+  version: ParityVersion;
+  readonly system: T;                     // Deployed for the version before its first scenario runs
+  record(scenario: string, observation: unknown): void;
+}
+
+export interface ParitySuite<T> {
+  deploy(version: ParityVersion): Promise<T>;
+  scenarios(context: ParityContext<T>): void;             // Declares the tests run once against every version
+  intendedDifferences?: { [scenario: string]: string };   // Why V1 and V2 disagree, by scenario
+}
+
+// WrapModule's entry points, which WrapModuleV2 extends with a trailing wrap data argument
+export interface WrapModuleEntryPoints {
+  wrap(
+    ckToken: Address,
+    underlyingToken: Address,
+    wrappedToken: Address,
+    underlyingUnits: BigNumberish,
+    integrationName: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+  wrapWithEther(
+    ckToken: Address,
+    wrappedToken: Address,
+    underlyingUnits: BigNumberish,
+    integrationName: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+  unwrap(
+    ckToken: Address,
+    underlyingToken: Address,
+    wrappedToken: Address,
+    wrappedUnits: BigNumberish,
+    integrationName: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+  unwrapWithEther(
+    ckToken: Address,
+    wrappedToken: Address,
+    wrappedUnits: BigNumberish,
+    integrationName: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+}
+
+export interface ParityResult {
+  scenario: string;
+  observations: { [version: string]: string | undefined };
+  intendedDifference: string | undefined;
+}
+
+/**
+ * Runs a suite's scenarios once against the V1 contracts and once against their V2 counterparts, each version from its
+ * own deploy and with a snapshot restored after every test, then compares what the scenarios recorded on each version.
+ *
+ * Scenarios recorded by both versions must record the same observation, BigNumbers compared by value, unless they are
+ * listed in intendedDifferences. Intended differences get a test of their own asserting V1 and V2 still disagree, so
+ * the list documents the behavioral changes between versions and fails once one of them no longer holds. Scenarios
+ * only recorded by one version, e.g. features the other version lacks, are listed in the report but not compared.
+ */
+export function describeParity<T>(title: string, suite: ParitySuite<T>): void {
+  const intendedDifferences = suite.intendedDifferences || {};
+  const observations: { [version: string]: { [scenario: string]: string } } = {};
+
+  describe(title, () => {
+    PARITY_VERSIONS.forEach(version => {
+      observations[version] = {};
+      const context = new VersionContext<T>(version, observations[version]);
+
+      describe(version, () => {
+        before(async () => {
+          context.deployed(await suite.deploy(version));
+        });
+
+        addSnapshotBeforeRestoreAfterEach();
+
+        suite.scenarios(context);
+      });
+    });
+
+    describe("V1 and V2 parity", () => {
+      Object.keys(intendedDifferences).forEach(scenario => {
+        it(`should differ on ${scenario}: ${intendedDifferences[scenario]}`, function() {
+          const [v1, v2] = PARITY_VERSIONS.map(version => observations[version][scenario]);
+          if (v1 === undefined || v2 === undefined) {
+            this.skip();
+          }
+
+          expect(v1, `${scenario} is listed as an intended difference but V1 and V2 both record ${v1}`).to.not.eq(v2);
+        });
+      });
+
+      it("should record the same observations on V1 and V2 outside of the intended differences", () => {
+        const results = getParityResults(observations, intendedDifferences);
+        const mismatches = results.map(result => isUnintendedDifference(result));
+
+        if (mismatches.indexOf(true) !== -1) {
+          expect.fail(`V1 and V2 disagree outside of the intended differences\n\n${formatParityResults(results, mismatches)}`);
+        }
+      });
+    });
+  });
+}
+
+export function getParityResults(
+  observations: { [version: string]: { [scenario: string]: string } },
+  intendedDifferences: { [scenario: string]: string } = {}
+): ParityResult[] {
+  const scenarios: string[] = [];
+  PARITY_VERSIONS.forEach(version => {
+    Object.keys(observations[version] || {}).forEach(scenario => {
+      if (scenarios.indexOf(scenario) === -1) {
+        scenarios.push(scenario);
+      }
+    });
+  });
+
+  return scenarios.map(scenario => {
+    const versionObservations: { [version: string]: string | undefined } = {};
+    PARITY_VERSIONS.forEach(version => {
+      versionObservations[version] = (observations[version] || {})[scenario];
+    });
+
+    return { scenario, observations: versionObservations, intendedDifference: intendedDifferences[scenario] };
+  });
+}
+
+export function formatParityResults(results: ParityResult[], mismatches: boolean[] = []): string {
+  const rows = results.map(result => [
+    result.scenario,
+    ...PARITY_VERSIONS.map(version => result.observations[version] || "-"),
+    result.intendedDifference || "",
+  ]);
+
+  return formatTable(["Scenario", ...PARITY_VERSIONS, "Intended Difference"], rows, mismatches);
+}
+
+/**
+ * Returns the revert reason of a call, or "success" if it goes through, so scenarios can record failures as observations
+ */
+export async function getParityOutcome(call: Promise<unknown>): Promise<string> {
+  const reason = await getRevertReason(call);
+  return reason === undefined ? "success" : reason;
+}
+
+/**
+ * Returns the version's wrap module connected to the caller behind WrapModule's signatures, so wrap scenarios can run
+ * unchanged on both versions. WrapModuleV2 is passed empty wrap data.
+ */
+export function getWrapModuleEntryPoints(
+  version: ParityVersion,
+  wrapModule: WrapModule | WrapModuleV2,
+  caller: Account
+): WrapModuleEntryPoints {
+  if (version === "V1") {
+    const v1 = (wrapModule as WrapModule).connect(caller.wallet);
+    return {
+      wrap: (ckToken, underlyingToken, wrappedToken, underlyingUnits, integrationName, overrides = {}) =>
+        v1.wrap(ckToken, underlyingToken, wrappedToken, underlyingUnits, integrationName, overrides),
+      wrapWithEther: (ckToken, wrappedToken, underlyingUnits, integrationName, overrides = {}) =>
+        v1.wrapWithEther(ckToken, wrappedToken, underlyingUnits, integrationName, overrides),
+      unwrap: (ckToken, underlyingToken, wrappedToken, wrappedUnits, integrationName, overrides = {}) =>
+        v1.unwrap(ckToken, underlyingToken, wrappedToken, wrappedUnits, integrationName, overrides),
+      unwrapWithEther: (ckToken, wrappedToken, wrappedUnits, integrationName, overrides = {}) =>
+        v1.unwrapWithEther(ckToken, wrappedToken, wrappedUnits, integrationName, overrides),
+    };
+  }
+
+  const v2 = (wrapModule as WrapModuleV2).connect(caller.wallet);
+  return {
+    wrap: (ckToken, underlyingToken, wrappedToken, underlyingUnits, integrationName, overrides = {}) =>
+      v2.wrap(ckToken, underlyingToken, wrappedToken, underlyingUnits, integrationName, EMPTY_BYTES, overrides),
+    wrapWithEther: (ckToken, wrappedToken, underlyingUnits, integrationName, overrides = {}) =>
+      v2.wrapWithEther(ckToken, wrappedToken, underlyingUnits, integrationName, EMPTY_BYTES, overrides),
+    unwrap: (ckToken, underlyingToken, wrappedToken, wrappedUnits, integrationName, overrides = {}) =>
+      v2.unwrap(ckToken, underlyingToken, wrappedToken, wrappedUnits, integrationName, EMPTY_BYTES, overrides),
+    unwrapWithEther: (ckToken, wrappedToken, wrappedUnits, integrationName, overrides = {}) =>
+      v2.unwrapWithEther(ckToken, wrappedToken, wrappedUnits, integrationName, EMPTY_BYTES, overrides),
+  };
+}
+
+/* ============ Helpers ============ */
+
+class VersionContext<T> implements ParityContext<T> {
+  public version: ParityVersion;
+
+  private _system: T | undefined;
+  private _observations: { [scenario: string]: string };
+
+  constructor(version: ParityVersion, observations: { [scenario: string]: string }) {
+    this.version = version;
+    this._observations = observations;
+  }
+
+  public get system(): T {
+    if (this._system === undefined) {
+      throw new Error(`The ${this.version} system is only deployed once the version's scenarios start running`);
+    }
+    return this._system;
+  }
+
+  public deployed(system: T): void {
+    this._system = system;
+  }
+
+  public record(scenario: string, observation: unknown): void {
+    if (this._observations[scenario] !== undefined) {
+      throw new Error(`Scenario ${scenario} was recorded twice on ${this.version}`);
+    }
+
+    this._observations[scenario] = JSON.stringify(normalizeObservation(observation));
+  }
+}
+
+function isUnintendedDifference(result: ParityResult): boolean {
+  const [v1, v2] = PARITY_VERSIONS.map(version => result.observations[version]);
+
+  return result.intendedDifference === undefined && v1 !== undefined && v2 !== undefined && v1 !== v2;
+}
+
+// BigNumber's toJSON runs before any JSON.stringify replacer and serializes the hex value, so convert ahead of it
+function normalizeObservation(observation: unknown): unknown {
+  if (BigNumber.isBigNumber(observation)) {
+    return observation.toString();
+  }
+
+  if (Array.isArray(observation)) {
+    return observation.map(normalizeObservation);
+  }
+
+  if (observation && typeof observation === "object") {
+    const object = observation as { [key: string]: unknown };
+    const normalized: { [key: string]: unknown } = {};
+    Object.keys(object).forEach(key => {
+      normalized[key] = normalizeObservation(object[key]);
+    });
+    return normalized;
+  }
+
+  return observation;
+}
@@ -0,0 +1,73 @@
+import * as fc from "fast-check";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { MAX_INT_256, MAX_UINT_256, MIN_INT_256, PRECISE_UNIT } from "../constants";
+import { getWaffleExpect } from "./testingUtils";
+
+const expect = getWaffleExpect();
+
+// Runs per property, override with PROPERTY_RUNS for longer local fuzzing sessions
+export const PROPERTY_RUNS = process.env.PROPERTY_RUNS ? parseInt(process.env.PROPERTY_RUNS) : 100;
+
+const toBigNumber = (value: bigint): BigNumber => BigNumber.from(value.toString());
+
+/**
+ * Unsigned values of mixed magnitude. Products of two 128 bit values fit in a uint256, so mixing widths exercises
+ * both the in-range paths and the SafeMath overflow reverts.
+ */
+export const uint256Arbitrary = (): fc.Arbitrary<BigNumber> => {
+  return fc.oneof(
+    fc.constantFrom(BigNumber.from(0), BigNumber.from(1), PRECISE_UNIT, PRECISE_UNIT.sub(1), PRECISE_UNIT.add(1), MAX_UINT_256),
+    uintNArbitrary(64),
+    uintNArbitrary(128),
+    uintNArbitrary(256)
+  );
+};
+
+/**
+ * Signed values of mixed magnitude, including the int256 bounds
+ */
+export const int256Arbitrary = (): fc.Arbitrary<BigNumber> => {
+  return fc.oneof(
+    fc.constantFrom(
+      BigNumber.from(0),
+      BigNumber.from(1),
+      BigNumber.from(-1),
+      PRECISE_UNIT,
+      PRECISE_UNIT.mul(-1),
+      BigNumber.from(MAX_INT_256),
+      BigNumber.from(MIN_INT_256)
+    ),
+    intNArbitrary(64),
+    intNArbitrary(128),
+    intNArbitrary(256)
+  );
+};
+
+export const uintNArbitrary = (bits: number): fc.Arbitrary<BigNumber> => {
+  return fc.bigUintN(bits).map(toBigNumber);
+};
+
+export const intNArbitrary = (bits: number): fc.Arbitrary<BigNumber> => {
+  return fc.bigIntN(bits).map(toBigNumber);
+};
+
+export const fitsUint256 = (value: BigNumber): boolean => {
+  return value.gte(0) && value.lte(MAX_UINT_256);
+};
+
+export const fitsInt256 = (value: BigNumber): boolean => {
+  return value.gte(MIN_INT_256) && value.lte(MAX_INT_256);
+};
+
+/**
+ * Asserts a contract call returns exactly the mirrored value, or reverts when the mirror returns undefined because an
+ * intermediate value leaves the Solidity type's range
+ */
+export async function expectParity(call: () => Promise<BigNumber>, expected: BigNumber | undefined): Promise<void> {
+  if (expected === undefined) {
+    await expect(call()).to.be.reverted;
+  } else {
+    expect(await call()).to.eq(expected);
+  }
+}
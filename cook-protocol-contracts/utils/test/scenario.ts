@@ -0,0 +1,443 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { ContractTransaction, Signer } from "ethers";
+
+import { Address, Bytes, Position } from "../types";
+import { ADDRESS_ZERO, EMPTY_BYTES, MAX_UINT_256 } from "../constants";
+import { ChainlinkAggregatorMock, CKToken, OracleMock, StreamingFeeModule } from "../contracts";
+import { SystemFixture } from "../fixtures";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { getAccounts } from "./accountUtils";
+import { diffPositions, formatTable, isWithinTolerance, labelAddress } from "./tableUtils";
+import { getWaffleExpect, increaseTimeAsync } from "./testingUtils";
+import { Account } from "./types";
+
+const expect = getWaffleExpect();
+
+// Modules sharing the issue / redeem interface of BasicIssuanceModule and DebtIssuanceModule
+export interface ScenarioIssuanceModule {
+  address: Address;
+  connect(signer: Signer): ScenarioIssuanceModule;
+  issue(ckToken: Address, quantity: BigNumberish, to: Address): Promise<ContractTransaction>;
+  redeem(ckToken: Address, quantity: BigNumberish, to: Address): Promise<ContractTransaction>;
+}
+
+// Modules sharing the lever / delever interface of CompoundLeverageModule and AaveLeverageModule
+export interface ScenarioLeverageModule {
+  address: Address;
+  connect(signer: Signer): ScenarioLeverageModule;
+  lever(
+    ckToken: Address,
+    borrowAsset: Address,
+    collateralAsset: Address,
+    borrowQuantityUnits: BigNumberish,
+    minReceiveQuantityUnits: BigNumberish,
+    tradeAdapterName: string,
+    tradeData: Bytes
+  ): Promise<ContractTransaction>;
+  delever(
+    ckToken: Address,
+    collateralAsset: Address,
+    repayAsset: Address,
+    redeemQuantityUnits: BigNumberish,
+    minRepayQuantityUnits: BigNumberish,
+    tradeAdapterName: string,
+    tradeData: Bytes
+  ): Promise<ContractTransaction>;
+}
+
+export interface ScenarioActors {
+  [name: string]: Account;
+}
+
+// Protocol fixtures (Compound, Uniswap, ...) the steps reach into, by name, e.g. { compound: CompoundFixture }
+export interface ScenarioFixtures {
+  [name: string]: unknown;
+}
+
+export interface ScenarioSystem<F extends ScenarioFixtures = {}> {
+  setup: SystemFixture;
+  ckToken: CKToken;
+  fixtures: F;
+  labels?: { [address: string]: string }; // Display names for addresses in failure tables
+}
+
+export interface ScenarioContext<F extends ScenarioFixtures = {}> {
+  setup: SystemFixture;
+  ckToken: CKToken;
+  fixtures: F;
+  labels: { [address: string]: string };  // Lower cased address => display name
+  actors: ScenarioActors;
+}
+
+export interface ExpectedPosition {
+  component: Address;
+  unit: BigNumber;
+  positionState?: number;                 // Defaults to 0 (Default)
+  module?: Address;                       // Defaults to ADDRESS_ZERO, must be set for external positions
+  tolerance?: BigNumber;                  // Absolute tolerance on the unit, defaults to exact
+}
+
+export interface ExpectedBalance {
+  token: Address;
+  holder: string;                         // Actor name or address
+  amount: BigNumber;
+  tolerance?: BigNumber;
+}
+
+export interface ScenarioExpectation<F extends ScenarioFixtures = {}> {
+  positions?: ExpectedPosition[];         // The full position list, missing or extra positions fail
+  balances?: ExpectedBalance[];
+  totalSupply?: BigNumber;
+  check?: (context: ScenarioContext<F>) => Promise<void>;
+}
+
+interface ScenarioStepBase<F extends ScenarioFixtures = {}> {
+  description?: string;
+  caller?: string;                        // Actor name, defaults to the first actor
+  revertsWith?: string;                   // Expect the step to revert with this reason instead of succeeding
+  expect?: ScenarioExpectation<F>;
+}
+
+export interface IssueStep extends ScenarioStepBase {
+  action: "issue";
+  module: ScenarioIssuanceModule;
+  quantity: BigNumber;
+  to?: string;                            // Actor name or address, defaults to the caller
+  approve?: boolean;                      // Approve every component to the module from the caller before issuing
+}
+
+export interface RedeemStep extends ScenarioStepBase {
+  action: "redeem";
+  module: ScenarioIssuanceModule;
+  quantity: BigNumber;
+  to?: string;
+}
+
+export interface LeverStep extends ScenarioStepBase {
+  action: "lever";
+  module: ScenarioLeverageModule;
+  borrowAsset: Address;
+  collateralAsset: Address;
+  borrowQuantity: BigNumber;
+  minReceiveQuantity: BigNumber;
+  tradeAdapterName: string;
+  tradeData?: Bytes;
+}
+
+export interface DeleverStep extends ScenarioStepBase {
+  action: "delever";
+  module: ScenarioLeverageModule;
+  collateralAsset: Address;
+  repayAsset: Address;
+  redeemQuantity: BigNumber;
+  minRepayQuantity: BigNumber;
+  tradeAdapterName: string;
+  tradeData?: Bytes;
+}
+
+export interface MovePriceStep extends ScenarioStepBase {
+  action: "movePrice";
+  oracle: OracleMock | ChainlinkAggregatorMock;
+  price: BigNumber;                       // 18 decimal precise unit, rescaled for Chainlink aggregators
+}
+
+export interface AdvanceTimeStep extends ScenarioStepBase {
+  action: "advanceTime";
+  duration: BigNumber;                    // Seconds
+}
+
+export interface AccrueFeeStep extends ScenarioStepBase {
+  action: "accrueFee";
+  module?: StreamingFeeModule;            // Defaults to the SystemFixture StreamingFeeModule
+}
+
+export interface CustomStep<F extends ScenarioFixtures = {}> extends ScenarioStepBase<F> {
+  action: "custom";
+  run: (context: ScenarioContext<F>, caller: Account) => Promise<ContractTransaction | void>;
+}
+
+export type ScenarioStep<F extends ScenarioFixtures = {}> =
+  IssueStep |
+  RedeemStep |
+  LeverStep |
+  DeleverStep |
+  MovePriceStep |
+  AdvanceTimeStep |
+  AccrueFeeStep |
+  CustomStep<F>;
+
+export interface ScenarioDefinition<F extends ScenarioFixtures = {}> {
+  name: string;
+  actors: string[];                       // Assigned to hardhat accounts in order
+  system: (actors: ScenarioActors) => Promise<ScenarioSystem<F>>;
+  steps: (context: ScenarioContext<F>) => ScenarioStep<F>[];  // Built once the system exists so steps can reference it
+}
+
+/**
+ * Runs a declarative multi-step integration scenario. The definition names the actors, builds the starting system
+ * and lists the steps to execute against the CKToken. After each step the runner checks the step's expected
+ * positions, balances and supply and fails with a table of expected vs actual values for the whole CKToken, so a
+ * diverging step is readable without re-running it with logging.
+ */
+export class ScenarioRunner<F extends ScenarioFixtures = {}> {
+  private _definition: ScenarioDefinition<F>;
+  private _context: ScenarioContext<F>;
+  private _steps: ScenarioStep<F>[];
+
+  constructor(definition: ScenarioDefinition<F>) {
+    this._definition = definition;
+  }
+
+  public get context(): ScenarioContext<F> {
+    return this._context;
+  }
+
+  /**
+   * Assigns accounts to actors and builds the starting system. Called by run() if not called beforehand, which lets
+   * specs build the system once inside cacheBeforeEach and run steps per test.
+   */
+  public async initialize(): Promise<ScenarioContext<F>> {
+    const accounts = await getAccounts();
+    if (this._definition.actors.length > accounts.length) {
+      throw new Error(`Scenario "${this._definition.name}" has more actors than available accounts`);
+    }
+
+    const actors: ScenarioActors = {};
+    this._definition.actors.forEach((name, i) => {
+      actors[name] = accounts[i];
+    });
+
+    const system = await this._definition.system(actors);
+
+    this._context = {
+      setup: system.setup,
+      ckToken: system.ckToken,
+      fixtures: system.fixtures,
+      labels: this._buildLabels(system, actors),
+      actors,
+    };
+    this._steps = this._definition.steps(this._context);
+
+    return this._context;
+  }
+
+  public async run(): Promise<ScenarioContext<F>> {
+    if (this._context === undefined) {
+      await this.initialize();
+    }
+
+    for (let i = 0; i < this._steps.length; i++) {
+      await this.runStep(i);
+    }
+
+    return this._context;
+  }
+
+  /**
+   * Executes a single step by index and checks its expectations
+   */
+  public async runStep(index: number): Promise<void> {
+    const step = this._steps[index];
+    const caller = this._resolveActor(step.caller || this._definition.actors[0]);
+
+    if (step.revertsWith !== undefined) {
+      await expect(this._execute(step, caller)).to.be.revertedWith(step.revertsWith);
+    } else {
+      await this._execute(step, caller);
+    }
+
+    if (step.expect !== undefined) {
+      await this._checkExpectation(this._describeStep(index), step.expect);
+    }
+  }
+
+  /* ============ Private ============ */
+
+  private async _execute(step: ScenarioStep<F>, caller: Account): Promise<ContractTransaction | void> {
+    const { ckToken, setup } = this._context;
+
+    switch (step.action) {
+      case "issue":
+        if (step.approve) {
+          await this._approveComponents(caller, step.module.address);
+        }
+        return step.module.connect(caller.wallet).issue(
+          ckToken.address,
+          step.quantity,
+          this._resolveAddress(step.to || caller.address)
+        );
+      case "redeem":
+        return step.module.connect(caller.wallet).redeem(
+          ckToken.address,
+          step.quantity,
+          this._resolveAddress(step.to || caller.address)
+        );
+      case "lever":
+        return step.module.connect(caller.wallet).lever(
+          ckToken.address,
+          step.borrowAsset,
+          step.collateralAsset,
+          step.borrowQuantity,
+          step.minReceiveQuantity,
+          step.tradeAdapterName,
+          step.tradeData || EMPTY_BYTES
+        );
+      case "delever":
+        return step.module.connect(caller.wallet).delever(
+          ckToken.address,
+          step.collateralAsset,
+          step.repayAsset,
+          step.redeemQuantity,
+          step.minRepayQuantity,
+          step.tradeAdapterName,
+          step.tradeData || EMPTY_BYTES
+        );
+      case "movePrice":
+        if (isChainlinkAggregator(step.oracle)) {
+          return setup.updateChainlinkPrice(step.oracle, step.price);
+        }
+        return step.oracle.updatePrice(step.price);
+      case "advanceTime":
+        return increaseTimeAsync(step.duration);
+      case "accrueFee":
+        return (step.module || setup.streamingFeeModule).connect(caller.wallet).accrueFee(ckToken.address);
+      case "custom":
+        return step.run(this._context, caller);
+    }
+  }
+
+  private async _approveComponents(caller: Account, spender: Address): Promise<void> {
+    const components = await this._context.ckToken.getComponents();
+    for (let i = 0; i < components.length; i++) {
+      await ERC20__factory.connect(components[i], caller.wallet).approve(spender, MAX_UINT_256);
+    }
+  }
+
+  private async _checkExpectation(stepDescription: string, expectation: ScenarioExpectation<F>): Promise<void> {
+    const failures: string[] = [];
+
+    if (expectation.positions !== undefined) {
+      const positionDiff = await this._diffPositions(expectation.positions);
+      if (positionDiff !== undefined) {
+        failures.push(`Positions:\n${positionDiff}`);
+      }
+    }
+
+    if (expectation.balances !== undefined) {
+      const balanceDiff = await this._diffBalances(expectation.balances);
+      if (balanceDiff !== undefined) {
+        failures.push(`Balances:\n${balanceDiff}`);
+      }
+    }
+
+    if (expectation.totalSupply !== undefined) {
+      const totalSupply = await this._context.ckToken.totalSupply();
+      if (!totalSupply.eq(expectation.totalSupply)) {
+        failures.push(`Total supply: expected ${expectation.totalSupply.toString()}, actual ${totalSupply.toString()}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      expect.fail(`${stepDescription} did not match expectations\n\n${failures.join("\n\n")}`);
+    }
+
+    if (expectation.check !== undefined) {
+      await expectation.check(this._context);
+    }
+  }
+
+  private async _diffPositions(expectedPositions: ExpectedPosition[]): Promise<string | undefined> {
+    const actualPositions: Position[] = await this._context.ckToken.getPositions();
+    const comparedPositions = expectedPositions.map(expected => ({
+      component: expected.component,
+      module: expected.module || ADDRESS_ZERO,
+      positionState: expected.positionState || 0,
+      unit: expected.unit,
+      tolerance: expected.tolerance,
+    }));
+
+    const { matches, table } = diffPositions(comparedPositions, actualPositions, this._context.labels);
+    return matches ? undefined : table;
+  }
+
+  private async _diffBalances(expectedBalances: ExpectedBalance[]): Promise<string | undefined> {
+    const rows: string[][] = [];
+    const mismatches: boolean[] = [];
+
+    for (let i = 0; i < expectedBalances.length; i++) {
+      const expected = expectedBalances[i];
+      const holder = this._resolveAddress(expected.holder);
+      const balance = await ERC20__factory.connect(expected.token, this._context.setup.weth.provider).balanceOf(holder);
+
+      rows.push([
+        labelAddress(expected.token, this._context.labels),
+        labelAddress(holder, this._context.labels),
+        expected.amount.toString(),
+        balance.toString(),
+        balance.sub(expected.amount).toString(),
+      ]);
+      mismatches.push(!isWithinTolerance(balance, expected.amount, expected.tolerance));
+    }
+
+    if (mismatches.indexOf(true) === -1) {
+      return undefined;
+    }
+
+    return formatTable(["Token", "Holder", "Expected", "Actual", "Difference"], rows, mismatches);
+  }
+
+  private _describeStep(index: number): string {
+    const step = this._steps[index];
+    const description = step.description ? `: ${step.description}` : "";
+    return `Scenario "${this._definition.name}" step ${index + 1} (${step.action}${description})`;
+  }
+
+  private _resolveActor(name: string): Account {
+    const actor = this._context.actors[name];
+    if (actor === undefined) {
+      throw new Error(`Scenario "${this._definition.name}" has no actor named "${name}"`);
+    }
+    return actor;
+  }
+
+  // Actor names resolve to their address, anything else is taken to already be an address
+  private _resolveAddress(actorOrAddress: string): Address {
+    const actor = this._context.actors[actorOrAddress];
+    return actor === undefined ? actorOrAddress : actor.address;
+  }
+
+  private _buildLabels(system: ScenarioSystem<F>, actors: ScenarioActors): { [address: string]: string } {
+    const { setup, ckToken } = system;
+    const labels: { [address: string]: string } = {
+      [ADDRESS_ZERO]: "-",
+      [ckToken.address.toLowerCase()]: "CKToken",
+      [setup.weth.address.toLowerCase()]: "WETH",
+      [setup.usdc.address.toLowerCase()]: "USDC",
+      [setup.wbtc.address.toLowerCase()]: "WBTC",
+      [setup.dai.address.toLowerCase()]: "DAI",
+      [setup.issuanceModule.address.toLowerCase()]: "BasicIssuanceModule",
+      [setup.streamingFeeModule.address.toLowerCase()]: "StreamingFeeModule",
+      [setup.navIssuanceModule.address.toLowerCase()]: "NavIssuanceModule",
+    };
+
+    Object.keys(actors).forEach(name => {
+      labels[actors[name].address.toLowerCase()] = name;
+    });
+
+    const customLabels = system.labels || {};
+    Object.keys(customLabels).forEach(address => {
+      labels[address.toLowerCase()] = customLabels[address];
+    });
+
+    return labels;
+  }
+}
+
+export const runScenario = async <F extends ScenarioFixtures = {}>(definition: ScenarioDefinition<F>): Promise<ScenarioContext<F>> => {
+  return new ScenarioRunner(definition).run();
+};
+
+// OracleMock has no updateAnswer, both contracts' index signatures keep the in operator from narrowing
+function isChainlinkAggregator(oracle: OracleMock | ChainlinkAggregatorMock): oracle is ChainlinkAggregatorMock {
+  return "updateAnswer" in oracle.functions;
+}
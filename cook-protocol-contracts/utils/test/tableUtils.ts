@@ -0,0 +1,148 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Address, Position } from "../types";
+
+// Row marker used to flag rows whose expected and actual values disagree
+export const MISMATCH_MARKER = ">";
+
+/**
+ * Renders rows as a fixed-width text table for assertion failure messages. The first column is reserved for the
+ * mismatch marker so diverging rows stand out.
+ */
+export function formatTable(headers: string[], rows: string[][], mismatches: boolean[] = []): string {
+  const widths = headers.map((header, i) => {
+    return rows.reduce((width, row) => Math.max(width, row[i].length), header.length);
+  });
+
+  const formatRow = (cells: string[], marker: string): string => {
+    const paddedCells = cells.map((cell, i) => padRight(cell, widths[i]));
+    return `${padRight(marker, MISMATCH_MARKER.length)} | ${paddedCells.join(" | ")} |`;
+  };
+
+  const separator = `${padRight("", MISMATCH_MARKER.length)} |${widths.map(width => padRight("", width + 2, "-")).join("|")}|`;
+
+  return [
+    formatRow(headers, ""),
+    separator,
+    ...rows.map((row, i) => formatRow(row, mismatches[i] ? MISMATCH_MARKER : "")),
+  ].join("\n");
+}
+
+const POSITION_STATES = ["Default", "External"];
+
+export interface ComparedPosition {
+  component: Address;
+  module: Address;
+  positionState: number;
+  unit: BigNumber;
+  data?: string;                          // Only compared when set
+  tolerance?: BigNumber;                  // Absolute tolerance on the unit, defaults to exact
+}
+
+export interface PositionDiff {
+  matches: boolean;
+  table: string;
+}
+
+/**
+ * Matches expected and actual positions on component, module and state regardless of order. Every expected position
+ * and every unmatched actual position becomes a row; rows with a unit outside tolerance, differing data, or no
+ * counterpart are flagged.
+ */
+export function diffPositions(
+  expectedPositions: ComparedPosition[],
+  actualPositions: Position[],
+  labels: { [address: string]: string } = {}
+): PositionDiff {
+  const rows: string[][] = [];
+  const mismatches: boolean[] = [];
+  const matched: boolean[] = actualPositions.map(() => false);
+
+  expectedPositions.forEach(expected => {
+    let actualIndex = -1;
+    actualPositions.forEach((actual, i) => {
+      if (
+        actualIndex === -1 &&
+        !matched[i] &&
+        actual.component.toLowerCase() === expected.component.toLowerCase() &&
+        actual.module.toLowerCase() === expected.module.toLowerCase() &&
+        actual.positionState === expected.positionState
+      ) {
+        actualIndex = i;
+      }
+    });
+
+    const actual = actualIndex === -1 ? undefined : actualPositions[actualIndex];
+    if (actual !== undefined) {
+      matched[actualIndex] = true;
+    }
+
+    const isDataMismatch = actual !== undefined && expected.data !== undefined && actual.data !== expected.data;
+    rows.push(positionRow(expected, expected.unit, actual && actual.unit, labels, isDataMismatch ? actual!.data : undefined));
+    mismatches.push(isDataMismatch || !isWithinTolerance(actual && actual.unit, expected.unit, expected.tolerance));
+  });
+
+  actualPositions.forEach((actual, i) => {
+    if (!matched[i]) {
+      rows.push(positionRow(actual, undefined, actual.unit, labels));
+      mismatches.push(true);
+    }
+  });
+
+  return {
+    matches: mismatches.indexOf(true) === -1,
+    table: formatTable(["Component", "Module", "State", "Expected Unit", "Actual Unit", "Difference"], rows, mismatches),
+  };
+}
+
+export function isWithinTolerance(actual: BigNumber | undefined, expected: BigNumber, tolerance?: BigNumber): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+
+  return actual.sub(expected).abs().lte(tolerance || 0);
+}
+
+/**
+ * Shortens an address to 0x1234...abcd unless a label is registered for it
+ */
+export function labelAddress(address: string, labels: { [address: string]: string } = {}): string {
+  const label = labels[address.toLowerCase()];
+  if (label !== undefined) {
+    return label;
+  }
+
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function padRight(value: string, width: number, fill: string = " "): string {
+  let padded = value;
+  while (padded.length < width) {
+    padded += fill;
+  }
+  return padded;
+}
+
+function positionRow(
+  position: { component: Address; module: Address; positionState: number },
+  expectedUnit: BigNumber | undefined,
+  actualUnit: BigNumber | undefined,
+  labels: { [address: string]: string },
+  actualData?: string
+): string[] {
+  let difference = "-";
+  if (actualData !== undefined) {
+    difference = `data ${actualData}`;
+  } else if (expectedUnit !== undefined && actualUnit !== undefined) {
+    difference = actualUnit.sub(expectedUnit).toString();
+  }
+
+  return [
+    labelAddress(position.component, labels),
+    labelAddress(position.module, labels),
+    POSITION_STATES[position.positionState] || position.positionState.toString(),
+    expectedUnit === undefined ? "missing" : expectedUnit.toString(),
+    actualUnit === undefined ? "missing" : actualUnit.toString(),
+    difference,
+  ];
+}
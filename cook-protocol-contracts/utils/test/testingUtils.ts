@@ -1,7 +1,9 @@
 import chai from "chai";
 import { solidity } from "ethereum-waffle";
+import { ckTokenMatchers } from "./matchers";
 
 chai.use(solidity);
+chai.use(ckTokenMatchers);
 
 // Use HARDHAT version of providers
 import { ethers } from "hardhat";
@@ -39,6 +39,12 @@ export interface BatchIssuanceSetting {
   minCKTokenSupply: BigNumber;
 }
 
+export interface BatchIssuanceSettingV2 {
+  pooledToken: Address;
+  slippage: BigNumber;
+  incentive: BigNumber;
+}
+
 export interface NAVIssuanceSettings {
   managerIssuanceHook: Address;
   managerRedemptionHook: Address;
@@ -53,4 +59,66 @@ export interface NAVIssuanceSettings {
 
 export interface CustomOracleNAVIssuanceSettings extends NAVIssuanceSettings {
   ckValuer: Address;
-}
\ No newline at end of file
+}
+
+export interface ModuleManifest {
+  name: string;
+  args?: string[];
+}
+
+export interface IntegrationManifest {
+  module: string;
+  integrationName: string;
+}
+
+export interface AdapterManifest {
+  name: string;
+  args?: string[];
+  integrations: IntegrationManifest[];
+}
+
+export interface OraclePairManifest {
+  assetOne: string;
+  assetTwo: string;
+  oracle: string;
+}
+
+export interface MockTokenManifest {
+  name: string;
+  decimals: number;
+  initialBalance: string;
+}
+
+export interface MockOracleManifest {
+  name: string;
+  price: string;
+}
+
+export interface DeployManifest {
+  feeRecipient?: string;
+  external?: { [name: string]: Address };
+  mockTokens?: MockTokenManifest[];
+  mockOracles?: MockOracleManifest[];
+  modules: ModuleManifest[];
+  adapters: AdapterManifest[];
+  priceOracle: {
+    masterQuoteAsset: string;
+    adapters: string[];
+    pairs: OraclePairManifest[];
+  };
+  resources: { [name: string]: number };
+}
+
+export interface AddressBookAdapter {
+  address: Address;
+  integrations: IntegrationManifest[];
+}
+
+export interface NetworkAddressBook {
+  network: string;
+  chainId: number;
+  core: { [name: string]: Address };
+  modules: { [name: string]: Address };
+  adapters: { [name: string]: AddressBookAdapter };
+  external: { [name: string]: Address };
+}